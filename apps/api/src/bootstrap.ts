@@ -6,7 +6,7 @@
  *
  * Sequence:
  *   1. Load config + validate license
- *   2. Initialize database connection
+ *   2. Initialize database connection (+ field encryption keys)
  *   3. Register domain entities with the platform
  *   4. Build database schemas from entity definitions
  *   5. Generate CRUD actions for each entity
@@ -20,6 +20,7 @@ import {
   loadConfig,
   initLicensing,
   initDatabase,
+  initEncryption,
   initAuthProvider,
   initAIGateway,
   initEmail,
@@ -60,6 +61,9 @@ export async function bootstrap(options?: { plugins?: MetaSAASPlugin[] }) {
   // 3. Initialize database connection
   initDatabase(config);
 
+  // 3b. Load field encryption keys — sensitive fields are encrypted at rest
+  initEncryption();
+
   // 4. Initialize authentication provider
   initAuthProvider();
 
@@ -80,8 +84,9 @@ export async function bootstrap(options?: { plugins?: MetaSAASPlugin[] }) {
   // 8. Run platform migrations (chat tables, etc.)
   await runPlatformMigrations();
 
-  // 9. Run entity migrations (create tables if they don't exist)
-  await runMigrations(entities);
+  // 9. Run entity migrations (create tables if they don't exist). Drift is
+  //    logged, not refused — approving it is left to `pnpm db:migrate`
+  await runMigrations(entities, { warnOnDrift: true });
 
   // 10. Initialize email service (auto-detects Resend or falls back to console)
   initEmail();
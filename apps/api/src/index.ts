@@ -14,7 +14,7 @@ import Fastify from "fastify";
 import cors from "@fastify/cors";
 import helmet from "@fastify/helmet";
 import rateLimit from "@fastify/rate-limit";
-import { registerRESTRoutes, registerPluginRoutes, closeDatabase, initWebhooks, flushObservability, captureException } from "@metasaas/platform";
+import { registerRESTRoutes, registerPluginRoutes, closeDatabase, initWebhooks, flushObservability, captureException, startTrashRetention, stopTrashRetention, startAIScheduler, stopAIScheduler, startJobWorker, stopJobWorker, startOutboxRelay, stopOutboxRelay, getAllEntities } from "@metasaas/platform";
 import { bootstrap } from "./bootstrap.js";
 
 async function main() {
@@ -87,10 +87,29 @@ async function main() {
     `\n  MetaSAAS API running at http://localhost:${config.api.port}\n`
   );
 
+  // 9. Purge soft-deleted records past their retention period
+  startTrashRetention(getAllEntities());
+
+  // 10. Run scheduled AI capabilities (on_schedule triggers)
+  startAIScheduler(getAllEntities());
+
+  // 11. Run background jobs in this process, unless dedicated workers do (src/worker.ts)
+  if (process.env.JOB_WORKER_INLINE !== "false") {
+    startJobWorker();
+  }
+
+  // 12. Publish events that transactions wrote to the outbox (including ones
+  // left behind by processes that stopped before relaying them)
+  startOutboxRelay();
+
   // 7. Graceful shutdown
   const shutdown = async () => {
     console.log("\n[shutdown] Closing...");
+    stopTrashRetention();
+    stopAIScheduler();
     await app.close();
+    await stopJobWorker();
+    await stopOutboxRelay();
     await flushObservability(2000);
     await closeDatabase();
     process.exit(0);
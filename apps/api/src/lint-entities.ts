@@ -0,0 +1,34 @@
+/**
+ * Entity Lint Script
+ *
+ * Checks every entity definition in the domain package — the same
+ * semantic validation registerEntities runs at startup — and prints the
+ * issues found, grouped by entity. Needs no database.
+ *
+ * Usage: pnpm lint:entities
+ *
+ * Exits with code 1 when there are issues, so it can gate CI.
+ */
+
+import { validateEntityDefinitions } from "@metasaas/platform";
+import { entities } from "@metasaas/domain";
+
+function lintEntities() {
+  const issues = validateEntityDefinitions(entities);
+
+  if (issues.length === 0) {
+    console.log(`[lint-entities] ${entities.length} entities, no issues.`);
+    process.exit(0);
+  }
+
+  for (const entity of [...new Set(issues.map((i) => i.entity))]) {
+    console.error(`\n${entity}`);
+    for (const issue of issues.filter((i) => i.entity === entity)) {
+      console.error(`  ${issue.path}  ${issue.message}  (${issue.code})`);
+    }
+  }
+  console.error(`\n[lint-entities] ${issues.length} issue(s) in ${entities.length} entities.`);
+  process.exit(1);
+}
+
+lintEntities();
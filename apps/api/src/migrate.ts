@@ -4,7 +4,13 @@
  * Runs database migrations independently of server startup.
  * Creates tables for all registered entities.
  *
- * Usage: pnpm db:migrate
+ * Usage: pnpm db:migrate [-- --dry-run | --approve-drift]
+ *
+ *   --dry-run        Print the migration plan — the SQL per entity — and exit
+ *                    without changing the database
+ *   --approve-drift  Apply the plan even though the database has drifted from
+ *                    the entity definitions (see planMigrations), and record
+ *                    the drift as approved
  *
  * This is useful for:
  *   - Setting up a fresh database
@@ -25,14 +31,19 @@ import {
   initDatabase,
   registerEntities,
   buildTableSchema,
-  runMigrations,
+  planMigrations,
+  applyMigrationPlan,
+  formatMigrationPlan,
   runPlatformMigrations,
   closeDatabase,
 } from "@metasaas/platform";
 import { entities } from "@metasaas/domain";
 
+const dryRun = process.argv.includes("--dry-run");
+const approveDrift = process.argv.includes("--approve-drift");
+
 async function migrate() {
-  console.log("[migrate] Starting database migration...");
+  console.log(`[migrate] Starting database migration${dryRun ? " (dry run)" : ""}...`);
 
   // 1. Load configuration
   const config = loadConfig();
@@ -49,17 +60,27 @@ async function migrate() {
     buildTableSchema(entity);
   }
 
-  // 5. Run platform-level migrations (chat sessions, etc.)
+  // 5. Plan entity-level migrations and show the plan
+  const plan = await planMigrations(entities);
+  console.log(formatMigrationPlan(plan));
+
+  if (dryRun) {
+    await closeDatabase();
+    console.log("[migrate] Dry run — nothing was changed.");
+    process.exit(0);
+  }
+
+  // 6. Run platform-level migrations (chat sessions, etc.)
   await runPlatformMigrations();
 
-  // 6. Run entity-level migrations (CREATE TABLE IF NOT EXISTS)
-  await runMigrations(entities);
+  // 7. Apply the entity-level plan (refused if it has unapproved drift)
+  await applyMigrationPlan(plan, { approveDrift });
 
   console.log(
     `[migrate] Migrated ${entities.length} entities: ${entities.map((e) => e.name).join(", ")}`
   );
 
-  // 6. Clean up
+  // 8. Clean up
   await closeDatabase();
   console.log("[migrate] Done.");
   process.exit(0);
@@ -0,0 +1,62 @@
+/**
+ * Key Rotation Script
+ *
+ * Re-encrypts every sensitive field with the active encryption key
+ * (the first entry in FIELD_ENCRYPTION_KEYS), in entity tables and in the
+ * record history. Also encrypts values that were stored in plaintext
+ * before encryption was enabled.
+ *
+ * Usage: pnpm db:rotate-keys
+ *
+ * Rotation procedure:
+ *   1. Prepend the new key: FIELD_ENCRYPTION_KEYS=k2:<new>,k1:<old>
+ *   2. Restart the API (new writes use k2, old values still decrypt)
+ *   3. Run this script
+ *   4. Remove k1 from FIELD_ENCRYPTION_KEYS
+ */
+
+import dotenv from "dotenv";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+dotenv.config({ path: path.resolve(__dirname, "../../../.env") });
+
+import {
+  loadConfig,
+  initDatabase,
+  initEncryption,
+  rotateEncryptedFields,
+  closeDatabase,
+} from "@metasaas/platform";
+import { entities } from "@metasaas/domain";
+
+async function rotateKeys() {
+  console.log("[rotate-keys] Starting key rotation...");
+
+  // 1. Load configuration and connect
+  const config = loadConfig();
+  initDatabase(config);
+
+  // 2. Load encryption keys (first key is the rotation target)
+  initEncryption();
+
+  // 3. Re-encrypt all sensitive columns
+  const results = await rotateEncryptedFields(entities);
+  const updated = results.reduce((sum, r) => sum + r.updated, 0);
+  const versions = results.reduce((sum, r) => sum + r.versionsUpdated, 0);
+  console.log(
+    `[rotate-keys] Re-encrypted ${updated} row(s) and ${versions} history version(s) across ${results.length} entities`
+  );
+
+  // 4. Clean up
+  await closeDatabase();
+  console.log("[rotate-keys] Done.");
+  process.exit(0);
+}
+
+rotateKeys().catch((err) => {
+  console.error("[rotate-keys] Fatal error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,56 @@
+/**
+ * MetaSAAS Job Worker
+ *
+ * Runs background jobs (see platform core/jobs) outside the API server.
+ * Boots the platform like the server does — so job handlers, entities and
+ * actions are registered — then polls the job queue until stopped.
+ *
+ * Usage: pnpm worker
+ *
+ * Run any number of workers against the same database; jobs are claimed
+ * with row locks, so each job runs once. Set JOB_WORKER_INLINE=false on
+ * the API servers when dedicated workers run the queue.
+ */
+
+import dotenv from "dotenv";
+import path from "path";
+import { fileURLToPath } from "url";
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+dotenv.config({ path: path.resolve(__dirname, "../../../.env") });
+
+import { closeDatabase, initWebhooks, flushObservability, startJobWorker, stopJobWorker, stopOutboxRelay } from "@metasaas/platform";
+import { bootstrap } from "./bootstrap.js";
+
+async function main() {
+  // 1. Boot the platform (registers entities, actions and job handlers)
+  await bootstrap();
+
+  // 2. Events emitted by jobs still reach webhooks
+  initWebhooks();
+
+  // 3. Poll the queue
+  startJobWorker();
+
+  // 4. Graceful shutdown — finish the jobs in progress
+  const shutdown = async () => {
+    console.log("\n[shutdown] Stopping worker...");
+    await stopJobWorker();
+    // Jobs' transactions may still be relaying their events
+    await stopOutboxRelay();
+    await flushObservability(2000);
+    await closeDatabase();
+    process.exit(0);
+  };
+
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+
+  // Keep the process alive — the worker's poll timer doesn't
+  setInterval(() => {}, 1 << 30);
+}
+
+main().catch((err) => {
+  console.error("[worker] Fatal error:", err);
+  process.exit(1);
+});
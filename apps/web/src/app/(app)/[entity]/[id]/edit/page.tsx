@@ -11,11 +11,20 @@ import {
   fetchTransitions,
   updateEntity,
   uploadFile,
+  ApiError,
 } from "@/lib/api-client";
 import { columnToLabel } from "@/lib/utils";
 import { FieldInput } from "@/components/field-input";
 import { useFormDraft } from "@/lib/use-form-draft";
+import { loadFieldOptions, toFormValue, type FieldOptions } from "@/lib/form-fields";
 import { useToast, FormSkeleton } from "@metasaas/ui";
+import {
+  checkEntityRules,
+  checkFieldValidations,
+  computeFields,
+  isArrayFieldType,
+  isDerivedField,
+} from "@metasaas/contracts";
 import type { EntityDefinition, FieldDefinition } from "@metasaas/contracts";
 import type { RelationshipOption } from "@metasaas/ui";
 
@@ -56,6 +65,8 @@ export default function EntityEditPage() {
   >([]);
   /** Maps workflow field name → allowed next states (from /transitions API) */
   const [transitions, setTransitions] = useState<Record<string, string[]>>({});
+  /** Tag suggestions and workspace members for tags and user fields */
+  const [fieldOptions, setFieldOptions] = useState<FieldOptions>({ suggestions: {} });
   const toast = useToast();
   const { clearDraft } = useFormDraft(
     `${entitySlug}/${recordId}/edit`,
@@ -78,12 +89,13 @@ export default function EntityEditPage() {
         const data: Record<string, string> = {};
         if (res.success && res.data) {
           for (const field of meta.fields) {
-            const val = res.data[field.name];
-            data[field.name] =
-              val !== null && val !== undefined ? String(val) : "";
+            data[field.name] = toFormValue(res.data[field.name]);
           }
         }
 
+        // Options load in the background — the fields work without them
+        loadFieldOptions(entitySlug, meta).then(setFieldOptions);
+
         // Load relationship options and pre-select current FK values
         const belongsToRels =
           meta.relationships?.filter((r) => r.type === "belongsTo") ?? [];
@@ -160,8 +172,13 @@ export default function EntityEditPage() {
 
     const data: Record<string, unknown> = {};
     for (const field of entity.fields) {
+      if (isDerivedField(field)) continue; // derived by the API
       const raw = formData[field.name];
-      if (raw === "" || raw === undefined) continue;
+      if (raw === "" || raw === undefined) {
+        // An emptied list is sent, so removing the last tag sticks
+        if (isArrayFieldType(field.type) && raw === "") data[field.name] = [];
+        continue;
+      }
       switch (field.type) {
         case "number":
         case "currency":
@@ -175,9 +192,26 @@ export default function EntityEditPage() {
         case "datetime":
           data[field.name] = new Date(raw).toISOString();
           break;
+        case "json":
+        case "multi_enum":
+        case "tags":
+          try {
+            data[field.name] = JSON.parse(raw);
+          } catch {
+            setErrors({ [field.name]: "Must be valid JSON" });
+            setSubmitting(false);
+            return;
+          }
+          break;
         default:
           data[field.name] = raw;
       }
+      const invalid = checkFieldValidations(field.type, data[field.name], field.validations);
+      if (invalid) {
+        setErrors({ [field.name]: invalid });
+        setSubmitting(false);
+        return;
+      }
     }
 
     // Include FK values from relationship dropdowns
@@ -186,6 +220,15 @@ export default function EntityEditPage() {
       if (raw) data[fkName] = raw;
     }
 
+    // Cross-field rules, checked here too so the form doesn't wait on the API.
+    // They may read computed fields, so work those out the way the API will.
+    const ruleErrors = checkEntityRules(entity, { ...data, ...computeFields(entity, data) });
+    if (ruleErrors.length > 0) {
+      setErrors(Object.fromEntries(ruleErrors.map((r) => [r.field, r.message])));
+      setSubmitting(false);
+      return;
+    }
+
     try {
       const result = await updateEntity(entitySlug, recordId, data);
       if (result.success) {
@@ -196,6 +239,13 @@ export default function EntityEditPage() {
         setErrors({ _form: result.error ?? "Failed to update" });
       }
     } catch (err) {
+      // Field errors from update validation are reported as "data.<field>"
+      if (err instanceof ApiError && err.fieldErrors.length > 0) {
+        setErrors(
+          Object.fromEntries(err.fieldErrors.map((f) => [f.field.replace(/^data\./, ""), f.message]))
+        );
+        return;
+      }
       const msg = err instanceof Error ? err.message : "An error occurred";
       // Make workflow errors human-readable
       const workflowMatch = msg.match(/Invalid transition.*from "(.+)" to "(.+)"/);
@@ -256,7 +306,14 @@ export default function EntityEditPage() {
                   const res = await uploadFile(key, file);
                   return res.key;
                 } : undefined}
+                suggestions={fieldOptions.suggestions[field.name]}
+                memberOptions={field.type === "user" ? fieldOptions.members : undefined}
               />
+              {errors[field.name] && (
+                <p className="text-xs text-destructive mt-1">
+                  {errors[field.name]}
+                </p>
+              )}
               {allowed && allowed.length === 0 && (
                 <p className="text-xs text-muted-foreground mt-1">
                   No further transitions available from this state.
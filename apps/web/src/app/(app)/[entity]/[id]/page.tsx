@@ -14,7 +14,9 @@ import {
 } from "@/lib/api-client";
 import { formatValue, columnToLabel } from "@/lib/utils";
 import { useToast, ConfirmDialog, DetailSkeleton, CopyButton } from "@metasaas/ui";
-import type { EntityDefinition } from "@metasaas/contracts";
+import { RelatedRecords } from "@/components/related-records";
+import { RecordHistory } from "@/components/record-history";
+import type { EntityDefinition, RelationshipDefinition } from "@metasaas/contracts";
 
 /**
  * Derives the camelCase FK field name from a belongsTo relationship.
@@ -32,6 +34,7 @@ function getFkFieldName(rel: { entity: string; foreignKey?: string }): string {
  *
  * Dynamically renders a detail view for ANY entity record.
  * Resolves foreign key UUIDs to human-readable names via related entity lookups.
+ * The History tab lists the record's versions and can restore an earlier one.
  *
  * URL: /contacts/:id, /companies/:id, etc.
  */
@@ -56,8 +59,13 @@ export default function EntityDetailPage() {
   const [reverseRelated, setReverseRelated] = useState<
     { entity: EntityDefinition; fkField: string; records: Record<string, unknown>[] }[]
   >([]);
+  /** This entity's own hasMany / manyToMany relationships, with related metadata */
+  const [toManyRelated, setToManyRelated] = useState<
+    { relationship: RelationshipDefinition; entity: EntityDefinition }[]
+  >([]);
   const toast = useToast();
   const [confirmOpen, setConfirmOpen] = useState(false);
+  const [tab, setTab] = useState<"details" | "history">("details");
 
   useEffect(() => {
     async function load() {
@@ -111,10 +119,21 @@ export default function EntityDetailPage() {
           setRelatedLabels(labels);
         }
 
-        // Find reverse relationships (other entities whose belongsTo points at this entity)
+        // Declared to-many relationships render as linkable lists
+        const toMany: typeof toManyRelated = [];
+        for (const rel of meta.relationships ?? []) {
+          if (rel.type !== "hasMany" && rel.type !== "manyToMany") continue;
+          const relatedEntity = allMeta.find((e) => e.name === rel.entity);
+          if (relatedEntity) toMany.push({ relationship: rel, entity: relatedEntity });
+        }
+        setToManyRelated(toMany);
+
+        // Find reverse relationships (other entities whose belongsTo points at this entity).
+        // Skipped when a declared hasMany already lists the same entity.
         const reverseResults: { entity: EntityDefinition; fkField: string; records: Record<string, unknown>[] }[] = [];
         for (const otherEntity of allMeta) {
           if (otherEntity.name === meta.name) continue;
+          if (toMany.some((t) => t.relationship.type === "hasMany" && t.entity.name === otherEntity.name)) continue;
           const belongsToThis = (otherEntity.relationships ?? []).find(
             (r) => r.type === "belongsTo" && r.entity === meta.name
           );
@@ -123,7 +142,7 @@ export default function EntityDetailPage() {
             try {
               const relResult = await fetchEntityList(
                 otherEntity.pluralName.toLowerCase(),
-                { [`filter.${fkField}`]: recordId }
+                { [fkField]: recordId }
               );
               if (relResult.success && relResult.data) {
                 reverseResults.push({
@@ -268,147 +287,181 @@ export default function EntityDetailPage() {
         ) : null
       )}
 
-      {/* Field grid */}
-      <div className="border border-border rounded-lg divide-y divide-border">
-        {entity.fields.map((field) => {
-          const nextStates = transitions[field.name];
-          const hasTransitions = nextStates && nextStates.length > 0;
-          return (
-            <div key={field.name} className="flex px-6 py-4">
-              <div className="w-48 shrink-0">
-                <span className="text-sm font-medium text-muted-foreground">
-                  {columnToLabel(field.name)}
-                </span>
+      {/* Tabs */}
+      <div className="mb-6 flex border-b border-border">
+        <TabButton active={tab === "details"} onClick={() => setTab("details")} label="Details" />
+        <TabButton active={tab === "history"} onClick={() => setTab("history")} label="History" />
+      </div>
+
+      {tab === "history" ? (
+        <RecordHistory
+          entitySlug={entitySlug}
+          entity={entity}
+          recordId={recordId}
+          onReverted={async (updated) => {
+            setRecord(updated);
+            try {
+              setTransitions(await fetchTransitions(entitySlug, recordId));
+            } catch { /* non-critical */ }
+          }}
+        />
+      ) : (
+        <>
+          {/* Field grid */}
+          <div className="border border-border rounded-lg divide-y divide-border">
+            {entity.fields.map((field) => {
+              const nextStates = transitions[field.name];
+              const hasTransitions = nextStates && nextStates.length > 0;
+              return (
+                <div key={field.name} className="flex px-6 py-4">
+                  <div className="w-48 shrink-0">
+                    <span className="text-sm font-medium text-muted-foreground">
+                      {columnToLabel(field.name)}
+                    </span>
+                  </div>
+                  <div className="text-sm flex items-center gap-2">
+                    {formatValue(record[field.name])}
+                    {hasTransitions && (
+                      <span className="text-xs text-muted-foreground">
+                        (can transition)
+                      </span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+
+            {/* Relationship fields — show resolved names as links */}
+            {(entity.relationships ?? [])
+              .filter((r) => r.type === "belongsTo")
+              .map((rel) => {
+                const fkField = getFkFieldName(rel);
+                const related = relatedLabels[fkField];
+                const rawValue = record[fkField] as string | undefined;
+                if (!rawValue) return null;
+                return (
+                  <div key={fkField} className="flex px-6 py-4">
+                    <div className="w-48 shrink-0">
+                      <span className="text-sm font-medium text-muted-foreground">
+                        {rel.entity}
+                      </span>
+                    </div>
+                    <div className="text-sm">
+                      {related ? (
+                        <Link
+                          href={`/${related.slug}/${related.id}`}
+                          className="text-primary hover:underline"
+                        >
+                          {related.label}
+                        </Link>
+                      ) : (
+                        <span className="text-muted-foreground">{rawValue}</span>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+
+            {/* System fields */}
+            <div className="flex px-6 py-4 bg-muted/30">
+              <div className="w-48 shrink-0 text-sm font-medium text-muted-foreground">
+                ID
               </div>
-              <div className="text-sm flex items-center gap-2">
-                {formatValue(record[field.name])}
-                {hasTransitions && (
-                  <span className="text-xs text-muted-foreground">
-                    (can transition)
-                  </span>
-                )}
+              <div className="text-sm">
+                <CopyButton value={recordId} className="font-mono text-xs" />
               </div>
             </div>
-          );
-        })}
+            <div className="flex px-6 py-4 bg-muted/30">
+              <div className="w-48 shrink-0 text-sm font-medium text-muted-foreground">
+                Created
+              </div>
+              <div className="text-sm text-foreground">
+                {formatValue(record.createdAt)}
+              </div>
+            </div>
+            <div className="flex px-6 py-4 bg-muted/30">
+              <div className="w-48 shrink-0 text-sm font-medium text-muted-foreground">
+                Updated
+              </div>
+              <div className="text-sm text-foreground">
+                {formatValue(record.updatedAt)}
+              </div>
+            </div>
+          </div>
 
-        {/* Relationship fields — show resolved names as links */}
-        {(entity.relationships ?? [])
-          .filter((r) => r.type === "belongsTo")
-          .map((rel) => {
-            const fkField = getFkFieldName(rel);
-            const related = relatedLabels[fkField];
-            const rawValue = record[fkField] as string | undefined;
-            if (!rawValue) return null;
+          {/* Related Records — declared hasMany / manyToMany relationships */}
+          {toManyRelated.map(({ relationship, entity: relEntity }) => (
+            <RelatedRecords
+              key={`${relationship.type}:${relationship.as ?? relEntity.name}`}
+              entitySlug={entitySlug}
+              entity={entity}
+              recordId={recordId}
+              relationship={relationship}
+              relatedEntity={relEntity}
+            />
+          ))}
+
+          {/* Related Records — reverse relationships (hasMany from other entities) */}
+          {reverseRelated.map(({ entity: relEntity, fkField, records: relRecords }) => {
+            const slug = relEntity.pluralName.toLowerCase();
             return (
-              <div key={fkField} className="flex px-6 py-4">
-                <div className="w-48 shrink-0">
-                  <span className="text-sm font-medium text-muted-foreground">
-                    {rel.entity}
-                  </span>
-                </div>
-                <div className="text-sm">
-                  {related ? (
-                    <Link
-                      href={`/${related.slug}/${related.id}`}
-                      className="text-primary hover:underline"
-                    >
-                      {related.label}
-                    </Link>
-                  ) : (
-                    <span className="text-muted-foreground">{rawValue}</span>
-                  )}
+              <div key={relEntity.name} className="mt-8">
+                <div className="flex items-center justify-between mb-3">
+                  <h2 className="text-lg font-semibold">
+                    {relEntity.pluralName}
+                    <span className="ml-2 text-sm font-normal text-muted-foreground">
+                      ({relRecords.length})
+                    </span>
+                  </h2>
+                  <Link
+                    href={`/${slug}/new?${fkField}=${recordId}`}
+                    className="text-sm text-primary hover:underline"
+                  >
+                    + Add {relEntity.name}
+                  </Link>
                 </div>
+                {relRecords.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No {relEntity.pluralName.toLowerCase()} linked to this {entity.name.toLowerCase()}.
+                  </p>
+                ) : (
+                  <div className="border border-border rounded-lg overflow-hidden">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="bg-muted/50">
+                          {relEntity.ui.listColumns.map((col) => (
+                            <th
+                              key={col}
+                              className="text-left text-xs font-medium text-muted-foreground uppercase tracking-wider px-4 py-3"
+                            >
+                              {columnToLabel(col)}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-border">
+                        {relRecords.map((rr) => (
+                          <tr
+                            key={rr.id as string}
+                            className="hover:bg-muted/30 cursor-pointer transition-colors"
+                            onClick={() => router.push(`/${slug}/${rr.id}`)}
+                          >
+                            {relEntity.ui.listColumns.map((col) => (
+                              <td key={col} className="px-4 py-3 text-sm">
+                                {formatValue(rr[col])}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
               </div>
             );
           })}
-
-        {/* System fields */}
-        <div className="flex px-6 py-4 bg-muted/30">
-          <div className="w-48 shrink-0 text-sm font-medium text-muted-foreground">
-            ID
-          </div>
-          <div className="text-sm">
-            <CopyButton value={recordId} className="font-mono text-xs" />
-          </div>
-        </div>
-        <div className="flex px-6 py-4 bg-muted/30">
-          <div className="w-48 shrink-0 text-sm font-medium text-muted-foreground">
-            Created
-          </div>
-          <div className="text-sm text-foreground">
-            {formatValue(record.createdAt)}
-          </div>
-        </div>
-        <div className="flex px-6 py-4 bg-muted/30">
-          <div className="w-48 shrink-0 text-sm font-medium text-muted-foreground">
-            Updated
-          </div>
-          <div className="text-sm text-foreground">
-            {formatValue(record.updatedAt)}
-          </div>
-        </div>
-      </div>
-
-      {/* Related Records — reverse relationships (hasMany from other entities) */}
-      {reverseRelated.map(({ entity: relEntity, fkField, records: relRecords }) => {
-        const slug = relEntity.pluralName.toLowerCase();
-        return (
-          <div key={relEntity.name} className="mt-8">
-            <div className="flex items-center justify-between mb-3">
-              <h2 className="text-lg font-semibold">
-                {relEntity.pluralName}
-                <span className="ml-2 text-sm font-normal text-muted-foreground">
-                  ({relRecords.length})
-                </span>
-              </h2>
-              <Link
-                href={`/${slug}/new?${fkField}=${recordId}`}
-                className="text-sm text-primary hover:underline"
-              >
-                + Add {relEntity.name}
-              </Link>
-            </div>
-            {relRecords.length === 0 ? (
-              <p className="text-sm text-muted-foreground">
-                No {relEntity.pluralName.toLowerCase()} linked to this {entity.name.toLowerCase()}.
-              </p>
-            ) : (
-              <div className="border border-border rounded-lg overflow-hidden">
-                <table className="w-full">
-                  <thead>
-                    <tr className="bg-muted/50">
-                      {relEntity.ui.listColumns.map((col) => (
-                        <th
-                          key={col}
-                          className="text-left text-xs font-medium text-muted-foreground uppercase tracking-wider px-4 py-3"
-                        >
-                          {columnToLabel(col)}
-                        </th>
-                      ))}
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-border">
-                    {relRecords.map((rr) => (
-                      <tr
-                        key={rr.id as string}
-                        className="hover:bg-muted/30 cursor-pointer transition-colors"
-                        onClick={() => router.push(`/${slug}/${rr.id}`)}
-                      >
-                        {relEntity.ui.listColumns.map((col) => (
-                          <td key={col} className="px-4 py-3 text-sm">
-                            {formatValue(rr[col])}
-                          </td>
-                        ))}
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
-            )}
-          </div>
-        );
-      })}
+        </>
+      )}
 
       <ConfirmDialog
         open={confirmOpen}
@@ -422,3 +475,26 @@ export default function EntityDetailPage() {
     </div>
   );
 }
+
+function TabButton({
+  active,
+  onClick,
+  label,
+}: {
+  active: boolean;
+  onClick: () => void;
+  label: string;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={`-mb-px px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
+        active
+          ? "border-primary text-foreground"
+          : "border-transparent text-muted-foreground hover:text-foreground"
+      }`}
+    >
+      {label}
+    </button>
+  );
+}
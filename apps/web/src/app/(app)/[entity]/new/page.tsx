@@ -9,11 +9,14 @@ import {
   fetchEntityList,
   createEntity,
   uploadFile,
+  ApiError,
 } from "@/lib/api-client";
 import { columnToLabel } from "@/lib/utils";
 import { FieldInput } from "@/components/field-input";
 import { useFormDraft } from "@/lib/use-form-draft";
+import { loadFieldOptions, toFormValue, type FieldOptions } from "@/lib/form-fields";
 import { useToast, FormSkeleton } from "@metasaas/ui";
+import { checkEntityRules, checkFieldValidations, computeFields, isDerivedField } from "@metasaas/contracts";
 import type { EntityDefinition, FieldDefinition } from "@metasaas/contracts";
 import type { RelationshipOption } from "@metasaas/ui";
 
@@ -55,6 +58,8 @@ export default function EntityCreatePage() {
   const [fkFields, setFkFields] = useState<
     { field: FieldDefinition; fkName: string }[]
   >([]);
+  /** Tag suggestions and workspace members for tags and user fields */
+  const [fieldOptions, setFieldOptions] = useState<FieldOptions>({ suggestions: {} });
   const toast = useToast();
   const { clearDraft } = useFormDraft(
     `${entitySlug}/new`,
@@ -75,10 +80,12 @@ export default function EntityCreatePage() {
         // Initialize form with default values for declared fields
         const defaults: Record<string, string> = {};
         for (const field of meta.fields) {
-          defaults[field.name] =
-            field.defaultValue !== undefined ? String(field.defaultValue) : "";
+          defaults[field.name] = toFormValue(field.defaultValue);
         }
 
+        // Options load in the background — the fields work without them
+        loadFieldOptions(entitySlug, meta).then(setFieldOptions);
+
         // Load relationship options for belongsTo fields
         const belongsToRels =
           meta.relationships?.filter((r) => r.type === "belongsTo") ?? [];
@@ -147,6 +154,7 @@ export default function EntityCreatePage() {
     // Convert form data to proper types
     const data: Record<string, unknown> = {};
     for (const field of entity.fields) {
+      if (isDerivedField(field)) continue; // derived by the API
       const raw = formData[field.name];
       if (raw === "" || raw === undefined) {
         if (field.required) {
@@ -172,9 +180,26 @@ export default function EntityCreatePage() {
         case "datetime":
           data[field.name] = new Date(raw).toISOString();
           break;
+        case "json":
+        case "multi_enum":
+        case "tags":
+          try {
+            data[field.name] = JSON.parse(raw);
+          } catch {
+            setErrors({ [field.name]: "Must be valid JSON" });
+            setSubmitting(false);
+            return;
+          }
+          break;
         default:
           data[field.name] = raw;
       }
+      const invalid = checkFieldValidations(field.type, data[field.name], field.validations);
+      if (invalid) {
+        setErrors({ [field.name]: invalid });
+        setSubmitting(false);
+        return;
+      }
     }
 
     // Include FK values from relationship dropdowns
@@ -183,6 +208,15 @@ export default function EntityCreatePage() {
       if (raw) data[fkName] = raw;
     }
 
+    // Cross-field rules, checked here too so the form doesn't wait on the API.
+    // They may read computed fields, so work those out the way the API will.
+    const ruleErrors = checkEntityRules(entity, { ...data, ...computeFields(entity, data) });
+    if (ruleErrors.length > 0) {
+      setErrors(Object.fromEntries(ruleErrors.map((r) => [r.field, r.message])));
+      setSubmitting(false);
+      return;
+    }
+
     try {
       const result = await createEntity(entitySlug, data);
       if (result.success && result.data) {
@@ -193,9 +227,13 @@ export default function EntityCreatePage() {
         setErrors({ _form: result.error ?? "Failed to create record" });
       }
     } catch (err) {
-      setErrors({
-        _form: err instanceof Error ? err.message : "An error occurred",
-      });
+      if (err instanceof ApiError && err.fieldErrors.length > 0) {
+        setErrors(Object.fromEntries(err.fieldErrors.map((f) => [f.field, f.message])));
+      } else {
+        setErrors({
+          _form: err instanceof Error ? err.message : "An error occurred",
+        });
+      }
     } finally {
       setSubmitting(false);
     }
@@ -242,6 +280,8 @@ export default function EntityCreatePage() {
                 const res = await uploadFile(key, file);
                 return res.key;
               } : undefined}
+              suggestions={fieldOptions.suggestions[field.name]}
+              memberOptions={field.type === "user" ? fieldOptions.members : undefined}
             />
             {errors[field.name] && (
               <p className="text-xs text-destructive mt-1">
@@ -4,9 +4,11 @@ import { useEffect, useState, useCallback } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
 import dynamic from "next/dynamic";
-import { fetchEntityMeta, fetchEntityList, fetchTransitions, createEntity, updateEntity, deleteEntity } from "@/lib/api-client";
+import { fetchEntityMeta, fetchEntityList, fetchTransitions, createEntity, updateEntity, deleteEntity, fetchViews, type SavedView, type SavedViewConfig } from "@/lib/api-client";
 import { columnToLabel } from "@/lib/utils";
-import { SearchFilterBar, BulkActionsBar, DataTable, ImportModal, Pagination, useToast, ConfirmDialog, ListSkeleton, EmptyState } from "@metasaas/ui";
+import { useSavedFilters } from "@/lib/use-saved-filters";
+import { ViewSelector } from "@/components/view-selector";
+import { SearchFilterBar, BulkActionsBar, DataTable, ImportModal, CursorPagination, useToast, ConfirmDialog, ListSkeleton, EmptyState } from "@metasaas/ui";
 import type { EntityDefinition } from "@metasaas/contracts";
 
 const KanbanView = dynamic(
@@ -21,6 +23,8 @@ const CalendarView = dynamic(
 /** Supported view types */
 type ViewType = "list" | "kanban" | "calendar";
 
+type Sort = NonNullable<SavedViewConfig["sort"]>;
+
 /**
  * Entity List Page
  *
@@ -32,6 +36,10 @@ type ViewType = "list" | "kanban" | "calendar";
  * The entity's `ui.defaultView` determines the initial view.
  * The user's selection persists in localStorage.
  *
+ * Saved views (selected in the header) apply named filters, search,
+ * sort, columns and view mode on top of the entity's ui config; the
+ * user's default view, if any, is applied when the page opens.
+ *
  * URL: /contacts, /companies, /tasks, etc.
  */
 export default function EntityListPage() {
@@ -47,6 +55,12 @@ export default function EntityListPage() {
   const [viewType, setViewType] = useState<ViewType>("list");
   const [searchTerm, setSearchTerm] = useState("");
   const [activeFilters, setActiveFilters] = useState<Record<string, string>>({});
+  /** Sort and columns chosen by the user or a saved view (null = entity defaults) */
+  const [sort, setSort] = useState<Sort | null>(null);
+  const [columns, setColumns] = useState<string[] | null>(null);
+  /** Saved views for this entity and the one currently applied */
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
   /** Per-record transition map for kanban drag validation */
   const [transitionsMap, setTransitionsMap] = useState<Record<string, Record<string, string[]>>>({});
   /** Selected record IDs for bulk operations */
@@ -54,22 +68,31 @@ export default function EntityListPage() {
   const [bulkAction, setBulkAction] = useState<string | null>(null);
   /** Import modal visibility */
   const [showImport, setShowImport] = useState(false);
-  /** Pagination */
+  /**
+   * Cursor pagination: the cursor the current page was loaded with
+   * (undefined = first page), the neighbours' cursors from the API, and
+   * the page number for the "Showing 26–50" label.
+   */
   const PAGE_SIZE = 25;
   const [page, setPage] = useState(1);
+  const [pageCursor, setPageCursor] = useState<string | undefined>(undefined);
+  const [cursors, setCursors] = useState<{ next: string | null; prev: string | null }>({ next: null, prev: null });
   /** Confirm dialog state */
   const [confirmState, setConfirmState] = useState<{
     open: boolean; title: string; message: string; onConfirm: () => void;
   }>({ open: false, title: "", message: "", onConfirm: () => {} });
   const toast = useToast();
+  const { savedFilters, saveFilter, deleteFilter } = useSavedFilters(entitySlug);
 
   /** Fetches rows with current search/filter/pagination state */
-  const loadData = useCallback(async (meta: EntityDefinition, search?: string, filters?: Record<string, string>, currentPage = 1) => {
-    const queryParams: Record<string, string> = {
-      limit: String(PAGE_SIZE),
-      offset: String((currentPage - 1) * PAGE_SIZE),
-    };
+  const loadData = useCallback(async (meta: EntityDefinition, search?: string, filters?: Record<string, string>, cursor?: string, sortBy?: Sort | null) => {
+    const queryParams: Record<string, string> = { limit: String(PAGE_SIZE) };
+    if (cursor) queryParams.cursor = cursor;
     if (search) queryParams.search = search;
+    if (sortBy) {
+      queryParams.orderBy = sortBy.field;
+      queryParams.direction = sortBy.direction;
+    }
     if (filters) {
       for (const [k, v] of Object.entries(filters)) {
         if (v) queryParams[k] = v;
@@ -79,7 +102,9 @@ export default function EntityListPage() {
     const result = await fetchEntityList(entitySlug, queryParams);
     if (result.success && result.data) {
       setRows(result.data.data);
-      setTotal(result.data.total);
+      // Only the first page is counted; later pages keep the known total
+      if (result.data.total !== undefined) setTotal(result.data.total);
+      setCursors({ next: result.data.nextCursor, prev: result.data.prevCursor });
 
       if (meta.workflows?.length && result.data.data.length > 0) {
         const tMap: Record<string, Record<string, string[]>> = {};
@@ -108,12 +133,26 @@ export default function EntityListPage() {
         const storageKey = `metasaas:view:${entitySlug}`;
         const saved = localStorage.getItem(storageKey) as ViewType | null;
         const defaultView = (meta.ui.defaultView ?? "list") as ViewType;
-        let resolvedView = saved ?? defaultView;
+
+        // The user's default saved view wins over the entity's ui config
+        const savedViews = await fetchViews(entitySlug).catch(() => [] as SavedView[]);
+        setViews(savedViews);
+        const defaultSaved = savedViews.find((v) => v.isDefault);
+        const config = defaultSaved?.config ?? {};
+        if (defaultSaved) {
+          setActiveViewId(defaultSaved.id);
+          setActiveFilters(config.filters ?? {});
+          setSearchTerm(config.search ?? "");
+          setSort(config.sort ?? null);
+          setColumns(config.listColumns ?? null);
+        }
+
+        let resolvedView = config.view ?? saved ?? defaultView;
         if (resolvedView === "kanban" && !meta.ui.kanban?.groupBy) resolvedView = "list";
         if (resolvedView === "calendar" && !meta.ui.calendar?.dateField) resolvedView = "list";
         setViewType(resolvedView);
 
-        await loadData(meta, undefined, undefined, 1);
+        await loadData(meta, config.search, config.filters, undefined, config.sort);
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to load");
       } finally {
@@ -128,15 +167,19 @@ export default function EntityListPage() {
     if (!entity) return;
     const timer = setTimeout(() => {
       setPage(1);
-      loadData(entity, searchTerm, activeFilters, 1);
+      setPageCursor(undefined);
+      loadData(entity, searchTerm, activeFilters, undefined, sort);
     }, 300);
     return () => clearTimeout(timer);
-  }, [searchTerm, activeFilters, entity, loadData]);
-
-  /** Page change handler */
-  function handlePageChange(newPage: number) {
-    setPage(newPage);
-    if (entity) loadData(entity, searchTerm, activeFilters, newPage);
+  }, [searchTerm, activeFilters, sort, entity, loadData]);
+
+  /** Steps one page forward or back using the cursors from the last load */
+  function handlePageStep(step: 1 | -1) {
+    const cursor = step === 1 ? cursors.next : cursors.prev;
+    if (!cursor) return;
+    setPage((p) => p + step);
+    setPageCursor(cursor);
+    if (entity) loadData(entity, searchTerm, activeFilters, cursor, sort);
     window.scrollTo({ top: 0, behavior: "smooth" });
   }
 
@@ -145,11 +188,37 @@ export default function EntityListPage() {
     localStorage.setItem(`metasaas:view:${entitySlug}`, newView);
   }
 
+  /** Applies a saved view, or resets to the entity's own defaults with null */
+  function applyView(view: SavedView | null) {
+    if (!entity) return;
+    const config = view?.config ?? {};
+    setActiveViewId(view?.id ?? null);
+    setActiveFilters(config.filters ?? {});
+    setSearchTerm(config.search ?? "");
+    setSort(config.sort ?? null);
+    setColumns(config.listColumns ?? null);
+    if (config.view) switchView(config.view);
+  }
+
+  /** Toggles the sort on a column: ascending, then descending */
+  function handleSort(field: string) {
+    setSort((prev) =>
+      prev?.field === field && prev.direction === "asc"
+        ? { field, direction: "desc" }
+        : { field, direction: "asc" }
+    );
+  }
+
+  /** Soft-delete entities move records to the trash instead of deleting them */
+  const toTrash = Boolean(entity?.softDelete);
+
   function handleDelete(id: string) {
     setConfirmState({
       open: true,
       title: "Delete record",
-      message: "This action cannot be undone. Are you sure?",
+      message: toTrash
+        ? "The record will be moved to the trash, where it can be restored."
+        : "This action cannot be undone. Are you sure?",
       onConfirm: async () => {
         setConfirmState((s) => ({ ...s, open: false }));
         try {
@@ -157,7 +226,7 @@ export default function EntityListPage() {
           setRows((prev) => prev.filter((r) => r.id !== id));
           setTotal((prev) => prev - 1);
           setSelected((prev) => { const next = new Set(prev); next.delete(id); return next; });
-          toast("Record deleted");
+          toast(toTrash ? "Record moved to trash" : "Record deleted");
         } catch (err) {
           toast.error(err instanceof Error ? err.message : "Delete failed");
         }
@@ -185,7 +254,9 @@ export default function EntityListPage() {
     setConfirmState({
       open: true,
       title: `Delete ${selected.size} records`,
-      message: "This action cannot be undone. Are you sure you want to delete all selected records?",
+      message: toTrash
+        ? "The selected records will be moved to the trash, where they can be restored."
+        : "This action cannot be undone. Are you sure you want to delete all selected records?",
       onConfirm: async () => {
         setConfirmState((s) => ({ ...s, open: false }));
         setBulkAction("deleting");
@@ -198,7 +269,7 @@ export default function EntityListPage() {
         setTotal((prev) => prev - deleted);
         setSelected(new Set());
         setBulkAction(null);
-        toast(`${deleted} record${deleted !== 1 ? "s" : ""} deleted`);
+        toast(`${deleted} record${deleted !== 1 ? "s" : ""} ${toTrash ? "moved to trash" : "deleted"}`);
       },
     });
   }
@@ -210,7 +281,7 @@ export default function EntityListPage() {
     for (const id of ids) {
       try { await updateEntity(entitySlug, id, { [field]: value }); updated++; } catch { /* skip */ }
     }
-    if (entity) await loadData(entity, searchTerm, activeFilters, page);
+    if (entity) await loadData(entity, searchTerm, activeFilters, pageCursor, sort);
     setSelected(new Set());
     setBulkAction(null);
     toast(`${updated} record${updated !== 1 ? "s" : ""} updated`);
@@ -225,7 +296,10 @@ export default function EntityListPage() {
       fields.map((f) => {
         const val = row[f];
         if (val === null || val === undefined) return "";
-        const str = String(val);
+        // Lists export comma-separated and JSON as JSON, the way import reads them
+        const str = Array.isArray(val) && val.every((v) => typeof v === "string")
+          ? val.join(",")
+          : typeof val === "object" ? JSON.stringify(val) : String(val);
         return str.includes(",") || str.includes('"') || str.includes("\n")
           ? `"${str.replace(/"/g, '""')}"`
           : str;
@@ -261,6 +335,16 @@ export default function EntityListPage() {
 
   const hasKanban = Boolean(entity.ui.kanban?.groupBy);
   const hasCalendar = Boolean(entity.ui.calendar?.dateField);
+  const listColumns = columns ?? entity.ui.listColumns;
+  const sortableColumns = entity.fields.filter((f) => !f.sensitive).map((f) => f.name);
+  /** Current list settings, as stored by "Save view" */
+  const currentConfig: SavedViewConfig = {
+    filters: activeFilters,
+    ...(searchTerm && { search: searchTerm }),
+    ...(sort && { sort }),
+    ...(columns && { listColumns: columns }),
+    view: viewType,
+  };
 
   return (
     <div>
@@ -273,6 +357,14 @@ export default function EntityListPage() {
           </p>
         </div>
         <div className="flex items-center gap-3">
+          <ViewSelector
+            entitySlug={entitySlug}
+            views={views}
+            activeViewId={activeViewId}
+            currentConfig={currentConfig}
+            onSelect={applyView}
+            onViewsChange={setViews}
+          />
           <div className="flex items-center border border-border rounded-md overflow-hidden">
             <ViewButton active={viewType === "list"} onClick={() => switchView("list")} label="List" />
             {hasKanban && (
@@ -283,6 +375,14 @@ export default function EntityListPage() {
             )}
           </div>
 
+          {entity.softDelete && (
+            <Link
+              href={`/${entitySlug}/trash`}
+              className="inline-flex items-center px-3 py-2 rounded-md border border-border text-sm font-medium hover:bg-muted transition-colors"
+            >
+              Trash
+            </Link>
+          )}
           <button
             onClick={handleExportCSV}
             disabled={rows.length === 0}
@@ -314,6 +414,12 @@ export default function EntityListPage() {
         onSearchChange={setSearchTerm}
         activeFilters={activeFilters}
         onFilterChange={setActiveFilters}
+        savedFilters={savedFilters}
+        onSaveFilter={(name) => {
+          saveFilter(name, activeFilters);
+          toast(`Filter "${name}" saved`);
+        }}
+        onDeleteSavedFilter={deleteFilter}
       />
 
       {/* View Content */}
@@ -335,7 +441,7 @@ export default function EntityListPage() {
             fetchEntityList(entitySlug).then((r) => {
               if (r.success && r.data) {
                 setRows(r.data.data);
-                setTotal(r.data.total);
+                setTotal(r.data.total ?? 0);
               }
             });
           }}
@@ -359,21 +465,36 @@ export default function EntityListPage() {
             busyLabel={bulkAction ?? undefined}
           />
 
+          <div className="flex justify-end mb-2">
+            <ColumnsMenu
+              fields={entity.fields.map((f) => f.name)}
+              columns={listColumns}
+              onChange={setColumns}
+            />
+          </div>
+
           <DataTable
-            columns={entity.ui.listColumns}
+            columns={listColumns}
             rows={rows}
             selected={selected}
             onToggleSelect={toggleSelect}
             onToggleSelectAll={toggleSelectAll}
             onRowClick={(id) => router.push(`/${entitySlug}/${id}`)}
             onDelete={handleDelete}
+            sort={sort ?? entity.ui.defaultSort}
+            sortableColumns={sortableColumns}
+            onSort={handleSort}
           />
 
-          <Pagination
+          <CursorPagination
             page={page}
             pageSize={PAGE_SIZE}
+            rowCount={rows.length}
             total={total}
-            onPageChange={handlePageChange}
+            hasPrev={Boolean(cursors.prev)}
+            hasNext={Boolean(cursors.next)}
+            onPrev={() => handlePageStep(-1)}
+            onNext={() => handlePageStep(1)}
           />
         </div>
       )}
@@ -387,7 +508,7 @@ export default function EntityListPage() {
           onImportRow={async (data) => { await createEntity(entitySlug, data); }}
           onClose={() => {
             setShowImport(false);
-            if (entity) loadData(entity, searchTerm, activeFilters, page);
+            if (entity) loadData(entity, searchTerm, activeFilters, pageCursor, sort);
           }}
         />
       )}
@@ -429,3 +550,43 @@ function ViewButton({
     </button>
   );
 }
+
+/** Dropdown of checkboxes choosing which fields the table shows */
+function ColumnsMenu({
+  fields,
+  columns,
+  onChange,
+}: {
+  fields: string[];
+  columns: string[];
+  onChange: (columns: string[]) => void;
+}) {
+  function toggle(field: string) {
+    if (columns.includes(field)) {
+      if (columns.length > 1) onChange(columns.filter((c) => c !== field));
+    } else {
+      onChange([...columns, field]);
+    }
+  }
+
+  return (
+    <details className="relative">
+      <summary className="cursor-pointer list-none text-xs text-muted-foreground hover:text-foreground">
+        Columns
+      </summary>
+      <div className="absolute right-0 z-10 mt-1 w-48 rounded-md border border-border bg-card p-2 shadow-md space-y-1">
+        {fields.map((field) => (
+          <label key={field} className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={columns.includes(field)}
+              onChange={() => toggle(field)}
+              className="accent-primary"
+            />
+            {columnToLabel(field)}
+          </label>
+        ))}
+      </div>
+    </details>
+  );
+}
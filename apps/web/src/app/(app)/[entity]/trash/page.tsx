@@ -0,0 +1,232 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import {
+  fetchEntityMeta,
+  fetchTrash,
+  restoreEntity,
+  purgeEntity,
+} from "@/lib/api-client";
+import { formatValue, columnToLabel } from "@/lib/utils";
+import { Pagination, useToast, ConfirmDialog, ListSkeleton, EmptyState } from "@metasaas/ui";
+import type { EntityDefinition } from "@metasaas/contracts";
+
+/** Days a deleted record stays in the trash unless the entity overrides it */
+const DEFAULT_RETENTION_DAYS = 30;
+
+/** Retention period to show in the header, or null when records are kept forever */
+function retentionDays(entity: EntityDefinition): number | null {
+  const days =
+    typeof entity.softDelete === "object"
+      ? entity.softDelete.retentionDays ?? DEFAULT_RETENTION_DAYS
+      : DEFAULT_RETENTION_DAYS;
+  return days > 0 ? days : null;
+}
+
+/**
+ * Entity Trash Page
+ *
+ * Lists soft-deleted records of an entity with `softDelete` enabled.
+ * Records can be restored or permanently deleted; anything left here
+ * is purged automatically after the entity's retention period.
+ *
+ * URL: /contacts/trash, /tasks/trash, etc.
+ */
+export default function EntityTrashPage() {
+  const params = useParams();
+  const entitySlug = params.entity as string;
+
+  const [entity, setEntity] = useState<EntityDefinition | null>(null);
+  const [rows, setRows] = useState<Record<string, unknown>[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [purgeId, setPurgeId] = useState<string | null>(null);
+  const PAGE_SIZE = 25;
+  const [page, setPage] = useState(1);
+  const toast = useToast();
+
+  const loadData = useCallback(async (currentPage: number) => {
+    const result = await fetchTrash(entitySlug, {
+      limit: String(PAGE_SIZE),
+      offset: String((currentPage - 1) * PAGE_SIZE),
+      orderBy: "deletedAt",
+      direction: "desc",
+    });
+    if (result.success && result.data) {
+      setRows(result.data.data);
+      setTotal(result.data.total ?? 0);
+    } else if (!result.success) {
+      setError(result.error ?? "Failed to load trash");
+    }
+  }, [entitySlug]);
+
+  useEffect(() => {
+    async function load() {
+      try {
+        setLoading(true);
+        const meta = await fetchEntityMeta(entitySlug);
+        setEntity(meta);
+        if (!meta.softDelete) {
+          setError(`${meta.pluralName} are deleted permanently — there is no trash`);
+          return;
+        }
+        await loadData(1);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load");
+      } finally {
+        setLoading(false);
+      }
+    }
+    load();
+  }, [entitySlug, loadData]);
+
+  function handlePageChange(newPage: number) {
+    setPage(newPage);
+    loadData(newPage);
+  }
+
+  async function handleRestore(id: string) {
+    setBusyId(id);
+    try {
+      const res = await restoreEntity(entitySlug, id);
+      if (res.success) {
+        setRows((prev) => prev.filter((r) => r.id !== id));
+        setTotal((prev) => prev - 1);
+        toast("Record restored");
+      } else {
+        toast.error(res.error ?? "Restore failed");
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Restore failed");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function executePurge() {
+    const id = purgeId;
+    setPurgeId(null);
+    if (!id) return;
+    setBusyId(id);
+    try {
+      await purgeEntity(entitySlug, id);
+      setRows((prev) => prev.filter((r) => r.id !== id));
+      setTotal((prev) => prev - 1);
+      toast("Record permanently deleted");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Delete failed");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  if (loading) return <ListSkeleton />;
+  if (error || !entity) {
+    return (
+      <div className="p-4 rounded-md bg-destructive/10 text-destructive text-sm">
+        {error ?? "Entity not found"}
+      </div>
+    );
+  }
+
+  const retention = retentionDays(entity);
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-6">
+        <Link
+          href={`/${entitySlug}`}
+          className="text-sm text-muted-foreground hover:text-foreground"
+        >
+          ← {entity.pluralName}
+        </Link>
+        <h1 className="text-2xl font-semibold mt-1">Trash</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          {total} deleted {total === 1 ? "record" : "records"}
+          {retention !== null && ` · purged automatically after ${retention} days`}
+        </p>
+      </div>
+
+      {rows.length === 0 ? (
+        <EmptyState
+          title="Trash is empty"
+          description={`Deleted ${entity.pluralName.toLowerCase()} will appear here.`}
+          actionLabel={`Back to ${entity.pluralName}`}
+          actionHref={`/${entitySlug}`}
+        />
+      ) : (
+        <div>
+          <div className="border border-border rounded-lg overflow-hidden">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-muted/50">
+                  {[...entity.ui.listColumns, "deletedAt"].map((col) => (
+                    <th
+                      key={col}
+                      className="text-left text-xs font-medium text-muted-foreground uppercase tracking-wider px-4 py-3"
+                    >
+                      {columnToLabel(col)}
+                    </th>
+                  ))}
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {rows.map((row) => {
+                  const id = row.id as string;
+                  return (
+                    <tr key={id} className="hover:bg-muted/30 transition-colors">
+                      {[...entity.ui.listColumns, "deletedAt"].map((col) => (
+                        <td key={col} className="px-4 py-3 text-sm">
+                          {formatValue(row[col])}
+                        </td>
+                      ))}
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        <button
+                          disabled={busyId === id}
+                          onClick={() => handleRestore(id)}
+                          className="text-sm text-primary hover:underline disabled:opacity-50"
+                        >
+                          Restore
+                        </button>
+                        <button
+                          disabled={busyId === id}
+                          onClick={() => setPurgeId(id)}
+                          className="ml-4 text-sm text-destructive hover:underline disabled:opacity-50"
+                        >
+                          Delete forever
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <Pagination
+            page={page}
+            pageSize={PAGE_SIZE}
+            total={total}
+            onPageChange={handlePageChange}
+          />
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={purgeId !== null}
+        title="Delete permanently"
+        message={`This ${entity.name.toLowerCase()} will be permanently deleted. This action cannot be undone.`}
+        confirmLabel="Delete forever"
+        variant="danger"
+        onConfirm={executePurge}
+        onCancel={() => setPurgeId(null)}
+      />
+    </div>
+  );
+}
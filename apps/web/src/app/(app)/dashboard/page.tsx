@@ -57,7 +57,7 @@ export default function DashboardPage() {
             try {
               const res = await fetchEntityList(slug, { orderBy: "updatedAt", direction: "desc", limit: "5" });
               if (res.success && res.data) {
-                countMap[e.name] = res.data.total;
+                countMap[e.name] = res.data.total ?? 0;
                 for (const row of res.data.data) {
                   allRecent.push({
                     entitySlug: slug,
@@ -69,7 +69,7 @@ export default function DashboardPage() {
                 }
 
                 // Build workflow state counts via GROUP BY (no full-table fetch)
-                if (e.workflows?.length && res.data.total > 0) {
+                if (e.workflows?.length && countMap[e.name] > 0) {
                   try {
                     const statsRes = await fetchEntityStats(slug);
                     if (statsRes.success && statsRes.data) {
@@ -278,3 +278,115 @@ describe("FieldInput — placeholder", () => {
     expect(input.placeholder).toBe("Work email address");
   });
 });
+
+// ---------------------------------------------------------------------------
+// Validations
+// ---------------------------------------------------------------------------
+
+describe("FieldInput — validations", () => {
+  it("reports a broken rule with its custom message", () => {
+    const field = createField({
+      type: "text",
+      validations: [{ min: 3, message: "Use at least 3 characters" }],
+    });
+    const { container } = render(<FieldInput field={field} value="ab" onChange={() => {}} />);
+    const input = container.querySelector("input") as HTMLInputElement;
+    expect(input.validity.valid).toBe(false);
+    expect(input.validationMessage).toBe("Use at least 3 characters");
+  });
+
+  it("bounds numeric inputs by value, with the default message", () => {
+    const field = createField({ type: "number", validations: [{ max: 10 }] });
+    const { container } = render(<FieldInput field={field} value="11" onChange={() => {}} />);
+    const input = container.querySelector("input") as HTMLInputElement;
+    expect(input.validationMessage).toBe("Must be at most 10");
+  });
+
+  it("clears the message once the value passes", () => {
+    const field = createField({ type: "text", validations: [{ pattern: "^[A-Z]+$" }] });
+    const { container, rerender } = render(<FieldInput field={field} value="abc" onChange={() => {}} />);
+    const input = container.querySelector("input") as HTMLInputElement;
+    expect(input.validity.valid).toBe(false);
+
+    rerender(<FieldInput field={field} value="ABC" onChange={() => {}} />);
+    expect(input.validity.valid).toBe(true);
+  });
+
+  it("leaves empty values to the required check", () => {
+    const field = createField({ type: "text", validations: [{ min: 3 }] });
+    const { container } = render(<FieldInput field={field} value="" onChange={() => {}} />);
+    expect((container.querySelector("input") as HTMLInputElement).validity.valid).toBe(true);
+  });
+});
+
+describe("FieldInput — computed fields", () => {
+  it("renders a read-only input showing the stored value", () => {
+    const field = createField({ name: "total", type: "currency", computed: "quantity * unitPrice" });
+    const { container } = render(<FieldInput field={field} value="12.5" onChange={() => {}} />);
+    const input = container.querySelector("input") as HTMLInputElement;
+    expect(input.readOnly).toBe(true);
+    expect(input.value).toBe("12.5");
+    expect(input.title).toBe("= quantity * unitPrice");
+  });
+});
+
+describe("FieldInput — rollup fields", () => {
+  it("renders a read-only input described by its rollup", () => {
+    const field = createField({ name: "openTasks", type: "number", rollup: { relationship: "Task", function: "count" } });
+    const { container } = render(<FieldInput field={field} value="3" onChange={() => {}} />);
+    const input = container.querySelector("input") as HTMLInputElement;
+    expect(input.readOnly).toBe(true);
+    expect(input.title).toBe("count of Task");
+  });
+});
+
+describe("FieldInput — list, JSON and user fields", () => {
+  it("toggles multi_enum options as a JSON list", () => {
+    const onChange = vi.fn();
+    const field = createField({ type: "multi_enum", options: ["ios", "web"] });
+    const { container } = render(<FieldInput field={field} value='["ios"]' onChange={onChange} />);
+    const boxes = container.querySelectorAll("input[type='checkbox']") as NodeListOf<HTMLInputElement>;
+    expect([...boxes].map((b) => b.checked)).toEqual([true, false]);
+
+    fireEvent.click(boxes[1]);
+    expect(onChange).toHaveBeenCalledWith('["ios","web"]');
+    fireEvent.click(boxes[0]);
+    expect(onChange).toHaveBeenLastCalledWith("");
+  });
+
+  it("adds tags on Enter, removes them, and offers suggestions", async () => {
+    const onChange = vi.fn();
+    const field = createField({ name: "labels", type: "tags" });
+    const { container } = render(
+      <FieldInput field={field} value='["urgent"]' onChange={onChange} suggestions={["urgent", "q3"]} />
+    );
+    expect([...container.querySelectorAll("datalist option")].map((o) => o.getAttribute("value"))).toEqual(["q3"]);
+
+    await userEvent.type(container.querySelector("input") as HTMLInputElement, "q3{Enter}");
+    expect(onChange).toHaveBeenLastCalledWith('["urgent","q3"]');
+
+    fireEvent.click(screen.getByLabelText("Remove urgent"));
+    expect(onChange).toHaveBeenLastCalledWith("");
+  });
+
+  it("flags JSON that doesn't parse", () => {
+    const field = createField({ type: "json" });
+    const { container, rerender } = render(<FieldInput field={field} value="{" onChange={() => {}} />);
+    const textarea = container.querySelector("textarea") as HTMLTextAreaElement;
+    expect(textarea.validationMessage).toBe("Must be valid JSON");
+
+    rerender(<FieldInput field={field} value='{"a": 1}' onChange={() => {}} />);
+    expect(textarea.validationMessage).toBe("");
+  });
+
+  it("picks users from the workspace members, or takes a typed id", () => {
+    const field = createField({ name: "assignee", type: "user" });
+    const { container, rerender } = render(
+      <FieldInput field={field} value="ana" onChange={() => {}} memberOptions={[{ label: "ana", value: "ana" }]} />
+    );
+    expect((container.querySelector("select") as HTMLSelectElement).value).toBe("ana");
+
+    rerender(<FieldInput field={field} value="ana" onChange={() => {}} />);
+    expect(container.querySelector("input[type='text']")).toBeTruthy();
+  });
+});
@@ -6,11 +6,12 @@
  *   - Pagination component renders/hides based on total vs pageSize
  *   - Previous/Next buttons enable/disable at boundaries
  *   - Clicking page numbers fires onPageChange
+ *   - CursorPagination steps by cursor and shows the total when known
  */
 
 import { describe, it, expect, vi } from "vitest";
 import { render, screen, fireEvent } from "@testing-library/react";
-import { Pagination, buildPageNumbers } from "@metasaas/ui";
+import { Pagination, CursorPagination, buildPageNumbers } from "@metasaas/ui";
 
 // ---------------------------------------------------------------------------
 // buildPageNumbers (pure logic)
@@ -131,3 +132,39 @@ describe("Pagination", () => {
     expect(onPageChange).toHaveBeenCalledWith(3);
   });
 });
+
+// ---------------------------------------------------------------------------
+// CursorPagination component
+// ---------------------------------------------------------------------------
+
+describe("CursorPagination", () => {
+  const props = { page: 1, pageSize: 25, rowCount: 25, onPrev: () => {}, onNext: () => {} };
+
+  it("hides when there is no other page", () => {
+    const { container } = render(
+      <CursorPagination {...props} hasPrev={false} hasNext={false} />
+    );
+    expect(container.innerHTML).toBe("");
+  });
+
+  it("shows the range with the total when known", () => {
+    render(<CursorPagination {...props} page={2} rowCount={10} total={35} hasPrev hasNext={false} />);
+    expect(screen.getByText("Showing 26–35 of 35 records")).toBeDefined();
+    expect((screen.getByText("Next") as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it("shows the range alone when the total is unknown", () => {
+    render(<CursorPagination {...props} page={3} hasPrev hasNext />);
+    expect(screen.getByText("Showing 51–75 records")).toBeDefined();
+  });
+
+  it("calls onPrev and onNext", () => {
+    const onPrev = vi.fn();
+    const onNext = vi.fn();
+    render(<CursorPagination {...props} page={2} hasPrev hasNext onPrev={onPrev} onNext={onNext} />);
+    fireEvent.click(screen.getByText("Previous"));
+    fireEvent.click(screen.getByText("Next"));
+    expect(onPrev).toHaveBeenCalledOnce();
+    expect(onNext).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,181 @@
+"use client";
+
+/**
+ * Record History Component
+ *
+ * Renders the version history of a detail-page record: who changed
+ * which fields, from what to what, and when. Any earlier version can be
+ * restored — the revert is applied as a normal update, so it can fail
+ * validation or a workflow transition like a manual edit.
+ *
+ * Uses the generated history routes:
+ *   GET  /api/{plural}/:id/history
+ *   POST /api/{plural}/:id/revert
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { formatValue, columnToLabel } from "@/lib/utils";
+import { fetchHistory, revertRecord, type RecordVersion } from "@/lib/api-client";
+import { useToast, ConfirmDialog, Pagination } from "@metasaas/ui";
+import type { EntityDefinition } from "@metasaas/contracts";
+
+interface RecordHistoryProps {
+  entitySlug: string;
+  entity: EntityDefinition;
+  recordId: string;
+  /** Called with the updated record after a successful revert */
+  onReverted: (record: Record<string, unknown>) => void;
+}
+
+const PAGE_SIZE = 20;
+
+/** Short description of how a version came about */
+function describeVersion(v: RecordVersion): string {
+  if (!v.actionId) return "Earliest recorded state";
+  if (v.actionId.endsWith(".create")) return "Created";
+  return "Updated";
+}
+
+export function RecordHistory({ entitySlug, entity, recordId, onReverted }: RecordHistoryProps) {
+  const toast = useToast();
+  const [versions, setVersions] = useState<RecordVersion[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [revertTo, setRevertTo] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (currentPage: number) => {
+    try {
+      const res = await fetchHistory(entitySlug, recordId, {
+        limit: String(PAGE_SIZE),
+        offset: String((currentPage - 1) * PAGE_SIZE),
+      });
+      if (res.success && res.data) {
+        setVersions(res.data.data);
+        setTotal(res.data.total);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load history");
+    } finally {
+      setLoading(false);
+    }
+  }, [entitySlug, recordId]);
+
+  useEffect(() => {
+    load(1);
+  }, [load]);
+
+  function handlePageChange(newPage: number) {
+    setPage(newPage);
+    load(newPage);
+  }
+
+  async function executeRevert() {
+    const version = revertTo;
+    setRevertTo(null);
+    if (version === null) return;
+    setBusy(true);
+    try {
+      const res = await revertRecord(entitySlug, recordId, version);
+      if (res.success && res.data) {
+        toast(`Restored version ${version}`);
+        onReverted(res.data);
+        setPage(1);
+        await load(1);
+      } else {
+        toast.error(res.error ?? "Revert failed");
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Revert failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading history…</p>;
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 rounded-md bg-destructive/10 text-destructive text-sm">{error}</div>
+    );
+  }
+
+  if (versions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No changes have been recorded for this {entity.name.toLowerCase()} yet.
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      <ol className="space-y-4">
+        {versions.map((v, i) => (
+          <li key={v.id} className="border border-border rounded-lg p-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="text-sm">
+                <span className="font-medium">Version {v.version}</span>
+                <span className="ml-2 text-muted-foreground">
+                  {describeVersion(v)}
+                  {v.userId && ` by ${v.userId}`} · {formatValue(v.createdAt)}
+                </span>
+              </div>
+              {page > 1 || i > 0 ? (
+                <button
+                  disabled={busy}
+                  onClick={() => setRevertTo(v.version)}
+                  className="text-sm text-primary hover:underline disabled:opacity-50"
+                >
+                  Restore this version
+                </button>
+              ) : (
+                <span className="text-xs text-muted-foreground">Current</span>
+              )}
+            </div>
+            {Object.keys(v.changes).length > 0 && (
+              <table className="w-full mt-3">
+                <tbody className="divide-y divide-border">
+                  {Object.entries(v.changes).map(([field, change]) => (
+                    <tr key={field}>
+                      <td className="py-1.5 pr-4 w-48 text-sm text-muted-foreground">
+                        {columnToLabel(field)}
+                      </td>
+                      <td className="py-1.5 text-sm">
+                        <span className="text-muted-foreground line-through">
+                          {formatValue(change.from)}
+                        </span>
+                        <span className="mx-2 text-muted-foreground">→</span>
+                        <span>{formatValue(change.to)}</span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <Pagination
+        page={page}
+        pageSize={PAGE_SIZE}
+        total={total}
+        onPageChange={handlePageChange}
+      />
+
+      <ConfirmDialog
+        open={revertTo !== null}
+        title="Restore version"
+        message={`The ${entity.name.toLowerCase()} will be changed back to version ${revertTo}. This is recorded as a new version and can itself be undone.`}
+        confirmLabel="Restore"
+        onConfirm={executeRevert}
+        onCancel={() => setRevertTo(null)}
+      />
+    </div>
+  );
+}
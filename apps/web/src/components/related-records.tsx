@@ -0,0 +1,213 @@
+"use client";
+
+/**
+ * Related Records Component
+ *
+ * Renders the records linked to a detail-page record through a hasMany
+ * or manyToMany relationship (Project → Tasks, Class → Members), with
+ * controls to link an existing record and unlink a listed one.
+ *
+ * Uses the generated relationship routes:
+ *   GET    /api/{plural}/:id/{path}
+ *   POST   /api/{plural}/:id/{path}/:relatedId
+ *   DELETE /api/{plural}/:id/{path}/:relatedId
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { formatValue, columnToLabel } from "@/lib/utils";
+import {
+  fetchRelated,
+  fetchEntityList,
+  linkRelated,
+  unlinkRelated,
+} from "@/lib/api-client";
+import { useToast } from "@metasaas/ui";
+import { relationshipNames } from "@metasaas/contracts";
+import type { EntityDefinition, RelationshipDefinition } from "@metasaas/contracts";
+
+interface RelatedRecordsProps {
+  /** Slug of the detail page's entity (e.g., "classes") */
+  entitySlug: string;
+  /** Entity of the detail page */
+  entity: EntityDefinition;
+  recordId: string;
+  /** The hasMany / manyToMany relationship to render */
+  relationship: RelationshipDefinition;
+  /** Metadata of the related entity */
+  relatedEntity: EntityDefinition;
+}
+
+/** Maximum number of candidates offered in the "link existing" picker */
+const CANDIDATE_LIMIT = "100";
+
+export function RelatedRecords({
+  entitySlug,
+  entity,
+  recordId,
+  relationship,
+  relatedEntity,
+}: RelatedRecordsProps) {
+  const router = useRouter();
+  const toast = useToast();
+  const names = relationshipNames(relationship, relatedEntity.pluralName);
+  const relatedSlug = relatedEntity.pluralName.toLowerCase();
+  const labelField = relatedEntity.fields[0]?.name;
+
+  const [records, setRecords] = useState<Record<string, unknown>[]>([]);
+  const [total, setTotal] = useState(0);
+  const [candidates, setCandidates] = useState<Record<string, unknown>[]>([]);
+  const [selected, setSelected] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetchRelated(entitySlug, recordId, names.path);
+      if (res.success && res.data) {
+        setRecords(res.data.data);
+        setTotal(res.data.total);
+      }
+    } catch {
+      // Non-critical — the rest of the detail page still renders
+    }
+  }, [entitySlug, recordId, names.path]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  /** Load link candidates lazily, the first time the picker is opened */
+  async function loadCandidates() {
+    if (candidates.length > 0) return;
+    try {
+      const res = await fetchEntityList(relatedSlug, { limit: CANDIDATE_LIMIT });
+      if (res.success && res.data) setCandidates(res.data.data);
+    } catch { /* non-critical */ }
+  }
+
+  async function handleLink() {
+    if (!selected) return;
+    setBusy(true);
+    try {
+      const res = await linkRelated(entitySlug, recordId, names.path, selected);
+      if (res.success) {
+        toast(`${names.singular} added`);
+        setSelected("");
+        await load();
+      } else {
+        toast.error(res.error ?? `Failed to add ${names.singular.toLowerCase()}`);
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Link failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleUnlink(relatedId: string) {
+    setBusy(true);
+    try {
+      const res = await unlinkRelated(entitySlug, recordId, names.path, relatedId);
+      if (res.success) {
+        toast(`${names.singular} removed`);
+        await load();
+      } else {
+        toast.error(res.error ?? `Failed to remove ${names.singular.toLowerCase()}`);
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Unlink failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const linkedIds = new Set(records.map((r) => r.id as string));
+  const available = candidates.filter((c) => !linkedIds.has(c.id as string));
+
+  return (
+    <div className="mt-8">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold">
+          {names.plural}
+          <span className="ml-2 text-sm font-normal text-muted-foreground">
+            ({total})
+          </span>
+        </h2>
+        <div className="flex items-center gap-2">
+          <select
+            value={selected}
+            onFocus={loadCandidates}
+            onChange={(e) => setSelected(e.target.value)}
+            disabled={busy}
+            aria-label={`Select ${names.singular.toLowerCase()} to add`}
+            className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+          >
+            <option value="">Select {names.singular.toLowerCase()}…</option>
+            {available.map((c) => (
+              <option key={c.id as string} value={c.id as string}>
+                {String((labelField && c[labelField]) ?? c.id)}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleLink}
+            disabled={busy || !selected}
+            className="text-sm text-primary hover:underline disabled:opacity-50"
+          >
+            + Add {names.singular}
+          </button>
+        </div>
+      </div>
+      {records.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No {names.plural.toLowerCase()} linked to this {entity.name.toLowerCase()}.
+        </p>
+      ) : (
+        <div className="border border-border rounded-lg overflow-hidden">
+          <table className="w-full">
+            <thead>
+              <tr className="bg-muted/50">
+                {relatedEntity.ui.listColumns.map((col) => (
+                  <th
+                    key={col}
+                    className="text-left text-xs font-medium text-muted-foreground uppercase tracking-wider px-4 py-3"
+                  >
+                    {columnToLabel(col)}
+                  </th>
+                ))}
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {records.map((rr) => (
+                <tr
+                  key={rr.id as string}
+                  className="hover:bg-muted/30 cursor-pointer transition-colors"
+                  onClick={() => router.push(`/${relatedSlug}/${rr.id}`)}
+                >
+                  {relatedEntity.ui.listColumns.map((col) => (
+                    <td key={col} className="px-4 py-3 text-sm">
+                      {formatValue(rr[col])}
+                    </td>
+                  ))}
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      disabled={busy}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleUnlink(rr.id as string);
+                      }}
+                      className="text-xs text-destructive hover:underline disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,9 +2,10 @@
  * Shared UI Components — Test Suite
  *
  * Validates the extracted @metasaas/ui components:
- *   - SearchFilterBar renders search input + enum dropdowns
+ *   - SearchFilterBar renders search input + enum dropdowns, builds
+ *     operator filters and applies saved filters
  *   - BulkActionsBar shows/hides based on selection count
- *   - DataTable renders rows with checkboxes and fires callbacks
+ *   - DataTable renders rows with checkboxes, sortable headers and fires callbacks
  */
 
 import { describe, it, expect, vi } from "vitest";
@@ -20,6 +21,10 @@ function textField(name = "name"): FieldDefinition {
   return { name, type: "text", required: true, description: "" };
 }
 
+function numberField(name = "amount"): FieldDefinition {
+  return { name, type: "currency", required: false, description: "" };
+}
+
 function enumField(name = "status", options = ["draft", "active", "done"]): FieldDefinition {
   return { name, type: "enum", required: true, description: "", options };
 }
@@ -128,6 +133,98 @@ describe("SearchFilterBar", () => {
 
     expect(screen.getByText("Clear filters")).toBeDefined();
   });
+
+  it("builds an operator filter with the filter builder", () => {
+    const onFilterChange = vi.fn();
+    render(
+      <SearchFilterBar
+        pluralName="Deals"
+        fields={[numberField()]}
+        searchFields={[]}
+        searchTerm=""
+        onSearchChange={() => {}}
+        activeFilters={{ stage: "won" }}
+        onFilterChange={onFilterChange}
+      />
+    );
+
+    fireEvent.click(screen.getByText("+ Add filter"));
+    fireEvent.change(screen.getByLabelText("Filter operator"), { target: { value: "gte" } });
+    fireEvent.change(screen.getByLabelText("Filter value"), { target: { value: "100" } });
+    fireEvent.click(screen.getByText("Add"));
+
+    expect(onFilterChange).toHaveBeenCalledWith({ stage: "won", "amount[gte]": "100" });
+  });
+
+  it("puts 'match any' conditions into their own or-group", () => {
+    const onFilterChange = vi.fn();
+    render(
+      <SearchFilterBar
+        pluralName="Deals"
+        fields={[numberField()]}
+        searchFields={[]}
+        searchTerm=""
+        onSearchChange={() => {}}
+        activeFilters={{ "or.g1.amount": "5" }}
+        onFilterChange={onFilterChange}
+      />
+    );
+
+    fireEvent.click(screen.getByText("+ Add filter"));
+    fireEvent.change(screen.getByLabelText("Filter value"), { target: { value: "10" } });
+    fireEvent.click(screen.getByLabelText("Match any"));
+    fireEvent.click(screen.getByText("Add"));
+
+    expect(onFilterChange).toHaveBeenCalledWith({ "or.g1.amount": "5", "or.g2.amount": "10" });
+  });
+
+  it("shows chips for active conditions and removes them", () => {
+    const onFilterChange = vi.fn();
+    render(
+      <SearchFilterBar
+        pluralName="Deals"
+        fields={[numberField(), enumField("stage", ["open", "won"])]}
+        searchFields={[]}
+        searchTerm=""
+        onSearchChange={() => {}}
+        activeFilters={{ stage: "won", "amount[lt]": "50" }}
+        onFilterChange={onFilterChange}
+      />
+    );
+
+    // The enum equality is shown by its dropdown, not as a chip
+    expect(screen.getByText(/Amount < 50/)).toBeDefined();
+    expect(screen.queryByText(/Stage is won/)).toBeNull();
+
+    fireEvent.click(screen.getByLabelText("Remove filter amount[lt]"));
+    expect(onFilterChange).toHaveBeenCalledWith({ stage: "won" });
+  });
+
+  it("saves and applies saved filters", () => {
+    const onFilterChange = vi.fn();
+    const onSaveFilter = vi.fn();
+    render(
+      <SearchFilterBar
+        pluralName="Deals"
+        fields={[numberField()]}
+        searchFields={[]}
+        searchTerm=""
+        onSearchChange={() => {}}
+        activeFilters={{ "amount[gt]": "1000" }}
+        onFilterChange={onFilterChange}
+        savedFilters={[{ name: "Small", filters: { "amount[lt]": "10" } }]}
+        onSaveFilter={onSaveFilter}
+      />
+    );
+
+    fireEvent.click(screen.getByText("Save filter"));
+    fireEvent.change(screen.getByPlaceholderText("Filter name"), { target: { value: "Big" } });
+    fireEvent.click(screen.getByText("Save"));
+    expect(onSaveFilter).toHaveBeenCalledWith("Big");
+
+    fireEvent.click(screen.getByText("★ Small"));
+    expect(onFilterChange).toHaveBeenCalledWith({ "amount[lt]": "10" });
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -300,4 +397,29 @@ describe("DataTable", () => {
     expect(checkboxes[1].checked).toBe(true);
     expect(checkboxes[2].checked).toBe(false);
   });
+
+  it("makes sortable headers clickable and marks the sorted column", () => {
+    const onSort = vi.fn();
+    render(
+      <DataTable
+        columns={["name", "status"]}
+        rows={rows}
+        selected={new Set()}
+        onToggleSelect={() => {}}
+        onToggleSelectAll={() => {}}
+        onRowClick={() => {}}
+        onDelete={() => {}}
+        sort={{ field: "name", direction: "desc" }}
+        sortableColumns={["name"]}
+        onSort={onSort}
+      />
+    );
+
+    const nameHeader = screen.getByRole("button", { name: /Name/ });
+    expect(nameHeader.textContent).toContain("▼");
+    expect(screen.queryByRole("button", { name: /Status/ })).toBeNull();
+
+    fireEvent.click(nameHeader);
+    expect(onSort).toHaveBeenCalledWith("name");
+  });
 });
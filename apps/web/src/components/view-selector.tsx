@@ -0,0 +1,192 @@
+"use client";
+
+/**
+ * View Selector Component
+ *
+ * Entity list header control for saved views: pick a view, save the
+ * current filters/search/sort/columns/view mode as a new view (optionally
+ * shared with the workspace), overwrite or delete your own views, and
+ * choose the view the list opens with by default.
+ *
+ * Uses the saved view routes:
+ *   GET/POST     /api/{plural}/views
+ *   PATCH/DELETE /api/{plural}/views/:viewId
+ *   PUT          /api/{plural}/views/default
+ */
+
+import { useState } from "react";
+import {
+  createView,
+  updateView,
+  deleteView,
+  setDefaultView,
+  type SavedView,
+  type SavedViewConfig,
+} from "@/lib/api-client";
+import { useToast, ConfirmDialog } from "@metasaas/ui";
+
+interface ViewSelectorProps {
+  entitySlug: string;
+  views: SavedView[];
+  activeViewId: string | null;
+  /** The list page's current settings, saved by "Save view" and "Update" */
+  currentConfig: SavedViewConfig;
+  /** Called when the user picks a view (null = the entity's own defaults) */
+  onSelect: (view: SavedView | null) => void;
+  onViewsChange: (views: SavedView[]) => void;
+}
+
+const buttonClass =
+  "inline-flex items-center px-2.5 py-1.5 rounded-md text-xs font-medium text-muted-foreground hover:text-foreground hover:bg-muted disabled:opacity-50 transition-colors";
+
+export function ViewSelector({
+  entitySlug,
+  views,
+  activeViewId,
+  currentConfig,
+  onSelect,
+  onViewsChange,
+}: ViewSelectorProps) {
+  const toast = useToast();
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState("");
+  const [shared, setShared] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const active = views.find((v) => v.id === activeViewId) ?? null;
+
+  /** Runs a view request, reporting failures as toasts */
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function handleSave() {
+    if (!name.trim()) return;
+    run(async () => {
+      const view = await createView(entitySlug, { name: name.trim(), shared, config: currentConfig });
+      onViewsChange([...views, view].sort((a, b) => a.name.localeCompare(b.name)));
+      onSelect(view);
+      setSaving(false);
+      setName("");
+      setShared(false);
+      toast(`View "${view.name}" saved`);
+    });
+  }
+
+  function handleUpdate() {
+    if (!active) return;
+    run(async () => {
+      const view = await updateView(entitySlug, active.id, { config: currentConfig });
+      onViewsChange(views.map((v) => (v.id === view.id ? view : v)));
+      toast(`View "${view.name}" updated`);
+    });
+  }
+
+  function handleToggleDefault() {
+    if (!active) return;
+    const makeDefault = !active.isDefault;
+    run(async () => {
+      await setDefaultView(entitySlug, makeDefault ? active.id : null);
+      onViewsChange(views.map((v) => ({ ...v, isDefault: makeDefault && v.id === active.id })));
+      toast(makeDefault ? `"${active.name}" is now your default view` : "Default view cleared");
+    });
+  }
+
+  function handleDelete() {
+    if (!active) return;
+    setConfirmDelete(false);
+    run(async () => {
+      await deleteView(entitySlug, active.id);
+      onViewsChange(views.filter((v) => v.id !== active.id));
+      onSelect(null);
+      toast(`View "${active.name}" deleted`);
+    });
+  }
+
+  if (saving) {
+    return (
+      <form
+        className="flex items-center gap-2"
+        onSubmit={(e) => { e.preventDefault(); handleSave(); }}
+      >
+        <input
+          autoFocus
+          placeholder="View name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="w-40 rounded-md border border-input bg-background px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+        />
+        <label className="flex items-center gap-1 text-xs text-muted-foreground">
+          <input type="checkbox" checked={shared} onChange={(e) => setShared(e.target.checked)} />
+          Share with workspace
+        </label>
+        <button type="submit" disabled={busy || !name.trim()} className={buttonClass}>
+          Save
+        </button>
+        <button type="button" onClick={() => setSaving(false)} className={buttonClass}>
+          Cancel
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        aria-label="Saved view"
+        value={activeViewId ?? ""}
+        onChange={(e) => onSelect(views.find((v) => v.id === e.target.value) ?? null)}
+        className="rounded-md border border-input bg-background px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+      >
+        <option value="">Default view</option>
+        {views.map((v) => (
+          <option key={v.id} value={v.id}>
+            {v.isDefault ? "★ " : ""}{v.name}{v.shared ? " (shared)" : ""}
+          </option>
+        ))}
+      </select>
+      <button onClick={() => setSaving(true)} disabled={busy} className={buttonClass}>
+        Save view
+      </button>
+      {active && (
+        <>
+          {active.isOwner && (
+            <button onClick={handleUpdate} disabled={busy} className={buttonClass}>
+              Update
+            </button>
+          )}
+          <button onClick={handleToggleDefault} disabled={busy} className={buttonClass}>
+            {active.isDefault ? "Unset default" : "Set default"}
+          </button>
+          {active.isOwner && (
+            <button onClick={() => setConfirmDelete(true)} disabled={busy} className={buttonClass}>
+              Delete
+            </button>
+          )}
+        </>
+      )}
+
+      <ConfirmDialog
+        open={confirmDelete}
+        title="Delete view"
+        message={
+          active?.shared
+            ? "This view is shared — it will be removed for everyone in the workspace."
+            : "Delete this saved view?"
+        }
+        confirmLabel="Delete"
+        variant="danger"
+        onConfirm={handleDelete}
+        onCancel={() => setConfirmDelete(false)}
+      />
+    </div>
+  );
+}
@@ -20,6 +20,15 @@ import {
   deleteEntity,
   fetchAllEntityMeta,
   fetchEntityMeta,
+  fetchTrash,
+  restoreEntity,
+  purgeEntity,
+  fetchHistory,
+  revertRecord,
+  fetchViews,
+  createView,
+  setDefaultView,
+  ApiError,
 } from "./api-client";
 
 // ---------------------------------------------------------------------------
@@ -170,6 +179,113 @@ describe("deleteEntity", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Trash operations
+// ---------------------------------------------------------------------------
+
+describe("trash", () => {
+  it("fetchTrash lists with trashed=true", async () => {
+    mockFetch.mockResolvedValueOnce(
+      mockResponse({ success: true, data: { data: [], total: 0 } })
+    );
+
+    await fetchTrash("contacts", { limit: "25" });
+
+    const [url] = mockFetch.mock.calls[0];
+    expect(url).toContain("/api/contacts?");
+    expect(url).toContain("trashed=true");
+    expect(url).toContain("limit=25");
+  });
+
+  it("restoreEntity sends POST to /api/{pluralName}/{id}/restore", async () => {
+    mockFetch.mockResolvedValueOnce(mockResponse({ success: true, data: {} }));
+
+    await restoreEntity("contacts", "abc");
+
+    const [url, options] = mockFetch.mock.calls[0];
+    expect(url).toContain("/api/contacts/abc/restore");
+    expect(options.method).toBe("POST");
+  });
+
+  it("purgeEntity sends DELETE to /api/{pluralName}/{id}/purge", async () => {
+    mockFetch.mockResolvedValueOnce(
+      mockResponse({ success: true, data: { success: true } })
+    );
+
+    await purgeEntity("contacts", "abc");
+
+    const [url, options] = mockFetch.mock.calls[0];
+    expect(url).toContain("/api/contacts/abc/purge");
+    expect(options.method).toBe("DELETE");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Version history
+// ---------------------------------------------------------------------------
+
+describe("version history", () => {
+  it("fetchHistory sends GET to /api/{pluralName}/{id}/history", async () => {
+    mockFetch.mockResolvedValueOnce(
+      mockResponse({ success: true, data: { data: [], total: 0 } })
+    );
+
+    const result = await fetchHistory("deals", "abc", { limit: "20" });
+
+    const [url] = mockFetch.mock.calls[0];
+    expect(url).toContain("/api/deals/abc/history?limit=20");
+    expect(result.data).toEqual({ data: [], total: 0 });
+  });
+
+  it("revertRecord sends POST with the target version", async () => {
+    mockFetch.mockResolvedValueOnce(mockResponse({ success: true, data: {} }));
+
+    await revertRecord("deals", "abc", 3);
+
+    const [url, options] = mockFetch.mock.calls[0];
+    expect(url).toContain("/api/deals/abc/revert");
+    expect(options.method).toBe("POST");
+    expect(JSON.parse(options.body)).toEqual({ version: 3 });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Saved views
+// ---------------------------------------------------------------------------
+
+describe("saved views", () => {
+  it("fetchViews sends GET to /api/{pluralName}/views", async () => {
+    mockFetch.mockResolvedValueOnce(mockResponse({ success: true, data: [{ id: "v1" }] }));
+
+    const views = await fetchViews("tasks");
+
+    expect(mockFetch.mock.calls[0][0]).toContain("/api/tasks/views");
+    expect(views).toEqual([{ id: "v1" }]);
+  });
+
+  it("createView sends POST with name, sharing and config", async () => {
+    mockFetch.mockResolvedValueOnce(mockResponse({ success: true, data: { id: "v1" } }, 201));
+
+    await createView("tasks", { name: "Mine", shared: true, config: { view: "kanban" } });
+
+    const [url, options] = mockFetch.mock.calls[0];
+    expect(url).toContain("/api/tasks/views");
+    expect(options.method).toBe("POST");
+    expect(JSON.parse(options.body)).toEqual({ name: "Mine", shared: true, config: { view: "kanban" } });
+  });
+
+  it("setDefaultView sends PUT with the view ID", async () => {
+    mockFetch.mockResolvedValueOnce(mockResponse({ success: true }));
+
+    await setDefaultView("tasks", null);
+
+    const [url, options] = mockFetch.mock.calls[0];
+    expect(url).toContain("/api/tasks/views/default");
+    expect(options.method).toBe("PUT");
+    expect(JSON.parse(options.body)).toEqual({ viewId: null });
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Metadata operations
 // ---------------------------------------------------------------------------
@@ -228,6 +344,19 @@ describe("error handling", () => {
 
     await expect(fetchEntityList("contacts")).rejects.toThrow("Failed to fetch");
   });
+
+  it("exposes the status and field errors of a validation response", async () => {
+    const fieldErrors = [{ field: "sku", message: "SKU must look like ABC-123", code: "custom" }];
+    mockFetch.mockResolvedValueOnce(
+      mockResponse({ success: false, error: "Validation failed", details: { fieldErrors } }, 400)
+    );
+
+    const error = await createEntity("products", { sku: "abc" }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(400);
+    expect(error.fieldErrors).toEqual(fieldErrors);
+  });
 });
 
 // ---------------------------------------------------------------------------
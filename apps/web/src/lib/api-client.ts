@@ -46,6 +46,34 @@ interface ActionResponse<T = unknown> {
   details?: unknown;
 }
 
+/** A field-level error reported by the Action Bus validation step */
+export interface FieldError {
+  field: string;
+  message: string;
+  code: string;
+}
+
+/**
+ * Thrown for non-2xx responses. Carries the HTTP status and the response's
+ * `details` — for validation and conflict failures, `details.fieldErrors`.
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+
+  /** Field errors from a 400 validation or 409 conflict response (empty otherwise) */
+  get fieldErrors(): FieldError[] {
+    const fieldErrors = (this.details as { fieldErrors?: unknown } | undefined)?.fieldErrors;
+    return Array.isArray(fieldErrors) ? fieldErrors : [];
+  }
+}
+
 /**
  * Makes a typed request to the API.
  * Automatically attaches the Bearer token if a token provider is registered.
@@ -107,7 +135,7 @@ async function request<T>(
 
     const body = await res.json().catch(() => null);
     const message = body?.error ?? body?.message ?? `Request failed (HTTP ${res.status})`;
-    throw new Error(message);
+    throw new ApiError(message, res.status, body?.details);
   }
 
   return res.json();
@@ -145,11 +173,23 @@ export async function uploadFile(
 // Entity CRUD operations (consume the RESTful entity routes)
 // ---------------------------------------------------------------
 
+/**
+ * A page of entity records. `total` is omitted when paging by cursor
+ * unless `includeTotal: "true"` is passed; pass `nextCursor`/`prevCursor`
+ * back as `cursor` to step pages.
+ */
+export interface EntityListPage {
+  data: Record<string, unknown>[];
+  total?: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
 /** Fetch all records for an entity */
 export async function fetchEntityList(
   pluralName: string,
   params?: Record<string, string>
-): Promise<ActionResponse<{ data: Record<string, unknown>[]; total: number }>> {
+): Promise<ActionResponse<EntityListPage>> {
   const query = params ? "?" + new URLSearchParams(params).toString() : "";
   return request(`/api/${pluralName}${query}`);
 }
@@ -195,6 +235,191 @@ export async function deleteEntity(
   });
 }
 
+// ---------------------------------------------------------------
+// Trash (soft-delete entities)
+// ---------------------------------------------------------------
+
+/** Fetch soft-deleted records of an entity */
+export async function fetchTrash(
+  pluralName: string,
+  params?: Record<string, string>
+): Promise<ActionResponse<EntityListPage>> {
+  return fetchEntityList(pluralName, { ...params, trashed: "true" });
+}
+
+/** Restore a soft-deleted record */
+export async function restoreEntity(
+  pluralName: string,
+  id: string
+): Promise<ActionResponse<Record<string, unknown>>> {
+  return request(`/api/${pluralName}/${id}/restore`, {
+    method: "POST",
+  });
+}
+
+/** Permanently delete a record that is in the trash */
+export async function purgeEntity(
+  pluralName: string,
+  id: string
+): Promise<ActionResponse<{ success: boolean }>> {
+  return request(`/api/${pluralName}/${id}/purge`, {
+    method: "DELETE",
+  });
+}
+
+// ---------------------------------------------------------------
+// Related records (hasMany / manyToMany relationships)
+// ---------------------------------------------------------------
+
+/** Fetch the records linked to a record through a relationship path (e.g. "members") */
+export async function fetchRelated(
+  pluralName: string,
+  id: string,
+  relation: string,
+  params?: Record<string, string>
+): Promise<ActionResponse<{ data: Record<string, unknown>[]; total: number }>> {
+  const query = params ? "?" + new URLSearchParams(params).toString() : "";
+  return request(`/api/${pluralName}/${id}/${relation}${query}`);
+}
+
+/** Link an existing record to a record through a relationship */
+export async function linkRelated(
+  pluralName: string,
+  id: string,
+  relation: string,
+  relatedId: string
+): Promise<ActionResponse<{ linked: boolean }>> {
+  return request(`/api/${pluralName}/${id}/${relation}/${relatedId}`, {
+    method: "POST",
+  });
+}
+
+/** Unlink a record from a relationship (neither record is deleted) */
+export async function unlinkRelated(
+  pluralName: string,
+  id: string,
+  relation: string,
+  relatedId: string
+): Promise<ActionResponse<{ unlinked: boolean }>> {
+  return request(`/api/${pluralName}/${id}/${relation}/${relatedId}`, {
+    method: "DELETE",
+  });
+}
+
+// ---------------------------------------------------------------
+// Version history
+// ---------------------------------------------------------------
+
+export interface RecordVersion {
+  id: string;
+  version: number;
+  /** Null for the baseline version of records that predate history */
+  userId: string | null;
+  actionId: string | null;
+  /** Field values after the change */
+  snapshot: Record<string, unknown>;
+  /** Changed fields: { amount: { from: 100, to: 250 } } */
+  changes: Record<string, { from: unknown; to: unknown }>;
+  createdAt: string;
+}
+
+/** Fetch a record's versions, newest first */
+export async function fetchHistory(
+  pluralName: string,
+  id: string,
+  params?: Record<string, string>
+): Promise<ActionResponse<{ data: RecordVersion[]; total: number }>> {
+  const query = params ? "?" + new URLSearchParams(params).toString() : "";
+  return request(`/api/${pluralName}/${id}/history${query}`);
+}
+
+/** Restore a record to an earlier version (applied as a normal update) */
+export async function revertRecord(
+  pluralName: string,
+  id: string,
+  version: number
+): Promise<ActionResponse<Record<string, unknown>>> {
+  return request(`/api/${pluralName}/${id}/revert`, {
+    method: "POST",
+    body: JSON.stringify({ version }),
+  });
+}
+
+// ---------------------------------------------------------------
+// Saved views
+// ---------------------------------------------------------------
+
+/** List settings a saved view applies; each overrides the entity's ui config */
+export interface SavedViewConfig {
+  /** Filter query parameters, e.g. { "amount[gte]": "100" } */
+  filters?: Record<string, string>;
+  search?: string;
+  sort?: { field: string; direction: "asc" | "desc" };
+  listColumns?: string[];
+  view?: "list" | "kanban" | "calendar";
+}
+
+export interface SavedView {
+  id: string;
+  entity: string;
+  name: string;
+  /** Creator — the only user who can change or delete the view */
+  userId: string;
+  /** Visible to the whole workspace */
+  shared: boolean;
+  config: SavedViewConfig;
+  /** Whether the current user created the view */
+  isOwner: boolean;
+  /** The current user's default view for the entity */
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** List the current user's own and shared views for an entity */
+export async function fetchViews(pluralName: string): Promise<SavedView[]> {
+  const res: ActionResponse<SavedView[]> = await request(`/api/${pluralName}/views`);
+  return res.data ?? [];
+}
+
+/** Save a new view */
+export async function createView(
+  pluralName: string,
+  view: { name: string; shared?: boolean; config: SavedViewConfig }
+): Promise<SavedView> {
+  const res: ActionResponse<SavedView> = await request(`/api/${pluralName}/views`, {
+    method: "POST",
+    body: JSON.stringify(view),
+  });
+  return res.data as SavedView;
+}
+
+/** Rename, share/unshare or overwrite a view's settings */
+export async function updateView(
+  pluralName: string,
+  viewId: string,
+  changes: { name?: string; shared?: boolean; config?: SavedViewConfig }
+): Promise<SavedView> {
+  const res: ActionResponse<SavedView> = await request(`/api/${pluralName}/views/${viewId}`, {
+    method: "PATCH",
+    body: JSON.stringify(changes),
+  });
+  return res.data as SavedView;
+}
+
+/** Delete a view */
+export async function deleteView(pluralName: string, viewId: string): Promise<void> {
+  await request(`/api/${pluralName}/views/${viewId}`, { method: "DELETE" });
+}
+
+/** Make a view the current user's default for the entity (null clears it) */
+export async function setDefaultView(pluralName: string, viewId: string | null): Promise<void> {
+  await request(`/api/${pluralName}/views/default`, {
+    method: "PUT",
+    body: JSON.stringify({ viewId }),
+  });
+}
+
 // ---------------------------------------------------------------
 // Workflow transitions
 // ---------------------------------------------------------------
@@ -484,6 +709,22 @@ export async function fetchEntityStats(
   return request(`/api/entities/${pluralName}/stats`);
 }
 
+/** Fetch the values already used in a text or tags field, most used first */
+export async function fetchFieldValues(
+  pluralName: string,
+  field: string,
+  params?: { search?: string; limit?: number }
+): Promise<string[]> {
+  const query = new URLSearchParams();
+  if (params?.search) query.set("search", params.search);
+  if (params?.limit) query.set("limit", String(params.limit));
+  const qs = query.toString();
+  const res: ActionResponse<string[]> = await request(
+    `/api/entities/${pluralName}/fields/${field}/values${qs ? `?${qs}` : ""}`
+  );
+  return res.data ?? [];
+}
+
 // ---------------------------------------------------------------
 // Notifications
 // ---------------------------------------------------------------
@@ -687,6 +928,17 @@ export async function fetchWorkspaces(): Promise<WorkspaceData[]> {
   return res.data ?? [];
 }
 
+export interface WorkspaceMemberData {
+  userId: string;
+  role: string;
+}
+
+/** List members of the current workspace (the caller included) */
+export async function fetchWorkspaceMembers(): Promise<WorkspaceMemberData[]> {
+  const res: ActionResponse<WorkspaceMemberData[]> = await request("/api/workspaces/members");
+  return res.data ?? [];
+}
+
 /** Create a new workspace */
 export async function createWorkspace(name: string): Promise<WorkspaceData> {
   const res: ActionResponse<WorkspaceData> = await request("/api/workspaces", {
@@ -0,0 +1,60 @@
+/**
+ * Form Field Helpers
+ *
+ * Shared by the create and edit pages: how stored values become the
+ * strings form inputs hold, and the options tags and user fields offer.
+ *
+ * Form inputs hold strings (see FieldInput): lists (multi_enum, tags) and
+ * JSON are held as JSON text, and parsed back on submit.
+ */
+
+import type { EntityDefinition } from "@metasaas/contracts";
+import type { RelationshipOption } from "@metasaas/ui";
+import { fetchFieldValues, fetchWorkspaceMembers } from "@/lib/api-client";
+
+/** The form string for a stored value — "" for none, JSON for lists and objects */
+export function toFormValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.length > 0 ? JSON.stringify(value) : "";
+  if (typeof value === "object") return JSON.stringify(value, null, 2);
+  return String(value);
+}
+
+export interface FieldOptions {
+  /** Tags field name → tags already in use */
+  suggestions: Record<string, string[]>;
+  /** Workspace members, when the entity has user fields */
+  members?: RelationshipOption[];
+}
+
+/**
+ * Loads autocomplete suggestions for the entity's tags fields and the
+ * workspace members for its user fields. Failures leave the fields
+ * without options — they still accept typed values.
+ */
+export async function loadFieldOptions(
+  entitySlug: string,
+  entity: EntityDefinition
+): Promise<FieldOptions> {
+  const options: FieldOptions = { suggestions: {} };
+
+  for (const field of entity.fields) {
+    if (field.type !== "tags") continue;
+    try {
+      options.suggestions[field.name] = await fetchFieldValues(entitySlug, field.name, { limit: 100 });
+    } catch {
+      options.suggestions[field.name] = [];
+    }
+  }
+
+  if (entity.fields.some((f) => f.type === "user")) {
+    try {
+      const members = await fetchWorkspaceMembers();
+      options.members = members.map((m) => ({ label: m.userId, value: m.userId }));
+    } catch {
+      options.members = undefined;
+    }
+  }
+
+  return options;
+}
@@ -0,0 +1,90 @@
+/**
+ * useSavedFilters Hook — Test Suite
+ *
+ * Validates localStorage-backed saved filters:
+ *   - Loads the saved filters for the entity on mount
+ *   - saveFilter stores a new entry and replaces one with the same name
+ *   - deleteFilter removes the entry
+ *   - Handles corrupt JSON gracefully
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useSavedFilters } from "./use-saved-filters";
+
+const STORAGE_KEY = "metasaas:filters:deals";
+
+// ---------------------------------------------------------------------------
+// Mock localStorage
+// ---------------------------------------------------------------------------
+
+const localStorageMock = (() => {
+  let store: Record<string, string> = {};
+  return {
+    getItem: vi.fn((key: string) => store[key] ?? null),
+    setItem: vi.fn((key: string, value: string) => {
+      store[key] = value;
+    }),
+    removeItem: vi.fn((key: string) => {
+      delete store[key];
+    }),
+    clear: () => {
+      store = {};
+    },
+  };
+})();
+
+beforeEach(() => {
+  localStorageMock.clear();
+  Object.defineProperty(window, "localStorage", { value: localStorageMock, writable: true });
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("useSavedFilters", () => {
+  it("loads saved filters for the entity", () => {
+    const saved = [{ name: "Won", filters: { stage: "won" } }];
+    localStorageMock.setItem(STORAGE_KEY, JSON.stringify(saved));
+
+    const { result } = renderHook(() => useSavedFilters("deals"));
+
+    expect(result.current.savedFilters).toEqual(saved);
+  });
+
+  it("saves filters and replaces an entry with the same name", () => {
+    const { result } = renderHook(() => useSavedFilters("deals"));
+
+    act(() => result.current.saveFilter("Big", { "amount[gte]": "1000" }));
+    act(() => result.current.saveFilter("Open", { stage: "open" }));
+    act(() => result.current.saveFilter("Big", { "amount[gte]": "5000" }));
+
+    const expected = [
+      { name: "Open", filters: { stage: "open" } },
+      { name: "Big", filters: { "amount[gte]": "5000" } },
+    ];
+    expect(result.current.savedFilters).toEqual(expected);
+    expect(JSON.parse(localStorageMock.getItem(STORAGE_KEY)!)).toEqual(expected);
+  });
+
+  it("deletes a saved filter", () => {
+    localStorageMock.setItem(
+      STORAGE_KEY,
+      JSON.stringify([{ name: "A", filters: {} }, { name: "B", filters: {} }])
+    );
+    const { result } = renderHook(() => useSavedFilters("deals"));
+
+    act(() => result.current.deleteFilter("A"));
+
+    expect(result.current.savedFilters).toEqual([{ name: "B", filters: {} }]);
+  });
+
+  it("ignores corrupt JSON", () => {
+    localStorageMock.setItem(STORAGE_KEY, "{not json");
+
+    const { result } = renderHook(() => useSavedFilters("deals"));
+
+    expect(result.current.savedFilters).toEqual([]);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Saved Filters
+ *
+ * Named filter sets for an entity list page, kept in localStorage per
+ * entity (e.g. "Big open deals" → { "stage": "open", "amount[gte]": "10000" }).
+ * Filters use the REST list query syntax, so applying one is just
+ * replacing the page's active filters.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import type { SavedFilter } from "@metasaas/ui";
+
+const FILTERS_PREFIX = "metasaas:filters:";
+
+function readSaved(storageKey: string): SavedFilter[] {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    // Ignore corrupt entries
+    return [];
+  }
+}
+
+/**
+ * Loads and persists saved filters for one entity.
+ *
+ * @param entitySlug - The entity's URL slug (e.g., "contacts")
+ */
+export function useSavedFilters(entitySlug: string) {
+  const storageKey = `${FILTERS_PREFIX}${entitySlug}`;
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>([]);
+
+  useEffect(() => {
+    setSavedFilters(readSaved(storageKey));
+  }, [storageKey]);
+
+  const persist = useCallback((next: SavedFilter[]) => {
+    setSavedFilters(next);
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(next));
+    } catch {
+      // localStorage full or unavailable — non-critical
+    }
+  }, [storageKey]);
+
+  /** Saves the filters under a name, replacing a saved filter with the same name */
+  const saveFilter = useCallback((name: string, filters: Record<string, string>) => {
+    const rest = readSaved(storageKey).filter((f) => f.name !== name);
+    persist([...rest, { name, filters }]);
+  }, [storageKey, persist]);
+
+  const deleteFilter = useCallback((name: string) => {
+    persist(readSaved(storageKey).filter((f) => f.name !== name));
+  }, [storageKey, persist]);
+
+  return { savedFilters, saveFilter, deleteFilter };
+}
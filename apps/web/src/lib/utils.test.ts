@@ -110,6 +110,13 @@ describe("formatValue", () => {
     expect(formatValue(0)).not.toBe("—"); // 0 is a valid number, not null
   });
 
+  it("joins lists and shows other JSON compactly", () => {
+    expect(formatValue(["urgent", "q3"])).toBe("urgent, q3");
+    expect(formatValue([])).toBe("—");
+    expect(formatValue({ zip: "10115", floors: [1, 2] })).toBe('{"zip":"10115","floors":[1,2]}');
+    expect(formatValue([1, 2])).toBe("[1,2]");
+  });
+
   it("handles empty string (not null)", () => {
     // Empty string is truthy-ish in the function: String("") returns ""
     expect(formatValue("")).toBe("");
@@ -52,6 +52,39 @@ export interface ActionExample {
   naturalLanguage?: string;
 }
 
+// ---------------------------------------------------------------------------
+// Ownership
+// ---------------------------------------------------------------------------
+
+/**
+ * Tells the permission middleware which records an action touches,
+ * so `ownership: "own"` rules can be enforced against them.
+ *
+ * Scopes:
+ *   - "record": the action targets one record by `input.id` (findById,
+ *               update, delete). The Bus loads it and compares its owner.
+ *   - "list":   the action returns many records (findAll). The Bus adds
+ *               an owner filter to `input.where`.
+ *   - "create": the action creates a record. The Bus assigns the caller
+ *               as its owner.
+ */
+export interface ActionOwnership {
+  /** The entity whose records this action reads or modifies */
+  entity: string;
+
+  /** The entity field holding the owner's userId (e.g., "ownerId") */
+  field: string;
+
+  /** How "own" rules apply to this action */
+  scope: "record" | "list" | "create";
+
+  /**
+   * For "record" scope: the target is a soft-deleted record (restore,
+   * purge), so the Bus looks it up in the trash instead of live rows.
+   */
+  trashed?: boolean;
+}
+
 // ---------------------------------------------------------------------------
 // Action Definition
 // ---------------------------------------------------------------------------
@@ -102,6 +135,12 @@ export interface ActionDefinition<
   /** Which entities this action modifies (for cache invalidation and audit) */
   affectsEntities?: string[];
 
+  /**
+   * Record ownership metadata. Required for `ownership: "own"` permission
+   * rules to match — without it the Bus has no owner to compare against.
+   */
+  ownership?: ActionOwnership;
+
   /** Side effects triggered after successful execution */
   sideEffects?: SideEffect[];
 
@@ -8,6 +8,7 @@
  */
 
 import { z } from "zod";
+import type { WhereClause } from "./filter.js";
 
 /** Types of AI capabilities */
 export type AICapabilityType =
@@ -21,6 +22,26 @@ export type AICapabilityType =
 /** When the AI capability triggers */
 export type AITrigger = "on_demand" | "on_create" | "on_update" | "on_schedule";
 
+/**
+ * When and over which records an on_schedule capability runs.
+ * Each run processes every tenant's matching records separately.
+ */
+export interface AISchedule {
+  /**
+   * 5-field cron expression in UTC, or @hourly / @daily / @weekly /
+   * @monthly / @yearly. Example: "0 6 * * 1" — Mondays at 06:00.
+   */
+  cron: string;
+  /** Only records matching this filter are processed (default: all) */
+  where?: WhereClause;
+  /** Records fetched per batch (default 50, max 100) */
+  batchSize?: number;
+  /** AI calls in flight at once for a tenant (default 2) */
+  concurrency?: number;
+  /** Upper bound on records processed per tenant per run */
+  maxRecords?: number;
+}
+
 /** Model preference for routing */
 export type AIModelPreference = "fast" | "balanced" | "quality";
 
@@ -64,6 +85,9 @@ export interface AICapabilityDefinition {
   /** When this capability triggers */
   trigger: AITrigger;
 
+  /** Required when trigger is "on_schedule" */
+  schedule?: AISchedule;
+
   /** Routing preferences */
   preferences?: {
     quality: AIModelPreference;
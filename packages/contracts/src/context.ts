@@ -9,6 +9,9 @@
  */
 
 import type { CallerType } from "./permission.js";
+import type { WhereClause } from "./filter.js";
+import type { JobQueue } from "./jobs.js";
+import type { RollupFunction } from "./rollup.js";
 
 /**
  * Identifies who or what is executing an action.
@@ -39,9 +42,20 @@ export interface Logger {
   debug(message: string, data?: Record<string, unknown>): void;
 }
 
+/** Who caused a domain event */
+export interface EventActor {
+  userId: string;
+  type: CallerType;
+}
+
 /**
  * A domain event emitted after an action completes.
  * Platform routes these to subscribers (automations, webhooks, etc.).
+ *
+ * Actions emit only `type` and `payload`; `ctx.emit` fills in the
+ * envelope (id, tenant, actor, action, correlation and causation ids)
+ * from the executing action. Subscribers, webhooks and email triggers
+ * only receive events of their own tenant.
  */
 export interface DomainEvent {
   /** Event name. Convention: "entity.verb_past_tense" (e.g., "contact.created") */
@@ -52,6 +66,27 @@ export interface DomainEvent {
 
   /** When the event occurred */
   timestamp?: Date;
+
+  /** Unique event id */
+  id?: string;
+
+  /** Tenant the event belongs to (absent for platform-wide events) */
+  tenantId?: string;
+
+  /** The caller of the action that emitted the event */
+  actor?: EventActor;
+
+  /** The action that emitted the event (e.g., "contact.create") */
+  actionId?: string;
+
+  /**
+   * Shared by every action and event that stem from the same request,
+   * schedule tick or job — follow it to trace a whole chain of effects
+   */
+  correlationId?: string;
+
+  /** Id of the event whose subscriber ran the emitting action, if any */
+  causationId?: string;
 }
 
 /**
@@ -72,12 +107,28 @@ export interface DomainEvent {
  * };
  */
 export interface EventSubscriber {
-  /** The event type to listen for. Supports exact match or wildcard "*" for all events. */
+  /**
+   * The event type to listen for: an exact type ("task.created"), a
+   * pattern where `*` matches one segment and `**` any number ("task.*",
+   * "*.created", "**.transitioned"), or "*" for all events.
+   */
   eventType: string;
 
-  /** Human-readable name for logging and debugging */
+  /**
+   * Human-readable name for logging and debugging. Dead letters are
+   * replayed to the subscriber with the same name, so keep names unique.
+   */
   name: string;
 
+  /** Only receive events of this tenant (default: events of every tenant) */
+  tenantId?: string;
+
+  /** Higher runs first; subscribers with equal priority run concurrently (default 0) */
+  priority?: number;
+
+  /** Milliseconds before the handler is treated as failed (default 30000, 0 = no limit) */
+  timeoutMs?: number;
+
   /** The function called when a matching event is emitted */
   handler: (event: DomainEvent) => Promise<void>;
 }
@@ -97,13 +148,26 @@ export interface ActionContext {
    */
   db: DatabaseClient;
 
-  /** Emit a domain event (platform routes it to subscribers) */
+  /**
+   * Emit a domain event (platform routes it to subscribers). Inside
+   * `db.transaction` the event is held in an outbox and published only
+   * after the transaction commits — never on rollback.
+   */
   emit: (event: DomainEvent) => Promise<void>;
 
+  /** Enqueue background jobs for the caller's tenant (see jobs.ts) */
+  jobs: JobQueue;
+
   /** Structured logger */
   logger: Logger;
 }
 
+/** A user belonging to the caller's workspace */
+export interface WorkspaceMember {
+  userId: string;
+  role: string;
+}
+
 /**
  * Simplified database client interface for v0.
  * The platform provides the concrete implementation (Drizzle-based).
@@ -119,16 +183,25 @@ export interface DatabaseClient {
   findMany(
     entity: string,
     options?: {
-      where?: Record<string, unknown>;
+      /** Equality values, operator maps and `$or` groups (see filter.ts) */
+      where?: WhereClause;
       /** ILIKE search across specified fields */
       search?: { term: string; fields: string[] };
       orderBy?: { field: string; direction: "asc" | "desc" };
       limit?: number;
       offset?: number;
+      /**
+       * Opaque keyset cursor from a previous page (the findAll action's
+       * nextCursor/prevCursor). Must be used with the same orderBy;
+       * `offset` is ignored.
+       */
+      cursor?: string;
+      /** Soft-delete entities only: return the trash instead of live rows */
+      trashed?: boolean;
     }
   ): Promise<Record<string, unknown>[]>;
 
-  /** Find a single record by ID */
+  /** Find a single record by ID. Soft-deleted records are not returned. */
   findById(entity: string, id: string): Promise<Record<string, unknown> | null>;
 
   /** Insert a new record. Returns the created record with generated ID. */
@@ -144,14 +217,33 @@ export interface DatabaseClient {
     data: Record<string, unknown>
   ): Promise<Record<string, unknown>>;
 
-  /** Delete a record by ID. Returns true if deleted. */
+  /**
+   * Delete a record by ID. Returns true if deleted.
+   * For soft-delete entities the row is tombstoned, not removed.
+   */
   delete(entity: string, id: string): Promise<boolean>;
 
+  /**
+   * Restore a soft-deleted record. Returns the restored record,
+   * or null if no deleted record has this ID.
+   */
+  restore(entity: string, id: string): Promise<Record<string, unknown> | null>;
+
+  /**
+   * Permanently remove a soft-deleted record. Live records are left
+   * untouched — delete them first. Returns true if purged.
+   */
+  purge(entity: string, id: string): Promise<boolean>;
+
   /** Count records matching optional filter */
   count(
     entity: string,
-    where?: Record<string, unknown>,
-    search?: { term: string; fields: string[] }
+    where?: WhereClause,
+    search?: { term: string; fields: string[] },
+    options?: {
+      /** Soft-delete entities only: count the trash instead of live rows */
+      trashed?: boolean;
+    }
   ): Promise<number>;
 
   /**
@@ -162,13 +254,79 @@ export interface DatabaseClient {
   countByField(
     entity: string,
     field: string,
-    where?: Record<string, unknown>
+    where?: WhereClause
   ): Promise<Record<string, number>>;
 
+  /**
+   * Aggregates the records matching `where`: count counts them (`field` is
+   * not used); sum, min, max and avg aggregate a numeric field. Count and
+   * sum are 0 when nothing matches, the others null. Used by rollup fields.
+   */
+  aggregate(
+    entity: string,
+    fn: RollupFunction,
+    field?: string,
+    where?: WhereClause
+  ): Promise<number | null>;
+
+  /**
+   * Distinct values of a text or tags field across the entity's records,
+   * most used first — for tags, each tag counts separately. `search`
+   * keeps values containing it (case-insensitive); `where` limits the
+   * records looked at. Used for tag autocomplete.
+   */
+  distinctValues(
+    entity: string,
+    field: string,
+    options?: { search?: string; limit?: number; where?: WhereClause }
+  ): Promise<string[]>;
+
+  /**
+   * Members of the tenant's workspace — the users a `user` field can
+   * point at.
+   */
+  workspaceMembers(): Promise<WorkspaceMember[]>;
+
+  /**
+   * Records related to `id` through a hasMany or manyToMany relationship.
+   * `relation` is the relationship's path name (e.g., "members"; see
+   * relationshipNames in relationship.ts). `where` further filters the
+   * related records.
+   */
+  findRelated(
+    entity: string,
+    relation: string,
+    id: string,
+    options?: {
+      where?: WhereClause;
+      orderBy?: { field: string; direction: "asc" | "desc" };
+      limit?: number;
+      offset?: number;
+    }
+  ): Promise<Record<string, unknown>[]>;
+
+  /** Count records related to `id` through a hasMany or manyToMany relationship */
+  countRelated(entity: string, relation: string, id: string, where?: WhereClause): Promise<number>;
+
+  /**
+   * Link a related record. For manyToMany, inserts a junction row; for
+   * hasMany, points the related record's foreign key at `id`.
+   * Returns false if the records were already linked.
+   */
+  link(entity: string, relation: string, id: string, relatedId: string): Promise<boolean>;
+
+  /**
+   * Unlink a related record. For manyToMany, deletes the junction row; for
+   * hasMany, clears the related record's foreign key.
+   * Returns false if the records weren't linked.
+   */
+  unlink(entity: string, relation: string, id: string, relatedId: string): Promise<boolean>;
+
   /**
    * Execute multiple operations within a database transaction.
    * If the callback throws, all changes are rolled back.
-   * The callback receives a transactional DatabaseClient.
+   * The callback receives a transactional DatabaseClient. Events emitted
+   * inside it are published after commit.
    */
   transaction<T>(fn: (tx: DatabaseClient) => Promise<T>): Promise<T>;
 }
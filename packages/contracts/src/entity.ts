@@ -17,23 +17,56 @@ import type { RelationshipDefinition } from "./relationship.js";
 import type { SimpleWorkflowDefinition } from "./workflow.js";
 import type { ActionContext } from "./context.js";
 import type { AICapabilityDefinition } from "./ai-capability.js";
+import type { PermissionRule } from "./permission.js";
+import type { EntityRule } from "./rules.js";
+import type { RollupDefinition } from "./rollup.js";
+import type { JsonSchema } from "./json-schema.js";
 
 // ---------------------------------------------------------------------------
 // Field Definition
 // ---------------------------------------------------------------------------
 
-/** Validation rules that can be applied to a field */
+/**
+ * Validation rules that can be applied to a field. Enforced on create and
+ * update (see checkFieldValidations) and in the generated forms. Date and
+ * boolean fields ignore them.
+ */
 export interface FieldValidation {
-  /** Minimum value (for numbers) or minimum length (for strings) */
+  /** Minimum value (for numbers), length (for strings) or item count (for multi_enum and tags) */
   min?: number;
-  /** Maximum value (for numbers) or maximum length (for strings) */
+  /** Maximum value (for numbers), length (for strings) or item count (for multi_enum and tags) */
   max?: number;
-  /** Regex pattern the value must match */
+  /** Regex pattern string values must match (unanchored — use ^...$ for a full match) */
   pattern?: string;
   /** Custom error message when validation fails */
   message?: string;
 }
 
+/**
+ * Migration hints for a field: how the migration runner carries the data
+ * already in the table over to the field as it is declared now.
+ *
+ * @example
+ * // was `estimate: text`, now `estimateHours: number`
+ * migration: { renamedFrom: "estimate", transform: "nullif(trim(estimateHours), '')" }
+ */
+export interface FieldMigration {
+  /**
+   * The field's previous name. Its column is renamed, keeping its data,
+   * instead of a new empty column being added. Keep the hint until every
+   * database has been migrated.
+   */
+  renamedFrom?: string;
+
+  /**
+   * Converts stored values when the field's type changes in a way the
+   * runner won't do on its own (e.g. text to number): an SQL expression
+   * over the field, in the subset check constraints accept. The result is
+   * cast to the new type; if any row fails, the change is rolled back.
+   */
+  transform?: string;
+}
+
 /**
  * Defines a single field on an entity.
  * Fields map to database columns, form inputs, and table cells.
@@ -59,17 +92,47 @@ export interface FieldDefinition {
   /** Default value when creating a new record */
   defaultValue?: unknown;
 
-  /** For 'enum' type: the list of allowed values */
+  /** For 'enum' and 'multi_enum' types: the list of allowed values */
   options?: string[];
 
+  /**
+   * For 'json' type: the shape the value must have (see json-schema.ts).
+   * Without one, any JSON value is accepted.
+   */
+  jsonSchema?: JsonSchema;
+
   /** Validation rules beyond type checking */
   validations?: FieldValidation[];
 
+  /**
+   * Makes this a computed field: an expression over other fields of the
+   * same record (see expression.ts), e.g. "quantity * unitPrice" or
+   * `firstName + " " + lastName`. The value is recomputed on every create
+   * and update and stored, so it can be listed, sorted and filtered like
+   * any other field; it can't be written directly and forms show it
+   * read-only. The type must be text, number, currency, percentage or
+   * boolean.
+   */
+  computed?: string;
+
+  /**
+   * Makes this a rollup field: an aggregate over the records of one of the
+   * entity's hasMany relationships (see rollup.ts). Stored and kept up to
+   * date by the platform; read-only like a computed field. The type must
+   * be number, currency or percentage.
+   */
+  rollup?: RollupDefinition;
+
   /**
    * Whether this field contains PII or sensitive data.
    * Sensitive fields are encrypted at rest and excluded from AI context.
+   * Because the stored value is ciphertext, they can't be searched,
+   * filtered or sorted on.
    */
   sensitive?: boolean;
+
+  /** How existing data reaches this field when it is renamed or changes type */
+  migration?: FieldMigration;
 }
 
 // ---------------------------------------------------------------------------
@@ -120,6 +183,15 @@ export interface EntityUIConfig {
 // Entity Definition
 // ---------------------------------------------------------------------------
 
+/** Options for soft-deletable entities */
+export interface SoftDeleteOptions {
+  /**
+   * Days a deleted record stays in the trash before it is purged.
+   * Omit for the platform default (30). Use 0 to keep records forever.
+   */
+  retentionDays?: number;
+}
+
 /**
  * The complete definition of a business entity.
  * This is the primary interface that domain code uses to declare
@@ -148,6 +220,67 @@ export interface EntityDefinition {
   /** Database-level constraints (e.g., composite unique keys) */
   constraints?: ConstraintDefinition[];
 
+  /**
+   * Database indexes on the entity's table — single, composite, unique or
+   * partial. The platform also indexes belongsTo foreign keys,
+   * `ui.defaultSort` and `ui.searchFields` on its own, so declare only
+   * what other queries need. Migrations create, drop and rebuild indexes
+   * as this list changes.
+   *
+   * @example
+   * indexes: [
+   *   { fields: ["status", "dueDate"] },
+   *   { fields: ["email"], unique: true },
+   *   { fields: ["assigneeId"], where: { status: "open" } },
+   * ]
+   */
+  indexes?: IndexDefinition[];
+
+  /**
+   * Removed fields whose columns migrations should drop. Each column's
+   * values are copied to the `field_archive` table first, in the same
+   * transaction. Columns of removed fields not listed here are kept and
+   * reported as drift.
+   */
+  droppedFields?: string[];
+
+  /**
+   * Validation rules across fields — conditional required, comparisons
+   * and one-of-required (see rules.ts). Checked on create, on update
+   * against the stored record merged with the change, and in the forms.
+   */
+  rules?: EntityRule[];
+
+  /**
+   * Name of the field that records who owns each row (e.g., "ownerId").
+   * Must be declared in `fields` as a text field. The platform fills it
+   * with `caller.userId` on create when the caller doesn't supply one,
+   * and uses it to enforce `ownership: "own"` permission rules.
+   */
+  ownerField?: string;
+
+  /**
+   * Permission rules applied to the generated CRUD actions.
+   * Defaults to [ALLOW_ALL]. Combine with `ownerField` to restrict
+   * callers to their own records:
+   *
+   * @example
+   * permissions: [
+   *   { callerTypes: ["system"], effect: "allow" },
+   *   { roles: ["admin"], effect: "allow" },
+   *   { ownership: "own", effect: "allow" },
+   * ]
+   */
+  permissions?: PermissionRule[];
+
+  /**
+   * Soft delete: `delete` tombstones the row (sets `deleted_at`) instead of
+   * removing it. Tombstoned rows are excluded from findMany, findById and
+   * count, can be restored or purged, and are purged automatically once
+   * `retentionDays` have passed (default 30). `true` uses the defaults.
+   */
+  softDelete?: boolean | SoftDeleteOptions;
+
   /**
    * State machine workflow definitions.
    * When present, the platform validates status transitions on update actions.
@@ -197,14 +330,55 @@ export interface EntityHooks {
 }
 
 /**
- * Database constraint that spans multiple fields.
+ * Database constraint that spans multiple fields, enforced by the table.
  * Single-field constraints (required, unique) are on the FieldDefinition.
+ * A write that breaks one fails with errorType "conflict", naming the
+ * constraint's fields.
+ *
+ * @example
+ * constraints: [
+ *   { type: "unique", fields: ["projectId", "title"], message: "The project already has a task with this title" },
+ *   { type: "check", fields: ["startDate", "endDate"], expression: "endDate >= startDate" },
+ * ]
  */
 export interface ConstraintDefinition {
+  /** unique: no two records of a tenant share the fields' values; check: every record satisfies `expression` */
   type: "unique" | "check";
+
+  /** The fields constrained — for 'check' constraints, the fields the expression reads */
   fields: string[];
-  /** For 'check' constraints: the SQL expression */
+
+  /**
+   * For 'check' constraints: an SQL condition over `fields`, by field name.
+   * Comparisons, arithmetic, AND/OR/NOT, IS [NOT] NULL, IN, BETWEEN, LIKE
+   * and a few functions (length, lower, upper, trim, coalesce, abs) are allowed.
+   */
   expression?: string;
+
+  /** Message reported when a write breaks the constraint */
+  message?: string;
+}
+
+/**
+ * Database index on an entity's table. Every index starts with tenant_id,
+ * since every query is scoped to a tenant — so a unique index is unique
+ * within a workspace.
+ */
+export interface IndexDefinition {
+  /** Fields indexed, in order: declared fields, foreign keys (e.g. "projectId") or system fields */
+  fields: string[];
+
+  /** Whether two records may not share the same values */
+  unique?: boolean;
+
+  /**
+   * Makes this a partial index over the records whose fields equal these
+   * values (null matches empty fields), e.g. `{ status: "open" }`
+   */
+  where?: Record<string, string | number | boolean | null>;
+
+  /** Index name; derived from the table and fields when omitted */
+  name?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -227,3 +401,11 @@ export interface ConstraintDefinition {
 export function defineEntity(definition: EntityDefinition): EntityDefinition {
   return definition;
 }
+
+/**
+ * Whether the platform derives the field's value — a computed or rollup
+ * field. Derived fields are never written by callers and render read-only.
+ */
+export function isDerivedField(field: Pick<FieldDefinition, "computed" | "rollup">): boolean {
+  return field.computed !== undefined || field.rollup !== undefined;
+}
@@ -0,0 +1,128 @@
+/**
+ * Expressions — Test Suite
+ *
+ * Validates parsing (precedence, literals, functions, errors), evaluation
+ * with null propagation and text joining, and computing an entity's
+ * computed fields in dependency order.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  parseExpression,
+  evaluateExpression,
+  expressionFields,
+  computedFieldOrder,
+  computeFields,
+  ExpressionError,
+} from "./expression.js";
+import type { FieldDefinition } from "./entity.js";
+
+const evaluate = (source: string, record: Record<string, unknown> = {}) =>
+  evaluateExpression(parseExpression(source), record);
+
+describe("parseExpression", () => {
+  it("applies operator precedence and parentheses", () => {
+    expect(evaluate("2 + 3 * 4")).toBe(14);
+    expect(evaluate("(2 + 3) * 4")).toBe(20);
+    expect(evaluate("10 - 4 - 3")).toBe(3);
+    expect(evaluate("-2 * 3")).toBe(-6);
+    expect(evaluate("1 + 1 == 2 && !false")).toBe(true);
+  });
+
+  it("reads literals", () => {
+    expect(evaluate("0.5")).toBe(0.5);
+    expect(evaluate("'it\\'s'")).toBe("it's");
+    expect(evaluate('"double"')).toBe("double");
+    expect(evaluate("null")).toBeNull();
+    expect(evaluate("true")).toBe(true);
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseExpression("quantity *")).toThrow(ExpressionError);
+    expect(() => parseExpression("(a + b")).toThrow('Expected ")"');
+    expect(() => parseExpression("a b")).toThrow("Unexpected input");
+    expect(() => parseExpression('"open')).toThrow("Unterminated string");
+    expect(() => parseExpression("a; b")).toThrow('Unexpected ";"');
+    expect(() => parseExpression("a < b < c")).toThrow("can't be chained");
+  });
+
+  it("only allows known functions with the right number of arguments", () => {
+    expect(() => parseExpression("eval('1')")).toThrow('Unknown function "eval"');
+    expect(() => parseExpression("if(a, b)")).toThrow("Wrong number of arguments to if()");
+  });
+
+  it("lists the fields an expression reads", () => {
+    expect(expressionFields(parseExpression("round(quantity * unitPrice, 2) + quantity"))).toEqual([
+      "quantity",
+      "unitPrice",
+    ]);
+  });
+});
+
+describe("evaluateExpression", () => {
+  it("reads fields of the record", () => {
+    expect(evaluate("quantity * unitPrice", { quantity: 3, unitPrice: 2.5 })).toBe(7.5);
+  });
+
+  it("joins text with +, treating null as empty", () => {
+    expect(evaluate('firstName + " " + lastName', { firstName: "Ada", lastName: "Lovelace" })).toBe("Ada Lovelace");
+    expect(evaluate('firstName + " " + lastName', { firstName: "Ada" })).toBe("Ada ");
+    expect(evaluate('"#" + 7')).toBe("#7");
+  });
+
+  it("propagates null through arithmetic and comparisons", () => {
+    expect(evaluate("quantity * unitPrice", { quantity: 3 })).toBeNull();
+    expect(evaluate("quantity > 2", {})).toBeNull();
+    expect(evaluate("a / b", { a: 1, b: 0 })).toBeNull();
+  });
+
+  it("calls functions", () => {
+    expect(evaluate("round(2.345, 2)")).toBe(2.35);
+    expect(evaluate("round(2.5)")).toBe(3);
+    expect(evaluate("max(1, x, 3)", { x: 7 })).toBe(7);
+    expect(evaluate("coalesce(nickname, firstName)", { firstName: "Ada" })).toBe("Ada");
+    expect(evaluate("upper(trim(code))", { code: " ab " })).toBe("AB");
+    expect(evaluate("len(code)", { code: "abcd" })).toBe(4);
+    expect(evaluate('if(quantity > 10, "bulk", "single")', { quantity: 12 })).toBe("bulk");
+  });
+});
+
+describe("computed fields", () => {
+  const fields: FieldDefinition[] = [
+    { name: "quantity", type: "number", required: true, description: "Quantity" },
+    { name: "unitPrice", type: "currency", required: true, description: "Unit price" },
+    { name: "total", type: "currency", required: false, description: "Total", computed: "subtotal * 1.2" },
+    { name: "subtotal", type: "currency", required: false, description: "Subtotal", computed: "quantity * unitPrice" },
+    { name: "label", type: "text", required: false, description: "Label", computed: 'quantity + " units"' },
+    { name: "isBulk", type: "boolean", required: false, description: "Bulk", computed: "quantity >= 10" },
+  ];
+  const entity = { name: "Line", fields };
+
+  it("orders computed fields after the ones they read", () => {
+    expect(computedFieldOrder(entity).map((f) => f.name)).toEqual(["subtotal", "total", "label", "isBulk"]);
+  });
+
+  it("computes every computed field, numeric strings read as numbers", () => {
+    expect(computeFields(entity, { quantity: "10", unitPrice: "2.50" })).toEqual({
+      subtotal: 25,
+      total: 30,
+      label: "10 units",
+      isBulk: true,
+    });
+  });
+
+  it("stores null when an input is missing", () => {
+    expect(computeFields(entity, { quantity: 2 })).toMatchObject({ subtotal: null, total: null, isBulk: false });
+  });
+
+  it("rejects computed fields that depend on each other in a cycle", () => {
+    const cyclic = {
+      name: "Loop",
+      fields: [
+        { name: "a", type: "number", required: false, description: "A", computed: "b + 1" },
+        { name: "b", type: "number", required: false, description: "B", computed: "a + 1" },
+      ] satisfies FieldDefinition[],
+    };
+    expect(() => computedFieldOrder(cyclic)).toThrow("cycle: a → b → a");
+  });
+});
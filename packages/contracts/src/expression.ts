@@ -0,0 +1,426 @@
+/**
+ * Expressions
+ *
+ * The small, safe expression language of computed fields. An expression
+ * reads fields of the same record and never runs code — it is parsed into
+ * a tree and evaluated by walking it:
+ *
+ *   quantity * unitPrice
+ *   round(subtotal * (1 - discount / 100), 2)
+ *   firstName + " " + lastName
+ *   if(dueDate == null, "unscheduled", status)
+ *
+ * Supported:
+ *   literals     12, 0.5, "text", 'text', true, false, null
+ *   fields       any field name of the record
+ *   operators    + - * / %  == != < <= > >=  && || !  ( )
+ *   functions    round(x, digits?) floor ceil abs min max
+ *                upper lower trim len concat coalesce if(cond, then, else)
+ *
+ * Empty values propagate: arithmetic or a comparison involving null is
+ * null, and so is division by zero. `+` joins text when either side is
+ * text, treating null as "".
+ */
+
+import type { EntityDefinition, FieldDefinition } from "./entity.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ExpressionValue = number | string | boolean | null;
+
+export type BinaryOperator = "+" | "-" | "*" | "/" | "%" | "==" | "!=" | "<" | "<=" | ">" | ">=" | "&&" | "||";
+
+/** A parsed expression */
+export type ExpressionNode =
+  | { kind: "literal"; value: ExpressionValue }
+  | { kind: "field"; name: string }
+  | { kind: "unary"; op: "-" | "!"; operand: ExpressionNode }
+  | { kind: "binary"; op: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { kind: "call"; fn: string; args: ExpressionNode[] };
+
+/** Thrown for an expression that doesn't parse; `position` is the offending offset */
+export class ExpressionError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} (at ${position})`);
+    this.name = "ExpressionError";
+  }
+}
+
+/** Functions available to expressions, with their allowed argument counts */
+const FUNCTIONS: Record<string, { min: number; max: number }> = {
+  round: { min: 1, max: 2 },
+  floor: { min: 1, max: 1 },
+  ceil: { min: 1, max: 1 },
+  abs: { min: 1, max: 1 },
+  min: { min: 1, max: Infinity },
+  max: { min: 1, max: Infinity },
+  upper: { min: 1, max: 1 },
+  lower: { min: 1, max: 1 },
+  trim: { min: 1, max: 1 },
+  len: { min: 1, max: 1 },
+  concat: { min: 1, max: Infinity },
+  coalesce: { min: 1, max: Infinity },
+  if: { min: 3, max: 3 },
+};
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+type Token =
+  | { type: "number"; value: number; pos: number }
+  | { type: "string"; value: string; pos: number }
+  | { type: "ident"; value: string; pos: number }
+  | { type: "op"; value: string; pos: number }
+  | { type: "end"; pos: number };
+
+const OPERATORS = ["==", "!=", "<=", ">=", "&&", "||", "+", "-", "*", "/", "%", "<", ">", "!", "(", ")", ","];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)/.exec(source.slice(i));
+      if (!match) throw new ExpressionError(`Unexpected "${ch}"`, i);
+      tokens.push({ type: "number", value: Number(match[0]), pos: i });
+      i += match[0].length;
+    } else if (ch === '"' || ch === "'") {
+      const start = i++;
+      let value = "";
+      while (i < source.length && source[i] !== ch) {
+        // Backslash escapes the next character
+        if (source[i] === "\\" && i + 1 < source.length) i++;
+        value += source[i++];
+      }
+      if (i >= source.length) throw new ExpressionError("Unterminated string", start);
+      i++;
+      tokens.push({ type: "string", value, pos: start });
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      tokens.push({ type: "ident", value: match[0], pos: i });
+      i += match[0].length;
+    } else {
+      const op = OPERATORS.find((o) => source.startsWith(o, i));
+      if (!op) throw new ExpressionError(`Unexpected "${ch}"`, i);
+      tokens.push({ type: "op", value: op, pos: i });
+      i += op.length;
+    }
+  }
+  tokens.push({ type: "end", pos: source.length });
+  return tokens;
+}
+
+/** Binary operators by precedence, loosest first */
+const PRECEDENCE: BinaryOperator[][] = [
+  ["||"],
+  ["&&"],
+  ["==", "!=", "<", "<=", ">", ">="],
+  ["+", "-"],
+  ["*", "/", "%"],
+];
+
+const COMPARISON_LEVEL = 2;
+
+/** Parses an expression. Throws an ExpressionError when it is malformed or calls an unknown function. */
+export function parseExpression(source: string): ExpressionNode {
+  const tokens = tokenize(source);
+  let index = 0;
+  const peek = () => tokens[index];
+  const isOp = (value: string) => {
+    const token = peek();
+    return token.type === "op" && token.value === value;
+  };
+  const expect = (value: string) => {
+    if (!isOp(value)) throw new ExpressionError(`Expected "${value}"`, peek().pos);
+    index++;
+  };
+
+  function binary(level: number): ExpressionNode {
+    if (level === PRECEDENCE.length) return unary();
+    let left = binary(level + 1);
+    for (;;) {
+      const token = peek();
+      if (token.type !== "op" || !PRECEDENCE[level].includes(token.value as BinaryOperator)) return left;
+      // Comparisons don't chain: a < b < c is an error
+      if (level === COMPARISON_LEVEL && left.kind === "binary" && PRECEDENCE[level].includes(left.op)) {
+        throw new ExpressionError("Comparisons can't be chained", token.pos);
+      }
+      index++;
+      left = { kind: "binary", op: token.value as BinaryOperator, left, right: binary(level + 1) };
+    }
+  }
+
+  function unary(): ExpressionNode {
+    if (isOp("-") || isOp("!")) {
+      const op = (tokens[index++] as { value: "-" | "!" }).value;
+      return { kind: "unary", op, operand: unary() };
+    }
+    return primary();
+  }
+
+  function primary(): ExpressionNode {
+    const token = tokens[index++];
+    switch (token.type) {
+      case "number":
+      case "string":
+        return { kind: "literal", value: token.value };
+      case "ident": {
+        if (token.value === "true" || token.value === "false") return { kind: "literal", value: token.value === "true" };
+        if (token.value === "null") return { kind: "literal", value: null };
+        if (!isOp("(")) return { kind: "field", name: token.value };
+
+        const fn = FUNCTIONS[token.value];
+        if (!fn) throw new ExpressionError(`Unknown function "${token.value}"`, token.pos);
+        index++;
+        const args: ExpressionNode[] = [];
+        if (!isOp(")")) {
+          args.push(binary(0));
+          while (isOp(",")) {
+            index++;
+            args.push(binary(0));
+          }
+        }
+        expect(")");
+        if (args.length < fn.min || args.length > fn.max) {
+          throw new ExpressionError(`Wrong number of arguments to ${token.value}()`, token.pos);
+        }
+        return { kind: "call", fn: token.value, args };
+      }
+      case "op":
+        if (token.value === "(") {
+          const inner = binary(0);
+          expect(")");
+          return inner;
+        }
+        throw new ExpressionError(`Unexpected "${token.value}"`, token.pos);
+      case "end":
+        throw new ExpressionError("Unexpected end of expression", token.pos);
+    }
+  }
+
+  const node = binary(0);
+  if (peek().type !== "end") throw new ExpressionError("Unexpected input", peek().pos);
+  return node;
+}
+
+/** Names of the fields an expression reads */
+export function expressionFields(node: ExpressionNode): string[] {
+  const names = new Set<string>();
+  const visit = (n: ExpressionNode) => {
+    if (n.kind === "field") names.add(n.name);
+    else if (n.kind === "unary") visit(n.operand);
+    else if (n.kind === "binary") {
+      visit(n.left);
+      visit(n.right);
+    } else if (n.kind === "call") n.args.forEach(visit);
+  };
+  visit(node);
+  return [...names];
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+/** Evaluates a parsed expression against a record. Missing fields read as null. */
+export function evaluateExpression(node: ExpressionNode, record: Record<string, unknown>): ExpressionValue {
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+    case "field":
+      return toValue(record[node.name]);
+    case "unary": {
+      const value = evaluateExpression(node.operand, record);
+      if (node.op === "!") return !truthy(value);
+      return typeof value === "number" ? -value : null;
+    }
+    case "binary":
+      return evaluateBinary(node.op, node.left, node.right, record);
+    case "call":
+      return evaluateCall(node.fn, node.args, record);
+  }
+}
+
+function evaluateBinary(
+  op: BinaryOperator,
+  leftNode: ExpressionNode,
+  rightNode: ExpressionNode,
+  record: Record<string, unknown>
+): ExpressionValue {
+  // Logical operators short-circuit
+  if (op === "&&") return truthy(evaluateExpression(leftNode, record)) && truthy(evaluateExpression(rightNode, record));
+  if (op === "||") return truthy(evaluateExpression(leftNode, record)) || truthy(evaluateExpression(rightNode, record));
+
+  const left = evaluateExpression(leftNode, record);
+  const right = evaluateExpression(rightNode, record);
+
+  if (op === "==") return left === right;
+  if (op === "!=") return left !== right;
+  if (op === "+" && (typeof left === "string" || typeof right === "string")) {
+    return `${left ?? ""}${right ?? ""}`;
+  }
+  if (left === null || right === null) return null;
+
+  switch (op) {
+    case "<": return left < right;
+    case "<=": return left <= right;
+    case ">": return left > right;
+    case ">=": return left >= right;
+  }
+
+  if (typeof left !== "number" || typeof right !== "number") return null;
+  switch (op) {
+    case "+": return left + right;
+    case "-": return left - right;
+    case "*": return left * right;
+    case "/": return right === 0 ? null : left / right;
+    case "%": return right === 0 ? null : left % right;
+  }
+}
+
+function evaluateCall(fn: string, argNodes: ExpressionNode[], record: Record<string, unknown>): ExpressionValue {
+  // if() only evaluates the branch it takes
+  if (fn === "if") {
+    return truthy(evaluateExpression(argNodes[0], record))
+      ? evaluateExpression(argNodes[1], record)
+      : evaluateExpression(argNodes[2], record);
+  }
+
+  const args = argNodes.map((arg) => evaluateExpression(arg, record));
+  const [first] = args;
+  const numbers = args.filter((a): a is number => typeof a === "number");
+
+  switch (fn) {
+    case "coalesce":
+      return args.find((a) => a !== null) ?? null;
+    case "concat":
+      return args.map((a) => a ?? "").join("");
+    case "min":
+      return numbers.length ? Math.min(...numbers) : null;
+    case "max":
+      return numbers.length ? Math.max(...numbers) : null;
+    case "upper":
+      return typeof first === "string" ? first.toUpperCase() : null;
+    case "lower":
+      return typeof first === "string" ? first.toLowerCase() : null;
+    case "trim":
+      return typeof first === "string" ? first.trim() : null;
+    case "len":
+      return typeof first === "string" ? first.length : null;
+  }
+
+  if (typeof first !== "number") return null;
+  switch (fn) {
+    case "round": {
+      const factor = 10 ** (typeof args[1] === "number" ? args[1] : 0);
+      return Math.round(first * factor) / factor;
+    }
+    case "floor": return Math.floor(first);
+    case "ceil": return Math.ceil(first);
+    case "abs": return Math.abs(first);
+  }
+  return null;
+}
+
+function toValue(value: unknown): ExpressionValue {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "number" || typeof value === "string" || typeof value === "boolean") return value;
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+function truthy(value: ExpressionValue): boolean {
+  return value !== null && value !== false && value !== 0 && value !== "";
+}
+
+// ---------------------------------------------------------------------------
+// Computed fields
+// ---------------------------------------------------------------------------
+
+/** Field types a computed field can have */
+export const COMPUTED_FIELD_TYPES = ["text", "number", "currency", "percentage", "boolean"] as const;
+
+const NUMERIC_TYPES = new Set(["number", "currency", "percentage"]);
+
+const parsed = new Map<string, ExpressionNode>();
+
+/** Parses an expression once and reuses the tree */
+function parseCached(source: string): ExpressionNode {
+  let node = parsed.get(source);
+  if (!node) {
+    node = parseExpression(source);
+    parsed.set(source, node);
+  }
+  return node;
+}
+
+/**
+ * The entity's computed fields in evaluation order — a computed field that
+ * reads another comes after it. Throws when they depend on each other in
+ * a cycle.
+ */
+export function computedFieldOrder(entity: Pick<EntityDefinition, "name" | "fields">): FieldDefinition[] {
+  const computed = new Map(entity.fields.filter((f) => f.computed !== undefined).map((f) => [f.name, f]));
+  const ordered: FieldDefinition[] = [];
+  const state = new Map<string, "visiting" | "done">();
+
+  const visit = (field: FieldDefinition, chain: string[]) => {
+    if (state.get(field.name) === "done") return;
+    if (state.get(field.name) === "visiting") {
+      throw new Error(`${entity.name}: computed fields depend on each other in a cycle: ${[...chain, field.name].join(" → ")}`);
+    }
+    state.set(field.name, "visiting");
+    for (const name of expressionFields(parseCached(field.computed!))) {
+      const dependency = computed.get(name);
+      if (dependency) visit(dependency, [...chain, field.name]);
+    }
+    state.set(field.name, "done");
+    ordered.push(field);
+  };
+
+  for (const field of computed.values()) visit(field, []);
+  return ordered;
+}
+
+/**
+ * Computes the values of the entity's computed fields from a record and
+ * returns them (the record itself is not changed). Numeric fields are read
+ * as numbers — NUMERIC columns come back from the database as strings —
+ * and each result is converted to its field's type, or null.
+ */
+export function computeFields(
+  entity: Pick<EntityDefinition, "name" | "fields">,
+  record: Record<string, unknown>
+): Record<string, unknown> {
+  const order = computedFieldOrder(entity);
+  if (order.length === 0) return {};
+
+  const scope: Record<string, unknown> = { ...record };
+  for (const field of entity.fields) {
+    const value = scope[field.name];
+    if (NUMERIC_TYPES.has(field.type) && typeof value === "string" && value !== "") {
+      scope[field.name] = Number(value);
+    }
+  }
+
+  const values: Record<string, unknown> = {};
+  for (const field of order) {
+    const value = coerce(field, evaluateExpression(parseCached(field.computed!), scope));
+    values[field.name] = value;
+    scope[field.name] = value;
+  }
+  return values;
+}
+
+function coerce(field: FieldDefinition, value: ExpressionValue): unknown {
+  if (value === null) return null;
+  if (NUMERIC_TYPES.has(field.type)) return typeof value === "number" && Number.isFinite(value) ? value : null;
+  if (field.type === "boolean") return truthy(value);
+  return String(value);
+}
@@ -9,7 +9,7 @@
  */
 
 import { describe, it, expect } from "vitest";
-import { zodSchemaForFieldType, FIELD_TYPES, type FieldType } from "./field-types.js";
+import { zodSchemaForFieldType, checkFieldValidations, FIELD_TYPES, type FieldType } from "./field-types.js";
 
 // ---------------------------------------------------------------------------
 // Text-based fields: text, rich_text, phone
@@ -242,13 +242,140 @@ describe("zodSchemaForFieldType", () => {
     });
   });
 
+  // ---------------------------------------------------------------------------
+  // List fields: multi_enum, tags
+  // ---------------------------------------------------------------------------
+
+  describe("type: multi_enum", () => {
+    const schema = zodSchemaForFieldType("multi_enum", { required: true, enumValues: ["red", "green", "blue"] });
+
+    it("accepts a list of options and drops duplicates", () => {
+      expect(schema.parse(["red", "blue", "red"])).toEqual(["red", "blue"]);
+      expect(schema.parse([])).toEqual([]);
+    });
+
+    it("rejects values outside the options and non-lists", () => {
+      expect(schema.safeParse(["red", "purple"]).success).toBe(false);
+      expect(schema.safeParse("red").success).toBe(false);
+    });
+  });
+
+  describe("type: tags", () => {
+    it("trims and deduplicates tags, rejecting blank ones", () => {
+      const schema = zodSchemaForFieldType("tags", { required: true });
+      expect(schema.parse([" urgent", "urgent", "q3 "])).toEqual(["urgent", "q3"]);
+      expect(schema.safeParse(["ok", "  "]).success).toBe(false);
+      expect(schema.safeParse([1]).success).toBe(false);
+    });
+
+    it("bounds the number of tags and matches each against the pattern", () => {
+      const schema = zodSchemaForFieldType("tags", {
+        required: true,
+        validations: [{ max: 2 }, { pattern: "^[a-z]+$" }],
+      });
+      expect(schema.safeParse(["a", "b"]).success).toBe(true);
+
+      const tooMany = schema.safeParse(["a", "b", "c"]);
+      if (!tooMany.success) expect(tooMany.error.issues[0].message).toBe("Must have at most 2 items");
+      expect(tooMany.success).toBe(false);
+
+      const badTag = schema.safeParse(["a", "B2"]);
+      if (!badTag.success) expect(badTag.error.issues[0].message).toBe('"B2" must match the pattern ^[a-z]+$');
+      expect(badTag.success).toBe(false);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // JSON
+  // ---------------------------------------------------------------------------
+
+  describe("type: json", () => {
+    it("accepts any JSON value without a schema", () => {
+      const schema = zodSchemaForFieldType("json", { required: true });
+      for (const value of [{ a: [1, 2] }, [1, "x"], "text", 3, false]) {
+        expect(schema.safeParse(value).success).toBe(true);
+      }
+      expect(schema.safeParse(undefined).success).toBe(false);
+    });
+
+    it("checks values against the field's schema", () => {
+      const schema = zodSchemaForFieldType("json", {
+        required: true,
+        jsonSchema: { type: "object", properties: { zip: { type: "string" } }, required: ["zip"] },
+      });
+      expect(schema.safeParse({ zip: "10115" }).success).toBe(true);
+
+      const result = schema.safeParse({ zip: 10115 });
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error.issues[0].message).toBe("zip: must be a string");
+      expect(schema.safeParse(undefined).success).toBe(false);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // User
+  // ---------------------------------------------------------------------------
+
+  describe("type: user", () => {
+    it("accepts a user id, not an empty string", () => {
+      const schema = zodSchemaForFieldType("user", { required: true });
+      expect(schema.safeParse("user_123").success).toBe(true);
+      expect(schema.safeParse("").success).toBe(false);
+      expect(zodSchemaForFieldType("user").safeParse(null).success).toBe(true);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Field validations
+  // ---------------------------------------------------------------------------
+
+  describe("validations", () => {
+    it("bounds text length and matches patterns, with custom messages", () => {
+      const schema = zodSchemaForFieldType("text", {
+        required: true,
+        validations: [{ min: 2, max: 5 }, { pattern: "^[A-Z]+$", message: "Use capital letters" }],
+      });
+      expect(schema.safeParse("ABC").success).toBe(true);
+
+      const tooShort = schema.safeParse("A");
+      expect(tooShort.success).toBe(false);
+      if (!tooShort.success) expect(tooShort.error.issues[0].message).toBe("Must be at least 2 characters");
+
+      const lowercase = schema.safeParse("abc");
+      expect(lowercase.success).toBe(false);
+      if (!lowercase.success) expect(lowercase.error.issues[0].message).toBe("Use capital letters");
+    });
+
+    it("bounds numbers by value", () => {
+      const schema = zodSchemaForFieldType("percentage", {
+        required: true,
+        validations: [{ min: 0, max: 100, message: "Between 0 and 100" }],
+      });
+      expect(schema.safeParse(50).success).toBe(true);
+      const over = schema.safeParse(101);
+      expect(over.success).toBe(false);
+      if (!over.success) expect(over.error.issues[0].message).toBe("Between 0 and 100");
+    });
+
+    it("leaves empty optional values to required", () => {
+      const schema = zodSchemaForFieldType("text", { required: false, validations: [{ min: 3 }] });
+      expect(schema.safeParse(null).success).toBe(true);
+      expect(schema.safeParse(undefined).success).toBe(true);
+    });
+
+    it("ignores validations on dates and booleans", () => {
+      expect(checkFieldValidations("date", "2026-01-01", [{ max: 3 }])).toBeNull();
+      expect(checkFieldValidations("boolean", true, [{ min: 5 }])).toBeNull();
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // FIELD_TYPES completeness check
   // ---------------------------------------------------------------------------
 
   describe("FIELD_TYPES constant", () => {
-    it("contains all 13 expected field types", () => {
-      expect(FIELD_TYPES).toHaveLength(13);
+    it("contains all 17 expected field types", () => {
+      expect(FIELD_TYPES).toHaveLength(17);
       expect(FIELD_TYPES).toContain("text");
       expect(FIELD_TYPES).toContain("email");
       expect(FIELD_TYPES).toContain("phone");
@@ -262,6 +389,10 @@ describe("zodSchemaForFieldType", () => {
       expect(FIELD_TYPES).toContain("rich_text");
       expect(FIELD_TYPES).toContain("boolean");
       expect(FIELD_TYPES).toContain("file");
+      expect(FIELD_TYPES).toContain("json");
+      expect(FIELD_TYPES).toContain("multi_enum");
+      expect(FIELD_TYPES).toContain("tags");
+      expect(FIELD_TYPES).toContain("user");
     });
   });
 
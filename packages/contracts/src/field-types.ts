@@ -4,9 +4,19 @@
  * Defines the available field types for entity definitions and their
  * corresponding Zod validation schemas. This is the single source of truth
  * for what types of data an entity field can hold.
+ *
+ * A field's `validations` (min, max, pattern) are checked by
+ * `checkFieldValidations`, which both the generated schemas and
+ * client-side forms use, so server and browser agree on the rules.
+ *
+ * Values of `multi_enum` and `tags` fields are arrays of strings, `json`
+ * fields hold any JSON value (optionally checked against the field's
+ * `jsonSchema`), and `user` fields hold the id of a workspace member.
  */
 
 import { z } from "zod";
+import type { FieldValidation } from "./entity.js";
+import { checkJsonSchema, type JsonSchema } from "./json-schema.js";
 
 /**
  * All supported field types.
@@ -26,17 +36,60 @@ export const FIELD_TYPES = [
   "rich_text",
   "boolean",
   "file",
+  "json",
+  "multi_enum",
+  "tags",
+  "user",
 ] as const;
 
 export type FieldType = (typeof FIELD_TYPES)[number];
 
+/** Field types whose validations bound the value (min/max) */
+const NUMERIC_TYPES: ReadonlySet<FieldType> = new Set(["currency", "number", "percentage"]);
+
+/** Field types whose validations bound the length (min/max) and match a pattern */
+const STRING_TYPES: ReadonlySet<FieldType> = new Set([
+  "text",
+  "rich_text",
+  "email",
+  "phone",
+  "url",
+  "enum",
+  "file",
+  "user",
+]);
+
+/** Field types whose values are string arrays; validations bound the item count (min/max) */
+const ARRAY_TYPES: ReadonlySet<FieldType> = new Set(["multi_enum", "tags"]);
+
+/** Field types whose values are string arrays (multi_enum, tags) */
+export function isArrayFieldType(type: FieldType): boolean {
+  return ARRAY_TYPES.has(type);
+}
+
+/** Any JSON value — what a `json` field accepts without a schema */
+const jsonValueSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+  z.array(z.unknown()),
+  z.record(z.unknown()),
+]);
+
 /**
  * Returns the Zod schema for a given field type.
  * Used by the Action Bus validation middleware and form generation.
+ * `validations` add the field's rules, reported with their custom messages;
+ * `jsonSchema` is the shape `json` values must have.
  */
 export function zodSchemaForFieldType(
   type: FieldType,
-  options?: { required?: boolean; enumValues?: string[] }
+  options?: {
+    required?: boolean;
+    enumValues?: string[];
+    validations?: FieldValidation[];
+    jsonSchema?: JsonSchema;
+  }
 ): z.ZodTypeAny {
   const required = options?.required ?? false;
 
@@ -76,9 +129,96 @@ export function zodSchemaForFieldType(
         schema = z.string();
       }
       break;
+    case "multi_enum":
+      schema = z.array(
+        options?.enumValues && options.enumValues.length > 0
+          ? z.enum(options.enumValues as [string, ...string[]])
+          : z.string()
+      ).transform((values) => [...new Set(values)]);
+      break;
+    case "tags":
+      // Tags are trimmed and deduplicated; blank ones are rejected
+      schema = z.array(z.string().trim().min(1, "Tags can't be blank"))
+        .transform((values) => [...new Set(values)]);
+      break;
+    case "json": {
+      const jsonSchema = options?.jsonSchema;
+      schema = jsonSchema
+        ? z.unknown().superRefine((value, ctx) => {
+            if (value === undefined) {
+              ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Required" });
+              return;
+            }
+            const message = checkJsonSchema(value, jsonSchema);
+            if (message) ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+          })
+        : jsonValueSchema;
+      break;
+    }
+    case "user":
+      schema = z.string().min(1);
+      break;
     default:
       schema = z.string();
   }
 
+  const validations = options?.validations;
+  if (validations?.length) {
+    schema = schema.superRefine((value, ctx) => {
+      const message = checkFieldValidations(type, value, validations);
+      if (message) ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    });
+  }
+
   return required ? schema : schema.optional().nullable();
 }
+
+/**
+ * Checks a value against a field's validation rules and returns the
+ * message of the first rule it breaks — the rule's `message`, or a default
+ * — or null when it passes. `min`/`max` bound numbers by value, text by
+ * length and multi_enum/tags by item count; `pattern` (a regular
+ * expression, unanchored) applies to text and to each tag. Date, boolean
+ * and json fields ignore validations; empty values are left to `required`.
+ */
+export function checkFieldValidations(
+  type: FieldType,
+  value: unknown,
+  validations: FieldValidation[] | undefined
+): string | null {
+  if (!validations?.length || value === null || value === undefined) return null;
+
+  for (const rule of validations) {
+    const failure = failedRule(type, value, rule);
+    if (failure) return rule.message ?? failure;
+  }
+  return null;
+}
+
+/** Default message for the part of a rule the value breaks, or null */
+function failedRule(type: FieldType, value: unknown, rule: FieldValidation): string | null {
+  if (NUMERIC_TYPES.has(type) && typeof value === "number") {
+    if (rule.min !== undefined && value < rule.min) return `Must be at least ${rule.min}`;
+    if (rule.max !== undefined && value > rule.max) return `Must be at most ${rule.max}`;
+    return null;
+  }
+
+  if (STRING_TYPES.has(type) && typeof value === "string") {
+    if (rule.min !== undefined && value.length < rule.min) return `Must be at least ${rule.min} characters`;
+    if (rule.max !== undefined && value.length > rule.max) return `Must be at most ${rule.max} characters`;
+    if (rule.pattern !== undefined && !new RegExp(rule.pattern).test(value)) {
+      return `Must match the pattern ${rule.pattern}`;
+    }
+  }
+
+  if (ARRAY_TYPES.has(type) && Array.isArray(value)) {
+    if (rule.min !== undefined && value.length < rule.min) return `Must have at least ${rule.min} items`;
+    if (rule.max !== undefined && value.length > rule.max) return `Must have at most ${rule.max} items`;
+    if (type === "tags" && rule.pattern !== undefined) {
+      const pattern = new RegExp(rule.pattern);
+      const bad = value.find((tag) => typeof tag === "string" && !pattern.test(tag));
+      if (bad !== undefined) return `"${bad}" must match the pattern ${rule.pattern}`;
+    }
+  }
+  return null;
+}
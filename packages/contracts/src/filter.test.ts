@@ -0,0 +1,179 @@
+/**
+ * Filters — Test Suite
+ *
+ * Validates the query-string filter syntax: operators per field type,
+ * value conversion, OR groups, and the errors reported for fields and
+ * operators that aren't allowed.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  parseFilterQuery,
+  operatorsForFieldType,
+  filterParam,
+  parseFilterParam,
+  whereClauseSchema,
+  type FilterableField,
+} from "./filter.js";
+
+const fields: FilterableField[] = [
+  { name: "title", type: "text" },
+  { name: "amount", type: "currency" },
+  { name: "stage", type: "enum", options: ["open", "won", "lost"] },
+  { name: "closeDate", type: "date" },
+  { name: "archived", type: "boolean" },
+  { name: "companyId", type: "uuid" },
+  { name: "colors", type: "multi_enum", options: ["red", "blue"] },
+  { name: "settings", type: "json" },
+];
+
+const COMPANY_ID = "11111111-1111-4111-8111-111111111111";
+
+describe("parseFilterQuery", () => {
+  it("keeps plain parameters as equality filters", () => {
+    const { where, errors } = parseFilterQuery({ stage: "won", companyId: COMPANY_ID }, fields);
+    expect(errors).toEqual([]);
+    expect(where).toEqual({ stage: "won", companyId: COMPANY_ID });
+  });
+
+  it("parses comparison operators and converts numbers", () => {
+    const { where } = parseFilterQuery({ "amount[gte]": "1000", "amount[lt]": "5000" }, fields);
+    expect(where).toEqual({ amount: { gte: 1000, lt: 5000 } });
+  });
+
+  it("parses in / not in lists", () => {
+    const { where } = parseFilterQuery({ "stage[in]": "open,won", "title[nin]": "a, b" }, fields);
+    expect(where).toEqual({ stage: { in: ["open", "won"] }, title: { nin: ["a", "b"] } });
+  });
+
+  it("parses is-null checks and date ranges", () => {
+    const { where, errors } = parseFilterQuery(
+      { "closeDate[null]": "false", "closeDate[between]": "2026-01-01,2026-03-31" },
+      fields
+    );
+    expect(errors).toEqual([]);
+    expect(where).toEqual({ closeDate: { null: false, between: ["2026-01-01", "2026-03-31"] } });
+  });
+
+  it("combines equality and operators on the same field", () => {
+    const { where } = parseFilterQuery({ amount: "10", "amount[ne]": "0" }, fields);
+    expect(where).toEqual({ amount: { eq: 10, ne: 0 } });
+  });
+
+  it("collects or-prefixed parameters into $or alternatives", () => {
+    const { where } = parseFilterQuery(
+      {
+        archived: "false",
+        "or.a.stage": "won",
+        "or.b.amount[gt]": "1000",
+        "or.b.stage": "open",
+      },
+      fields
+    );
+    expect(where).toEqual({
+      archived: false,
+      $or: [{ stage: "won" }, { amount: { gt: 1000 }, stage: "open" }],
+    });
+  });
+
+  it("rejects unknown fields", () => {
+    const { errors } = parseFilterQuery({ secret: "x", "or.a.tenantId": "y" }, fields);
+    expect(errors.map((e) => [e.param, e.code])).toEqual([
+      ["secret", "unknown_field"],
+      ["or.a.tenantId", "unknown_field"],
+    ]);
+  });
+
+  it("rejects operators that don't fit the field type", () => {
+    const { errors } = parseFilterQuery({ "title[gt]": "a", "amount[bogus]": "1" }, fields);
+    expect(errors.map((e) => e.code)).toEqual(["invalid_operator", "invalid_operator"]);
+  });
+
+  it("rejects values of the wrong type", () => {
+    const { errors } = parseFilterQuery(
+      {
+        "amount[gte]": "lots",
+        stage: "pending",
+        "closeDate[lt]": "someday",
+        archived: "yes",
+        companyId: "42",
+        "closeDate[between]": "2026-01-01",
+        "amount[null]": "maybe",
+      },
+      fields
+    );
+    expect(errors).toHaveLength(7);
+    expect(errors.every((e) => e.code === "invalid_value")).toBe(true);
+    expect(errors[1].message).toContain("open, won, lost");
+  });
+
+  it("checks multi_enum values against the options, and only allows null checks on json", () => {
+    const { where, errors } = parseFilterQuery(
+      { "colors[in]": "red,blue", colors: "green", "settings[null]": "true", settings: "x" },
+      fields
+    );
+    expect(where).toEqual({ colors: { in: ["red", "blue"] }, settings: { null: true } });
+    expect(errors.map((e) => [e.param, e.code])).toEqual([
+      ["colors", "invalid_value"],
+      ["settings", "invalid_operator"],
+    ]);
+  });
+});
+
+describe("operatorsForFieldType", () => {
+  it("offers comparisons for numbers and dates, lists for enums", () => {
+    expect(operatorsForFieldType("currency")).toContain("gte");
+    expect(operatorsForFieldType("datetime")).toContain("between");
+    expect(operatorsForFieldType("enum")).toContain("in");
+    expect(operatorsForFieldType("enum")).not.toContain("gt");
+    expect(operatorsForFieldType("boolean")).toEqual(["eq", "ne", "null"]);
+  });
+});
+
+describe("filterParam / parseFilterParam", () => {
+  it("round-trips parameter names", () => {
+    expect(filterParam("amount", "gte")).toBe("amount[gte]");
+    expect(filterParam("stage", "eq")).toBe("stage");
+    expect(filterParam("stage", "in", "x")).toBe("or.x.stage[in]");
+
+    expect(parseFilterParam("or.x.stage[in]")).toEqual({ field: "stage", op: "in", group: "x" });
+    expect(parseFilterParam("stage")).toEqual({ field: "stage", op: "eq" });
+    expect(parseFilterParam("stage[bogus]")).toBeNull();
+  });
+});
+
+describe("whereClauseSchema", () => {
+  it("accepts equality values, operator maps and $or groups", () => {
+    const where = {
+      stage: "won",
+      amount: { gte: 100, lt: 500 },
+      title: { in: ["a", "b"] },
+      closeDate: { null: true },
+      $or: [{ stage: "open" }, { amount: { gt: 1000 } }],
+    };
+    expect(whereClauseSchema.safeParse(where)).toEqual({ success: true, data: where });
+  });
+
+  it("rejects unknown operators and nested objects", () => {
+    expect(whereClauseSchema.safeParse({ amount: { like: "%1" } }).success).toBe(false);
+    expect(whereClauseSchema.safeParse({ amount: { gte: { x: 1 } } }).success).toBe(false);
+    expect(whereClauseSchema.safeParse({ $or: [{ amount: { bogus: 1 } }] }).success).toBe(false);
+  });
+
+  it("rejects operands of the wrong shape for the operator", () => {
+    expect(whereClauseSchema.safeParse({ stage: { in: "open" } }).success).toBe(false);
+    expect(whereClauseSchema.safeParse({ stage: { nin: "open" } }).success).toBe(false);
+    expect(whereClauseSchema.safeParse({ amount: { between: 100 } }).success).toBe(false);
+    expect(whereClauseSchema.safeParse({ amount: { between: [100] } }).success).toBe(false);
+    expect(whereClauseSchema.safeParse({ amount: { between: [1, 2, 3] } }).success).toBe(false);
+    expect(whereClauseSchema.safeParse({ amount: { gte: [100] } }).success).toBe(false);
+    expect(whereClauseSchema.safeParse({ closeDate: { null: "yes" } }).success).toBe(false);
+  });
+
+  it("accepts what parseFilterQuery produces for a single-value list (?stage[in]=open)", () => {
+    const { where, errors } = parseFilterQuery({ "stage[in]": "open" }, fields);
+    expect(errors).toEqual([]);
+    expect(where).toEqual({ stage: { in: ["open"] } });
+    expect(whereClauseSchema.safeParse(where).success).toBe(true);
+  });
+});
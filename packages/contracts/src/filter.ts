@@ -0,0 +1,325 @@
+/**
+ * Filters
+ *
+ * The filter language shared by the REST adapter, the DatabaseClient and
+ * the web filter builder.
+ *
+ * A `WhereClause` maps field names to either a plain value (equality) or
+ * an operator map, and may carry an `$or` list of alternative clauses:
+ *
+ *   {
+ *     stage: { in: ["open", "won"] },
+ *     amount: { gte: 1000, lt: 5000 },
+ *     closedAt: { null: true },
+ *     $or: [{ ownerId: "u1" }, { priority: "high" }],
+ *   }
+ *
+ * The same filters in query-string form (GET /api/{plural}):
+ *
+ *   stage[in]=open,won
+ *   amount[gte]=1000 & amount[lt]=5000
+ *   closedAt[null]=true
+ *   closeDate[between]=2026-01-01,2026-03-31
+ *   or.a.ownerId=u1 & or.b.priority=high
+ *
+ * Parameters sharing an `or.<group>.` prefix form one alternative; a record
+ * matches when every top-level condition holds and, if there are any `or.`
+ * parameters, at least one alternative matches in full.
+ */
+
+import { z } from "zod";
+import type { FieldType } from "./field-types.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const FILTER_OPERATORS = [
+  "eq",
+  "ne",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "in",
+  "nin",
+  "null",
+  "between",
+] as const;
+
+export type FilterOperator = (typeof FILTER_OPERATORS)[number];
+
+/** Operator map for one field, e.g. `{ gte: 100, lt: 500 }` */
+export type FieldFilter = Partial<Record<FilterOperator, unknown>>;
+
+/**
+ * Filter accepted by DatabaseClient.findMany/count. Field values are plain
+ * values (equality) or FieldFilters; `$or` lists alternative clauses.
+ */
+export interface WhereClause {
+  [field: string]: unknown;
+  $or?: WhereClause[];
+}
+
+/**
+ * A field that can be filtered, as seen by the filter parser.
+ * `uuid` stands for belongsTo foreign keys, which have no FieldDefinition.
+ */
+export interface FilterableField {
+  name: string;
+  type: FieldType | "uuid";
+  /** Allowed values of enum and multi_enum fields */
+  options?: string[];
+}
+
+/** A filter that couldn't be parsed or isn't allowed */
+export interface FilterError {
+  /** The query parameter, e.g. "amount[gte]" */
+  param: string;
+  message: string;
+  code: "unknown_field" | "invalid_operator" | "invalid_value";
+}
+
+export interface ParsedFilter {
+  where: WhereClause;
+  errors: FilterError[];
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+const filterValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+/**
+ * Operator map: known operators only, each with its operand shape — a list
+ * for `in`/`nin`, exactly two values for `between`, a scalar otherwise.
+ */
+const fieldFilterSchema = z
+  .object({
+    eq: filterValueSchema,
+    ne: filterValueSchema,
+    gt: filterValueSchema,
+    gte: filterValueSchema,
+    lt: filterValueSchema,
+    lte: filterValueSchema,
+    in: z.array(filterValueSchema),
+    nin: z.array(filterValueSchema),
+    null: z.boolean(),
+    between: z.tuple([filterValueSchema, filterValueSchema]),
+  } satisfies Record<FilterOperator, z.ZodTypeAny>)
+  .partial()
+  .strict();
+
+/**
+ * Zod schema for a WhereClause. Used by the generated findAll actions so
+ * malformed filters from any caller (REST, AI, plugins) fail validation.
+ */
+export const whereClauseSchema: z.ZodType<WhereClause> = z.lazy(() =>
+  z
+    .object({ $or: z.array(whereClauseSchema).optional() })
+    .catchall(z.union([filterValueSchema, fieldFilterSchema]))
+) as z.ZodType<WhereClause>;
+
+// ---------------------------------------------------------------------------
+// Operators per field type
+// ---------------------------------------------------------------------------
+
+const COMPARABLE: FilterOperator[] = ["eq", "ne", "gt", "gte", "lt", "lte", "between", "null"];
+const LISTABLE: FilterOperator[] = ["eq", "ne", "in", "nin", "null"];
+
+/**
+ * Operators that make sense for a field type. On multi_enum and tags
+ * fields, which hold lists, `eq` matches records whose list contains the
+ * value, `in` those containing any of the values (`ne`/`nin` negate them),
+ * and `null` matches empty lists too.
+ */
+export function operatorsForFieldType(type: FilterableField["type"]): FilterOperator[] {
+  switch (type) {
+    case "number":
+    case "currency":
+    case "percentage":
+    case "date":
+    case "datetime":
+      return COMPARABLE;
+    case "boolean":
+      return ["eq", "ne", "null"];
+    case "file":
+    case "json":
+      return ["null"];
+    default:
+      return LISTABLE;
+  }
+}
+
+/** Returns true for a plain object used as an operator map */
+export function isFieldFilter(value: unknown): value is FieldFilter {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Query-string parsing
+// ---------------------------------------------------------------------------
+
+/** `or.<group>.` prefix, field name, optional `[op]` */
+const PARAM_PATTERN = /^(?:or\.([A-Za-z0-9_-]+)\.)?([A-Za-z][A-Za-z0-9_]*)(?:\[([a-z]+)\])?$/;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Operators whose value is a comma-separated list */
+const LIST_OPERATORS = new Set<FilterOperator>(["in", "nin", "between"]);
+
+/**
+ * Parses filter query parameters into a WhereClause.
+ * Only `fields` can be filtered, each with the operators allowed for its
+ * type; values are converted to the field's type (numbers, booleans) and
+ * checked (dates, enum options, UUIDs). Problems are collected in `errors`
+ * rather than thrown so the caller can report them all at once.
+ *
+ * @param params - Filter parameters only (pagination, sort etc. removed)
+ * @param fields - Fields that may be filtered
+ */
+export function parseFilterQuery(
+  params: Record<string, string>,
+  fields: FilterableField[]
+): ParsedFilter {
+  const byName = new Map(fields.map((f) => [f.name, f]));
+  const where: WhereClause = {};
+  const groups = new Map<string, WhereClause>();
+  const errors: FilterError[] = [];
+
+  for (const [param, raw] of Object.entries(params)) {
+    const match = PARAM_PATTERN.exec(param);
+    const field = match ? byName.get(match[2]) : undefined;
+    if (!match || !field) {
+      errors.push({ param, message: `Unknown filter field "${param}"`, code: "unknown_field" });
+      continue;
+    }
+
+    const op = (match[3] ?? "eq") as FilterOperator;
+    if (!operatorsForFieldType(field.type).includes(op)) {
+      errors.push({
+        param,
+        message: `Operator "${op}" is not supported for ${field.type} field "${field.name}"`,
+        code: "invalid_operator",
+      });
+      continue;
+    }
+
+    const value = parseOperand(field, op, raw);
+    if (value instanceof Error) {
+      errors.push({ param, message: value.message, code: "invalid_value" });
+      continue;
+    }
+
+    let target = where;
+    if (match[1]) {
+      target = groups.get(match[1]) ?? {};
+      groups.set(match[1], target);
+    }
+    addCondition(target, field.name, op, value);
+  }
+
+  if (groups.size > 0) where.$or = [...groups.values()];
+  return { where, errors };
+}
+
+/** Merges a condition into a clause, turning equality into an operator map when needed */
+function addCondition(clause: WhereClause, field: string, op: FilterOperator, value: unknown) {
+  const existing = clause[field];
+  if (existing === undefined && op === "eq") {
+    clause[field] = value;
+    return;
+  }
+  const filter: FieldFilter = isFieldFilter(existing)
+    ? existing
+    : existing === undefined ? {} : { eq: existing };
+  filter[op] = value;
+  clause[field] = filter;
+}
+
+function parseOperand(field: FilterableField, op: FilterOperator, raw: string): unknown {
+  if (op === "null") {
+    if (raw === "true") return true;
+    if (raw === "false") return false;
+    return new Error(`"${field.name}[null]" must be true or false`);
+  }
+
+  if (LIST_OPERATORS.has(op)) {
+    const items = raw.split(",").map((s) => s.trim()).filter(Boolean);
+    if (op === "between" && items.length !== 2) {
+      return new Error(`"${field.name}[between]" needs two comma-separated values`);
+    }
+    if (items.length === 0) {
+      return new Error(`"${field.name}[${op}]" needs at least one value`);
+    }
+    const values = items.map((item) => parseValue(field, item));
+    return values.find((v) => v instanceof Error) ?? values;
+  }
+
+  return parseValue(field, raw);
+}
+
+function parseValue(field: FilterableField, raw: string): unknown {
+  switch (field.type) {
+    case "number":
+    case "currency":
+    case "percentage": {
+      const n = Number(raw);
+      return raw.trim() !== "" && Number.isFinite(n)
+        ? n
+        : new Error(`"${raw}" is not a number (${field.name})`);
+    }
+    case "date":
+    case "datetime":
+      return isNaN(Date.parse(raw))
+        ? new Error(`"${raw}" is not a valid date (${field.name})`)
+        : raw;
+    case "boolean":
+      if (raw === "true") return true;
+      if (raw === "false") return false;
+      return new Error(`"${field.name}" must be true or false`);
+    case "enum":
+    case "multi_enum":
+      return field.options?.length && !field.options.includes(raw)
+        ? new Error(`"${raw}" is not a valid ${field.name} (expected one of: ${field.options.join(", ")})`)
+        : raw;
+    case "uuid":
+      return UUID_PATTERN.test(raw) ? raw : new Error(`"${raw}" is not a valid ID (${field.name})`);
+    default:
+      return raw;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Query-string building
+// ---------------------------------------------------------------------------
+
+/**
+ * Builds the query-string parameter name for a condition — the inverse of
+ * parseFilterQuery's key syntax.
+ *
+ *   filterParam("amount", "gte")        → "amount[gte]"
+ *   filterParam("stage", "eq")          → "stage"
+ *   filterParam("stage", "eq", "a")     → "or.a.stage"
+ */
+export function filterParam(field: string, op: FilterOperator, group?: string): string {
+  const key = op === "eq" ? field : `${field}[${op}]`;
+  return group ? `or.${group}.${key}` : key;
+}
+
+/** Splits a parameter name built by filterParam back into its parts, or null */
+export function parseFilterParam(
+  param: string
+): { field: string; op: FilterOperator; group?: string } | null {
+  const match = PARAM_PATTERN.exec(param);
+  if (!match) return null;
+  const op = (match[3] ?? "eq") as FilterOperator;
+  if (!FILTER_OPERATORS.includes(op)) return null;
+  return { field: match[2], op, ...(match[1] && { group: match[1] }) };
+}
@@ -11,26 +11,83 @@ export type {
   EntityHooks,
   FieldDefinition,
   FieldValidation,
+  FieldMigration,
   EntityUIConfig,
   SortConfig,
   ConstraintDefinition,
+  IndexDefinition,
+  SoftDeleteOptions,
 } from "./entity.js";
-export { defineEntity } from "./entity.js";
+export { defineEntity, isDerivedField } from "./entity.js";
 
 // Field types
 export type { FieldType } from "./field-types.js";
-export { FIELD_TYPES, zodSchemaForFieldType } from "./field-types.js";
+export { FIELD_TYPES, zodSchemaForFieldType, checkFieldValidations, isArrayFieldType } from "./field-types.js";
+
+// JSON schemas for json fields
+export type { JsonSchema, JsonSchemaType } from "./json-schema.js";
+export { JSON_SCHEMA_TYPES, checkJsonSchema } from "./json-schema.js";
+
+// Cross-field rules
+export type {
+  EntityRule,
+  RequiredRule,
+  CompareRule,
+  OneOfRequiredRule,
+  RuleCondition,
+  RuleComparison,
+  RuleFieldError,
+} from "./rules.js";
+export { RULE_COMPARISONS, checkEntityRules, ruleFields } from "./rules.js";
+
+// Computed field expressions
+export type { ExpressionNode, ExpressionValue, BinaryOperator } from "./expression.js";
+export {
+  ExpressionError,
+  COMPUTED_FIELD_TYPES,
+  parseExpression,
+  evaluateExpression,
+  expressionFields,
+  computedFieldOrder,
+  computeFields,
+} from "./expression.js";
+
+// Rollup fields
+export type { RollupDefinition, RollupFunction } from "./rollup.js";
+export { ROLLUP_FUNCTIONS, rollupRelationship, describeRollup } from "./rollup.js";
+
+// Filters
+export type {
+  FilterOperator,
+  FieldFilter,
+  WhereClause,
+  FilterableField,
+  FilterError,
+  ParsedFilter,
+} from "./filter.js";
+export {
+  FILTER_OPERATORS,
+  whereClauseSchema,
+  operatorsForFieldType,
+  isFieldFilter,
+  parseFilterQuery,
+  filterParam,
+  parseFilterParam,
+} from "./filter.js";
 
 // Relationships
 export type {
   RelationshipDefinition,
   RelationshipType,
+  RelationshipNames,
 } from "./relationship.js";
+export { relationshipNames } from "./relationship.js";
 
 // Actions
 export type {
   ActionDefinition,
   ActionExample,
+  ActionOwnership,
   SideEffect,
 } from "./action.js";
 export { defineAction } from "./action.js";
@@ -41,7 +98,9 @@ export type {
   Caller,
   Logger,
   DomainEvent,
+  EventActor,
   DatabaseClient,
+  WorkspaceMember,
   EventSubscriber,
 } from "./context.js";
 
@@ -60,10 +119,14 @@ export type {
   AICapabilityDefinition,
   AICapabilityType,
   AITrigger,
+  AISchedule,
   AIModelPreference,
 } from "./ai-capability.js";
 export { defineAICapability } from "./ai-capability.js";
 
+// Background jobs
+export type { JobQueue, Job, JobHandler, EnqueueOptions } from "./jobs.js";
+
 // Authentication
 export type { AuthProvider, AuthResult } from "./auth.js";
 
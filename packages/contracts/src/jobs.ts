@@ -0,0 +1,63 @@
+/**
+ * Background Jobs
+ *
+ * Work that should happen outside the request — sending email, calling
+ * slow APIs, recomputing data — is enqueued as a job and run by a worker.
+ * Jobs are stored in the database, so they survive restarts, and are
+ * retried with backoff when their handler throws.
+ *
+ * Actions enqueue jobs through `ctx.jobs`, scoped to the caller's tenant:
+ *
+ *   await ctx.jobs.enqueue("invoice.render", { invoiceId }, { delayMs: 60_000 });
+ *
+ * Handlers are registered by the platform and plugins by job name.
+ */
+
+/** Options for enqueueing a job */
+export interface EnqueueOptions {
+  /** Run no earlier than this many milliseconds from now */
+  delayMs?: number;
+  /** Run no earlier than this time (overrides delayMs) */
+  runAt?: Date;
+  /** Attempts before the job is dead-lettered (default 5) */
+  maxAttempts?: number;
+  /**
+   * First retry delay; doubles on each attempt (default 10s, capped at 1h).
+   * Delays are jittered down by up to 25%.
+   */
+  backoffMs?: number;
+  /**
+   * Deduplication key — enqueueing a job whose key already exists returns
+   * the existing job instead of adding another
+   */
+  uniqueKey?: string;
+}
+
+/** A job as seen by its handler */
+export interface Job<P = Record<string, unknown>> {
+  id: string;
+  /** Handler name, e.g. "email.send" */
+  name: string;
+  /** Tenant the job belongs to (null for platform-wide jobs) */
+  tenantId: string | null;
+  payload: P;
+  /** 1 on the first run, 2 on the first retry, ... */
+  attempt: number;
+  maxAttempts: number;
+}
+
+/**
+ * Runs a job. Throwing schedules a retry (or dead-letters the job once
+ * its attempts are used up); returning marks it completed.
+ */
+export type JobHandler<P = Record<string, unknown>> = (job: Job<P>) => Promise<void>;
+
+/** Enqueues jobs for the current tenant */
+export interface JobQueue {
+  /** Adds a job and returns its id */
+  enqueue(
+    name: string,
+    payload?: Record<string, unknown>,
+    options?: EnqueueOptions
+  ): Promise<string>;
+}
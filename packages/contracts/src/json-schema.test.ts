@@ -0,0 +1,43 @@
+/**
+ * JSON Schemas — Test Suite
+ *
+ * Validates how values of json fields are checked against their schema:
+ * types, enums, nested properties and items, and the paths reported for
+ * mismatches.
+ */
+
+import { describe, it, expect } from "vitest";
+import { checkJsonSchema, type JsonSchema } from "./json-schema.js";
+
+const address: JsonSchema = {
+  type: "object",
+  properties: {
+    street: { type: "string" },
+    kind: { enum: ["home", "work"] },
+    floors: { type: "array", items: { type: "integer" } },
+  },
+  required: ["street"],
+  additionalProperties: false,
+};
+
+describe("checkJsonSchema", () => {
+  it("accepts values that match", () => {
+    expect(checkJsonSchema({ street: "Main St", kind: "home", floors: [1, 2] }, address)).toBeNull();
+    expect(checkJsonSchema("anything", {})).toBeNull();
+    expect(checkJsonSchema(null, { type: ["string", "null"] })).toBeNull();
+  });
+
+  it("reports the first mismatch with its path", () => {
+    expect(checkJsonSchema([], address)).toBe("must be an object");
+    expect(checkJsonSchema({}, address)).toBe("street: is required");
+    expect(checkJsonSchema({ street: "x", kind: "other" }, address)).toBe('kind: must be one of "home", "work"');
+    expect(checkJsonSchema({ street: "x", floors: [1, 2.5] }, address)).toBe("floors[1]: must be an integer");
+    expect(checkJsonSchema({ street: "x", zip: "1" }, address)).toBe("zip: is not allowed");
+    expect(checkJsonSchema(1, { type: ["string", "null"] })).toBe("must be a string or null");
+  });
+
+  it("rejects values JSON can't hold", () => {
+    expect(checkJsonSchema(new Date(), {})).toBe("must be a JSON value");
+    expect(checkJsonSchema({ n: Infinity }, { type: "object", properties: { n: {} } })).toBe("n: must be a JSON value");
+  });
+});
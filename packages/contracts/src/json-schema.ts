@@ -0,0 +1,126 @@
+/**
+ * JSON Schemas
+ *
+ * The shape a `json` field's value must have, declared with the field as
+ * its `jsonSchema`. It is a small subset of JSON Schema — plain data, so
+ * entity definitions stay serializable for the metadata API:
+ *
+ *   jsonSchema: {
+ *     type: "object",
+ *     properties: {
+ *       street: { type: "string" },
+ *       zip: { type: "string" },
+ *       floors: { type: "array", items: { type: "integer" } },
+ *     },
+ *     required: ["street"],
+ *     additionalProperties: false,
+ *   }
+ *
+ * Supported keywords: type (one type or a list), enum, properties,
+ * required, additionalProperties (true/false only) and items.
+ * `checkJsonSchema` reports the first place a value doesn't match.
+ */
+
+export const JSON_SCHEMA_TYPES = [
+  "string",
+  "number",
+  "integer",
+  "boolean",
+  "object",
+  "array",
+  "null",
+] as const;
+
+export type JsonSchemaType = (typeof JSON_SCHEMA_TYPES)[number];
+
+export interface JsonSchema {
+  /** Allowed type(s) of the value; any type when omitted */
+  type?: JsonSchemaType | JsonSchemaType[];
+  /** Allowed values, compared as JSON */
+  enum?: unknown[];
+  /** For objects: schemas of known properties */
+  properties?: Record<string, JsonSchema>;
+  /** For objects: properties that must be present */
+  required?: string[];
+  /** For objects: whether properties not listed in `properties` are allowed (default true) */
+  additionalProperties?: boolean;
+  /** For arrays: schema every item must match */
+  items?: JsonSchema;
+}
+
+/** The JSON Schema type of a value, or null for values JSON can't hold */
+function typeOf(value: unknown): Exclude<JsonSchemaType, "integer"> | null {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  switch (typeof value) {
+    case "string":
+      return "string";
+    case "number":
+      return Number.isFinite(value) ? "number" : null;
+    case "boolean":
+      return "boolean";
+    case "object":
+      return Object.getPrototypeOf(value) === Object.prototype ? "object" : null;
+    default:
+      return null;
+  }
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  if (type === "integer") return Number.isInteger(value);
+  return typeOf(value) === type;
+}
+
+/** Appends a property name or index to a path like "address.floors[0]" */
+function childPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Checks a value against a schema and returns a message for the first
+ * mismatch — naming where it is, e.g. `address.zip: must be a string` —
+ * or null when the value matches.
+ */
+export function checkJsonSchema(value: unknown, schema: JsonSchema, path = ""): string | null {
+  const at = path ? `${path}: ` : "";
+
+  if (typeOf(value) === null) return `${at}must be a JSON value`;
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      const expected = types.map((t) => (t === "array" || t === "object" || t === "integer" ? `an ${t}` : t === "null" ? "null" : `a ${t}`));
+      return `${at}must be ${expected.join(" or ")}`;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+    return `${at}must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`;
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    for (const [index, item] of value.entries()) {
+      const failure = checkJsonSchema(item, schema.items, childPath(path, index));
+      if (failure) return failure;
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    for (const name of schema.required ?? []) {
+      if (!(name in object)) return `${childPath(path, name)}: is required`;
+    }
+    for (const [name, item] of Object.entries(object)) {
+      const property = schema.properties?.[name];
+      if (property) {
+        const failure = checkJsonSchema(item, property, childPath(path, name));
+        if (failure) return failure;
+      } else if (schema.additionalProperties === false) {
+        return `${childPath(path, name)}: is not allowed`;
+      }
+    }
+  }
+
+  return null;
+}
@@ -25,6 +25,10 @@ export interface PermissionRule {
   /**
    * Whether the caller must own the resource.
    * "own" = caller.userId must match the entity's owner field.
+   *
+   * Only meaningful for actions that declare `ownership` (the generated
+   * CRUD actions do when the entity has an `ownerField`). An "own" rule
+   * never matches on actions that don't — there is no owner to compare.
    */
   ownership?: "any" | "own";
 
@@ -0,0 +1,48 @@
+/**
+ * Relationship Naming — Test Suite
+ *
+ * Validates the names derived for hasMany/manyToMany relationships.
+ * The platform and the UI both rely on these, so action IDs and routes
+ * must stay predictable.
+ */
+
+import { describe, it, expect } from "vitest";
+import { relationshipNames } from "./relationship.js";
+
+describe("relationshipNames", () => {
+  it("derives names from the related entity", () => {
+    expect(
+      relationshipNames({ type: "manyToMany", entity: "Member" })
+    ).toEqual({
+      singular: "Member",
+      plural: "Members",
+      path: "members",
+      idField: "memberId",
+    });
+  });
+
+  it("prefers the related entity's declared pluralName", () => {
+    const names = relationshipNames({ type: "hasMany", entity: "Person" }, "People");
+    expect(names.plural).toBe("People");
+    expect(names.path).toBe("people");
+  });
+
+  it("pluralizes consonant + y and sibilant endings", () => {
+    expect(relationshipNames({ type: "hasMany", entity: "Company" }).plural).toBe("Companies");
+    expect(relationshipNames({ type: "hasMany", entity: "Class" }).plural).toBe("Classes");
+    expect(relationshipNames({ type: "hasMany", entity: "Day" }).plural).toBe("Days");
+  });
+
+  it("uses the alias instead of the entity name", () => {
+    const names = relationshipNames(
+      { type: "manyToMany", entity: "Member", as: "attendee" },
+      "Members"
+    );
+    expect(names).toEqual({
+      singular: "Attendee",
+      plural: "Attendees",
+      path: "attendees",
+      idField: "attendeeId",
+    });
+  });
+});
@@ -23,6 +23,15 @@ export type RelationshipType = "belongsTo" | "hasMany" | "manyToMany";
  *
  *   { type: 'manyToMany', entity: 'Label', through: 'entity_labels' }
  *     → Junction table 'entity_labels' connects the two
+ *
+ * hasMany is the inverse side of a belongsTo: the related entity must
+ * declare the foreign key (via its own belongsTo). manyToMany needs no
+ * columns on either entity — the platform creates the junction table.
+ *
+ * For hasMany and manyToMany the platform generates link/unlink/list
+ * actions and routes, named after the related entity (or `as`):
+ *   class.addMember, class.removeMember, class.listMembers
+ *   GET /api/classes/:id/members
  */
 export interface RelationshipDefinition {
   /** The cardinality of the relationship */
@@ -38,13 +47,77 @@ export interface RelationshipDefinition {
    */
   foreignKey?: string;
 
-  /** For manyToMany: the name of the junction table */
+  /**
+   * For manyToMany: the name of the junction table.
+   * Defaults to both table names joined alphabetically (e.g., "classes_members"),
+   * so two entities declaring each other share one junction table.
+   */
   through?: string;
 
   /**
    * Optional alias when an entity has multiple relationships to the same entity.
    * e.g., a Task might have { type: 'belongsTo', entity: 'User', as: 'assignee' }
    * and { type: 'belongsTo', entity: 'User', as: 'reporter' }
+   *
+   * Always singular. For hasMany/manyToMany it names the generated actions
+   * and routes (as: 'attendee' → class.addAttendee, /classes/:id/attendees).
    */
   as?: string;
 }
+
+// ---------------------------------------------------------------------------
+// Naming
+// ---------------------------------------------------------------------------
+
+/**
+ * Names derived from a hasMany or manyToMany relationship.
+ * Shared by the platform (action IDs, routes) and the UI (related lists)
+ * so both sides always agree.
+ */
+export interface RelationshipNames {
+  /** Singular PascalCase name (e.g., "Member", or "Attendee" for an alias) */
+  singular: string;
+
+  /** Plural PascalCase name (e.g., "Members") */
+  plural: string;
+
+  /** URL segment under the parent record (e.g., "members") */
+  path: string;
+
+  /** camelCase input key naming the related record (e.g., "memberId") */
+  idField: string;
+}
+
+/**
+ * English pluralization with the same rules the platform uses for table names.
+ */
+function pluralize(word: string): string {
+  if (/[^aeiou]y$/i.test(word)) return word.slice(0, -1) + "ies";
+  if (/(s|x|ch|sh)$/i.test(word)) return word + "es";
+  return word + "s";
+}
+
+/**
+ * Derives the names used for a to-many relationship's actions and routes.
+ *
+ * @param rel - The hasMany or manyToMany relationship
+ * @param relatedPluralName - The related entity's declared pluralName, when
+ *   known. Preferred over automatic pluralization (e.g., "People").
+ */
+export function relationshipNames(
+  rel: RelationshipDefinition,
+  relatedPluralName?: string
+): RelationshipNames {
+  const base = rel.as ?? rel.entity;
+  const singular = base.charAt(0).toUpperCase() + base.slice(1);
+  const plural = !rel.as && relatedPluralName
+    ? relatedPluralName
+    : pluralize(singular);
+
+  return {
+    singular,
+    plural,
+    path: plural.toLowerCase(),
+    idField: singular.charAt(0).toLowerCase() + singular.slice(1) + "Id",
+  };
+}
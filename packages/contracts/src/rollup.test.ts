@@ -0,0 +1,47 @@
+/**
+ * Rollup Fields — Test Suite
+ *
+ * Validates how a rollup finds its hasMany relationship and how it is
+ * described to AI callers and in the forms.
+ */
+
+import { describe, it, expect } from "vitest";
+import { rollupRelationship, describeRollup } from "./rollup.js";
+import { isDerivedField } from "./entity.js";
+
+describe("rollupRelationship", () => {
+  const project = {
+    relationships: [
+      { type: "belongsTo" as const, entity: "Task" },
+      { type: "hasMany" as const, entity: "Task" },
+      { type: "hasMany" as const, entity: "Task", as: "milestone", foreignKey: "milestoneProjectId" },
+    ],
+  };
+
+  it("finds the hasMany relationship by related entity or alias", () => {
+    expect(rollupRelationship(project, { relationship: "Task", function: "count" })).toBe(project.relationships[1]);
+    expect(rollupRelationship(project, { relationship: "milestone", function: "count" })).toBe(project.relationships[2]);
+  });
+
+  it("ignores other relationship types and unknown names", () => {
+    expect(rollupRelationship({ relationships: [project.relationships[0]] }, { relationship: "Task", function: "count" }))
+      .toBeUndefined();
+    expect(rollupRelationship(project, { relationship: "Comment", function: "count" })).toBeUndefined();
+  });
+});
+
+describe("describeRollup", () => {
+  it("names the function, relationship and field", () => {
+    expect(describeRollup({ relationship: "Task", function: "count" })).toBe("count of Task");
+    expect(describeRollup({ relationship: "Task", function: "sum", field: "estimate", filter: { status: "open" } }))
+      .toBe("sum of Task.estimate, filtered");
+  });
+});
+
+describe("isDerivedField", () => {
+  it("is true for computed and rollup fields only", () => {
+    expect(isDerivedField({ computed: "a + b" })).toBe(true);
+    expect(isDerivedField({ rollup: { relationship: "Task", function: "count" } })).toBe(true);
+    expect(isDerivedField({})).toBe(false);
+  });
+});
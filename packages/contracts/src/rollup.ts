@@ -0,0 +1,58 @@
+/**
+ * Rollup Fields
+ *
+ * A rollup field aggregates the records of one of the entity's hasMany
+ * relationships — a count, sum, minimum, maximum or average — optionally
+ * over a filtered subset:
+ *
+ *   // on Project, which hasMany Task
+ *   { name: "openTaskCount", type: "number", required: false, description: "Open tasks",
+ *     rollup: { relationship: "Task", function: "count", filter: { status: { ne: "done" } } } },
+ *   { name: "estimatedHours", type: "number", required: false, description: "Total estimate",
+ *     rollup: { relationship: "Task", function: "sum", field: "estimate" } },
+ *
+ * The platform stores the value and refreshes it whenever a related
+ * record is created, updated, deleted, restored or moved to another
+ * parent, so rollups sort and filter like any other field.
+ */
+
+import type { EntityDefinition } from "./entity.js";
+import type { RelationshipDefinition } from "./relationship.js";
+import type { WhereClause } from "./filter.js";
+
+export const ROLLUP_FUNCTIONS = ["count", "sum", "min", "max", "avg"] as const;
+
+export type RollupFunction = (typeof ROLLUP_FUNCTIONS)[number];
+
+export interface RollupDefinition {
+  /**
+   * The hasMany relationship to aggregate, named by its `as` alias or
+   * else the related entity (e.g. "Task")
+   */
+  relationship: string;
+
+  /** count counts records; the others aggregate `field` */
+  function: RollupFunction;
+
+  /** Numeric field of the related entity to aggregate (not used by count) */
+  field?: string;
+
+  /** Only related records matching this filter are aggregated */
+  filter?: WhereClause;
+}
+
+/** The hasMany relationship a rollup aggregates, if the entity declares it */
+export function rollupRelationship(
+  entity: Pick<EntityDefinition, "relationships">,
+  rollup: RollupDefinition
+): RelationshipDefinition | undefined {
+  return entity.relationships?.find(
+    (rel) => rel.type === "hasMany" && (rel.as ?? rel.entity) === rollup.relationship
+  );
+}
+
+/** Short description of a rollup, e.g. "sum of Task.estimate, filtered" */
+export function describeRollup(rollup: RollupDefinition): string {
+  const target = rollup.function === "count" ? rollup.relationship : `${rollup.relationship}.${rollup.field}`;
+  return `${rollup.function} of ${target}${rollup.filter ? ", filtered" : ""}`;
+}
@@ -0,0 +1,113 @@
+/**
+ * Entity Rules — Test Suite
+ *
+ * Validates conditional required, comparison and one-of-required rules,
+ * their `when` conditions and messages, and the changed-field filter used
+ * for partial updates.
+ */
+
+import { describe, it, expect } from "vitest";
+import { checkEntityRules, ruleFields, type EntityRule } from "./rules.js";
+import type { FieldDefinition } from "./entity.js";
+
+const fields: FieldDefinition[] = [
+  { name: "status", type: "enum", required: true, description: "Status", options: ["draft", "approved"] },
+  { name: "discount", type: "percentage", required: false, description: "Discount" },
+  { name: "startDate", type: "date", required: false, description: "Start" },
+  { name: "endDate", type: "date", required: false, description: "End" },
+  { name: "minQty", type: "number", required: false, description: "Minimum quantity" },
+  { name: "maxQty", type: "number", required: false, description: "Maximum quantity" },
+  { name: "phone", type: "phone", required: false, description: "Phone" },
+  { name: "email", type: "email", required: false, description: "Email" },
+];
+
+const check = (rules: EntityRule[], record: Record<string, unknown>, changed?: string[]) =>
+  checkEntityRules({ fields, rules }, record, changed);
+
+describe("required rules", () => {
+  const rule: EntityRule = { type: "required", field: "discount", when: { field: "status", equals: "approved" } };
+
+  it("requires the field while the condition holds", () => {
+    expect(check([rule], { status: "approved" })).toEqual([
+      { field: "discount", message: "discount is required when status is approved", code: "required" },
+    ]);
+    expect(check([rule], { status: "approved", discount: 10 })).toEqual([]);
+  });
+
+  it("ignores the rule otherwise", () => {
+    expect(check([rule], { status: "draft" })).toEqual([]);
+  });
+
+  it("supports `in` conditions and conditions on any value", () => {
+    const oneOf: EntityRule = { type: "required", field: "discount", when: { field: "status", in: ["approved"] } };
+    const anyValue: EntityRule = { type: "required", field: "endDate", when: { field: "startDate" } };
+
+    expect(check([oneOf], { status: "approved" })).toHaveLength(1);
+    expect(check([anyValue], { startDate: "2026-01-01" })[0].message).toBe("endDate is required when startDate is set");
+    expect(check([anyValue], { startDate: "" })).toEqual([]);
+  });
+});
+
+describe("compare rules", () => {
+  const after: EntityRule = { type: "compare", field: "endDate", operator: "gt", otherField: "startDate" };
+
+  it("compares dates by time, with date wording", () => {
+    expect(check([after], { startDate: "2026-03-01", endDate: "2026-03-02" })).toEqual([]);
+    expect(check([after], { startDate: "2026-03-01", endDate: new Date("2026-02-01") })).toEqual([
+      { field: "endDate", message: "endDate must be after startDate", code: "compare" },
+    ]);
+  });
+
+  it("compares numbers by value, including numeric strings from the database", () => {
+    const rule: EntityRule = { type: "compare", field: "maxQty", operator: "gte", otherField: "minQty" };
+    expect(check([rule], { minQty: "9", maxQty: 10 })).toEqual([]);
+    expect(check([rule], { minQty: 10, maxQty: "9" })[0].message).toBe("maxQty must be at least minQty");
+  });
+
+  it("skips the comparison while either side is empty", () => {
+    expect(check([after], { startDate: "2026-03-01" })).toEqual([]);
+  });
+});
+
+describe("oneOfRequired rules", () => {
+  const rule: EntityRule = { type: "oneOfRequired", fields: ["phone", "email"] };
+
+  it("reports every field of the group when all are empty", () => {
+    expect(check([rule], { phone: "" })).toEqual([
+      { field: "phone", message: "phone or email is required", code: "oneOfRequired" },
+      { field: "email", message: "phone or email is required", code: "oneOfRequired" },
+    ]);
+  });
+
+  it("passes when one of them has a value", () => {
+    expect(check([rule], { email: "a@b.co" })).toEqual([]);
+  });
+});
+
+describe("rule options", () => {
+  it("uses the custom message", () => {
+    const rule: EntityRule = { type: "oneOfRequired", fields: ["phone", "email"], message: "Give a phone or an email" };
+    expect(check([rule], {})[0].message).toBe("Give a phone or an email");
+  });
+
+  it("applies `when` to any rule", () => {
+    const rule: EntityRule = {
+      type: "oneOfRequired",
+      fields: ["phone", "email"],
+      when: { field: "status", equals: "approved" },
+    };
+    expect(check([rule], { status: "draft" })).toEqual([]);
+    expect(check([rule], { status: "approved" })).toHaveLength(2);
+  });
+
+  it("only checks rules reading a changed field when changed fields are given", () => {
+    const rule: EntityRule = { type: "required", field: "discount", when: { field: "status", equals: "approved" } };
+    expect(check([rule], { status: "approved" }, ["phone"])).toEqual([]);
+    expect(check([rule], { status: "approved" }, ["status"])).toHaveLength(1);
+  });
+
+  it("lists the fields a rule reads", () => {
+    expect(ruleFields({ type: "compare", field: "endDate", operator: "gt", otherField: "startDate", when: { field: "status" } }))
+      .toEqual(["endDate", "startDate", "status"]);
+  });
+});
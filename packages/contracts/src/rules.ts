@@ -0,0 +1,218 @@
+/**
+ * Entity Rules
+ *
+ * Declarative validation that spans more than one field, declared in an
+ * entity's `rules` block instead of hand-written beforeCreate/beforeUpdate
+ * hooks:
+ *
+ *   rules: [
+ *     // conditional required
+ *     { type: "required", field: "discount", when: { field: "status", equals: "approved" } },
+ *     // comparison between two fields
+ *     { type: "compare", field: "endDate", operator: "gt", otherField: "startDate" },
+ *     // at least one of a group
+ *     { type: "oneOfRequired", fields: ["phone", "email"], message: "Give a phone number or an email" },
+ *   ]
+ *
+ * Every rule may carry a `when` condition and a custom `message`. Rules
+ * are checked by the generated create and update actions — updates
+ * against the stored record merged with the change — and by the web
+ * forms, all through checkEntityRules.
+ */
+
+import type { EntityDefinition } from "./entity.js";
+import type { FieldType } from "./field-types.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * A condition on one field. With `equals` or `in` the field must hold
+ * that value (one of those values); with neither it must have a value.
+ */
+export interface RuleCondition {
+  field: string;
+  equals?: unknown;
+  in?: unknown[];
+}
+
+export const RULE_COMPARISONS = ["eq", "ne", "gt", "gte", "lt", "lte"] as const;
+
+export type RuleComparison = (typeof RULE_COMPARISONS)[number];
+
+/** `field` must have a value whenever `when` holds */
+export interface RequiredRule {
+  type: "required";
+  field: string;
+  when: RuleCondition;
+  message?: string;
+}
+
+/**
+ * `field` must compare to `otherField` as `operator` says. Numbers compare
+ * by value, dates by time, anything else as text. Skipped while either
+ * side is empty — that is left to `required`.
+ */
+export interface CompareRule {
+  type: "compare";
+  field: string;
+  operator: RuleComparison;
+  otherField: string;
+  when?: RuleCondition;
+  message?: string;
+}
+
+/** At least one of `fields` must have a value */
+export interface OneOfRequiredRule {
+  type: "oneOfRequired";
+  fields: string[];
+  when?: RuleCondition;
+  message?: string;
+}
+
+export type EntityRule = RequiredRule | CompareRule | OneOfRequiredRule;
+
+/** A broken rule, reported against one field (same shape as a ValidationError's fieldErrors) */
+export interface RuleFieldError {
+  field: string;
+  message: string;
+  /** The type of the rule that was broken */
+  code: EntityRule["type"];
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+/** Every field a rule reads, its `when` condition included */
+export function ruleFields(rule: EntityRule): string[] {
+  const fields = rule.type === "oneOfRequired"
+    ? [...rule.fields]
+    : rule.type === "compare"
+      ? [rule.field, rule.otherField]
+      : [rule.field];
+  if (rule.when) fields.push(rule.when.field);
+  return fields;
+}
+
+/**
+ * Checks a record against the entity's rules and returns an error for
+ * each field that breaks one (a oneOfRequired rule reports every field of
+ * its group). When `changedFields` is given, only rules that read one of
+ * them are checked, so a partial update isn't rejected for a rule it
+ * doesn't touch.
+ */
+export function checkEntityRules(
+  entity: Pick<EntityDefinition, "fields" | "rules">,
+  record: Record<string, unknown>,
+  changedFields?: string[]
+): RuleFieldError[] {
+  const errors: RuleFieldError[] = [];
+  const typeOf = (name: string): FieldType | undefined =>
+    entity.fields.find((f) => f.name === name)?.type;
+
+  for (const rule of entity.rules ?? []) {
+    if (changedFields && !ruleFields(rule).some((f) => changedFields.includes(f))) continue;
+    if (rule.when && !conditionHolds(rule.when, record)) continue;
+
+    switch (rule.type) {
+      case "required":
+        if (isEmpty(record[rule.field])) {
+          errors.push({
+            field: rule.field,
+            message: rule.message ?? `${rule.field} is required when ${describeCondition(rule.when)}`,
+            code: rule.type,
+          });
+        }
+        break;
+
+      case "compare": {
+        const type = typeOf(rule.field);
+        const left = comparable(type, record[rule.field]);
+        const right = comparable(type, record[rule.otherField]);
+        if (left === null || right === null || compare(left, right, rule.operator)) break;
+        const isDate = type === "date" || type === "datetime";
+        errors.push({
+          field: rule.field,
+          message:
+            rule.message ??
+            `${rule.field} must be ${COMPARISON_WORDS[rule.operator][isDate ? 1 : 0]} ${rule.otherField}`,
+          code: rule.type,
+        });
+        break;
+      }
+
+      case "oneOfRequired":
+        if (rule.fields.every((f) => isEmpty(record[f]))) {
+          const message = rule.message ?? describeOneOf(rule.fields);
+          for (const field of rule.fields) errors.push({ field, message, code: rule.type });
+        }
+        break;
+    }
+  }
+  return errors;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Default message wording per operator: [numbers and text, dates] */
+const COMPARISON_WORDS: Record<RuleComparison, [string, string]> = {
+  eq: ["equal to", "the same as"],
+  ne: ["different from", "different from"],
+  gt: ["greater than", "after"],
+  gte: ["at least", "on or after"],
+  lt: ["less than", "before"],
+  lte: ["at most", "on or before"],
+};
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+function conditionHolds(condition: RuleCondition, record: Record<string, unknown>): boolean {
+  const value = record[condition.field];
+  if (condition.in) return condition.in.includes(value);
+  if ("equals" in condition) return value === condition.equals;
+  return !isEmpty(value);
+}
+
+function describeCondition(condition: RuleCondition): string {
+  if (condition.in) return `${condition.field} is one of ${condition.in.map(String).join(", ")}`;
+  if ("equals" in condition) return `${condition.field} is ${String(condition.equals)}`;
+  return `${condition.field} is set`;
+}
+
+function describeOneOf(fields: string[]): string {
+  return fields.length === 2
+    ? `${fields[0]} or ${fields[1]} is required`
+    : `One of ${fields.join(", ")} is required`;
+}
+
+/** Numbers by value, dates by time, anything else as text; null when empty or unparseable */
+function comparable(type: FieldType | undefined, value: unknown): number | string | null {
+  if (isEmpty(value)) return null;
+  if (type === "number" || type === "currency" || type === "percentage") {
+    // NUMERIC columns come back from the database as strings
+    const n = Number(value);
+    return Number.isNaN(n) ? null : n;
+  }
+  if (type === "date" || type === "datetime") {
+    const time = value instanceof Date ? value.getTime() : Date.parse(String(value));
+    return Number.isNaN(time) ? null : time;
+  }
+  return String(value);
+}
+
+function compare(left: number | string, right: number | string, operator: RuleComparison): boolean {
+  switch (operator) {
+    case "eq": return left === right;
+    case "ne": return left !== right;
+    case "gt": return left > right;
+    case "gte": return left >= right;
+    case "lt": return left < right;
+    case "lte": return left <= right;
+  }
+}
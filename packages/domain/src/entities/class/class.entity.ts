@@ -57,6 +57,10 @@ export const ClassEntity = defineEntity({
       entity: "Trainer",
       foreignKey: "trainer_id",
     },
+    {
+      type: "manyToMany",
+      entity: "Member",
+    },
   ],
 
   ui: {
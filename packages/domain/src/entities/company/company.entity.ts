@@ -55,6 +55,9 @@ export const CompanyEntity = defineEntity({
     },
   ],
 
+  // Deleted records go to the trash and are purged after 30 days
+  softDelete: true,
+
   ui: {
     icon: "building",
     listColumns: ["name", "industry", "size"],
@@ -60,6 +60,12 @@ export const ContactEntity = defineEntity({
       required: false,
       description: "Free-form notes about this contact",
     },
+    {
+      name: "ownerId",
+      type: "text",
+      required: false,
+      description: "User ID of the rep who owns this contact. Defaults to whoever created it.",
+    },
   ],
 
   relationships: [
@@ -70,6 +76,17 @@ export const ContactEntity = defineEntity({
     },
   ],
 
+  // Admins and platform automations see everything; members only their own.
+  ownerField: "ownerId",
+  permissions: [
+    { callerTypes: ["system"], effect: "allow" },
+    { roles: ["owner", "admin"], effect: "allow" },
+    { ownership: "own", effect: "allow" },
+  ],
+
+  // Deleted records go to the trash and are purged after 30 days
+  softDelete: true,
+
   ui: {
     icon: "users",
     listColumns: ["name", "email", "role", "status"],
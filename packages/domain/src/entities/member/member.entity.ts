@@ -36,6 +36,7 @@ export const MemberEntity = defineEntity({
       type: "phone",
       required: false,
       description: "Member's phone number.",
+      sensitive: true,
     },
     {
       name: "membershipType",
@@ -61,6 +62,13 @@ export const MemberEntity = defineEntity({
     },
   ],
 
+  relationships: [
+    {
+      type: "manyToMany",
+      entity: "Class",
+    },
+  ],
+
   workflows: [
     {
       name: "memberLifecycle",
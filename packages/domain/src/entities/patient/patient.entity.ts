@@ -31,12 +31,14 @@ export const PatientEntity = defineEntity({
       type: "phone",
       required: true,
       description: "Primary phone number for contact",
+      sensitive: true,
     },
     {
       name: "dateOfBirth",
       type: "date",
       required: false,
       description: "Date of birth for medical records",
+      sensitive: true,
     },
     {
       name: "status",
@@ -51,12 +53,14 @@ export const PatientEntity = defineEntity({
       type: "phone",
       required: false,
       description: "Emergency contact phone number",
+      sensitive: true,
     },
     {
       name: "notes",
       type: "rich_text",
       required: false,
       description: "General notes about the patient (allergies, preferences, etc.)",
+      sensitive: true,
     },
   ],
 
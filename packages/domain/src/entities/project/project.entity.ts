@@ -78,6 +78,9 @@ export const ProjectEntity = defineEntity({
     },
   ],
 
+  // Deleted records go to the trash and are purged after 30 days
+  softDelete: true,
+
   ui: {
     icon: "folder-kanban",
     listColumns: ["name", "status", "priority", "dueDate"],
@@ -54,6 +54,12 @@ export const TaskEntity = defineEntity({
       required: false,
       description: "Estimated effort in hours to complete this task",
     },
+    {
+      name: "ownerId",
+      type: "text",
+      required: false,
+      description: "User ID of the person responsible for this task. Defaults to whoever created it.",
+    },
   ],
 
   relationships: [
@@ -64,6 +70,14 @@ export const TaskEntity = defineEntity({
     },
   ],
 
+  // Admins and platform automations see everything; members only their own.
+  ownerField: "ownerId",
+  permissions: [
+    { callerTypes: ["system"], effect: "allow" },
+    { roles: ["owner", "admin"], effect: "allow" },
+    { ownership: "own", effect: "allow" },
+  ],
+
   workflows: [
     {
       name: "taskLifecycle",
@@ -79,6 +93,9 @@ export const TaskEntity = defineEntity({
     },
   ],
 
+  // Deleted records go to the trash and are purged after 30 days
+  softDelete: true,
+
   ui: {
     icon: "check-square",
     listColumns: ["title", "status", "priority", "dueDate"],
@@ -15,9 +15,11 @@
  */
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
-import type { Caller } from "@metasaas/contracts";
+import type { Caller, EntityDefinition } from "@metasaas/contracts";
+import { parseFilterQuery } from "@metasaas/contracts";
 import { dispatch, type ActionResult } from "../../core/action-bus/bus.js";
-import { getAllActions } from "../../core/action-bus/registry.js";
+import { getAction, getAllActions } from "../../core/action-bus/registry.js";
+import { evaluatePermission } from "../../core/action-bus/middleware/permission.js";
 import {
   getAllEntities,
   getEntityByPlural,
@@ -30,7 +32,16 @@ import {
   removeWebhook,
   listWebhooks,
   getDeliveryLog,
+  rotateWebhookSecret,
+  toPublicWebhook,
+  getWebhook,
+  setWebhookActive,
+  pingWebhook,
+  redeliverWebhook,
 } from "../../core/webhooks/index.js";
+import { replayDeadLetter } from "../../core/event-bus/index.js";
+import { isValidEventPattern } from "../../core/event-bus/pattern.js";
+import { listDeadLetters } from "../../core/event-bus/dead-letters.js";
 import {
   getEnabledFeatures,
   getLicenseInfo,
@@ -45,6 +56,17 @@ import {
 } from "../../core/notifications/index.js";
 import { queryAuditLog } from "../../core/audit/query.js";
 import { getDatabase } from "../../core/database/connection.js";
+import { resolveToManyRelationships } from "../../core/database/relationships.js";
+import { getFilterableFields, getSortableFields } from "../../core/database/filter.js";
+import {
+  listViews,
+  createView,
+  updateView,
+  deleteView,
+  setDefaultView,
+  validateViewConfig,
+  type SavedViewConfig,
+} from "../../core/views/index.js";
 import { installEntity } from "../../ai/entity-installer.js";
 import {
   createSession,
@@ -55,6 +77,15 @@ import {
   createMessage,
   listMessages,
 } from "../../ai/chat-store.js";
+import { listAISchedules } from "../../ai/scheduler.js";
+import {
+  listScheduleRuns,
+  getLatestScheduleRuns,
+  listSchedulePauses,
+  pauseSchedule,
+  resumeSchedule,
+} from "../../ai/schedule-store.js";
+import { listJobs, retryJob, type JobStatus } from "../../core/jobs/index.js";
 
 /**
  * UUID v4 format validation.
@@ -92,13 +123,15 @@ function getCaller(request: FastifyRequest): Caller {
  *
  * If the action succeeded, sends 200 (or 404 if data is null for findById).
  * If it failed, the errorType determines the status:
- *   validation → 400, permission → 403, workflow → 422, not_found → 404, unknown → 500
+ *   validation → 400, permission → 403, workflow → 422, not_found → 404,
+ *   conflict → 409, unknown → 500
  */
 const ERROR_TYPE_TO_STATUS: Record<string, number> = {
   not_found: 404,
   validation: 400,
   permission: 403,
   workflow: 422,
+  conflict: 409,
   unknown: 500,
 };
 
@@ -110,6 +143,33 @@ function sendResult(reply: FastifyReply, result: ActionResult): ActionResult {
   return result;
 }
 
+/** Checks a saved view request body; `config` is validated against the entity */
+function validateViewInput(
+  entity: EntityDefinition,
+  name: unknown,
+  shared: unknown,
+  config: unknown,
+  creating: boolean
+): string[] {
+  const errors: string[] = [];
+  if (creating || name !== undefined) {
+    if (typeof name !== "string" || !name.trim()) errors.push("name is required");
+    else if (name.length > 100) errors.push("name must be at most 100 characters");
+  }
+  if (shared !== undefined && typeof shared !== "boolean") errors.push("shared must be true or false");
+  if (config !== undefined) errors.push(...validateViewConfig(entity, config));
+  return errors;
+}
+
+function sendViewErrors(reply: FastifyReply, errors: string[]) {
+  return reply.status(400).send({
+    success: false,
+    error: `Invalid view: ${errors.join("; ")}`,
+    errorType: "validation",
+    details: { errors },
+  });
+}
+
 /**
  * Registers all REST routes on the Fastify instance.
  */
@@ -186,6 +246,20 @@ export async function registerRESTRoutes(app: FastifyInstance) {
     return reply.status(201).send({ success: true, data: { ...workspace, role: "admin" } });
   });
 
+  /**
+   * GET /api/workspaces/members — Members of the caller's current workspace,
+   * the users a `user` field can be set to. The caller is always included.
+   */
+  app.get("/api/workspaces/members", async (request) => {
+    const caller = getCaller(request);
+    const { createDatabaseClient } = await import("../../core/database/client.js"); // static import would cause circular dep
+    const members = await createDatabaseClient(caller.tenantId).workspaceMembers();
+    if (!members.some((m) => m.userId === caller.userId)) {
+      members.unshift({ userId: caller.userId, role: caller.roles[0] ?? "member" });
+    }
+    return { success: true, data: members };
+  });
+
   // ---------------------------------------------------------------
   // Meta endpoints (frontend reads these to render UI)
   // ---------------------------------------------------------------
@@ -244,13 +318,27 @@ export async function registerRESTRoutes(app: FastifyInstance) {
       }
 
       const caller = getCaller(request);
+
+      // Counts follow the same rules as the list endpoint — callers who
+      // may only see their own records only get their own records counted.
+      const listAction = getAction(`${entity.name.toLowerCase()}.findAll`);
+      const decision = listAction
+        ? evaluatePermission(listAction, caller)
+        : { allowed: false, ownedOnly: false };
+      if (!decision.allowed) {
+        return reply.status(403).send({ success: false, error: "Permission denied" });
+      }
+      const where = decision.ownedOnly && entity.ownerField
+        ? { [entity.ownerField]: caller.userId }
+        : undefined;
+
       const { createDatabaseClient } = await import("../../core/database/client.js"); // static import would cause circular dep
       const db = createDatabaseClient(caller.tenantId);
 
       const workflows: Record<string, Record<string, number>> = {};
       if (entity.workflows?.length) {
         for (const wf of entity.workflows) {
-          workflows[wf.field] = await db.countByField(entity.name, wf.field);
+          workflows[wf.field] = await db.countByField(entity.name, wf.field, where);
         }
       }
 
@@ -258,6 +346,50 @@ export async function registerRESTRoutes(app: FastifyInstance) {
     }
   );
 
+  /**
+   * GET /api/entities/:pluralName/fields/:field/values?search=ur&limit=10 —
+   * Values already used in a text or tags field, most used first. Feeds
+   * tag autocomplete; visibility follows the list endpoint like the stats.
+   */
+  app.get<{ Params: { pluralName: string; field: string }; Querystring: { search?: string; limit?: string } }>(
+    "/api/entities/:pluralName/fields/:field/values",
+    async (request, reply) => {
+      const entity = getEntityByPlural(request.params.pluralName);
+      if (!entity) {
+        return reply.status(404).send({ success: false, error: "Entity not found" });
+      }
+      const field = entity.fields.find((f) => f.name === request.params.field);
+      if (!field || field.sensitive || (field.type !== "tags" && field.type !== "text")) {
+        return reply.status(400).send({
+          success: false,
+          error: `"${request.params.field}" is not a text or tags field of ${entity.name}`,
+          errorType: "validation",
+        });
+      }
+
+      const caller = getCaller(request);
+      const listAction = getAction(`${entity.name.toLowerCase()}.findAll`);
+      const decision = listAction
+        ? evaluatePermission(listAction, caller)
+        : { allowed: false, ownedOnly: false };
+      if (!decision.allowed) {
+        return reply.status(403).send({ success: false, error: "Permission denied" });
+      }
+      const where = decision.ownedOnly && entity.ownerField
+        ? { [entity.ownerField]: caller.userId }
+        : undefined;
+
+      const limit = Math.min(Math.max(Number(request.query.limit) || 20, 1), 100);
+      const { createDatabaseClient } = await import("../../core/database/client.js"); // static import would cause circular dep
+      const values = await createDatabaseClient(caller.tenantId).distinctValues(entity.name, field.name, {
+        search: request.query.search,
+        limit,
+        where,
+      });
+      return { success: true, data: values };
+    }
+  );
+
   // ---------------------------------------------------------------
   // Entity Installer — hot-install entities at runtime
   // ---------------------------------------------------------------
@@ -617,6 +749,74 @@ export async function registerRESTRoutes(app: FastifyInstance) {
     }
   );
 
+  // ---------------------------------------------------------------
+  // AI schedules — on_schedule capabilities, run history, pause/resume
+  // ---------------------------------------------------------------
+
+  /** Finds a scheduled capability by id, or null */
+  const findSchedule = (capabilityId: string) =>
+    listAISchedules(getAllEntities()).find((s) => s.capabilityId === capabilityId) ?? null;
+
+  /** GET /api/ai/schedules — Scheduled capabilities with this tenant's pause state and last run */
+  app.get("/api/ai/schedules", async (request) => {
+    const caller = getCaller(request);
+    const [pauses, latest] = await Promise.all([
+      listSchedulePauses(caller.tenantId),
+      getLatestScheduleRuns(caller.tenantId),
+    ]);
+    const paused = new Map(pauses.map((p) => [p.capabilityId, p]));
+
+    const data = listAISchedules(getAllEntities()).map((schedule) => ({
+      ...schedule,
+      paused: paused.has(schedule.capabilityId),
+      pausedBy: paused.get(schedule.capabilityId)?.pausedBy ?? null,
+      pausedAt: paused.get(schedule.capabilityId)?.pausedAt ?? null,
+      lastRun: latest.get(schedule.capabilityId) ?? null,
+    }));
+    return { success: true, data };
+  });
+
+  /** GET /api/ai/schedules/:capabilityId/runs — This tenant's run history, newest first */
+  app.get<{ Params: { capabilityId: string }; Querystring: { limit?: string; offset?: string } }>(
+    "/api/ai/schedules/:capabilityId/runs",
+    async (request, reply) => {
+      if (!findSchedule(request.params.capabilityId)) {
+        return reply.status(404).send({ success: false, error: "Schedule not found" });
+      }
+      const caller = getCaller(request);
+      const limit = Math.min(parseInt(request.query.limit ?? "20", 10), 100);
+      const offset = parseInt(request.query.offset ?? "0", 10);
+      const runs = await listScheduleRuns(caller.tenantId, request.params.capabilityId, limit, offset);
+      return { success: true, data: runs };
+    }
+  );
+
+  /** POST /api/ai/schedules/:capabilityId/pause — Stop running the schedule for this tenant */
+  app.post<{ Params: { capabilityId: string } }>(
+    "/api/ai/schedules/:capabilityId/pause",
+    async (request, reply) => {
+      if (!findSchedule(request.params.capabilityId)) {
+        return reply.status(404).send({ success: false, error: "Schedule not found" });
+      }
+      const caller = getCaller(request);
+      await pauseSchedule(caller.tenantId, request.params.capabilityId, caller.userId);
+      return { success: true, data: { paused: true } };
+    }
+  );
+
+  /** POST /api/ai/schedules/:capabilityId/resume — Run the schedule again from its next slot */
+  app.post<{ Params: { capabilityId: string } }>(
+    "/api/ai/schedules/:capabilityId/resume",
+    async (request, reply) => {
+      if (!findSchedule(request.params.capabilityId)) {
+        return reply.status(404).send({ success: false, error: "Schedule not found" });
+      }
+      const caller = getCaller(request);
+      await resumeSchedule(caller.tenantId, request.params.capabilityId);
+      return { success: true, data: { paused: false } };
+    }
+  );
+
   // ---------------------------------------------------------------
   // Generic action dispatch
   // ---------------------------------------------------------------
@@ -652,61 +852,67 @@ export async function registerRESTRoutes(app: FastifyInstance) {
     const entityLower = entity.name.toLowerCase();
 
     /**
-     * Whitelist of field names allowed as query parameter filters.
+     * Whitelist of fields allowed as query parameter filters and sort keys.
      * Only fields declared in the EntityDefinition are accepted.
      * This prevents attackers from probing system columns (id, created_at)
      * or guessing internal column names.
      */
-    const allowedFilterFields = new Set(entity.fields.map((f) => f.name));
-    // Also allow filtering by FK fields derived from belongsTo relationships
-    for (const rel of entity.relationships ?? []) {
-      if (rel.type === "belongsTo") {
-        const fk = rel.foreignKey
-          ? rel.foreignKey.replace(/_([a-z])/g, (_: string, l: string) => l.toUpperCase())
-          : rel.entity.charAt(0).toLowerCase() + rel.entity.slice(1) + "Id";
-        allowedFilterFields.add(fk);
-      }
-    }
-    // Allow sorting by system timestamp fields
-    const allowedSortFields = new Set(allowedFilterFields);
-    allowedSortFields.add("createdAt");
-    allowedSortFields.add("updatedAt");
+    const filterableFields = getFilterableFields(entity);
+    const allowedFilterFields = new Set(filterableFields.map((f) => f.name));
+    const allowedSortFields = new Set(getSortableFields(entity));
 
-    /** GET /api/contacts — List all */
+    /**
+     * GET /api/contacts — List all (filters: ?stage[in]=lead,customer&or.a.city=Paris, see contracts/filter.ts)
+     * Paging: ?limit=25&cursor=<nextCursor|prevCursor>, or ?offset=50. Totals are
+     * counted on the first page only unless ?includeTotal=true|false says otherwise.
+     */
     app.get<{ Querystring: Record<string, string> }>(
       basePath,
       async (request, reply) => {
-        const { limit, offset, orderBy, direction, search, ...filters } =
+        const { limit, offset, cursor, includeTotal, orderBy, direction, search, trashed, ...filters } =
           request.query;
 
         const input: Record<string, unknown> = {};
 
-        // Only accept filter fields declared in the entity definition
-        if (Object.keys(filters).length > 0) {
-          const safeFilters: Record<string, string> = {};
-          const rejected: string[] = [];
-
-          for (const [key, value] of Object.entries(filters)) {
-            if (allowedFilterFields.has(key)) {
-              safeFilters[key] = value;
-            } else {
-              rejected.push(key);
-            }
+        // ?trashed=true lists the trash of soft-delete entities
+        if (trashed === "true") {
+          if (!entity.softDelete) {
+            return reply.status(400).send({
+              success: false,
+              error: `${entity.name} does not use soft delete`,
+            });
           }
+          input.trashed = true;
+        }
+
+        // Only accept filter fields declared in the entity definition, with
+        // operators and values that fit their type (see contracts/filter.ts)
+        if (Object.keys(filters).length > 0) {
+          const { where, errors } = parseFilterQuery(filters, filterableFields);
 
           // Reject the request if unknown filter fields were provided
-          if (rejected.length > 0) {
+          const unknown = errors.filter((e) => e.code === "unknown_field");
+          if (unknown.length > 0) {
             return reply.status(400).send({
               success: false,
-              error: `Unknown filter fields: ${rejected.join(", ")}`,
+              error: `Unknown filter fields: ${unknown.map((e) => e.param).join(", ")}`,
               details: {
                 allowedFields: Array.from(allowedFilterFields),
               },
             });
           }
 
-          if (Object.keys(safeFilters).length > 0) {
-            input.where = safeFilters;
+          if (errors.length > 0) {
+            return reply.status(400).send({
+              success: false,
+              error: `Invalid filter: ${errors.map((e) => e.message).join("; ")}`,
+              errorType: "validation",
+              details: { errors },
+            });
+          }
+
+          if (Object.keys(where).length > 0) {
+            input.where = where;
           }
         }
 
@@ -729,6 +935,8 @@ export async function registerRESTRoutes(app: FastifyInstance) {
 
         if (limit) input.limit = parseInt(limit, 10);
         if (offset) input.offset = parseInt(offset, 10);
+        if (cursor) input.cursor = cursor;
+        if (includeTotal !== undefined) input.includeTotal = includeTotal === "true";
 
         // Text search across entity's declared searchFields
         if (search && entity.ui.searchFields.length > 0) {
@@ -815,6 +1023,207 @@ export async function registerRESTRoutes(app: FastifyInstance) {
       }
     );
 
+    /**
+     * Trash routes (soft-delete entities only):
+     *
+     *   POST   /api/contacts/:id/restore — Restore from the trash
+     *   DELETE /api/contacts/:id/purge   — Permanently delete from the trash
+     *
+     * The trash itself is listed with GET /api/contacts?trashed=true.
+     */
+    if (entity.softDelete) {
+      app.post<{ Params: { id: string } }>(
+        `${basePath}/:id/restore`,
+        async (request, reply) => {
+          if (!isValidUUID(request.params.id)) {
+            return reply.status(400).send({
+              success: false,
+              error: "Invalid ID format — must be a valid UUID",
+            });
+          }
+          const result = await dispatch(
+            `${entityLower}.restore`,
+            { id: request.params.id },
+            getCaller(request)
+          );
+          if (result.success && result.data === null) {
+            return reply.status(404).send({
+              success: false,
+              error: `Deleted ${entity.name} not found`,
+              errorType: "not_found",
+            });
+          }
+          return sendResult(reply, result);
+        }
+      );
+
+      app.delete<{ Params: { id: string } }>(
+        `${basePath}/:id/purge`,
+        async (request, reply) => {
+          if (!isValidUUID(request.params.id)) {
+            return reply.status(400).send({
+              success: false,
+              error: "Invalid ID format — must be a valid UUID",
+            });
+          }
+          const result = await dispatch(
+            `${entityLower}.purge`,
+            { id: request.params.id },
+            getCaller(request)
+          );
+          return sendResult(reply, result);
+        }
+      );
+    }
+
+    /**
+     * Version history:
+     *
+     *   GET  /api/contacts/:id/history — Versions with field diffs, newest first
+     *   POST /api/contacts/:id/revert  — Restore a version. Body: { version: 3 }
+     *
+     * A revert runs as a normal update, so it can fail validation or a
+     * workflow transition like any other edit.
+     */
+    app.get<{ Params: { id: string }; Querystring: { limit?: string; offset?: string } }>(
+      `${basePath}/:id/history`,
+      async (request, reply) => {
+        if (!isValidUUID(request.params.id)) {
+          return reply.status(400).send({
+            success: false,
+            error: "Invalid ID format — must be a valid UUID",
+          });
+        }
+        const input: Record<string, unknown> = { id: request.params.id };
+        if (request.query.limit) input.limit = parseInt(request.query.limit, 10);
+        if (request.query.offset) input.offset = parseInt(request.query.offset, 10);
+
+        const result = await dispatch(`${entityLower}.history`, input, getCaller(request));
+        if (result.success && result.data === null) {
+          return reply.status(404).send({
+            success: false,
+            error: `${entity.name} not found`,
+            errorType: "not_found",
+          });
+        }
+        return sendResult(reply, result);
+      }
+    );
+
+    app.post<{ Params: { id: string }; Body: { version?: unknown } }>(
+      `${basePath}/:id/revert`,
+      async (request, reply) => {
+        if (!isValidUUID(request.params.id)) {
+          return reply.status(400).send({
+            success: false,
+            error: "Invalid ID format — must be a valid UUID",
+          });
+        }
+        const result = await dispatch(
+          `${entityLower}.revert`,
+          { id: request.params.id, version: request.body?.version },
+          getCaller(request)
+        );
+        if (result.success && result.data === null) {
+          return reply.status(404).send({
+            success: false,
+            error: `${entity.name} not found`,
+            errorType: "not_found",
+          });
+        }
+        return sendResult(reply, result);
+      }
+    );
+
+    /**
+     * Saved views — named filters/sort/columns/view mode (see core/views)
+     *
+     *   GET    /api/contacts/views               — Own and shared views
+     *   POST   /api/contacts/views               — Body: { name, shared?, config }
+     *   PATCH  /api/contacts/views/:viewId       — Body: { name?, shared?, config? } (creator only)
+     *   DELETE /api/contacts/views/:viewId       — Creator only
+     *   PUT    /api/contacts/views/default       — Body: { viewId } (null clears)
+     */
+    app.get(`${basePath}/views`, async (request) => {
+      const caller = getCaller(request);
+      const views = await listViews(caller.tenantId, caller.userId, entityLower);
+      return { success: true, data: views };
+    });
+
+    app.post<{ Body: { name?: unknown; shared?: unknown; config?: unknown } }>(
+      `${basePath}/views`,
+      async (request, reply) => {
+        const caller = getCaller(request);
+        const { name, shared, config = {} } = request.body ?? {};
+        const errors = validateViewInput(entity, name, shared, config, true);
+        if (errors.length > 0) return sendViewErrors(reply, errors);
+
+        const view = await createView({
+          tenantId: caller.tenantId,
+          userId: caller.userId,
+          entity: entityLower,
+          name: (name as string).trim(),
+          shared: shared as boolean | undefined,
+          config: config as SavedViewConfig,
+        });
+        return reply.status(201).send({ success: true, data: view });
+      }
+    );
+
+    app.put<{ Body: { viewId?: unknown } }>(
+      `${basePath}/views/default`,
+      async (request, reply) => {
+        const caller = getCaller(request);
+        const viewId = request.body?.viewId ?? null;
+        if (viewId !== null && (typeof viewId !== "string" || !isValidUUID(viewId))) {
+          return reply.status(400).send({ success: false, error: "Invalid view ID" });
+        }
+        const ok = await setDefaultView(caller.tenantId, caller.userId, entityLower, viewId);
+        if (!ok) {
+          return reply.status(404).send({ success: false, error: "View not found", errorType: "not_found" });
+        }
+        return { success: true };
+      }
+    );
+
+    app.patch<{ Params: { viewId: string }; Body: { name?: unknown; shared?: unknown; config?: unknown } }>(
+      `${basePath}/views/:viewId`,
+      async (request, reply) => {
+        const caller = getCaller(request);
+        if (!isValidUUID(request.params.viewId)) {
+          return reply.status(400).send({ success: false, error: "Invalid view ID" });
+        }
+        const { name, shared, config } = request.body ?? {};
+        const errors = validateViewInput(entity, name, shared, config, false);
+        if (errors.length > 0) return sendViewErrors(reply, errors);
+
+        const view = await updateView(caller.tenantId, caller.userId, request.params.viewId, {
+          name: typeof name === "string" ? name.trim() : undefined,
+          shared: shared as boolean | undefined,
+          config: config as SavedViewConfig | undefined,
+        });
+        if (!view) {
+          return reply.status(404).send({ success: false, error: "View not found", errorType: "not_found" });
+        }
+        return { success: true, data: view };
+      }
+    );
+
+    app.delete<{ Params: { viewId: string } }>(
+      `${basePath}/views/:viewId`,
+      async (request, reply) => {
+        const caller = getCaller(request);
+        if (!isValidUUID(request.params.viewId)) {
+          return reply.status(400).send({ success: false, error: "Invalid view ID" });
+        }
+        const deleted = await deleteView(caller.tenantId, caller.userId, request.params.viewId);
+        if (!deleted) {
+          return reply.status(404).send({ success: false, error: "View not found", errorType: "not_found" });
+        }
+        return { success: true };
+      }
+    );
+
     /**
      * GET /api/contacts/:id/transitions — Valid workflow transitions
      *
@@ -868,6 +1277,62 @@ export async function registerRESTRoutes(app: FastifyInstance) {
         }
       );
     }
+
+    /**
+     * Related records of hasMany / manyToMany relationships:
+     *
+     *   GET    /api/classes/:id/members             — List linked members
+     *   POST   /api/classes/:id/members/:memberId   — Link a member
+     *   DELETE /api/classes/:id/members/:memberId   — Unlink a member
+     *
+     * Each route dispatches the generated relationship action
+     * (class.listMembers, class.addMember, class.removeMember).
+     */
+    for (const { names } of resolveToManyRelationships(entity)) {
+      const relatedPath = `${basePath}/:id/${names.path}`;
+
+      app.get<{ Params: { id: string }; Querystring: { limit?: string; offset?: string } }>(
+        relatedPath,
+        async (request, reply) => {
+          if (!isValidUUID(request.params.id)) {
+            return reply.status(400).send({
+              success: false,
+              error: "Invalid ID format — must be a valid UUID",
+            });
+          }
+          const input: Record<string, unknown> = { id: request.params.id };
+          if (request.query.limit) input.limit = parseInt(request.query.limit, 10);
+          if (request.query.offset) input.offset = parseInt(request.query.offset, 10);
+
+          const result = await dispatch(
+            `${entityLower}.list${names.plural}`,
+            input,
+            getCaller(request)
+          );
+          return sendResult(reply, result);
+        }
+      );
+
+      for (const [method, verb] of [["post", "add"], ["delete", "remove"]] as const) {
+        app[method]<{ Params: { id: string; relatedId: string } }>(
+          `${relatedPath}/:relatedId`,
+          async (request, reply) => {
+            if (!isValidUUID(request.params.id) || !isValidUUID(request.params.relatedId)) {
+              return reply.status(400).send({
+                success: false,
+                error: "Invalid ID format — must be a valid UUID",
+              });
+            }
+            const result = await dispatch(
+              `${entityLower}.${verb}${names.singular}`,
+              { id: request.params.id, [names.idField]: request.params.relatedId },
+              getCaller(request)
+            );
+            return sendResult(reply, result);
+          }
+        );
+      }
+    }
   }
 
   // ---------------------------------------------------------------
@@ -983,18 +1448,22 @@ export async function registerRESTRoutes(app: FastifyInstance) {
   // Webhook Management Routes
   // ---------------------------------------------------------------
 
-  /** GET /api/webhooks — List registered webhooks for this tenant */
+  /** GET /api/webhooks — List registered webhooks for this tenant (without secrets) */
   app.get("/api/webhooks", async (request, reply) => {
     const caller = getCaller(request);
-    return { success: true, data: await listWebhooks(caller.tenantId) };
+    const webhooks = await listWebhooks(caller.tenantId);
+    return { success: true, data: webhooks.map(toPublicWebhook) };
   });
 
-  /** POST /api/webhooks — Register a new webhook */
-  app.post<{ Body: { eventType: string; url: string; secret?: string } }>(
+  /**
+   * POST /api/webhooks — Register a new webhook.
+   * The response includes the generated signing secret — the only time it is shown.
+   */
+  app.post<{ Body: { eventType: string; url: string } }>(
     "/api/webhooks",
     async (request, reply) => {
       const caller = getCaller(request);
-      const { eventType, url, secret } = request.body ?? {} as Record<string, unknown>;
+      const { eventType, url } = request.body ?? {} as Record<string, unknown>;
 
       if (!eventType || !url) {
         return reply.status(400).send({
@@ -1003,6 +1472,13 @@ export async function registerRESTRoutes(app: FastifyInstance) {
         });
       }
 
+      if (!isValidEventPattern(eventType as string)) {
+        return reply.status(400).send({
+          success: false,
+          error: 'eventType must be an event type or pattern such as "task.created", "task.*" or "**.transitioned"',
+        });
+      }
+
       try {
         new URL(url as string);
       } catch {
@@ -1015,12 +1491,77 @@ export async function registerRESTRoutes(app: FastifyInstance) {
       const webhook = await registerWebhook({
         eventType: eventType as string,
         url: url as string,
-        secret: secret as string | undefined,
         active: true,
         tenantId: caller.tenantId,
+        createdBy: caller.userId,
+      });
+
+      return reply.status(201).send({
+        success: true,
+        data: { ...toPublicWebhook(webhook), secret: webhook.secret },
       });
+    }
+  );
+
+  /**
+   * POST /api/webhooks/:id/rotate-secret — Replace the signing secret.
+   * The old secret keeps signing for `overlapSeconds` (default 24h, max 7 days)
+   * so receivers can switch. Returns the new secret — the only time it is shown.
+   */
+  app.post<{ Params: { id: string }; Body: { overlapSeconds?: number } | undefined }>(
+    "/api/webhooks/:id/rotate-secret",
+    async (request, reply) => {
+      const overlapSeconds = request.body?.overlapSeconds ?? 24 * 60 * 60;
+      if (!Number.isInteger(overlapSeconds) || overlapSeconds < 0 || overlapSeconds > 7 * 24 * 60 * 60) {
+        return reply.status(400).send({
+          success: false,
+          error: "overlapSeconds must be a whole number of seconds between 0 and 604800",
+        });
+      }
 
-      return reply.status(201).send({ success: true, data: webhook });
+      const caller = getCaller(request);
+      const webhook = await rotateWebhookSecret(caller.tenantId, request.params.id, overlapSeconds * 1000);
+      if (!webhook) {
+        return reply.status(404).send({ success: false, error: "Webhook not found" });
+      }
+      return { success: true, data: { ...toPublicWebhook(webhook), secret: webhook.secret } };
+    }
+  );
+
+  /**
+   * PATCH /api/webhooks/:id — Enable or disable a webhook.
+   * Enabling a webhook that was disabled after failed deliveries resets its failure count.
+   */
+  app.patch<{ Params: { id: string }; Body: { active?: boolean } | undefined }>(
+    "/api/webhooks/:id",
+    async (request, reply) => {
+      const active = request.body?.active;
+      if (typeof active !== "boolean") {
+        return reply.status(400).send({ success: false, error: "active must be a boolean" });
+      }
+
+      const caller = getCaller(request);
+      const webhook = await setWebhookActive(caller.tenantId, request.params.id, active);
+      if (!webhook) {
+        return reply.status(404).send({ success: false, error: "Webhook not found" });
+      }
+      return { success: true, data: toPublicWebhook(webhook) };
+    }
+  );
+
+  /**
+   * POST /api/webhooks/:id/test — Send a `webhook.ping` event right away.
+   * Returns the attempt (status code and response body) without retrying.
+   */
+  app.post<{ Params: { id: string } }>(
+    "/api/webhooks/:id/test",
+    async (request, reply) => {
+      const caller = getCaller(request);
+      const delivery = await pingWebhook(caller.tenantId, request.params.id);
+      if (!delivery) {
+        return reply.status(404).send({ success: false, error: "Webhook not found" });
+      }
+      return { success: true, data: delivery };
     }
   );
 
@@ -1036,14 +1577,124 @@ export async function registerRESTRoutes(app: FastifyInstance) {
     }
   );
 
-  /** GET /api/webhooks/:id/deliveries — Delivery log for a webhook */
+  /** GET /api/webhooks/:id/deliveries — Delivery log for a webhook, with request and response bodies */
   app.get<{ Params: { id: string } }>(
     "/api/webhooks/:id/deliveries",
-    async (request) => {
+    async (request, reply) => {
+      const caller = getCaller(request);
+      if (!(await getWebhook(caller.tenantId, request.params.id))) {
+        return reply.status(404).send({ success: false, error: "Webhook not found" });
+      }
       return { success: true, data: await getDeliveryLog(request.params.id) };
     }
   );
 
+  /**
+   * POST /api/webhooks/:id/deliveries/:deliveryId/redeliver — Queue a logged
+   * delivery again with the same body. Returns the new delivery id.
+   */
+  app.post<{ Params: { id: string; deliveryId: string } }>(
+    "/api/webhooks/:id/deliveries/:deliveryId/redeliver",
+    async (request, reply) => {
+      const caller = getCaller(request);
+      const webhook = await getWebhook(caller.tenantId, request.params.id);
+      if (!webhook) {
+        return reply.status(404).send({ success: false, error: "Webhook not found" });
+      }
+      if (!webhook.active) {
+        return reply.status(409).send({ success: false, error: "Webhook is disabled — enable it before redelivering" });
+      }
+
+      const deliveryId = await redeliverWebhook(caller.tenantId, webhook.id, request.params.deliveryId);
+      if (!deliveryId) {
+        return reply.status(404).send({ success: false, error: "Delivery not found" });
+      }
+      return reply.status(202).send({ success: true, data: { deliveryId } });
+    }
+  );
+
+  // ---------------------------------------------------------------
+  // Background jobs — this tenant's queue and dead letters
+  // ---------------------------------------------------------------
+
+  /** GET /api/jobs — This tenant's jobs, newest first (?status=dead for the dead-letter queue) */
+  app.get<{ Querystring: { status?: string; name?: string; limit?: string; offset?: string } }>(
+    "/api/jobs",
+    async (request, reply) => {
+      const { status, name } = request.query;
+      if (status && !["pending", "running", "completed", "dead"].includes(status)) {
+        return reply.status(400).send({
+          success: false,
+          error: "status must be one of pending, running, completed, dead",
+        });
+      }
+      const caller = getCaller(request);
+      const jobs = await listJobs({
+        tenantId: caller.tenantId,
+        status: status as JobStatus | undefined,
+        name,
+        limit: Math.min(Math.max(Number(request.query.limit) || 50, 1), 100),
+        offset: Math.max(Number(request.query.offset) || 0, 0),
+      });
+      return { success: true, data: jobs };
+    }
+  );
+
+  /** POST /api/jobs/:id/retry — Put a dead-lettered job back in the queue */
+  app.post<{ Params: { id: string } }>(
+    "/api/jobs/:id/retry",
+    async (request, reply) => {
+      if (!isValidUUID(request.params.id)) {
+        return reply.status(400).send({ success: false, error: "Invalid job ID" });
+      }
+      const caller = getCaller(request);
+      const retried = await retryJob(caller.tenantId, request.params.id);
+      if (!retried) {
+        return reply.status(404).send({ success: false, error: "Dead job not found" });
+      }
+      return { success: true, data: { status: "pending" } };
+    }
+  );
+
+  // ---------------------------------------------------------------
+  // Event dead letters — failed subscriber invocations
+  // ---------------------------------------------------------------
+
+  /** GET /api/events/dead-letters — This tenant's failed subscriber invocations, newest first */
+  app.get<{ Querystring: { subscriber?: string; includeReplayed?: string; limit?: string; offset?: string } }>(
+    "/api/events/dead-letters",
+    async (request) => {
+      const caller = getCaller(request);
+      const deadLetters = await listDeadLetters({
+        tenantId: caller.tenantId,
+        subscriber: request.query.subscriber,
+        includeReplayed: request.query.includeReplayed === "true",
+        limit: Math.min(Math.max(Number(request.query.limit) || 50, 1), 100),
+        offset: Math.max(Number(request.query.offset) || 0, 0),
+      });
+      return { success: true, data: deadLetters };
+    }
+  );
+
+  /** POST /api/events/dead-letters/:id/replay — Re-run the failed subscriber with the original event */
+  app.post<{ Params: { id: string } }>(
+    "/api/events/dead-letters/:id/replay",
+    async (request, reply) => {
+      if (!isValidUUID(request.params.id)) {
+        return reply.status(400).send({ success: false, error: "Invalid dead letter ID" });
+      }
+      const caller = getCaller(request);
+      const result = await replayDeadLetter(caller.tenantId, request.params.id);
+      if (!result) {
+        return reply.status(404).send({ success: false, error: "Dead letter not found" });
+      }
+      if (!result.replayed) {
+        return reply.status(422).send({ success: false, error: result.error });
+      }
+      return { success: true, data: result };
+    }
+  );
+
   // ---------------------------------------------------------------
   // Notifications — in-app notification center
   // ---------------------------------------------------------------
@@ -147,6 +147,7 @@ function buildSystemPrompt(
     "- For update actions, provide { id: <uuid>, data: { ...fields } }",
     "- For delete actions, provide { id: <uuid> }",
     "- For list/findAll actions, use { where: { field: value } } for filters, or {} for all records",
+    '- Filters can use operators: { where: { amount: { gte: 1000 }, stage: { in: ["open", "won"] }, closedAt: { null: true } } }; use "$or": [{...}, {...}] for alternatives',
     "- If the user mentions an entity by name, use the lowercase entity prefix",
     "",
     "SPECIAL ACTION — Domain Generation:",
@@ -55,12 +55,14 @@ describe("Entity Installer", () => {
 
       expect(result.success).toBe(true);
       expect(result.entityName).toBe("Widget");
-      expect(result.actions).toHaveLength(5);
+      expect(result.actions).toHaveLength(7);
       expect(result.actions).toContain("widget.create");
       expect(result.actions).toContain("widget.findAll");
       expect(result.actions).toContain("widget.findById");
       expect(result.actions).toContain("widget.update");
       expect(result.actions).toContain("widget.delete");
+      expect(result.actions).toContain("widget.history");
+      expect(result.actions).toContain("widget.revert");
       expect(result.warnings).toHaveLength(0);
     });
 
@@ -88,7 +90,7 @@ describe("Entity Installer", () => {
       const entity = createTestEntity();
       await installEntity(entity);
 
-      expect(runMigrations).toHaveBeenCalledWith([entity]);
+      expect(runMigrations).toHaveBeenCalledWith([entity], { warnOnDrift: true });
     });
 
     it("returns warnings when entity already exists", async () => {
@@ -110,7 +112,6 @@ describe("Entity Installer", () => {
         name: "Company",
         pluralName: "Companies",
         description: "A company",
-        fields: [{ name: "name", type: "text", required: true, description: "Name" }],
       });
       await installEntity(company);
 
@@ -119,7 +120,6 @@ describe("Entity Installer", () => {
         name: "Contact",
         pluralName: "Contacts",
         description: "A contact",
-        fields: [{ name: "name", type: "text", required: true, description: "Name" }],
         relationships: [
           { type: "belongsTo", entity: "Company" },
         ],
@@ -137,7 +137,14 @@ describe("Entity Installer", () => {
         description: "A support ticket",
         fields: [
           { name: "title", type: "text", required: true, description: "Title" },
-          { name: "status", type: "text", required: true, description: "Status" },
+          { name: "color", type: "text", required: false, description: "Color" },
+          {
+            name: "status",
+            type: "enum",
+            required: true,
+            description: "Status",
+            options: ["open", "in_progress", "resolved", "closed"],
+          },
         ],
         workflows: [
           {
@@ -165,6 +172,22 @@ describe("Entity Installer", () => {
       // The important thing is it doesn't throw
       expect(typeof result.success).toBe("boolean");
     });
+
+    it("rejects an invalid definition with structured issues, registering nothing", async () => {
+      const entity = createTestEntity({
+        relationships: [{ type: "belongsTo", entity: "Supplier" }],
+        ui: { icon: "box", listColumns: ["title", "colour"], searchFields: ["title"], defaultSort: { field: "title", direction: "asc" } },
+      });
+
+      const result = await installEntity(entity);
+
+      expect(result.success).toBe(false);
+      expect(result.issues).toEqual([
+        expect.objectContaining({ path: "ui.listColumns[1]", code: "unknown_field" }),
+        expect.objectContaining({ path: "relationships[0].entity", code: "unknown_entity" }),
+      ]);
+      expect(getEntity("Widget")).toBeUndefined();
+    });
   });
 
   describe("installEntities()", () => {
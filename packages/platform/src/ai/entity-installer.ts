@@ -15,11 +15,12 @@
  * After installation:
  *   - POST /api/actions/{entity}.create works immediately
  *   - GET /api/meta/entities returns the new entity
- *   - All 5 CRUD actions are registered in the Action Bus
+ *   - All generated actions (CRUD, history, relationships) are registered in the Action Bus
  */
 
 import type { EntityDefinition } from "@metasaas/contracts";
-import { registerEntity, getEntity } from "../core/entity-manager/entity-registry.js";
+import { registerEntity, getEntity, getAllEntities } from "../core/entity-manager/entity-registry.js";
+import { validateEntityDefinition, type EntityIssue } from "../core/entity-manager/entity-validator.js";
 import { buildTableSchema } from "../core/database/schema-builder.js";
 import { generateCRUDActions } from "../core/entity-manager/crud-generator.js";
 import { registerActions, getAction } from "../core/action-bus/registry.js";
@@ -39,6 +40,8 @@ export interface InstallResult {
   actions: string[];
   /** Error message if failed */
   error?: string;
+  /** Problems found in the definition, when that is why it failed */
+  issues?: EntityIssue[];
   /** Warnings (e.g., entity already exists) */
   warnings: string[];
 }
@@ -51,6 +54,7 @@ export interface InstallResult {
  * Hot-install an entity at runtime.
  *
  * This runs the same sequence as bootstrap.ts but for a single entity:
+ *   0. Validate the definition (relationship targets must be installed)
  *   1. Register entity definition
  *   2. Build Drizzle table schema
  *   3. Generate CRUD actions
@@ -70,6 +74,15 @@ export async function installEntity(entity: EntityDefinition): Promise<InstallRe
   const warnings: string[] = [];
   const entityLower = entity.name.toLowerCase();
 
+  // 0. Validate the definition against everything already installed
+  const known = [...getAllEntities().filter((e) => e.name !== entity.name), entity];
+  const issues = validateEntityDefinition(entity, { entities: known });
+  if (issues.length > 0) {
+    const error = `Invalid entity definition: ${issues.map((i) => `${i.path}: ${i.message}`).join("; ")}`;
+    console.error(`[entity-installer] Failed to install "${entity.name}": ${error}`);
+    return { success: false, entityName: entity.name, actions: [], error, issues, warnings };
+  }
+
   try {
     // 1. Register entity definition
     const existing = getEntity(entity.name);
@@ -97,7 +110,7 @@ export async function installEntity(entity: EntityDefinition): Promise<InstallRe
     }
 
     // 5. Run database migration
-    await runMigrations([entity]);
+    await runMigrations([entity], { warnOnDrift: true });
 
     // 6. Register AI capabilities (if any)
     if ((entity as any).aiCapabilities?.length) {
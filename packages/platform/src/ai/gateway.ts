@@ -10,8 +10,10 @@
  *   4. Falls back to the declared fallback on any failure
  *
  * The gateway also wires auto-triggers (on_create, on_update) as
- * EventBus subscribers that dispatch the AI action when the relevant
- * domain event fires.
+ * EventBus subscribers that enqueue an "ai.trigger" job when the relevant
+ * domain event fires; the job runs the AI action in the background and is
+ * retried if it fails. on_schedule capabilities are validated here and
+ * run by the AI scheduler (scheduler.ts).
  *
  * Design principles:
  *   - No domain knowledge — works with any entity
@@ -25,6 +27,8 @@ import type {
   EntityDefinition,
   ActionContext,
   EventSubscriber,
+  Caller,
+  Job,
 } from "@metasaas/contracts";
 import type { AIProvider } from "./provider.js";
 import { NullAIProvider } from "./provider.js";
@@ -32,8 +36,11 @@ import { OpenAIProvider } from "./openai-provider.js";
 import { GeminiProvider } from "./gemini-provider.js";
 import { AnthropicProvider } from "./anthropic-provider.js";
 import { registerAction } from "../core/action-bus/registry.js";
-import { subscribe } from "../core/event-bus/index.js";
+import { subscribe, runWithEventTrace } from "../core/event-bus/index.js";
 import { dispatch } from "../core/action-bus/bus.js";
+import { getSensitiveFields } from "../core/encryption/index.js";
+import { parseCron } from "../core/cron/index.js";
+import { enqueueJob, registerJobHandler } from "../core/jobs/index.js";
 import { z } from "zod";
 
 /** The singleton AI provider instance */
@@ -204,12 +211,36 @@ function extractContext(
   return context;
 }
 
+/**
+ * Removes sensitive fields from a capability's context field list.
+ * Sensitive data never leaves the platform in a prompt — a context path
+ * is dropped when its first segment names a `sensitive` field.
+ */
+function safeContextFields(
+  capability: AICapabilityDefinition,
+  entity: EntityDefinition
+): string[] {
+  const sensitive = new Set(getSensitiveFields(entity));
+  const allowed = capability.input.contextFields.filter(
+    (path) => !sensitive.has(path.split(".")[0])
+  );
+
+  const excluded = capability.input.contextFields.filter((f) => !allowed.includes(f));
+  if (excluded.length > 0) {
+    console.warn(
+      `[ai] ${capability.id}: excluding sensitive context fields: ${excluded.join(", ")}`
+    );
+  }
+
+  return allowed;
+}
+
 /**
  * Registers a single AI capability as an Action in the Action Bus.
  *
  * The generated action:
  *   - Accepts the entity record as input
- *   - Extracts context fields
+ *   - Extracts context fields (never sensitive ones)
  *   - Calls the AI provider
  *   - Parses output with the capability's Zod schema
  *   - Returns fallback on any error
@@ -221,6 +252,8 @@ export function registerAICapability(
   capability: AICapabilityDefinition,
   entity: EntityDefinition
 ): void {
+  const contextFields = safeContextFields(capability, entity);
+
   const action: ActionDefinition = {
     id: capability.id,
     name: `AI: ${capability.intent.slice(0, 60)}`,
@@ -244,7 +277,7 @@ export function registerAICapability(
 
       try {
         // Extract context fields from the record
-        const contextData = extractContext(record, capability.input.contextFields);
+        const contextData = extractContext(record, contextFields);
 
         // Build the prompt
         const messages = buildPrompt(capability, entity, contextData);
@@ -288,17 +321,53 @@ export function registerAICapability(
   console.log(`[ai] Registered AI capability: ${capability.id}`);
 }
 
+/**
+ * Runs an AI capability on a record and merges its output back into the
+ * record. Output equal to the declared fallback is not written — it means
+ * the AI was unavailable, and would overwrite real values with placeholders.
+ *
+ * Used by the event triggers and the scheduler.
+ *
+ * @returns Whether the record was updated
+ * @throws When the AI action or the update is rejected by the Action Bus
+ */
+export async function applyAICapability(
+  capability: AICapabilityDefinition,
+  entity: EntityDefinition,
+  record: Record<string, unknown>,
+  caller: Caller
+): Promise<boolean> {
+  const aiResult = await dispatch(capability.id, record, caller);
+  if (!aiResult.success) throw new Error(aiResult.error);
+
+  const aiData = aiResult.data as Record<string, unknown> | undefined;
+  if (!aiData || Object.keys(aiData).length === 0) return false;
+  if (JSON.stringify(aiData) === JSON.stringify(capability.output.fallback)) return false;
+
+  const updated = await dispatch(
+    `${entity.name.toLowerCase()}.update`,
+    { id: record.id, data: aiData },
+    caller
+  );
+  if (!updated.success) throw new Error(updated.error);
+  return true;
+}
+
 /**
  * Wires auto-trigger subscribers for AI capabilities.
  *
  * For on_create: subscribes to "{entity}.created" events
  * For on_update: subscribes to "{entity}.updated" events
+ * For on_schedule: checks the capability's cron schedule — the AI
+ * scheduler (startAIScheduler) runs it
  *
- * The subscriber dispatches the AI action with the event payload as input,
- * then updates the entity record with the AI output fields.
+ * The subscriber enqueues an "ai.trigger" job for the record; the job
+ * dispatches the AI action with the current record as input, then updates
+ * the record with the AI output fields.
  *
  * @param capability - The AI capability with a trigger
  * @param entity - The entity this capability belongs to
+ * @throws When an on_schedule capability has no valid schedule
  */
 export function wireAITrigger(
   capability: AICapabilityDefinition,
@@ -306,6 +375,15 @@ export function wireAITrigger(
 ): void {
   const entityLower = entity.name.toLowerCase();
 
+  if (capability.trigger === "on_schedule") {
+    if (!capability.schedule) {
+      throw new Error(`AI capability "${capability.id}" uses on_schedule but declares no schedule`);
+    }
+    parseCron(capability.schedule.cron);
+    console.log(`[ai] Scheduled: ${capability.id} → ${capability.schedule.cron}`);
+    return;
+  }
+
   /** Map trigger types to event names */
   const triggerEventMap: Record<string, string> = {
     on_create: `${entityLower}.created`,
@@ -313,42 +391,29 @@ export function wireAITrigger(
   };
 
   const eventType = triggerEventMap[capability.trigger];
-  if (!eventType) return; // on_demand and on_schedule don't auto-wire
+  if (!eventType) return; // on_demand doesn't auto-wire
+
+  triggeredCapabilities.set(capability.id, { capability, entity });
+  registerJobHandler<AITriggerJobPayload>(AI_TRIGGER_JOB, runAITriggerJob);
 
   const subscriber: EventSubscriber = {
     name: `ai-trigger:${capability.id}`,
     eventType,
     async handler(event) {
-      const payload = event.payload as Record<string, unknown>;
-      const recordId = payload.id as string;
-      const tenantId = payload.tenantId as string;
+      const recordId = event.payload.id as string;
+      const tenantId = event.tenantId;
 
       if (!recordId || !tenantId) return;
 
-      // Dispatch the AI action as a system caller
-      const aiResult = await dispatch(capability.id, payload, {
-        userId: "ai-gateway",
-        tenantId,
-        roles: ["system"],
-        type: "system",
+      // Only the id is queued — the job reads the record when it runs, so
+      // record data (including sensitive fields) never sits in the queue.
+      // The trace travels with it to link the AI update to this event.
+      await enqueueJob(tenantId, AI_TRIGGER_JOB, {
+        capabilityId: capability.id,
+        recordId,
+        correlationId: event.correlationId,
+        causationId: event.id,
       });
-
-      if (!aiResult.success || !aiResult.data) return;
-
-      // Merge AI output back into the entity record
-      const aiData = aiResult.data as Record<string, unknown>;
-      if (Object.keys(aiData).length === 0) return;
-
-      await dispatch(
-        `${entityLower}.update`,
-        { id: recordId, data: aiData },
-        {
-          userId: "ai-gateway",
-          tenantId,
-          roles: ["system"],
-          type: "system",
-        }
-      );
     },
   };
 
@@ -356,6 +421,56 @@ export function wireAITrigger(
   console.log(`[ai] Wired trigger: ${capability.id} → ${eventType}`);
 }
 
+/** Job that runs an on_create / on_update capability for one record */
+const AI_TRIGGER_JOB = "ai.trigger";
+
+interface AITriggerJobPayload {
+  capabilityId: string;
+  recordId: string;
+  /** Trace of the triggering event */
+  correlationId?: string;
+  causationId?: string;
+}
+
+/** Capabilities wired to event triggers, by id — looked up by the job handler */
+const triggeredCapabilities = new Map<
+  string,
+  { capability: AICapabilityDefinition; entity: EntityDefinition }
+>();
+
+/** Runs an AI trigger job in the trace of the event that queued it */
+async function runAITriggerJob(job: Job<AITriggerJobPayload>): Promise<void> {
+  const { correlationId, causationId } = job.payload;
+  const run = () => applyTriggeredCapability(job);
+  return correlationId ? runWithEventTrace({ correlationId, causationId }, run) : run();
+}
+
+/**
+ * Loads the job's record as a system caller and merges the capability's
+ * output into it. Records deleted since the event are skipped; AI or
+ * update failures throw so the job is retried.
+ */
+async function applyTriggeredCapability(job: Job<AITriggerJobPayload>): Promise<void> {
+  const wired = triggeredCapabilities.get(job.payload.capabilityId);
+  if (!wired || !job.tenantId) return;
+
+  const caller: Caller = {
+    userId: "ai-gateway",
+    tenantId: job.tenantId,
+    roles: ["system"],
+    type: "system",
+  };
+  const found = await dispatch<Record<string, unknown> | null>(
+    `${wired.entity.name.toLowerCase()}.findById`,
+    { id: job.payload.recordId },
+    caller
+  );
+  if (!found.success) throw new Error(found.error);
+  if (!found.data) return;
+
+  await applyAICapability(wired.capability, wired.entity, found.data, caller);
+}
+
 /**
  * Registers all AI capabilities for an entity.
  * Called during bootstrap for each entity that declares capabilities.
@@ -3,7 +3,7 @@
  *
  * Exports the AIProvider interface, all concrete provider implementations,
  * the gateway functions that bridge AI capabilities to the Action Bus,
- * and the command interpreter for natural language → action dispatch.
+ * the scheduler for on_schedule capabilities, and the command interpreter for natural language → action dispatch.
  */
 export type { AIProvider, AIMessage, AIRequestOptions } from "./provider.js";
 export { NullAIProvider } from "./provider.js";
@@ -15,9 +15,27 @@ export {
   getAIProvider,
   setAIProvider,
   registerAICapability,
+  applyAICapability,
   wireAITrigger,
   registerEntityAICapabilities,
 } from "./gateway.js";
+export {
+  startAIScheduler,
+  stopAIScheduler,
+  runScheduledCapability,
+  runScheduleForTenant,
+  listAISchedules,
+  type AIScheduleInfo,
+} from "./scheduler.js";
+export {
+  listScheduleRuns,
+  pauseSchedule,
+  resumeSchedule,
+  listSchedulePauses,
+  type ScheduleRun,
+  type ScheduleRunStatus,
+  type SchedulePause,
+} from "./schedule-store.js";
 export { interpretCommand, type CommandResult, type ChatMessage } from "./command.js";
 export {
   generateEntities,
@@ -0,0 +1,212 @@
+/**
+ * Schedule Store — Database persistence for scheduled AI capability runs.
+ *
+ * Records one run per tenant each time an on_schedule capability fires,
+ * and which tenants have paused which schedules. Like the chat store,
+ * this is platform infrastructure and uses raw SQL.
+ *
+ * All queries are scoped by tenant_id for multi-tenancy isolation.
+ *
+ * Table schema:
+ *   ai_schedule_runs:   id, tenant_id, capability_id, status, processed, updated,
+ *                       failed, error, started_at, finished_at
+ *   ai_schedule_pauses: tenant_id, capability_id, paused_by, paused_at
+ */
+
+import { getDatabase } from "../core/database/connection.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * running   — in progress
+ * succeeded — every record was processed
+ * partial   — finished, but some records failed
+ * failed    — the run stopped early (e.g. records couldn't be read)
+ */
+export type ScheduleRunStatus = "running" | "succeeded" | "partial" | "failed";
+
+/** One run of a scheduled capability for one tenant */
+export interface ScheduleRun {
+  id: string;
+  capabilityId: string;
+  status: ScheduleRunStatus;
+  /** Records the capability ran on */
+  processed: number;
+  /** Records updated with AI output */
+  updated: number;
+  /** Records whose AI call or update failed */
+  failed: number;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export interface ScheduleRunListResult {
+  data: ScheduleRun[];
+  total: number;
+}
+
+/** A schedule paused for a tenant */
+export interface SchedulePause {
+  capabilityId: string;
+  pausedBy: string;
+  pausedAt: string;
+}
+
+export interface FinishRunInput {
+  status: Exclude<ScheduleRunStatus, "running">;
+  processed: number;
+  updated: number;
+  failed: number;
+  error?: string;
+}
+
+const RUN_COLUMNS = `id, capability_id, status, processed, updated, failed, error, started_at, finished_at`;
+
+// ---------------------------------------------------------------------------
+// Runs
+// ---------------------------------------------------------------------------
+
+/** Records the start of a run */
+export async function startScheduleRun(
+  tenantId: string,
+  capabilityId: string
+): Promise<ScheduleRun> {
+  const { sql } = getDatabase();
+  const rows = await sql.unsafe(
+    `INSERT INTO ai_schedule_runs (tenant_id, capability_id, status)
+     VALUES ($1, $2, 'running')
+     RETURNING ${RUN_COLUMNS}`,
+    [tenantId, capabilityId]
+  );
+  return mapRun(rows[0]);
+}
+
+/** Records the outcome of a run */
+export async function finishScheduleRun(runId: string, result: FinishRunInput): Promise<void> {
+  const { sql } = getDatabase();
+  await sql.unsafe(
+    `UPDATE ai_schedule_runs
+     SET status = $2, processed = $3, updated = $4, failed = $5, error = $6, finished_at = NOW()
+     WHERE id = $1`,
+    [runId, result.status, result.processed, result.updated, result.failed, result.error ?? null]
+  );
+}
+
+/** Lists a tenant's runs of a capability, newest first */
+export async function listScheduleRuns(
+  tenantId: string,
+  capabilityId: string,
+  limit = 20,
+  offset = 0
+): Promise<ScheduleRunListResult> {
+  const { sql } = getDatabase();
+  const countRows = await sql.unsafe(
+    `SELECT COUNT(*)::int AS count FROM ai_schedule_runs WHERE tenant_id = $1 AND capability_id = $2`,
+    [tenantId, capabilityId]
+  );
+  const rows = await sql.unsafe(
+    `SELECT ${RUN_COLUMNS} FROM ai_schedule_runs
+     WHERE tenant_id = $1 AND capability_id = $2
+     ORDER BY started_at DESC
+     LIMIT $3 OFFSET $4`,
+    [tenantId, capabilityId, limit, offset]
+  );
+  return { data: rows.map(mapRun), total: countRows[0].count };
+}
+
+/** The most recent run of each capability for a tenant, keyed by capability id */
+export async function getLatestScheduleRuns(tenantId: string): Promise<Map<string, ScheduleRun>> {
+  const { sql } = getDatabase();
+  const rows = await sql.unsafe(
+    `SELECT DISTINCT ON (capability_id) ${RUN_COLUMNS}
+     FROM ai_schedule_runs
+     WHERE tenant_id = $1
+     ORDER BY capability_id, started_at DESC`,
+    [tenantId]
+  );
+  return new Map(rows.map((row) => [row.capability_id as string, mapRun(row)]));
+}
+
+// ---------------------------------------------------------------------------
+// Pause / resume
+// ---------------------------------------------------------------------------
+
+/** Pauses a schedule for a tenant. Pausing twice keeps the first pause. */
+export async function pauseSchedule(
+  tenantId: string,
+  capabilityId: string,
+  userId: string
+): Promise<void> {
+  const { sql } = getDatabase();
+  await sql.unsafe(
+    `INSERT INTO ai_schedule_pauses (tenant_id, capability_id, paused_by)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (tenant_id, capability_id) DO NOTHING`,
+    [tenantId, capabilityId, userId]
+  );
+}
+
+/** Resumes a paused schedule. Returns false when it wasn't paused. */
+export async function resumeSchedule(tenantId: string, capabilityId: string): Promise<boolean> {
+  const { sql } = getDatabase();
+  const result = await sql.unsafe(
+    `DELETE FROM ai_schedule_pauses WHERE tenant_id = $1 AND capability_id = $2`,
+    [tenantId, capabilityId]
+  );
+  return result.count > 0;
+}
+
+/** The schedules a tenant has paused */
+export async function listSchedulePauses(tenantId: string): Promise<SchedulePause[]> {
+  const { sql } = getDatabase();
+  const rows = await sql.unsafe(
+    `SELECT capability_id, paused_by, paused_at FROM ai_schedule_pauses WHERE tenant_id = $1`,
+    [tenantId]
+  );
+  return rows.map((row) => ({
+    capabilityId: row.capability_id as string,
+    pausedBy: row.paused_by as string,
+    pausedAt: new Date(row.paused_at as string | Date).toISOString(),
+  }));
+}
+
+/**
+ * Tenants a scheduled run covers: every tenant with rows in the entity's
+ * table that hasn't paused the capability.
+ */
+export async function listScheduleTenants(
+  tableName: string,
+  capabilityId: string
+): Promise<string[]> {
+  const { sql } = getDatabase();
+  const rows = await sql.unsafe(
+    `SELECT DISTINCT t.tenant_id FROM ${tableName} t
+     WHERE NOT EXISTS (
+       SELECT 1 FROM ai_schedule_pauses p
+       WHERE p.tenant_id = t.tenant_id AND p.capability_id = $1
+     )`,
+    [capabilityId]
+  );
+  return rows.map((row) => row.tenant_id as string);
+}
+
+// ---------------------------------------------------------------------------
+// Row mapping
+// ---------------------------------------------------------------------------
+
+function mapRun(row: Record<string, unknown>): ScheduleRun {
+  return {
+    id: row.id as string,
+    capabilityId: row.capability_id as string,
+    status: row.status as ScheduleRunStatus,
+    processed: Number(row.processed ?? 0),
+    updated: Number(row.updated ?? 0),
+    failed: Number(row.failed ?? 0),
+    error: (row.error as string | null) ?? null,
+    startedAt: new Date(row.started_at as string | Date).toISOString(),
+    finishedAt: row.finished_at ? new Date(row.finished_at as string | Date).toISOString() : null,
+  };
+}
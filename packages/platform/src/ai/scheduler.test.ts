@@ -0,0 +1,294 @@
+/**
+ * AI Scheduler — Test Suite
+ *
+ * Validates that on_schedule capabilities:
+ *   1. Are rejected at wiring time without a valid cron schedule
+ *   2. Run over a tenant's matching records in batches, merging AI output
+ *   3. Respect concurrency and maxRecords limits
+ *   4. Record succeeded / partial / failed runs
+ *   5. Run for every unpaused tenant when their cron slot is due
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { z } from "zod";
+import { defineEntity, defineAICapability } from "@metasaas/contracts";
+import type { AICapabilityDefinition, AISchedule } from "@metasaas/contracts";
+
+// Mock run history — the scheduler's only database access besides actions
+const store = vi.hoisted(() => ({
+  startScheduleRun: vi.fn(),
+  finishScheduleRun: vi.fn(),
+  listScheduleTenants: vi.fn(),
+}));
+vi.mock("./schedule-store.js", () => store);
+
+import {
+  runScheduleForTenant,
+  runScheduledCapability,
+  startAIScheduler,
+  stopAIScheduler,
+  runDueSchedules,
+  listAISchedules,
+} from "./scheduler.js";
+import { registerAICapability, wireAITrigger, setAIProvider } from "./gateway.js";
+import { NullAIProvider, type AIProvider } from "./provider.js";
+import { registerAction, clearActionRegistry } from "../core/action-bus/registry.js";
+
+const TENANT = "00000000-0000-4000-8000-000000000001";
+
+function summarize(schedule: Partial<AISchedule> = {}): AICapabilityDefinition {
+  return defineAICapability({
+    id: "deal.summarize",
+    type: "generation",
+    intent: "Summarize the deal",
+    input: { contextFields: ["title"] },
+    output: { schema: z.object({ summary: z.string() }), fallback: { summary: "" } },
+    trigger: "on_schedule",
+    schedule: { cron: "0 6 * * *", ...schedule },
+  });
+}
+
+function dealEntity(capability: AICapabilityDefinition) {
+  return defineEntity({
+    name: "Deal",
+    pluralName: "Deals",
+    description: "A sales deal",
+    fields: [
+      { name: "title", type: "text", required: true, description: "Title" },
+      { name: "summary", type: "text", required: false, description: "AI summary" },
+    ],
+    ui: { icon: "dollar", listColumns: ["title"], searchFields: [], defaultSort: { field: "title", direction: "asc" } },
+    aiCapabilities: [capability],
+  });
+}
+
+const records = Array.from({ length: 5 }, (_, i) => ({ id: `deal-${i}`, title: `Deal ${i}` }));
+
+/** Serves `records` through a fake findAll that pages with index cursors */
+const findAll = vi.fn(async (input: unknown) => {
+  const { limit, cursor } = input as { limit: number; cursor?: string };
+  const start = cursor ? Number(cursor) : 0;
+  const end = start + limit;
+  return {
+    data: records.slice(start, end),
+    nextCursor: end < records.length ? String(end) : null,
+    prevCursor: null,
+  };
+});
+const update = vi.fn(async (input: unknown) => input);
+
+function registerDealActions(capability: AICapabilityDefinition) {
+  const action = {
+    name: "test",
+    description: "test",
+    inputSchema: z.record(z.unknown()),
+    outputSchema: z.unknown(),
+    permissions: [{ effect: "allow" as const }],
+    idempotent: true,
+  };
+  registerAction({ ...action, id: "deal.findAll", execute: findAll });
+  registerAction({ ...action, id: "deal.update", execute: update });
+  registerAICapability(capability, dealEntity(capability));
+}
+
+/** A provider that summarizes each deal by title, tracking calls in flight */
+function summarizer(delayMs = 0) {
+  const stats = { inFlight: 0, maxInFlight: 0 };
+  const provider: AIProvider = {
+    name: "mock:test",
+    complete: vi.fn(async (messages) => {
+      stats.inFlight++;
+      stats.maxInFlight = Math.max(stats.maxInFlight, stats.inFlight);
+      await new Promise((r) => setTimeout(r, delayMs));
+      stats.inFlight--;
+      const title = /"title": "([^"]+)"/.exec(messages[1].content)?.[1];
+      return JSON.stringify({ summary: `About ${title}` });
+    }),
+  };
+  setAIProvider(provider);
+  return stats;
+}
+
+beforeEach(() => {
+  clearActionRegistry();
+  findAll.mockClear();
+  update.mockReset().mockImplementation(async (input) => input);
+  store.startScheduleRun.mockReset().mockImplementation(async (_tenant: string, capabilityId: string) => ({
+    id: "run-1",
+    capabilityId,
+    status: "running",
+    processed: 0,
+    updated: 0,
+    failed: 0,
+    error: null,
+    startedAt: "2026-03-10T06:00:00.000Z",
+    finishedAt: null,
+  }));
+  store.finishScheduleRun.mockReset().mockResolvedValue(undefined);
+  store.listScheduleTenants.mockReset();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  // The audit middleware can't write without a database
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  stopAIScheduler();
+  setAIProvider(new NullAIProvider());
+  vi.restoreAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Wiring
+// ---------------------------------------------------------------------------
+
+describe("wireAITrigger — on_schedule", () => {
+  it("requires a valid cron schedule", () => {
+    const capability = summarize();
+    expect(() => wireAITrigger({ ...capability, schedule: undefined }, dealEntity(capability))).toThrow(
+      /declares no schedule/
+    );
+    expect(() => wireAITrigger(summarize({ cron: "daily" }), dealEntity(capability))).toThrow(
+      /Invalid cron expression/
+    );
+    expect(() => wireAITrigger(capability, dealEntity(capability))).not.toThrow();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Tenant runs
+// ---------------------------------------------------------------------------
+
+describe("runScheduleForTenant", () => {
+  it("pages through matching records and merges the AI output", async () => {
+    const capability = summarize({ batchSize: 2, where: { title: { ne: "Archived" } } });
+    registerDealActions(capability);
+    summarizer();
+
+    const run = await runScheduleForTenant(capability, dealEntity(capability), TENANT);
+
+    expect(findAll).toHaveBeenCalledTimes(3);
+    expect(findAll.mock.calls[0][0]).toMatchObject({
+      where: { title: { ne: "Archived" } },
+      orderBy: { field: "id", direction: "asc" },
+      limit: 2,
+      includeTotal: false,
+    });
+    expect(findAll.mock.calls[1][0]).toMatchObject({ cursor: "2" });
+    expect(update).toHaveBeenCalledTimes(5);
+    expect(update.mock.calls[0][0]).toEqual({ id: "deal-0", data: { summary: "About Deal 0" } });
+    expect(findAll.mock.calls[0][1].caller).toMatchObject({ tenantId: TENANT, type: "system" });
+
+    expect(store.startScheduleRun).toHaveBeenCalledWith(TENANT, "deal.summarize");
+    expect(store.finishScheduleRun).toHaveBeenCalledWith("run-1", {
+      status: "succeeded",
+      processed: 5,
+      updated: 5,
+      failed: 0,
+      error: undefined,
+    });
+    expect(run).toMatchObject({ status: "succeeded", processed: 5, updated: 5 });
+  });
+
+  it("limits AI calls in flight and stops at maxRecords", async () => {
+    const capability = summarize({ concurrency: 2, maxRecords: 4 });
+    registerDealActions(capability);
+    const stats = summarizer(5);
+
+    const run = await runScheduleForTenant(capability, dealEntity(capability), TENANT);
+
+    expect(stats.maxInFlight).toBe(2);
+    expect(run.processed).toBe(4);
+  });
+
+  it("counts failed records and skips fallback output", async () => {
+    const capability = summarize();
+    registerDealActions(capability);
+    // AI unavailable for the first record → fallback, nothing written
+    const provider = { name: "mock:test", complete: vi.fn() };
+    provider.complete
+      .mockRejectedValueOnce(new Error("rate limited"))
+      .mockImplementation(async () => JSON.stringify({ summary: "ok" }));
+    setAIProvider(provider);
+    update.mockImplementationOnce(async () => {
+      throw new Error("Record locked");
+    });
+
+    const run = await runScheduleForTenant(capability, dealEntity(capability), TENANT);
+
+    expect(update).toHaveBeenCalledTimes(4);
+    expect(run).toMatchObject({ status: "partial", processed: 5, updated: 3, failed: 1 });
+  });
+
+  it("fails the run when records can't be read", async () => {
+    const capability = summarize();
+    registerDealActions(capability);
+    findAll.mockRejectedValueOnce(new Error("connection lost"));
+
+    const run = await runScheduleForTenant(capability, dealEntity(capability), TENANT);
+
+    expect(run).toMatchObject({ status: "failed", processed: 0 });
+    expect(store.finishScheduleRun.mock.calls[0][1]).toMatchObject({ status: "failed" });
+    expect(store.finishScheduleRun.mock.calls[0][1].error).toBeTruthy();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Scheduling
+// ---------------------------------------------------------------------------
+
+describe("scheduler", () => {
+  it("runs due capabilities for every unpaused tenant once per cron slot", async () => {
+    const capability = summarize();
+    const entity = dealEntity(capability);
+    registerDealActions(capability);
+    summarizer();
+    store.listScheduleTenants.mockResolvedValue([TENANT, "00000000-0000-4000-8000-000000000002"]);
+
+    startAIScheduler([entity], 60_000, new Date("2026-03-10T05:30:00Z"));
+    expect(listAISchedules([entity])).toEqual([
+      { capabilityId: "deal.summarize", entity: "Deal", cron: "0 6 * * *", nextRunAt: "2026-03-10T06:00:00.000Z" },
+    ]);
+
+    expect(runDueSchedules(new Date("2026-03-10T05:59:00Z"))).toHaveLength(0);
+
+    await Promise.all(runDueSchedules(new Date("2026-03-10T06:00:00Z")));
+    expect(store.listScheduleTenants).toHaveBeenCalledWith("deals", "deal.summarize");
+    expect(store.startScheduleRun).toHaveBeenCalledTimes(2);
+    expect(listAISchedules([entity])[0].nextRunAt).toBe("2026-03-11T06:00:00.000Z");
+  });
+
+  it("doesn't start a run while the previous one is in progress", async () => {
+    const capability = summarize({ cron: "* * * * *" });
+    const entity = dealEntity(capability);
+    let release!: (tenants: string[]) => void;
+    store.listScheduleTenants.mockReturnValue(new Promise((r) => (release = r)));
+
+    startAIScheduler([entity], 60_000, new Date("2026-03-10T06:00:00Z"));
+    const first = runDueSchedules(new Date("2026-03-10T06:01:00Z"));
+    const second = runDueSchedules(new Date("2026-03-10T06:02:00Z"));
+    release([]);
+    await Promise.all(first);
+
+    expect(first).toHaveLength(1);
+    expect(second).toHaveLength(0);
+    expect(store.listScheduleTenants).toHaveBeenCalledTimes(1);
+  });
+
+  it("lists schedules without next run times when not started", () => {
+    const capability = summarize();
+    expect(listAISchedules([dealEntity(capability)])[0].nextRunAt).toBeNull();
+  });
+
+  it("runs a capability for each tenant in turn", async () => {
+    const capability = summarize();
+    registerDealActions(capability);
+    summarizer();
+    store.listScheduleTenants.mockResolvedValue([TENANT]);
+
+    const runs = await runScheduledCapability(capability, dealEntity(capability));
+
+    expect(runs).toHaveLength(1);
+    expect(runs[0].status).toBe("succeeded");
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * AI Scheduler
+ *
+ * Runs on_schedule AI capabilities on their cron schedule. When a
+ * capability is due, the scheduler runs it once per tenant: it pages
+ * through the tenant's records matching `schedule.where` (by id, with
+ * cursor pagination), runs the capability on each record with at most
+ * `schedule.concurrency` AI calls in flight, and merges the output back
+ * into the record — exactly like the on_create/on_update triggers.
+ *
+ * Every tenant run is recorded in ai_schedule_runs (see schedule-store.ts)
+ * for inspection. Tenants can pause a schedule; paused tenants are skipped
+ * until they resume it.
+ *
+ * The scheduler is in-process: each API server checks once a minute for
+ * due capabilities. A run still in progress when the next one is due is
+ * not started twice — the next run waits for the following slot.
+ *
+ * Usage:
+ *   startAIScheduler(getAllEntities());  // Call once at startup
+ *   stopAIScheduler();                   // On shutdown
+ */
+
+import type { AICapabilityDefinition, Caller, EntityDefinition } from "@metasaas/contracts";
+import { dispatch } from "../core/action-bus/bus.js";
+import { parseCron, nextCronRun, type CronSchedule } from "../core/cron/index.js";
+import { runWithEventTrace } from "../core/event-bus/index.js";
+import { ID_ORDER } from "../core/database/cursor.js";
+import { toTableName } from "../core/database/schema-builder.js";
+import { applyAICapability } from "./gateway.js";
+import {
+  startScheduleRun,
+  finishScheduleRun,
+  listScheduleTenants,
+  type ScheduleRun,
+} from "./schedule-store.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A scheduled capability as reported by the API */
+export interface AIScheduleInfo {
+  capabilityId: string;
+  /** Entity name, e.g. "Deal" */
+  entity: string;
+  cron: string;
+  /** When the scheduler will next run it (null when the scheduler isn't running) */
+  nextRunAt: string | null;
+}
+
+/** A scheduled capability and when it next fires */
+interface ScheduleEntry {
+  capability: AICapabilityDefinition;
+  entity: EntityDefinition;
+  cron: CronSchedule;
+  nextRunAt: Date;
+  /** Set while a run is in progress, so slow runs don't overlap */
+  running: boolean;
+}
+
+/** How often the scheduler checks for due capabilities */
+const DEFAULT_TICK_MS = 60 * 1000;
+
+const DEFAULT_BATCH_SIZE = 50;
+/** findAll's page size limit */
+const MAX_BATCH_SIZE = 100;
+const DEFAULT_CONCURRENCY = 2;
+
+/** Active scheduler state, if started */
+const entries = new Map<string, ScheduleEntry>();
+let schedulerTimer: ReturnType<typeof setInterval> | null = null;
+
+// ---------------------------------------------------------------------------
+// Discovery
+// ---------------------------------------------------------------------------
+
+/** The on_schedule capabilities declared by the given entities */
+export function getScheduledCapabilities(
+  entities: EntityDefinition[]
+): { capability: AICapabilityDefinition; entity: EntityDefinition }[] {
+  return entities.flatMap((entity) =>
+    (entity.aiCapabilities ?? [])
+      .filter((capability) => capability.trigger === "on_schedule" && capability.schedule)
+      .map((capability) => ({ capability, entity }))
+  );
+}
+
+/** Lists the scheduled capabilities with their next run time */
+export function listAISchedules(entities: EntityDefinition[]): AIScheduleInfo[] {
+  return getScheduledCapabilities(entities).map(({ capability, entity }) => ({
+    capabilityId: capability.id,
+    entity: entity.name,
+    cron: capability.schedule!.cron,
+    nextRunAt: entries.get(capability.id)?.nextRunAt.toISOString() ?? null,
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Running
+// ---------------------------------------------------------------------------
+
+/**
+ * Runs a scheduled capability for every tenant that has records and
+ * hasn't paused it, one tenant after another.
+ */
+export async function runScheduledCapability(
+  capability: AICapabilityDefinition,
+  entity: EntityDefinition
+): Promise<ScheduleRun[]> {
+  const tenants = await listScheduleTenants(toTableName(entity.name), capability.id);
+  const runs: ScheduleRun[] = [];
+  for (const tenantId of tenants) {
+    runs.push(await runScheduleForTenant(capability, entity, tenantId));
+  }
+  return runs;
+}
+
+/**
+ * Runs a scheduled capability over one tenant's matching records and
+ * records the run. Failures on single records are counted, not thrown;
+ * a failure to read records ends the run as "failed".
+ */
+export async function runScheduleForTenant(
+  capability: AICapabilityDefinition,
+  entity: EntityDefinition,
+  tenantId: string
+): Promise<ScheduleRun> {
+  const schedule = capability.schedule ?? { cron: "" };
+  const batchSize = Math.min(schedule.batchSize ?? DEFAULT_BATCH_SIZE, MAX_BATCH_SIZE);
+  const concurrency = Math.max(1, schedule.concurrency ?? DEFAULT_CONCURRENCY);
+  const maxRecords = schedule.maxRecords ?? Infinity;
+  const caller: Caller = { userId: "ai-scheduler", tenantId, roles: ["system"], type: "system" };
+
+  const run = await startScheduleRun(tenantId, capability.id);
+  const counts = { processed: 0, updated: 0, failed: 0 };
+  let error: string | undefined;
+
+  try {
+    // Events emitted by the run's updates are correlated by run id
+    await runWithEventTrace({ correlationId: run.id }, async () => {
+      let cursor: string | undefined;
+      do {
+        const page = await dispatch<{ data: Record<string, unknown>[]; nextCursor: string | null }>(
+          `${entity.name.toLowerCase()}.findAll`,
+          {
+            ...(schedule.where && { where: schedule.where }),
+            orderBy: ID_ORDER,
+            limit: batchSize,
+            cursor,
+            includeTotal: false,
+          },
+          caller
+        );
+        if (!page.success) throw new Error(page.error);
+
+        const records = page.data.data.slice(0, maxRecords - counts.processed);
+        await forEachWithConcurrency(records, concurrency, async (record) => {
+          counts.processed++;
+          try {
+            if (await applyAICapability(capability, entity, record, caller)) counts.updated++;
+          } catch {
+            counts.failed++;
+          }
+        });
+
+        cursor = page.data.nextCursor ?? undefined;
+      } while (cursor && counts.processed < maxRecords);
+    });
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const status = error ? "failed" : counts.failed > 0 ? "partial" : "succeeded";
+  await finishScheduleRun(run.id, { status, ...counts, error });
+
+  if (error || counts.failed > 0) {
+    console.warn(
+      `[ai-scheduler] ${capability.id} (tenant ${tenantId}): ${status}` +
+        (error ? ` — ${error}` : `, ${counts.failed} record(s) failed`)
+    );
+  }
+
+  return { ...run, status, ...counts, error: error ?? null, finishedAt: new Date().toISOString() };
+}
+
+/** Calls fn on every item with at most `limit` calls pending at once */
+async function forEachWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await fn(items[next++]);
+    }
+  });
+  await Promise.all(workers);
+}
+
+// ---------------------------------------------------------------------------
+// Scheduler loop
+// ---------------------------------------------------------------------------
+
+/**
+ * Starts the scheduler for the on_schedule capabilities of the given
+ * entities. Does nothing if none are scheduled.
+ *
+ * @param entities - Entities whose capabilities to schedule
+ * @param tickMs   - How often to check for due capabilities
+ * @param now      - Reference time for the first run times (for testing)
+ */
+export function startAIScheduler(
+  entities: EntityDefinition[],
+  tickMs = DEFAULT_TICK_MS,
+  now: Date = new Date()
+): void {
+  stopAIScheduler();
+
+  for (const { capability, entity } of getScheduledCapabilities(entities)) {
+    const cron = parseCron(capability.schedule!.cron);
+    entries.set(capability.id, {
+      capability,
+      entity,
+      cron,
+      nextRunAt: nextCronRun(cron, now),
+      running: false,
+    });
+  }
+  if (entries.size === 0) return;
+
+  schedulerTimer = setInterval(() => runDueSchedules(), tickMs);
+  // Never keep the process alive just for the scheduler
+  schedulerTimer.unref();
+
+  console.log(`[ai-scheduler] Scheduling: ${[...entries.keys()].join(", ")}`);
+}
+
+/** Stops the scheduler */
+export function stopAIScheduler(): void {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+  entries.clear();
+}
+
+/**
+ * Starts every capability that is due at `now` and not already running,
+ * and moves its next run to the following cron slot. Exported for tests;
+ * the scheduler calls it on every tick.
+ */
+export function runDueSchedules(now: Date = new Date()): Promise<void>[] {
+  const started: Promise<void>[] = [];
+
+  for (const entry of entries.values()) {
+    if (entry.nextRunAt > now) continue;
+    entry.nextRunAt = nextCronRun(entry.cron, now);
+
+    if (entry.running) {
+      console.warn(`[ai-scheduler] ${entry.capability.id}: previous run still in progress, skipping`);
+      continue;
+    }
+
+    entry.running = true;
+    started.push(
+      runScheduledCapability(entry.capability, entry.entity)
+        .then(() => undefined)
+        .catch((err) => {
+          console.error(`[ai-scheduler] ${entry.capability.id} failed:`, err);
+        })
+        .finally(() => {
+          entry.running = false;
+        })
+    );
+  }
+
+  return started;
+}
@@ -14,10 +14,26 @@
 
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { z } from "zod";
+
+// The database is uninitialized unless a test provides one
+const mockGetDatabase = vi.fn(() => {
+  throw new Error("Database not initialized. Call initDatabase() at startup.");
+});
+vi.mock("../database/connection.js", () => ({ getDatabase: () => mockGetDatabase() }));
+
+const mockWriteToOutbox = vi.fn();
+const mockRequestOutboxRelay = vi.fn();
+vi.mock("../event-bus/outbox.js", () => ({
+  writeToOutbox: (...args: unknown[]) => mockWriteToOutbox(...args),
+  requestOutboxRelay: () => mockRequestOutboxRelay(),
+}));
+
 import { dispatch, type ActionResult } from "./bus.js";
 import { registerAction, clearActionRegistry } from "./registry.js";
 import { clearSubscribers, subscribe } from "../event-bus/index.js";
-import type { ActionDefinition, Caller, EventSubscriber } from "@metasaas/contracts";
+import { registerEntity, clearEntityRegistry } from "../entity-manager/entity-registry.js";
+import { defineEntity } from "@metasaas/contracts";
+import type { ActionDefinition, Caller, DomainEvent, EventSubscriber } from "@metasaas/contracts";
 
 /** Standard test caller */
 const TEST_CALLER: Caller = {
@@ -211,6 +227,46 @@ describe("dispatch — execution errors", () => {
       expect(JSON.stringify(result)).not.toContain(".ts:");
     }
   });
+
+  it("returns a conflict naming the fields of a broken constraint", async () => {
+    registerEntity(
+      defineEntity({
+        name: "Ticket",
+        pluralName: "Tickets",
+        description: "Test entity",
+        fields: [{ name: "code", type: "text", required: true, description: "Code" }],
+        constraints: [{ type: "unique", fields: ["code"], message: "Code is taken" }],
+        ui: { icon: "x", listColumns: ["code"], searchFields: [], defaultSort: { field: "code", direction: "asc" } },
+      })
+    );
+    registerAction(
+      createTestAction({
+        id: "test.conflict",
+        execute: async () => {
+          // What postgres.js throws for a duplicate key
+          throw Object.assign(new Error("duplicate key value"), {
+            code: "23505",
+            table_name: "tickets",
+            constraint_name: "tickets_code_key",
+          });
+        },
+      })
+    );
+
+    const result = await dispatch("test.conflict", { value: "test" }, TEST_CALLER);
+
+    expect(result).toEqual({
+      success: false,
+      error: "Code is taken",
+      errorType: "conflict",
+      details: {
+        constraint: "tickets_code_key",
+        fields: ["code"],
+        fieldErrors: [{ field: "code", message: "Code is taken", code: "conflict" }],
+      },
+    });
+    clearEntityRegistry();
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -504,3 +560,130 @@ describe("dispatch — side effects", () => {
     expect(receivedEvents).not.toContain("should.not.fire");
   });
 });
+
+// ---------------------------------------------------------------------------
+// Event envelope
+// ---------------------------------------------------------------------------
+
+describe("dispatch — event envelope", () => {
+  it("stamps emitted events with tenant, actor, action and trace ids", async () => {
+    const events: DomainEvent[] = [];
+    subscribe({ eventType: "*", name: "Capture", handler: async (event) => void events.push(event) });
+
+    registerAction(
+      createTestAction({
+        id: "test.emit",
+        execute: async (_input, ctx) => {
+          // The tenant can't be overridden by the action
+          await ctx.emit({ type: "test.emitted", payload: {}, tenantId: "other-tenant" });
+          return { result: "ok" };
+        },
+      })
+    );
+
+    await dispatch("test.emit", { value: "x" }, TEST_CALLER);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: "test.emitted",
+      tenantId: "test-tenant",
+      actor: { userId: "test-user", type: "human" },
+      actionId: "test.emit",
+      causationId: undefined,
+    });
+    expect(events[0].id).toEqual(expect.any(String));
+    expect(events[0].correlationId).toEqual(expect.any(String));
+  });
+
+  it("links events from actions dispatched by subscribers to their cause", async () => {
+    const events: DomainEvent[] = [];
+    const emitting = (id: string, type: string) =>
+      createTestAction({
+        id,
+        execute: async (_input, ctx) => {
+          await ctx.emit({ type, payload: {} });
+          return { result: "ok" };
+        },
+      });
+    registerAction(emitting("test.first", "test.first_done"));
+    registerAction(emitting("test.second", "test.second_done"));
+
+    subscribe({
+      eventType: "test.first_done",
+      name: "Chain",
+      handler: async () => void (await dispatch("test.second", { value: "x" }, TEST_CALLER)),
+    });
+    subscribe({ eventType: "test.second_done", name: "Capture", handler: async (event) => void events.push(event) });
+    subscribe({ eventType: "test.first_done", name: "CaptureFirst", handler: async (event) => void events.push(event) });
+
+    await dispatch("test.first", { value: "x" }, TEST_CALLER);
+
+    const first = events.find((e) => e.type === "test.first_done")!;
+    const second = events.find((e) => e.type === "test.second_done")!;
+    expect(second.causationId).toBe(first.id);
+    expect(second.correlationId).toBe(first.correlationId);
+    expect(second.actionId).toBe("test.second");
+  });
+});
+
+describe("dispatch — events in transactions", () => {
+  /** A Drizzle stand-in whose transactions commit unless the callback throws */
+  function provideDatabase() {
+    const txDb = {};
+    mockGetDatabase.mockReturnValue({ db: { transaction: async (fn: (tx: unknown) => unknown) => fn(txDb) } } as never);
+    return txDb;
+  }
+
+  beforeEach(() => {
+    mockGetDatabase.mockReset();
+    mockWriteToOutbox.mockReset();
+    mockRequestOutboxRelay.mockReset();
+  });
+
+  it("writes events to the outbox and relays them after commit", async () => {
+    const txDb = provideDatabase();
+    const handler = vi.fn(async () => {});
+    subscribe({ eventType: "*", name: "Capture", handler });
+    registerAction(
+      createTestAction({
+        id: "test.tx",
+        execute: async (_input, ctx) =>
+          ctx.db.transaction(async () => {
+            await ctx.emit({ type: "test.saved", payload: {} });
+            expect(mockRequestOutboxRelay).not.toHaveBeenCalled();
+            return { result: "ok" };
+          }),
+      })
+    );
+
+    const result = await dispatch("test.tx", { value: "x" }, TEST_CALLER);
+
+    expect(result.success).toBe(true);
+    expect(handler).not.toHaveBeenCalled();
+    expect(mockWriteToOutbox).toHaveBeenCalledWith(
+      txDb,
+      expect.objectContaining({ type: "test.saved", tenantId: "test-tenant", actionId: "test.tx" })
+    );
+    expect(mockRequestOutboxRelay).toHaveBeenCalledTimes(1);
+  });
+
+  it("never relays events of a rolled-back transaction", async () => {
+    provideDatabase();
+    registerAction(
+      createTestAction({
+        id: "test.rollback",
+        execute: async (_input, ctx) =>
+          ctx.db.transaction(async () => {
+            await ctx.emit({ type: "test.saved", payload: {} });
+            throw new Error("constraint violated");
+          }),
+      })
+    );
+
+    const result = await dispatch("test.rollback", { value: "x" }, TEST_CALLER);
+
+    expect(result.success).toBe(false);
+    expect(mockWriteToOutbox).toHaveBeenCalledTimes(1);
+    expect(mockRequestOutboxRelay).not.toHaveBeenCalled();
+  });
+});
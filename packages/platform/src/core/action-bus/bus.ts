@@ -6,7 +6,7 @@
  *
  *   1. Lookup action by ID
  *   2. Validate input against the action's Zod schema
- *   3. Check caller permissions
+ *   3. Check caller permissions (loading the target record for "own" rules)
  *   4. Execute the action's business logic
  *   5. Log the result
  *
@@ -14,15 +14,18 @@
  * whether triggered by the UI, an API call, an AI agent, or a cron job.
  */
 
-import type { ActionContext, Caller, DomainEvent } from "@metasaas/contracts";
+import type { ActionContext, ActionDefinition, Caller, DatabaseClient, DomainEvent } from "@metasaas/contracts";
 import type { SideEffect } from "@metasaas/contracts";
 import { getAction } from "./registry.js";
 import { validateInput, ValidationError } from "./middleware/validation.js";
-import { checkPermission, PermissionError } from "./middleware/permission.js";
+import { evaluatePermission, PermissionError } from "./middleware/permission.js";
 import { WorkflowError } from "./middleware/workflow.js";
 import { createLogger, logActionExecution } from "./middleware/logging.js";
-import { createDatabaseClient } from "../database/client.js";
-import { publish } from "../event-bus/index.js";
+import { createDatabaseClient, getActiveTransaction } from "../database/client.js";
+import { ConflictError, conflictFromDatabaseError } from "../database/constraints.js";
+import { publish, getEventTrace, runWithEventTrace } from "../event-bus/index.js";
+import { writeToOutbox, requestOutboxRelay } from "../event-bus/outbox.js";
+import { createJobQueue } from "../jobs/index.js";
 import { writeAuditLog } from "../audit/index.js";
 import { captureException } from "../observability/index.js";
 
@@ -33,6 +36,7 @@ import { captureException } from "../observability/index.js";
  *   validation → 400
  *   permission → 403
  *   workflow   → 422
+ *   conflict   → 409 (a unique or check constraint of the table)
  *   unknown    → 500
  */
 export type ActionErrorType =
@@ -40,6 +44,7 @@ export type ActionErrorType =
   | "validation"
   | "permission"
   | "workflow"
+  | "conflict"
   | "unknown";
 
 /**
@@ -65,6 +70,15 @@ export async function dispatch<T = unknown>(
   input: unknown,
   caller: Caller
 ): Promise<ActionResult<T>> {
+  // A dispatch outside any trace (a request, a scheduled run) starts a new
+  // correlation; nested dispatches and event handlers inherit it
+  const trace = getEventTrace();
+  if (!trace) {
+    return runWithEventTrace({ correlationId: crypto.randomUUID() }, () =>
+      dispatch<T>(actionId, input, caller)
+    );
+  }
+
   const startTime = performance.now();
   const logger = createLogger(`action:${actionId}`);
 
@@ -83,31 +97,50 @@ export async function dispatch<T = unknown>(
     const validatedInput = validateInput(action, input);
 
     // 3. Authorize
-    const allowed = checkPermission(action, caller);
-    if (!allowed) {
-      throw new PermissionError(actionId, caller.userId);
-    }
+    const db = createDatabaseClient(caller.tenantId);
+    const authorizedInput = await authorize(action, validatedInput, caller, db);
 
     // 4. Build context
     const context: ActionContext = {
       caller,
-      db: createDatabaseClient(caller.tenantId),
+      db,
       emit: async (event: DomainEvent) => {
+        // Stamp the envelope — the tenant always comes from the caller
+        const envelope: DomainEvent = {
+          ...event,
+          id: crypto.randomUUID(),
+          tenantId: caller.tenantId,
+          actor: { userId: caller.userId, type: caller.type },
+          actionId,
+          correlationId: trace.correlationId,
+          causationId: trace.causationId,
+        };
         // Log the event
         logger.info("Domain event emitted", {
-          eventType: event.type,
-          payload: event.payload,
+          eventType: envelope.type,
+          eventId: envelope.id,
+          correlationId: envelope.correlationId,
+          payload: envelope.payload,
         });
+        // Inside a transaction the event goes to the outbox, committing or
+        // rolling back with the data; the relay publishes it after commit
+        const tx = getActiveTransaction();
+        if (tx) {
+          await writeToOutbox(tx.db, envelope);
+          tx.afterCommit(requestOutboxRelay);
+          return;
+        }
         // Route to registered EventBus subscribers
-        await publish(event);
+        await publish(envelope);
       },
+      jobs: createJobQueue(caller.tenantId),
       logger,
     };
 
     // 5. Before hook (Layer 3 escape hatch)
     const hookInput = action.beforeExecute
-      ? await action.beforeExecute(validatedInput, context)
-      : validatedInput;
+      ? await action.beforeExecute(authorizedInput, context)
+      : authorizedInput;
 
     // 6. Execute
     const rawResult = await action.execute(hookInput, context);
@@ -187,6 +220,21 @@ export async function dispatch<T = unknown>(
       };
     }
 
+    // The database rejected the write — name the constraint's fields
+    const conflict = error instanceof ConflictError ? error : conflictFromDatabaseError(error);
+    if (conflict) {
+      return {
+        success: false,
+        error: conflict.message,
+        errorType: "conflict",
+        details: {
+          constraint: conflict.constraint,
+          fields: conflict.fields,
+          fieldErrors: conflict.fieldErrors,
+        },
+      };
+    }
+
     // Unknown error — log full details server-side, return generic message
     logger.error("Action execution failed", {
       error: errorMessage,
@@ -210,6 +258,86 @@ export async function dispatch<T = unknown>(
   }
 }
 
+// ---------------------------------------------------------------------------
+// Authorization
+// ---------------------------------------------------------------------------
+
+/**
+ * Evaluates the action's permission rules and applies record ownership.
+ *
+ * Throws PermissionError when the caller is denied. Otherwise returns the
+ * input to execute with — unchanged, unless access was granted only by an
+ * `ownership: "own"` rule:
+ *
+ *   - "record" scope: the target record (`input.id`) is loaded and the
+ *     rules are re-evaluated against its owner (from the trash when
+ *     `ownership.trashed`). A missing record is left to the action to report.
+ *     Changing `input.data[field]` to anyone but the caller is denied, so
+ *     an owned record can't be handed to another user.
+ *   - "list" scope:   `input.where` is narrowed to the caller's records.
+ *   - "create" scope: the caller is assigned as the new record's owner.
+ */
+async function authorize(
+  action: ActionDefinition,
+  input: unknown,
+  caller: Caller,
+  db: DatabaseClient
+): Promise<unknown> {
+  let decision = evaluatePermission(action, caller);
+  const ownedOnly = decision.ownedOnly;
+  const ownership = action.ownership;
+
+  if (decision.ownedOnly && ownership?.scope === "record") {
+    const id = (input as { id?: unknown }).id;
+    let record: Record<string, unknown> | null = null;
+    if (typeof id === "string") {
+      record = ownership.trashed
+        ? (await db.findMany(ownership.entity, { where: { id }, trashed: true, limit: 1 }))[0] ?? null
+        : await db.findById(ownership.entity, id);
+    }
+    if (record) {
+      decision = evaluatePermission(action, caller, {
+        ownerId: record[ownership.field],
+      });
+    }
+  }
+
+  if (!decision.allowed) {
+    throw new PermissionError(action.id, caller.userId, decision.reason);
+  }
+
+  if (ownedOnly && ownership?.scope === "record") {
+    const data = (input as { data?: Record<string, unknown> }).data;
+    if (data && ownership.field in data && data[ownership.field] !== caller.userId) {
+      throw new PermissionError(
+        action.id,
+        caller.userId,
+        `${ownership.entity} records can only be reassigned by users with broader access`
+      );
+    }
+  }
+
+  if (!decision.ownedOnly || !ownership) {
+    return input;
+  }
+
+  const typed = input as Record<string, unknown>;
+  switch (ownership.scope) {
+    case "list":
+      return {
+        ...typed,
+        where: {
+          ...(typed.where as Record<string, unknown> | undefined),
+          [ownership.field]: caller.userId,
+        },
+      };
+    case "create":
+      return { ...typed, [ownership.field]: caller.userId };
+    default:
+      return input;
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Side Effects Processor
 // ---------------------------------------------------------------------------
@@ -6,6 +6,8 @@
  *   2. RBAC rules are enforced for every dispatch
  *   3. Validation + permissions + workflow run in the correct order
  *   4. Structured errors are returned for each failure type
+ *   5. "own" ownership rules restrict callers to records they own,
+ *      including records in the trash
  *
  * These are the tests that give us confidence to deploy to production.
  */
@@ -15,7 +17,55 @@ import { z } from "zod";
 import { dispatch } from "./bus.js";
 import { registerAction, clearActionRegistry } from "./registry.js";
 import { clearSubscribers } from "../event-bus/index.js";
-import type { ActionDefinition, Caller } from "@metasaas/contracts";
+import { generateCRUDActions } from "../entity-manager/crud-generator.js";
+import { defineEntity } from "@metasaas/contracts";
+import type { ActionDefinition, Caller, DatabaseClient } from "@metasaas/contracts";
+
+// ---------------------------------------------------------------------------
+// In-memory database client (ownership tests load and filter records)
+// ---------------------------------------------------------------------------
+
+const store = vi.hoisted(() => new Map<string, Record<string, unknown>>());
+
+vi.mock("../database/client.js", () => {
+  const matches = (row: Record<string, unknown>, where?: Record<string, unknown>) =>
+    Object.entries(where ?? {}).every(([k, v]) => row[k] === v);
+
+  // Rows with `deletedAt` set are in the trash (soft delete)
+  const live = (row?: Record<string, unknown>) => (row && !row.deletedAt ? row : null);
+  const trashed = (row?: Record<string, unknown>) => (row?.deletedAt ? row : null);
+
+  const db: Partial<DatabaseClient> = {
+    findById: async (_entity, id) => live(store.get(id)),
+    findMany: async (_entity, options) =>
+      [...store.values()].filter(
+        (r) => Boolean(r.deletedAt) === Boolean(options?.trashed) && matches(r, options?.where)
+      ),
+    restore: async (_entity, id) => {
+      const row = trashed(store.get(id));
+      if (!row) return null;
+      const restored = { ...row, deletedAt: null };
+      store.set(id, restored);
+      return restored;
+    },
+    purge: async (_entity, id) => (trashed(store.get(id)) ? store.delete(id) : false),
+    count: async (_entity, where) =>
+      [...store.values()].filter((r) => matches(r, where)).length,
+    create: async (_entity, data) => {
+      const row = { id: crypto.randomUUID(), ...data };
+      store.set(row.id, row);
+      return row;
+    },
+    update: async (_entity, id, data) => {
+      const row = { ...store.get(id), ...data };
+      store.set(id, row);
+      return row;
+    },
+    delete: async (_entity, id) => store.delete(id),
+  };
+
+  return { createDatabaseClient: () => db, getActiveTransaction: () => undefined };
+});
 
 // ---------------------------------------------------------------------------
 // Test constants
@@ -60,6 +110,7 @@ const callerSystem: Caller = {
 beforeEach(() => {
   clearActionRegistry();
   clearSubscribers();
+  store.clear();
 });
 
 // ---------------------------------------------------------------------------
@@ -441,3 +492,444 @@ describe("structured error responses", () => {
     expect(result.details?.fieldErrors).toBeDefined();
   });
 });
+
+// ---------------------------------------------------------------------------
+// Field validations on generated CRUD actions
+// ---------------------------------------------------------------------------
+
+describe("field validations", () => {
+  const ProductEntity = defineEntity({
+    name: "Product",
+    pluralName: "Products",
+    description: "Test entity with validated fields",
+    fields: [
+      {
+        name: "sku",
+        type: "text",
+        required: true,
+        description: "Stock keeping unit",
+        validations: [{ pattern: "^[A-Z]{3}-\\d+$", message: "SKU must look like ABC-123" }],
+      },
+      {
+        name: "price",
+        type: "currency",
+        required: false,
+        description: "Price",
+        validations: [{ min: 0, max: 1000 }],
+      },
+    ],
+    ui: {
+      icon: "package",
+      listColumns: ["sku"],
+      searchFields: ["sku"],
+      defaultSort: { field: "sku", direction: "asc" },
+    },
+  });
+
+  const PRODUCT_ID = "00000000-0000-4000-8000-000000000010";
+
+  beforeEach(() => {
+    for (const action of generateCRUDActions(ProductEntity)) {
+      registerAction(action);
+    }
+    store.set(PRODUCT_ID, { id: PRODUCT_ID, sku: "ABC-1", price: 10 });
+  });
+
+  it("rejects create input that breaks a rule, with the custom message", async () => {
+    const result = await dispatch("product.create", { sku: "abc" }, callerTenantA);
+
+    expect(result.success).toBe(false);
+    expect(result.errorType).toBe("validation");
+    expect(result.details?.fieldErrors).toEqual([
+      expect.objectContaining({ field: "sku", message: "SKU must look like ABC-123" }),
+    ]);
+  });
+
+  it("rejects update input that breaks a rule, with the default message", async () => {
+    const result = await dispatch("product.update", { id: PRODUCT_ID, data: { price: 5000 } }, callerTenantA);
+
+    expect(result.success).toBe(false);
+    expect(result.errorType).toBe("validation");
+    expect(result.details?.fieldErrors).toEqual([
+      expect.objectContaining({ field: "data.price", message: "Must be at most 1000" }),
+    ]);
+  });
+
+  it("accepts input within the rules", async () => {
+    const result = await dispatch("product.create", { sku: "XYZ-42", price: 1000 }, callerTenantA);
+    expect(result.success).toBe(true);
+  });
+
+  it("describes the rules in the action hints", () => {
+    const create = generateCRUDActions(ProductEntity).find((a) => a.id === "product.create")!;
+    expect(create.description).toContain("sku(text, required, pattern ^[A-Z]{3}-\\d+$)");
+    expect(create.description).toContain("price(currency, min 0, max 1000)");
+  });
+
+  it("refuses to generate actions for an invalid pattern", () => {
+    const Broken = defineEntity({
+      ...ProductEntity,
+      fields: [{ name: "code", type: "text", required: false, description: "Code", validations: [{ pattern: "[" }] }],
+    });
+    expect(() => generateCRUDActions(Broken)).toThrow('Product.code: invalid validation pattern "["');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Cross-field rules on generated CRUD actions
+// ---------------------------------------------------------------------------
+
+describe("cross-field rules", () => {
+  const QuoteEntity = defineEntity({
+    name: "Quote",
+    pluralName: "Quotes",
+    description: "Test entity with cross-field rules",
+    fields: [
+      { name: "status", type: "enum", required: true, description: "Status", options: ["draft", "approved"] },
+      { name: "discount", type: "percentage", required: false, description: "Discount" },
+      { name: "validFrom", type: "date", required: false, description: "Valid from" },
+      { name: "validUntil", type: "date", required: false, description: "Valid until" },
+    ],
+    rules: [
+      { type: "required", field: "discount", when: { field: "status", equals: "approved" } },
+      { type: "compare", field: "validUntil", operator: "gt", otherField: "validFrom" },
+    ],
+    ui: {
+      icon: "file",
+      listColumns: ["status"],
+      searchFields: [],
+      defaultSort: { field: "status", direction: "asc" },
+    },
+  });
+
+  const QUOTE_ID = "00000000-0000-4000-8000-000000000020";
+
+  beforeEach(() => {
+    for (const action of generateCRUDActions(QuoteEntity)) {
+      registerAction(action);
+    }
+    store.set(QUOTE_ID, {
+      id: QUOTE_ID,
+      status: "draft",
+      discount: null,
+      validFrom: "2026-03-01T00:00:00.000Z",
+      validUntil: "2026-03-31T00:00:00.000Z",
+    });
+  });
+
+  it("rejects a create that breaks a rule", async () => {
+    const result = await dispatch("quote.create", { status: "approved" }, callerTenantA);
+
+    expect(result.success).toBe(false);
+    expect(result.errorType).toBe("validation");
+    expect(result.details?.fieldErrors).toEqual([
+      { field: "discount", message: "discount is required when status is approved", code: "required" },
+    ]);
+  });
+
+  it("checks a partial update against the stored record", async () => {
+    const approve = await dispatch("quote.update", { id: QUOTE_ID, data: { status: "approved" } }, callerTenantA);
+    expect(approve.success).toBe(false);
+    expect(approve.details?.fieldErrors).toEqual([expect.objectContaining({ field: "data.discount" })]);
+
+    const shorten = await dispatch(
+      "quote.update", { id: QUOTE_ID, data: { validUntil: "2026-02-01T00:00:00.000Z" } }, callerTenantA
+    );
+    expect(shorten.success).toBe(false);
+    expect(shorten.details?.fieldErrors).toEqual([
+      { field: "data.validUntil", message: "validUntil must be after validFrom", code: "compare" },
+    ]);
+  });
+
+  it("accepts updates that keep the rules", async () => {
+    const result = await dispatch(
+      "quote.update", { id: QUOTE_ID, data: { status: "approved", discount: 5 } }, callerTenantA
+    );
+    expect(result.success).toBe(true);
+  });
+
+  it("refuses to generate actions for a rule on an unknown field", () => {
+    const Broken = defineEntity({
+      ...QuoteEntity,
+      rules: [{ type: "oneOfRequired", fields: ["discount", "coupon"] }],
+    });
+    expect(() => generateCRUDActions(Broken)).toThrow('Quote: oneOfRequired rule references unknown field "coupon"');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Computed fields
+// ---------------------------------------------------------------------------
+
+describe("computed fields", () => {
+  const LineItemEntity = defineEntity({
+    name: "LineItem",
+    pluralName: "LineItems",
+    description: "Test entity with computed fields",
+    fields: [
+      { name: "product", type: "text", required: true, description: "Product" },
+      { name: "quantity", type: "number", required: true, description: "Quantity" },
+      { name: "unitPrice", type: "currency", required: true, description: "Unit price" },
+      { name: "total", type: "currency", required: false, description: "Total", computed: "quantity * unitPrice" },
+      { name: "label", type: "text", required: false, description: "Label", computed: 'quantity + " × " + product' },
+    ],
+    ui: {
+      icon: "list",
+      listColumns: ["product", "total"],
+      searchFields: [],
+      defaultSort: { field: "total", direction: "desc" },
+    },
+  });
+
+  const LINE_ID = "00000000-0000-4000-8000-000000000030";
+
+  beforeEach(() => {
+    for (const action of generateCRUDActions(LineItemEntity)) {
+      registerAction(action);
+    }
+    // NUMERIC columns come back from the database as strings
+    store.set(LINE_ID, {
+      id: LINE_ID, product: "Widget", quantity: "2", unitPrice: "2.50", total: "5.00", label: "2 × Widget",
+    });
+  });
+
+  it("computes the fields on create, ignoring values sent for them", async () => {
+    const result = await dispatch(
+      "lineitem.create", { product: "Gadget", quantity: 3, unitPrice: 4, total: 1 }, callerTenantA
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ total: 12, label: "3 × Gadget" });
+  });
+
+  it("recomputes them on update from the stored record merged with the change", async () => {
+    const result = await dispatch("lineitem.update", { id: LINE_ID, data: { quantity: 4 } }, callerTenantA);
+
+    expect(result.success).toBe(true);
+    expect(store.get(LINE_ID)).toMatchObject({ quantity: 4, total: 10, label: "4 × Widget" });
+  });
+
+  it("marks them read-only in the action description", () => {
+    const create = generateCRUDActions(LineItemEntity).find((a) => a.id === "lineitem.create")!;
+    expect(create.description).toContain("total(currency, computed: quantity * unitPrice, read-only)");
+    expect(create.examples?.[0].input).not.toHaveProperty("total");
+  });
+
+  it("refuses to generate actions for an expression on an unknown field", () => {
+    const Broken = defineEntity({
+      ...LineItemEntity,
+      fields: [...LineItemEntity.fields, { name: "tax", type: "currency", required: false, description: "Tax", computed: "total * rate" }],
+    });
+    expect(() => generateCRUDActions(Broken)).toThrow('LineItem.tax: computed expression references unknown field "rate"');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Ownership ("own" rules on generated CRUD actions)
+// ---------------------------------------------------------------------------
+
+describe("ownership enforcement", () => {
+  const DealEntity = defineEntity({
+    name: "Deal",
+    pluralName: "Deals",
+    description: "Test entity with an owner field",
+    fields: [
+      { name: "title", type: "text", required: true, description: "Title" },
+      { name: "ownerId", type: "text", required: true, description: "Owner" },
+    ],
+    ownerField: "ownerId",
+    permissions: [
+      { roles: ["admin"], effect: "allow" },
+      { ownership: "own", effect: "allow" },
+    ],
+    ui: {
+      icon: "briefcase",
+      listColumns: ["title"],
+      searchFields: ["title"],
+      defaultSort: { field: "title", direction: "asc" },
+    },
+  });
+
+  /** A member in tenant A who only has "own" access */
+  const rep: Caller = { ...callerTenantA, userId: "rep-1", roles: ["member"] };
+
+  const seedDeal = (id: string, ownerId: string) =>
+    store.set(id, { id, title: `Deal ${id}`, ownerId });
+
+  const OWN_ID = "00000000-0000-4000-8000-000000000001";
+  const OTHER_ID = "00000000-0000-4000-8000-000000000002";
+
+  beforeEach(() => {
+    for (const action of generateCRUDActions(DealEntity)) {
+      registerAction(action);
+    }
+    seedDeal(OWN_ID, "rep-1");
+    seedDeal(OTHER_ID, "rep-2");
+  });
+
+  it("auto-populates the owner field from the caller on create", async () => {
+    const result = await dispatch<Record<string, unknown>>(
+      "deal.create", { title: "New deal" }, rep
+    );
+    expect(result.success).toBe(true);
+    if (result.success) expect(result.data.ownerId).toBe("rep-1");
+  });
+
+  it("assigns the caller as owner when access is granted only by 'own'", async () => {
+    const result = await dispatch<Record<string, unknown>>(
+      "deal.create", { title: "Sneaky", ownerId: "rep-2" }, rep
+    );
+    expect(result.success).toBe(true);
+    if (result.success) expect(result.data.ownerId).toBe("rep-1");
+  });
+
+  it("lets non-owners with a broader rule assign any owner", async () => {
+    const result = await dispatch<Record<string, unknown>>(
+      "deal.create", { title: "Assigned", ownerId: "rep-2" }, callerTenantA
+    );
+    expect(result.success).toBe(true);
+    if (result.success) expect(result.data.ownerId).toBe("rep-2");
+  });
+
+  it("filters findAll to the caller's records", async () => {
+    const result = await dispatch<{ data: Record<string, unknown>[]; total: number }>(
+      "deal.findAll", {}, rep
+    );
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.data.map((r) => r.id)).toEqual([OWN_ID]);
+      expect(result.data.total).toBe(1);
+    }
+  });
+
+  it("does not filter findAll for callers matched by a role rule", async () => {
+    const result = await dispatch<{ data: unknown[]; total: number }>(
+      "deal.findAll", {}, callerTenantA
+    );
+    expect(result.success).toBe(true);
+    if (result.success) expect(result.data.total).toBe(2);
+  });
+
+  it("rejects a findAll list operator given a single value as a validation error", async () => {
+    const result = await dispatch("deal.findAll", { where: { title: { in: "Deal" } } }, callerTenantA);
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.errorType).toBe("validation");
+  });
+
+  it("allows findById, update and delete on owned records", async () => {
+    expect((await dispatch("deal.findById", { id: OWN_ID }, rep)).success).toBe(true);
+    expect(
+      (await dispatch("deal.update", { id: OWN_ID, data: { title: "Mine" } }, rep)).success
+    ).toBe(true);
+    expect((await dispatch("deal.delete", { id: OWN_ID }, rep)).success).toBe(true);
+  });
+
+  it("denies findById, update and delete on records owned by others", async () => {
+    for (const [actionId, input] of [
+      ["deal.findById", { id: OTHER_ID }],
+      ["deal.update", { id: OTHER_ID, data: { title: "Theirs" } }],
+      ["deal.delete", { id: OTHER_ID }],
+    ] as const) {
+      const result = await dispatch(actionId, input, rep);
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.errorType).toBe("permission");
+        expect(result.error).toContain("owned by another user");
+      }
+    }
+    expect(store.get(OTHER_ID)?.title).toBe(`Deal ${OTHER_ID}`);
+    expect(store.has(OTHER_ID)).toBe(true);
+  });
+
+  it("denies own-only callers reassigning their records to another owner", async () => {
+    const result = await dispatch(
+      "deal.update", { id: OWN_ID, data: { title: "Handed off", ownerId: "rep-2" } }, rep
+    );
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errorType).toBe("permission");
+      expect(result.error).toContain("reassigned");
+    }
+    expect(store.get(OWN_ID)).toMatchObject({ title: `Deal ${OWN_ID}`, ownerId: "rep-1" });
+
+    const unchanged = await dispatch(
+      "deal.update", { id: OWN_ID, data: { title: "Still mine", ownerId: "rep-1" } }, rep
+    );
+    expect(unchanged.success).toBe(true);
+  });
+
+  it("lets callers matched by a role rule reassign records", async () => {
+    const result = await dispatch<Record<string, unknown>>(
+      "deal.update", { id: OWN_ID, data: { ownerId: "rep-2" } }, callerTenantA
+    );
+    expect(result.success).toBe(true);
+    if (result.success) expect(result.data.ownerId).toBe("rep-2");
+  });
+
+  it("leaves missing records to the action (null, not a permission error)", async () => {
+    const result = await dispatch(
+      "deal.findById", { id: "00000000-0000-4000-8000-00000000dead" }, rep
+    );
+    expect(result).toEqual({ success: true, data: null });
+  });
+});
+
+describe("ownership of soft-deleted records", () => {
+  const NoteEntity = defineEntity({
+    name: "Note",
+    pluralName: "Notes",
+    description: "Test entity with an owner field and soft delete",
+    fields: [
+      { name: "title", type: "text", required: true, description: "Title" },
+      { name: "ownerId", type: "text", required: true, description: "Owner" },
+    ],
+    ownerField: "ownerId",
+    softDelete: true,
+    permissions: [
+      { roles: ["admin"], effect: "allow" },
+      { ownership: "own", effect: "allow" },
+    ],
+    ui: {
+      icon: "file",
+      listColumns: ["title"],
+      searchFields: ["title"],
+      defaultSort: { field: "title", direction: "asc" },
+    },
+  });
+
+  const rep: Caller = { ...callerTenantA, userId: "rep-1", roles: ["member"] };
+  const OWN_ID = "00000000-0000-4000-8000-000000000011";
+  const OTHER_ID = "00000000-0000-4000-8000-000000000012";
+
+  beforeEach(() => {
+    for (const action of generateCRUDActions(NoteEntity)) {
+      registerAction(action);
+    }
+    const deletedAt = new Date();
+    store.set(OWN_ID, { id: OWN_ID, title: "Mine", ownerId: "rep-1", deletedAt });
+    store.set(OTHER_ID, { id: OTHER_ID, title: "Theirs", ownerId: "rep-2", deletedAt });
+  });
+
+  it("lets owners restore their deleted records", async () => {
+    const result = await dispatch<Record<string, unknown>>("note.restore", { id: OWN_ID }, rep);
+    expect(result.success).toBe(true);
+    expect(store.get(OWN_ID)?.deletedAt).toBeNull();
+  });
+
+  it("checks the owner of a trashed record before restore or purge", async () => {
+    for (const actionId of ["note.restore", "note.purge"]) {
+      const result = await dispatch(actionId, { id: OTHER_ID }, rep);
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.errorType).toBe("permission");
+    }
+    expect(store.get(OTHER_ID)?.deletedAt).toBeInstanceOf(Date);
+  });
+
+  it("limits the trash listing to the caller's records", async () => {
+    const result = await dispatch<{ data: Record<string, unknown>[] }>(
+      "note.findAll", { trashed: true }, rep
+    );
+    expect(result.success).toBe(true);
+    if (result.success) expect(result.data.data.map((r) => r.id)).toEqual([OWN_ID]);
+  });
+});
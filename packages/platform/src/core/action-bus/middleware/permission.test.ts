@@ -7,7 +7,7 @@
  *   - first-match-wins ordering
  *   - default deny when no rules or no match
  *   - ALLOW_ALL convenience rule
- *   - ownership placeholder (documented limitation)
+ *   - ownership "own" rules (conditional match, record owner check)
  *   - PermissionError construction
  *
  * These tests ensure that "fail closed" holds:
@@ -15,7 +15,7 @@
  */
 
 import { describe, it, expect } from "vitest";
-import { checkPermission, PermissionError } from "./permission.js";
+import { checkPermission, evaluatePermission, PermissionError } from "./permission.js";
 import { ALLOW_ALL } from "@metasaas/contracts";
 import type { ActionDefinition, Caller, PermissionRule } from "@metasaas/contracts";
 import { z } from "zod";
@@ -243,7 +243,15 @@ describe("checkPermission", () => {
 
   // -- Ownership placeholder ------------------------------------------------
 
-  describe("ownership (v0 placeholder)", () => {
+  describe("ownership", () => {
+    /** Same rules, but on an action that declares record ownership */
+    function ownedAction(permissions: PermissionRule[]): ActionDefinition {
+      return {
+        ...actionWithRules(permissions),
+        ownership: { entity: "Contact", field: "ownerId", scope: "record" },
+      };
+    }
+
     it("ownership 'any' always passes", () => {
       const action = actionWithRules([
         { ownership: "any", effect: "allow" },
@@ -251,13 +259,55 @@ describe("checkPermission", () => {
       expect(checkPermission(action, ADMIN)).toBe(true);
     });
 
-    it("ownership 'own' currently passes (known v0 limitation)", () => {
-      // In v1 this should only pass if caller.userId === record.ownerId
-      // For now it always passes to avoid breaking CRUD actions
+    it("'own' never matches on actions without ownership metadata", () => {
       const action = actionWithRules([
         { ownership: "own", effect: "allow" },
       ]);
-      expect(checkPermission(action, ADMIN)).toBe(true);
+      expect(checkPermission(action, ADMIN)).toBe(false);
+    });
+
+    it("'own' matches conditionally when no record is supplied", () => {
+      const action = ownedAction([{ ownership: "own", effect: "allow" }]);
+      expect(evaluatePermission(action, VIEWER)).toEqual({
+        allowed: true,
+        ownedOnly: true,
+      });
+    });
+
+    it("'own' allows the record's owner", () => {
+      const action = ownedAction([{ ownership: "own", effect: "allow" }]);
+      const decision = evaluatePermission(action, VIEWER, { ownerId: "user-2" });
+      expect(decision).toEqual({ allowed: true, ownedOnly: false });
+    });
+
+    it("'own' denies other users with a reason", () => {
+      const action = ownedAction([{ ownership: "own", effect: "allow" }]);
+      const decision = evaluatePermission(action, VIEWER, { ownerId: "user-1" });
+      expect(decision.allowed).toBe(false);
+      expect(decision.reason).toContain("owned by another user");
+    });
+
+    it("'own' denies unowned records", () => {
+      const action = ownedAction([{ ownership: "own", effect: "allow" }]);
+      expect(checkPermission(action, VIEWER, { ownerId: null })).toBe(false);
+    });
+
+    it("falls through to later rules when the caller is not the owner", () => {
+      const action = ownedAction([
+        { ownership: "own", effect: "allow" },
+        { roles: ["admin"], effect: "allow" },
+      ]);
+      expect(checkPermission(action, ADMIN, { ownerId: "someone-else" })).toBe(true);
+      expect(checkPermission(action, VIEWER, { ownerId: "someone-else" })).toBe(false);
+    });
+
+    it("a role rule ahead of 'own' grants unscoped access", () => {
+      const action = ownedAction([
+        { roles: ["admin"], effect: "allow" },
+        { ownership: "own", effect: "allow" },
+      ]);
+      expect(evaluatePermission(action, ADMIN).ownedOnly).toBe(false);
+      expect(evaluatePermission(action, VIEWER).ownedOnly).toBe(true);
     });
   });
 
@@ -295,6 +345,11 @@ describe("PermissionError", () => {
     expect(err.message).toContain("contact.delete");
   });
 
+  it("includes the reason when given", () => {
+    const err = new PermissionError("contact.update", "user-42", "Contact record is owned by another user");
+    expect(err.message).toContain("owned by another user");
+  });
+
   it("is an instance of Error", () => {
     const err = new PermissionError("x", "y");
     expect(err).toBeInstanceOf(Error);
@@ -9,22 +9,64 @@
  *   2. A rule "matches" if ALL its conditions are met:
  *      - callerTypes (if specified): caller.type must be in the list
  *      - roles (if specified): caller must have at least one matching role
- *      - ownership (if specified): "any" always passes, "own" is a placeholder
+ *      - ownership (if specified): "any" always passes, "own" requires
+ *        the caller to own the target record (see below)
  *   3. If the matching rule has effect "allow" → permitted
  *   4. If the matching rule has effect "deny" → denied
  *   5. If no rule matches → denied (default deny)
  *
+ * Ownership ("own") rules:
+ *   - Only match on actions that declare `ownership` metadata.
+ *   - Without a record to compare, an "own" rule matches conditionally and
+ *     the decision is flagged `ownedOnly`. The Bus then either loads the
+ *     target record and re-evaluates with its owner ("record" scope),
+ *     filters the query to the caller's records ("list" scope), or assigns
+ *     the caller as owner ("create" scope).
+ *   - With a record, an "own" rule matches only if the record's owner
+ *     field equals caller.userId. Otherwise evaluation falls through to
+ *     the next rule.
+ *
  * The ALLOW_ALL rule (no conditions, effect: "allow") matches everything.
  */
 
 import type { Caller, ActionDefinition, PermissionRule } from "@metasaas/contracts";
 
+/**
+ * The owner of the record an action targets.
+ * Passed to evaluatePermission once the Bus has loaded the record.
+ */
+export interface RecordOwner {
+  /** Value of the record's owner field (may be null for unowned rows) */
+  ownerId: unknown;
+}
+
+/** The outcome of evaluating an action's permission rules. */
+export interface PermissionDecision {
+  /** Whether the caller may execute the action */
+  allowed: boolean;
+
+  /**
+   * True when access was granted by an `ownership: "own"` rule that has
+   * not yet been checked against a record. The Bus must scope the action
+   * to records the caller owns before executing it.
+   */
+  ownedOnly: boolean;
+
+  /** Why access was denied, when there is something more to say */
+  reason?: string;
+}
+
 /**
  * Checks if a single permission rule matches the caller.
  * A rule matches if ALL specified conditions are satisfied.
  * Conditions that are undefined are treated as "any" (not restrictive).
  */
-function ruleMatches(rule: PermissionRule, caller: Caller): boolean {
+function ruleMatches(
+  rule: PermissionRule,
+  action: ActionDefinition,
+  caller: Caller,
+  record?: RecordOwner
+): boolean {
   // Check caller type restriction
   if (rule.callerTypes && rule.callerTypes.length > 0) {
     if (!rule.callerTypes.includes(caller.type)) {
@@ -40,53 +82,94 @@ function ruleMatches(rule: PermissionRule, caller: Caller): boolean {
     }
   }
 
-  // Ownership check (simplified for v0)
+  // Ownership check
   // "any" → always passes
-  // "own" → would need the entity record to check, placeholder for now
+  // "own" → the action must declare ownership; with a loaded record the
+  //         caller must be its owner, without one the match is conditional
   if (rule.ownership === "own") {
-    // Future: compare caller.userId with record's owner field
-    // For now, treat as "any" to avoid breaking existing actions
+    if (!action.ownership) {
+      return false;
+    }
+    if (record && record.ownerId !== caller.userId) {
+      return false;
+    }
   }
 
   return true;
 }
 
 /**
- * Checks if the caller has permission to execute the action.
+ * Evaluates the action's permission rules for the caller.
  *
- * Evaluates the action's permission rules in order.
- * First matching rule determines the result.
- * Default: denied if no rules match (secure by default).
+ * Pass `record` when the target record has been loaded so "own" rules
+ * can be checked against its owner. Without it, a matching "own" rule
+ * yields `{ allowed: true, ownedOnly: true }` and the caller is
+ * responsible for scoping the action to the caller's records.
  */
-export function checkPermission(
+export function evaluatePermission(
   action: ActionDefinition,
-  caller: Caller
-): boolean {
+  caller: Caller,
+  record?: RecordOwner
+): PermissionDecision {
   const rules = action.permissions;
 
   // If no permissions are defined, deny by default (secure)
   if (!rules || rules.length === 0) {
-    return false;
+    return { allowed: false, ownedOnly: false };
   }
 
   // Evaluate rules in order — first match wins
   for (const rule of rules) {
-    if (ruleMatches(rule, caller)) {
-      return rule.effect === "allow";
+    if (ruleMatches(rule, action, caller, record)) {
+      return {
+        allowed: rule.effect === "allow",
+        ownedOnly: rule.ownership === "own" && !record,
+      };
     }
   }
 
-  // No matching rule → denied
-  return false;
+  // No matching rule → denied. If an "own" rule was skipped because the
+  // record belongs to someone else, say so — it's the likely cause.
+  const failedOwnership =
+    record !== undefined &&
+    action.ownership !== undefined &&
+    rules.some((r) => r.ownership === "own" && r.effect === "allow");
+
+  return {
+    allowed: false,
+    ownedOnly: false,
+    reason: failedOwnership
+      ? `${action.ownership!.entity} record is owned by another user`
+      : undefined,
+  };
+}
+
+/**
+ * Checks if the caller has permission to execute the action.
+ *
+ * Evaluates the action's permission rules in order.
+ * First matching rule determines the result.
+ * Default: denied if no rules match (secure by default).
+ *
+ * "own" rules pass here without a record — use evaluatePermission to
+ * find out whether the result must be scoped to the caller's records.
+ */
+export function checkPermission(
+  action: ActionDefinition,
+  caller: Caller,
+  record?: RecordOwner
+): boolean {
+  return evaluatePermission(action, caller, record).allowed;
 }
 
 /**
  * Permission denied error.
  */
 export class PermissionError extends Error {
-  constructor(actionId: string, userId: string) {
+  constructor(actionId: string, userId: string, reason?: string) {
     super(
-      `Permission denied: user "${userId}" cannot execute action "${actionId}"`
+      `Permission denied: user "${userId}" cannot execute action "${actionId}"` +
+        (reason ? ` (${reason})` : "")
     );
     this.name = "PermissionError";
   }
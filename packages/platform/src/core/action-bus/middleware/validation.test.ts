@@ -9,10 +9,11 @@
  * This is the gatekeeper — if validation is wrong, bad data reaches the database.
  */
 
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import { z } from "zod";
-import { validateInput, ValidationError } from "./validation.js";
-import type { ActionDefinition } from "@metasaas/contracts";
+import { validateInput, validateEntityRules, validateUserFields, ValidationError } from "./validation.js";
+import { defineEntity } from "@metasaas/contracts";
+import type { ActionContext, ActionDefinition } from "@metasaas/contracts";
 
 /**
  * Factory: creates a minimal action with a given input schema for testing.
@@ -170,6 +171,79 @@ describe("validateInput — edge cases", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// validateEntityRules
+// ---------------------------------------------------------------------------
+
+describe("validateEntityRules", () => {
+  const entity = defineEntity({
+    name: "Booking",
+    pluralName: "Bookings",
+    description: "Test entity with cross-field rules",
+    fields: [
+      { name: "startDate", type: "date", required: true, description: "Start" },
+      { name: "endDate", type: "date", required: true, description: "End" },
+      { name: "note", type: "text", required: false, description: "Note" },
+    ],
+    rules: [{ type: "compare", field: "endDate", operator: "gt", otherField: "startDate" }],
+    ui: { icon: "calendar", listColumns: ["startDate"], searchFields: [], defaultSort: { field: "startDate", direction: "asc" } },
+  });
+
+  it("passes records that keep the rules", () => {
+    expect(() => validateEntityRules(entity, { startDate: "2026-01-01", endDate: "2026-01-02" })).not.toThrow();
+  });
+
+  it("throws a ValidationError with the broken rules as field errors", () => {
+    try {
+      validateEntityRules(entity, { startDate: "2026-01-02", endDate: "2026-01-01" }, { pathPrefix: "data." });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).fieldErrors).toEqual([
+        { field: "data.endDate", message: "endDate must be after startDate", code: "compare" },
+      ]);
+    }
+  });
+
+  it("skips rules that don't read a changed field", () => {
+    expect(() =>
+      validateEntityRules(entity, { startDate: "2026-01-02", endDate: "2026-01-01" }, { changedFields: ["note"] })
+    ).not.toThrow();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// validateUserFields
+// ---------------------------------------------------------------------------
+
+describe("validateUserFields", () => {
+  const entity = defineEntity({
+    name: "Ticket",
+    pluralName: "Tickets",
+    description: "Test entity with user fields",
+    fields: [
+      { name: "assignee", type: "user", required: false, description: "Assignee" },
+      { name: "reviewer", type: "user", required: false, description: "Reviewer" },
+    ],
+    ui: { icon: "ticket", listColumns: ["assignee"], searchFields: [], defaultSort: { field: "assignee", direction: "asc" } },
+  });
+  const workspaceMembers = vi.fn(async () => [{ userId: "ana", role: "member" }]);
+  const ctx = { caller: { userId: "me" }, db: { workspaceMembers } } as unknown as ActionContext;
+
+  it("accepts members, the caller and cleared fields without asking twice", async () => {
+    workspaceMembers.mockClear();
+    await validateUserFields(entity, { assignee: "ana", reviewer: "me" }, ctx);
+    await validateUserFields(entity, { assignee: null, reviewer: "me" }, ctx);
+    expect(workspaceMembers).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports users outside the workspace", async () => {
+    await expect(validateUserFields(entity, { reviewer: "bob" }, ctx, { pathPrefix: "data." })).rejects.toMatchObject({
+      fieldErrors: [{ field: "data.reviewer", message: '"bob" is not a member of this workspace', code: "not_a_member" }],
+    });
+  });
+});
+
 // ---------------------------------------------------------------------------
 // ValidationError class
 // ---------------------------------------------------------------------------
@@ -4,9 +4,16 @@
  * Validates action input against the action's Zod schema
  * BEFORE the action executes. If validation fails, the action
  * is never called and a structured error is returned.
+ *
+ * validateEntityRules() checks an entity's cross-field rules against a
+ * whole record; the generated create and update actions call it once the
+ * record is known (for updates, the stored record merged with the change).
+ * validateUserFields() checks that `user` fields name members of the
+ * caller's workspace, which takes a database read.
  */
 
-import type { ActionDefinition } from "@metasaas/contracts";
+import { checkEntityRules } from "@metasaas/contracts";
+import type { ActionContext, ActionDefinition, EntityDefinition } from "@metasaas/contracts";
 
 /**
  * Validates input against the action's inputSchema.
@@ -35,6 +42,62 @@ export function validateInput(
   return result.data;
 }
 
+/**
+ * Checks a record against the entity's `rules`.
+ * Throws a ValidationError listing every field that breaks one.
+ *
+ * @param options.changedFields - Only check rules that read one of these (partial updates)
+ * @param options.pathPrefix - Prefix for reported field paths, e.g. "data." for update input
+ */
+export function validateEntityRules(
+  entity: EntityDefinition,
+  record: Record<string, unknown>,
+  options: { changedFields?: string[]; pathPrefix?: string } = {}
+): void {
+  const errors = checkEntityRules(entity, record, options.changedFields);
+  if (errors.length === 0) return;
+
+  throw new ValidationError(
+    `Validation failed for ${entity.name}: ${errors.map((e) => e.message).join("; ")}`,
+    errors.map((e) => ({ ...e, field: `${options.pathPrefix ?? ""}${e.field}` }))
+  );
+}
+
+/**
+ * Checks that the `user` fields set in `data` name members of the caller's
+ * workspace. The caller always counts as a member, so records can be
+ * assigned to yourself outside any workspace. Throws a ValidationError
+ * listing every field that names someone else.
+ *
+ * @param options.pathPrefix - Prefix for reported field paths, e.g. "data." for update input
+ */
+export async function validateUserFields(
+  entity: EntityDefinition,
+  data: Record<string, unknown>,
+  ctx: Pick<ActionContext, "caller" | "db">,
+  options: { pathPrefix?: string } = {}
+): Promise<void> {
+  const assigned = entity.fields.filter(
+    (f) => f.type === "user" && typeof data[f.name] === "string" && data[f.name] !== ctx.caller.userId
+  );
+  if (assigned.length === 0) return;
+
+  const members = new Set((await ctx.db.workspaceMembers()).map((m) => m.userId));
+  const errors = assigned
+    .filter((f) => !members.has(data[f.name] as string))
+    .map((f) => ({
+      field: `${options.pathPrefix ?? ""}${f.name}`,
+      message: `"${data[f.name]}" is not a member of this workspace`,
+      code: "not_a_member",
+    }));
+  if (errors.length === 0) return;
+
+  throw new ValidationError(
+    `Validation failed for ${entity.name}: ${errors.map((e) => e.message).join("; ")}`,
+    errors
+  );
+}
+
 /**
  * Structured validation error.
  * Contains per-field error details for form rendering.
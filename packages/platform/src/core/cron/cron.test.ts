@@ -0,0 +1,62 @@
+/**
+ * Cron Expressions — Test Suite
+ *
+ * Tests field parsing (ranges, steps, lists, nicknames), rejection of
+ * malformed expressions, and next-run computation in UTC.
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseCron, nextCronRun, isValidCron } from "./index.js";
+
+const at = (iso: string) => new Date(iso);
+
+describe("parseCron", () => {
+  it("expands ranges, steps and lists", () => {
+    const cron = parseCron("*/15 9-17/4 1,15 * 1-5");
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([9, 13, 17]);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect(cron.months.size).toBe(12);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("treats 7 as Sunday and accepts nicknames", () => {
+    expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+    expect(parseCron("@daily")).toMatchObject({ expression: "@daily" });
+    expect([...parseCron("@hourly").minutes]).toEqual([0]);
+  });
+
+  it("rejects malformed expressions with the offending field", () => {
+    expect(() => parseCron("* * *")).toThrow(/expected 5 fields/);
+    expect(() => parseCron("60 * * * *")).toThrow(/minute must be within 0–59/);
+    expect(() => parseCron("* * * 0 *")).toThrow(/month must be within 1–12/);
+    expect(() => parseCron("*/0 * * * *")).toThrow(/minute has an invalid step/);
+    expect(() => parseCron("* * * * mon")).toThrow(/day of week has an invalid value/);
+    expect(isValidCron("5 4 * * *")).toBe(true);
+    expect(isValidCron("every day")).toBe(false);
+  });
+});
+
+describe("nextCronRun", () => {
+  it("returns the next matching minute strictly after the given time", () => {
+    expect(nextCronRun("*/15 * * * *", at("2026-03-10T10:07:30Z"))).toEqual(at("2026-03-10T10:15:00Z"));
+    expect(nextCronRun("*/15 * * * *", at("2026-03-10T10:15:00Z"))).toEqual(at("2026-03-10T10:30:00Z"));
+  });
+
+  it("rolls over hours, days, months and years", () => {
+    expect(nextCronRun("30 6 * * *", at("2026-03-10T07:00:00Z"))).toEqual(at("2026-03-11T06:30:00Z"));
+    expect(nextCronRun("0 0 1 * *", at("2026-03-10T00:00:00Z"))).toEqual(at("2026-04-01T00:00:00Z"));
+    expect(nextCronRun("@yearly", at("2026-12-31T23:59:00Z"))).toEqual(at("2027-01-01T00:00:00Z"));
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // The 13th or any Friday — 2026-03-13 is a Friday, 2026-03-06 too
+    expect(nextCronRun("0 12 13 * 5", at("2026-03-01T00:00:00Z"))).toEqual(at("2026-03-06T12:00:00Z"));
+    // Weekdays only
+    expect(nextCronRun("0 9 * * 1-5", at("2026-03-07T10:00:00Z"))).toEqual(at("2026-03-09T09:00:00Z"));
+  });
+
+  it("throws for dates that never occur", () => {
+    expect(() => nextCronRun("0 0 31 2 *", at("2026-01-01T00:00:00Z"))).toThrow(/never fires/);
+  });
+});
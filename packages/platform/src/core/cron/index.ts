@@ -0,0 +1,197 @@
+/**
+ * Cron Expressions
+ *
+ * Parses standard 5-field cron expressions and computes the next time
+ * they fire. Used by everything in the platform that runs on a schedule.
+ *
+ *   ┌──────── minute        0–59
+ *   │ ┌────── hour          0–23
+ *   │ │ ┌──── day of month  1–31
+ *   │ │ │ ┌── month         1–12
+ *   │ │ │ │ ┌ day of week   0–7 (0 and 7 are Sunday)
+ *   * * * * *
+ *
+ * Each field accepts `*`, values, ranges (`1-5`), steps (`*\/15`, `0-30/10`)
+ * and comma-separated lists. The nicknames @hourly, @daily, @weekly,
+ * @monthly and @yearly are also accepted. As in classic cron, when both
+ * day of month and day of week are restricted, a day matching either fires.
+ *
+ * All times are UTC.
+ *
+ * Usage:
+ *   const schedule = parseCron("0 6 * * 1");       // Mondays at 06:00
+ *   const next = nextCronRun(schedule, new Date());
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A parsed cron expression */
+export interface CronSchedule {
+  /** The expression as written */
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0–6, Sunday = 0 */
+  daysOfWeek: Set<number>;
+  /** Whether the day fields were restricted (not `*`) — see the OR rule above */
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const NICKNAMES: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+] as const;
+
+/** Stop searching for a next run after this many years (e.g. "0 0 31 2 *") */
+const MAX_SEARCH_YEARS = 5;
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Parses a cron expression.
+ * Throws an Error naming the offending field when the expression is invalid.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const expanded = NICKNAMES[trimmed.toLowerCase()] ?? trimmed;
+  const parts = expanded.split(/\s+/);
+
+  if (parts.length !== 5) {
+    throw new Error(
+      `Invalid cron expression "${expression}": expected 5 fields (minute hour day month weekday)`
+    );
+  }
+
+  const sets = parts.map((part, i) => parseField(part, FIELDS[i], expression));
+  // 7 is an alias for Sunday
+  if (sets[4].delete(7)) sets[4].add(0);
+
+  return {
+    expression: trimmed,
+    minutes: sets[0],
+    hours: sets[1],
+    daysOfMonth: sets[2],
+    months: sets[3],
+    daysOfWeek: sets[4],
+    dayOfMonthRestricted: parts[2] !== "*",
+    dayOfWeekRestricted: parts[4] !== "*",
+  };
+}
+
+/** Whether an expression parses */
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseField(
+  part: string,
+  field: (typeof FIELDS)[number],
+  expression: string
+): Set<number> {
+  const values = new Set<number>();
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid cron expression "${expression}": ${field.name} ${reason}`);
+  };
+
+  for (const item of part.split(",")) {
+    const [range, stepText] = item.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) fail(`has an invalid step "${item}"`);
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = field.min;
+      end = field.max;
+    } else {
+      const bounds = range.split("-");
+      if (bounds.length > 2 || bounds.some((b) => !/^\d+$/.test(b))) {
+        fail(`has an invalid value "${item}"`);
+      }
+      start = Number(bounds[0]);
+      // "5/15" means from 5 to the end in steps of 15
+      end = bounds.length === 2 ? Number(bounds[1]) : stepText !== undefined ? field.max : start;
+    }
+
+    if (start < field.min || end > field.max || start > end) {
+      fail(`must be within ${field.min}–${field.max}, got "${item}"`);
+    }
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+
+  return values;
+}
+
+// ---------------------------------------------------------------------------
+// Next run
+// ---------------------------------------------------------------------------
+
+/**
+ * The first time strictly after `after` (to the minute) at which the
+ * schedule fires. Throws if it never fires within five years — only
+ * possible for impossible dates such as February 31st.
+ */
+export function nextCronRun(schedule: CronSchedule | string, after: Date): Date {
+  const cron = typeof schedule === "string" ? parseCron(schedule) : schedule;
+
+  const t = new Date(after.getTime());
+  t.setUTCSeconds(0, 0);
+  t.setUTCMinutes(t.getUTCMinutes() + 1);
+  const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+  while (t.getTime() <= limit) {
+    if (!cron.months.has(t.getUTCMonth() + 1)) {
+      t.setUTCMonth(t.getUTCMonth() + 1, 1);
+      t.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, t)) {
+      t.setUTCDate(t.getUTCDate() + 1);
+      t.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(t.getUTCHours())) {
+      t.setUTCHours(t.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(t.getUTCMinutes())) {
+      t.setUTCMinutes(t.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return t;
+  }
+
+  throw new Error(`Cron expression "${cron.expression}" never fires`);
+}
+
+function matchesDay(cron: CronSchedule, t: Date): boolean {
+  const dom = cron.daysOfMonth.has(t.getUTCDate());
+  const dow = cron.daysOfWeek.has(t.getUTCDay());
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) return dom || dow;
+  return dom && dow;
+}
@@ -7,12 +7,51 @@
  *
  * This is the concrete implementation of the abstract interface.
  * Actions never import this directly — they receive it via ActionContext.
+ *
+ * Fields marked `sensitive` are encrypted on write and decrypted on read
+ * (see core/encryption). Because ciphertext is randomized, sensitive
+ * fields are skipped by search — they can't be matched with ILIKE.
+ *
+ * Entities with `softDelete` have a `deleted_at` column: delete sets it,
+ * reads skip rows where it is set, and restore/purge operate on the trash.
+ *
+ * `where` filters accept operators and OR groups (see filter.ts); findMany
+ * pages by offset or by keyset cursor (see cursor.ts).
+ *
+ * `transaction` exposes the running transaction through AsyncLocalStorage
+ * (getActiveTransaction), so work started inside it — like events emitted
+ * to the outbox — can join it and run callbacks once it commits.
  */
 
-import { eq, sql, and, or, ilike, type SQL } from "drizzle-orm";
+import { AsyncLocalStorage } from "async_hooks";
+import { eq, ne, sql, and, or, ilike, isNull, isNotNull, getTableColumns, type SQL } from "drizzle-orm";
 import type { DatabaseClient } from "@metasaas/contracts";
 import { getDatabase } from "./connection.js";
-import { getTableSchema, toColumnName, fromColumnName } from "./schema-builder.js";
+import { getTableSchema, getJunctionSchema, toColumnName, fromColumnName } from "./schema-builder.js";
+import { getToManyRelationship, type ToManyRelationship } from "./relationships.js";
+import { whereConditions } from "./filter.js";
+import { decodeCursor, cursorCondition, scanDirection, ID_ORDER } from "./cursor.js";
+import { getEntity } from "../entity-manager/entity-registry.js";
+import {
+  encryptRecord,
+  decryptRecord,
+  getSensitiveFields,
+} from "../encryption/index.js";
+
+/** The transaction the current code runs in (see getActiveTransaction) */
+export interface ActiveTransaction {
+  /** The Drizzle transaction — queries on it commit or roll back with it */
+  db: any;
+  /** Runs fn after the outermost transaction commits (never on rollback) */
+  afterCommit(fn: () => void): void;
+}
+
+const transactionStorage = new AsyncLocalStorage<ActiveTransaction>();
+
+/** The database transaction the current code runs in, if any */
+export function getActiveTransaction(): ActiveTransaction | undefined {
+  return transactionStorage.getStore();
+}
 
 /**
  * Converts a database row from snake_case keys to camelCase keys.
@@ -63,6 +102,98 @@ function coerceValues(
   return coerced;
 }
 
+/**
+ * Encrypts the entity's sensitive fields in a camelCase record before write.
+ * Entities that aren't registered (or have no sensitive fields) pass through.
+ */
+function encryptForWrite(
+  entityName: string,
+  data: Record<string, unknown>
+): Record<string, unknown> {
+  const entity = getEntity(entityName);
+  return entity ? encryptRecord(entity, data) : data;
+}
+
+/**
+ * Maps a database row to camelCase and decrypts the entity's sensitive fields.
+ */
+function readRow(
+  entityName: string,
+  row: Record<string, unknown>
+): Record<string, unknown> {
+  const mapped = mapRowToCamelCase(row);
+  const entity = getEntity(entityName);
+  return entity ? decryptRecord(entity, mapped) : mapped;
+}
+
+/**
+ * Returns the search fields that can actually be searched — encrypted
+ * (sensitive) fields are excluded because ILIKE can't see through ciphertext.
+ */
+function searchableFields(entityName: string, fields: string[]): string[] {
+  const entity = getEntity(entityName);
+  if (!entity) return fields;
+  const sensitive = new Set(getSensitiveFields(entity));
+  return fields.filter((f) => !sensitive.has(f));
+}
+
+/**
+ * The text search matches a column against: list columns (multi_enum,
+ * tags) are searched as their items joined by spaces, JSON as its text.
+ */
+function searchableText(column: any): any {
+  if (column.columnType === "PgArray") return sql`array_to_string(${column}, ' ')`;
+  if (column.columnType === "PgJsonb") return sql`${column}::text`;
+  return column;
+}
+
+/**
+ * Soft-delete visibility conditions for a table: live rows by default,
+ * tombstoned rows when `trashed` is set. Tables without `deleted_at`
+ * have no trash, so `trashed` matches nothing there.
+ */
+function visible(table: Record<string, any>, trashed?: boolean): SQL[] {
+  if (!table.deleted_at) return trashed ? [sql`false`] : [];
+  return [trashed ? isNotNull(table.deleted_at) : isNull(table.deleted_at)];
+}
+
+/** Returns the table of a soft-delete entity, or throws for other entities */
+function softDeleteTable(entityName: string): Record<string, any> {
+  const table = getTableSchema(entityName);
+  if (!table) throw new Error(`Unknown entity: ${entityName}`);
+  if (!table.deleted_at) {
+    throw new Error(`Entity "${entityName}" does not use soft delete`);
+  }
+  return table;
+}
+
+/**
+ * Resolves a to-many relationship on a registered entity.
+ * Throws for unknown entities or relations — both are programming errors.
+ */
+function resolveRelation(entityName: string, relation: string): ToManyRelationship {
+  const entity = getEntity(entityName);
+  if (!entity) throw new Error(`Unknown entity: ${entityName}`);
+  return getToManyRelationship(entity, relation);
+}
+
+/**
+ * Returns the related table of a hasMany relationship, verifying that it
+ * actually has the foreign key column. Without this check a missing column
+ * would silently drop the filter and return every row.
+ */
+function hasManyTable(resolved: ToManyRelationship): Record<string, any> {
+  const table = getTableSchema(resolved.rel.entity);
+  if (!table) throw new Error(`Unknown entity: ${resolved.rel.entity}`);
+  if (!table[resolved.foreignKey!]) {
+    throw new Error(
+      `hasMany relationship to "${resolved.rel.entity}" needs a "${resolved.foreignKey}" column — ` +
+      `declare a belongsTo on ${resolved.rel.entity}`
+    );
+  }
+  return table;
+}
+
 /**
  * Builds a DatabaseClient using the provided Drizzle instance.
  * Extracted so both the main client and transactional client share logic.
@@ -77,25 +208,21 @@ function buildClient(tenantId: string, getDb: () => any): DatabaseClient {
       let query = db.select().from(table).$dynamic();
 
       // Apply WHERE filters (always include tenant_id for isolation)
-      const conditions: SQL[] = [eq(table.tenant_id, tenantId)];
+      const conditions: SQL[] = [
+        eq(table.tenant_id, tenantId),
+        ...visible(table, options?.trashed),
+      ];
 
-      if (options?.where) {
-        for (const [key, value] of Object.entries(options.where)) {
-          const colName = toColumnName(key);
-          if (table[colName]) {
-            conditions.push(eq(table[colName], value as any));
-          }
-        }
-      }
+      conditions.push(...whereConditions(table, options?.where));
 
       // ILIKE search across multiple fields (OR-combined)
       if (options?.search && options.search.term.trim()) {
         const pattern = `%${options.search.term.trim()}%`;
         const searchConditions: SQL[] = [];
-        for (const field of options.search.fields) {
+        for (const field of searchableFields(entityName, options.search.fields)) {
           const colName = toColumnName(field);
           if (table[colName]) {
-            searchConditions.push(ilike(table[colName], pattern));
+            searchConditions.push(ilike(searchableText(table[colName]), pattern));
           }
         }
         if (searchConditions.length > 0) {
@@ -103,31 +230,38 @@ function buildClient(tenantId: string, getDb: () => any): DatabaseClient {
         }
       }
 
+      // Keyset cursor: only rows after the cursor row in (sort field, id) order
+      const orderBy = options?.orderBy && table[toColumnName(options.orderBy.field)]
+        ? options.orderBy
+        : options?.cursor ? ID_ORDER : undefined;
+      const cursor = options?.cursor && orderBy ? decodeCursor(options.cursor, orderBy) : null;
+      if (options?.cursor && !cursor) {
+        throw new Error("Invalid cursor for this sort order");
+      }
+      if (cursor) conditions.push(cursorCondition(table, cursor));
+
       query = query.where(and(...conditions));
 
-      // Apply ORDER BY
-      if (options?.orderBy) {
-        const colName = toColumnName(options.orderBy.field);
-        if (table[colName]) {
-          const col = table[colName];
-          query = query.orderBy(
-            options.orderBy.direction === "desc"
-              ? sql`${col} desc`
-              : sql`${col} asc`
-          );
-        }
+      // Apply ORDER BY — id breaks ties so pages are stable. A backward
+      // cursor reads in reverse and the page is flipped back below.
+      if (orderBy) {
+        const col = table[toColumnName(orderBy.field)];
+        const direction = scanDirection(orderBy, cursor);
+        const order = (c: unknown) => (direction === "desc" ? sql`${c} desc` : sql`${c} asc`);
+        query = query.orderBy(order(col), ...(col === table.id ? [] : [order(table.id)]));
       }
 
-      // Apply LIMIT and OFFSET
+      // Apply LIMIT and OFFSET (offset is ignored when paging by cursor)
       if (options?.limit) {
         query = query.limit(options.limit);
       }
-      if (options?.offset) {
+      if (options?.offset && !cursor) {
         query = query.offset(options.offset);
       }
 
-      const rows = await query;
-      return (rows as Record<string, unknown>[]).map(mapRowToCamelCase);
+      const rows = (await query) as Record<string, unknown>[];
+      if (cursor?.backward) rows.reverse();
+      return rows.map((row) => readRow(entityName, row));
     },
 
     async findById(entityName, id) {
@@ -138,10 +272,10 @@ function buildClient(tenantId: string, getDb: () => any): DatabaseClient {
       const rows = await db
         .select()
         .from(table)
-        .where(and(eq(table.id, id), eq(table.tenant_id, tenantId)))
+        .where(and(eq(table.id, id), eq(table.tenant_id, tenantId), ...visible(table)))
         .limit(1);
 
-      return rows[0] ? mapRowToCamelCase(rows[0] as Record<string, unknown>) : null;
+      return rows[0] ? readRow(entityName, rows[0] as Record<string, unknown>) : null;
     },
 
     async create(entityName, data) {
@@ -153,14 +287,14 @@ function buildClient(tenantId: string, getDb: () => any): DatabaseClient {
       const mapped: Record<string, unknown> = {
         tenant_id: tenantId,
       };
-      for (const [key, value] of Object.entries(data)) {
+      for (const [key, value] of Object.entries(encryptForWrite(entityName, data))) {
         mapped[toColumnName(key)] = value;
       }
 
       // Coerce string dates to Date objects for Drizzle timestamp columns
       const coerced = coerceValues(table, mapped);
       const rows = await db.insert(table).values(coerced).returning();
-      return mapRowToCamelCase(rows[0] as Record<string, unknown>);
+      return readRow(entityName, rows[0] as Record<string, unknown>);
     },
 
     async update(entityName, id, data) {
@@ -171,7 +305,7 @@ function buildClient(tenantId: string, getDb: () => any): DatabaseClient {
       const mapped: Record<string, unknown> = {
         updated_at: new Date(),
       };
-      for (const [key, value] of Object.entries(data)) {
+      for (const [key, value] of Object.entries(encryptForWrite(entityName, data))) {
         mapped[toColumnName(key)] = value;
       }
 
@@ -180,10 +314,10 @@ function buildClient(tenantId: string, getDb: () => any): DatabaseClient {
       const rows = await db
         .update(table)
         .set(coerced)
-        .where(and(eq(table.id, id), eq(table.tenant_id, tenantId)))
+        .where(and(eq(table.id, id), eq(table.tenant_id, tenantId), ...visible(table)))
         .returning();
 
-      return mapRowToCamelCase(rows[0] as Record<string, unknown>);
+      return readRow(entityName, rows[0] as Record<string, unknown>);
     },
 
     async delete(entityName, id) {
@@ -191,6 +325,16 @@ function buildClient(tenantId: string, getDb: () => any): DatabaseClient {
       const table = getTableSchema(entityName);
       if (!table) throw new Error(`Unknown entity: ${entityName}`);
 
+      // Soft delete: tombstone the live row instead of removing it
+      if (table.deleted_at) {
+        const rows = await db
+          .update(table)
+          .set({ deleted_at: new Date() })
+          .where(and(eq(table.id, id), eq(table.tenant_id, tenantId), ...visible(table)))
+          .returning();
+        return rows.length > 0;
+      }
+
       const rows = await db
         .delete(table)
         .where(and(eq(table.id, id), eq(table.tenant_id, tenantId)))
@@ -199,7 +343,32 @@ function buildClient(tenantId: string, getDb: () => any): DatabaseClient {
       return rows.length > 0;
     },
 
-    async count(entityName, where, search) {
+    async restore(entityName, id) {
+      const db = getDb();
+      const table = softDeleteTable(entityName);
+
+      const rows = await db
+        .update(table)
+        .set({ deleted_at: null, updated_at: new Date() })
+        .where(and(eq(table.id, id), eq(table.tenant_id, tenantId), ...visible(table, true)))
+        .returning();
+
+      return rows[0] ? readRow(entityName, rows[0] as Record<string, unknown>) : null;
+    },
+
+    async purge(entityName, id) {
+      const db = getDb();
+      const table = softDeleteTable(entityName);
+
+      const rows = await db
+        .delete(table)
+        .where(and(eq(table.id, id), eq(table.tenant_id, tenantId), ...visible(table, true)))
+        .returning();
+
+      return rows.length > 0;
+    },
+
+    async count(entityName, where, search, options) {
       const db = getDb();
       const table = getTableSchema(entityName);
       if (!table) throw new Error(`Unknown entity: ${entityName}`);
@@ -210,24 +379,20 @@ function buildClient(tenantId: string, getDb: () => any): DatabaseClient {
         .$dynamic();
 
       // Always include tenant_id for isolation
-      const conditions: SQL[] = [eq(table.tenant_id, tenantId)];
+      const conditions: SQL[] = [
+        eq(table.tenant_id, tenantId),
+        ...visible(table, options?.trashed),
+      ];
 
-      if (where) {
-        for (const [key, value] of Object.entries(where)) {
-          const colName = toColumnName(key);
-          if (table[colName]) {
-            conditions.push(eq(table[colName], value as any));
-          }
-        }
-      }
+      conditions.push(...whereConditions(table, where));
 
       if (search && search.term.trim()) {
         const pattern = `%${search.term.trim()}%`;
         const searchConditions: SQL[] = [];
-        for (const field of search.fields) {
+        for (const field of searchableFields(entityName, search.fields)) {
           const colName = toColumnName(field);
           if (table[colName]) {
-            searchConditions.push(ilike(table[colName], pattern));
+            searchConditions.push(ilike(searchableText(table[colName]), pattern));
           }
         }
         if (searchConditions.length > 0) {
@@ -250,16 +415,11 @@ function buildClient(tenantId: string, getDb: () => any): DatabaseClient {
       if (!table[colName]) throw new Error(`Unknown field: ${field}`);
 
       const col = table[colName];
-      const conditions: SQL[] = [eq(table.tenant_id, tenantId)];
-
-      if (where) {
-        for (const [key, value] of Object.entries(where)) {
-          const cn = toColumnName(key);
-          if (table[cn]) {
-            conditions.push(eq(table[cn], value as any));
-          }
-        }
-      }
+      const conditions: SQL[] = [
+        eq(table.tenant_id, tenantId),
+        ...visible(table),
+        ...whereConditions(table, where),
+      ];
 
       const rows = await db
         .select({
@@ -279,12 +439,248 @@ function buildClient(tenantId: string, getDb: () => any): DatabaseClient {
       return result;
     },
 
+    async aggregate(entityName, fn, field, where) {
+      if (fn === "count") return client.count(entityName, where);
+
+      const db = getDb();
+      const table = getTableSchema(entityName);
+      if (!table) throw new Error(`Unknown entity: ${entityName}`);
+
+      const col = field ? table[toColumnName(field)] : undefined;
+      if (!col) throw new Error(`Unknown field: ${field}`);
+
+      const aggregates = {
+        sum: sql`sum(${col})`,
+        min: sql`min(${col})`,
+        max: sql`max(${col})`,
+        avg: sql`avg(${col})`,
+      };
+      const rows = await db
+        .select({ value: aggregates[fn] })
+        .from(table)
+        .where(and(eq(table.tenant_id, tenantId), ...visible(table), ...whereConditions(table, where)));
+
+      // NUMERIC aggregates come back as strings
+      const value = (rows as { value: unknown }[])[0]?.value;
+      if (value == null) return fn === "sum" ? 0 : null;
+      return Number(value);
+    },
+
+    async distinctValues(entityName, field, options) {
+      const db = getDb();
+      const table = getTableSchema(entityName);
+      if (!table) throw new Error(`Unknown entity: ${entityName}`);
+
+      const col = table[toColumnName(field)];
+      if (!col) throw new Error(`Unknown field: ${field}`);
+
+      // Each tag of a list counts on its own
+      const value = col.columnType === "PgArray" ? sql`unnest(${col})` : col;
+      const values = db
+        .select({ value: sql<string>`${value}`.as("value") })
+        .from(table)
+        .where(and(eq(table.tenant_id, tenantId), ...visible(table), ...whereConditions(table, options?.where)))
+        .as("values");
+
+      const search = options?.search?.trim();
+      const rows = await db
+        .select({ value: values.value, uses: sql<number>`count(*)` })
+        .from(values)
+        .where(and(
+          isNotNull(values.value),
+          ...(search ? [ilike(values.value, `%${search}%`)] : [])
+        ))
+        .groupBy(values.value)
+        .orderBy(sql`count(*) desc`, values.value)
+        .limit(options?.limit ?? 20);
+
+      return (rows as { value: string }[]).map((r) => r.value);
+    },
+
+    async workspaceMembers() {
+      const db = getDb();
+      const rows = await db.execute(
+        sql`SELECT user_id, role FROM workspace_members WHERE workspace_id::text = ${tenantId} ORDER BY user_id`
+      );
+      return (rows as { user_id: string; role: string }[]).map((r) => ({ userId: r.user_id, role: r.role }));
+    },
+
+    async findRelated(entityName, relation, id, options) {
+      const resolved = resolveRelation(entityName, relation);
+      const relatedName = resolved.rel.entity;
+
+      // hasMany — the related table holds the foreign key
+      if (resolved.foreignKey) {
+        hasManyTable(resolved);
+        return client.findMany(relatedName, {
+          where: { ...options?.where, [fromColumnName(resolved.foreignKey)]: id },
+          orderBy: options?.orderBy,
+          limit: options?.limit,
+          offset: options?.offset,
+        });
+      }
+
+      // manyToMany — join through the junction table
+      const db = getDb();
+      const related = getTableSchema(relatedName);
+      if (!related) throw new Error(`Unknown entity: ${relatedName}`);
+      const j = resolved.junction!;
+      const junction = getJunctionSchema(j);
+
+      let query = db
+        .select(getTableColumns(related))
+        .from(related)
+        .innerJoin(junction, eq(junction[j.relatedColumn], related.id))
+        .where(
+          and(
+            eq(junction.tenant_id, tenantId),
+            eq(junction[j.ownColumn], id),
+            eq(related.tenant_id, tenantId),
+            ...visible(related),
+            ...whereConditions(related, options?.where)
+          )
+        )
+        .$dynamic();
+
+      if (options?.orderBy) {
+        const col = related[toColumnName(options.orderBy.field)];
+        if (col) {
+          query = query.orderBy(
+            options.orderBy.direction === "desc" ? sql`${col} desc` : sql`${col} asc`
+          );
+        }
+      }
+      if (options?.limit) {
+        query = query.limit(options.limit);
+      }
+      if (options?.offset) {
+        query = query.offset(options.offset);
+      }
+
+      const rows = await query;
+      return (rows as Record<string, unknown>[]).map((row) => readRow(relatedName, row));
+    },
+
+    async countRelated(entityName, relation, id, where) {
+      const resolved = resolveRelation(entityName, relation);
+
+      if (resolved.foreignKey) {
+        hasManyTable(resolved);
+        return client.count(resolved.rel.entity, {
+          ...where,
+          [fromColumnName(resolved.foreignKey)]: id,
+        });
+      }
+
+      const db = getDb();
+      const related = getTableSchema(resolved.rel.entity);
+      if (!related) throw new Error(`Unknown entity: ${resolved.rel.entity}`);
+      const j = resolved.junction!;
+      const junction = getJunctionSchema(j);
+
+      // Join the related table so soft-deleted records aren't counted
+      const rows = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(junction)
+        .innerJoin(related, eq(junction[j.relatedColumn], related.id))
+        .where(
+          and(
+            eq(junction.tenant_id, tenantId),
+            eq(junction[j.ownColumn], id),
+            ...visible(related),
+            ...whereConditions(related, where)
+          )
+        );
+      return rows[0]?.count ?? 0;
+    },
+
+    async link(entityName, relation, id, relatedId) {
+      const db = getDb();
+      const resolved = resolveRelation(entityName, relation);
+
+      if (resolved.foreignKey) {
+        const table = hasManyTable(resolved);
+        const fk = table[resolved.foreignKey];
+        const rows = await db
+          .update(table)
+          .set({ [resolved.foreignKey]: id, updated_at: new Date() })
+          .where(
+            and(
+              eq(table.id, relatedId),
+              eq(table.tenant_id, tenantId),
+              or(isNull(fk), ne(fk, id))
+            )
+          )
+          .returning();
+        return rows.length > 0;
+      }
+
+      const j = resolved.junction!;
+      const junction = getJunctionSchema(j);
+      const rows = await db
+        .insert(junction)
+        .values({
+          tenant_id: tenantId,
+          [j.ownColumn]: id,
+          [j.relatedColumn]: relatedId,
+        })
+        .onConflictDoNothing()
+        .returning();
+      return rows.length > 0;
+    },
+
+    async unlink(entityName, relation, id, relatedId) {
+      const db = getDb();
+      const resolved = resolveRelation(entityName, relation);
+
+      if (resolved.foreignKey) {
+        const table = hasManyTable(resolved);
+        const rows = await db
+          .update(table)
+          .set({ [resolved.foreignKey]: null, updated_at: new Date() })
+          .where(
+            and(
+              eq(table.id, relatedId),
+              eq(table.tenant_id, tenantId),
+              eq(table[resolved.foreignKey], id)
+            )
+          )
+          .returning();
+        return rows.length > 0;
+      }
+
+      const j = resolved.junction!;
+      const junction = getJunctionSchema(j);
+      const rows = await db
+        .delete(junction)
+        .where(
+          and(
+            eq(junction.tenant_id, tenantId),
+            eq(junction[j.ownColumn], id),
+            eq(junction[j.relatedColumn], relatedId)
+          )
+        )
+        .returning();
+      return rows.length > 0;
+    },
+
     async transaction<T>(fn: (tx: DatabaseClient) => Promise<T>): Promise<T> {
       const db = getDb();
-      return db.transaction(async (txDb: any) => {
+      // Nested transactions (savepoints) defer their callbacks to the outermost commit
+      const outer = transactionStorage.getStore();
+      const callbacks: Array<() => void> = [];
+
+      const result = await db.transaction(async (txDb: any) => {
         const txClient = buildClient(tenantId, () => txDb);
-        return fn(txClient);
+        const active: ActiveTransaction = {
+          db: txDb,
+          afterCommit: outer ? outer.afterCommit : (cb) => callbacks.push(cb),
+        };
+        return transactionStorage.run(active, () => fn(txClient));
       });
+
+      for (const cb of callbacks) cb();
+      return result;
     },
   };
 
@@ -0,0 +1,106 @@
+/**
+ * Entity Constraints — Test Suite
+ *
+ * Validates how declared constraints become table constraints — tenant
+ * scoped unique keys and check expressions limited to a safe subset — and
+ * how a database error raised by one maps back to a ConflictError.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { defineEntity, type EntityDefinition } from "@metasaas/contracts";
+import { entityConstraints, checkExpressionSQL, conflictFromDatabaseError, ConflictError } from "./constraints.js";
+import { registerEntity, clearEntityRegistry } from "../entity-manager/entity-registry.js";
+
+function createBooking(overrides: Partial<EntityDefinition> = {}): EntityDefinition {
+  return defineEntity({
+    name: "Booking",
+    pluralName: "Bookings",
+    description: "A room booking",
+    fields: [
+      { name: "room", type: "text", required: true, description: "Room" },
+      { name: "startDate", type: "date", required: true, description: "Start" },
+      { name: "endDate", type: "date", required: true, description: "End" },
+      { name: "guests", type: "number", required: false, description: "Guests" },
+    ],
+    constraints: [
+      { type: "unique", fields: ["room", "startDate"] },
+      { type: "check", fields: ["startDate", "endDate"], expression: "endDate >= startDate" },
+      { type: "check", fields: ["guests"], expression: "guests IS NULL OR guests BETWEEN 1 AND 12", message: "1 to 12 guests" },
+    ],
+    indexes: [{ fields: ["room"], unique: true, where: { guests: null } }],
+    ui: { icon: "bed", listColumns: ["room"], searchFields: [], defaultSort: { field: "startDate", direction: "asc" } },
+    ...overrides,
+  });
+}
+
+/** What postgres.js throws when a write breaks a constraint */
+function pgError(code: string, constraint: string, table = "bookings") {
+  return Object.assign(new Error("violates constraint"), { code, table_name: table, constraint_name: constraint });
+}
+
+describe("entityConstraints", () => {
+  it("builds tenant-scoped unique keys and check constraints over columns", () => {
+    expect(entityConstraints(createBooking()).map(({ name, definition }) => [name, definition])).toEqual([
+      ["bookings_room_start_date_key", "UNIQUE (tenant_id, room, start_date)"],
+      ["bookings_start_date_end_date_check", "CHECK (end_date >= start_date)"],
+      ["bookings_guests_check", "CHECK (guests IS NULL OR guests BETWEEN 1 AND 12)"],
+    ]);
+  });
+
+  it("numbers constraints that would share a name", () => {
+    const entity = createBooking({
+      constraints: [
+        { type: "check", fields: ["guests"], expression: "guests > 0" },
+        { type: "check", fields: ["guests"], expression: "guests < 13" },
+      ],
+    });
+    expect(entityConstraints(entity).map((c) => c.name)).toEqual(["bookings_guests_check", "bookings_guests_check1"]);
+  });
+});
+
+describe("checkExpressionSQL", () => {
+  it("accepts comparisons, functions and literals over the constraint's fields", () => {
+    expect(checkExpressionSQL("length(trim(firstName)) > 0 AND status != 'it''s'", ["firstName", "status"])).toBe(
+      "length(trim(first_name)) > 0 AND status <> 'it''s'"
+    );
+    expect(checkExpressionSQL("lower(code) in ('a', 'b')", ["code"])).toBe("lower(code) IN ('a', 'b')");
+  });
+
+  it("rejects anything else", () => {
+    const reject = (expression: string) => () => checkExpressionSQL(expression, ["amount"]);
+    expect(reject("amount > 0; DROP TABLE deals")).toThrow('Unexpected ";');
+    expect(reject("amount > (SELECT max(amount) FROM deals)")).toThrow('"SELECT" is not one of the constraint\'s fields');
+    expect(reject("discount < amount")).toThrow('"discount" is not one of');
+    expect(reject("pg_sleep(10) IS NULL")).toThrow('"pg_sleep" is not one of');
+    expect(reject("(amount > 0")).toThrow('Unbalanced "("');
+    expect(reject("amount > 'open")).toThrow("Unexpected");
+    expect(reject("  ")).toThrow("needs an expression");
+  });
+});
+
+describe("conflictFromDatabaseError", () => {
+  beforeEach(() => {
+    clearEntityRegistry();
+    registerEntity(createBooking());
+  });
+
+  it("names the fields of the broken constraint or unique index", () => {
+    const unique = conflictFromDatabaseError(pgError("23505", "bookings_room_start_date_key"));
+    expect(unique).toBeInstanceOf(ConflictError);
+    expect(unique?.message).toBe("Another Booking already has this room and startDate");
+    expect(unique?.fields).toEqual(["room", "startDate"]);
+
+    const check = conflictFromDatabaseError(pgError("23514", "bookings_guests_check"));
+    expect(check?.fieldErrors).toEqual([{ field: "guests", message: "1 to 12 guests", code: "conflict" }]);
+
+    const index = conflictFromDatabaseError(pgError("23505", "uq_bookings_room_where_guests"));
+    expect(index?.fields).toEqual(["room"]);
+  });
+
+  it("ignores other errors and constraints it doesn't know", () => {
+    expect(conflictFromDatabaseError(new Error("connection lost"))).toBeNull();
+    expect(conflictFromDatabaseError(pgError("23503", "bookings_room_start_date_key"))).toBeNull();
+    expect(conflictFromDatabaseError(pgError("23505", "bookings_pkey"))).toBeNull();
+    expect(conflictFromDatabaseError(pgError("23505", "tickets_code_key", "tickets"))).toBeNull();
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Entity Constraints
+ *
+ * Turns an entity's `constraints` into table constraints, and a database
+ * error raised by one back into a ConflictError naming its fields.
+ *
+ *   { type: "unique", fields: ["projectId", "title"] }
+ *     → CONSTRAINT tasks_project_id_title_key UNIQUE (tenant_id, project_id, title)
+ *   { type: "check", fields: ["startDate", "endDate"], expression: "endDate >= startDate" }
+ *     → CONSTRAINT tasks_start_date_end_date_check CHECK (end_date >= start_date)
+ *
+ * Unique constraints start with tenant_id, so they hold within a tenant.
+ * Check expressions are SQL, but only a small subset is accepted (see
+ * checkExpressionSQL): they reach the database as written, so anything
+ * that isn't a comparison over the constraint's own fields is rejected.
+ *
+ * The migration runner manages constraints like indexes: it marks them
+ * with a comment holding their definition and diffs them on every run
+ * (see diffManaged in indexes.ts).
+ */
+
+import type { ConstraintDefinition, EntityDefinition } from "@metasaas/contracts";
+import { toTableName, toColumnName } from "./schema-builder.js";
+import { entityIndexes } from "./indexes.js";
+import { getAllEntities } from "../entity-manager/entity-registry.js";
+
+/** A constraint the table should have */
+export interface EntityConstraint {
+  name: string;
+
+  /** The constraint as it follows ADD CONSTRAINT <name>, e.g. "UNIQUE (tenant_id, title)" */
+  definition: string;
+
+  /** The constraint as declared on the entity */
+  declared: ConstraintDefinition;
+}
+
+/** A field named by a broken constraint */
+export interface ConflictFieldError {
+  field: string;
+  message: string;
+  code: "conflict";
+}
+
+/**
+ * Thrown when a write breaks a unique or check constraint — or a unique
+ * index. Caught by the Action Bus and returned with errorType "conflict".
+ */
+export class ConflictError extends Error {
+  /** Name of the constraint or index that was broken */
+  public readonly constraint: string;
+
+  /** The fields it covers */
+  public readonly fields: string[];
+
+  constructor(message: string, constraint: string, fields: string[]) {
+    super(message);
+    this.name = "ConflictError";
+    this.constraint = constraint;
+    this.fields = fields;
+  }
+
+  /** One field error per field, in the shape validation errors use */
+  get fieldErrors(): ConflictFieldError[] {
+    return this.fields.map((field) => ({ field, message: this.message, code: "conflict" }));
+  }
+}
+
+/** Thrown for a check expression outside the accepted subset */
+export class CheckExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CheckExpressionError";
+  }
+}
+
+/** PostgreSQL error codes of broken unique and check constraints */
+const UNIQUE_VIOLATION = "23505";
+const CHECK_VIOLATION = "23514";
+
+const CHECK_KEYWORDS = new Set(["and", "or", "not", "is", "null", "true", "false", "in", "between", "like", "ilike"]);
+const CHECK_FUNCTIONS = new Set(["length", "char_length", "lower", "upper", "trim", "coalesce", "nullif", "abs", "round"]);
+
+/** Whitespace, string literals, numbers, identifiers and operators — nothing else */
+const CHECK_TOKEN = /\s+|'(?:[^']|'')*'|\d+(?:\.\d+)?|[A-Za-z_][A-Za-z0-9_]*|<=|>=|<>|!=|[-+*/%<>=(),]/y;
+
+/**
+ * The constraints an entity's table should have. Names follow PostgreSQL's
+ * own convention (`<table>_<columns>_key` / `_check`), numbered when two
+ * constraints would share one.
+ */
+export function entityConstraints(entity: EntityDefinition): EntityConstraint[] {
+  const table = toTableName(entity.name);
+  const constraints: EntityConstraint[] = [];
+
+  for (const declared of entity.constraints ?? []) {
+    const columns = declared.fields.map(toColumnName);
+    const suffix = declared.type === "unique" ? "key" : "check";
+    const base = `${table}_${columns.join("_")}`.slice(0, 63 - suffix.length - 3);
+    let name = `${base}_${suffix}`;
+    for (let n = 1; constraints.some((c) => c.name === name); n++) name = `${base}_${suffix}${n}`;
+
+    const definition =
+      declared.type === "unique"
+        ? `UNIQUE (tenant_id, ${columns.join(", ")})`
+        : `CHECK (${checkExpressionSQL(declared.expression ?? "", declared.fields)})`;
+    constraints.push({ name, definition, declared });
+  }
+
+  return constraints;
+}
+
+/**
+ * Translates a check expression to SQL, with field names replaced by
+ * their columns. Accepts literals, the constraint's fields, comparison and
+ * arithmetic operators, parentheses, the keywords and functions listed in
+ * CHECK_KEYWORDS / CHECK_FUNCTIONS — and rejects everything else. The
+ * migration runner also uses it for type-change transforms (see
+ * FieldMigration), whose only field is the one being converted.
+ *
+ * @throws CheckExpressionError naming the offending part
+ */
+export function checkExpressionSQL(expression: string, fields: string[]): string {
+  const tokens: string[] = [];
+  let depth = 0;
+  /** Set after a function name, whose "(" it has taken */
+  let call = false;
+  CHECK_TOKEN.lastIndex = 0;
+
+  while (CHECK_TOKEN.lastIndex < expression.length) {
+    const start = CHECK_TOKEN.lastIndex;
+    const match = CHECK_TOKEN.exec(expression);
+    if (!match) {
+      throw new CheckExpressionError(`Unexpected "${expression.slice(start, start + 10)}" in check expression`);
+    }
+    const token = match[0];
+    if (/^\s/.test(token)) continue;
+
+    if (/^[A-Za-z_]/.test(token)) {
+      const lower = token.toLowerCase();
+      const next = expression.slice(CHECK_TOKEN.lastIndex).trimStart();
+      if (CHECK_FUNCTIONS.has(lower) && next.startsWith("(")) {
+        tokens.push(`${lower}(`);
+        call = true;
+      } else if (CHECK_KEYWORDS.has(lower)) {
+        tokens.push(lower.toUpperCase());
+      } else if (fields.includes(token)) {
+        tokens.push(toColumnName(token));
+      } else {
+        throw new CheckExpressionError(`"${token}" is not one of the constraint's fields (${fields.join(", ")})`);
+      }
+      continue;
+    }
+
+    if (token === "(") depth++;
+    if (call) {
+      call = false;
+      continue;
+    }
+    if (token === ")" && --depth < 0) throw new CheckExpressionError(`Unbalanced ")" in check expression`);
+    tokens.push(token === "!=" ? "<>" : token);
+  }
+
+  if (tokens.length === 0) throw new CheckExpressionError("A check constraint needs an expression");
+  if (depth !== 0) throw new CheckExpressionError(`Unbalanced "(" in check expression`);
+  return tokens.join(" ").replace(/\( /g, "(").replace(/ \)/g, ")").replace(/ ,/g, ",");
+}
+
+/**
+ * The ConflictError for a database error raised by a unique constraint,
+ * unique index or check constraint of a registered entity, or null for
+ * any other error.
+ */
+export function conflictFromDatabaseError(error: unknown): ConflictError | null {
+  const pgError = (error as { cause?: unknown })?.cause ?? error;
+  const { code, table_name: table, constraint_name: name } = (pgError ?? {}) as Record<string, unknown>;
+  if ((code !== UNIQUE_VIOLATION && code !== CHECK_VIOLATION) || typeof name !== "string") return null;
+
+  const entity = getAllEntities().find((e) => toTableName(e.name) === table);
+  if (!entity) return null;
+
+  const constraint = entityConstraints(entity).find((c) => c.name === name);
+  if (constraint) {
+    const { declared } = constraint;
+    const message =
+      declared.message ??
+      (declared.type === "unique"
+        ? `Another ${entity.name} already has this ${declared.fields.join(" and ")}`
+        : `${entity.name} must satisfy ${declared.expression}`);
+    return new ConflictError(message, name, declared.fields);
+  }
+
+  const index = entityIndexes(entity).find((i) => i.name === name)?.declared;
+  if (index?.unique) {
+    return new ConflictError(`Another ${entity.name} already has this ${index.fields.join(" and ")}`, name, index.fields);
+  }
+
+  return null;
+}
@@ -0,0 +1,171 @@
+/**
+ * Cursor Pagination — Test Suite
+ *
+ * Covers cursor encoding, the keyset conditions rendered for each sort
+ * direction (including NULL sort values), and how the findAll action
+ * turns an extra row into nextCursor/prevCursor and when it counts.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { defineEntity } from "@metasaas/contracts";
+import type { ActionContext, DatabaseClient } from "@metasaas/contracts";
+import { encodeCursor, decodeCursor, cursorCondition, type Cursor } from "./cursor.js";
+import { buildTableSchema, clearTableRegistry } from "./schema-builder.js";
+import { generateCRUDActions } from "../entity-manager/crud-generator.js";
+import { ValidationError } from "../action-bus/middleware/validation.js";
+
+const Deal = defineEntity({
+  name: "Deal",
+  pluralName: "Deals",
+  description: "A sales deal",
+  fields: [
+    { name: "title", type: "text", required: true, description: "Title" },
+    { name: "amount", type: "currency", required: false, description: "Amount" },
+    { name: "closeDate", type: "date", required: false, description: "Close date" },
+  ],
+  ui: { icon: "dollar", listColumns: ["title"], searchFields: [], defaultSort: { field: "amount", direction: "desc" } },
+});
+
+const ID = "11111111-1111-4111-8111-111111111111";
+const byAmount = { field: "amount", direction: "asc" } as const;
+const dialect = new PgDialect();
+
+describe("encodeCursor / decodeCursor", () => {
+  it("round-trips the sort value and id", () => {
+    const cursor = encodeCursor({ id: ID, amount: 100 }, byAmount);
+    expect(decodeCursor(cursor, byAmount)).toEqual({
+      field: "amount",
+      direction: "asc",
+      value: 100,
+      id: ID,
+      backward: false,
+    });
+  });
+
+  it("stores dates as ISO strings and marks backward cursors", () => {
+    const order = { field: "closeDate", direction: "desc" } as const;
+    const cursor = encodeCursor({ id: ID, closeDate: new Date("2026-03-01T00:00:00Z") }, order, true);
+    expect(decodeCursor(cursor, order)).toMatchObject({ value: "2026-03-01T00:00:00.000Z", backward: true });
+  });
+
+  it("rejects malformed cursors and cursors made for another sort", () => {
+    expect(decodeCursor("not-a-cursor", byAmount)).toBeNull();
+    const cursor = encodeCursor({ id: ID, amount: 100 }, byAmount);
+    expect(decodeCursor(cursor, { field: "amount", direction: "desc" })).toBeNull();
+    expect(decodeCursor(cursor, { field: "title", direction: "asc" })).toBeNull();
+  });
+});
+
+describe("cursorCondition", () => {
+  let table: Record<string, any>;
+
+  beforeEach(() => {
+    clearTableRegistry();
+    table = buildTableSchema(Deal);
+  });
+
+  function render(cursor: Omit<Cursor, "id" | "field"> & { field?: string }) {
+    return dialect.sqlToQuery(cursorCondition(table, { field: "amount", id: ID, ...cursor })).sql;
+  }
+
+  it("selects larger values, NULLs and ties with a larger id going ascending", () => {
+    expect(render({ direction: "asc", value: 100, backward: false })).toBe(
+      '("deals"."amount" > $1 or "deals"."amount" is null or ("deals"."amount" = $2 and "deals"."id" > $3))'
+    );
+  });
+
+  it("selects smaller values and ties with a smaller id going descending", () => {
+    expect(render({ direction: "desc", value: 100, backward: false })).toBe(
+      '("deals"."amount" < $1 or ("deals"."amount" = $2 and "deals"."id" < $3))'
+    );
+  });
+
+  it("reverses the comparison for backward cursors", () => {
+    expect(render({ direction: "asc", value: 100, backward: true })).toBe(
+      '("deals"."amount" < $1 or ("deals"."amount" = $2 and "deals"."id" < $3))'
+    );
+  });
+
+  it("handles cursors on rows with a NULL sort value", () => {
+    expect(render({ direction: "asc", value: null, backward: false })).toBe(
+      '("deals"."amount" is null and "deals"."id" > $1)'
+    );
+    expect(render({ direction: "desc", value: null, backward: false })).toBe(
+      '("deals"."amount" is not null or ("deals"."amount" is null and "deals"."id" < $1))'
+    );
+  });
+
+  it("compares ids only when sorting by id", () => {
+    expect(render({ field: "id", direction: "asc", value: ID, backward: false })).toBe('"deals"."id" > $1');
+  });
+});
+
+describe("findAll pagination", () => {
+  const rows = Array.from({ length: 5 }, (_, i) => ({
+    id: `00000000-0000-4000-8000-00000000000${i}`,
+    title: `Deal ${i}`,
+    amount: 500 - i * 100,
+  }));
+  const findMany = vi.fn();
+  const count = vi.fn();
+
+  const ctx = {
+    caller: { userId: "u1", tenantId: "t1", roles: ["admin"], type: "human" },
+    db: { findMany, count } as unknown as DatabaseClient,
+    emit: async () => {},
+    logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  } as ActionContext;
+
+  const findAll = generateCRUDActions(Deal).find((a) => a.id === "deal.findAll")!;
+  const order = { field: "amount", direction: "desc" } as const;
+
+  beforeEach(() => {
+    findMany.mockReset();
+    count.mockReset().mockResolvedValue(5);
+  });
+
+  it("returns a next cursor and the total on the first page", async () => {
+    findMany.mockResolvedValue(rows.slice(0, 3));
+
+    const result = await findAll.execute({ limit: 2 }, ctx) as Record<string, any>;
+
+    expect(findMany.mock.calls[0][1]).toMatchObject({ orderBy: order, limit: 3, cursor: undefined });
+    expect(result.data).toEqual(rows.slice(0, 2));
+    expect(result.total).toBe(5);
+    expect(result.prevCursor).toBeNull();
+    expect(decodeCursor(result.nextCursor, order)).toMatchObject({ id: rows[1].id, value: 400 });
+  });
+
+  it("skips the count when paging by cursor unless includeTotal is set", async () => {
+    const cursor = encodeCursor(rows[1], order);
+    findMany.mockResolvedValue(rows.slice(2, 4));
+
+    const result = await findAll.execute({ limit: 2, cursor }, ctx) as Record<string, any>;
+
+    expect(count).not.toHaveBeenCalled();
+    expect(result).not.toHaveProperty("total");
+    expect(result.nextCursor).toBeNull();
+    expect(decodeCursor(result.prevCursor, order)).toMatchObject({ id: rows[2].id, backward: true });
+
+    await findAll.execute({ limit: 2, cursor, includeTotal: true }, ctx);
+    expect(count).toHaveBeenCalled();
+  });
+
+  it("drops the extra row from the front of a backward page", async () => {
+    const cursor = encodeCursor(rows[3], order, true);
+    findMany.mockResolvedValue(rows.slice(0, 3));
+
+    const result = await findAll.execute({ limit: 2, cursor }, ctx) as Record<string, any>;
+
+    expect(result.data).toEqual(rows.slice(1, 3));
+    expect(decodeCursor(result.prevCursor, order)).toMatchObject({ id: rows[1].id });
+    expect(decodeCursor(result.nextCursor, order)).toMatchObject({ id: rows[2].id, backward: false });
+  });
+
+  it("rejects a cursor from a different sort order", async () => {
+    const cursor = encodeCursor(rows[1], { field: "title", direction: "asc" });
+    await expect(findAll.execute({ cursor }, ctx)).rejects.toBeInstanceOf(ValidationError);
+    expect(findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Cursor Pagination
+ *
+ * Keyset pagination for findMany: a cursor names a row by its sort value
+ * and id, and the next page is "the rows after that one" in the
+ * (sort field, id) order. Unlike offsets, pages stay consistent while
+ * rows are inserted or deleted, and deep pages cost the same as the first.
+ *
+ * Cursors are opaque to callers — base64url-encoded JSON carrying the
+ * sort they were made for, so a cursor used with a different sort is
+ * rejected instead of silently skipping rows:
+ *
+ *   { f: "amount", d: "desc", v: 1200, id: "…", b: true }
+ *
+ * `b` marks a backward cursor (prevCursor): the page of rows before it.
+ *
+ * NULL sort values follow PostgreSQL's default ordering — last when
+ * ascending, first when descending — so they are never skipped.
+ */
+
+import { and, or, eq, gt, lt, isNull, isNotNull, type SQL } from "drizzle-orm";
+import { toColumnName } from "./schema-builder.js";
+import { toColumnValue } from "./filter.js";
+
+export interface OrderBy {
+  field: string;
+  direction: "asc" | "desc";
+}
+
+/** Decoded cursor */
+export interface Cursor {
+  /** Sort field and direction the cursor was made for */
+  field: string;
+  direction: "asc" | "desc";
+  /** Sort value and id of the row the cursor points at */
+  value: unknown;
+  id: string;
+  /** Page backwards (rows before the cursor) */
+  backward: boolean;
+}
+
+/** Default order when none is given: by id, so pages are still stable */
+export const ID_ORDER: OrderBy = { field: "id", direction: "asc" };
+
+/** Builds the cursor for a row under a sort */
+export function encodeCursor(
+  row: Record<string, unknown>,
+  orderBy: OrderBy,
+  backward = false
+): string {
+  const raw = row[orderBy.field];
+  const payload = {
+    f: orderBy.field,
+    d: orderBy.direction,
+    v: raw instanceof Date ? raw.toISOString() : raw ?? null,
+    id: row.id,
+    ...(backward && { b: true }),
+  };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+/**
+ * Decodes a cursor made by encodeCursor. Returns null when it is
+ * malformed or was made for a different sort.
+ */
+export function decodeCursor(cursor: string, orderBy: OrderBy): Cursor | null {
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+  if (
+    typeof payload !== "object" ||
+    payload === null ||
+    typeof payload.id !== "string" ||
+    !("v" in payload) ||
+    payload.f !== orderBy.field ||
+    payload.d !== orderBy.direction
+  ) {
+    return null;
+  }
+  return {
+    field: orderBy.field,
+    direction: orderBy.direction,
+    value: payload.v,
+    id: payload.id,
+    backward: payload.b === true,
+  };
+}
+
+/**
+ * The direction rows are read in: the sort direction going forward,
+ * reversed going backward (the page is flipped back afterwards).
+ */
+export function scanDirection(orderBy: OrderBy, cursor?: Cursor | null): "asc" | "desc" {
+  if (!cursor?.backward) return orderBy.direction;
+  return orderBy.direction === "asc" ? "desc" : "asc";
+}
+
+/**
+ * WHERE condition selecting the rows after the cursor in scan order.
+ * NULL counts as the largest value, matching PostgreSQL's default
+ * NULLS LAST for ascending and NULLS FIRST for descending order.
+ */
+export function cursorCondition(table: Record<string, any>, cursor: Cursor): SQL {
+  const column = table[toColumnName(cursor.field)];
+  const id = table.id;
+  const direction = scanDirection(cursor, cursor);
+  const value = cursor.value === null ? null : toColumnValue(column, cursor.value);
+
+  if (column === id) {
+    return direction === "asc" ? gt(id, cursor.id) : lt(id, cursor.id);
+  }
+
+  if (direction === "asc") {
+    return value === null
+      ? and(isNull(column), gt(id, cursor.id))!
+      : or(gt(column, value), isNull(column), and(eq(column, value), gt(id, cursor.id)))!;
+  }
+  return value === null
+    ? or(isNotNull(column), and(isNull(column), lt(id, cursor.id)))!
+    : or(lt(column, value), and(eq(column, value), lt(id, cursor.id)))!;
+}
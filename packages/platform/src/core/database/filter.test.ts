@@ -0,0 +1,106 @@
+/**
+ * Filter Conditions — Test Suite
+ *
+ * Renders the SQL built from WhereClauses against a generated table
+ * schema, covering each operator, OR groups and date coercion.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { and } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { defineEntity, type WhereClause } from "@metasaas/contracts";
+import { whereConditions } from "./filter.js";
+import { buildTableSchema, clearTableRegistry } from "./schema-builder.js";
+
+const Deal = defineEntity({
+  name: "Deal",
+  pluralName: "Deals",
+  description: "A sales deal",
+  fields: [
+    { name: "title", type: "text", required: true, description: "Title" },
+    { name: "amount", type: "currency", required: false, description: "Amount" },
+    { name: "stage", type: "enum", required: true, options: ["open", "won"], description: "Stage" },
+    { name: "closeDate", type: "date", required: false, description: "Close date" },
+    { name: "tags", type: "tags", required: false, description: "Tags" },
+  ],
+  ui: { icon: "dollar", listColumns: ["title"], searchFields: [], defaultSort: { field: "title", direction: "asc" } },
+});
+
+let table: Record<string, any>;
+const dialect = new PgDialect();
+
+/** Renders the conditions as one SQL string with its parameters */
+function render(where: WhereClause) {
+  return dialect.sqlToQuery(and(...whereConditions(table, where))!);
+}
+
+describe("whereConditions", () => {
+  beforeEach(() => {
+    clearTableRegistry();
+    table = buildTableSchema(Deal);
+  });
+
+  it("builds equality for plain values and IS NULL for null", () => {
+    const { sql, params } = render({ stage: "won", closeDate: null });
+    expect(sql).toBe('("deals"."stage" = $1 and "deals"."close_date" is null)');
+    expect(params).toEqual(["won"]);
+  });
+
+  it("builds comparison operators", () => {
+    const { sql, params } = render({ amount: { gte: 100, lt: 500 } });
+    expect(sql).toBe('("deals"."amount" >= $1 and "deals"."amount" < $2)');
+    expect(params).toEqual([100, 500]);
+  });
+
+  it("builds in / not in and is-null checks", () => {
+    const { sql } = render({
+      stage: { in: ["open", "won"] },
+      title: { nin: ["x"], null: false },
+    });
+    expect(sql).toBe(
+      '("deals"."stage" in ($1, $2) and "deals"."title" not in ($3) and "deals"."title" is not null)'
+    );
+  });
+
+  it("turns date strings into Dates for timestamp columns", () => {
+    const { sql, params } = render({ closeDate: { between: ["2026-01-01", "2026-03-31"] } });
+    expect(sql).toBe('("deals"."close_date" >= $1 and "deals"."close_date" <= $2)');
+    expect(params).toEqual(["2026-01-01T00:00:00.000Z", "2026-03-31T00:00:00.000Z"]);
+  });
+
+  it("ORs the alternatives of a $or group", () => {
+    const { sql } = render({
+      stage: "open",
+      $or: [{ amount: { gt: 1000 } }, { title: "VIP", closeDate: { null: true } }],
+    });
+    expect(sql).toBe(
+      '("deals"."stage" = $1 and ("deals"."amount" > $2 or ("deals"."title" = $3 and "deals"."close_date" is null)))'
+    );
+  });
+
+  it("matches nothing for an empty in list", () => {
+    expect(render({ stage: { in: [] } }).sql).toBe("false");
+  });
+
+  it("ignores fields without a column", () => {
+    expect(whereConditions(table, { nope: 1, $or: [] })).toEqual([]);
+  });
+
+  it("tests membership on list columns", () => {
+    const { sql, params } = render({ tags: "urgent" });
+    expect(sql).toBe('coalesce("deals"."tags" @> $1, false)');
+    expect(params).toEqual(["{\"urgent\"}"]);
+
+    expect(render({ tags: { in: ["a", "b"], null: false } }).sql).toBe(
+      '(coalesce("deals"."tags" && $1, false) and not coalesce(cardinality("deals"."tags"), 0) = 0)'
+    );
+    expect(render({ tags: { nin: ["a"] } }).sql).toBe('not coalesce("deals"."tags" && $1, false)');
+    expect(render({ tags: null }).sql).toBe('coalesce(cardinality("deals"."tags"), 0) = 0');
+    expect(() => whereConditions(table, { tags: { gt: "a" } })).toThrow(/doesn't apply to list fields/);
+  });
+
+  it("throws on unknown operators and malformed operands", () => {
+    expect(() => whereConditions(table, { amount: { like: "%1" } })).toThrow(/Unknown filter operator/);
+    expect(() => whereConditions(table, { amount: { in: 5 } })).toThrow(/expects an array/);
+  });
+});
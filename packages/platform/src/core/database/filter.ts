@@ -0,0 +1,205 @@
+/**
+ * Filter Conditions
+ *
+ * Translates a WhereClause (see contracts/filter.ts) into Drizzle SQL
+ * conditions for an entity table. Used by findMany, count and
+ * countByField so every read supports the same operators.
+ *
+ *   { amount: { gte: 100 }, stage: { in: ["open", "won"] }, $or: [...] }
+ *     → amount >= 100 AND stage IN ('open', 'won') AND (... OR ...)
+ *
+ * List columns (multi_enum and tags) test membership instead: equality
+ * matches lists containing the value, `in` lists sharing any value with
+ * the operand, and `null` empty lists as well as NULL.
+ *
+ *   { tags: "urgent", labels: { in: ["a", "b"] } }
+ *     → tags @> '{urgent}' AND labels && '{a,b}'
+ *
+ * Fields without a matching column are ignored, as equality filters always
+ * were — the REST adapter validates field names before they get here.
+ * Unknown operators are programming errors and throw.
+ *
+ * getFilterableFields/getSortableFields define what that validation allows.
+ */
+
+import {
+  eq,
+  ne,
+  gt,
+  gte,
+  lt,
+  lte,
+  inArray,
+  notInArray,
+  isNull,
+  isNotNull,
+  arrayContains,
+  arrayOverlaps,
+  and,
+  or,
+  not,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import {
+  isFieldFilter,
+  FILTER_OPERATORS,
+  type EntityDefinition,
+  type FilterableField,
+  type WhereClause,
+  type FilterOperator,
+} from "@metasaas/contracts";
+import { toColumnName } from "./schema-builder.js";
+
+/**
+ * Fields of an entity that callers may filter by: its declared fields and
+ * belongsTo foreign keys. Sensitive fields are stored encrypted and can't
+ * be filtered or sorted.
+ */
+export function getFilterableFields(entity: EntityDefinition): FilterableField[] {
+  const fields: FilterableField[] = entity.fields
+    .filter((f) => !f.sensitive)
+    .map((f) => ({ name: f.name, type: f.type, options: f.options }));
+  for (const rel of entity.relationships ?? []) {
+    if (rel.type === "belongsTo") {
+      const fk = rel.foreignKey
+        ? rel.foreignKey.replace(/_([a-z])/g, (_: string, l: string) => l.toUpperCase())
+        : rel.entity.charAt(0).toLowerCase() + rel.entity.slice(1) + "Id";
+      fields.push({ name: fk, type: "uuid" });
+    }
+  }
+  return fields;
+}
+
+/** Filterable fields plus the system timestamps */
+export function getSortableFields(entity: EntityDefinition): string[] {
+  const fields = getFilterableFields(entity).map((f) => f.name);
+  fields.push("createdAt", "updatedAt");
+  if (entity.softDelete) fields.push("deletedAt");
+  return fields;
+}
+
+/**
+ * Builds the conditions for a where clause. All returned conditions
+ * must hold (callers AND them with the tenant and soft-delete filters).
+ */
+export function whereConditions(
+  table: Record<string, any>,
+  where: WhereClause | undefined
+): SQL[] {
+  if (!where) return [];
+  const conditions: SQL[] = [];
+
+  for (const [key, value] of Object.entries(where)) {
+    if (key === "$or") {
+      const alternatives = (value as WhereClause[] | undefined) ?? [];
+      if (alternatives.length === 0) continue;
+      conditions.push(
+        or(...alternatives.map((alt) => and(...whereConditions(table, alt)) ?? sql`true`))!
+      );
+      continue;
+    }
+
+    const column = table[toColumnName(key)];
+    if (!column) continue;
+
+    if (isFieldFilter(value)) {
+      for (const [op, operand] of Object.entries(value)) {
+        conditions.push(operatorCondition(column, op, operand));
+      }
+    } else if (isListColumn(column)) {
+      conditions.push(listCondition(column, "eq", value));
+    } else {
+      conditions.push(value === null ? isNull(column) : eq(column, toColumnValue(column, value)));
+    }
+  }
+
+  return conditions;
+}
+
+function operatorCondition(column: any, op: string, operand: unknown): SQL {
+  if (!FILTER_OPERATORS.includes(op as FilterOperator)) {
+    throw new Error(`Unknown filter operator "${op}"`);
+  }
+
+  if (isListColumn(column)) return listCondition(column, op as FilterOperator, operand);
+
+  switch (op as FilterOperator) {
+    case "eq":
+      return operand === null ? isNull(column) : eq(column, toColumnValue(column, operand));
+    case "ne":
+      return operand === null ? isNotNull(column) : ne(column, toColumnValue(column, operand));
+    case "gt":
+      return gt(column, toColumnValue(column, operand));
+    case "gte":
+      return gte(column, toColumnValue(column, operand));
+    case "lt":
+      return lt(column, toColumnValue(column, operand));
+    case "lte":
+      return lte(column, toColumnValue(column, operand));
+    case "in": {
+      const values = asList(op, operand);
+      return values.length > 0 ? inArray(column, values.map((v) => toColumnValue(column, v))) : sql`false`;
+    }
+    case "nin": {
+      const values = asList(op, operand);
+      return values.length > 0 ? notInArray(column, values.map((v) => toColumnValue(column, v))) : sql`true`;
+    }
+    case "null":
+      return operand ? isNull(column) : isNotNull(column);
+    case "between": {
+      const [from, to] = asList(op, operand);
+      return and(gte(column, toColumnValue(column, from)), lte(column, toColumnValue(column, to)))!;
+    }
+  }
+}
+
+/** Array columns — the ones multi_enum and tags fields are stored in */
+function isListColumn(column: any): boolean {
+  return column.columnType === "PgArray";
+}
+
+/** Membership conditions on a list column; lists that are NULL contain nothing */
+function listCondition(column: any, op: FilterOperator, operand: unknown): SQL {
+  const empty = sql`coalesce(cardinality(${column}), 0) = 0`;
+  const contains = (values: unknown[]) => sql`coalesce(${arrayContains(column, values)}, false)`;
+  const overlaps = (values: unknown[]) => sql`coalesce(${arrayOverlaps(column, values)}, false)`;
+
+  switch (op) {
+    case "eq":
+      return operand === null ? empty : contains([operand]);
+    case "ne":
+      return operand === null ? not(empty) : not(contains([operand]));
+    case "in": {
+      const values = asList(op, operand);
+      return values.length > 0 ? overlaps(values) : sql`false`;
+    }
+    case "nin": {
+      const values = asList(op, operand);
+      return values.length > 0 ? not(overlaps(values)) : sql`true`;
+    }
+    case "null":
+      return operand ? empty : not(empty);
+    default:
+      throw new Error(`Filter operator "${op}" doesn't apply to list fields`);
+  }
+}
+
+function asList(op: string, operand: unknown): unknown[] {
+  if (!Array.isArray(operand)) {
+    throw new Error(`Filter operator "${op}" expects an array`);
+  }
+  if (op === "between" && operand.length !== 2) {
+    throw new Error(`Filter operator "between" expects two values`);
+  }
+  return operand;
+}
+
+/** Timestamp columns expect Date objects — ISO strings are converted */
+export function toColumnValue(column: any, value: unknown): any {
+  if (typeof value === "string" && (column.columnType === "PgTimestamp" || column.dataType === "date")) {
+    const parsed = new Date(value);
+    return isNaN(parsed.getTime()) ? value : parsed;
+  }
+  return value;
+}
@@ -0,0 +1,99 @@
+/**
+ * Entity Indexes — Test Suite
+ *
+ * Validates the indexes planned for an entity table — declared, foreign
+ * key, default sort and trigram search indexes, all tenant-prefixed — and
+ * the diff a migration applies against the indexes a table already has.
+ */
+
+import { describe, it, expect } from "vitest";
+import { defineEntity, type EntityDefinition } from "@metasaas/contracts";
+import { entityIndexes, diffManaged } from "./indexes.js";
+
+function createTask(overrides: Partial<EntityDefinition> = {}): EntityDefinition {
+  return defineEntity({
+    name: "Task",
+    pluralName: "Tasks",
+    description: "A unit of work",
+    fields: [
+      { name: "title", type: "text", required: true, description: "Title" },
+      { name: "status", type: "enum", required: true, description: "Status", options: ["open", "done"] },
+      { name: "estimate", type: "number", required: false, description: "Hours" },
+      { name: "notes", type: "text", required: false, description: "Notes", sensitive: true },
+    ],
+    relationships: [{ type: "belongsTo", entity: "Project" }],
+    ui: {
+      icon: "check",
+      listColumns: ["title", "status"],
+      searchFields: ["title", "estimate", "notes"],
+      defaultSort: { field: "createdAt", direction: "desc" },
+    },
+    ...overrides,
+  });
+}
+
+describe("entityIndexes", () => {
+  it("indexes foreign keys, the default sort and text search fields", () => {
+    expect(entityIndexes(createTask()).map((i) => i.definition)).toEqual([
+      "CREATE INDEX idx_tasks_project_id ON tasks (tenant_id, project_id)",
+      "CREATE INDEX idx_tasks_created_at ON tasks (tenant_id, created_at DESC)",
+      "CREATE INDEX idx_tasks_title_trgm ON tasks USING gin (tenant_id, title gin_trgm_ops)",
+    ]);
+  });
+
+  it("builds declared composite, unique and partial indexes ahead of the automatic ones", () => {
+    const indexes = entityIndexes(
+      createTask({
+        indexes: [
+          { fields: ["status", "estimate"] },
+          { fields: ["title"], unique: true, name: "tasks_unique_title" },
+          { fields: ["projectId"], where: { status: "it's open", estimate: null } },
+          { fields: ["projectId"] },
+        ],
+      })
+    );
+    expect(indexes.map((i) => i.definition).slice(0, 4)).toEqual([
+      "CREATE INDEX idx_tasks_status_estimate ON tasks (tenant_id, status, estimate)",
+      "CREATE UNIQUE INDEX tasks_unique_title ON tasks (tenant_id, title)",
+      "CREATE INDEX idx_tasks_project_id_where_status_estimate ON tasks (tenant_id, project_id) WHERE status = 'it''s open' AND estimate IS NULL",
+      "CREATE INDEX idx_tasks_project_id ON tasks (tenant_id, project_id)",
+    ]);
+    // The declared index on projectId stands in for the automatic one
+    expect(indexes.filter((i) => i.name === "idx_tasks_project_id")).toHaveLength(1);
+    expect(indexes.map((i) => i.trigram)).toEqual([false, false, false, false, false, true]);
+  });
+
+  it("keeps long derived names within PostgreSQL's identifier limit, distinct", () => {
+    const long = ["status", "estimate", "title", "createdAt", "updatedAt"];
+    const [a, b] = entityIndexes(createTask({ indexes: [{ fields: long }, { fields: [...long, "id"] }] }));
+    expect(a.name.length).toBeLessThanOrEqual(63);
+    expect(b.name.length).toBeLessThanOrEqual(63);
+    expect(a.name).not.toBe(b.name);
+  });
+});
+
+describe("diffManaged", () => {
+  const [fk, sort, search] = entityIndexes(createTask());
+
+  it("creates missing indexes and leaves matching ones", () => {
+    const managed = new Map([[fk.name, fk.definition]]);
+    expect(diffManaged(managed, new Set([fk.name]), [fk, sort])).toEqual({ create: [sort], drop: [], conflicts: [] });
+  });
+
+  it("drops managed indexes that are gone, and rebuilds changed ones", () => {
+    const managed = new Map([
+      [fk.name, fk.definition.replace("project_id)", "project_id DESC)")],
+      ["idx_tasks_old", "CREATE INDEX idx_tasks_old ON tasks (tenant_id, old)"],
+    ]);
+    expect(diffManaged(managed, new Set(managed.keys()), [fk])).toEqual({
+      create: [fk],
+      drop: [fk.name, "idx_tasks_old"],
+      conflicts: [],
+    });
+  });
+
+  it("never touches indexes the platform didn't create", () => {
+    const existing = new Set(["idx_tasks_deleted", search.name]);
+    expect(diffManaged(new Map(), existing, [search])).toEqual({ create: [], drop: [], conflicts: [search.name] });
+  });
+});
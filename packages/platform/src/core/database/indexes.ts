@@ -0,0 +1,227 @@
+/**
+ * Entity Indexes
+ *
+ * Works out the indexes an entity's table should have, and what a
+ * migration must change to get there. Every index starts with tenant_id,
+ * since every query is scoped to a tenant.
+ *
+ * An entity gets:
+ *   - the indexes it declares in `indexes` (single, composite, unique, partial)
+ *   - one per belongsTo foreign key            (tenant_id, project_id)
+ *   - one for its default sort                 (tenant_id, created_at DESC)
+ *   - a trigram index per text search field    gin (tenant_id, title gin_trgm_ops)
+ *
+ * Trigram indexes serve the ILIKE '%term%' searches of findMany; they need
+ * the pg_trgm and btree_gin extensions, which the migration runner installs.
+ *
+ * The migration runner marks the indexes it creates with a comment holding
+ * their definition, so it can tell its own indexes from hand-made ones and
+ * rebuild those whose definition changed (see diffManaged).
+ */
+
+import type { EntityDefinition, FieldDefinition, FieldType, IndexDefinition } from "@metasaas/contracts";
+import { toTableName, toColumnName } from "./schema-builder.js";
+
+/** An index the table should have */
+export interface EntityIndex {
+  name: string;
+
+  /** The CREATE INDEX statement */
+  definition: string;
+
+  /** Whether it is a trigram index, which needs the pg_trgm and btree_gin extensions */
+  trigram: boolean;
+
+  /** The index as declared on the entity; undefined for automatic indexes */
+  declared?: IndexDefinition;
+}
+
+/**
+ * What a migration must do to a table's managed indexes or constraints
+ * to match the expected ones
+ */
+export interface ManagedChanges<T> {
+  /** To create */
+  create: T[];
+
+  /** Managed ones to drop: removed from the entity, or to be rebuilt */
+  drop: string[];
+
+  /** Expected names already taken by an index or constraint the platform didn't create */
+  conflicts: string[];
+}
+
+/** Prefix of the comment on indexes and constraints the migration runner manages */
+export const MANAGED_COMMENT = "metasaas:";
+
+/** PostgreSQL truncates identifiers longer than this */
+const MAX_IDENTIFIER_LENGTH = 63;
+
+/** Field types whose values trigram indexes can search */
+const TRIGRAM_TYPES: ReadonlySet<FieldType> = new Set([
+  "text",
+  "rich_text",
+  "email",
+  "phone",
+  "url",
+  "enum",
+  "user",
+]);
+
+/** Columns every entity table has, by field name */
+const SYSTEM_COLUMNS: Record<string, string> = {
+  id: "id",
+  createdAt: "created_at",
+  updatedAt: "updated_at",
+};
+
+/**
+ * The indexes an entity's table should have: the declared ones first,
+ * then the automatic ones. An automatic index is left out when an index
+ * with the same name is already planned.
+ */
+export function entityIndexes(entity: EntityDefinition): EntityIndex[] {
+  const table = toTableName(entity.name);
+  const indexes = new Map<string, EntityIndex>();
+  const add = (index: EntityIndex) => {
+    if (!indexes.has(index.name)) indexes.set(index.name, index);
+  };
+
+  for (const declared of entity.indexes ?? []) {
+    add(declaredIndex(table, declared));
+  }
+
+  for (const fk of foreignKeyColumns(entity)) {
+    add(btreeIndex(table, [fk]));
+  }
+
+  const sortColumn = columnOf(entity, entity.ui.defaultSort.field);
+  if (sortColumn && sortColumn !== "id") {
+    const direction = entity.ui.defaultSort.direction === "desc" ? " DESC" : "";
+    add(btreeIndex(table, [`${sortColumn}${direction}`]));
+  }
+
+  for (const fieldName of entity.ui.searchFields) {
+    const field = entity.fields.find((f) => f.name === fieldName);
+    if (!field || !isTrigramSearchable(field)) continue;
+    const column = toColumnName(field.name);
+    const name = indexName(`idx_${table}_${column}_trgm`);
+    add({
+      name,
+      definition: `CREATE INDEX ${name} ON ${table} USING gin (tenant_id, ${column} gin_trgm_ops)`,
+      trigram: true,
+    });
+  }
+
+  return [...indexes.values()];
+}
+
+/**
+ * Compares the managed indexes (or constraints) a table has — name →
+ * definition, from their comments — and the names of all of them with the
+ * expected ones. Managed ones no longer expected are dropped; those whose
+ * definition changed are dropped and created again.
+ */
+export function diffManaged<T extends { name: string; definition: string }>(
+  managed: Map<string, string>,
+  existingNames: Set<string>,
+  expected: T[]
+): ManagedChanges<T> {
+  const changes: ManagedChanges<T> = { create: [], drop: [], conflicts: [] };
+  const expectedNames = new Set(expected.map((index) => index.name));
+
+  for (const [name, definition] of managed) {
+    const wanted = expected.find((index) => index.name === name);
+    if (!expectedNames.has(name) || wanted?.definition !== definition) changes.drop.push(name);
+  }
+
+  for (const index of expected) {
+    if (managed.get(index.name) === index.definition) continue;
+    if (existingNames.has(index.name) && !managed.has(index.name)) {
+      changes.conflicts.push(index.name);
+      continue;
+    }
+    changes.create.push(index);
+  }
+
+  return changes;
+}
+
+/** A declared index, with its where clause as literal SQL */
+function declaredIndex(table: string, declared: IndexDefinition): EntityIndex {
+  const columns = declared.fields.map(toColumnName);
+  const where = Object.entries(declared.where ?? {});
+  const defaultName = [
+    declared.unique ? "uq" : "idx",
+    table,
+    ...columns,
+    ...(where.length > 0 ? ["where", ...where.map(([field]) => toColumnName(field))] : []),
+  ].join("_");
+  const name = declared.name ?? indexName(defaultName);
+
+  const predicate = where
+    .map(([field, value]) => `${toColumnName(field)} ${value === null ? "IS NULL" : `= ${sqlLiteral(value)}`}`)
+    .join(" AND ");
+
+  return {
+    name,
+    definition:
+      `CREATE ${declared.unique ? "UNIQUE " : ""}INDEX ${name} ON ${table} (tenant_id, ${columns.join(", ")})` +
+      (predicate ? ` WHERE ${predicate}` : ""),
+    trigram: false,
+    declared,
+  };
+}
+
+/** A plain tenant-prefixed index, named after its columns */
+function btreeIndex(table: string, columns: string[]): EntityIndex {
+  const name = indexName(`idx_${table}_${columns.map((c) => c.replace(/ DESC$/, "")).join("_")}`);
+  return {
+    name,
+    definition: `CREATE INDEX ${name} ON ${table} (tenant_id, ${columns.join(", ")})`,
+    trigram: false,
+  };
+}
+
+/** Whether findMany searches the field with ILIKE on the plain column */
+function isTrigramSearchable(field: FieldDefinition): boolean {
+  return TRIGRAM_TYPES.has(field.type) && !field.sensitive;
+}
+
+/** Foreign key columns of the entity's belongsTo relationships */
+function foreignKeyColumns(entity: EntityDefinition): string[] {
+  return (entity.relationships ?? [])
+    .filter((rel) => rel.type === "belongsTo")
+    .map((rel) => rel.foreignKey ?? toColumnName(rel.as ?? rel.entity) + "_id");
+}
+
+/** Column of a declared field, foreign key or system field; undefined for unknown or sensitive fields */
+function columnOf(entity: EntityDefinition, name: string): string | undefined {
+  if (SYSTEM_COLUMNS[name]) return SYSTEM_COLUMNS[name];
+  const field = entity.fields.find((f) => f.name === name);
+  if (field) return field.sensitive ? undefined : toColumnName(field.name);
+  const column = toColumnName(name);
+  return foreignKeyColumns(entity).includes(column) ? column : undefined;
+}
+
+/**
+ * Keeps derived names within PostgreSQL's identifier limit, replacing the
+ * tail of a long name with a hash of the whole so names stay distinct.
+ */
+function indexName(name: string): string {
+  if (name.length <= MAX_IDENTIFIER_LENGTH) return name;
+  let hash = 5381;
+  for (const char of name) hash = ((hash * 33) ^ char.charCodeAt(0)) >>> 0;
+  const suffix = hash.toString(36);
+  return `${name.slice(0, MAX_IDENTIFIER_LENGTH - suffix.length - 1)}_${suffix}`;
+}
+
+/** A value of a partial index's where clause as an SQL literal */
+function sqlLiteral(value: string | number | boolean): string {
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) throw new Error(`Invalid value in index where clause: ${value}`);
+    return String(value);
+  }
+  return `'${value.replace(/'/g, "''")}'`;
+}
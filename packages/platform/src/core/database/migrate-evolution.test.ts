@@ -35,6 +35,11 @@ describe("classifyTypeChange", () => {
       expect(result.reason).toBe("Same type");
     });
 
+    it("TEXT[] and JSONB match their information_schema names", () => {
+      expect(classifyTypeChange(col("ARRAY"), "TEXT[]").reason).toBe("Same type");
+      expect(classifyTypeChange(col("jsonb"), "JSONB").reason).toBe("Same type");
+    });
+
     it("NUMERIC → NUMERIC is same type", () => {
       const result = classifyTypeChange(col("numeric"), "NUMERIC");
       expect(result.safe).toBe(true);
@@ -0,0 +1,334 @@
+/**
+ * Migration Plans — Test Suite
+ *
+ * Plans migrations against a fake database catalog and checks the SQL
+ * they would run, the drift they report, how drift approval gates
+ * applying them, the schema_migrations record of an applied plan, and
+ * the renames, transforms and archived drops migration hints ask for.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { defineEntity, type EntityDefinition, type FieldDefinition } from "@metasaas/contracts";
+
+/** Tables by name → column → information_schema data_type */
+let tables: Record<string, Record<string, string>>;
+/** approved_drift of each schema_migrations row */
+let approvedDrift: string[][];
+/** Statements that would change the database */
+let writes: string[];
+/** Statements made to fail, by prefix */
+let failing: string[];
+
+const mockUnsafe = vi.fn(async (query: string, params: unknown[] = []) => {
+  if (query.includes("FROM information_schema.tables")) {
+    return tables[params[0] as string] ? [{ "?column?": 1 }] : [];
+  }
+  if (query.includes("FROM information_schema.columns")) {
+    return Object.entries(tables[params[0] as string] ?? {}).map(([column_name, data_type]) => ({
+      column_name,
+      data_type,
+      character_maximum_length: null,
+    }));
+  }
+  if (query.includes("FROM pg_index") || query.includes("FROM pg_constraint")) return [];
+  if (query.includes("FROM schema_migrations")) {
+    return approvedDrift.map((approved_drift) => ({ approved_drift }));
+  }
+  if (failing.some((prefix) => query.startsWith(prefix))) throw new Error("permission denied");
+  writes.push(query.trim());
+  return [];
+});
+
+/** postgres.js transactions, marked in `writes` */
+async function begin(fn: (tx: { unsafe: typeof mockUnsafe }) => Promise<void>) {
+  writes.push("BEGIN");
+  try {
+    await fn({ unsafe: mockUnsafe });
+    writes.push("COMMIT");
+  } catch (err) {
+    writes.push("ROLLBACK");
+    throw err;
+  }
+}
+
+vi.mock("./connection.js", () => ({
+  getDatabase: () => ({ sql: { unsafe: mockUnsafe, begin } }),
+}));
+
+import {
+  planMigrations,
+  applyMigrationPlan,
+  formatMigrationPlan,
+  runMigrations,
+  MigrationDriftError,
+} from "./migrate.js";
+
+function createTask(fields: FieldDefinition[] = [], overrides: Partial<EntityDefinition> = {}): EntityDefinition {
+  return defineEntity({
+    name: "Task",
+    pluralName: "Tasks",
+    description: "A unit of work",
+    fields: [
+      { name: "title", type: "text", required: true, description: "Title" },
+      { name: "estimate", type: "number", required: false, description: "Hours" },
+      ...fields,
+    ],
+    ui: { icon: "check", listColumns: ["title"], searchFields: [], defaultSort: { field: "title", direction: "asc" } },
+    ...overrides,
+  });
+}
+
+/** The tasks table as createTask() leaves it */
+function existingTasks(extra: Record<string, string> = {}) {
+  return {
+    id: "uuid",
+    tenant_id: "uuid",
+    created_at: "timestamp with time zone",
+    updated_at: "timestamp with time zone",
+    title: "text",
+    estimate: "numeric",
+    ...extra,
+  };
+}
+
+describe("Migration plans", () => {
+  beforeEach(() => {
+    tables = {};
+    approvedDrift = [];
+    writes = [];
+    failing = [];
+    mockUnsafe.mockClear();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  describe("planMigrations()", () => {
+    it("plans a new table with its indexes without changing the database", async () => {
+      const plan = await planMigrations([createTask()]);
+
+      expect(plan.steps.map((s) => s.kind)).toEqual(["create_table", "create_index"]);
+      expect(plan.steps[0].sql[0]).toContain("CREATE TABLE tasks (");
+      expect(plan.steps[1].sql).toEqual([
+        "CREATE INDEX idx_tasks_title ON tasks (tenant_id, title)",
+        "COMMENT ON INDEX idx_tasks_title IS 'metasaas:CREATE INDEX idx_tasks_title ON tasks (tenant_id, title)'",
+      ]);
+      expect(plan.drift).toEqual([]);
+      expect(writes).toEqual([]);
+    });
+
+    it("adds new columns, alters safe type changes and reports drift", async () => {
+      tables.tasks = existingTasks({ legacy_code: "text", notes: "character varying" });
+      const plan = await planMigrations([
+        createTask([], {
+          fields: [
+            { name: "title", type: "number", required: true, description: "Title" },
+            { name: "estimate", type: "number", required: false, description: "Hours" },
+            { name: "notes", type: "text", required: false, description: "Notes" },
+            { name: "dueDate", type: "date", required: true, description: "Due" },
+          ],
+        }),
+      ]);
+
+      const sql = plan.steps.flatMap((s) => s.sql);
+      expect(sql).toContain("ALTER TABLE tasks ADD COLUMN due_date TIMESTAMPTZ");
+      expect(sql).toContain("ALTER TABLE tasks ALTER COLUMN notes TYPE TEXT USING notes::TEXT");
+      expect(plan.drift.map((d) => [d.key, d.approved])).toEqual([
+        ["type_change:tasks.title:text->NUMERIC", false],
+        ["extra_column:tasks.legacy_code", false],
+      ]);
+      expect(plan.warnings).toHaveLength(1);
+      expect(plan.warnings[0]).toContain('"dueDate"');
+    });
+
+    it("marks drift an earlier migration approved", async () => {
+      tables.tasks = existingTasks({ legacy_code: "text" });
+      tables.schema_migrations = {};
+      approvedDrift = [["extra_column:tasks.legacy_code"]];
+
+      const plan = await planMigrations([createTask()]);
+      expect(plan.drift).toEqual([expect.objectContaining({ key: "extra_column:tasks.legacy_code", approved: true })]);
+    });
+
+    it("enables the trigram extensions before the first trigram index", async () => {
+      const plan = await planMigrations([
+        createTask([], { ui: { icon: "check", listColumns: ["title"], searchFields: ["title"], defaultSort: { field: "createdAt", direction: "desc" } } }),
+      ]);
+      expect(plan.steps.map((s) => s.kind)).toEqual(["create_table", "create_index", "enable_extensions", "create_index"]);
+      expect(plan.steps[3]).toMatchObject({ optional: true, trigram: true });
+    });
+
+    it("renames the column of a field with renamedFrom, keeping its data", async () => {
+      const { estimate, ...columns } = existingTasks();
+      tables.tasks = { ...columns, hours: estimate };
+      const plan = await planMigrations([
+        createTask([], {
+          fields: [
+            { name: "title", type: "text", required: true, description: "Title" },
+            { name: "estimate", type: "number", required: false, description: "Hours", migration: { renamedFrom: "hours" } },
+          ],
+        }),
+      ]);
+
+      expect(plan.steps[0]).toMatchObject({
+        kind: "rename_column",
+        sql: ["ALTER TABLE tasks RENAME COLUMN hours TO estimate"],
+        transactional: true,
+      });
+      expect(plan.steps.some((s) => s.kind === "add_column")).toBe(false);
+      expect(plan.drift).toEqual([]);
+    });
+
+    it("reports a rename as drift when both columns exist", async () => {
+      tables.tasks = existingTasks({ hours: "numeric" });
+      const plan = await planMigrations([
+        createTask([], {
+          fields: [
+            { name: "title", type: "text", required: true, description: "Title" },
+            { name: "estimate", type: "number", required: false, description: "Hours", migration: { renamedFrom: "hours" } },
+          ],
+        }),
+      ]);
+
+      expect(plan.steps.some((s) => s.kind === "rename_column")).toBe(false);
+      expect(plan.drift.map((d) => d.key)).toEqual(["rename:tasks.hours->estimate"]);
+    });
+
+    it("converts a type change with the field's transform instead of reporting drift", async () => {
+      tables.tasks = existingTasks({ estimate: "text" });
+      const plan = await planMigrations([
+        createTask([], {
+          fields: [
+            { name: "title", type: "text", required: true, description: "Title" },
+            { name: "estimate", type: "number", required: false, description: "Hours", migration: { transform: "nullif(trim(estimate), '')" } },
+          ],
+        }),
+      ]);
+
+      expect(plan.steps[0]).toMatchObject({
+        kind: "transform_column",
+        sql: ["ALTER TABLE tasks ALTER COLUMN estimate TYPE NUMERIC USING (nullif(trim(estimate), ''))::NUMERIC"],
+        transactional: true,
+      });
+      expect(plan.drift).toEqual([]);
+    });
+
+    it("archives the values of dropped fields before dropping their columns", async () => {
+      tables.tasks = existingTasks({ legacy_code: "text" });
+      const plan = await planMigrations([createTask([], { droppedFields: ["legacyCode", "neverExisted"] })]);
+
+      expect(plan.steps).toHaveLength(2);
+      const [drop] = plan.steps;
+      expect(drop.kind).toBe("drop_column");
+      expect(drop.transactional).toBe(true);
+      expect(drop.sql[0]).toContain("CREATE TABLE IF NOT EXISTS field_archive");
+      expect(drop.sql.slice(1)).toEqual([
+        "INSERT INTO field_archive (table_name, column_name, record_id, tenant_id, value)\n" +
+          "SELECT 'tasks', 'legacy_code', id, tenant_id, to_jsonb(legacy_code) FROM tasks WHERE legacy_code IS NOT NULL",
+        "ALTER TABLE tasks DROP COLUMN legacy_code",
+      ]);
+      expect(plan.drift).toEqual([]);
+    });
+
+    it("gives the same plan the same checksum", async () => {
+      const first = await planMigrations([createTask()]);
+      const second = await planMigrations([createTask()]);
+      const other = await planMigrations([createTask([{ name: "done", type: "boolean", required: false, description: "Done" }])]);
+      expect(first.checksum).toMatch(/^[0-9a-f]{64}$/);
+      expect(second.checksum).toBe(first.checksum);
+      expect(other.checksum).not.toBe(first.checksum);
+    });
+  });
+
+  describe("applyMigrationPlan()", () => {
+    it("refuses unapproved drift before changing anything", async () => {
+      tables.tasks = existingTasks({ legacy_code: "text" });
+      const plan = await planMigrations([createTask([{ name: "done", type: "boolean", required: false, description: "Done" }])]);
+
+      await expect(applyMigrationPlan(plan)).rejects.toThrow(MigrationDriftError);
+      await expect(applyMigrationPlan(plan)).rejects.toThrow("tasks.legacy_code");
+      expect(writes).toEqual([]);
+    });
+
+    it("applies the steps and leaves drift unapproved when only warning about it", async () => {
+      tables.tasks = existingTasks({ legacy_code: "text" });
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const plan = await runMigrations([createTask([{ name: "done", type: "boolean", required: false, description: "Done" }])], {
+        warnOnDrift: true,
+      });
+
+      expect(writes[0]).toBe("ALTER TABLE tasks ADD COLUMN done BOOLEAN");
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("legacy_code"));
+      const insert = mockUnsafe.mock.calls.find(([query]) => query.startsWith("INSERT INTO schema_migrations"));
+      expect(insert?.[1]).toEqual([plan.checksum, JSON.stringify(plan.steps.flatMap((s) => s.sql)), "[]"]);
+      warn.mockRestore();
+    });
+
+    it("applies approved drift and records it with the plan", async () => {
+      tables.tasks = existingTasks({ legacy_code: "text" });
+      const plan = await runMigrations([createTask([{ name: "done", type: "boolean", required: false, description: "Done" }])], {
+        approveDrift: true,
+      });
+
+      expect(writes[0]).toBe("ALTER TABLE tasks ADD COLUMN done BOOLEAN");
+      expect(writes.some((w) => w.startsWith("CREATE TABLE IF NOT EXISTS schema_migrations"))).toBe(true);
+      const insert = mockUnsafe.mock.calls.find(([query]) => query.startsWith("INSERT INTO schema_migrations"));
+      expect(insert?.[1]).toEqual([
+        plan.checksum,
+        JSON.stringify(plan.steps.flatMap((s) => s.sql)),
+        JSON.stringify(["extra_column:tasks.legacy_code"]),
+      ]);
+    });
+
+    it("runs data-moving steps in a transaction, rolled back when one fails", async () => {
+      tables.tasks = existingTasks({ legacy_code: "text" });
+      failing = ["ALTER TABLE tasks DROP COLUMN"];
+      const plan = await planMigrations([createTask([], { droppedFields: ["legacyCode"] })]);
+
+      await expect(applyMigrationPlan(plan)).rejects.toThrow("permission denied");
+      expect(writes[0]).toBe("BEGIN");
+      expect(writes[2]).toMatch(/^INSERT INTO field_archive/);
+      expect(writes[3]).toBe("ROLLBACK");
+      expect(writes.some((w) => w.startsWith("INSERT INTO schema_migrations"))).toBe(false);
+    });
+
+    it("records nothing when the database is up to date", async () => {
+      const plan = { steps: [], drift: [], warnings: [], checksum: "x" };
+      await applyMigrationPlan(plan);
+      expect(writes).toEqual([]);
+    });
+
+    it("skips failed optional steps and trigram indexes without the extensions", async () => {
+      failing = ["CREATE EXTENSION", "CREATE INDEX idx_tasks_title "];
+      const plan = await planMigrations([
+        createTask([], { ui: { icon: "check", listColumns: ["title"], searchFields: ["title"], defaultSort: { field: "title", direction: "asc" } } }),
+      ]);
+      await applyMigrationPlan(plan);
+
+      expect(writes.some((w) => w.startsWith("CREATE TABLE tasks"))).toBe(true);
+      expect(writes.some((w) => w.includes("idx_tasks_title"))).toBe(false);
+      expect(writes.some((w) => w.includes("gin_trgm_ops"))).toBe(false);
+      const insert = mockUnsafe.mock.calls.find(([query]) => query.startsWith("INSERT INTO schema_migrations"));
+      expect(JSON.parse(insert?.[1]?.[1] as string)).toHaveLength(1);
+    });
+  });
+
+  describe("formatMigrationPlan()", () => {
+    it("says when there is nothing to do", () => {
+      expect(formatMigrationPlan({ steps: [], drift: [], warnings: [], checksum: "x" })).toBe(
+        "The database is up to date."
+      );
+    });
+
+    it("lists each entity's SQL and drift", async () => {
+      tables.tasks = existingTasks({ legacy_code: "text" });
+      const text = formatMigrationPlan(
+        await planMigrations([createTask([{ name: "done", type: "boolean", required: false, description: "Done" }])])
+      );
+
+      expect(text).toContain("Task:\n  + Add column tasks.done\n      ALTER TABLE tasks ADD COLUMN done BOOLEAN");
+      expect(text).toContain("  ! Column \"tasks.legacy_code\" exists in the database");
+      expect(text).toContain("(drift — needs approval)");
+      expect(text).toMatch(/2 step\(s\), 1 drift item\(s\), 1 not approved\. Checksum: [0-9a-f]{64}$/);
+    });
+  });
+});
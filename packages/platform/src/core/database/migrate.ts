@@ -7,17 +7,33 @@
  *   1. CREATE TABLE IF NOT EXISTS — for new entities
  *   2. ALTER TABLE ADD COLUMN — for new fields added to existing entities
  *   3. ALTER COLUMN TYPE — for safe type changes (widening conversions)
- *   4. Logs warnings for removed fields (does NOT drop columns — data safety)
- *   5. Logs warnings for unsafe type changes (narrowing conversions)
+ *   4. Reports removed fields as drift (does NOT drop columns — data safety)
+ *   5. Reports unsafe type changes (narrowing conversions) as drift
+ *   6. CREATE TABLE for manyToMany junction tables
+ *   7. ADD COLUMN deleted_at when an entity opts into soft delete
+ *   8. CREATE / DROP INDEX to match the entity's indexes (see indexes.ts)
+ *   9. ADD / DROP CONSTRAINT to match the entity's constraints (see constraints.ts)
+ *  10. RENAME COLUMN, ALTER COLUMN TYPE with a transform, and DROP COLUMN after
+ *      archiving the values — only when a migration hint asks, each in a transaction
+ *
+ * Changes are planned before anything is applied (planMigrations): the
+ * plan lists the exact SQL per entity and can be printed without running
+ * it (`pnpm db:migrate -- --dry-run`). A plan with drift no earlier migration
+ * approved is refused unless the drift is approved explicitly. Applied
+ * plans are recorded, with a checksum, in the schema_migrations table.
  *
  * SECURITY: All values are sanitized before being included in SQL.
  * Table names and column names are validated against a safe character set.
  * Default values are type-checked and escaped — never raw-interpolated.
  */
 
+import { createHash } from "node:crypto";
 import { sql } from "drizzle-orm";
 import { getDatabase } from "./connection.js";
 import { getAllTableSchemas, toTableName, toColumnName } from "./schema-builder.js";
+import { resolveToManyRelationships } from "./relationships.js";
+import { entityIndexes, diffManaged, MANAGED_COMMENT } from "./indexes.js";
+import { entityConstraints, checkExpressionSQL } from "./constraints.js";
 import type { EntityDefinition, FieldDefinition } from "@metasaas/contracts";
 
 /**
@@ -102,6 +118,21 @@ function buildDefaultClause(field: FieldDefinition): string {
       }
       return ` DEFAULT '${String(value).replace(/'/g, "''")}'`;
 
+    case "multi_enum":
+    case "tags": {
+      // List defaults must be arrays of strings
+      if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+        throw new Error(
+          `Invalid default value for list field "${field.name}": ${JSON.stringify(value)}`
+        );
+      }
+      const items = value.map((item: string) => `'${item.replace(/'/g, "''")}'`);
+      return ` DEFAULT ARRAY[${items.join(", ")}]::TEXT[]`;
+    }
+
+    case "json":
+      return ` DEFAULT '${JSON.stringify(value).replace(/'/g, "''")}'::jsonb`;
+
     default:
       // Unknown types: escape and use as string
       return ` DEFAULT '${String(value).replace(/'/g, "''")}'`;
@@ -169,6 +200,8 @@ async function getExistingColumnTypes(
  *   TIMESTAMPTZ → "timestamp with time zone"
  *   BOOLEAN → "boolean"
  *   UUID → "uuid"
+ *   JSONB → "jsonb"
+ *   TEXT[] → "ARRAY" (any array type)
  */
 function normalizeToInfoSchemaType(sqlType: string): { dataType: string; maxLength: number | null } {
   const upper = sqlType.toUpperCase();
@@ -178,6 +211,8 @@ function normalizeToInfoSchemaType(sqlType: string): { dataType: string; maxLeng
   if (upper === "NUMERIC") return { dataType: "numeric", maxLength: null };
   if (upper === "TIMESTAMPTZ") return { dataType: "timestamp with time zone", maxLength: null };
   if (upper === "UUID") return { dataType: "uuid", maxLength: null };
+  if (upper === "JSONB") return { dataType: "jsonb", maxLength: null };
+  if (upper.endsWith("[]")) return { dataType: "ARRAY", maxLength: null };
 
   // VARCHAR(N)
   const varcharMatch = upper.match(/^VARCHAR\((\d+)\)$/);
@@ -293,6 +328,9 @@ function getExpectedColumns(entity: EntityDefinition): Map<string, { field: Fiel
   expected.set("tenant_id", { field: null, isFk: false });
   expected.set("created_at", { field: null, isFk: false });
   expected.set("updated_at", { field: null, isFk: false });
+  if (entity.softDelete) {
+    expected.set("deleted_at", { field: null, isFk: false });
+  }
 
   // Entity fields
   for (const field of entity.fields) {
@@ -314,22 +352,162 @@ function getExpectedColumns(entity: EntityDefinition): Map<string, { field: Fiel
   return expected;
 }
 
+// ---------------------------------------------------------------------------
+// Migration plans
+// ---------------------------------------------------------------------------
+
+export type MigrationStepKind =
+  | "create_table"
+  | "add_column"
+  | "rename_column"
+  | "alter_column_type"
+  | "transform_column"
+  | "drop_column"
+  | "enable_extensions"
+  | "create_index"
+  | "drop_index"
+  | "add_constraint"
+  | "drop_constraint"
+  | "create_junction_table";
+
+/** One change to the database, as the SQL that makes it */
+export interface MigrationStep {
+  kind: MigrationStepKind;
+
+  /** Entity whose definition calls for the change */
+  entity: string;
+
+  /** What the step does, e.g. "Add column tasks.priority" */
+  description: string;
+
+  /** SQL statements, run in order */
+  sql: string[];
+
+  /**
+   * Index and constraint builds: when one fails — a unique index over rows
+   * that already repeat, say — it is logged and the migration carries on
+   */
+  optional?: boolean;
+
+  /** Trigram index: skipped when the search extensions can't be installed */
+  trigram?: boolean;
+
+  /**
+   * Run the statements in one transaction — steps that move data (renames,
+   * transforms, drops) either complete or leave the table as it was
+   */
+  transactional?: boolean;
+}
+
+/**
+ * A difference between the database and the entities that the migration
+ * won't resolve on its own: a column the entity no longer declares, a type
+ * change that may lose data, or an index or constraint the platform didn't
+ * create holding a name it needs.
+ */
+export interface MigrationDrift {
+  /** Stable identifier, recorded when the drift is approved (e.g. "extra_column:tasks.legacy") */
+  key: string;
+
+  entity: string;
+
+  message: string;
+
+  /** Whether an earlier migration approved it */
+  approved: boolean;
+}
+
+/** What a migration would do, worked out without changing the database */
+export interface MigrationPlan {
+  steps: MigrationStep[];
+
+  drift: MigrationDrift[];
+
+  /** Notes about steps that don't do quite what the entity asks (e.g. a required column added as nullable) */
+  warnings: string[];
+
+  /** SHA-256 of the plan's SQL — recorded in schema_migrations when it is applied */
+  checksum: string;
+}
+
+export interface MigrationOptions {
+  /**
+   * Apply the plan even though it has drift no earlier migration approved,
+   * and record the drift as approved. Without it, such a plan is refused.
+   */
+  approveDrift?: boolean;
+
+  /**
+   * Apply the plan's steps despite drift no migration approved, logging the
+   * drift instead of refusing. The drift stays unapproved — the API does
+   * this at startup; the `migrate` CLI refuses.
+   */
+  warnOnDrift?: boolean;
+}
+
 /**
- * Runs migrations for all registered entity schemas.
+ * Thrown when a plan has drift no migration has approved. The database is
+ * left untouched.
+ */
+export class MigrationDriftError extends Error {
+  public readonly drift: MigrationDrift[];
+
+  constructor(drift: MigrationDrift[]) {
+    super(
+      `Migration refused: the database has drifted from the entity definitions:\n` +
+        drift.map((d) => `  - ${d.entity}: ${d.message}`).join("\n") +
+        `\nResolve it, or approve it once with \`pnpm db:migrate -- --approve-drift\`.`
+    );
+    this.name = "MigrationDriftError";
+    this.drift = drift;
+  }
+}
+
+/**
+ * Runs migrations for all registered entity schemas: plans them
+ * (planMigrations) and applies the plan (applyMigrationPlan).
+ * Returns the plan that was applied.
+ */
+export async function runMigrations(
+  entities: EntityDefinition[],
+  options: MigrationOptions = {}
+): Promise<MigrationPlan> {
+  const plan = await planMigrations(entities);
+  await applyMigrationPlan(plan, options);
+  return plan;
+}
+
+/**
+ * Works out what a migration would change, reading the database but
+ * never writing to it.
  *
  * For each entity:
  *   1. If the table doesn't exist → CREATE TABLE
- *   2. If the table exists → diff columns and ALTER TABLE ADD COLUMN for new ones
- *   3. Log warnings for columns that exist in DB but not in the entity (removed fields)
+ *   2. If the table exists → ALTER TABLE ADD COLUMN for new columns, and
+ *      ALTER COLUMN TYPE for safe type changes (see classifyTypeChange)
+ *   3. Columns that exist in DB but not in the entity (removed fields) and
+ *      unsafe type changes are drift — never dropped or converted, unless
+ *      a migration hint says how: a field's `migration.renamedFrom` renames
+ *      its old column, `migration.transform` converts its values, and the
+ *      entity's `droppedFields` archive and drop columns (see FieldMigration)
+ *   4. Create, drop or rebuild indexes and constraints to match the entity's
+ *
+ * Then creates the junction tables of manyToMany relationships, once all
+ * entity tables they reference exist.
  *
  * SECURITY: All identifiers are validated, all values are escaped.
  */
-export async function runMigrations(entities: EntityDefinition[]) {
+export async function planMigrations(entities: EntityDefinition[]): Promise<MigrationPlan> {
   const { sql: pgSql } = getDatabase();
+  const steps: MigrationStep[] = [];
+  const drift: Omit<MigrationDrift, "approved">[] = [];
+  const warnings: string[] = [];
 
   for (const entity of entities) {
     const tableName = toTableName(entity.name);
     validateIdentifier(tableName, "table name");
+    const step = (kind: MigrationStepKind, description: string, sql: string[], extra: Partial<MigrationStep> = {}) =>
+      steps.push({ kind, entity: entity.name, description, sql, ...extra });
 
     const exists = await tableExists(pgSql, tableName);
 
@@ -341,11 +519,14 @@ export async function runMigrations(entities: EntityDefinition[]) {
         "created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()",
         "updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()",
       ];
+      if (entity.softDelete) {
+        columnDefs.push("deleted_at TIMESTAMPTZ");
+      }
 
       for (const field of entity.fields) {
         const colName = toColumnName(field.name);
         validateIdentifier(colName, `column name for field "${field.name}"`);
-        const sqlType = fieldTypeToSQL(field.type);
+        const sqlType = columnSQLType(field);
         const notNull = field.required ? " NOT NULL" : "";
         const defaultClause = buildDefaultClause(field);
         columnDefs.push(`${colName} ${sqlType}${notNull}${defaultClause}`);
@@ -364,74 +545,98 @@ export async function runMigrations(entities: EntityDefinition[]) {
         }
       }
 
-      const createSQL = `CREATE TABLE ${tableName} (\n  ${columnDefs.join(",\n  ")}\n)`;
-      await pgSql.unsafe(createSQL);
-      console.log(`[migrate] Created table: ${tableName}`);
+      const sql = [`CREATE TABLE ${tableName} (\n  ${columnDefs.join(",\n  ")}\n)`];
+      if (entity.softDelete) sql.push(trashIndexSQL(tableName));
+      step("create_table", `Create table ${tableName}`, sql);
     } else {
       // ── ALTER TABLE (schema evolution) ────────────────────────────
       const existingCols = await getExistingColumns(pgSql, tableName);
+      const existingColTypes = await getExistingColumnTypes(pgSql, tableName);
       const expectedCols = getExpectedColumns(entity);
-      let addedCount = 0;
+      /** Columns not in the entity that a migration hint accounts for */
+      const hinted = new Set<string>();
+
+      // Renamed fields — the old column moves to the new name, data and all
+      for (const field of entity.fields) {
+        const from = field.migration?.renamedFrom;
+        if (!from) continue;
+        const oldCol = toColumnName(from);
+        const colName = toColumnName(field.name);
+        validateIdentifier(oldCol, `previous column of field "${field.name}"`);
+        validateIdentifier(colName, `column name for field "${field.name}"`);
+        if (!existingCols.has(oldCol)) continue;
+        hinted.add(oldCol);
+
+        if (existingCols.has(colName)) {
+          drift.push({
+            key: `rename:${tableName}.${oldCol}->${colName}`,
+            entity: entity.name,
+            message:
+              `Field "${field.name}" was renamed from "${from}", but "${tableName}" has both columns ` +
+              `"${oldCol}" and "${colName}". Neither is changed; merge them manually.`,
+          });
+          continue;
+        }
+
+        step("rename_column", `Rename column ${tableName}.${oldCol} to ${colName}`, [
+          `ALTER TABLE ${tableName} RENAME COLUMN ${oldCol} TO ${colName}`,
+        ], { transactional: true });
+        existingCols.delete(oldCol);
+        existingCols.add(colName);
+        const info = existingColTypes.get(oldCol);
+        if (info) existingColTypes.set(colName, { ...info, name: colName });
+      }
 
       // Add new columns that don't exist yet
       for (const [colName, meta] of expectedCols) {
-        if (!existingCols.has(colName)) {
-          validateIdentifier(colName, `new column for "${entity.name}"`);
-
-          let alterSQL: string;
-          if (meta.isFk && meta.fkRef) {
-            // Foreign key column
-            validateIdentifier(meta.fkRef, `referenced table for FK "${colName}"`);
-            alterSQL = `ALTER TABLE ${tableName} ADD COLUMN ${colName} UUID REFERENCES ${meta.fkRef}(id) ON DELETE SET NULL`;
-          } else if (meta.field) {
-            // Regular field column
-            const sqlType = fieldTypeToSQL(meta.field.type);
-            // New columns on existing tables must be nullable or have a default
-            // to avoid breaking existing rows. If the field is required AND has
-            // no default, we add it as nullable and log a warning.
-            const hasDefault = meta.field.defaultValue !== undefined;
-            const notNull = meta.field.required && hasDefault ? " NOT NULL" : "";
-            const defaultClause = buildDefaultClause(meta.field);
-
-            if (meta.field.required && !hasDefault) {
-              console.warn(
-                `[migrate] WARNING: Adding required field "${meta.field.name}" to existing table "${tableName}" without a default. ` +
-                `Column will be nullable to avoid breaking existing rows. Consider adding a defaultValue.`
-              );
-            }
-
-            alterSQL = `ALTER TABLE ${tableName} ADD COLUMN ${colName} ${sqlType}${notNull}${defaultClause}`;
-          } else if (colName === "tenant_id") {
-            // Multi-tenancy system column — add as nullable for existing rows,
-            // then backfill with a default tenant and add NOT NULL constraint.
-            alterSQL = `ALTER TABLE ${tableName} ADD COLUMN tenant_id UUID`;
-            await pgSql.unsafe(alterSQL);
-            // Backfill existing rows with the dev tenant ID
-            await pgSql.unsafe(
-              `UPDATE ${tableName} SET tenant_id = '00000000-0000-0000-0000-000000000001' WHERE tenant_id IS NULL`
+        if (existingCols.has(colName)) continue;
+        validateIdentifier(colName, `new column for "${entity.name}"`);
+
+        if (meta.isFk && meta.fkRef) {
+          // Foreign key column
+          validateIdentifier(meta.fkRef, `referenced table for FK "${colName}"`);
+          step("add_column", `Add column ${tableName}.${colName}`, [
+            `ALTER TABLE ${tableName} ADD COLUMN ${colName} UUID REFERENCES ${meta.fkRef}(id) ON DELETE SET NULL`,
+          ]);
+        } else if (meta.field) {
+          // Regular field column
+          const sqlType = columnSQLType(meta.field);
+          // New columns on existing tables must be nullable or have a default
+          // to avoid breaking existing rows. If the field is required AND has
+          // no default, we add it as nullable and log a warning.
+          const hasDefault = meta.field.defaultValue !== undefined;
+          const notNull = meta.field.required && hasDefault ? " NOT NULL" : "";
+          const defaultClause = buildDefaultClause(meta.field);
+
+          if (meta.field.required && !hasDefault) {
+            warnings.push(
+              `Adding required field "${meta.field.name}" to existing table "${tableName}" without a default. ` +
+              `Column will be nullable to avoid breaking existing rows. Consider adding a defaultValue.`
             );
-            // Now add the NOT NULL constraint
-            await pgSql.unsafe(
-              `ALTER TABLE ${tableName} ALTER COLUMN tenant_id SET NOT NULL`
-            );
-            addedCount++;
-            console.log(`[migrate] Added system column: ${tableName}.tenant_id (backfilled existing rows)`);
-            continue;
-          } else {
-            // Other system column somehow missing — skip (shouldn't happen)
-            continue;
           }
 
-          await pgSql.unsafe(alterSQL);
-          addedCount++;
-          console.log(`[migrate] Added column: ${tableName}.${colName}`);
+          step("add_column", `Add column ${tableName}.${colName}`, [
+            `ALTER TABLE ${tableName} ADD COLUMN ${colName} ${sqlType}${notNull}${defaultClause}`,
+          ]);
+        } else if (colName === "tenant_id") {
+          // Multi-tenancy system column — add as nullable for existing rows,
+          // backfill them with the dev tenant, then add the NOT NULL constraint
+          step("add_column", `Add system column ${tableName}.tenant_id (backfilling existing rows)`, [
+            `ALTER TABLE ${tableName} ADD COLUMN tenant_id UUID`,
+            `UPDATE ${tableName} SET tenant_id = '00000000-0000-0000-0000-000000000001' WHERE tenant_id IS NULL`,
+            `ALTER TABLE ${tableName} ALTER COLUMN tenant_id SET NOT NULL`,
+          ]);
+        } else if (colName === "deleted_at") {
+          // Soft delete enabled on an existing entity — every row starts live
+          step("add_column", `Add system column ${tableName}.deleted_at (soft delete)`, [
+            `ALTER TABLE ${tableName} ADD COLUMN deleted_at TIMESTAMPTZ`,
+            trashIndexSQL(tableName),
+          ]);
         }
+        // Other system column somehow missing — skip (shouldn't happen)
       }
 
       // Check for type changes on existing columns
-      const existingColTypes = await getExistingColumnTypes(pgSql, tableName);
-      let alteredCount = 0;
-
       for (const [colName, meta] of expectedCols) {
         // Only check entity fields (not system columns or FKs)
         if (!meta.field || meta.isFk) continue;
@@ -440,49 +645,399 @@ export async function runMigrations(entities: EntityDefinition[]) {
         const existingInfo = existingColTypes.get(colName);
         if (!existingInfo) continue;
 
-        const expectedSqlType = fieldTypeToSQL(meta.field.type);
+        const expectedSqlType = columnSQLType(meta.field);
         const classification = classifyTypeChange(existingInfo, expectedSqlType);
 
         // Skip if types already match
         if (classification.reason === "Same type") continue;
 
-        if (classification.safe) {
-          // Safe conversion — execute automatically
+        const transform = meta.field.migration?.transform;
+        if (transform) {
+          // Converted with the field's transform — rolled back if any row fails to cast
+          const expression = checkExpressionSQL(transform, [meta.field.name]);
+          step("transform_column", `Convert ${tableName}.${colName} to ${expectedSqlType} with "${transform}"`, [
+            `ALTER TABLE ${tableName} ALTER COLUMN ${colName} TYPE ${expectedSqlType} USING (${expression})::${expectedSqlType}`,
+          ], { transactional: true });
+        } else if (classification.safe) {
           validateIdentifier(colName, `column to alter in "${tableName}"`);
-          const alterSQL = `ALTER TABLE ${tableName} ALTER COLUMN ${colName} TYPE ${expectedSqlType} USING ${colName}::${expectedSqlType}`;
-          await pgSql.unsafe(alterSQL);
-          alteredCount++;
-          console.log(`[migrate] Altered column type: ${tableName}.${colName} (${classification.reason})`);
+          step("alter_column_type", `Change type of ${tableName}.${colName} (${classification.reason})`, [
+            `ALTER TABLE ${tableName} ALTER COLUMN ${colName} TYPE ${expectedSqlType} USING ${colName}::${expectedSqlType}`,
+          ]);
         } else {
-          // Unsafe conversion — log warning, require manual intervention
-          console.warn(
-            `[migrate] WARNING: Column "${tableName}.${colName}" type mismatch. ` +
-            `DB has "${existingInfo.dataType}", entity expects "${expectedSqlType}". ` +
-            `Skipping: ${classification.reason}. Alter manually if needed.`
-          );
+          // Unsafe conversion — requires manual intervention
+          drift.push({
+            key: `type_change:${tableName}.${colName}:${existingInfo.dataType}->${expectedSqlType}`,
+            entity: entity.name,
+            message:
+              `Column "${tableName}.${colName}" is ${existingInfo.dataType}, the entity expects ${expectedSqlType}: ` +
+              `${classification.reason}. Alter it manually.`,
+          });
         }
       }
 
-      if (alteredCount > 0) {
-        console.log(`[migrate] Altered ${alteredCount} column type(s) in "${tableName}"`);
+      // Dropped fields — the values are archived, then the column dropped
+      for (const name of entity.droppedFields ?? []) {
+        const colName = toColumnName(name);
+        validateIdentifier(colName, `dropped column of "${entity.name}"`);
+        if (!existingCols.has(colName) || expectedCols.has(colName)) continue;
+        hinted.add(colName);
+        step("drop_column", `Drop column ${tableName}.${colName}, archiving its values`, [
+          FIELD_ARCHIVE_TABLE,
+          `INSERT INTO field_archive (table_name, column_name, record_id, tenant_id, value)\n` +
+            `SELECT '${tableName}', '${colName}', id, tenant_id, to_jsonb(${colName}) FROM ${tableName} WHERE ${colName} IS NOT NULL`,
+          `ALTER TABLE ${tableName} DROP COLUMN ${colName}`,
+        ], { transactional: true });
       }
 
-      // Warn about columns in DB that aren't in the entity definition
-      // (never drop — data safety first)
+      // Other columns in DB that aren't in the entity definition are never dropped
       for (const existingCol of existingCols) {
-        if (!expectedCols.has(existingCol)) {
-          console.warn(
-            `[migrate] WARNING: Column "${tableName}.${existingCol}" exists in DB but not in entity definition. ` +
-            `It will NOT be dropped. Remove manually if no longer needed.`
-          );
+        if (!expectedCols.has(existingCol) && !hinted.has(existingCol)) {
+          drift.push({
+            key: `extra_column:${tableName}.${existingCol}`,
+            entity: entity.name,
+            message: `Column "${tableName}.${existingCol}" exists in the database but not in the entity definition. It will not be dropped.`,
+          });
+        }
+      }
+    }
+
+    // ── Indexes and constraints ───────────────────────────────────
+    const indexChanges = await planIndexes(pgSql, entity, tableName, exists);
+    for (const name of indexChanges.conflicts) {
+      drift.push({
+        key: `unmanaged_index:${tableName}.${name}`,
+        entity: entity.name,
+        message: `Index "${name}" on "${tableName}" exists but wasn't created by the platform; it is left as is.`,
+      });
+    }
+    for (const name of indexChanges.drop) {
+      step("drop_index", `Drop index ${name}`, [`DROP INDEX IF EXISTS ${name}`]);
+    }
+    for (const index of indexChanges.create) {
+      if (index.trigram && !steps.some((s) => s.kind === "enable_extensions")) {
+        step("enable_extensions", "Enable trigram search (pg_trgm, btree_gin)", [
+          `CREATE EXTENSION IF NOT EXISTS pg_trgm`,
+          `CREATE EXTENSION IF NOT EXISTS btree_gin`,
+        ], { optional: true });
+      }
+      step(
+        "create_index",
+        `Create index ${index.name}`,
+        [index.definition, `COMMENT ON INDEX ${index.name} IS ${managedComment(index.definition)}`],
+        { optional: true, trigram: index.trigram }
+      );
+    }
+
+    const constraintChanges = await planConstraints(pgSql, entity, tableName, exists);
+    for (const name of constraintChanges.conflicts) {
+      drift.push({
+        key: `unmanaged_constraint:${tableName}.${name}`,
+        entity: entity.name,
+        message: `Constraint "${name}" on "${tableName}" exists but wasn't created by the platform; it is left as is.`,
+      });
+    }
+    for (const name of constraintChanges.drop) {
+      step("drop_constraint", `Drop constraint ${tableName}.${name}`, [
+        `ALTER TABLE ${tableName} DROP CONSTRAINT IF EXISTS ${name}`,
+      ]);
+    }
+    for (const constraint of constraintChanges.create) {
+      step(
+        "add_constraint",
+        `Add constraint ${tableName}.${constraint.name}`,
+        [
+          `ALTER TABLE ${tableName} ADD CONSTRAINT ${constraint.name} ${constraint.definition}`,
+          `COMMENT ON CONSTRAINT ${constraint.name} ON ${tableName} IS ${managedComment(constraint.definition)}`,
+        ],
+        { optional: true }
+      );
+    }
+  }
+
+  steps.push(...(await planJunctionTables(pgSql, entities)));
+
+  const approved = await approvedDriftKeys(pgSql);
+  return {
+    steps,
+    drift: drift.map((d) => ({ ...d, approved: approved.has(d.key) })),
+    warnings,
+    checksum: planChecksum(steps),
+  };
+}
+
+/**
+ * Applies a plan from planMigrations, step by step, and records it in
+ * schema_migrations. Refuses — before changing anything — a plan with
+ * drift no migration has approved, unless `approveDrift` (record it as
+ * approved) or `warnOnDrift` (log it) is set. Drift is never acted on;
+ * only the plan's steps run.
+ *
+ * @throws MigrationDriftError for unapproved drift
+ */
+export async function applyMigrationPlan(plan: MigrationPlan, options: MigrationOptions = {}): Promise<void> {
+  const { sql: pgSql } = getDatabase();
+
+  const unapproved = plan.drift.filter((d) => !d.approved);
+  if (unapproved.length > 0 && !options.approveDrift && !options.warnOnDrift) {
+    throw new MigrationDriftError(unapproved);
+  }
+  const approving = options.approveDrift ? unapproved : [];
+
+  for (const warning of plan.warnings) {
+    console.warn(`[migrate] WARNING: ${warning}`);
+  }
+  for (const d of plan.drift) {
+    console.warn(`[migrate] WARNING: ${d.message}${d.approved || approving.includes(d) ? " (approved)" : ""}`);
+  }
+  if (unapproved.length > approving.length) {
+    console.warn("[migrate] Unapproved drift left as is — resolve it, or approve it with `pnpm db:migrate -- --approve-drift`.");
+  }
+
+  const applied: string[] = [];
+  let trigramAvailable = true;
+
+  for (const step of plan.steps) {
+    if (step.trigram && !trigramAvailable) continue;
+    try {
+      if (step.transactional) {
+        await pgSql.begin(async (tx: any) => {
+          for (const statement of step.sql) await tx.unsafe(statement);
+        });
+      } else {
+        for (const statement of step.sql) {
+          await pgSql.unsafe(statement);
         }
       }
+    } catch (err) {
+      if (!step.optional) throw err;
+      if (step.kind === "enable_extensions") {
+        trigramAvailable = false;
+        console.warn(
+          `[migrate] WARNING: Could not enable pg_trgm/btree_gin (${(err as Error).message}). ` +
+          `Search fields will not be indexed.`
+        );
+      } else {
+        console.warn(`[migrate] WARNING: ${step.description} failed, skipping: ${(err as Error).message}`);
+      }
+      continue;
+    }
+    applied.push(...step.sql);
+    console.log(`[migrate] ${step.description}`);
+  }
 
-      if (addedCount > 0) {
-        console.log(`[migrate] Evolved table "${tableName}": added ${addedCount} column(s)`);
+  if (applied.length > 0 || approving.length > 0) {
+    await recordMigration(pgSql, plan.checksum, applied, approving);
+  }
+}
+
+/**
+ * The plan as text, grouped by entity: each step with its SQL, then the
+ * drift and warnings. What `pnpm db:migrate -- --dry-run` prints.
+ */
+export function formatMigrationPlan(plan: MigrationPlan): string {
+  if (plan.steps.length === 0 && plan.drift.length === 0 && plan.warnings.length === 0) {
+    return "The database is up to date.";
+  }
+
+  const lines: string[] = [];
+  const entities = [...new Set([...plan.steps.map((s) => s.entity), ...plan.drift.map((d) => d.entity)])];
+  for (const entity of entities) {
+    lines.push(`${entity}:`);
+    for (const step of plan.steps.filter((s) => s.entity === entity)) {
+      lines.push(`  + ${step.description}${step.optional ? " (skipped if it fails)" : ""}`);
+      for (const statement of step.sql) {
+        lines.push(...statement.split("\n").map((line) => `      ${line}`));
       }
     }
+    for (const d of plan.drift.filter((d) => d.entity === entity)) {
+      lines.push(`  ! ${d.message}${d.approved ? " (approved)" : " (drift — needs approval)"}`);
+    }
+  }
+  for (const warning of plan.warnings) {
+    lines.push(`Warning: ${warning}`);
+  }
+
+  const unapproved = plan.drift.filter((d) => !d.approved).length;
+  lines.push("");
+  lines.push(
+    `${plan.steps.length} step(s), ${plan.drift.length} drift item(s)` +
+      (unapproved > 0 ? `, ${unapproved} not approved` : "") +
+      `. Checksum: ${plan.checksum}`
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Values of dropped columns, one row per record and column — kept so a
+ * drop can be undone by hand
+ */
+const FIELD_ARCHIVE_TABLE = `CREATE TABLE IF NOT EXISTS field_archive (
+  id BIGSERIAL PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  column_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  tenant_id UUID NOT NULL,
+  value JSONB,
+  archived_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+)`;
+
+/** SHA-256 of the plan's SQL statements */
+function planChecksum(steps: MigrationStep[]): string {
+  const hash = createHash("sha256");
+  for (const step of steps) {
+    for (const statement of step.sql) hash.update(`${statement};\n`);
+  }
+  return hash.digest("hex");
+}
+
+/** Partial index over tombstoned rows — serves the Trash view and the retention purge without bloating the index with live rows */
+function trashIndexSQL(tableName: string): string {
+  return `CREATE INDEX IF NOT EXISTS idx_${tableName}_deleted ON ${tableName}(tenant_id, deleted_at) WHERE deleted_at IS NOT NULL`;
+}
+
+/**
+ * The index changes that bring a table in line with the entity (see
+ * indexes.ts). Only indexes the platform created — marked by their
+ * comment — are dropped; a hand-made index with an expected name is left
+ * alone and reported.
+ */
+async function planIndexes(pgSql: any, entity: EntityDefinition, tableName: string, exists: boolean) {
+  const expected = entityIndexes(entity);
+  for (const index of expected) {
+    validateIdentifier(index.name, `index name for "${entity.name}"`);
+  }
+  if (!exists) return diffManaged(new Map(), new Set(), expected);
+
+  const rows: { name: string; comment: string | null }[] = await pgSql.unsafe(
+    `SELECT c.relname AS name, obj_description(c.oid, 'pg_class') AS comment
+     FROM pg_index i
+     JOIN pg_class c ON c.oid = i.indexrelid
+     JOIN pg_class t ON t.oid = i.indrelid
+     WHERE t.relname = $1 AND t.relnamespace = 'public'::regnamespace`,
+    [tableName]
+  );
+  return diffManaged(managedDefinitions(rows), new Set(rows.map((row) => row.name)), expected);
+}
+
+/**
+ * The unique and check constraint changes that bring a table in line with
+ * the entity (see constraints.ts), worked out the way planIndexes does.
+ */
+async function planConstraints(pgSql: any, entity: EntityDefinition, tableName: string, exists: boolean) {
+  const expected = entityConstraints(entity);
+  for (const constraint of expected) {
+    validateIdentifier(constraint.name, `constraint name for "${entity.name}"`);
+  }
+  if (!exists) return diffManaged(new Map(), new Set(), expected);
+
+  const rows: { name: string; comment: string | null }[] = await pgSql.unsafe(
+    `SELECT con.conname AS name, obj_description(con.oid, 'pg_constraint') AS comment
+     FROM pg_constraint con
+     JOIN pg_class t ON t.oid = con.conrelid
+     WHERE t.relname = $1 AND t.relnamespace = 'public'::regnamespace`,
+    [tableName]
+  );
+  return diffManaged(managedDefinitions(rows), new Set(rows.map((row) => row.name)), expected);
+}
+
+/** Definitions of the managed indexes or constraints among rows read from the catalog, by name */
+function managedDefinitions(rows: { name: string; comment: string | null }[]): Map<string, string> {
+  const managed = new Map<string, string>();
+  for (const row of rows) {
+    if (row.comment?.startsWith(MANAGED_COMMENT)) {
+      managed.set(row.name, row.comment.slice(MANAGED_COMMENT.length));
+    }
+  }
+  return managed;
+}
+
+/** The comment marking a managed index or constraint, as an SQL literal */
+function managedComment(definition: string): string {
+  return `'${`${MANAGED_COMMENT}${definition}`.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Steps creating the junction table of every manyToMany relationship.
+ * Both sides of a relationship resolve to the same table, so each is
+ * created once. Rows are removed with either side (ON DELETE CASCADE),
+ * and a unique index keeps a pair from being linked twice.
+ */
+async function planJunctionTables(pgSql: any, entities: EntityDefinition[]): Promise<MigrationStep[]> {
+  const steps: MigrationStep[] = [];
+  const seen = new Set<string>();
+
+  for (const entity of entities) {
+    for (const { junction } of resolveToManyRelationships(entity)) {
+      if (!junction || seen.has(junction.table)) continue;
+      seen.add(junction.table);
+
+      const { table, ownColumn, relatedColumn, ownTable, relatedTable } = junction;
+      validateIdentifier(table, `junction table for "${entity.name}"`);
+      validateIdentifier(ownColumn, `junction column in "${table}"`);
+      validateIdentifier(relatedColumn, `junction column in "${table}"`);
+      validateIdentifier(ownTable, `table referenced by "${table}"`);
+      validateIdentifier(relatedTable, `table referenced by "${table}"`);
+
+      if (await tableExists(pgSql, table)) continue;
+
+      steps.push({
+        kind: "create_junction_table",
+        entity: entity.name,
+        description: `Create junction table ${table}`,
+        sql: [
+          `CREATE TABLE ${table} (\n` +
+            `  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),\n` +
+            `  tenant_id UUID NOT NULL,\n` +
+            `  ${ownColumn} UUID NOT NULL REFERENCES ${ownTable}(id) ON DELETE CASCADE,\n` +
+            `  ${relatedColumn} UUID NOT NULL REFERENCES ${relatedTable}(id) ON DELETE CASCADE,\n` +
+            `  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()\n` +
+            `)`,
+          `CREATE UNIQUE INDEX idx_${table}_pair ON ${table}(tenant_id, ${ownColumn}, ${relatedColumn})`,
+          `CREATE INDEX idx_${table}_related ON ${table}(tenant_id, ${relatedColumn})`,
+        ],
+      });
+    }
   }
+
+  return steps;
+}
+
+// ---------------------------------------------------------------------------
+// Migration history
+// ---------------------------------------------------------------------------
+
+/** Keys of the drift earlier migrations approved */
+async function approvedDriftKeys(pgSql: any): Promise<Set<string>> {
+  if (!(await tableExists(pgSql, "schema_migrations"))) return new Set();
+  const rows: { approved_drift: string[] }[] = await pgSql.unsafe(
+    `SELECT approved_drift FROM schema_migrations WHERE jsonb_array_length(approved_drift) > 0`
+  );
+  return new Set(rows.flatMap((row) => row.approved_drift));
+}
+
+/**
+ * Records an applied plan in schema_migrations: its checksum, the
+ * statements that ran and the drift it approved.
+ */
+async function recordMigration(
+  pgSql: any,
+  checksum: string,
+  statements: string[],
+  approvedDrift: MigrationDrift[]
+): Promise<void> {
+  await pgSql.unsafe(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id SERIAL PRIMARY KEY,
+      checksum TEXT NOT NULL,
+      statements JSONB NOT NULL,
+      approved_drift JSONB NOT NULL DEFAULT '[]',
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `);
+  await pgSql.unsafe(
+    `INSERT INTO schema_migrations (checksum, statements, approved_drift) VALUES ($1, $2::jsonb, $3::jsonb)`,
+    [checksum, JSON.stringify(statements), JSON.stringify(approvedDrift.map((d) => d.key))]
+  );
 }
 
 /**
@@ -563,6 +1118,66 @@ export async function runPlatformMigrations() {
     console.log("[migrate] Created platform table: audit_log");
   }
 
+  // Record versions — snapshot + field diff per create/update (version history)
+  const versionsExists = await tableExists(pgSql, "record_versions");
+  if (!versionsExists) {
+    await pgSql.unsafe(`
+      CREATE TABLE record_versions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL,
+        entity TEXT NOT NULL,
+        record_id UUID NOT NULL,
+        version INTEGER NOT NULL,
+        user_id TEXT,
+        action_id TEXT,
+        snapshot JSONB NOT NULL,
+        changes JSONB NOT NULL DEFAULT '{}',
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await pgSql.unsafe(
+      `CREATE UNIQUE INDEX idx_record_versions_record ON record_versions(tenant_id, entity, record_id, version)`
+    );
+    console.log("[migrate] Created platform table: record_versions");
+  }
+
+  // Saved views — named list filters/sort/columns/view mode per user, optionally shared
+  const viewsExists = await tableExists(pgSql, "saved_views");
+  if (!viewsExists) {
+    await pgSql.unsafe(`
+      CREATE TABLE saved_views (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL,
+        user_id TEXT NOT NULL,
+        entity TEXT NOT NULL,
+        name TEXT NOT NULL,
+        shared BOOLEAN NOT NULL DEFAULT FALSE,
+        config JSONB NOT NULL DEFAULT '{}',
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `);
+    await pgSql.unsafe(
+      `CREATE INDEX idx_saved_views_entity ON saved_views(tenant_id, entity)`
+    );
+    console.log("[migrate] Created platform table: saved_views");
+  }
+
+  // Saved view defaults — the view each user opens an entity list with
+  const viewDefaultsExists = await tableExists(pgSql, "saved_view_defaults");
+  if (!viewDefaultsExists) {
+    await pgSql.unsafe(`
+      CREATE TABLE saved_view_defaults (
+        tenant_id UUID NOT NULL,
+        user_id TEXT NOT NULL,
+        entity TEXT NOT NULL,
+        view_id UUID NOT NULL REFERENCES saved_views(id) ON DELETE CASCADE,
+        PRIMARY KEY (tenant_id, user_id, entity)
+      )
+    `);
+    console.log("[migrate] Created platform table: saved_view_defaults");
+  }
+
   // Webhooks — registered HTTP callbacks for domain events
   const webhooksExists = await tableExists(pgSql, "webhooks");
   if (!webhooksExists) {
@@ -573,7 +1188,12 @@ export async function runPlatformMigrations() {
         event_type TEXT NOT NULL,
         url TEXT NOT NULL,
         secret TEXT,
+        previous_secret TEXT,
+        previous_secret_expires_at TIMESTAMPTZ,
         active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_by TEXT,
+        consecutive_failures INTEGER NOT NULL DEFAULT 0,
+        disabled_reason TEXT,
         created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
         updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
       )
@@ -585,6 +1205,16 @@ export async function runPlatformMigrations() {
       `CREATE INDEX idx_webhooks_event ON webhooks(tenant_id, event_type)`
     );
     console.log("[migrate] Created platform table: webhooks");
+  } else {
+    // Secret rotation columns, for tables created before signing
+    await pgSql.unsafe(`ALTER TABLE webhooks ADD COLUMN IF NOT EXISTS previous_secret TEXT`);
+    await pgSql.unsafe(`ALTER TABLE webhooks ADD COLUMN IF NOT EXISTS previous_secret_expires_at TIMESTAMPTZ`);
+    // Auto-disable columns, for tables created before durable delivery
+    await pgSql.unsafe(`ALTER TABLE webhooks ADD COLUMN IF NOT EXISTS created_by TEXT`);
+    // Caller ids aren't UUIDs ("dev-user", external auth subjects)
+    await pgSql.unsafe(`ALTER TABLE webhooks ALTER COLUMN created_by TYPE TEXT`);
+    await pgSql.unsafe(`ALTER TABLE webhooks ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER NOT NULL DEFAULT 0`);
+    await pgSql.unsafe(`ALTER TABLE webhooks ADD COLUMN IF NOT EXISTS disabled_reason TEXT`);
   }
 
   // Webhook deliveries — log of HTTP POST attempts and their outcomes
@@ -594,12 +1224,15 @@ export async function runPlatformMigrations() {
       CREATE TABLE webhook_deliveries (
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
         webhook_id UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+        delivery_id UUID,
         event_type TEXT NOT NULL,
         url TEXT NOT NULL,
         status TEXT NOT NULL,
         status_code INTEGER,
         attempt INTEGER NOT NULL DEFAULT 1,
         error TEXT,
+        request_body TEXT,
+        response_body TEXT,
         created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
       )
     `);
@@ -607,7 +1240,16 @@ export async function runPlatformMigrations() {
       `CREATE INDEX idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at DESC)`
     );
     console.log("[migrate] Created platform table: webhook_deliveries");
+  } else {
+    // Redelivery and debugging columns, for tables created before durable delivery
+    await pgSql.unsafe(`ALTER TABLE webhook_deliveries ADD COLUMN IF NOT EXISTS delivery_id UUID`);
+    await pgSql.unsafe(`ALTER TABLE webhook_deliveries ADD COLUMN IF NOT EXISTS request_body TEXT`);
+    await pgSql.unsafe(`ALTER TABLE webhook_deliveries ADD COLUMN IF NOT EXISTS response_body TEXT`);
   }
+  // Redelivery looks a delivery up by its id
+  await pgSql.unsafe(
+    `CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_delivery ON webhook_deliveries(webhook_id, delivery_id)`
+  );
 
   // Notifications — in-app notification center
   const notificationsExists = await tableExists(pgSql, "notifications");
@@ -742,6 +1384,130 @@ export async function runPlatformMigrations() {
     );
     console.log("[migrate] Created platform table: plans");
   }
+
+  // AI schedule runs — one row per tenant each time an on_schedule capability fires
+  const scheduleRunsExists = await tableExists(pgSql, "ai_schedule_runs");
+  if (!scheduleRunsExists) {
+    await pgSql.unsafe(`
+      CREATE TABLE ai_schedule_runs (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID NOT NULL,
+        capability_id TEXT NOT NULL,
+        status VARCHAR(20) NOT NULL,
+        processed INTEGER NOT NULL DEFAULT 0,
+        updated INTEGER NOT NULL DEFAULT 0,
+        failed INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        finished_at TIMESTAMPTZ
+      )
+    `);
+    await pgSql.unsafe(
+      `CREATE INDEX idx_ai_schedule_runs_capability ON ai_schedule_runs(tenant_id, capability_id, started_at DESC)`
+    );
+    console.log("[migrate] Created platform table: ai_schedule_runs");
+  }
+
+  // AI schedule pauses — schedules a tenant has paused
+  const schedulePausesExists = await tableExists(pgSql, "ai_schedule_pauses");
+  if (!schedulePausesExists) {
+    await pgSql.unsafe(`
+      CREATE TABLE ai_schedule_pauses (
+        tenant_id UUID NOT NULL,
+        capability_id TEXT NOT NULL,
+        paused_by TEXT NOT NULL,
+        paused_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (tenant_id, capability_id)
+      )
+    `);
+    console.log("[migrate] Created platform table: ai_schedule_pauses");
+  }
+
+  // Jobs — the background job queue (see core/jobs)
+  const jobsExists = await tableExists(pgSql, "jobs");
+  if (!jobsExists) {
+    await pgSql.unsafe(`
+      CREATE TABLE jobs (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID,
+        name TEXT NOT NULL,
+        payload JSONB NOT NULL DEFAULT '{}',
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL DEFAULT 5,
+        backoff_ms INTEGER NOT NULL DEFAULT 10000,
+        run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        unique_key TEXT,
+        locked_by TEXT,
+        locked_at TIMESTAMPTZ,
+        last_error TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        completed_at TIMESTAMPTZ
+      )
+    `);
+    await pgSql.unsafe(`CREATE INDEX idx_jobs_due ON jobs(status, run_at)`);
+    await pgSql.unsafe(`CREATE INDEX idx_jobs_tenant ON jobs(tenant_id, status)`);
+    await pgSql.unsafe(`CREATE UNIQUE INDEX idx_jobs_unique_key ON jobs(unique_key) WHERE unique_key IS NOT NULL`);
+    console.log("[migrate] Created platform table: jobs");
+  }
+
+  // Event dead letters — failed event subscriber invocations, for replay
+  const deadLettersExists = await tableExists(pgSql, "event_dead_letters");
+  if (!deadLettersExists) {
+    await pgSql.unsafe(`
+      CREATE TABLE event_dead_letters (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        tenant_id UUID,
+        subscriber TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        event JSONB NOT NULL,
+        error TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 1,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        replayed_at TIMESTAMPTZ
+      )
+    `);
+    await pgSql.unsafe(
+      `CREATE INDEX idx_event_dead_letters_tenant ON event_dead_letters(tenant_id, created_at DESC)`
+    );
+    console.log("[migrate] Created platform table: event_dead_letters");
+  }
+
+  // Event outbox — events emitted inside transactions, published after commit
+  const outboxExists = await tableExists(pgSql, "event_outbox");
+  if (!outboxExists) {
+    await pgSql.unsafe(`
+      CREATE TABLE event_outbox (
+        id BIGSERIAL PRIMARY KEY,
+        tenant_id UUID,
+        event_type TEXT NOT NULL,
+        event JSONB NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        published_at TIMESTAMPTZ
+      )
+    `);
+    await pgSql.unsafe(
+      `CREATE INDEX idx_event_outbox_unpublished ON event_outbox(id) WHERE published_at IS NULL`
+    );
+    await pgSql.unsafe(`
+      CREATE TABLE event_outbox_deliveries (
+        outbox_id BIGINT NOT NULL REFERENCES event_outbox(id) ON DELETE CASCADE,
+        subscriber TEXT NOT NULL,
+        delivered_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (outbox_id, subscriber)
+      )
+    `);
+    console.log("[migrate] Created platform table: event_outbox");
+  }
+}
+
+/**
+ * SQL column type for a field. Sensitive fields are always TEXT because
+ * they store ciphertext (see core/encryption), whatever their logical type.
+ */
+function columnSQLType(field: FieldDefinition): string {
+  return field.sensitive ? "TEXT" : fieldTypeToSQL(field.type);
 }
 
 /**
@@ -766,7 +1532,13 @@ function fieldTypeToSQL(type: string): string {
     case "boolean":
       return "BOOLEAN";
     case "enum":
+    case "user":
       return "VARCHAR(255)";
+    case "multi_enum":
+    case "tags":
+      return "TEXT[]";
+    case "json":
+      return "JSONB";
     default:
       return "TEXT";
   }
@@ -0,0 +1,111 @@
+/**
+ * Relationship Resolution — Test Suite
+ *
+ * Validates how hasMany/manyToMany relationships map onto storage:
+ * foreign key columns, junction table names and junction columns.
+ * Both sides of a manyToMany must resolve to the same table.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { defineEntity, type EntityDefinition } from "@metasaas/contracts";
+import {
+  defaultJunctionName,
+  resolveJunction,
+  resolveToManyRelationships,
+  getToManyRelationship,
+} from "./relationships.js";
+import { registerEntities, clearEntityRegistry } from "../entity-manager/entity-registry.js";
+
+function entity(
+  name: string,
+  pluralName: string,
+  relationships: EntityDefinition["relationships"]
+): EntityDefinition {
+  return defineEntity({
+    name,
+    pluralName,
+    description: `${name} test entity`,
+    fields: [{ name: "name", type: "text", required: true, description: "Name" }],
+    relationships,
+    ui: {
+      icon: "box",
+      listColumns: ["name"],
+      searchFields: ["name"],
+      defaultSort: { field: "name", direction: "asc" },
+    },
+  });
+}
+
+const Class = entity("Class", "Classes", [{ type: "manyToMany", entity: "Member" }]);
+const Member = entity("Member", "Members", [{ type: "manyToMany", entity: "Class" }]);
+const Project = entity("Project", "Projects", [
+  { type: "hasMany", entity: "Task" },
+  { type: "belongsTo", entity: "Company" },
+]);
+const Task = entity("Task", "Tasks", [{ type: "belongsTo", entity: "Project" }]);
+const Company = entity("Company", "Companies", []);
+
+describe("Relationship Resolution", () => {
+  beforeEach(() => {
+    clearEntityRegistry();
+    registerEntities([Class, Member, Company, Project, Task]);
+  });
+
+  describe("junction tables", () => {
+    it("derives the same default name from either side", () => {
+      expect(defaultJunctionName("Class", "Member")).toBe("classes_members");
+      expect(defaultJunctionName("Member", "Class")).toBe("classes_members");
+    });
+
+    it("names columns after the entities so both sides share them", () => {
+      const fromClass = resolveJunction(Class, Class.relationships![0]);
+      const fromMember = resolveJunction(Member, Member.relationships![0]);
+
+      expect(fromClass).toMatchObject({
+        table: "classes_members",
+        ownColumn: "class_id",
+        relatedColumn: "member_id",
+      });
+      expect(fromMember.table).toBe(fromClass.table);
+      expect(fromMember.ownColumn).toBe(fromClass.relatedColumn);
+    });
+
+    it("uses `through` when declared", () => {
+      const rel = { type: "manyToMany" as const, entity: "Member", through: "enrollments_link" };
+      expect(resolveJunction(Class, rel).table).toBe("enrollments_link");
+    });
+
+    it("keeps self-referential columns distinct", () => {
+      const Person = entity("Person", "People", [{ type: "manyToMany", entity: "Person" }]);
+      const junction = resolveJunction(Person, Person.relationships![0]);
+      expect(junction.ownColumn).not.toBe(junction.relatedColumn);
+    });
+  });
+
+  describe("resolveToManyRelationships()", () => {
+    it("ignores belongsTo relationships", () => {
+      const resolved = resolveToManyRelationships(Project);
+      expect(resolved).toHaveLength(1);
+      expect(resolved[0].rel.entity).toBe("Task");
+    });
+
+    it("defaults the hasMany foreign key to <entity>_id", () => {
+      expect(resolveToManyRelationships(Project)[0].foreignKey).toBe("project_id");
+    });
+
+    it("uses the related entity's pluralName for routes", () => {
+      expect(resolveToManyRelationships(Class)[0].names.path).toBe("members");
+      expect(resolveToManyRelationships(Member)[0].names.path).toBe("classes");
+    });
+  });
+
+  describe("getToManyRelationship()", () => {
+    it("finds a relationship by path", () => {
+      expect(getToManyRelationship(Class, "members").junction?.table).toBe("classes_members");
+    });
+
+    it("throws for unknown relationships", () => {
+      expect(() => getToManyRelationship(Class, "trainers")).toThrow(/no hasMany\/manyToMany/);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Relationship Resolution
+ *
+ * Turns the hasMany and manyToMany relationships declared on an entity
+ * into the concrete names the database layer needs: which column on the
+ * related table holds the foreign key (hasMany), or which junction table
+ * and columns connect the two sides (manyToMany).
+ *
+ * Used by the schema builder, the migration runner, the DatabaseClient
+ * and the relationship action generator, so all four agree on naming.
+ *
+ * Junction tables:
+ *   - Named by `through`, or both table names joined alphabetically
+ *     (Class ↔ Member → "classes_members")
+ *   - Columns are named after the entities, not the declaring side, so
+ *     Class and Member declaring each other share one table:
+ *       id, tenant_id, class_id, member_id, created_at
+ */
+
+import type {
+  EntityDefinition,
+  RelationshipDefinition,
+  RelationshipNames,
+} from "@metasaas/contracts";
+import { relationshipNames } from "@metasaas/contracts";
+import { toTableName, toColumnName } from "./schema-builder.js";
+import { getEntity } from "../entity-manager/entity-registry.js";
+
+/** Physical layout of a manyToMany junction table */
+export interface JunctionTable {
+  /** Junction table name (e.g., "classes_members") */
+  table: string;
+
+  /** Column referencing the declaring entity (e.g., "class_id") */
+  ownColumn: string;
+
+  /** Column referencing the related entity (e.g., "member_id") */
+  relatedColumn: string;
+
+  /** Table of the declaring entity */
+  ownTable: string;
+
+  /** Table of the related entity */
+  relatedTable: string;
+}
+
+/** A hasMany or manyToMany relationship with its storage resolved */
+export interface ToManyRelationship {
+  /** The relationship as declared on the entity */
+  rel: RelationshipDefinition;
+
+  /** Names for actions, routes and input fields */
+  names: RelationshipNames;
+
+  /** For hasMany: the foreign key column on the related table */
+  foreignKey?: string;
+
+  /** For manyToMany: the junction table layout */
+  junction?: JunctionTable;
+}
+
+/**
+ * Default junction table name for two entities.
+ * Alphabetical so both sides of the relationship derive the same name.
+ */
+export function defaultJunctionName(entityA: string, entityB: string): string {
+  return [toTableName(entityA), toTableName(entityB)].sort().join("_");
+}
+
+/**
+ * Resolves the junction table for a manyToMany relationship declared on `entity`.
+ */
+export function resolveJunction(
+  entity: EntityDefinition,
+  rel: RelationshipDefinition
+): JunctionTable {
+  const ownColumn = toColumnName(entity.name) + "_id";
+  let relatedColumn = toColumnName(rel.entity) + "_id";
+
+  // Self-referential (e.g., Person ↔ Person): keep the two columns distinct
+  if (relatedColumn === ownColumn) {
+    relatedColumn = "related_" + relatedColumn;
+  }
+
+  return {
+    table: rel.through ?? defaultJunctionName(entity.name, rel.entity),
+    ownColumn,
+    relatedColumn,
+    ownTable: toTableName(entity.name),
+    relatedTable: toTableName(rel.entity),
+  };
+}
+
+/**
+ * Resolves all hasMany and manyToMany relationships of an entity.
+ */
+export function resolveToManyRelationships(
+  entity: EntityDefinition
+): ToManyRelationship[] {
+  const resolved: ToManyRelationship[] = [];
+
+  for (const rel of entity.relationships ?? []) {
+    const names = relationshipNames(rel, getEntity(rel.entity)?.pluralName);
+
+    if (rel.type === "hasMany") {
+      resolved.push({
+        rel,
+        names,
+        foreignKey: toColumnName(rel.foreignKey ?? entity.name + "Id"),
+      });
+    } else if (rel.type === "manyToMany") {
+      resolved.push({ rel, names, junction: resolveJunction(entity, rel) });
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Finds a to-many relationship by its path name (e.g., "members").
+ * Throws if the entity has no such relationship — a programming error.
+ */
+export function getToManyRelationship(
+  entity: EntityDefinition,
+  relation: string
+): ToManyRelationship {
+  const found = resolveToManyRelationships(entity).find(
+    (r) => r.names.path === relation
+  );
+  if (!found) {
+    throw new Error(
+      `Entity "${entity.name}" has no hasMany/manyToMany relationship "${relation}"`
+    );
+  }
+  return found;
+}
@@ -160,6 +160,57 @@ describe("buildTableSchema", () => {
     const table = buildTableSchema(entityWithFK);
     expect(table.parent_id).toBeDefined();
   });
+
+  it("stores sensitive fields as text columns regardless of type", () => {
+    const entityWithPII = defineEntity({
+      name: "Patient",
+      pluralName: "Patients",
+      description: "Test",
+      fields: [
+        { name: "dateOfBirth", type: "date", required: false, description: "DOB", sensitive: true },
+        { name: "visitDate", type: "date", required: false, description: "Visit" },
+      ],
+      ui: { icon: "user", listColumns: [], searchFields: [], defaultSort: { field: "id", direction: "asc" } },
+    });
+
+    const table = buildTableSchema(entityWithPII);
+    expect(table.date_of_birth.columnType).toBe("PgText");
+    expect(table.visit_date.columnType).toBe("PgTimestamp");
+  });
+
+  it("stores lists as text arrays, json as jsonb and users as their id", () => {
+    const table = buildTableSchema(defineEntity({
+      name: "Ticket",
+      pluralName: "Tickets",
+      description: "Test",
+      fields: [
+        { name: "labels", type: "tags", required: false, description: "Labels" },
+        { name: "platforms", type: "multi_enum", required: false, description: "Platforms", options: ["ios", "web"] },
+        { name: "payload", type: "json", required: false, description: "Payload" },
+        { name: "assignee", type: "user", required: false, description: "Assignee" },
+      ],
+      ui: { icon: "ticket", listColumns: [], searchFields: [], defaultSort: { field: "id", direction: "asc" } },
+    }));
+    expect(table.labels.columnType).toBe("PgArray");
+    expect(table.platforms.columnType).toBe("PgArray");
+    expect(table.payload.columnType).toBe("PgJsonb");
+    expect(table.assignee.columnType).toBe("PgVarchar");
+  });
+
+  it("adds a nullable deleted_at column only for soft-delete entities", () => {
+    const base = {
+      description: "Test",
+      fields: [{ name: "title", type: "text" as const, required: true, description: "Title" }],
+      ui: { icon: "file", listColumns: [], searchFields: [], defaultSort: { field: "id", direction: "asc" as const } },
+    };
+
+    const soft = buildTableSchema(defineEntity({ ...base, name: "Memo", pluralName: "Memos", softDelete: true }));
+    const hard = buildTableSchema(defineEntity({ ...base, name: "Draft", pluralName: "Drafts" }));
+
+    expect(soft.deleted_at.columnType).toBe("PgTimestamp");
+    expect(soft.deleted_at.notNull).toBe(false);
+    expect(hard.deleted_at).toBeUndefined();
+  });
 });
 
 // ---------------------------------------------------------------------------
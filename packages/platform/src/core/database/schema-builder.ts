@@ -9,6 +9,7 @@
  *   - id (UUID, primary key)
  *   - createdAt (timestamp)
  *   - updatedAt (timestamp)
+ *   - deletedAt (timestamp, only for `softDelete` entities)
  *
  * Then adds columns for each field in the entity definition,
  * plus foreign key columns for belongsTo relationships.
@@ -22,9 +23,11 @@ import {
   boolean,
   numeric,
   timestamp,
+  jsonb,
   type PgTableWithColumns,
 } from "drizzle-orm/pg-core";
 import type { EntityDefinition, FieldDefinition } from "@metasaas/contracts";
+import type { JunctionTable } from "./relationships.js";
 
 /**
  * Converts an entity name to a database table name.
@@ -71,6 +74,11 @@ export function fromColumnName(columnName: string): string {
 function buildColumn(field: FieldDefinition) {
   const colName = toColumnName(field.name);
 
+  // Sensitive fields hold ciphertext regardless of their logical type
+  if (field.sensitive) {
+    return text(colName);
+  }
+
   switch (field.type) {
     case "text":
     case "rich_text":
@@ -94,6 +102,15 @@ function buildColumn(field: FieldDefinition) {
     case "enum":
       // Store as text — validation happens at the Action Bus level
       return varchar(colName, { length: 255 });
+    case "multi_enum":
+    case "tags":
+      // Lists of strings — filters test membership (see filter.ts)
+      return text(colName).array();
+    case "json":
+      return jsonb(colName);
+    case "user":
+      // The member's user id — membership is checked at the Action Bus level
+      return varchar(colName, { length: 255 });
     default:
       return text(colName);
   }
@@ -130,6 +147,11 @@ export function buildTableSchema(
         .defaultNow(),
     };
 
+    // Tombstone column — NULL for live rows
+    if (entity.softDelete) {
+      columns.deleted_at = timestamp("deleted_at", { withTimezone: true });
+    }
+
     // Entity-specific fields
     for (const field of entity.fields) {
       const col = buildColumn(field);
@@ -168,6 +190,33 @@ export function buildTableSchema(
   return table;
 }
 
+/** In-memory registry of manyToMany junction table schemas, keyed by table name */
+const junctionRegistry = new Map<string, PgTableWithColumns<any>>();
+
+/**
+ * Returns the Drizzle schema for a manyToMany junction table, building it
+ * on first use. Columns are keyed by column name, like entity tables.
+ */
+export function getJunctionSchema(
+  junction: JunctionTable
+): PgTableWithColumns<any> {
+  const existing = junctionRegistry.get(junction.table);
+  if (existing) return existing;
+
+  const table = pgTable(junction.table, {
+    id: uuid("id").primaryKey().defaultRandom(),
+    tenant_id: uuid("tenant_id").notNull(),
+    [junction.ownColumn]: uuid(junction.ownColumn).notNull(),
+    [junction.relatedColumn]: uuid(junction.relatedColumn).notNull(),
+    created_at: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  });
+
+  junctionRegistry.set(junction.table, table);
+  return table;
+}
+
 /**
  * Retrieves a previously built table schema by entity name.
  */
@@ -190,4 +239,5 @@ export function getAllTableSchemas(): Map<string, PgTableWithColumns<any>> {
  */
 export function clearTableRegistry(): void {
   tableRegistry.clear();
+  junctionRegistry.clear();
 }
@@ -0,0 +1,88 @@
+/**
+ * Soft Delete Tests
+ *
+ * Tests retention resolution and the trash purge with a mocked database.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { defineEntity, type EntityDefinition } from "@metasaas/contracts";
+
+// Mock database
+const mockUnsafe = vi.fn();
+vi.mock("./connection.js", () => ({
+  getDatabase: () => ({ sql: { unsafe: mockUnsafe } }),
+}));
+
+import {
+  isSoftDelete,
+  getRetentionDays,
+  purgeExpiredRecords,
+  DEFAULT_RETENTION_DAYS,
+} from "./soft-delete.js";
+
+function entity(name: string, softDelete?: EntityDefinition["softDelete"]): EntityDefinition {
+  return defineEntity({
+    name,
+    pluralName: `${name}s`,
+    description: "Test",
+    fields: [{ name: "title", type: "text", required: true, description: "Title" }],
+    softDelete,
+    ui: { icon: "file", listColumns: ["title"], searchFields: [], defaultSort: { field: "title", direction: "asc" } },
+  });
+}
+
+/** postgres.js results are arrays with a `count` of affected rows */
+function affected(count: number) {
+  return Object.assign([], { count });
+}
+
+describe("Soft Delete", () => {
+  beforeEach(() => {
+    mockUnsafe.mockReset();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  describe("getRetentionDays()", () => {
+    it("is null for hard-delete entities", () => {
+      expect(isSoftDelete(entity("Task"))).toBe(false);
+      expect(getRetentionDays(entity("Task"))).toBeNull();
+    });
+
+    it("uses the default when softDelete is true", () => {
+      expect(getRetentionDays(entity("Task", true))).toBe(DEFAULT_RETENTION_DAYS);
+    });
+
+    it("uses the entity's retentionDays", () => {
+      expect(getRetentionDays(entity("Task", { retentionDays: 7 }))).toBe(7);
+    });
+
+    it("is null when retentionDays is 0 (keep forever)", () => {
+      expect(isSoftDelete(entity("Task", { retentionDays: 0 }))).toBe(true);
+      expect(getRetentionDays(entity("Task", { retentionDays: 0 }))).toBeNull();
+    });
+  });
+
+  describe("purgeExpiredRecords()", () => {
+    it("deletes only tombstoned rows older than the retention period", async () => {
+      mockUnsafe.mockResolvedValueOnce(affected(3));
+      const now = new Date("2026-03-31T00:00:00.000Z");
+
+      const results = await purgeExpiredRecords([entity("Note", { retentionDays: 30 })], now);
+
+      expect(results).toEqual([{ entity: "Note", purged: 3 }]);
+      const [query, params] = mockUnsafe.mock.calls[0];
+      expect(query).toBe("DELETE FROM notes WHERE deleted_at IS NOT NULL AND deleted_at < $1");
+      expect(params).toEqual(["2026-03-01T00:00:00.000Z"]);
+    });
+
+    it("skips entities without soft delete or retention", async () => {
+      const results = await purgeExpiredRecords([
+        entity("Task"),
+        entity("Archive", { retentionDays: 0 }),
+      ]);
+
+      expect(results).toEqual([]);
+      expect(mockUnsafe).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Soft Delete
+ *
+ * Entities declaring `softDelete` get a nullable `deleted_at` column.
+ * The DatabaseClient tombstones rows on delete, hides them from reads,
+ * and exposes restore/purge for the trash.
+ *
+ * Tombstoned rows are purged permanently once their retention period
+ * (`softDelete.retentionDays`, default 30) has passed. The API server runs
+ * the purge periodically via startTrashRetention(); it works across all
+ * tenants, like the other maintenance jobs.
+ *
+ * Usage:
+ *   startTrashRetention(entities);  // Call once at startup
+ *   stopTrashRetention();           // On shutdown
+ */
+
+import type { EntityDefinition } from "@metasaas/contracts";
+import { getDatabase } from "./connection.js";
+import { toTableName } from "./schema-builder.js";
+
+/** Days a tombstoned record stays in the trash when the entity doesn't say */
+export const DEFAULT_RETENTION_DAYS = 30;
+
+/** How often the retention job runs */
+const DEFAULT_PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Whether the entity tombstones rows instead of deleting them */
+export function isSoftDelete(entity: EntityDefinition): boolean {
+  return Boolean(entity.softDelete);
+}
+
+/**
+ * Retention period in days for a soft-delete entity.
+ * Returns null for hard-delete entities and for `retentionDays: 0`
+ * (keep forever) — nothing is purged automatically in either case.
+ */
+export function getRetentionDays(entity: EntityDefinition): number | null {
+  if (!entity.softDelete) return null;
+  const days =
+    typeof entity.softDelete === "object"
+      ? entity.softDelete.retentionDays ?? DEFAULT_RETENTION_DAYS
+      : DEFAULT_RETENTION_DAYS;
+  return days > 0 ? days : null;
+}
+
+// ---------------------------------------------------------------------------
+// Retention purge
+// ---------------------------------------------------------------------------
+
+/** Outcome of purging one entity's table */
+export interface PurgeResult {
+  entity: string;
+  /** Rows permanently deleted */
+  purged: number;
+}
+
+/**
+ * Permanently deletes tombstoned rows older than each entity's retention
+ * period. Entities without soft delete or retention are skipped.
+ *
+ * @param entities - Entities to process
+ * @param now      - Reference time (for testing)
+ */
+export async function purgeExpiredRecords(
+  entities: EntityDefinition[],
+  now: Date = new Date()
+): Promise<PurgeResult[]> {
+  const { sql: pgSql } = getDatabase();
+  const results: PurgeResult[] = [];
+
+  for (const entity of entities) {
+    const days = getRetentionDays(entity);
+    if (days === null) continue;
+
+    const cutoff = new Date(now.getTime() - days * DAY_MS);
+    const rows = await pgSql.unsafe(
+      `DELETE FROM ${toTableName(entity.name)} WHERE deleted_at IS NOT NULL AND deleted_at < $1`,
+      [cutoff.toISOString()]
+    );
+
+    if (rows.count > 0) {
+      console.log(
+        `[soft-delete] ${entity.name}: purged ${rows.count} record(s) deleted before ${cutoff.toISOString()}`
+      );
+    }
+    results.push({ entity: entity.name, purged: rows.count });
+  }
+
+  return results;
+}
+
+/** Active retention timer, if started */
+let retentionTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Starts the periodic trash purge for the given entities.
+ * Runs once immediately, then every `intervalMs`. Failures are logged
+ * and retried on the next tick. Does nothing if no entity uses soft delete.
+ */
+export function startTrashRetention(
+  entities: EntityDefinition[],
+  intervalMs = DEFAULT_PURGE_INTERVAL_MS
+): void {
+  stopTrashRetention();
+
+  const targets = entities.filter((e) => getRetentionDays(e) !== null);
+  if (targets.length === 0) return;
+
+  const run = () =>
+    purgeExpiredRecords(targets).catch((err) => {
+      console.error("[soft-delete] Trash purge failed:", err);
+    });
+
+  run();
+  retentionTimer = setInterval(run, intervalMs);
+  // Never keep the process alive just for the purge
+  retentionTimer.unref();
+
+  console.log(
+    `[soft-delete] Trash retention active for: ${targets.map((e) => e.name).join(", ")}`
+  );
+}
+
+/** Stops the periodic trash purge */
+export function stopTrashRetention(): void {
+  if (retentionTimer) {
+    clearInterval(retentionTimer);
+    retentionTimer = null;
+  }
+}
@@ -21,9 +21,13 @@
  * Event Bus integration:
  *   The module can subscribe to domain events and auto-send emails.
  *   Register templates with `registerEmailTrigger()` to map events → emails.
+ *   Triggered emails are sent by an "email.send" background job (see
+ *   core/jobs), so they are retried when the provider fails.
  */
 
 import { subscribe } from "../event-bus/index.js";
+import { matchesEventPattern } from "../event-bus/pattern.js";
+import { enqueueJob, registerJobHandler } from "../jobs/index.js";
 import type { DomainEvent } from "@metasaas/contracts";
 
 // ---------------------------------------------------------------------------
@@ -62,7 +66,7 @@ export interface EmailProvider {
 }
 
 export interface EmailTrigger {
-  /** Domain event type to listen for (e.g., "employee.created") */
+  /** Domain event type or pattern to listen for (e.g., "employee.created", "employee.*") */
   eventType: string;
   /** Build the email from the event payload. Return null to skip. */
   build(event: DomainEvent): SendEmailOptions | null;
@@ -146,6 +150,9 @@ let provider: EmailProvider = new ConsoleEmailProvider();
 let defaultFrom = "MetaSAAS <noreply@metasaas.dev>";
 const triggers: EmailTrigger[] = [];
 
+/** Background job that sends a triggered email */
+const EMAIL_SEND_JOB = "email.send";
+
 // ---------------------------------------------------------------------------
 // Initialization
 // ---------------------------------------------------------------------------
@@ -156,7 +163,8 @@ const triggers: EmailTrigger[] = [];
  *   - RESEND_API_KEY set → Resend provider
  *   - Otherwise → Console provider (logs to console)
  *
- * Subscribes to the Event Bus for trigger-based emails.
+ * Subscribes to the Event Bus for trigger-based emails and registers the
+ * "email.send" job handler that delivers them.
  * Safe to call multiple times. Never throws.
  */
 export function initEmail(): void {
@@ -171,20 +179,26 @@ export function initEmail(): void {
     console.log("[email] No RESEND_API_KEY — using console provider (emails logged to stdout)");
   }
 
+  // Sends triggered emails; a rejected send throws so the job is retried
+  registerJobHandler<SendEmailOptions>(EMAIL_SEND_JOB, async (job) => {
+    const result = await sendEmail(job.payload);
+    if (!result.success) throw new Error(result.error ?? "Email provider rejected the message");
+  });
+
   // Subscribe to event bus for trigger-based emails
   subscribe({
     name: "email-trigger-dispatcher",
     eventType: "*",
     async handler(event: DomainEvent) {
       for (const trigger of triggers) {
-        if (trigger.eventType === event.type || trigger.eventType === "*") {
+        if (matchesEventPattern(trigger.eventType, event.type)) {
           try {
             const emailOptions = trigger.build(event);
             if (emailOptions) {
-              await sendEmail(emailOptions);
+              await enqueueJob(event.tenantId ?? null, EMAIL_SEND_JOB, { ...emailOptions });
             }
           } catch (err) {
-            // Fire-and-forget — never break the event bus
+            // Never break the event bus
             console.error(`[email] Trigger failed for ${event.type}:`, err);
           }
         }
@@ -0,0 +1,188 @@
+/**
+ * Field Encryption Module Tests
+ *
+ * Tests key parsing, value round-trips, key rotation semantics,
+ * record-level helpers, and tamper detection. No database needed.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { randomBytes } from "node:crypto";
+import { defineEntity } from "@metasaas/contracts";
+import {
+  initEncryption,
+  setEncryptionKeys,
+  isEncryptionEnabled,
+  getActiveKeyId,
+  parseEncryptionKeys,
+  encryptValue,
+  decryptValue,
+  isEncryptedValue,
+  needsReEncryption,
+  encryptRecord,
+  decryptRecord,
+  getSensitiveFields,
+  resetEncryption,
+  type EncryptionKey,
+} from "./index.js";
+
+const KEY_1: EncryptionKey = { id: "k1", key: randomBytes(32) };
+const KEY_2: EncryptionKey = { id: "k2", key: randomBytes(32) };
+
+const PatientEntity = defineEntity({
+  name: "Patient",
+  pluralName: "Patients",
+  description: "Test entity with sensitive fields",
+  fields: [
+    { name: "name", type: "text", required: true, description: "Name" },
+    { name: "phone", type: "phone", required: false, description: "Phone", sensitive: true },
+    { name: "weight", type: "number", required: false, description: "Weight", sensitive: true },
+  ],
+  ui: {
+    icon: "user",
+    listColumns: ["name"],
+    searchFields: ["name"],
+    defaultSort: { field: "name", direction: "asc" },
+  },
+});
+
+describe("Encryption Module", () => {
+  beforeEach(() => {
+    resetEncryption();
+    delete process.env.FIELD_ENCRYPTION_KEYS;
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  describe("initEncryption()", () => {
+    it("is disabled when FIELD_ENCRYPTION_KEYS is not set", () => {
+      initEncryption();
+      expect(isEncryptionEnabled()).toBe(false);
+      expect(getActiveKeyId()).toBeNull();
+    });
+
+    it("uses the first configured key as the active key", () => {
+      process.env.FIELD_ENCRYPTION_KEYS =
+        `k2:${KEY_2.key.toString("base64")},k1:${KEY_1.key.toString("base64")}`;
+      initEncryption();
+      expect(isEncryptionEnabled()).toBe(true);
+      expect(getActiveKeyId()).toBe("k2");
+    });
+
+    it("throws on malformed configuration instead of disabling encryption", () => {
+      process.env.FIELD_ENCRYPTION_KEYS = "not-a-key";
+      expect(() => initEncryption()).toThrow(/keyId:base64Key/);
+    });
+  });
+
+  describe("parseEncryptionKeys()", () => {
+    it("rejects keys that are not 32 bytes", () => {
+      const short = Buffer.from("too short").toString("base64");
+      expect(() => parseEncryptionKeys(`k1:${short}`)).toThrow(/32 bytes/);
+    });
+
+    it("ignores blank entries", () => {
+      const keys = parseEncryptionKeys(` k1:${KEY_1.key.toString("base64")} , `);
+      expect(keys.map((k) => k.id)).toEqual(["k1"]);
+    });
+  });
+
+  describe("encryptValue() / decryptValue()", () => {
+    beforeEach(() => setEncryptionKeys([KEY_1]));
+
+    it("round-trips strings, numbers and booleans with their types", () => {
+      for (const value of ["+1 555 0100", 72.5, true]) {
+        const stored = encryptValue(value);
+        expect(isEncryptedValue(stored)).toBe(true);
+        expect(decryptValue(stored)).toEqual(value);
+      }
+    });
+
+    it("produces a different ciphertext for each write", () => {
+      expect(encryptValue("same")).not.toBe(encryptValue("same"));
+    });
+
+    it("never includes the plaintext in the stored value", () => {
+      const stored = encryptValue("secret-diagnosis") as string;
+      expect(stored).not.toContain("secret-diagnosis");
+      expect(stored.startsWith("enc:k1:")).toBe(true);
+    });
+
+    it("passes null and undefined through", () => {
+      expect(encryptValue(null)).toBeNull();
+      expect(encryptValue(undefined)).toBeUndefined();
+    });
+
+    it("returns legacy plaintext values unchanged", () => {
+      expect(decryptValue("+1 555 0100")).toBe("+1 555 0100");
+    });
+
+    it("stores plaintext when encryption is disabled", () => {
+      resetEncryption();
+      expect(encryptValue("+1 555 0100")).toBe("+1 555 0100");
+    });
+
+    it("throws when the ciphertext has been tampered with", () => {
+      const stored = encryptValue("value") as string;
+      const parts = stored.split(":");
+      parts[4] = Buffer.from("forged").toString("base64");
+      expect(() => decryptValue(parts.join(":"))).toThrow();
+    });
+  });
+
+  describe("key rotation", () => {
+    it("decrypts values written with an older key after rotation", () => {
+      setEncryptionKeys([KEY_1]);
+      const old = encryptValue("+1 555 0100");
+
+      setEncryptionKeys([KEY_2, KEY_1]);
+      expect(decryptValue(old)).toBe("+1 555 0100");
+      expect((encryptValue("new") as string).startsWith("enc:k2:")).toBe(true);
+    });
+
+    it("flags old-key and plaintext values for re-encryption", () => {
+      setEncryptionKeys([KEY_1]);
+      const old = encryptValue("a");
+
+      setEncryptionKeys([KEY_2, KEY_1]);
+      expect(needsReEncryption(old)).toBe(true);
+      expect(needsReEncryption("plaintext")).toBe(true);
+      expect(needsReEncryption(encryptValue("b"))).toBe(false);
+      expect(needsReEncryption(null)).toBe(false);
+    });
+
+    it("fails loudly when a retired key is still needed", () => {
+      setEncryptionKeys([KEY_1]);
+      const old = encryptValue("a");
+
+      setEncryptionKeys([KEY_2]);
+      expect(() => decryptValue(old)).toThrow(/"k1" is not configured/);
+    });
+  });
+
+  describe("record helpers", () => {
+    beforeEach(() => setEncryptionKeys([KEY_1]));
+
+    it("lists the entity's sensitive fields", () => {
+      expect(getSensitiveFields(PatientEntity)).toEqual(["phone", "weight"]);
+    });
+
+    it("encrypts only sensitive fields that are present", () => {
+      const stored = encryptRecord(PatientEntity, { name: "Ada", phone: "555" });
+      expect(stored.name).toBe("Ada");
+      expect(isEncryptedValue(stored.phone)).toBe(true);
+      expect("weight" in stored).toBe(false);
+    });
+
+    it("decryptRecord reverses encryptRecord", () => {
+      const input = { name: "Ada", phone: "555", weight: 61 };
+      const stored = encryptRecord(PatientEntity, input);
+      expect(decryptRecord(PatientEntity, stored)).toEqual(input);
+    });
+
+    it("does not mutate the input record", () => {
+      const input = { name: "Ada", phone: "555" };
+      encryptRecord(PatientEntity, input);
+      expect(input.phone).toBe("555");
+    });
+  });
+});
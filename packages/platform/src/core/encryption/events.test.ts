@@ -0,0 +1,66 @@
+/**
+ * Sensitive Fields in Events — Test Suite
+ *
+ * Encrypts, decrypts and redacts the sensitive fields of event payloads,
+ * for creates (the record) and updates (`changes`).
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { randomBytes } from "node:crypto";
+import { defineEntity, type DomainEvent } from "@metasaas/contracts";
+import { registerEntity, clearEntityRegistry } from "../entity-manager/entity-registry.js";
+import { setEncryptionKeys, isEncryptedValue, resetEncryption } from "./index.js";
+import { encryptEvent, decryptEvent, redactEvent } from "./events.js";
+
+const PatientEntity = defineEntity({
+  name: "Patient",
+  pluralName: "Patients",
+  description: "Test entity with a sensitive field",
+  fields: [
+    { name: "name", type: "text", required: true, description: "Name" },
+    { name: "ssn", type: "text", required: false, description: "SSN", sensitive: true },
+  ],
+  ui: { icon: "user", listColumns: ["name"], searchFields: ["name"], defaultSort: { field: "name", direction: "asc" } },
+});
+
+function event(type: string, payload: Record<string, unknown>): DomainEvent {
+  return { type, payload, tenantId: "t1" } as DomainEvent;
+}
+
+describe("event payload encryption", () => {
+  beforeEach(() => {
+    clearEntityRegistry();
+    registerEntity(PatientEntity);
+    setEncryptionKeys([{ id: "k1", key: randomBytes(32) }]);
+  });
+
+  afterEach(() => {
+    resetEncryption();
+    clearEntityRegistry();
+  });
+
+  it("encrypts sensitive fields of the record and of changes, and decrypts them back", () => {
+    const original = event("patient.updated", { id: "p-1", name: "Ada", ssn: "123", changes: { ssn: "123" } });
+
+    const stored = encryptEvent(original);
+    expect(isEncryptedValue(stored.payload.ssn)).toBe(true);
+    expect(isEncryptedValue((stored.payload.changes as Record<string, unknown>).ssn)).toBe(true);
+    expect(stored.payload.name).toBe("Ada");
+    expect(original.payload.ssn).toBe("123");
+
+    expect(decryptEvent(stored)).toEqual(original);
+  });
+
+  it("redacts sensitive fields and leaves null values alone", () => {
+    expect(redactEvent(event("patient.created", { name: "Ada", ssn: "123" })).payload).toEqual({
+      name: "Ada",
+      ssn: "[redacted]",
+    });
+    expect(redactEvent(event("patient.created", { ssn: null })).payload).toEqual({ ssn: null });
+  });
+
+  it("passes events of other entities through unchanged", () => {
+    const other = event("task.created", { ssn: "123" });
+    expect(encryptEvent(other).payload).toBe(other.payload);
+  });
+});
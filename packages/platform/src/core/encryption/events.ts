@@ -0,0 +1,64 @@
+/**
+ * Sensitive Fields in Events
+ *
+ * Domain event payloads carry the emitting entity's values in plaintext —
+ * the record on create, `{ id, changes }` on update. Wherever an event is
+ * kept at rest (the outbox, dead letters, queued webhook deliveries) its
+ * sensitive fields are encrypted with the field keys and decrypted when
+ * it is read back; listings shown to tenant users redact them instead.
+ *
+ * The entity is the one the event type starts with ("patient.updated" →
+ * Patient). Events of other types pass through unchanged.
+ *
+ * Usage:
+ *   await store(encryptEvent(event));
+ *   const event = decryptEvent(loaded);
+ */
+
+import type { DomainEvent } from "@metasaas/contracts";
+import { getAllEntities } from "../entity-manager/entity-registry.js";
+import { getSensitiveFields, encryptValue, decryptValue } from "./index.js";
+
+/** Replaces the value of a redacted field */
+export const REDACTED = "[redacted]";
+
+/**
+ * Returns a copy of an event payload with `fn` applied to the non-null
+ * values of the entity's sensitive fields, at the top level and in an
+ * update's `changes`.
+ */
+export function mapSensitivePayload<T>(eventType: string, payload: T, fn: (value: unknown) => unknown): T {
+  const entity = getAllEntities().find((e) => eventType.startsWith(`${e.name.toLowerCase()}.`));
+  const sensitive = entity ? getSensitiveFields(entity) : [];
+  if (sensitive.length === 0 || !isObject(payload)) return payload;
+
+  const mapFields = (target: Record<string, unknown>) => {
+    const result = { ...target };
+    for (const field of sensitive) {
+      if (field in result && result[field] !== null) result[field] = fn(result[field]);
+    }
+    return result;
+  };
+  const mapped = mapFields(payload);
+  if (isObject(mapped.changes)) mapped.changes = mapFields(mapped.changes);
+  return mapped as T;
+}
+
+/** A copy of the event with its sensitive payload fields encrypted */
+export function encryptEvent(event: DomainEvent): DomainEvent {
+  return { ...event, payload: mapSensitivePayload(event.type, event.payload, encryptValue) };
+}
+
+/** A copy of the event with its sensitive payload fields decrypted */
+export function decryptEvent(event: DomainEvent): DomainEvent {
+  return { ...event, payload: mapSensitivePayload(event.type, event.payload, decryptValue) };
+}
+
+/** A copy of the event with its sensitive payload fields redacted */
+export function redactEvent(event: DomainEvent): DomainEvent {
+  return { ...event, payload: mapSensitivePayload(event.type, event.payload, () => REDACTED) };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
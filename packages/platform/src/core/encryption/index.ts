@@ -0,0 +1,268 @@
+/**
+ * Field Encryption Module
+ *
+ * Encrypts fields marked `sensitive: true` before they reach the database
+ * and decrypts them on read. The DatabaseClient calls encryptRecord and
+ * decryptRecord — domain code and actions only ever see plaintext.
+ *
+ * Algorithm: AES-256-GCM with a random 96-bit IV per value.
+ *
+ * Stored format (always a TEXT column):
+ *   enc:<keyId>:<iv base64>:<auth tag base64>:<ciphertext base64>
+ *
+ * The plaintext is the JSON encoding of the value, so numbers, booleans
+ * and dates round-trip with their original types.
+ *
+ * Keys are configured locally via FIELD_ENCRYPTION_KEYS — a comma-separated
+ * list of `keyId:base64Key` pairs (32-byte keys). The FIRST key encrypts
+ * new writes; the rest are kept for decrypting older values.
+ *
+ * Key rotation:
+ *   1. Prepend a new key:  FIELD_ENCRYPTION_KEYS=k2:<new>,k1:<old>
+ *   2. Restart the API — new writes use k2, old values still decrypt with k1
+ *   3. Run `pnpm db:rotate-keys` to re-encrypt existing rows and record
+ *      history (record_versions) with k2
+ *   4. Remove k1 from the list
+ *
+ * Values stored before encryption was enabled (no `enc:` prefix) are
+ * returned as-is and get encrypted by the next rotation run.
+ *
+ * Usage:
+ *   initEncryption();  // Call once at startup — reads FIELD_ENCRYPTION_KEYS
+ *
+ *   const stored = encryptRecord(entity, { phone: "+1 555 0100" });
+ *   const plain = decryptRecord(entity, stored);
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import type { EntityDefinition } from "@metasaas/contracts";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A named AES-256 key. The ID is stored alongside each ciphertext. */
+export interface EncryptionKey {
+  /** Short identifier (e.g., "2026-01"). Must not contain ":" or ",". */
+  id: string;
+
+  /** 32-byte key material */
+  key: Buffer;
+}
+
+/** Prefix that marks a stored value as ciphertext */
+const PREFIX = "enc:";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+
+/** Configured keys. keys[0] is the active (encrypting) key. */
+let keys: EncryptionKey[] = [];
+
+// ---------------------------------------------------------------------------
+// Initialization
+// ---------------------------------------------------------------------------
+
+/**
+ * Parses a FIELD_ENCRYPTION_KEYS value into keys.
+ * Throws on malformed entries — a bad key must never silently disable encryption.
+ */
+export function parseEncryptionKeys(raw: string): EncryptionKey[] {
+  return raw
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const sep = entry.indexOf(":");
+      if (sep <= 0) {
+        throw new Error(
+          `Invalid FIELD_ENCRYPTION_KEYS entry — expected "keyId:base64Key"`
+        );
+      }
+      const id = entry.slice(0, sep);
+      const key = Buffer.from(entry.slice(sep + 1), "base64");
+      if (key.length !== KEY_BYTES) {
+        throw new Error(
+          `Encryption key "${id}" must be ${KEY_BYTES} bytes (got ${key.length}). ` +
+          `Generate one with: openssl rand -base64 32`
+        );
+      }
+      return { id, key };
+    });
+}
+
+/**
+ * Initialize field encryption from FIELD_ENCRYPTION_KEYS.
+ *
+ * Without keys, sensitive fields are stored in plaintext and a warning is
+ * logged — fine for local development, never for production data.
+ * Throws if the variable is set but malformed (fail fast).
+ */
+export function initEncryption(): void {
+  const raw = process.env.FIELD_ENCRYPTION_KEYS;
+
+  if (!raw) {
+    keys = [];
+    console.warn(
+      "[encryption] No FIELD_ENCRYPTION_KEYS — sensitive fields will be stored in plaintext"
+    );
+    return;
+  }
+
+  keys = parseEncryptionKeys(raw);
+  console.log(
+    `[encryption] Initialized with ${keys.length} key(s), active key: "${keys[0].id}"`
+  );
+}
+
+/**
+ * Override the configured keys (for testing and scripts).
+ * The first key becomes the active key.
+ */
+export function setEncryptionKeys(list: EncryptionKey[]): void {
+  keys = [...list];
+}
+
+/** Whether sensitive fields are being encrypted */
+export function isEncryptionEnabled(): boolean {
+  return keys.length > 0;
+}
+
+/** ID of the key used for new writes, or null when encryption is disabled */
+export function getActiveKeyId(): string | null {
+  return keys[0]?.id ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Value-level API
+// ---------------------------------------------------------------------------
+
+/** Whether a stored value is ciphertext produced by encryptValue */
+export function isEncryptedValue(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(PREFIX);
+}
+
+/**
+ * Whether a stored value should be rewritten by a rotation run:
+ * plaintext (when encryption is enabled) or encrypted with an older key.
+ */
+export function needsReEncryption(value: unknown): boolean {
+  if (value === null || value === undefined || !isEncryptionEnabled()) {
+    return false;
+  }
+  if (!isEncryptedValue(value)) return true;
+  return !value.startsWith(`${PREFIX}${getActiveKeyId()}:`);
+}
+
+/**
+ * Encrypts a value with the active key.
+ * null/undefined pass through so optional fields stay NULL in the database.
+ * When encryption is disabled the value is returned unchanged.
+ */
+export function encryptValue(value: unknown): unknown {
+  if (value === null || value === undefined || !isEncryptionEnabled()) {
+    return value;
+  }
+
+  const { id, key } = keys[0];
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(JSON.stringify(value), "utf8"),
+    cipher.final(),
+  ]);
+  const tag = cipher.getAuthTag();
+
+  return [
+    "enc",
+    id,
+    iv.toString("base64"),
+    tag.toString("base64"),
+    ciphertext.toString("base64"),
+  ].join(":");
+}
+
+/**
+ * Decrypts a value produced by encryptValue.
+ * Non-encrypted values (legacy plaintext, NULL) are returned unchanged.
+ * Throws if the value was encrypted with a key that is no longer configured
+ * or has been tampered with — returning ciphertext as data would be worse.
+ */
+export function decryptValue(value: unknown): unknown {
+  if (!isEncryptedValue(value)) return value;
+
+  const [, keyId, iv, tag, ciphertext] = value.split(":");
+  const entry = keys.find((k) => k.id === keyId);
+  if (!entry) {
+    throw new Error(
+      `Cannot decrypt field: encryption key "${keyId}" is not configured`
+    );
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, entry.key, Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  const plaintext = Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+
+  return JSON.parse(plaintext);
+}
+
+// ---------------------------------------------------------------------------
+// Record-level API
+// ---------------------------------------------------------------------------
+
+/** Names of the entity's fields marked `sensitive: true` */
+export function getSensitiveFields(entity: EntityDefinition): string[] {
+  return entity.fields.filter((f) => f.sensitive).map((f) => f.name);
+}
+
+/**
+ * Returns a copy of a camelCase record with its sensitive fields encrypted.
+ * Fields not present in the record are left absent.
+ */
+export function encryptRecord(
+  entity: EntityDefinition,
+  data: Record<string, unknown>
+): Record<string, unknown> {
+  const result = { ...data };
+  for (const field of getSensitiveFields(entity)) {
+    if (field in result) {
+      result[field] = encryptValue(result[field]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Returns a copy of a camelCase record with its sensitive fields decrypted.
+ */
+export function decryptRecord(
+  entity: EntityDefinition,
+  row: Record<string, unknown>
+): Record<string, unknown> {
+  const result = { ...row };
+  for (const field of getSensitiveFields(entity)) {
+    if (field in result) {
+      result[field] = decryptValue(result[field]);
+    }
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Testing Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Reset encryption module state (for testing only).
+ */
+export function resetEncryption(): void {
+  keys = [];
+}
@@ -0,0 +1,105 @@
+/**
+ * Key Rotation Tests
+ *
+ * Runs rotateEncryptedFields against a mocked database holding an entity
+ * row and its record history, both written with a key that is then
+ * rotated out.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { randomBytes } from "node:crypto";
+import { defineEntity } from "@metasaas/contracts";
+import {
+  setEncryptionKeys,
+  encryptValue,
+  decryptValue,
+  resetEncryption,
+  type EncryptionKey,
+} from "./index.js";
+
+// Mock database: one patient row and one version of it
+let patients: Record<string, unknown>[];
+let versions: { id: string; entity: string; snapshot: Record<string, any>; changes: Record<string, any> }[];
+
+const mockUnsafe = vi.fn(async (query: string, params: unknown[] = []) => {
+  if (query.startsWith("SELECT id, phone FROM patients")) {
+    return patients.filter((p) => (p.id as string) > (params[0] as string));
+  }
+  if (query.startsWith("UPDATE patients")) {
+    const patient = patients.find((p) => p.id === params[1])!;
+    patient.phone = params[0];
+    return [];
+  }
+  if (query.includes("FROM record_versions")) {
+    return versions
+      .filter((v) => v.entity === params[0] && v.id > (params[1] as string))
+      .map(({ id, snapshot, changes }) => ({ id, snapshot: JSON.stringify(snapshot), changes }));
+  }
+  if (query.startsWith("UPDATE record_versions")) {
+    const version = versions.find((v) => v.id === params[2])!;
+    version.snapshot = JSON.parse(params[0] as string);
+    version.changes = JSON.parse(params[1] as string);
+    return [];
+  }
+  throw new Error(`Unexpected query: ${query}`);
+}) as any;
+
+vi.mock("../database/connection.js", () => ({
+  getDatabase: () => ({ sql: { unsafe: mockUnsafe } }),
+}));
+
+import { rotateEncryptedFields } from "./rotation.js";
+
+const KEY_1: EncryptionKey = { id: "k1", key: randomBytes(32) };
+const KEY_2: EncryptionKey = { id: "k2", key: randomBytes(32) };
+
+const PatientEntity = defineEntity({
+  name: "Patient",
+  pluralName: "Patients",
+  description: "Test entity with a sensitive field",
+  fields: [
+    { name: "name", type: "text", required: true, description: "Name" },
+    { name: "phone", type: "phone", required: false, description: "Phone", sensitive: true },
+  ],
+  ui: { icon: "user", listColumns: ["name"], searchFields: ["name"], defaultSort: { field: "name", direction: "asc" } },
+});
+
+describe("rotateEncryptedFields()", () => {
+  beforeEach(() => {
+    resetEncryption();
+    mockUnsafe.mockClear();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    setEncryptionKeys([KEY_1]);
+    const id = "00000000-0000-0000-0000-00000000000a";
+    patients = [{ id, phone: encryptValue("+1 555 0101") }];
+    versions = [
+      {
+        id: "00000000-0000-0000-0000-0000000000b1",
+        entity: "Patient",
+        snapshot: { name: "Ada", phone: encryptValue("+1 555 0101") },
+        changes: { name: { from: "A", to: "Ada" }, phone: { from: encryptValue("+1 555 0100"), to: encryptValue("+1 555 0101") } },
+      },
+    ];
+  });
+
+  it("re-encrypts record history so it still decrypts once the old key is removed", async () => {
+    setEncryptionKeys([KEY_2, KEY_1]);
+    const [result] = await rotateEncryptedFields([PatientEntity]);
+
+    expect(result).toEqual({ entity: "Patient", scanned: 1, updated: 1, versionsScanned: 1, versionsUpdated: 1 });
+
+    setEncryptionKeys([KEY_2]);
+    const [version] = versions;
+    expect(decryptValue(patients[0].phone)).toBe("+1 555 0101");
+    expect(decryptValue(version.snapshot.phone)).toBe("+1 555 0101");
+    expect(decryptValue(version.changes.phone.from)).toBe("+1 555 0100");
+    expect(decryptValue(version.changes.phone.to)).toBe("+1 555 0101");
+    expect(version.snapshot.name).toBe("Ada");
+    expect(version.changes.name).toEqual({ from: "A", to: "Ada" });
+  });
+
+  it("leaves versions already encrypted with the active key alone", async () => {
+    await rotateEncryptedFields([PatientEntity]);
+    expect(mockUnsafe.mock.calls.some(([query]: [string]) => query.startsWith("UPDATE record_versions"))).toBe(false);
+  });
+});
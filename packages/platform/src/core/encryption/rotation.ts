@@ -0,0 +1,169 @@
+/**
+ * Encryption Key Rotation
+ *
+ * Re-encrypts stored sensitive values with the active key — in entity
+ * tables and in the snapshots and diffs of record_versions, so history
+ * and revert keep working once the old key is removed. Run it after
+ * prepending a new key to FIELD_ENCRYPTION_KEYS, or after enabling
+ * encryption on a database that already holds plaintext values.
+ *
+ * Works across all tenants, in id-ordered batches so large tables never
+ * load into memory at once. Safe to re-run: values already encrypted with
+ * the active key are skipped.
+ *
+ * Usage: pnpm db:rotate-keys
+ */
+
+import type { EntityDefinition } from "@metasaas/contracts";
+import { getDatabase } from "../database/connection.js";
+import { toTableName, toColumnName } from "../database/schema-builder.js";
+import {
+  isEncryptionEnabled,
+  needsReEncryption,
+  encryptValue,
+  decryptValue,
+  getSensitiveFields,
+} from "./index.js";
+
+/** Outcome of rotating one entity's table */
+export interface RotationResult {
+  entity: string;
+  /** Rows scanned */
+  scanned: number;
+  /** Rows rewritten with the active key */
+  updated: number;
+  /** Versions of the entity's records scanned in record_versions */
+  versionsScanned: number;
+  /** Versions rewritten with the active key */
+  versionsUpdated: number;
+}
+
+/** Lowest possible UUID — starting point for id-ordered batching */
+const MIN_UUID = "00000000-0000-0000-0000-000000000000";
+
+/**
+ * Re-encrypts every sensitive value not yet encrypted with the active key.
+ *
+ * @param entities  - Entities to process (those without sensitive fields are skipped)
+ * @param batchSize - Rows fetched per query
+ */
+export async function rotateEncryptedFields(
+  entities: EntityDefinition[],
+  batchSize = 500
+): Promise<RotationResult[]> {
+  if (!isEncryptionEnabled()) {
+    throw new Error(
+      "Encryption is not configured. Set FIELD_ENCRYPTION_KEYS before rotating."
+    );
+  }
+
+  const { sql: pgSql } = getDatabase();
+  const results: RotationResult[] = [];
+
+  for (const entity of entities) {
+    const fields = getSensitiveFields(entity);
+    if (fields.length === 0) continue;
+
+    const tableName = toTableName(entity.name);
+    const columns = fields.map(toColumnName);
+    const result: RotationResult = {
+      entity: entity.name,
+      scanned: 0,
+      updated: 0,
+      versionsScanned: 0,
+      versionsUpdated: 0,
+    };
+
+    let lastId = MIN_UUID;
+    for (;;) {
+      const rows = await pgSql.unsafe(
+        `SELECT id, ${columns.join(", ")} FROM ${tableName} WHERE id > $1 ORDER BY id LIMIT ${batchSize}`,
+        [lastId]
+      );
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        result.scanned++;
+        const stale = columns.filter((col) => needsReEncryption(row[col]));
+        if (stale.length === 0) continue;
+
+        const assignments = stale.map((col, i) => `${col} = $${i + 1}`);
+        const values = stale.map(
+          (col) => encryptValue(decryptValue(row[col])) as string
+        );
+        await pgSql.unsafe(
+          `UPDATE ${tableName} SET ${assignments.join(", ")} WHERE id = $${stale.length + 1}`,
+          [...values, row.id as string]
+        );
+        result.updated++;
+      }
+
+      lastId = rows[rows.length - 1].id as string;
+    }
+
+    await rotateVersions(pgSql, entity.name, fields, batchSize, result);
+
+    console.log(
+      `[encryption] ${entity.name}: re-encrypted ${result.updated} of ${result.scanned} row(s), ` +
+      `${result.versionsUpdated} of ${result.versionsScanned} version(s)`
+    );
+    results.push(result);
+  }
+
+  return results;
+}
+
+/**
+ * Re-encrypts the sensitive values in an entity's record_versions rows:
+ * the snapshot value and both sides of the diff of each sensitive field.
+ */
+async function rotateVersions(
+  pgSql: any,
+  entityName: string,
+  fields: string[],
+  batchSize: number,
+  result: RotationResult
+): Promise<void> {
+  let lastId = MIN_UUID;
+  for (;;) {
+    const rows = await pgSql.unsafe(
+      `SELECT id, snapshot, changes FROM record_versions
+       WHERE entity = $1 AND id > $2 ORDER BY id LIMIT ${batchSize}`,
+      [entityName, lastId]
+    );
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      result.versionsScanned++;
+      const snapshot = parseJson(row.snapshot);
+      const changes = parseJson(row.changes);
+      let stale = false;
+      const reseal = (value: unknown) => {
+        if (!needsReEncryption(value)) return value;
+        stale = true;
+        return encryptValue(decryptValue(value));
+      };
+
+      for (const field of fields) {
+        if (field in snapshot) snapshot[field] = reseal(snapshot[field]);
+        const change = changes[field];
+        if (change) changes[field] = { from: reseal(change.from), to: reseal(change.to) };
+      }
+      if (!stale) continue;
+
+      await pgSql.unsafe(
+        `UPDATE record_versions SET snapshot = $1::jsonb, changes = $2::jsonb WHERE id = $3`,
+        [JSON.stringify(snapshot), JSON.stringify(changes), row.id as string]
+      );
+      result.versionsUpdated++;
+    }
+
+    lastId = rows[rows.length - 1].id as string;
+  }
+}
+
+/** JSONB written as a string parameter may come back as a string */
+function parseJson(value: unknown): Record<string, any> {
+  if (typeof value === "string") return JSON.parse(value);
+  return (value as Record<string, any>) ?? {};
+}
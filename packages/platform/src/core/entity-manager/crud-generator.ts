@@ -9,12 +9,63 @@
  *
  * Domain code can override these by registering actions with the
  * same ID before the CRUD generator runs.
+ *
+ * When the entity declares an `ownerField`, every action carries
+ * ownership metadata so `ownership: "own"` permission rules are
+ * enforced by the Action Bus, and create fills in the owner.
+ *
+ * findAll pages by offset or by keyset cursor: every page returns
+ * `nextCursor`/`prevCursor` (null at either end), and `total` unless
+ * `includeTotal: false` — by default it is only counted without a cursor,
+ * since counting is what gets slow on large tables.
+ *
+ * Entities with `softDelete` also get restore and purge actions, and
+ * findAll accepts `trashed: true` to list the trash.
+ *
+ * hasMany and manyToMany relationships add link, unlink and list
+ * actions on top (see relationship-actions.ts).
+ *
+ * Create and update store a version of the record (snapshot + field
+ * diff) for the history and revert actions (see history-actions.ts).
+ *
+ * The entity's cross-field `rules` are checked by create against the new
+ * record and by update against the stored record merged with the change.
+ *
+ * `user` fields must name members of the caller's workspace.
+ *
+ * Computed fields are left out of both input schemas and recomputed from
+ * the record on every create and update (see computeFields), before the
+ * rules are checked. Rollup fields are left out too; writes to a record
+ * refresh the rollups of the parents it belongs to (see core/rollups).
  */
 
 import { z } from "zod";
-import type { EntityDefinition, ActionDefinition } from "@metasaas/contracts";
-import { ALLOW_ALL, zodSchemaForFieldType } from "@metasaas/contracts";
+import type {
+  EntityDefinition,
+  ActionDefinition,
+  ActionContext,
+  ActionOwnership,
+  FieldDefinition,
+} from "@metasaas/contracts";
+import {
+  ALLOW_ALL,
+  computeFields,
+  computedFieldOrder,
+  describeRollup,
+  expressionFields,
+  isDerivedField,
+  parseExpression,
+  ruleFields,
+  whereClauseSchema,
+  zodSchemaForFieldType,
+} from "@metasaas/contracts";
 import { validateWorkflowTransitions, WorkflowError } from "../action-bus/middleware/workflow.js";
+import { ValidationError, validateEntityRules, validateUserFields } from "../action-bus/middleware/validation.js";
+import { encodeCursor, decodeCursor } from "../database/cursor.js";
+import { recordVersion } from "../history/index.js";
+import { emptyRollups, refreshRollups, rollupsOver } from "../rollups/index.js";
+import { generateRelationshipActions } from "./relationship-actions.js";
+import { generateHistoryActions } from "./history-actions.js";
 
 /**
  * Generates CRUD actions for an entity definition.
@@ -29,10 +80,48 @@ export function generateCRUDActions(
   const fieldSchemas: Record<string, z.ZodTypeAny> = {};
   const fieldSchemasOptional: Record<string, z.ZodTypeAny> = {};
 
+  // Like bad patterns below, a rule on a missing field would otherwise only
+  // surface when the first record is saved
+  for (const rule of entity.rules ?? []) {
+    const unknown = ruleFields(rule).find((name) => !entity.fields.some((f) => f.name === name));
+    if (unknown) throw new Error(`${entity.name}: ${rule.type} rule references unknown field "${unknown}"`);
+  }
+
+  // Same for computed field expressions; computedFieldOrder also throws
+  // on computed fields that depend on each other in a cycle
+  for (const field of entity.fields) {
+    if (field.computed === undefined) continue;
+    let reads: string[];
+    try {
+      reads = expressionFields(parseExpression(field.computed));
+    } catch (err) {
+      throw new Error(`${entity.name}.${field.name}: invalid computed expression: ${(err as Error).message}`);
+    }
+    const unknown = reads.find((name) => !entity.fields.some((f) => f.name === name));
+    if (unknown) throw new Error(`${entity.name}.${field.name}: computed expression references unknown field "${unknown}"`);
+  }
+  const hasComputedFields = computedFieldOrder(entity).length > 0;
+
   for (const field of entity.fields) {
+    // Computed and rollup fields are never written by callers — any value
+    // sent is stripped
+    if (isDerivedField(field)) continue;
+
+    // A bad pattern would otherwise only surface when the first record is saved
+    for (const rule of field.validations ?? []) {
+      if (rule.pattern === undefined) continue;
+      try {
+        new RegExp(rule.pattern);
+      } catch {
+        throw new Error(`${entity.name}.${field.name}: invalid validation pattern ${JSON.stringify(rule.pattern)}`);
+      }
+    }
+
     const schema = zodSchemaForFieldType(field.type, {
       required: field.required,
       enumValues: field.options,
+      validations: field.validations,
+      jsonSchema: field.jsonSchema,
     });
 
     // If a required field declares a defaultValue, make it optional in the
@@ -45,6 +134,12 @@ export function generateCRUDActions(
       fieldSchemas[field.name] = schema;
     }
 
+    // The owner field is filled in from the caller on create, so it
+    // never has to be supplied — even if the entity marks it required.
+    if (field.name === entity.ownerField) {
+      fieldSchemas[field.name] = schema.optional();
+    }
+
     // For update, all fields are optional
     fieldSchemasOptional[field.name] = schema.optional();
   }
@@ -65,6 +160,18 @@ export function generateCRUDActions(
     }
   }
 
+  // Permission rules and ownership metadata shared by all five actions
+  const permissions = entity.permissions ?? [ALLOW_ALL];
+  const ownership = (
+    scope: ActionOwnership["scope"],
+    trashed?: boolean
+  ): ActionOwnership | undefined =>
+    entity.ownerField
+      ? { entity: entity.name, field: entity.ownerField, scope, ...(trashed && { trashed }) }
+      : undefined;
+
+  const softDelete = Boolean(entity.softDelete);
+
   const createSchema = z.object(fieldSchemas);
   const updateSchema = z.object(fieldSchemasOptional);
   const recordSchema = z.record(z.unknown());
@@ -78,7 +185,10 @@ export function generateCRUDActions(
   const exampleInput: Record<string, unknown> = {};
   for (const field of entity.fields) {
     if (!field.required) continue;
+    if (isDerivedField(field)) continue; // derived, never sent
     if (field.defaultValue !== undefined) continue; // AI can safely omit these
+    if (field.name === entity.ownerField) continue; // filled in from the caller
+    if (field.sensitive) continue; // never shown to AI models
 
     // Use a short, realistic placeholder that hints at the field type
     switch (field.type) {
@@ -93,6 +203,15 @@ export function generateCRUDActions(
       case "enum":
         exampleInput[field.name] = field.options?.[0] ?? "value";
         break;
+      case "multi_enum":
+        exampleInput[field.name] = field.options?.slice(0, 1) ?? [];
+        break;
+      case "tags":
+        exampleInput[field.name] = [`example ${field.name}`];
+        break;
+      case "json":
+        exampleInput[field.name] = {};
+        break;
       default:
         exampleInput[field.name] = `example ${field.name}`;
     }
@@ -100,11 +219,15 @@ export function generateCRUDActions(
 
   // Build a human-readable field list for the action description so
   // the AI model knows exactly which fields exist and which are optional.
-  const fieldHints = entity.fields.map((f) => {
+  // Sensitive fields are left out — action descriptions are sent to AI providers.
+  const fieldHints = entity.fields.filter((f) => !f.sensitive).map((f) => {
+    if (f.computed !== undefined) return `${f.name}(${f.type}, computed: ${f.computed}, read-only)`;
+    if (f.rollup) return `${f.name}(${f.type}, rollup: ${describeRollup(f.rollup)}, read-only)`;
     const parts = [f.name, `(${f.type}`];
-    if (f.required && f.defaultValue === undefined) parts.push(", required");
+    if (f.required && f.defaultValue === undefined && f.name !== entity.ownerField) parts.push(", required");
     if (f.defaultValue !== undefined) parts.push(`, default: ${JSON.stringify(f.defaultValue)}`);
     if (f.options?.length) parts.push(`, values: ${f.options.join("|")}`);
+    parts.push(...describeValidations(f));
     parts.push(")");
     return parts.join("");
   }).join(", ");
@@ -118,7 +241,8 @@ export function generateCRUDActions(
     description: `Creates a new ${entity.name} record. Fields: ${fieldHints}. ${entity.description}`,
     inputSchema: createSchema,
     outputSchema: recordSchema,
-    permissions: [ALLOW_ALL],
+    permissions,
+    ownership: ownership("create"),
     idempotent: false,
     affectsEntities: [entity.name],
     examples: [
@@ -133,6 +257,12 @@ export function generateCRUDActions(
     async execute(input, ctx) {
       const record = input as Record<string, unknown>;
 
+      // Ownership: records are owned by whoever creates them unless the
+      // caller explicitly assigns someone else.
+      if (entity.ownerField && record[entity.ownerField] == null) {
+        record[entity.ownerField] = ctx.caller.userId;
+      }
+
       // Workflow: validate initial state on create.
       // For each workflow, if the record includes the workflow field,
       // ensure it's a valid "from" state (an entry point to the workflow).
@@ -153,7 +283,14 @@ export function generateCRUDActions(
         }
       }
 
+      Object.assign(record, emptyRollups(entity));
+      if (hasComputedFields) Object.assign(record, computeFields(entity, record));
+      validateEntityRules(entity, record);
+      await validateUserFields(entity, record, ctx);
+
       const result = await ctx.db.create(entity.name, record);
+      await refreshRollups(ctx.db, entity.name, [result]);
+      await saveVersion(entity, ctx, `${entityLower}.create`, null, result);
       await ctx.emit({
         type: `${entityLower}.created`,
         payload: { id: result.id, ...result },
@@ -168,9 +305,12 @@ export function generateCRUDActions(
   const findAllAction: ActionDefinition = {
     id: `${entityLower}.findAll`,
     name: `List ${entity.pluralName}`,
-    description: `Retrieves a list of ${entity.pluralName} with optional filtering and sorting.`,
+    description:
+      `Retrieves a list of ${entity.pluralName} with optional filtering and sorting. ` +
+      `"where" maps fields to a value (equality) or an operator map — eq, ne, gt, gte, lt, lte, ` +
+      `in, nin (arrays), between ([from, to]), null (true/false) — and "$or" lists alternative clauses.`,
     inputSchema: z.object({
-      where: z.record(z.unknown()).optional(),
+      where: whereClauseSchema.optional(),
       search: z.object({
         term: z.string(),
         fields: z.array(z.string()),
@@ -183,12 +323,18 @@ export function generateCRUDActions(
         .optional(),
       limit: z.number().int().positive().max(100).optional(),
       offset: z.number().int().min(0).optional(),
+      cursor: z.string().optional(),
+      includeTotal: z.boolean().optional(),
+      ...(softDelete && { trashed: z.boolean().optional() }),
     }),
     outputSchema: z.object({
       data: listSchema,
-      total: z.number(),
+      total: z.number().optional(),
+      nextCursor: z.string().nullable(),
+      prevCursor: z.string().nullable(),
     }),
-    permissions: [ALLOW_ALL],
+    permissions,
+    ownership: ownership("list"),
     idempotent: true,
     async execute(input, ctx) {
       const typedInput = input as {
@@ -197,20 +343,52 @@ export function generateCRUDActions(
         orderBy?: { field: string; direction: "asc" | "desc" };
         limit?: number;
         offset?: number;
+        cursor?: string;
+        includeTotal?: boolean;
+        trashed?: boolean;
       };
 
-      const [data, total] = await Promise.all([
+      const orderBy = typedInput.orderBy ?? entity.ui.defaultSort;
+      const limit = typedInput.limit ?? 50;
+      const offset = typedInput.offset ?? 0;
+      const cursor = typedInput.cursor ? decodeCursor(typedInput.cursor, orderBy) : null;
+      if (typedInput.cursor && !cursor) {
+        throw new ValidationError("Invalid cursor", [
+          { field: "cursor", message: "Cursor is malformed or belongs to a different sort order", code: "invalid_cursor" },
+        ]);
+      }
+      const includeTotal = typedInput.includeTotal ?? !cursor;
+
+      // One extra row tells whether there is a page beyond this one
+      const [rows, total] = await Promise.all([
         ctx.db.findMany(entity.name, {
           where: typedInput.where,
           search: typedInput.search,
-          orderBy: typedInput.orderBy ?? entity.ui.defaultSort,
-          limit: typedInput.limit ?? 50,
-          offset: typedInput.offset ?? 0,
+          orderBy,
+          limit: limit + 1,
+          offset,
+          cursor: typedInput.cursor,
+          trashed: typedInput.trashed,
         }),
-        ctx.db.count(entity.name, typedInput.where, typedInput.search),
+        includeTotal
+          ? ctx.db.count(entity.name, typedInput.where, typedInput.search, {
+              trashed: typedInput.trashed,
+            })
+          : undefined,
       ]);
 
-      return { data, total };
+      const hasMore = rows.length > limit;
+      // A backward page ends at the cursor, so the extra row is its first
+      const data = !hasMore ? rows : cursor?.backward ? rows.slice(1) : rows.slice(0, limit);
+      const hasNext = cursor?.backward ? true : hasMore;
+      const hasPrev = cursor?.backward ? hasMore : Boolean(cursor) || offset > 0;
+
+      return {
+        data,
+        ...(total !== undefined && { total }),
+        nextCursor: hasNext && data.length > 0 ? encodeCursor(data[data.length - 1], orderBy) : null,
+        prevCursor: hasPrev && data.length > 0 ? encodeCursor(data[0], orderBy, true) : null,
+      };
     },
   };
 
@@ -223,7 +401,8 @@ export function generateCRUDActions(
     description: `Retrieves a single ${entity.name} by its unique ID.`,
     inputSchema: z.object({ id: z.string().uuid() }),
     outputSchema: recordSchema.nullable(),
-    permissions: [ALLOW_ALL],
+    permissions,
+    ownership: ownership("record"),
     idempotent: true,
     async execute(input, ctx) {
       const { id } = input as { id: string };
@@ -243,7 +422,8 @@ export function generateCRUDActions(
       data: updateSchema,
     }),
     outputSchema: recordSchema,
-    permissions: [ALLOW_ALL],
+    permissions,
+    ownership: ownership("record"),
     beforeExecute: entity.hooks?.beforeUpdate as ActionDefinition["beforeExecute"],
     afterExecute: entity.hooks?.afterUpdate as ActionDefinition["afterExecute"],
     idempotent: true,
@@ -251,15 +431,16 @@ export function generateCRUDActions(
     async execute(input, ctx) {
       const { id, data } = input as { id: string; data: Record<string, unknown> };
 
+      // The current record is needed for workflow checks and the version diff
+      const current = await ctx.db.findById(entity.name, id);
+
       // Workflow validation: if the entity has workflows, check transitions
       if (entity.workflows && entity.workflows.length > 0) {
-        // Need the current record to compare state
         const hasWorkflowFieldChange = entity.workflows.some(
           (w) => data[w.field] !== undefined
         );
 
         if (hasWorkflowFieldChange) {
-          const current = await ctx.db.findById(entity.name, id);
           if (!current) {
             throw new Error(`${entity.name} with id "${id}" not found`);
           }
@@ -290,7 +471,24 @@ export function generateCRUDActions(
         }
       }
 
+      // Computed fields follow from the record as it will be after the
+      // update, and so do the rules
+      if (current && hasComputedFields) {
+        Object.assign(data, computeFields(entity, { ...current, ...data }));
+      }
+      if (current) {
+        validateEntityRules(entity, { ...current, ...data }, {
+          changedFields: Object.keys(data),
+          pathPrefix: "data.",
+        });
+      }
+      await validateUserFields(entity, data, ctx, { pathPrefix: "data." });
+
       const result = await ctx.db.update(entity.name, id, data);
+      await refreshRollups(ctx.db, entity.name, [current, result]);
+      if (current && result) {
+        await saveVersion(entity, ctx, `${entityLower}.update`, current, result);
+      }
       await ctx.emit({
         type: `${entityLower}.updated`,
         payload: { id, changes: data },
@@ -305,17 +503,23 @@ export function generateCRUDActions(
   const deleteAction: ActionDefinition = {
     id: `${entityLower}.delete`,
     name: `Delete ${entity.name}`,
-    description: `Permanently deletes a ${entity.name} record by ID.`,
+    description: softDelete
+      ? `Moves a ${entity.name} record to the trash by ID. It can be restored until it is purged.`
+      : `Permanently deletes a ${entity.name} record by ID.`,
     inputSchema: z.object({ id: z.string().uuid() }),
     outputSchema: z.object({ success: z.boolean() }),
-    permissions: [ALLOW_ALL],
+    permissions,
+    ownership: ownership("record"),
     idempotent: true,
     affectsEntities: [entity.name],
     beforeExecute: entity.hooks?.beforeDelete as ActionDefinition["beforeExecute"],
     async execute(input, ctx) {
       const { id } = input as { id: string };
+      // Rollups over this entity need to know which parent lost the record
+      const record = rollupsOver(entity.name).length > 0 ? await ctx.db.findById(entity.name, id) : null;
       const deleted = await ctx.db.delete(entity.name, id);
       if (deleted) {
+        await refreshRollups(ctx.db, entity.name, [record]);
         await ctx.emit({
           type: `${entityLower}.deleted`,
           payload: { id },
@@ -325,5 +529,114 @@ export function generateCRUDActions(
     },
   };
 
-  return [createAction, findAllAction, findByIdAction, updateAction, deleteAction];
+  // ---------------------------------------------------------------
+  // RESTORE / PURGE (soft-delete entities only)
+  // ---------------------------------------------------------------
+  const trashActions: ActionDefinition[] = [];
+  if (softDelete) {
+    trashActions.push({
+      id: `${entityLower}.restore`,
+      name: `Restore ${entity.name}`,
+      description: `Restores a deleted ${entity.name} record from the trash.`,
+      inputSchema: z.object({ id: z.string().uuid() }),
+      outputSchema: recordSchema.nullable(),
+      permissions,
+      ownership: ownership("record", true),
+      idempotent: true,
+      affectsEntities: [entity.name],
+      async execute(input, ctx) {
+        const { id } = input as { id: string };
+        const restored = await ctx.db.restore(entity.name, id);
+        if (restored) {
+          await refreshRollups(ctx.db, entity.name, [restored]);
+          await ctx.emit({
+            type: `${entityLower}.restored`,
+            payload: { id, ...restored },
+          });
+        }
+        return restored;
+      },
+    });
+
+    trashActions.push({
+      id: `${entityLower}.purge`,
+      name: `Purge ${entity.name}`,
+      description: `Permanently deletes a ${entity.name} record that is in the trash. Cannot be undone.`,
+      inputSchema: z.object({ id: z.string().uuid() }),
+      outputSchema: z.object({ success: z.boolean() }),
+      permissions,
+      ownership: ownership("record", true),
+      idempotent: true,
+      affectsEntities: [entity.name],
+      async execute(input, ctx) {
+        const { id } = input as { id: string };
+        const purged = await ctx.db.purge(entity.name, id);
+        if (purged) {
+          await ctx.emit({
+            type: `${entityLower}.purged`,
+            payload: { id },
+          });
+        }
+        return { success: purged };
+      },
+    });
+  }
+
+  return [
+    createAction,
+    findAllAction,
+    findByIdAction,
+    updateAction,
+    deleteAction,
+    ...trashActions,
+    ...generateRelationshipActions(entity),
+    ...generateHistoryActions(entity),
+  ];
+}
+
+/**
+ * Stores a version of the record after create/update. A failure is logged
+ * but never fails the action — the write itself has already happened.
+ */
+async function saveVersion(
+  entity: EntityDefinition,
+  ctx: ActionContext,
+  actionId: string,
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown>
+): Promise<void> {
+  try {
+    await recordVersion({
+      tenantId: ctx.caller.tenantId,
+      entity,
+      recordId: after.id as string,
+      before,
+      after,
+      userId: ctx.caller.userId,
+      actionId,
+    });
+  } catch (err) {
+    ctx.logger.error("Failed to record version", {
+      entity: entity.name,
+      id: after.id,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
+/**
+ * Action-hint fragments for a field's validation rules, e.g.
+ * ", min length 3", ", max 100", ", pattern ^[A-Z]{3}$".
+ */
+function describeValidations(field: FieldDefinition): string[] {
+  // Date and boolean fields ignore validations (see checkFieldValidations)
+  if (["date", "datetime", "boolean"].includes(field.type)) return [];
+  const numeric = ["number", "currency", "percentage"].includes(field.type);
+  const parts: string[] = [];
+  for (const rule of field.validations ?? []) {
+    if (rule.min !== undefined) parts.push(numeric ? `, min ${rule.min}` : `, min length ${rule.min}`);
+    if (rule.max !== undefined) parts.push(numeric ? `, max ${rule.max}` : `, max length ${rule.max}`);
+    if (rule.pattern !== undefined && !numeric) parts.push(`, pattern ${rule.pattern}`);
+  }
+  return parts;
 }
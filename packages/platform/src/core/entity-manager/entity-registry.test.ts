@@ -15,6 +15,7 @@ import {
   getAllEntities,
   clearEntityRegistry,
 } from "./entity-registry.js";
+import { EntityDefinitionError } from "./entity-validator.js";
 import { defineEntity, type EntityDefinition } from "@metasaas/contracts";
 
 /**
@@ -63,6 +64,14 @@ describe("registerEntity", () => {
       'Entity "TestEntity" is already registered'
     );
   });
+
+  it("rejects an invalid definition", () => {
+    const entity = createTestEntity({
+      ui: { icon: "package", listColumns: ["nmae"], searchFields: ["name"], defaultSort: { field: "name", direction: "asc" } },
+    });
+    expect(() => registerEntity(entity)).toThrow(EntityDefinitionError);
+    expect(getEntity("TestEntity")).toBeUndefined();
+  });
 });
 
 describe("registerEntities", () => {
@@ -74,6 +83,15 @@ describe("registerEntities", () => {
     registerEntities(entities);
     expect(getAllEntities()).toHaveLength(2);
   });
+
+  it("checks relationship targets across the set before registering any", () => {
+    const entities = [
+      createTestEntity({ name: "Alpha", pluralName: "Alphas", relationships: [{ type: "belongsTo", entity: "Beta" }] }),
+      createTestEntity({ name: "Gamma", pluralName: "Gammas", relationships: [{ type: "belongsTo", entity: "Alpha" }] }),
+    ];
+    expect(() => registerEntities(entities)).toThrow('No entity named "Beta"');
+    expect(getAllEntities()).toHaveLength(0);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -4,15 +4,21 @@
  * Central registry of all entity definitions.
  * The domain registers entities here at startup.
  * The platform reads this to build schemas, generate CRUD, and configure the UI.
+ *
+ * Definitions are validated on the way in (see entity-validator.ts) — a
+ * definition with issues throws an EntityDefinitionError.
  */
 
 import type { EntityDefinition } from "@metasaas/contracts";
+import { assertValidEntity, validateEntityDefinition, EntityDefinitionError } from "./entity-validator.js";
 
 /** All registered entities, keyed by entity name */
 const entities = new Map<string, EntityDefinition>();
 
 /**
  * Registers an entity definition.
+ * Relationship targets aren't checked — the related entity may be
+ * registered later; registerEntities checks them across the whole set.
  */
 export function registerEntity(entity: EntityDefinition) {
   if (entities.has(entity.name)) {
@@ -20,13 +26,21 @@ export function registerEntity(entity: EntityDefinition) {
       `Entity "${entity.name}" is already registered. Entity names must be unique.`
     );
   }
+  assertValidEntity(entity);
   entities.set(entity.name, entity);
 }
 
 /**
- * Registers multiple entities at once.
+ * Registers multiple entities at once. All of them are validated before
+ * any is registered, relationship targets included.
  */
 export function registerEntities(entityList: EntityDefinition[]) {
+  const known = [...entities.values(), ...entityList];
+  const issues = entityList.flatMap((entity) => validateEntityDefinition(entity, { entities: known }));
+  if (issues.length > 0) {
+    throw new EntityDefinitionError(issues);
+  }
+
   for (const entity of entityList) {
     registerEntity(entity);
   }
@@ -0,0 +1,320 @@
+/**
+ * Entity Validator — Test Suite
+ *
+ * Validates the semantic checks on entity definitions: field names and
+ * types, references from the UI config, workflows, constraints, indexes,
+ * rules and AI capabilities, relationship targets, and the structured
+ * issues and error they are reported as.
+ */
+
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { defineEntity, defineAICapability, type EntityDefinition } from "@metasaas/contracts";
+import {
+  validateEntityDefinition,
+  validateEntityDefinitions,
+  assertValidEntity,
+  EntityDefinitionError,
+} from "./entity-validator.js";
+
+/**
+ * Factory: a valid Deal entity with a status workflow.
+ */
+function createDeal(overrides: Partial<EntityDefinition> = {}): EntityDefinition {
+  return defineEntity({
+    name: "Deal",
+    pluralName: "Deals",
+    description: "A sales opportunity",
+    fields: [
+      { name: "title", type: "text", required: true, description: "Title" },
+      { name: "stage", type: "enum", required: true, description: "Stage", options: ["open", "won", "lost"], defaultValue: "open" },
+      { name: "closeDate", type: "date", required: false, description: "Close date" },
+      { name: "ownerId", type: "text", required: false, description: "Owner" },
+    ],
+    relationships: [{ type: "belongsTo", entity: "Company" }],
+    ownerField: "ownerId",
+    workflows: [
+      { name: "pipeline", field: "stage", transitions: [{ from: "open", to: "won", requires: ["closeDate"] }, { from: "open", to: "lost" }] },
+    ],
+    ui: {
+      icon: "briefcase",
+      listColumns: ["title", "stage", "companyId", "createdAt"],
+      searchFields: ["title"],
+      defaultSort: { field: "createdAt", direction: "desc" },
+      kanban: { groupBy: "stage" },
+      calendar: { dateField: "closeDate" },
+    },
+    ...overrides,
+  });
+}
+
+const Company = defineEntity({
+  name: "Company",
+  pluralName: "Companies",
+  description: "An organization",
+  fields: [{ name: "name", type: "text", required: true, description: "Name" }],
+  ui: { icon: "building", listColumns: ["name"], searchFields: ["name"], defaultSort: { field: "name", direction: "asc" } },
+});
+
+const codes = (entity: EntityDefinition, entities?: EntityDefinition[]) =>
+  validateEntityDefinition(entity, { entities }).map((i) => [i.path, i.code]);
+
+describe("validateEntityDefinition", () => {
+  it("accepts a valid definition, with foreign keys and system fields as references", () => {
+    expect(validateEntityDefinition(createDeal(), { entities: [Company] })).toEqual([]);
+  });
+
+  it("reports field name problems", () => {
+    const entity = createDeal({
+      fields: [
+        { name: "title", type: "text", required: true, description: "Title" },
+        { name: "title", type: "text", required: false, description: "Again" },
+        { name: "createdAt", type: "datetime", required: false, description: "Clashes with created_at" },
+        { name: "total amount", type: "number", required: false, description: "Not an identifier" },
+      ],
+      ownerField: undefined,
+      workflows: undefined,
+      ui: { icon: "x", listColumns: ["title"], searchFields: [], defaultSort: { field: "title", direction: "asc" } },
+    });
+    expect(codes(entity)).toEqual([
+      ["fields[1].name", "duplicate_field"],
+      ["fields[2].name", "reserved_name"],
+      ["fields[3].name", "invalid_name"],
+    ]);
+  });
+
+  it("reports enum fields without options or with a default outside them", () => {
+    const entity = createDeal({
+      fields: [
+        { name: "title", type: "text", required: true, description: "Title" },
+        { name: "stage", type: "enum", required: true, description: "Stage", options: ["open"], defaultValue: "won" },
+        { name: "kind", type: "enum", required: false, description: "Kind" },
+      ],
+      ownerField: undefined,
+      workflows: undefined,
+      ui: { icon: "x", listColumns: ["title"], searchFields: [], defaultSort: { field: "title", direction: "asc" } },
+    });
+    expect(codes(entity)).toEqual([
+      ["fields[1].defaultValue", "invalid_default"],
+      ["fields[2].options", "missing_options"],
+    ]);
+  });
+
+  it("reports list and json fields with bad options, defaults or schemas", () => {
+    const base = { description: "Field", required: false };
+    const entity = createDeal({
+      fields: [
+        ...createDeal().fields,
+        { ...base, name: "colors", type: "multi_enum" },
+        { ...base, name: "sizes", type: "multi_enum", options: ["s", "m"], defaultValue: ["xl"] },
+        { ...base, name: "labels", type: "tags", defaultValue: "urgent" },
+        { ...base, name: "address", type: "json", jsonSchema: { type: "object", properties: { zip: { type: "text" as never } } } },
+        { ...base, name: "config", type: "json", jsonSchema: { type: "object" }, defaultValue: [] },
+        { ...base, name: "note", type: "text", jsonSchema: {} },
+      ],
+    });
+    expect(codes(entity)).toEqual([
+      ["fields[4].options", "missing_options"],
+      ["fields[5].defaultValue", "invalid_default"],
+      ["fields[6].defaultValue", "invalid_default"],
+      ["fields[7].jsonSchema.properties.zip.type", "invalid_json_schema"],
+      ["fields[8].defaultValue", "invalid_default"],
+      ["fields[9].jsonSchema", "wrong_field_type"],
+    ]);
+  });
+
+  it("reports computed fields with bad expressions, types or cycles", () => {
+    const base = { description: "Computed", required: false };
+    const entity = createDeal({
+      fields: [
+        ...createDeal().fields,
+        { ...base, name: "amount", type: "currency", computed: "quantity * price" },
+        { ...base, name: "label", type: "text", computed: "title +" },
+        { ...base, name: "due", type: "date", computed: "closeDate" },
+        { ...base, name: "score", type: "number", required: true, computed: "1" },
+      ],
+    });
+    expect(codes(entity)).toEqual([
+      ["fields[4].computed", "unknown_field"],
+      ["fields[4].computed", "unknown_field"],
+      ["fields[5].computed", "invalid_computed"],
+      ["fields[6].type", "wrong_field_type"],
+      ["fields[7].required", "invalid_computed"],
+    ]);
+
+    const cyclic = createDeal({
+      fields: [
+        ...createDeal().fields,
+        { ...base, name: "a", type: "number", computed: "b + 1" },
+        { ...base, name: "b", type: "number", computed: "a + 1" },
+      ],
+    });
+    expect(validateEntityDefinition(cyclic).map((i) => i.message)).toEqual([
+      "Deal: computed fields depend on each other in a cycle: a → b → a",
+    ]);
+  });
+
+  it("reports rollups over unknown relationships or unsuitable fields", () => {
+    const base = { description: "Rollup", required: false };
+    const Contact = defineEntity({
+      name: "Contact",
+      pluralName: "Contacts",
+      description: "A person",
+      fields: [
+        { name: "name", type: "text", required: true, description: "Name" },
+        { name: "score", type: "number", required: false, description: "Score" },
+      ],
+      relationships: [{ type: "belongsTo", entity: "Company" }],
+      ui: { icon: "user", listColumns: ["name"], searchFields: [], defaultSort: { field: "name", direction: "asc" } },
+    });
+    const company = defineEntity({
+      ...Company,
+      fields: [
+        ...Company.fields,
+        { ...base, name: "contactCount", type: "number", rollup: { relationship: "Contact", function: "count", filter: { companyId: null } } },
+        { ...base, name: "bestScore", type: "text", required: true, rollup: { relationship: "Contact", function: "max" } },
+        { ...base, name: "nameTotal", type: "number", rollup: { relationship: "Contact", function: "sum", field: "name" } },
+        { ...base, name: "dealCount", type: "number", rollup: { relationship: "Deal", function: "count", filter: { stage: "won" } } },
+        { ...base, name: "filtered", type: "number", rollup: { relationship: "Contact", function: "count", filter: { tier: "gold" } } },
+      ],
+      relationships: [{ type: "hasMany", entity: "Contact" }],
+    });
+
+    expect(codes(company, [company, Contact])).toEqual([
+      ["fields[2].type", "wrong_field_type"],
+      ["fields[2].required", "invalid_rollup"],
+      ["fields[2].rollup.field", "invalid_rollup"],
+      ["fields[3].rollup.field", "wrong_field_type"],
+      ["fields[4].rollup.relationship", "invalid_rollup"],
+      ["fields[5].rollup.filter", "unknown_field"],
+    ]);
+  });
+
+  it("reports UI references to unknown or unsuitable fields", () => {
+    const entity = createDeal({
+      ui: {
+        icon: "briefcase",
+        listColumns: ["title", "amount"],
+        searchFields: ["titel"],
+        defaultSort: { field: "title", direction: "asc" },
+        kanban: { groupBy: "title" },
+        calendar: { dateField: "stage" },
+      },
+    });
+    expect(codes(entity)).toEqual([
+      ["ui.listColumns[1]", "unknown_field"],
+      ["ui.searchFields[0]", "unknown_field"],
+      ["ui.kanban.groupBy", "wrong_field_type"],
+      ["ui.calendar.dateField", "wrong_field_type"],
+    ]);
+  });
+
+  it("reports workflow states that aren't options of the enum", () => {
+    const entity = createDeal({
+      workflows: [{ name: "pipeline", field: "stage", transitions: [{ from: "open", to: "closed_won" }] }],
+    });
+    const [issue] = validateEntityDefinition(entity);
+    expect(issue).toEqual({
+      entity: "Deal",
+      path: "workflows[0].transitions[0].to",
+      code: "unknown_state",
+      message: '"closed_won" is not an option of "stage"',
+    });
+  });
+
+  it("reports constraint, rule and AI context references", () => {
+    const entity = createDeal({
+      constraints: [
+        { type: "unique", fields: ["title", "region"] },
+        { type: "check", fields: ["closeDate"] },
+        { type: "check", fields: ["closeDate"], expression: "closeDate > createdAt" },
+      ],
+      rules: [{ type: "compare", field: "closeDate", operator: "gt", otherField: "openDate" }],
+      aiCapabilities: [
+        defineAICapability({
+          id: "deal.summarize",
+          type: "generation",
+          intent: "Summarize the deal",
+          input: { contextFields: ["title", "company.name", "notes"] },
+          output: { schema: z.object({ summary: z.string() }), fallback: { summary: "" } },
+          trigger: "on_demand",
+        }),
+      ],
+    });
+    expect(codes(entity)).toEqual([
+      ["constraints[0].fields[1]", "unknown_field"],
+      ["constraints[1].expression", "invalid_constraint"],
+      ["constraints[2].expression", "invalid_constraint"],
+      ["rules[0]", "unknown_field"],
+      ["aiCapabilities[0].input.contextFields[1]", "unknown_field"],
+      ["aiCapabilities[0].input.contextFields[2]", "unknown_field"],
+    ]);
+  });
+
+  it("reports indexes over unknown or sensitive fields, or with bad names", () => {
+    const entity = createDeal({
+      fields: [...createDeal().fields, { name: "ssn", type: "text", required: false, description: "SSN", sensitive: true }],
+      indexes: [
+        { fields: ["stage", "companyId"], where: { closeDate: null } },
+        { fields: [] },
+        { fields: ["ssn", "region"] },
+        { fields: ["title"], where: { status: "open" }, name: "Deals-by-title" },
+      ],
+    });
+    expect(codes(entity)).toEqual([
+      ["indexes[1].fields", "invalid_index"],
+      ["indexes[2].fields[0]", "invalid_index"],
+      ["indexes[2].fields[1]", "unknown_field"],
+      ["indexes[3].where.status", "unknown_field"],
+      ["indexes[3].name", "invalid_name"],
+    ]);
+  });
+
+  it("reports migration hints that rename or drop fields still declared", () => {
+    const [title, stage, closeDate, ownerId] = createDeal().fields;
+    const entity = createDeal({
+      fields: [
+        { ...title, migration: { renamedFrom: "name" } },
+        { ...stage, migration: { renamedFrom: "ownerId", transform: "lower(trim(stage))" } },
+        { ...closeDate, migration: { renamedFrom: "name", transform: "closeDate::date" } },
+        { ...ownerId, migration: { renamedFrom: "created_at" } },
+      ],
+      droppedFields: ["legacyCode", "title", "name", "tenantId"],
+    });
+    expect(codes(entity)).toEqual([
+      ["fields[1].migration.renamedFrom", "invalid_migration"],
+      ["fields[2].migration.renamedFrom", "invalid_migration"],
+      ["fields[2].migration.transform", "invalid_migration"],
+      ["fields[3].migration.renamedFrom", "invalid_migration"],
+      ["droppedFields[1]", "invalid_migration"],
+      ["droppedFields[2]", "invalid_migration"],
+      ["droppedFields[3]", "invalid_migration"],
+    ]);
+  });
+
+  it("checks relationship targets only when the entity set is given", () => {
+    expect(codes(createDeal())).toEqual([]);
+    expect(codes(createDeal(), [])).toEqual([["relationships[0].entity", "unknown_entity"]]);
+  });
+});
+
+describe("validateEntityDefinitions", () => {
+  it("checks relationships across the set and reports duplicate entities", () => {
+    const issues = validateEntityDefinitions([createDeal(), Company, Company]);
+    expect(issues.map((i) => [i.entity, i.code])).toEqual([["Company", "invalid_name"]]);
+  });
+});
+
+describe("assertValidEntity", () => {
+  it("throws an EntityDefinitionError listing the issues", () => {
+    const entity = createDeal({ ownerField: "owner" });
+    try {
+      assertValidEntity(entity);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(EntityDefinitionError);
+      expect((error as EntityDefinitionError).issues).toHaveLength(1);
+      expect((error as Error).message).toContain('Deal ownerField: "owner" is not a declared field');
+    }
+  });
+});
@@ -0,0 +1,463 @@
+/**
+ * Entity Validator
+ *
+ * Semantic checks for an EntityDefinition, beyond what the TypeScript
+ * types catch: references to fields that don't exist, kanban and workflow
+ * fields that aren't enums, workflow states missing from the enum's
+ * options, computed expressions that don't parse or loop, json schemas
+ * with unknown types, check constraints outside the accepted SQL subset,
+ * indexes over unknown or sensitive fields, rollups over relationships
+ * that don't exist, relationships to unknown entities, field names that
+ * collide with the platform's own columns, migration hints that rename
+ * or drop fields still declared, and so on. Without these, a
+ * typo in `ui.listColumns` or a workflow state outside `options` fails
+ * silently.
+ *
+ * registerEntity rejects a definition with issues (EntityDefinitionError),
+ * and registerEntities and installEntity also check relationship targets
+ * against the full set of entities. The API's `lint:entities` script runs
+ * the same checks over the domain package.
+ */
+
+import {
+  COMPUTED_FIELD_TYPES,
+  ExpressionError,
+  FIELD_TYPES,
+  JSON_SCHEMA_TYPES,
+  ROLLUP_FUNCTIONS,
+  checkJsonSchema,
+  computedFieldOrder,
+  expressionFields,
+  parseExpression,
+  rollupRelationship,
+  ruleFields,
+} from "@metasaas/contracts";
+import type { EntityDefinition, FieldDefinition, FieldType, JsonSchema } from "@metasaas/contracts";
+import { toColumnName, fromColumnName } from "../database/schema-builder.js";
+import { checkExpressionSQL } from "../database/constraints.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type EntityIssueCode =
+  | "invalid_name"
+  | "duplicate_field"
+  | "reserved_name"
+  | "invalid_field_type"
+  | "missing_options"
+  | "invalid_default"
+  | "invalid_pattern"
+  | "invalid_json_schema"
+  | "invalid_computed"
+  | "invalid_rollup"
+  | "unknown_field"
+  | "wrong_field_type"
+  | "unknown_state"
+  | "unknown_entity"
+  | "invalid_constraint"
+  | "invalid_index"
+  | "invalid_migration";
+
+/** A problem found in an entity definition */
+export interface EntityIssue {
+  /** Name of the entity the issue is in */
+  entity: string;
+  /** Where in the definition, e.g. "ui.listColumns[2]" or "workflows[0].transitions[1].to" */
+  path: string;
+  code: EntityIssueCode;
+  message: string;
+}
+
+export interface EntityValidationOptions {
+  /**
+   * Every entity the definition may relate to. When given, relationship
+   * targets are checked against it; when omitted they are not checked
+   * (the related entity may simply not be registered yet).
+   */
+  entities?: EntityDefinition[];
+}
+
+/**
+ * Thrown when an entity definition has issues.
+ * The message lists them; `issues` carries them structured.
+ */
+export class EntityDefinitionError extends Error {
+  public readonly issues: EntityIssue[];
+
+  constructor(issues: EntityIssue[]) {
+    const entities = [...new Set(issues.map((i) => i.entity))].join(", ");
+    super(
+      `Invalid entity definition (${entities}):\n` +
+        issues.map((i) => `  - ${i.entity} ${i.path}: ${i.message}`).join("\n")
+    );
+    this.name = "EntityDefinitionError";
+    this.issues = issues;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/** Columns every entity table gets, by column name */
+const RESERVED_COLUMNS = new Set(["id", "tenant_id", "created_at", "updated_at", "deleted_at"]);
+
+/** System fields that can be listed, sorted and referenced like declared ones */
+const SYSTEM_FIELDS = ["id", "createdAt", "updatedAt"];
+
+/** Field types that can be aggregated, and hold a rollup */
+const NUMERIC_TYPES: FieldType[] = ["number", "currency", "percentage"];
+
+const NAME_PATTERN = /^[A-Z][A-Za-z0-9]*$/;
+/** A PostgreSQL identifier the migration runner accepts */
+const INDEX_NAME_PATTERN = /^[a-z][a-z0-9_]{0,62}$/;
+/** camelCase by convention; snake_case is accepted for fields that declare a foreign key column */
+const FIELD_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+/** Checks one entity definition and returns every issue found (empty when valid) */
+export function validateEntityDefinition(
+  entity: EntityDefinition,
+  options: EntityValidationOptions = {}
+): EntityIssue[] {
+  const issues: EntityIssue[] = [];
+  const report = (path: string, code: EntityIssueCode, message: string) =>
+    issues.push({ entity: entity.name, path, code, message });
+
+  if (!NAME_PATTERN.test(entity.name ?? "")) {
+    report("name", "invalid_name", `"${entity.name}" must be PascalCase (e.g. "Contact")`);
+  }
+  if (!entity.pluralName) {
+    report("pluralName", "invalid_name", "pluralName is required");
+  }
+
+  const fields = new Map<string, FieldDefinition>();
+  const foreignKeys = belongsToFieldNames(entity);
+  /** Anything stored on the record: declared fields, foreign keys, system fields */
+  const recordFields = new Set([...entity.fields.map((f) => f.name), ...foreignKeys, ...SYSTEM_FIELDS]);
+
+  // Fields
+  entity.fields.forEach((field, i) => {
+    const path = `fields[${i}]`;
+    if (fields.has(field.name)) {
+      report(`${path}.name`, "duplicate_field", `Field "${field.name}" is declared more than once`);
+    }
+    fields.set(field.name, field);
+
+    if (!FIELD_NAME_PATTERN.test(field.name)) {
+      report(`${path}.name`, "invalid_name", `Field "${field.name}" must be an identifier (e.g. "firstName")`);
+    }
+    if (RESERVED_COLUMNS.has(toColumnName(field.name))) {
+      report(`${path}.name`, "reserved_name", `"${field.name}" collides with the platform column "${toColumnName(field.name)}"`);
+    }
+    if (!(FIELD_TYPES as readonly string[]).includes(field.type)) {
+      report(`${path}.type`, "invalid_field_type", `Unknown field type "${field.type}"`);
+    }
+    if (field.type === "enum") {
+      if (!field.options?.length) {
+        report(`${path}.options`, "missing_options", `Enum field "${field.name}" needs at least one option`);
+      } else if (field.defaultValue !== undefined && !field.options.includes(field.defaultValue as string)) {
+        report(`${path}.defaultValue`, "invalid_default", `Default ${JSON.stringify(field.defaultValue)} is not one of the options`);
+      }
+    }
+    if (field.type === "multi_enum") {
+      if (!field.options?.length) {
+        report(`${path}.options`, "missing_options", `Multi-select field "${field.name}" needs at least one option`);
+      } else if (
+        field.defaultValue !== undefined &&
+        !(Array.isArray(field.defaultValue) && field.defaultValue.every((v) => field.options!.includes(v)))
+      ) {
+        report(`${path}.defaultValue`, "invalid_default", `Default ${JSON.stringify(field.defaultValue)} must be a list of the options`);
+      }
+    }
+    if (
+      field.type === "tags" &&
+      field.defaultValue !== undefined &&
+      !(Array.isArray(field.defaultValue) && field.defaultValue.every((v) => typeof v === "string"))
+    ) {
+      report(`${path}.defaultValue`, "invalid_default", `Default ${JSON.stringify(field.defaultValue)} must be a list of tags`);
+    }
+    if (field.jsonSchema !== undefined) {
+      if (field.type !== "json") {
+        report(`${path}.jsonSchema`, "wrong_field_type", `Only json fields take a jsonSchema, not ${field.type} fields`);
+      } else {
+        const problem = jsonSchemaProblem(field.jsonSchema);
+        if (problem) {
+          report(`${path}.jsonSchema${problem.path}`, "invalid_json_schema", problem.message);
+        } else if (field.defaultValue !== undefined) {
+          const mismatch = checkJsonSchema(field.defaultValue, field.jsonSchema);
+          if (mismatch) report(`${path}.defaultValue`, "invalid_default", `Default doesn't match the jsonSchema: ${mismatch}`);
+        }
+      }
+    }
+    field.validations?.forEach((rule, j) => {
+      if (rule.pattern === undefined) return;
+      try {
+        new RegExp(rule.pattern);
+      } catch {
+        report(`${path}.validations[${j}].pattern`, "invalid_pattern", `Invalid regular expression ${JSON.stringify(rule.pattern)}`);
+      }
+    });
+  });
+
+  // Computed fields — they read declared fields only, since system fields
+  // and foreign keys aren't all known before the record is stored
+  entity.fields.forEach((field, i) => {
+    if (field.computed === undefined) return;
+    const path = `fields[${i}].computed`;
+    if (!(COMPUTED_FIELD_TYPES as readonly string[]).includes(field.type)) {
+      report(`fields[${i}].type`, "wrong_field_type", `Computed field "${field.name}" must be ${COMPUTED_FIELD_TYPES.join(", ")}`);
+    }
+    if (field.required) {
+      report(`fields[${i}].required`, "invalid_computed", `Computed field "${field.name}" can't be required — its value may be empty`);
+    }
+    try {
+      for (const name of expressionFields(parseExpression(field.computed))) {
+        if (!fields.has(name)) report(path, "unknown_field", `"${name}" is not a declared field`);
+      }
+    } catch (err) {
+      report(path, "invalid_computed", (err as Error).message);
+    }
+  });
+  try {
+    computedFieldOrder(entity);
+  } catch (err) {
+    // Unparseable expressions are reported above
+    if (!(err instanceof ExpressionError)) report("fields", "invalid_computed", (err as Error).message);
+  }
+
+  // Rollup fields — the related entity's fields are only checked when the
+  // entity set is given, like relationship targets
+  entity.fields.forEach((field, i) => {
+    const rollup = field.rollup;
+    if (!rollup) return;
+    const path = `fields[${i}].rollup`;
+    if (field.computed !== undefined) {
+      report(path, "invalid_rollup", `"${field.name}" can't be both computed and a rollup`);
+    }
+    if (!NUMERIC_TYPES.includes(field.type)) {
+      report(`fields[${i}].type`, "wrong_field_type", `Rollup field "${field.name}" must be ${NUMERIC_TYPES.join(", ")}`);
+    }
+    if (field.required) {
+      report(`fields[${i}].required`, "invalid_rollup", `Rollup field "${field.name}" can't be required — its value may be empty`);
+    }
+    if (!(ROLLUP_FUNCTIONS as readonly string[]).includes(rollup.function)) {
+      report(`${path}.function`, "invalid_rollup", `Unknown rollup function "${rollup.function}"`);
+    } else if (rollup.function !== "count" && !rollup.field) {
+      report(`${path}.field`, "invalid_rollup", `A ${rollup.function} rollup needs a field to aggregate`);
+    }
+
+    const rel = rollupRelationship(entity, rollup);
+    if (!rel) {
+      report(`${path}.relationship`, "invalid_rollup", `No hasMany relationship "${rollup.relationship}"`);
+      return;
+    }
+    const related = options.entities?.find((e) => e.name === rel.entity);
+    if (!related) return;
+
+    if (rollup.field && rollup.function !== "count") {
+      const aggregated = related.fields.find((f) => f.name === rollup.field);
+      if (!aggregated) {
+        report(`${path}.field`, "unknown_field", `"${rollup.field}" is not a field of ${related.name}`);
+      } else if (!NUMERIC_TYPES.includes(aggregated.type)) {
+        report(`${path}.field`, "wrong_field_type", `"${rollup.field}" is a ${aggregated.type} field; expected ${NUMERIC_TYPES.join(" or ")}`);
+      }
+    }
+    const relatedFields = new Set([...related.fields.map((f) => f.name), ...belongsToFieldNames(related), ...SYSTEM_FIELDS]);
+    for (const name of Object.keys(rollup.filter ?? {})) {
+      if (name !== "$or" && !relatedFields.has(name)) {
+        report(`${path}.filter`, "unknown_field", `"${name}" is not a field of ${related.name}`);
+      }
+    }
+  });
+
+  /** Reports a reference to a field that isn't on the record, or whose type isn't one of `types` */
+  const checkField = (path: string, name: string, types?: FieldType[]) => {
+    if (types) {
+      const field = fields.get(name);
+      if (!field) {
+        report(path, "unknown_field", `"${name}" is not a declared field`);
+      } else if (!types.includes(field.type)) {
+        report(path, "wrong_field_type", `"${name}" is a ${field.type} field; expected ${types.join(" or ")}`);
+      }
+    } else if (!recordFields.has(name)) {
+      report(path, "unknown_field", `"${name}" is not a field of ${entity.name}`);
+    }
+  };
+
+  if (entity.ownerField) checkField("ownerField", entity.ownerField, ["text"]);
+
+  // UI
+  const ui = entity.ui;
+  ui.listColumns.forEach((name, i) => checkField(`ui.listColumns[${i}]`, name));
+  ui.searchFields.forEach((name, i) => checkField(`ui.searchFields[${i}]`, name));
+  checkField("ui.defaultSort.field", ui.defaultSort.field);
+  if (ui.kanban) checkField("ui.kanban.groupBy", ui.kanban.groupBy, ["enum"]);
+  if (ui.calendar) checkField("ui.calendar.dateField", ui.calendar.dateField, ["date", "datetime"]);
+  if (ui.hierarchical) checkField("ui.hierarchical.parentField", ui.hierarchical.parentField);
+
+  // Workflows
+  entity.workflows?.forEach((workflow, i) => {
+    const path = `workflows[${i}]`;
+    checkField(`${path}.field`, workflow.field, ["enum"]);
+    const states = fields.get(workflow.field)?.options;
+    workflow.transitions.forEach((transition, j) => {
+      for (const end of ["from", "to"] as const) {
+        if (states && !states.includes(transition[end])) {
+          report(
+            `${path}.transitions[${j}].${end}`,
+            "unknown_state",
+            `"${transition[end]}" is not an option of "${workflow.field}"`
+          );
+        }
+      }
+      transition.requires?.forEach((name, k) => checkField(`${path}.transitions[${j}].requires[${k}]`, name));
+    });
+  });
+
+  // Relationships
+  entity.relationships?.forEach((rel, i) => {
+    if (options.entities && !options.entities.some((e) => e.name === rel.entity)) {
+      report(`relationships[${i}].entity`, "unknown_entity", `No entity named "${rel.entity}"`);
+    }
+  });
+
+  // Constraints
+  entity.constraints?.forEach((constraint, i) => {
+    const path = `constraints[${i}]`;
+    if (constraint.fields.length === 0) {
+      report(`${path}.fields`, "invalid_constraint", "A constraint needs at least one field");
+    }
+    constraint.fields.forEach((name, j) => checkField(`${path}.fields[${j}]`, name));
+    if (constraint.type === "check" && !constraint.expression) {
+      report(`${path}.expression`, "invalid_constraint", "A check constraint needs an expression");
+    } else if (constraint.type === "check") {
+      try {
+        checkExpressionSQL(constraint.expression!, constraint.fields);
+      } catch (err) {
+        report(`${path}.expression`, "invalid_constraint", (err as Error).message);
+      }
+    }
+  });
+
+  // Indexes — sensitive fields hold ciphertext, which no query can use an index on
+  const indexNames = new Set<string>();
+  entity.indexes?.forEach((index, i) => {
+    const path = `indexes[${i}]`;
+    if (index.fields.length === 0) {
+      report(`${path}.fields`, "invalid_index", "An index needs at least one field");
+    }
+    index.fields.forEach((name, j) => {
+      checkField(`${path}.fields[${j}]`, name);
+      if (fields.get(name)?.sensitive) {
+        report(`${path}.fields[${j}]`, "invalid_index", `"${name}" is sensitive and can't be indexed`);
+      }
+    });
+    for (const [name, value] of Object.entries(index.where ?? {})) {
+      checkField(`${path}.where.${name}`, name);
+      if (value !== null && !["string", "number", "boolean"].includes(typeof value)) {
+        report(`${path}.where.${name}`, "invalid_index", `${JSON.stringify(value)} must be a string, number, boolean or null`);
+      }
+    }
+    if (index.name !== undefined) {
+      if (!INDEX_NAME_PATTERN.test(index.name)) {
+        report(`${path}.name`, "invalid_name", `Index name "${index.name}" must be lowercase letters, numbers and underscores, at most 63 characters`);
+      } else if (indexNames.has(index.name)) {
+        report(`${path}.name`, "invalid_name", `Index "${index.name}" is declared more than once`);
+      }
+      indexNames.add(index.name);
+    }
+  });
+
+  // Migration hints — renames and drops name fields of an earlier version of the entity
+  const renamed = new Set<string>();
+  entity.fields.forEach((field, i) => {
+    const path = `fields[${i}].migration`;
+    const { renamedFrom, transform } = field.migration ?? {};
+    if (renamedFrom !== undefined) {
+      if (!FIELD_NAME_PATTERN.test(renamedFrom) || RESERVED_COLUMNS.has(toColumnName(renamedFrom))) {
+        report(`${path}.renamedFrom`, "invalid_migration", `"${renamedFrom}" can't be the previous name of a field`);
+      } else if (recordFields.has(renamedFrom)) {
+        report(`${path}.renamedFrom`, "invalid_migration", `"${field.name}" can't be renamed from "${renamedFrom}", which is still a field`);
+      } else if (renamed.has(renamedFrom)) {
+        report(`${path}.renamedFrom`, "invalid_migration", `"${renamedFrom}" is renamed more than once`);
+      }
+      renamed.add(renamedFrom);
+    }
+    if (transform !== undefined) {
+      try {
+        checkExpressionSQL(transform, [field.name]);
+      } catch (err) {
+        report(`${path}.transform`, "invalid_migration", (err as Error).message);
+      }
+    }
+  });
+  entity.droppedFields?.forEach((name, i) => {
+    const path = `droppedFields[${i}]`;
+    if (!FIELD_NAME_PATTERN.test(name) || RESERVED_COLUMNS.has(toColumnName(name))) {
+      report(path, "invalid_migration", `"${name}" can't be dropped`);
+    } else if (recordFields.has(name)) {
+      report(path, "invalid_migration", `"${name}" is still a field of ${entity.name}`);
+    } else if (renamed.has(name)) {
+      report(path, "invalid_migration", `"${name}" was renamed, not dropped`);
+    }
+  });
+
+  // Cross-field rules
+  entity.rules?.forEach((rule, i) => {
+    for (const name of ruleFields(rule)) checkField(`rules[${i}]`, name);
+  });
+
+  // AI capabilities — context paths start at a field of the record
+  entity.aiCapabilities?.forEach((capability, i) => {
+    capability.input.contextFields.forEach((contextPath, j) =>
+      checkField(`aiCapabilities[${i}].input.contextFields[${j}]`, contextPath.split(".")[0])
+    );
+  });
+
+  return issues;
+}
+
+/**
+ * Checks a set of entities together: each definition on its own, plus
+ * duplicate names and relationship targets across the set.
+ */
+export function validateEntityDefinitions(entities: EntityDefinition[]): EntityIssue[] {
+  const issues: EntityIssue[] = [];
+  const seen = new Set<string>();
+  for (const entity of entities) {
+    if (seen.has(entity.name)) {
+      issues.push({ entity: entity.name, path: "name", code: "invalid_name", message: `Entity "${entity.name}" is defined more than once` });
+    }
+    seen.add(entity.name);
+    issues.push(...validateEntityDefinition(entity, { entities }));
+  }
+  return issues;
+}
+
+/** Throws an EntityDefinitionError when the entity has issues */
+export function assertValidEntity(entity: EntityDefinition, options: EntityValidationOptions = {}): void {
+  const issues = validateEntityDefinition(entity, options);
+  if (issues.length > 0) throw new EntityDefinitionError(issues);
+}
+
+/** Field names of the foreign keys belongsTo relationships add to the record */
+function belongsToFieldNames(entity: EntityDefinition): string[] {
+  return (entity.relationships ?? [])
+    .filter((rel) => rel.type === "belongsTo")
+    .map((rel) => fromColumnName(rel.foreignKey ?? toColumnName(rel.as ?? rel.entity) + "_id"));
+}
+
+/** The first unknown type in a json schema, with its path inside the schema, or null */
+function jsonSchemaProblem(schema: JsonSchema, path = ""): { path: string; message: string } | null {
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  const unknown = types.find((t) => !(JSON_SCHEMA_TYPES as readonly string[]).includes(t));
+  if (unknown !== undefined) {
+    return { path: `${path}.type`, message: `Unknown JSON type "${unknown}" (expected one of: ${JSON_SCHEMA_TYPES.join(", ")})` };
+  }
+  for (const [name, property] of Object.entries(schema.properties ?? {})) {
+    const problem = jsonSchemaProblem(property, `${path}.properties.${name}`);
+    if (problem) return problem;
+  }
+  return schema.items ? jsonSchemaProblem(schema.items, `${path}.items`) : null;
+}
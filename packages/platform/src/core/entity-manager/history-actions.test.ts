@@ -0,0 +1,180 @@
+/**
+ * History Action Generator — Test Suite
+ *
+ * Validates the history and revert actions: tenant scoping, which fields
+ * a revert restores, and that reverts go through `{entity}.update` and
+ * surface its errors. Stored versions and the nested dispatch are mocked.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { defineEntity } from "@metasaas/contracts";
+import type { ActionContext, DatabaseClient, DomainEvent } from "@metasaas/contracts";
+
+const mockDispatch = vi.fn();
+vi.mock("../action-bus/bus.js", () => ({
+  dispatch: (...args: unknown[]) => mockDispatch(...args),
+}));
+
+const mockGetVersion = vi.fn();
+const mockListVersions = vi.fn();
+vi.mock("../history/index.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../history/index.js")>()),
+  getVersion: (...args: unknown[]) => mockGetVersion(...args),
+  listVersions: (...args: unknown[]) => mockListVersions(...args),
+}));
+
+import { generateHistoryActions } from "./history-actions.js";
+import { generateCRUDActions } from "./crud-generator.js";
+import { ValidationError } from "../action-bus/middleware/validation.js";
+import { WorkflowError } from "../action-bus/middleware/workflow.js";
+import { PermissionError } from "../action-bus/middleware/permission.js";
+
+const Deal = defineEntity({
+  name: "Deal",
+  pluralName: "Deals",
+  description: "A sales deal",
+  fields: [
+    { name: "title", type: "text", required: true, description: "Title" },
+    { name: "amount", type: "currency", required: false, description: "Amount" },
+    { name: "stage", type: "enum", required: true, options: ["open", "won"], description: "Stage" },
+  ],
+  ui: { icon: "dollar", listColumns: ["title"], searchFields: [], defaultSort: { field: "title", direction: "asc" } },
+});
+
+const DEAL_ID = "11111111-1111-4111-8111-111111111111";
+
+let record: Record<string, unknown> | null;
+let emitted: DomainEvent[];
+
+function makeContext(): ActionContext {
+  return {
+    caller: { userId: "u1", tenantId: "t1", roles: ["admin"], type: "human" },
+    db: { findById: async () => record } as unknown as DatabaseClient,
+    emit: async (event) => {
+      emitted.push(event);
+    },
+    logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  };
+}
+
+function action(id: string) {
+  const found = generateHistoryActions(Deal).find((a) => a.id === id);
+  if (!found) throw new Error(`Action ${id} not generated`);
+  return found;
+}
+
+describe("generateHistoryActions", () => {
+  beforeEach(() => {
+    mockDispatch.mockReset();
+    mockGetVersion.mockReset();
+    mockListVersions.mockReset();
+    record = { id: DEAL_ID, title: "Renewal", amount: 250, stage: "open" };
+    emitted = [];
+  });
+
+  it("generates history and revert actions, included in the CRUD set", () => {
+    expect(generateHistoryActions(Deal).map((a) => a.id)).toEqual(["deal.history", "deal.revert"]);
+    expect(generateCRUDActions(Deal).map((a) => a.id)).toContain("deal.revert");
+  });
+
+  it("lists versions scoped to the caller's tenant", async () => {
+    mockListVersions.mockResolvedValue({ data: [], total: 0 });
+
+    const result = await action("deal.history").execute({ id: DEAL_ID }, makeContext());
+
+    expect(result).toEqual({ data: [], total: 0 });
+    expect(mockListVersions).toHaveBeenCalledWith({
+      tenantId: "t1",
+      entity: Deal,
+      recordId: DEAL_ID,
+      limit: 50,
+      offset: 0,
+    });
+  });
+
+  it("returns null history for a record the caller can't see", async () => {
+    record = null;
+    const result = await action("deal.history").execute({ id: DEAL_ID }, makeContext());
+    expect(result).toBeNull();
+    expect(mockListVersions).not.toHaveBeenCalled();
+  });
+
+  it("reverts by dispatching an update with only the differing fields", async () => {
+    mockGetVersion.mockResolvedValue({
+      version: 2,
+      snapshot: { title: "Renewal", amount: 100, stage: "open" },
+    });
+    mockDispatch.mockResolvedValue({ success: true, data: { ...record, amount: 100 } });
+
+    const result = await action("deal.revert").execute({ id: DEAL_ID, version: 2 }, makeContext());
+
+    expect(mockGetVersion).toHaveBeenCalledWith("t1", Deal, DEAL_ID, 2);
+    expect(mockDispatch).toHaveBeenCalledWith(
+      "deal.update",
+      { id: DEAL_ID, data: { amount: 100 } },
+      expect.objectContaining({ userId: "u1", tenantId: "t1" })
+    );
+    expect(result).toMatchObject({ amount: 100 });
+    expect(emitted).toEqual([
+      { type: "deal.reverted", payload: { id: DEAL_ID, version: 2, changes: { amount: 100 } } },
+    ]);
+  });
+
+  it("leaves fields added after the version was taken untouched", async () => {
+    mockGetVersion.mockResolvedValue({ version: 1, snapshot: { title: "Draft" } });
+    mockDispatch.mockResolvedValue({ success: true, data: record });
+
+    await action("deal.revert").execute({ id: DEAL_ID, version: 1 }, makeContext());
+
+    expect(mockDispatch.mock.calls[0][1]).toEqual({ id: DEAL_ID, data: { title: "Draft" } });
+  });
+
+  it("does nothing when the record already matches the version", async () => {
+    mockGetVersion.mockResolvedValue({ version: 3, snapshot: { ...record } });
+
+    const result = await action("deal.revert").execute({ id: DEAL_ID, version: 3 }, makeContext());
+
+    expect(result).toEqual(record);
+    expect(mockDispatch).not.toHaveBeenCalled();
+    expect(emitted).toEqual([]);
+  });
+
+  it("rejects an unknown version", async () => {
+    mockGetVersion.mockResolvedValue(null);
+
+    const promise = action("deal.revert").execute({ id: DEAL_ID, version: 9 }, makeContext());
+
+    await expect(promise).rejects.toBeInstanceOf(ValidationError);
+    await expect(promise).rejects.toMatchObject({
+      fieldErrors: [{ field: "version", code: "not_found" }],
+    });
+  });
+
+  it("surfaces workflow errors from the update", async () => {
+    record = { ...record, stage: "won" };
+    mockGetVersion.mockResolvedValue({ version: 1, snapshot: { ...record, stage: "open" } });
+    mockDispatch.mockResolvedValue({
+      success: false,
+      error: "Invalid stage transition",
+      errorType: "workflow",
+      details: { field: "stage", from: "won", to: "open", validTargets: [] },
+    });
+
+    const promise = action("deal.revert").execute({ id: DEAL_ID, version: 1 }, makeContext());
+
+    await expect(promise).rejects.toBeInstanceOf(WorkflowError);
+    await expect(promise).rejects.toMatchObject({ field: "stage", from: "won", to: "open" });
+    expect(emitted).toEqual([]);
+  });
+
+  it("surfaces permission errors from the update with their reason", async () => {
+    mockGetVersion.mockResolvedValue({ version: 1, snapshot: { ...record, title: "Old" } });
+    const error = 'Permission denied: user "u1" cannot execute action "deal.update" (Deal records can only be reassigned by users with broader access)';
+    mockDispatch.mockResolvedValue({ success: false, error, errorType: "permission" });
+
+    const promise = action("deal.revert").execute({ id: DEAL_ID, version: 1 }, makeContext());
+
+    await expect(promise).rejects.toBeInstanceOf(PermissionError);
+    await expect(promise).rejects.toThrow(error);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * History Action Generator
+ *
+ * Generates the version history actions every entity gets:
+ *
+ *   contact.history  →  list a record's versions (snapshot + field diff), newest first
+ *   contact.revert   →  restore a record to one of its earlier versions
+ *
+ * Versions are written by the CRUD generator's create and update actions
+ * (see core/history). A revert is not a raw write: it computes the fields
+ * that differ from the target version and dispatches `{entity}.update`
+ * with them, so validation, permissions, workflow transitions, hooks and
+ * events apply exactly as if the user had made the edit by hand. The
+ * revert itself becomes a new version — history is never rewritten.
+ */
+
+import { z } from "zod";
+import type { EntityDefinition, ActionDefinition, ActionOwnership } from "@metasaas/contracts";
+import { ALLOW_ALL } from "@metasaas/contracts";
+import { dispatch, type ActionResult } from "../action-bus/bus.js";
+import { ValidationError } from "../action-bus/middleware/validation.js";
+import { PermissionError } from "../action-bus/middleware/permission.js";
+import { WorkflowError } from "../action-bus/middleware/workflow.js";
+import { ConflictError } from "../database/constraints.js";
+import { listVersions, getVersion, takeSnapshot, diffSnapshots } from "../history/index.js";
+
+/**
+ * Generates history and revert actions for an entity definition.
+ */
+export function generateHistoryActions(
+  entity: EntityDefinition
+): ActionDefinition[] {
+  const entityLower = entity.name.toLowerCase();
+  const permissions = entity.permissions ?? [ALLOW_ALL];
+  const ownership: ActionOwnership | undefined = entity.ownerField
+    ? { entity: entity.name, field: entity.ownerField, scope: "record" }
+    : undefined;
+
+  // ---------------------------------------------------------------
+  // HISTORY
+  // ---------------------------------------------------------------
+  const historyAction: ActionDefinition = {
+    id: `${entityLower}.history`,
+    name: `${entity.name} History`,
+    description: `Lists the versions of a ${entity.name} record, newest first, with the fields changed in each and who changed them.`,
+    inputSchema: z.object({
+      id: z.string().uuid(),
+      limit: z.number().int().positive().max(100).optional(),
+      offset: z.number().int().min(0).optional(),
+    }),
+    outputSchema: z
+      .object({
+        data: z.array(z.record(z.unknown())),
+        total: z.number(),
+      })
+      .nullable(),
+    permissions,
+    ownership,
+    idempotent: true,
+    async execute(input, ctx) {
+      const { id, limit, offset } = input as { id: string; limit?: number; offset?: number };
+
+      // Tenant-scoped lookup — no history for records the caller can't see
+      const current = await ctx.db.findById(entity.name, id);
+      if (!current) return null;
+
+      return listVersions({
+        tenantId: ctx.caller.tenantId,
+        entity,
+        recordId: id,
+        limit: limit ?? 50,
+        offset: offset ?? 0,
+      });
+    },
+  };
+
+  // ---------------------------------------------------------------
+  // REVERT
+  // ---------------------------------------------------------------
+  const revertAction: ActionDefinition = {
+    id: `${entityLower}.revert`,
+    name: `Revert ${entity.name}`,
+    description: `Restores a ${entity.name} record to an earlier version. The change is applied as a normal update and recorded as a new version.`,
+    inputSchema: z.object({
+      id: z.string().uuid(),
+      version: z.number().int().positive(),
+    }),
+    outputSchema: z.record(z.unknown()).nullable(),
+    permissions,
+    ownership,
+    idempotent: true,
+    affectsEntities: [entity.name],
+    async execute(input, ctx) {
+      const { id, version } = input as { id: string; version: number };
+
+      const current = await ctx.db.findById(entity.name, id);
+      if (!current) return null;
+
+      const target = await getVersion(ctx.caller.tenantId, entity, id, version);
+      if (!target) {
+        throw new ValidationError("Validation failed", [
+          { field: "version", message: `Version ${version} not found`, code: "not_found" },
+        ]);
+      }
+
+      // Only fields captured in the target version — fields added to the
+      // entity since then are left alone rather than cleared.
+      const now = takeSnapshot(entity, current);
+      const fields = Object.keys(target.snapshot).filter((f) => f in now);
+      const pick = (snapshot: Record<string, unknown>) =>
+        Object.fromEntries(fields.map((f) => [f, snapshot[f]]));
+      const data = Object.fromEntries(
+        Object.entries(diffSnapshots(pick(now), pick(target.snapshot)))
+          .map(([field, change]) => [field, change.to])
+      );
+      if (Object.keys(data).length === 0) return current;
+
+      const result = await dispatch(`${entityLower}.update`, { id, data }, ctx.caller);
+      if (!result.success) throw toError(result, `${entityLower}.update`, ctx.caller.userId);
+
+      await ctx.emit({
+        type: `${entityLower}.reverted`,
+        payload: { id, version, changes: data },
+      });
+      return result.data;
+    },
+  };
+
+  return [historyAction, revertAction];
+}
+
+/** The `details` a failed dispatch carries, by errorType (see dispatch in bus.ts) */
+interface ErrorDetails {
+  fieldErrors?: ValidationError["fieldErrors"];
+  field?: string;
+  from?: string;
+  to?: string;
+  validTargets?: string[];
+  constraint?: string;
+  fields?: string[];
+}
+
+/**
+ * Turns a failed nested dispatch back into the error the update threw,
+ * so the revert reports the same errorType, message and details to its
+ * caller.
+ */
+function toError(
+  result: Extract<ActionResult, { success: false }>,
+  actionId: string,
+  userId: string
+): Error {
+  const details = (result.details ?? {}) as ErrorDetails;
+  switch (result.errorType) {
+    case "validation":
+      return new ValidationError(result.error, details.fieldErrors ?? []);
+    case "permission": {
+      // Keep the authorizer's message — it says why (e.g. an owner change)
+      const error = new PermissionError(actionId, userId);
+      error.message = result.error;
+      return error;
+    }
+    case "workflow":
+      return new WorkflowError(details.field!, details.from!, details.to!, details.validTargets ?? []);
+    case "conflict":
+      return new ConflictError(result.error, details.constraint!, details.fields ?? []);
+    default:
+      return new Error(result.error);
+  }
+}
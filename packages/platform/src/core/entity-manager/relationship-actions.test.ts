@@ -0,0 +1,274 @@
+/**
+ * Relationship Action Generator — Test Suite
+ *
+ * Validates the add/remove/list actions generated for to-many
+ * relationships: IDs, input schemas, existence checks, events, and the
+ * related entity's ownership rules.
+ * Actions are executed directly against a fake DatabaseClient.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { defineEntity } from "@metasaas/contracts";
+import type { ActionContext, DatabaseClient, DomainEvent } from "@metasaas/contracts";
+import { generateRelationshipActions } from "./relationship-actions.js";
+import { generateCRUDActions } from "./crud-generator.js";
+import { registerEntities, clearEntityRegistry } from "./entity-registry.js";
+import { ValidationError } from "../action-bus/middleware/validation.js";
+import { PermissionError } from "../action-bus/middleware/permission.js";
+import { registerActions, clearActionRegistry } from "../action-bus/registry.js";
+
+const ClassEntity = defineEntity({
+  name: "Class",
+  pluralName: "Classes",
+  description: "A gym class",
+  fields: [{ name: "name", type: "text", required: true, description: "Name" }],
+  relationships: [{ type: "manyToMany", entity: "Member" }],
+  ui: {
+    icon: "calendar",
+    listColumns: ["name"],
+    searchFields: ["name"],
+    defaultSort: { field: "name", direction: "asc" },
+  },
+});
+
+const MemberEntity = defineEntity({
+  name: "Member",
+  pluralName: "Members",
+  description: "A gym member",
+  fields: [{ name: "name", type: "text", required: true, description: "Name" }],
+  ui: {
+    icon: "users",
+    listColumns: ["name"],
+    searchFields: ["name"],
+    defaultSort: { field: "name", direction: "asc" },
+  },
+});
+
+const CLASS_ID = "11111111-1111-4111-8111-111111111111";
+const MEMBER_ID = "22222222-2222-4222-8222-222222222222";
+
+/** Records visible to the fake client, keyed by id */
+let records: Map<string, Record<string, unknown>>;
+let emitted: DomainEvent[];
+
+function makeContext(db: Partial<DatabaseClient>): ActionContext {
+  return {
+    caller: { userId: "u1", tenantId: "t1", roles: ["admin"], type: "human" },
+    db: {
+      findById: async (_entity, id) => records.get(id) ?? null,
+      ...db,
+    } as DatabaseClient,
+    emit: async (event) => {
+      emitted.push(event);
+    },
+    logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  };
+}
+
+function action(id: string) {
+  const found = generateRelationshipActions(ClassEntity).find((a) => a.id === id);
+  if (!found) throw new Error(`Action ${id} not generated`);
+  return found;
+}
+
+describe("generateRelationshipActions", () => {
+  beforeEach(() => {
+    clearEntityRegistry();
+    registerEntities([ClassEntity, MemberEntity]);
+    clearActionRegistry();
+    registerActions(generateCRUDActions(MemberEntity));
+    records = new Map([
+      [CLASS_ID, { id: CLASS_ID, name: "Yoga" }],
+      [MEMBER_ID, { id: MEMBER_ID, name: "Ada" }],
+    ]);
+    emitted = [];
+  });
+
+  it("generates add, remove and list actions per relationship", () => {
+    expect(generateRelationshipActions(ClassEntity).map((a) => a.id)).toEqual([
+      "class.addMember",
+      "class.removeMember",
+      "class.listMembers",
+    ]);
+  });
+
+  it("generates nothing for entities without to-many relationships", () => {
+    expect(generateRelationshipActions(MemberEntity)).toEqual([]);
+  });
+
+  it("is included in the CRUD action set", () => {
+    const ids = generateCRUDActions(ClassEntity).map((a) => a.id);
+    expect(ids).toContain("class.addMember");
+    expect(ids).toContain("class.create");
+  });
+
+  it("requires both ids as UUIDs", () => {
+    const schema = action("class.addMember").inputSchema;
+    expect(schema.safeParse({ id: CLASS_ID, memberId: MEMBER_ID }).success).toBe(true);
+    expect(schema.safeParse({ id: CLASS_ID }).success).toBe(false);
+    expect(schema.safeParse({ id: CLASS_ID, memberId: "nope" }).success).toBe(false);
+  });
+
+  it("links records and emits an added event", async () => {
+    const link = vi.fn().mockResolvedValue(true);
+    const result = await action("class.addMember").execute(
+      { id: CLASS_ID, memberId: MEMBER_ID },
+      makeContext({ link })
+    );
+
+    expect(result).toEqual({ linked: true });
+    expect(link).toHaveBeenCalledWith("Class", "members", CLASS_ID, MEMBER_ID);
+    expect(emitted).toEqual([
+      { type: "class.member.added", payload: { id: CLASS_ID, memberId: MEMBER_ID } },
+    ]);
+  });
+
+  it("does not emit when the pair was already linked", async () => {
+    const result = await action("class.addMember").execute(
+      { id: CLASS_ID, memberId: MEMBER_ID },
+      makeContext({ link: async () => false })
+    );
+    expect(result).toEqual({ linked: false });
+    expect(emitted).toEqual([]);
+  });
+
+  it("rejects a related record that does not exist (or belongs to another tenant)", async () => {
+    records.delete(MEMBER_ID);
+    const link = vi.fn();
+
+    const promise = action("class.addMember").execute(
+      { id: CLASS_ID, memberId: MEMBER_ID },
+      makeContext({ link })
+    );
+
+    await expect(promise).rejects.toBeInstanceOf(ValidationError);
+    await expect(promise).rejects.toMatchObject({
+      fieldErrors: [{ field: "memberId", code: "not_found" }],
+    });
+    expect(link).not.toHaveBeenCalled();
+  });
+
+  it("unlinks records and emits a removed event", async () => {
+    const unlink = vi.fn().mockResolvedValue(true);
+    const result = await action("class.removeMember").execute(
+      { id: CLASS_ID, memberId: MEMBER_ID },
+      makeContext({ unlink })
+    );
+
+    expect(result).toEqual({ unlinked: true });
+    expect(emitted[0].type).toBe("class.member.removed");
+  });
+
+  it("lists related records with a total", async () => {
+    const findRelated = vi.fn().mockResolvedValue([records.get(MEMBER_ID)]);
+    const result = await action("class.listMembers").execute(
+      { id: CLASS_ID },
+      makeContext({ findRelated, countRelated: async () => 1 })
+    );
+
+    expect(result).toEqual({ data: [records.get(MEMBER_ID)], total: 1 });
+    expect(findRelated).toHaveBeenCalledWith("Class", "members", CLASS_ID, {
+      orderBy: { field: "name", direction: "asc" },
+      limit: 50,
+      offset: 0,
+    });
+  });
+});
+
+describe("generateRelationshipActions — related entity ownership", () => {
+  const ProjectEntity = defineEntity({
+    name: "Project",
+    pluralName: "Projects",
+    description: "A project anyone can edit",
+    fields: [{ name: "name", type: "text", required: true, description: "Name" }],
+    relationships: [{ type: "hasMany", entity: "Task", foreignKey: "projectId" }],
+    ui: { icon: "folder", listColumns: ["name"], searchFields: ["name"], defaultSort: { field: "name", direction: "asc" } },
+  });
+
+  const TaskEntity = defineEntity({
+    name: "Task",
+    pluralName: "Tasks",
+    description: "A task members may only touch when they own it",
+    fields: [
+      { name: "title", type: "text", required: true, description: "Title" },
+      { name: "ownerId", type: "text", required: true, description: "Owner" },
+    ],
+    ownerField: "ownerId",
+    permissions: [
+      { roles: ["admin"], effect: "allow" },
+      { ownership: "own", effect: "allow" },
+    ],
+    ui: { icon: "check", listColumns: ["title"], searchFields: ["title"], defaultSort: { field: "title", direction: "asc" } },
+  });
+
+  const PROJECT_ID = "33333333-3333-4333-8333-333333333333";
+  const OWN_TASK = "44444444-4444-4444-8444-444444444444";
+  const OTHER_TASK = "55555555-5555-4555-8555-555555555555";
+
+  /** A member whose access to tasks comes only from the "own" rule */
+  function memberContext(db: Partial<DatabaseClient>): ActionContext {
+    return { ...makeContext(db), caller: { userId: "u1", tenantId: "t1", roles: ["member"], type: "human" } };
+  }
+
+  function projectAction(id: string) {
+    return generateRelationshipActions(ProjectEntity).find((a) => a.id === id)!;
+  }
+
+  beforeEach(() => {
+    clearEntityRegistry();
+    registerEntities([ProjectEntity, TaskEntity]);
+    clearActionRegistry();
+    registerActions(generateCRUDActions(TaskEntity));
+    records = new Map([
+      [PROJECT_ID, { id: PROJECT_ID, name: "Launch" }],
+      [OWN_TASK, { id: OWN_TASK, title: "Mine", ownerId: "u1", projectId: null }],
+      [OTHER_TASK, { id: OTHER_TASK, title: "Theirs", ownerId: "u2", projectId: PROJECT_ID }],
+    ]);
+    emitted = [];
+  });
+
+  it("lists only the caller's related records", async () => {
+    const findRelated = vi.fn().mockResolvedValue([]);
+    const countRelated = vi.fn().mockResolvedValue(0);
+
+    await projectAction("project.listTasks").execute({ id: PROJECT_ID }, memberContext({ findRelated, countRelated }));
+
+    expect(findRelated).toHaveBeenCalledWith("Project", "tasks", PROJECT_ID, expect.objectContaining({
+      where: { ownerId: "u1" },
+    }));
+    expect(countRelated).toHaveBeenCalledWith("Project", "tasks", PROJECT_ID, { ownerId: "u1" });
+  });
+
+  it("refuses to link or unlink another user's record", async () => {
+    const link = vi.fn();
+    const unlink = vi.fn();
+    const ctx = memberContext({ link, unlink });
+
+    await expect(
+      projectAction("project.addTask").execute({ id: PROJECT_ID, taskId: OTHER_TASK }, ctx)
+    ).rejects.toBeInstanceOf(PermissionError);
+    await expect(
+      projectAction("project.removeTask").execute({ id: PROJECT_ID, taskId: OTHER_TASK }, ctx)
+    ).rejects.toThrow("owned by another user");
+    expect(link).not.toHaveBeenCalled();
+    expect(unlink).not.toHaveBeenCalled();
+  });
+
+  it("links the caller's own record", async () => {
+    const link = vi.fn().mockResolvedValue(true);
+    const result = await projectAction("project.addTask").execute(
+      { id: PROJECT_ID, taskId: OWN_TASK },
+      memberContext({ link })
+    );
+    expect(result).toEqual({ linked: true });
+  });
+
+  it("does not filter callers matched by a role rule", async () => {
+    const countRelated = vi.fn().mockResolvedValue(1);
+    await projectAction("project.listTasks").execute(
+      { id: PROJECT_ID },
+      makeContext({ findRelated: async () => [], countRelated })
+    );
+    expect(countRelated).toHaveBeenCalledWith("Project", "tasks", PROJECT_ID, undefined);
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Relationship Action Generator
+ *
+ * Generates link, unlink and list actions for each hasMany and
+ * manyToMany relationship an entity declares:
+ *
+ *   Class  manyToMany Member  →  class.addMember, class.removeMember, class.listMembers
+ *   Project hasMany   Task    →  project.addTask,  project.removeTask,  project.listTasks
+ *
+ * For hasMany, linking sets the foreign key on the related record
+ * (moving it from any previous parent); for manyToMany it inserts a
+ * junction row. Both directions of a manyToMany share one junction
+ * table, so class.addMember and member.addClass are equivalent.
+ *
+ * Actions are authorized with the declaring entity's permission rules
+ * and ownership — linking a member to a class is an edit of the class.
+ * They are also checked against the related entity's own actions: listing
+ * needs its `findAll` and is narrowed to the caller's records when that is
+ * granted by an "own" rule; linking and unlinking need its `update` on
+ * the record being moved.
+ *
+ * Linking or unlinking a hasMany record refreshes the rollups over it, on
+ * the new parent and on any previous one (see core/rollups).
+ */
+
+import { z } from "zod";
+import type { EntityDefinition, ActionDefinition, ActionOwnership, Caller, WhereClause } from "@metasaas/contracts";
+import { ALLOW_ALL } from "@metasaas/contracts";
+import { resolveToManyRelationships } from "../database/relationships.js";
+import { getEntity } from "./entity-registry.js";
+import { ValidationError } from "../action-bus/middleware/validation.js";
+import { evaluatePermission, PermissionError } from "../action-bus/middleware/permission.js";
+import { getAction } from "../action-bus/registry.js";
+import { refreshRollups, rollupsOver } from "../rollups/index.js";
+
+/**
+ * Generates relationship actions for an entity definition.
+ * Returns an empty array when the entity has no to-many relationships.
+ */
+export function generateRelationshipActions(
+  entity: EntityDefinition
+): ActionDefinition[] {
+  const entityLower = entity.name.toLowerCase();
+  const permissions = entity.permissions ?? [ALLOW_ALL];
+  const ownership: ActionOwnership | undefined = entity.ownerField
+    ? { entity: entity.name, field: entity.ownerField, scope: "record" }
+    : undefined;
+
+  const actions: ActionDefinition[] = [];
+
+  for (const { rel, names } of resolveToManyRelationships(entity)) {
+    const { singular, plural, path, idField } = names;
+    const eventBase = `${entityLower}.${singular.toLowerCase()}`;
+
+    const linkSchema = z.object({
+      id: z.string().uuid(),
+      [idField]: z.string().uuid(),
+    });
+
+    /**
+     * Loads both records before linking or unlinking and returns the related
+     * one. The DatabaseClient is tenant-scoped, so this also rejects IDs
+     * from another tenant.
+     */
+    const requireRecords = async (
+      ctx: Parameters<ActionDefinition["execute"]>[1],
+      id: string,
+      relatedId: string
+    ) => {
+      const [own, related] = await Promise.all([
+        ctx.db.findById(entity.name, id),
+        ctx.db.findById(rel.entity, relatedId),
+      ]);
+      const fieldErrors = [];
+      if (!own) {
+        fieldErrors.push({ field: "id", message: `${entity.name} not found`, code: "not_found" });
+      }
+      if (!related) {
+        fieldErrors.push({ field: idField, message: `${rel.entity} not found`, code: "not_found" });
+      }
+      if (fieldErrors.length > 0) {
+        throw new ValidationError("Validation failed", fieldErrors);
+      }
+      return related;
+    };
+
+    /**
+     * Authorizes linking or unlinking `related` as an update of it. Own-only
+     * access is checked against the record's owner.
+     */
+    const authorizeRelatedUpdate = (caller: Caller, related: Record<string, unknown> | null) => {
+      const update = relatedAction(rel.entity, "update", caller);
+      let decision = evaluatePermission(update, caller);
+      if (decision.ownedOnly && related) {
+        decision = evaluatePermission(update, caller, { ownerId: related[update.ownership!.field] });
+      }
+      if (!decision.allowed) {
+        throw new PermissionError(update.id, caller.userId, decision.reason);
+      }
+    };
+
+    /** Whether linking changes a foreign key that rollup fields aggregate by */
+    const movesRollups = () => rel.type === "hasMany" && rollupsOver(rel.entity).length > 0;
+
+    // -------------------------------------------------------------
+    // ADD (link)
+    // -------------------------------------------------------------
+    actions.push({
+      id: `${entityLower}.add${singular}`,
+      name: `Add ${singular} to ${entity.name}`,
+      description:
+        `Links an existing ${rel.entity} to a ${entity.name} as one of its ${plural.toLowerCase()}. ` +
+        `Input: id (the ${entity.name}), ${idField} (the ${rel.entity}).`,
+      inputSchema: linkSchema,
+      outputSchema: z.object({ linked: z.boolean() }),
+      permissions,
+      ownership,
+      idempotent: true,
+      affectsEntities: [entity.name, rel.entity],
+      async execute(input, ctx) {
+        const { id, [idField]: relatedId } = input as Record<string, string>;
+        const before = await requireRecords(ctx, id, relatedId);
+        authorizeRelatedUpdate(ctx.caller, before);
+
+        const linked = await ctx.db.link(entity.name, path, id, relatedId);
+        if (linked && movesRollups()) {
+          await refreshRollups(ctx.db, rel.entity, [before, await ctx.db.findById(rel.entity, relatedId)]);
+        }
+        if (linked) {
+          await ctx.emit({
+            type: `${eventBase}.added`,
+            payload: { id, [idField]: relatedId },
+          });
+        }
+        return { linked };
+      },
+    });
+
+    // -------------------------------------------------------------
+    // REMOVE (unlink)
+    // -------------------------------------------------------------
+    actions.push({
+      id: `${entityLower}.remove${singular}`,
+      name: `Remove ${singular} from ${entity.name}`,
+      description:
+        `Unlinks a ${rel.entity} from a ${entity.name}. Neither record is deleted. ` +
+        `Input: id (the ${entity.name}), ${idField} (the ${rel.entity}).`,
+      inputSchema: linkSchema,
+      outputSchema: z.object({ unlinked: z.boolean() }),
+      permissions,
+      ownership,
+      idempotent: true,
+      affectsEntities: [entity.name, rel.entity],
+      async execute(input, ctx) {
+        const { id, [idField]: relatedId } = input as Record<string, string>;
+
+        const related = await ctx.db.findById(rel.entity, relatedId);
+        authorizeRelatedUpdate(ctx.caller, related);
+
+        const before = movesRollups() ? related : null;
+        const unlinked = await ctx.db.unlink(entity.name, path, id, relatedId);
+        if (unlinked && before) {
+          await refreshRollups(ctx.db, rel.entity, [before]);
+        }
+        if (unlinked) {
+          await ctx.emit({
+            type: `${eventBase}.removed`,
+            payload: { id, [idField]: relatedId },
+          });
+        }
+        return { unlinked };
+      },
+    });
+
+    // -------------------------------------------------------------
+    // LIST
+    // -------------------------------------------------------------
+    actions.push({
+      id: `${entityLower}.list${plural}`,
+      name: `List ${plural} of ${entity.name}`,
+      description: `Retrieves the ${rel.entity} records linked to a ${entity.name}.`,
+      inputSchema: z.object({
+        id: z.string().uuid(),
+        limit: z.number().int().positive().max(100).optional(),
+        offset: z.number().int().min(0).optional(),
+      }),
+      outputSchema: z.object({
+        data: z.array(z.record(z.unknown())),
+        total: z.number(),
+      }),
+      permissions,
+      ownership,
+      idempotent: true,
+      async execute(input, ctx) {
+        const { id, limit, offset } = input as { id: string; limit?: number; offset?: number };
+
+        const findAll = relatedAction(rel.entity, "findAll", ctx.caller);
+        const decision = evaluatePermission(findAll, ctx.caller);
+        if (!decision.allowed) {
+          throw new PermissionError(findAll.id, ctx.caller.userId, decision.reason);
+        }
+        const where: WhereClause | undefined = decision.ownedOnly
+          ? { [findAll.ownership!.field]: ctx.caller.userId }
+          : undefined;
+
+        const [data, total] = await Promise.all([
+          ctx.db.findRelated(entity.name, path, id, {
+            ...(where && { where }),
+            orderBy: getEntity(rel.entity)?.ui.defaultSort,
+            limit: limit ?? 50,
+            offset: offset ?? 0,
+          }),
+          ctx.db.countRelated(entity.name, path, id, where),
+        ]);
+
+        return { data, total };
+      },
+    });
+  }
+
+  return actions;
+}
+
+/**
+ * The related entity's generated CRUD action, whose rules a relationship
+ * action must also satisfy. Denied when it isn't registered.
+ */
+function relatedAction(entityName: string, verb: "findAll" | "update", caller: Caller): ActionDefinition {
+  const id = `${entityName.toLowerCase()}.${verb}`;
+  const action = getAction(id);
+  if (!action) throw new PermissionError(id, caller.userId, "action is not registered");
+  return action;
+}
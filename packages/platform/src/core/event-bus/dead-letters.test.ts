@@ -0,0 +1,73 @@
+/**
+ * Event Dead Letters Tests
+ *
+ * Tests that sensitive payload fields are stored encrypted, redacted in
+ * listings and decrypted for replay, with a mocked database.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { defineEntity } from "@metasaas/contracts";
+
+// Mock database: the row most recently inserted is the only one stored
+let storedEvent: string | undefined;
+const mockUnsafe = vi.fn(async (sql: string, params: unknown[] = []) => {
+  if (sql.startsWith("INSERT INTO event_dead_letters")) {
+    storedEvent = params[3] as string;
+    return [];
+  }
+  if (sql.startsWith("SELECT COUNT(*)")) return [{ count: 1 }];
+  return [
+    {
+      id: "dl-1",
+      tenant_id: "tenant-1",
+      subscriber: "sync-crm",
+      event_type: "patient.created",
+      event: storedEvent,
+      error: "boom",
+      attempts: 1,
+      created_at: "2026-03-10T12:00:00.000Z",
+      replayed_at: null,
+    },
+  ];
+});
+vi.mock("../database/connection.js", () => ({
+  getDatabase: () => ({ sql: { unsafe: mockUnsafe } }),
+}));
+
+import { recordDeadLetter, listDeadLetters, getDeadLetter } from "./dead-letters.js";
+import { registerEntity, clearEntityRegistry } from "../entity-manager/entity-registry.js";
+import { setEncryptionKeys, resetEncryption } from "../encryption/index.js";
+
+describe("dead letter storage", () => {
+  beforeEach(() => {
+    storedEvent = undefined;
+    registerEntity(
+      defineEntity({
+        name: "Patient",
+        pluralName: "Patients",
+        description: "Test",
+        fields: [{ name: "ssn", type: "text", required: false, description: "SSN", sensitive: true }],
+        ui: { icon: "user", listColumns: ["ssn"], searchFields: [], defaultSort: { field: "ssn", direction: "asc" } },
+      })
+    );
+    setEncryptionKeys([{ id: "k1", key: Buffer.alloc(32, 5) }]);
+  });
+
+  afterEach(() => {
+    resetEncryption();
+    clearEntityRegistry();
+  });
+
+  it("stores sensitive fields encrypted, lists them redacted and returns them decrypted", async () => {
+    const payload = { id: "p-1", ssn: "123-45-6789" };
+    await recordDeadLetter("sync-crm", { type: "patient.created", payload, tenantId: "tenant-1" }, new Error("boom"));
+
+    expect(storedEvent).not.toContain("123-45-6789");
+
+    const { data } = await listDeadLetters({ tenantId: "tenant-1" });
+    expect(data[0].event.payload).toEqual({ id: "p-1", ssn: "[redacted]" });
+
+    const deadLetter = await getDeadLetter("tenant-1", "dl-1");
+    expect(deadLetter?.event.payload).toEqual(payload);
+  });
+});
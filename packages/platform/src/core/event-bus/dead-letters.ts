@@ -0,0 +1,225 @@
+/**
+ * Event Dead Letters
+ *
+ * When a subscriber throws or times out, the event bus records the event,
+ * the subscriber and the error here so the invocation can be inspected
+ * and replayed later (see replayDeadLetter in ./index.ts). Stored in the
+ * `event_dead_letters` table, with an in-memory fallback when no database
+ * is connected (tests).
+ *
+ * Sensitive payload fields are stored encrypted (see encryption/events.ts).
+ * getDeadLetter decrypts them for replay; listings redact them.
+ */
+
+import type { DomainEvent } from "@metasaas/contracts";
+import { getDatabase } from "../database/connection.js";
+import { encryptEvent, decryptEvent, redactEvent } from "../encryption/events.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A failed subscriber invocation */
+export interface EventDeadLetter {
+  id: string;
+  /** Tenant of the event (null for platform-wide events) */
+  tenantId: string | null;
+  /** Name of the subscriber that failed */
+  subscriber: string;
+  eventType: string;
+  /** The event as published */
+  event: DomainEvent;
+  /** Error of the latest failed invocation */
+  error: string;
+  /** Failed invocations so far — the original plus failed replays */
+  attempts: number;
+  createdAt: Date;
+  /** Set once a replay succeeds */
+  replayedAt: Date | null;
+}
+
+export interface DeadLetterListQuery {
+  tenantId: string;
+  subscriber?: string;
+  /** Include dead letters that were replayed successfully (default false) */
+  includeReplayed?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface DeadLetterListResult {
+  data: EventDeadLetter[];
+  total: number;
+}
+
+const DEAD_LETTER_COLUMNS = `id, tenant_id, subscriber, event_type, event, error, attempts, created_at, replayed_at`;
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+/** In-memory fallback (used when the DB is not initialized, e.g. in tests) */
+const memoryDeadLetters = new Map<string, EventDeadLetter>();
+const MAX_MEMORY_DEAD_LETTERS = 1000;
+
+function getDb() {
+  try {
+    return getDatabase().sql;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Records a failed subscriber invocation. Never throws — a storage
+ * failure is logged, and the event bus carries on.
+ */
+export async function recordDeadLetter(subscriber: string, event: DomainEvent, error: unknown): Promise<void> {
+  const message = error instanceof Error ? error.message : String(error);
+  const pgSql = getDb();
+
+  if (pgSql) {
+    try {
+      await pgSql.unsafe(
+        `INSERT INTO event_dead_letters (tenant_id, subscriber, event_type, event, error)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [event.tenantId ?? null, subscriber, event.type, JSON.stringify(encryptEvent(event)), message]
+      );
+    } catch (err) {
+      console.error(`[event-bus] Failed to record dead letter for "${subscriber}":`, err);
+    }
+    return;
+  }
+
+  const id = crypto.randomUUID();
+  memoryDeadLetters.set(id, {
+    id,
+    tenantId: event.tenantId ?? null,
+    subscriber,
+    eventType: event.type,
+    event,
+    error: message,
+    attempts: 1,
+    createdAt: new Date(),
+    replayedAt: null,
+  });
+  if (memoryDeadLetters.size > MAX_MEMORY_DEAD_LETTERS) {
+    memoryDeadLetters.delete(memoryDeadLetters.keys().next().value!);
+  }
+}
+
+/** A tenant's dead letters, newest first, with sensitive payload fields redacted */
+export async function listDeadLetters(query: DeadLetterListQuery): Promise<DeadLetterListResult> {
+  const limit = query.limit ?? 50;
+  const offset = query.offset ?? 0;
+  const pgSql = getDb();
+
+  if (pgSql) {
+    const conditions = ["tenant_id = $1"];
+    const params: unknown[] = [query.tenantId];
+    if (query.subscriber) {
+      params.push(query.subscriber);
+      conditions.push(`subscriber = $${params.length}`);
+    }
+    if (!query.includeReplayed) conditions.push("replayed_at IS NULL");
+    const where = conditions.join(" AND ");
+
+    const countRows = await pgSql.unsafe(
+      `SELECT COUNT(*)::int AS count FROM event_dead_letters WHERE ${where}`,
+      params as any[]
+    );
+    const rows = await pgSql.unsafe(
+      `SELECT ${DEAD_LETTER_COLUMNS} FROM event_dead_letters WHERE ${where}
+       ORDER BY created_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset] as any[]
+    );
+    return { data: rows.map((row) => redacted(rowToDeadLetter(row))), total: countRows[0].count };
+  }
+
+  const matching = Array.from(memoryDeadLetters.values())
+    .filter(
+      (d) =>
+        d.tenantId === query.tenantId &&
+        (!query.subscriber || d.subscriber === query.subscriber) &&
+        (query.includeReplayed || !d.replayedAt)
+    )
+    .reverse();
+  return { data: matching.slice(offset, offset + limit).map(redacted), total: matching.length };
+}
+
+/** A tenant's dead letter by id, or null */
+export async function getDeadLetter(tenantId: string, id: string): Promise<EventDeadLetter | null> {
+  const pgSql = getDb();
+
+  if (pgSql) {
+    const rows = await pgSql.unsafe(
+      `SELECT ${DEAD_LETTER_COLUMNS} FROM event_dead_letters WHERE id = $1 AND tenant_id = $2`,
+      [id, tenantId]
+    );
+    if (rows.length === 0) return null;
+    const deadLetter = rowToDeadLetter(rows[0]);
+    return { ...deadLetter, event: decryptEvent(deadLetter.event) };
+  }
+
+  const deadLetter = memoryDeadLetters.get(id);
+  return deadLetter && deadLetter.tenantId === tenantId ? { ...deadLetter } : null;
+}
+
+/** Records the outcome of a replay: success marks it replayed, failure bumps attempts */
+export async function recordReplay(id: string, error?: unknown): Promise<void> {
+  const message = error === undefined ? null : error instanceof Error ? error.message : String(error);
+  const pgSql = getDb();
+
+  if (pgSql) {
+    if (message === null) {
+      await pgSql.unsafe(`UPDATE event_dead_letters SET replayed_at = NOW() WHERE id = $1`, [id]);
+    } else {
+      await pgSql.unsafe(
+        `UPDATE event_dead_letters SET attempts = attempts + 1, error = $2 WHERE id = $1`,
+        [id, message]
+      );
+    }
+    return;
+  }
+
+  const deadLetter = memoryDeadLetters.get(id);
+  if (!deadLetter) return;
+  if (message === null) {
+    deadLetter.replayedAt = new Date();
+  } else {
+    deadLetter.attempts++;
+    deadLetter.error = message;
+  }
+}
+
+/** Clears the in-memory store (test isolation) */
+export function clearDeadLetters(): void {
+  memoryDeadLetters.clear();
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function redacted(deadLetter: EventDeadLetter): EventDeadLetter {
+  return { ...deadLetter, event: redactEvent(deadLetter.event) };
+}
+
+function rowToDeadLetter(row: Record<string, unknown>): EventDeadLetter {
+  const event = (typeof row.event === "string" ? JSON.parse(row.event) : row.event) as DomainEvent;
+  // JSON round-trips dates as strings
+  if (event.timestamp) event.timestamp = new Date(event.timestamp);
+
+  return {
+    id: row.id as string,
+    tenantId: (row.tenant_id as string | null) ?? null,
+    subscriber: row.subscriber as string,
+    eventType: row.event_type as string,
+    event,
+    error: row.error as string,
+    attempts: row.attempts as number,
+    createdAt: new Date(row.created_at as string),
+    replayedAt: row.replayed_at ? new Date(row.replayed_at as string) : null,
+  };
+}
@@ -10,6 +10,11 @@
  *   - subscribeAll registers multiple subscribers at once
  *   - Events are enriched with a timestamp if missing
  *   - No subscribers means publish is a no-op
+ *   - Tenant-scoped subscribers only receive their tenant's events
+ *   - Handlers run in the event's trace (correlation / causation)
+ *   - Segment patterns ("task.*", "*.created", "**.transitioned")
+ *   - Priority ordering and per-subscriber timeouts
+ *   - Failed invocations are dead-lettered and can be replayed
  */
 
 import { describe, it, expect, beforeEach, vi } from "vitest";
@@ -19,7 +24,11 @@ import {
   publish,
   getSubscriberCount,
   clearSubscribers,
+  getEventTrace,
+  replayDeadLetter,
 } from "./index.js";
+import { matchesEventPattern, isValidEventPattern } from "./pattern.js";
+import { listDeadLetters, clearDeadLetters } from "./dead-letters.js";
 import type { DomainEvent, EventSubscriber } from "@metasaas/contracts";
 
 // ---------------------------------------------------------------------------
@@ -28,6 +37,7 @@ import type { DomainEvent, EventSubscriber } from "@metasaas/contracts";
 
 beforeEach(() => {
   clearSubscribers();
+  clearDeadLetters();
 });
 
 // ---------------------------------------------------------------------------
@@ -242,3 +252,146 @@ describe("no subscribers", () => {
     await expect(publish(makeEvent("anything"))).resolves.toBeUndefined();
   });
 });
+
+describe("tenant routing", () => {
+  it("tenant-scoped subscribers only receive their tenant's events", async () => {
+    const handler = vi.fn(async () => {});
+    subscribe({ ...makeSubscriber("*", "tenantA", handler), tenantId: "tenant-a" });
+
+    await publish({ type: "x", payload: {}, tenantId: "tenant-b" });
+    await publish({ type: "x", payload: {} });
+    expect(handler).not.toHaveBeenCalled();
+
+    await publish({ type: "x", payload: {}, tenantId: "tenant-a" });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("event trace", () => {
+  it("runs handlers in the event's trace", async () => {
+    let trace: unknown;
+    subscribe(makeSubscriber("x", "traceCheck", async () => {
+      trace = getEventTrace();
+    }));
+
+    await publish({ type: "x", payload: {}, id: "event-1", correlationId: "request-1" });
+
+    expect(trace).toEqual({ correlationId: "request-1", causationId: "event-1" });
+    expect(getEventTrace()).toBeUndefined();
+  });
+});
+
+describe("event patterns", () => {
+  it("matches whole segments with * and any number of segments with **", () => {
+    expect(matchesEventPattern("task.*", "task.created")).toBe(true);
+    expect(matchesEventPattern("task.*", "task.line.added")).toBe(false);
+    expect(matchesEventPattern("*.created", "contact.created")).toBe(true);
+    expect(matchesEventPattern("*.created", "contact.updated")).toBe(false);
+    expect(matchesEventPattern("**.transitioned", "transitioned")).toBe(true);
+    expect(matchesEventPattern("**.transitioned", "deal.stage.transitioned")).toBe(true);
+    expect(matchesEventPattern("task.**", "task")).toBe(true);
+    expect(matchesEventPattern("*", "deal.stage.transitioned")).toBe(true);
+  });
+
+  it("rejects wildcards inside segments and empty segments", () => {
+    expect(isValidEventPattern("task.*")).toBe(true);
+    expect(isValidEventPattern("**.transitioned")).toBe(true);
+    expect(isValidEventPattern("task*")).toBe(false);
+    expect(isValidEventPattern("task..created")).toBe(false);
+    expect(isValidEventPattern("")).toBe(false);
+  });
+
+  it("delivers events to pattern subscribers", async () => {
+    const taskHandler = vi.fn(async () => {});
+    const createdHandler = vi.fn(async () => {});
+    subscribe(makeSubscriber("task.*", "all-task-events", taskHandler));
+    subscribe(makeSubscriber("*.created", "all-creates", createdHandler));
+
+    await publish(makeEvent("task.created"));
+    await publish(makeEvent("task.deleted"));
+    await publish(makeEvent("contact.created"));
+
+    expect(taskHandler).toHaveBeenCalledTimes(2);
+    expect(createdHandler).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("priority and timeouts", () => {
+  it("runs higher-priority subscribers first", async () => {
+    const order: string[] = [];
+    const record = (name: string) => async () => {
+      order.push(name);
+    };
+    subscribe({ ...makeSubscriber("task.created", "default", record("default")) });
+    subscribe({ ...makeSubscriber("task.created", "low", record("low")), priority: -10 });
+    subscribe({ ...makeSubscriber("*", "high", record("high")), priority: 10 });
+
+    await publish(makeEvent("task.created"));
+
+    expect(order).toEqual(["high", "default", "low"]);
+  });
+
+  it("fails a subscriber that outlasts its timeout without holding up the rest", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const other = vi.fn(async () => {});
+    subscribe({
+      ...makeSubscriber("task.created", "hangs", () => new Promise<void>(() => {})),
+      timeoutMs: 20,
+    });
+    subscribe(makeSubscriber("task.created", "other", other));
+
+    await publish({ ...makeEvent("task.created"), tenantId: "tenant-1" });
+
+    expect(other).toHaveBeenCalled();
+    const { data } = await listDeadLetters({ tenantId: "tenant-1" });
+    expect(data[0]).toMatchObject({ subscriber: "hangs", error: 'Subscriber "hangs" timed out after 20ms' });
+    vi.restoreAllMocks();
+  });
+});
+
+describe("dead letters", () => {
+  it("records failed invocations and replays them", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    let failing = true;
+    const handler = vi.fn(async () => {
+      if (failing) throw new Error("downstream unavailable");
+    });
+    subscribe(makeSubscriber("invoice.paid", "sync-ledger", handler));
+
+    await publish({ ...makeEvent("invoice.paid", { id: "inv-1" }), tenantId: "tenant-1", id: "evt-1" });
+
+    const { data, total } = await listDeadLetters({ tenantId: "tenant-1" });
+    expect(total).toBe(1);
+    expect(data[0]).toMatchObject({ subscriber: "sync-ledger", eventType: "invoice.paid", error: "downstream unavailable", attempts: 1 });
+    expect(await replayDeadLetter("tenant-2", data[0].id)).toBeNull();
+
+    // A failed replay keeps the dead letter and counts the attempt
+    expect(await replayDeadLetter("tenant-1", data[0].id)).toEqual({ replayed: false, error: "downstream unavailable" });
+
+    failing = false;
+    expect(await replayDeadLetter("tenant-1", data[0].id)).toEqual({ replayed: true });
+    expect(handler).toHaveBeenLastCalledWith(expect.objectContaining({ id: "evt-1", payload: { id: "inv-1" } }));
+    expect((await listDeadLetters({ tenantId: "tenant-1" })).total).toBe(0);
+
+    const [replayed] = (await listDeadLetters({ tenantId: "tenant-1", includeReplayed: true })).data;
+    expect(replayed.attempts).toBe(2);
+    expect(replayed.replayedAt).toBeInstanceOf(Date);
+    vi.restoreAllMocks();
+  });
+
+  it("reports subscribers that are no longer registered", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    subscribe(makeSubscriber("invoice.paid", "removed", async () => {
+      throw new Error("boom");
+    }));
+    await publish({ ...makeEvent("invoice.paid"), tenantId: "tenant-1" });
+    clearSubscribers();
+
+    const [deadLetter] = (await listDeadLetters({ tenantId: "tenant-1" })).data;
+    expect(await replayDeadLetter("tenant-1", deadLetter.id)).toEqual({
+      replayed: false,
+      error: 'Subscriber "removed" is no longer registered',
+    });
+    vi.restoreAllMocks();
+  });
+});
@@ -8,21 +8,68 @@
  *   - Subscribers are registered at startup (not dynamically at runtime)
  *   - Events are dispatched asynchronously but errors are caught and logged
  *     (a failing subscriber never breaks the action that emitted the event)
- *   - Supports exact match ("task.created") and wildcard ("*") subscriptions
+ *   - Subscriptions are event patterns: exact ("task.created"), segment
+ *     wildcards ("task.*", "*.created", "**.transitioned") or "*" for all
+ *     events (see pattern.ts)
+ *   - Subscribers with a tenantId only receive that tenant's events
+ *   - Higher-priority subscribers run first; equal priorities run concurrently
+ *   - Each handler has a timeout (default 30s) so a hung subscriber can't
+ *     stall the action that emitted the event
+ *   - Failed and timed-out invocations are recorded as dead letters and
+ *     can be replayed (see dead-letters.ts)
  *   - Thread-safe for single-process Node.js (no concurrency issues)
  *
- * Future extensions:
- *   - Pattern matching ("task.*" for all task events)
- *   - Priority ordering
- *   - Dead letter queue for failed handlers
+ * Tracing: handlers run inside an event trace (AsyncLocalStorage) carrying
+ * the event's correlation id and its id as causation. Actions dispatched
+ * from a handler pick the trace up, so the events they emit link back to
+ * the event that caused them (see action-bus/bus.ts).
  */
 
+import { AsyncLocalStorage } from "async_hooks";
 import type { DomainEvent, EventSubscriber } from "@metasaas/contracts";
 import { captureException } from "../observability/index.js";
+import { matchesEventPattern } from "./pattern.js";
+import { getDeadLetter, recordDeadLetter, recordReplay } from "./dead-letters.js";
 
-/** All registered subscribers, keyed by event type */
+/** Correlation data for the work currently running */
+export interface EventTrace {
+  /** Shared by everything that stems from the same request, tick or job */
+  correlationId: string;
+  /** Id of the event being handled, if the work is an event handler */
+  causationId?: string;
+}
+
+/** Options for publish */
+export interface PublishOptions {
+  /**
+   * Called before each matching subscriber runs; the subscriber is skipped
+   * when it resolves false. The outbox relay uses it to deliver each event
+   * once per subscriber.
+   */
+  claim?: (subscriber: string) => Promise<boolean>;
+}
+
+/** All registered subscribers, keyed by event pattern */
 const subscribers = new Map<string, EventSubscriber[]>();
 
+/** Handler timeout for subscribers that don't set timeoutMs */
+const DEFAULT_SUBSCRIBER_TIMEOUT_MS = 30 * 1000;
+
+const traceStorage = new AsyncLocalStorage<EventTrace>();
+
+/** The event trace of the work currently running, if any */
+export function getEventTrace(): EventTrace | undefined {
+  return traceStorage.getStore();
+}
+
+/**
+ * Runs fn inside an event trace — events emitted by actions it dispatches
+ * carry the trace's correlation and causation ids.
+ */
+export function runWithEventTrace<T>(trace: EventTrace, fn: () => T): T {
+  return traceStorage.run(trace, fn);
+}
+
 /**
  * Register an event subscriber.
  * Call this at startup (in domain/src/index.ts or bootstrap).
@@ -49,59 +96,145 @@ export function subscribeAll(subs: EventSubscriber[]): void {
  * Publish a domain event to all matching subscribers.
  *
  * Matching rules:
- *   1. Exact match on event type (e.g., "task.created" matches "task.created")
- *   2. Wildcard "*" matches all events
+ *   1. The subscriber's eventType pattern matches the event type
+ *      ("task.created", "task.*", "**.transitioned", "*")
+ *   2. Subscribers scoped to a tenant skip other tenants' events (and
+ *      platform-wide events without a tenant)
  *
- * All matching handlers are invoked concurrently via Promise.allSettled.
- * Failed handlers are logged but never re-thrown — they don't break the
- * calling action.
+ * Subscribers run in priority order, highest first; those with equal
+ * priority run concurrently via Promise.allSettled. Failed and timed-out
+ * handlers are logged and dead-lettered but never re-thrown — they don't
+ * break the calling action.
  *
  * @param event - The domain event to publish
+ * @param options - See PublishOptions
  */
-export async function publish(event: DomainEvent): Promise<void> {
+export async function publish(event: DomainEvent, options: PublishOptions = {}): Promise<void> {
   // Add timestamp if not already set
   const enrichedEvent: DomainEvent = {
     ...event,
     timestamp: event.timestamp ?? new Date(),
   };
 
-  // Collect matching subscribers
-  const handlers: EventSubscriber[] = [];
-
-  // Exact match
-  const exact = subscribers.get(enrichedEvent.type);
-  if (exact) handlers.push(...exact);
-
-  // Wildcard match
-  const wildcard = subscribers.get("*");
-  if (wildcard) handlers.push(...wildcard);
-
-  if (handlers.length === 0) return;
-
-  // Execute all handlers concurrently, catching failures
-  const results = await Promise.allSettled(
-    handlers.map((sub) => sub.handler(enrichedEvent))
-  );
-
-  // Log failures (don't throw — event handlers must not break the emitter)
-  for (let i = 0; i < results.length; i++) {
-    const result = results[i];
-    if (result.status === "rejected") {
-      console.error(
-        `[event-bus] Subscriber "${handlers[i].name}" failed for event "${enrichedEvent.type}":`,
-        result.reason
-      );
-      // Capture subscriber failure in observability
-      if (result.reason instanceof Error) {
-        captureException(result.reason, {
-          subscriber: handlers[i].name,
-          eventType: enrichedEvent.type,
-        });
+  // Collect matching subscribers, routed by tenant
+  const routed: EventSubscriber[] = [];
+  for (const [pattern, subs] of subscribers) {
+    if (!matchesEventPattern(pattern, enrichedEvent.type)) continue;
+    routed.push(...subs.filter((sub) => !sub.tenantId || sub.tenantId === enrichedEvent.tenantId));
+  }
+  if (routed.length === 0) return;
+
+  // Handlers run in the event's trace so the actions they dispatch are linked to it
+  const trace = traceOf(enrichedEvent);
+
+  for (const group of byPriority(routed)) {
+    const results = await Promise.allSettled(
+      group.map(async (sub) => {
+        if (options.claim && !(await options.claim(sub.name))) return;
+        await runSubscriber(sub, enrichedEvent, trace);
+      })
+    );
+
+    // Log and dead-letter failures (don't throw — event handlers must not break the emitter)
+    for (let i = 0; i < results.length; i++) {
+      const result = results[i];
+      if (result.status === "rejected") {
+        await handleFailure(group[i], enrichedEvent, result.reason);
       }
     }
   }
 }
 
+/**
+ * Re-runs a dead-lettered invocation against the subscriber of the same
+ * name, in the original event's trace. Returns null when the tenant has
+ * no such dead letter; otherwise whether the replay succeeded.
+ */
+export async function replayDeadLetter(
+  tenantId: string,
+  id: string
+): Promise<{ replayed: boolean; error?: string } | null> {
+  const deadLetter = await getDeadLetter(tenantId, id);
+  if (!deadLetter) return null;
+  if (deadLetter.replayedAt) return { replayed: true };
+
+  const subscriber = findSubscriber(deadLetter.subscriber);
+  if (!subscriber) {
+    return { replayed: false, error: `Subscriber "${deadLetter.subscriber}" is no longer registered` };
+  }
+
+  try {
+    await runSubscriber(subscriber, deadLetter.event, traceOf(deadLetter.event));
+  } catch (err) {
+    await recordReplay(id, err);
+    return { replayed: false, error: err instanceof Error ? err.message : String(err) };
+  }
+  await recordReplay(id);
+  return { replayed: true };
+}
+
+/** The trace a handler of this event runs in */
+function traceOf(event: DomainEvent): EventTrace {
+  return {
+    correlationId: event.correlationId ?? event.id ?? crypto.randomUUID(),
+    causationId: event.id,
+  };
+}
+
+/** Subscribers grouped by priority, highest first */
+function byPriority(subs: EventSubscriber[]): EventSubscriber[][] {
+  const groups = new Map<number, EventSubscriber[]>();
+  for (const sub of subs) {
+    const priority = sub.priority ?? 0;
+    groups.set(priority, [...(groups.get(priority) ?? []), sub]);
+  }
+  return [...groups.entries()].sort(([a], [b]) => b - a).map(([, group]) => group);
+}
+
+/**
+ * Runs one handler in the trace, rejecting if it outlasts the
+ * subscriber's timeout. A timed-out handler is not cancelled — it keeps
+ * running, but the bus stops waiting for it.
+ */
+async function runSubscriber(sub: EventSubscriber, event: DomainEvent, trace: EventTrace): Promise<void> {
+  const run = runWithEventTrace(trace, () => sub.handler(event));
+  const timeoutMs = sub.timeoutMs ?? DEFAULT_SUBSCRIBER_TIMEOUT_MS;
+  if (timeoutMs <= 0) return run;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`Subscriber "${sub.name}" timed out after ${timeoutMs}ms`)),
+      timeoutMs
+    );
+  });
+  try {
+    await Promise.race([run, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function handleFailure(sub: EventSubscriber, event: DomainEvent, reason: unknown): Promise<void> {
+  console.error(`[event-bus] Subscriber "${sub.name}" failed for event "${event.type}":`, reason);
+  // Capture subscriber failure in observability
+  if (reason instanceof Error) {
+    captureException(reason, {
+      subscriber: sub.name,
+      eventType: event.type,
+    });
+  }
+  await recordDeadLetter(sub.name, event, reason);
+}
+
+function findSubscriber(name: string): EventSubscriber | undefined {
+  for (const subs of subscribers.values()) {
+    const match = subs.find((sub) => sub.name === name);
+    if (match) return match;
+  }
+  return undefined;
+}
+
 /**
  * Returns the count of registered subscribers (for testing/debugging).
  */
@@ -0,0 +1,132 @@
+/**
+ * Transactional Outbox Tests
+ *
+ * Tests writing events on a transaction and the relay: advisory locking,
+ * publishing in outbox order, once-per-subscriber claims and marking
+ * events published, and encryption of sensitive payload fields at rest,
+ * with a mocked database.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { defineEntity } from "@metasaas/contracts";
+
+// Mock database
+const mockUnsafe = vi.fn();
+const mockLockUnsafe = vi.fn();
+vi.mock("../database/connection.js", () => ({
+  getDatabase: () => ({
+    sql: {
+      unsafe: mockUnsafe,
+      begin: async (fn: (tx: unknown) => Promise<unknown>) => fn({ unsafe: mockLockUnsafe }),
+    },
+  }),
+}));
+
+import { writeToOutbox, relayOutbox } from "./outbox.js";
+import { subscribe, clearSubscribers } from "./index.js";
+import { clearDeadLetters } from "./dead-letters.js";
+import { registerEntity, clearEntityRegistry } from "../entity-manager/entity-registry.js";
+import { setEncryptionKeys, resetEncryption } from "../encryption/index.js";
+
+/** A postgres.js-style result with an affected row count */
+function result(rows: Record<string, unknown>[] = [], count = rows.length) {
+  return Object.assign(rows, { count });
+}
+
+function outboxRow(id: number, type: string) {
+  return { id, event: JSON.stringify({ type, payload: { n: id }, tenantId: "tenant-1", timestamp: "2026-03-10T12:00:00.000Z" }) };
+}
+
+describe("Transactional Outbox", () => {
+  beforeEach(() => {
+    mockUnsafe.mockReset();
+    mockLockUnsafe.mockReset();
+    clearSubscribers();
+    clearDeadLetters();
+  });
+
+  it("writes events on the given transaction", async () => {
+    const txDb = { execute: vi.fn().mockResolvedValue(undefined) };
+
+    await writeToOutbox(txDb, { type: "invoice.paid", payload: { id: "inv-1" }, tenantId: "tenant-1" });
+
+    expect(txDb.execute).toHaveBeenCalledTimes(1);
+  });
+
+  it("publishes unpublished events in order and marks them published", async () => {
+    const seen: string[] = [];
+    subscribe({ eventType: "*", name: "recorder", handler: async (e) => void seen.push(e.type) });
+    mockLockUnsafe.mockResolvedValueOnce(result([{ locked: true }]));
+    mockUnsafe.mockImplementation(async (sql: string) => {
+      if (sql.startsWith("SELECT id, event FROM event_outbox")) {
+        return result([outboxRow(1, "invoice.created"), outboxRow(2, "invoice.paid")]);
+      }
+      return result([], 1);
+    });
+
+    expect(await relayOutbox()).toBe(2);
+
+    expect(seen).toEqual(["invoice.created", "invoice.paid"]);
+    const marks = mockUnsafe.mock.calls.filter(([sql]) => sql.startsWith("UPDATE event_outbox"));
+    expect(marks.map(([, params]) => params)).toEqual([[1], [2]]);
+  });
+
+  it("skips subscribers that already received the event", async () => {
+    const first = vi.fn(async () => {});
+    const second = vi.fn(async () => {});
+    subscribe({ eventType: "invoice.paid", name: "first", handler: first });
+    subscribe({ eventType: "invoice.paid", name: "second", handler: second });
+    mockLockUnsafe.mockResolvedValueOnce(result([{ locked: true }]));
+    mockUnsafe.mockImplementation(async (sql: string, params: unknown[]) => {
+      if (sql.startsWith("SELECT id, event FROM event_outbox")) return result([outboxRow(7, "invoice.paid")]);
+      // "first" was delivered before the previous relay stopped
+      if (sql.includes("INSERT INTO event_outbox_deliveries")) return result([], params[1] === "first" ? 0 : 1);
+      return result([], 1);
+    });
+
+    await relayOutbox();
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledWith(expect.objectContaining({ type: "invoice.paid", payload: { n: 7 } }));
+  });
+
+  it("stores sensitive payload fields encrypted and publishes them decrypted", async () => {
+    registerEntity(
+      defineEntity({
+        name: "Patient",
+        pluralName: "Patients",
+        description: "Test",
+        fields: [{ name: "ssn", type: "text", required: false, description: "SSN", sensitive: true }],
+        ui: { icon: "user", listColumns: ["ssn"], searchFields: [], defaultSort: { field: "ssn", direction: "asc" } },
+      })
+    );
+    setEncryptionKeys([{ id: "k1", key: Buffer.alloc(32, 3) }]);
+    const txDb = { execute: vi.fn().mockResolvedValue(undefined) };
+
+    await writeToOutbox(txDb, { type: "patient.created", payload: { id: "p-1", ssn: "123-45-6789" }, tenantId: "tenant-1" });
+
+    const stored = new PgDialect().sqlToQuery(txDb.execute.mock.calls[0][0]).params[2] as string;
+    expect(stored).not.toContain("123-45-6789");
+
+    const received = vi.fn(async () => {});
+    subscribe({ eventType: "patient.created", name: "recorder", handler: received });
+    mockLockUnsafe.mockResolvedValueOnce(result([{ locked: true }]));
+    mockUnsafe.mockImplementation(async (sql: string) =>
+      sql.startsWith("SELECT id, event FROM event_outbox") ? result([{ id: 1, event: stored }]) : result([], 1)
+    );
+
+    await relayOutbox();
+
+    expect(received).toHaveBeenCalledWith(expect.objectContaining({ payload: { id: "p-1", ssn: "123-45-6789" } }));
+    resetEncryption();
+    clearEntityRegistry();
+  });
+
+  it("does nothing while another relay holds the lock", async () => {
+    mockLockUnsafe.mockResolvedValueOnce(result([{ locked: false }]));
+
+    expect(await relayOutbox()).toBe(0);
+    expect(mockUnsafe).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Transactional Outbox
+ *
+ * Events emitted while an action runs inside `ctx.db.transaction` are not
+ * published right away — a rollback would leave webhooks and emails
+ * describing data that never existed. Instead they are written to the
+ * `event_outbox` table on the transaction itself, so they commit or roll
+ * back with the data, and a relay publishes them after commit.
+ *
+ * The relay:
+ *   - is kicked after every commit that wrote to the outbox, and polls
+ *     (startOutboxRelay) to pick up events a crashed process left behind
+ *   - holds a Postgres advisory lock while it works, so only one relay
+ *     across all processes publishes at a time, in outbox order
+ *   - claims each (event, subscriber) pair in `event_outbox_deliveries`
+ *     before running the subscriber, so a relay that dies midway and is
+ *     retried never delivers an event to the same subscriber twice.
+ *     A subscriber that fails is dead-lettered like any other (see
+ *     dead-letters.ts) and replayed from there.
+ *
+ * Sensitive payload fields are stored encrypted (see encryption/events.ts)
+ * and decrypted by the relay. Published rows are deleted after a week.
+ */
+
+import { sql as drizzleSql } from "drizzle-orm";
+import type { DomainEvent } from "@metasaas/contracts";
+import { getDatabase } from "../database/connection.js";
+import { publish } from "./index.js";
+import { encryptEvent, decryptEvent } from "../encryption/events.js";
+
+/** Advisory lock key held by the running relay ("outbox" in ASCII) */
+const OUTBOX_LOCK_KEY = 0x6f7574626f78;
+const RELAY_BATCH_SIZE = 100;
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+const RETENTION_DAYS = 7;
+
+/**
+ * Writes an event to the outbox on the given Drizzle transaction. It is
+ * published once the transaction commits and the relay runs.
+ */
+export async function writeToOutbox(txDb: any, event: DomainEvent): Promise<void> {
+  await txDb.execute(
+    drizzleSql`INSERT INTO event_outbox (tenant_id, event_type, event)
+               VALUES (${event.tenantId ?? null}, ${event.type}, ${JSON.stringify(encryptEvent(event))}::jsonb)`
+  );
+}
+
+/**
+ * Publishes up to one batch of unpublished outbox events, oldest first.
+ * Returns how many were published — 0 also when another relay holds the lock.
+ */
+export async function relayOutbox(batchSize = RELAY_BATCH_SIZE): Promise<number> {
+  const { sql } = getDatabase();
+
+  // The lock lives as long as this transaction; the work itself uses the
+  // pool, so claims and published marks commit as they happen
+  return sql.begin(async (lockTx: any) => {
+    const [{ locked }] = await lockTx.unsafe(`SELECT pg_try_advisory_xact_lock($1) AS locked`, [OUTBOX_LOCK_KEY]);
+    if (!locked) return 0;
+
+    const rows = await sql.unsafe(
+      `SELECT id, event FROM event_outbox WHERE published_at IS NULL ORDER BY id LIMIT $1`,
+      [batchSize]
+    );
+
+    for (const row of rows) {
+      await publish(parseEvent(row.event), {
+        claim: async (subscriber) => {
+          const claimed = await sql.unsafe(
+            `INSERT INTO event_outbox_deliveries (outbox_id, subscriber) VALUES ($1, $2)
+             ON CONFLICT DO NOTHING`,
+            [row.id, subscriber]
+          );
+          return claimed.count > 0;
+        },
+      });
+      await sql.unsafe(`UPDATE event_outbox SET published_at = NOW() WHERE id = $1`, [row.id]);
+    }
+    return rows.length;
+  });
+}
+
+/** Deletes published events older than the retention period */
+export async function cleanupOutbox(): Promise<number> {
+  const { sql } = getDatabase();
+  const result = await sql.unsafe(
+    `DELETE FROM event_outbox WHERE published_at < NOW() - INTERVAL '${RETENTION_DAYS} days'`
+  );
+  return result.count;
+}
+
+// ---------------------------------------------------------------------------
+// Relay loop
+// ---------------------------------------------------------------------------
+
+let relaying: Promise<void> | null = null;
+let rerun = false;
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let lastCleanup = 0;
+
+/**
+ * Runs the relay until the outbox is drained. Calls while it runs make it
+ * go around once more instead of starting a second relay. Never throws.
+ */
+export function requestOutboxRelay(): void {
+  if (relaying) {
+    rerun = true;
+    return;
+  }
+
+  relaying = (async () => {
+    do {
+      rerun = false;
+      while ((await relayOutbox()) === RELAY_BATCH_SIZE) {
+        // Full batch — there may be more
+      }
+    } while (rerun);
+  })()
+    .catch((err) => {
+      console.error("[outbox] Relay failed:", err);
+    })
+    .finally(() => {
+      relaying = null;
+    });
+}
+
+/**
+ * Starts polling the outbox, for events committed by processes that
+ * stopped before relaying them. Call once at startup.
+ */
+export function startOutboxRelay(intervalMs = DEFAULT_POLL_INTERVAL_MS): void {
+  stopOutboxRelay();
+
+  const tick = () => {
+    requestOutboxRelay();
+    if (Date.now() - lastCleanup >= CLEANUP_INTERVAL_MS) {
+      lastCleanup = Date.now();
+      cleanupOutbox().catch((err) => {
+        console.error("[outbox] Cleanup failed:", err);
+      });
+    }
+  };
+
+  tick();
+  pollTimer = setInterval(tick, intervalMs);
+  // Never keep the process alive just for the relay
+  pollTimer.unref();
+}
+
+/** Stops polling and waits for a running relay to finish */
+export async function stopOutboxRelay(): Promise<void> {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+  await relaying;
+}
+
+function parseEvent(value: unknown): DomainEvent {
+  const event = (typeof value === "string" ? JSON.parse(value) : value) as DomainEvent;
+  // JSON round-trips dates as strings
+  if (event.timestamp) event.timestamp = new Date(event.timestamp);
+  return decryptEvent(event);
+}
@@ -0,0 +1,47 @@
+/**
+ * Event Patterns
+ *
+ * Event types are dot-separated segments ("task.created",
+ * "invoice.line.added"). Subscribers, webhooks and email triggers select
+ * events with a pattern:
+ *
+ *   "task.created"       exact type
+ *   "task.*"             `*` matches exactly one segment — every task event
+ *   "*.created"          every entity's create event
+ *   "**.transitioned"    `**` matches zero or more segments
+ *   "*"                  every event (kept as shorthand for "**")
+ *
+ * Wildcards stand for whole segments: "task*" and "ta*.created" are invalid.
+ */
+
+/** Whether an event type matches a pattern */
+export function matchesEventPattern(pattern: string, type: string): boolean {
+  if (pattern === "*" || pattern === "**") return true;
+  if (pattern === type) return true;
+  if (!pattern.includes("*")) return false;
+  return matchSegments(pattern.split("."), 0, type.split("."), 0);
+}
+
+/** Whether a pattern is well-formed: non-empty segments, wildcards only as whole segments */
+export function isValidEventPattern(pattern: string): boolean {
+  if (typeof pattern !== "string" || pattern.length === 0) return false;
+  return pattern
+    .split(".")
+    .every((segment) => segment === "*" || segment === "**" || /^[A-Za-z0-9_-]+$/.test(segment));
+}
+
+function matchSegments(pattern: string[], p: number, type: string[], t: number): boolean {
+  if (p === pattern.length) return t === type.length;
+
+  if (pattern[p] === "**") {
+    // Consume zero or more segments
+    for (let skip = t; skip <= type.length; skip++) {
+      if (matchSegments(pattern, p + 1, type, skip)) return true;
+    }
+    return false;
+  }
+
+  if (t === type.length) return false;
+  if (pattern[p] !== "*" && pattern[p] !== type[t]) return false;
+  return matchSegments(pattern, p + 1, type, t + 1);
+}
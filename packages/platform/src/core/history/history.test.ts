@@ -0,0 +1,203 @@
+/**
+ * Record Version History Tests
+ *
+ * Tests snapshots, field diffs, and version storage with a mocked database.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { randomBytes } from "node:crypto";
+import { defineEntity } from "@metasaas/contracts";
+
+// Mock database
+const mockUnsafe = vi.fn();
+vi.mock("../database/connection.js", () => ({
+  getDatabase: () => ({ sql: { unsafe: mockUnsafe } }),
+}));
+
+import {
+  getTrackedFields,
+  takeSnapshot,
+  diffSnapshots,
+  recordVersion,
+  listVersions,
+} from "./index.js";
+import { setEncryptionKeys, resetEncryption, isEncryptedValue } from "../encryption/index.js";
+
+const Deal = defineEntity({
+  name: "Deal",
+  pluralName: "Deals",
+  description: "A sales deal",
+  fields: [
+    { name: "title", type: "text", required: true, description: "Title" },
+    { name: "amount", type: "currency", required: false, description: "Amount" },
+    { name: "notes", type: "rich_text", required: false, description: "Notes", sensitive: true },
+  ],
+  relationships: [{ type: "belongsTo", entity: "Company" }],
+  ui: { icon: "dollar", listColumns: ["title"], searchFields: [], defaultSort: { field: "title", direction: "asc" } },
+});
+
+const DEAL_ID = "11111111-1111-4111-8111-111111111111";
+const base = { tenantId: "t1", entity: Deal, recordId: DEAL_ID, userId: "u1" };
+
+describe("Record Version History", () => {
+  beforeEach(() => {
+    mockUnsafe.mockReset();
+  });
+
+  afterEach(() => {
+    resetEncryption();
+  });
+
+  describe("snapshots and diffs", () => {
+    it("tracks declared fields and belongsTo foreign keys", () => {
+      expect(getTrackedFields(Deal)).toEqual(["title", "amount", "notes", "companyId"]);
+    });
+
+    it("leaves out system columns and fills missing fields with null", () => {
+      const snapshot = takeSnapshot(Deal, {
+        id: DEAL_ID,
+        title: "Renewal",
+        createdAt: new Date("2026-01-01"),
+      });
+      expect(snapshot).toEqual({ title: "Renewal", amount: null, notes: null, companyId: null });
+    });
+
+    it("diffs only the fields that changed", () => {
+      const changes = diffSnapshots(
+        { title: "Renewal", amount: 100, companyId: null },
+        { title: "Renewal", amount: 250, companyId: null }
+      );
+      expect(changes).toEqual({ amount: { from: 100, to: 250 } });
+    });
+  });
+
+  describe("recordVersion()", () => {
+    it("stores version 1 on create with every field as a change from null", async () => {
+      mockUnsafe.mockResolvedValueOnce([{ version: 0 }]).mockResolvedValueOnce([]);
+
+      const version = await recordVersion({
+        ...base,
+        actionId: "deal.create",
+        after: { id: DEAL_ID, title: "Renewal", amount: 100 },
+      });
+
+      expect(version).toBe(1);
+      const [, params] = mockUnsafe.mock.calls[1];
+      expect(params.slice(0, 6)).toEqual(["t1", "Deal", DEAL_ID, 1, "u1", "deal.create"]);
+      expect(JSON.parse(params[7])).toEqual({
+        title: { from: null, to: "Renewal" },
+        amount: { from: null, to: 100 },
+      });
+    });
+
+    it("stores the next version with the diff against the previous state", async () => {
+      mockUnsafe.mockResolvedValueOnce([{ version: 3 }]).mockResolvedValueOnce([]);
+
+      const version = await recordVersion({
+        ...base,
+        actionId: "deal.update",
+        before: { id: DEAL_ID, title: "Renewal", amount: 100 },
+        after: { id: DEAL_ID, title: "Renewal", amount: 250 },
+      });
+
+      expect(version).toBe(4);
+      expect(mockUnsafe).toHaveBeenCalledTimes(2);
+      const [, params] = mockUnsafe.mock.calls[1];
+      expect(JSON.parse(params[6])).toMatchObject({ title: "Renewal", amount: 250 });
+      expect(JSON.parse(params[7])).toEqual({ amount: { from: 100, to: 250 } });
+    });
+
+    it("stores a baseline first for records created before history existed", async () => {
+      mockUnsafe.mockResolvedValueOnce([{ version: 0 }]).mockResolvedValue([]);
+
+      const version = await recordVersion({
+        ...base,
+        actionId: "deal.update",
+        before: { id: DEAL_ID, title: "Old" },
+        after: { id: DEAL_ID, title: "New" },
+      });
+
+      expect(version).toBe(2);
+      const [, baseline] = mockUnsafe.mock.calls[1];
+      expect(baseline.slice(3, 6)).toEqual([1, null, null]);
+      expect(JSON.parse(baseline[6])).toMatchObject({ title: "Old" });
+      expect(mockUnsafe.mock.calls[2][1][3]).toBe(2);
+    });
+
+    it("skips updates that change nothing", async () => {
+      const version = await recordVersion({
+        ...base,
+        actionId: "deal.update",
+        before: { id: DEAL_ID, title: "Same", updatedAt: new Date("2026-01-01") },
+        after: { id: DEAL_ID, title: "Same", updatedAt: new Date("2026-02-01") },
+      });
+
+      expect(version).toBeNull();
+      expect(mockUnsafe).not.toHaveBeenCalled();
+    });
+
+    it("encrypts sensitive fields in the snapshot and the diff", async () => {
+      setEncryptionKeys([{ id: "k1", key: randomBytes(32) }]);
+      mockUnsafe.mockResolvedValueOnce([{ version: 1 }]).mockResolvedValueOnce([]);
+
+      await recordVersion({
+        ...base,
+        actionId: "deal.update",
+        before: { id: DEAL_ID, title: "Renewal", notes: "old secret" },
+        after: { id: DEAL_ID, title: "Renewal", notes: "new secret" },
+      });
+
+      const [, params] = mockUnsafe.mock.calls[1];
+      expect(params[6]).not.toContain("secret");
+      expect(params[7]).not.toContain("secret");
+      const changes = JSON.parse(params[7]);
+      expect(isEncryptedValue(changes.notes.from)).toBe(true);
+      expect(isEncryptedValue(changes.notes.to)).toBe(true);
+    });
+  });
+
+  describe("listVersions()", () => {
+    it("returns tenant-scoped versions newest first, decrypted", async () => {
+      setEncryptionKeys([{ id: "k1", key: randomBytes(32) }]);
+
+      // Produce a stored row through recordVersion so it carries real ciphertext
+      mockUnsafe.mockResolvedValueOnce([{ version: 1 }]).mockResolvedValueOnce([]);
+      await recordVersion({
+        ...base,
+        actionId: "deal.update",
+        before: { id: DEAL_ID, title: "Renewal", notes: "a" },
+        after: { id: DEAL_ID, title: "Renewal", notes: "b" },
+      });
+      const [, stored] = mockUnsafe.mock.calls[1];
+
+      mockUnsafe
+        .mockResolvedValueOnce([{ count: 1 }])
+        .mockResolvedValueOnce([
+          {
+            id: "v2",
+            version: 2,
+            user_id: "u1",
+            action_id: "deal.update",
+            snapshot: JSON.parse(stored[6]),
+            changes: JSON.parse(stored[7]),
+            created_at: new Date("2026-03-01T00:00:00.000Z"),
+          },
+        ]);
+
+      const result = await listVersions({ tenantId: "t1", entity: Deal, recordId: DEAL_ID });
+
+      expect(result.total).toBe(1);
+      expect(result.data[0]).toMatchObject({
+        version: 2,
+        userId: "u1",
+        snapshot: { notes: "b" },
+        changes: { notes: { from: "a", to: "b" } },
+        createdAt: "2026-03-01T00:00:00.000Z",
+      });
+
+      const [query, params] = mockUnsafe.mock.calls[3];
+      expect(query).toContain("ORDER BY version DESC");
+      expect(params).toEqual(["t1", "Deal", DEAL_ID, 50, 0]);
+    });
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Record Version History
+ *
+ * Every create and update through the CRUD generator stores a versioned
+ * snapshot of the record together with a field-level diff against the
+ * previous version. This answers "who changed the amount, and from what?"
+ * — the audit log only has the action input.
+ *
+ * Versions are numbered per record, starting at 1. Records that existed
+ * before history was enabled get a baseline version (their state before
+ * the first tracked update) so that update can still be reverted.
+ *
+ * Sensitive fields stay encrypted at rest in snapshots and diffs, and are
+ * decrypted on read like the entity table itself.
+ *
+ * Usage:
+ *   await recordVersion({ tenantId, entity, recordId, before, after, userId, actionId });
+ *   const { data, total } = await listVersions({ tenantId, entity, recordId });
+ *   const version = await getVersion(tenantId, entity, recordId, 3);
+ */
+
+import type { EntityDefinition } from "@metasaas/contracts";
+import { relationshipNames } from "@metasaas/contracts";
+import { getDatabase } from "../database/connection.js";
+import { encryptValue, decryptValue, getSensitiveFields } from "../encryption/index.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** One changed field: its value before and after the change */
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+/** Field diff keyed by field name */
+export type FieldChanges = Record<string, FieldChange>;
+
+/** A stored version of a record */
+export interface RecordVersion {
+  id: string;
+  version: number;
+  /** User who made the change (null for the baseline version) */
+  userId: string | null;
+  /** Action that produced the version (null for the baseline version) */
+  actionId: string | null;
+  /** Tracked field values after the change */
+  snapshot: Record<string, unknown>;
+  /** Fields that differ from the previous version */
+  changes: FieldChanges;
+  createdAt: string;
+}
+
+export interface RecordVersionInput {
+  tenantId: string;
+  entity: EntityDefinition;
+  recordId: string;
+  /** Record before the change (omit on create) */
+  before?: Record<string, unknown> | null;
+  /** Record after the change */
+  after: Record<string, unknown>;
+  userId: string;
+  actionId: string;
+}
+
+export interface VersionListQuery {
+  tenantId: string;
+  entity: EntityDefinition;
+  recordId: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface VersionListResult {
+  data: RecordVersion[];
+  total: number;
+}
+
+// ---------------------------------------------------------------------------
+// Snapshots and diffs
+// ---------------------------------------------------------------------------
+
+/**
+ * Fields captured in a snapshot: the entity's declared fields plus
+ * belongsTo foreign keys. System columns (id, timestamps) are not versioned.
+ */
+export function getTrackedFields(entity: EntityDefinition): string[] {
+  const fields = entity.fields.map((f) => f.name);
+  for (const rel of entity.relationships ?? []) {
+    if (rel.type === "belongsTo") fields.push(relationshipNames(rel).idField);
+  }
+  return fields;
+}
+
+/** Picks the tracked fields out of a record. Missing fields become null. */
+export function takeSnapshot(
+  entity: EntityDefinition,
+  record: Record<string, unknown>
+): Record<string, unknown> {
+  const snapshot: Record<string, unknown> = {};
+  for (const field of getTrackedFields(entity)) {
+    snapshot[field] = normalize(record[field]);
+  }
+  return snapshot;
+}
+
+/**
+ * Field-level diff between two snapshots. Values are compared by their
+ * JSON encoding so dates and nested values compare by content.
+ */
+export function diffSnapshots(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): FieldChanges {
+  const changes: FieldChanges = {};
+  for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+/** Dates are stored as ISO strings so snapshots survive the JSONB round trip */
+function normalize(value: unknown): unknown {
+  if (value === undefined) return null;
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+// ---------------------------------------------------------------------------
+// Sensitive fields
+// ---------------------------------------------------------------------------
+
+/**
+ * Applies `fn` to the sensitive fields of a snapshot and diff —
+ * encryptValue before storing, decryptValue after loading.
+ */
+function mapSensitive(
+  entity: EntityDefinition,
+  snapshot: Record<string, unknown>,
+  changes: FieldChanges,
+  fn: (value: unknown) => unknown
+): { snapshot: Record<string, unknown>; changes: FieldChanges } {
+  const mappedSnapshot = { ...snapshot };
+  const mappedChanges = { ...changes };
+  for (const field of getSensitiveFields(entity)) {
+    if (field in mappedSnapshot) mappedSnapshot[field] = fn(mappedSnapshot[field]);
+    const change = mappedChanges[field];
+    if (change) mappedChanges[field] = { from: fn(change.from), to: fn(change.to) };
+  }
+  return { snapshot: mappedSnapshot, changes: mappedChanges };
+}
+
+// ---------------------------------------------------------------------------
+// Write
+// ---------------------------------------------------------------------------
+
+/**
+ * Stores a new version of a record if any tracked field changed.
+ * Returns the new version number, or null when nothing changed.
+ */
+export async function recordVersion(input: RecordVersionInput): Promise<number | null> {
+  const { sql: pgSql } = getDatabase();
+  const { tenantId, entity, recordId } = input;
+
+  const after = takeSnapshot(entity, input.after);
+  const before = input.before ? takeSnapshot(entity, input.before) : null;
+  const changes = diffSnapshots(before ?? {}, after);
+  if (before && Object.keys(changes).length === 0) return null;
+
+  const rows = await pgSql.unsafe(
+    `SELECT COALESCE(MAX(version), 0)::int AS version FROM record_versions
+     WHERE tenant_id = $1 AND entity = $2 AND record_id = $3`,
+    [tenantId, entity.name, recordId]
+  );
+  let version: number = rows[0].version;
+
+  // First tracked change to a pre-existing record — keep its prior state
+  if (version === 0 && before) {
+    await insertVersion(tenantId, entity, recordId, ++version, null, null, before, {});
+  }
+
+  await insertVersion(
+    tenantId, entity, recordId, ++version, input.userId, input.actionId, after, changes
+  );
+  return version;
+}
+
+async function insertVersion(
+  tenantId: string,
+  entity: EntityDefinition,
+  recordId: string,
+  version: number,
+  userId: string | null,
+  actionId: string | null,
+  snapshot: Record<string, unknown>,
+  changes: FieldChanges
+): Promise<void> {
+  const { sql: pgSql } = getDatabase();
+  const sealed = mapSensitive(entity, snapshot, changes, encryptValue);
+  await pgSql.unsafe(
+    `INSERT INTO record_versions
+       (tenant_id, entity, record_id, version, user_id, action_id, snapshot, changes)
+     VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb, $8::jsonb)`,
+    [
+      tenantId,
+      entity.name,
+      recordId,
+      version,
+      userId,
+      actionId,
+      JSON.stringify(sealed.snapshot),
+      JSON.stringify(sealed.changes),
+    ]
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Read
+// ---------------------------------------------------------------------------
+
+/** Lists a record's versions, newest first. Always scoped to a tenant. */
+export async function listVersions(query: VersionListQuery): Promise<VersionListResult> {
+  const { sql: pgSql } = getDatabase();
+  const params = [query.tenantId, query.entity.name, query.recordId];
+  const where = "tenant_id = $1 AND entity = $2 AND record_id = $3";
+
+  const countRows = await pgSql.unsafe(
+    `SELECT COUNT(*)::int AS count FROM record_versions WHERE ${where}`,
+    params
+  );
+
+  const dataRows = await pgSql.unsafe(
+    `SELECT id, version, user_id, action_id, snapshot, changes, created_at
+     FROM record_versions WHERE ${where}
+     ORDER BY version DESC
+     LIMIT $4 OFFSET $5`,
+    [...params, query.limit ?? 50, query.offset ?? 0] as any[]
+  );
+
+  return {
+    data: dataRows.map((row: any) => toVersion(query.entity, row)),
+    total: countRows[0].count,
+  };
+}
+
+/** Loads a single version of a record, or null if it doesn't exist */
+export async function getVersion(
+  tenantId: string,
+  entity: EntityDefinition,
+  recordId: string,
+  version: number
+): Promise<RecordVersion | null> {
+  const { sql: pgSql } = getDatabase();
+  const rows = await pgSql.unsafe(
+    `SELECT id, version, user_id, action_id, snapshot, changes, created_at
+     FROM record_versions
+     WHERE tenant_id = $1 AND entity = $2 AND record_id = $3 AND version = $4`,
+    [tenantId, entity.name, recordId, version] as any[]
+  );
+  return rows.length > 0 ? toVersion(entity, rows[0]) : null;
+}
+
+function toVersion(entity: EntityDefinition, row: any): RecordVersion {
+  const { snapshot, changes } = mapSensitive(
+    entity, parseJson(row.snapshot), parseJson(row.changes), decryptValue
+  );
+  return {
+    id: row.id,
+    version: row.version,
+    userId: row.user_id ?? null,
+    actionId: row.action_id ?? null,
+    snapshot,
+    changes: changes as FieldChanges,
+    createdAt: row.created_at instanceof Date ? row.created_at.toISOString() : String(row.created_at),
+  };
+}
+
+/** JSONB written as a string parameter may come back as a string */
+function parseJson(value: unknown): Record<string, any> {
+  if (typeof value === "string") return JSON.parse(value);
+  return (value as Record<string, any>) ?? {};
+}
@@ -0,0 +1,523 @@
+/**
+ * Job Queue
+ *
+ * Postgres-backed background jobs. A job is a row in the `jobs` table
+ * naming a handler and carrying a JSON payload; workers claim due jobs
+ * with `FOR UPDATE SKIP LOCKED`, so any number of worker processes can
+ * share the queue and work survives restarts.
+ *
+ * Lifecycle:
+ *   pending → running → completed
+ *                    ↘ pending (retry after backoff: backoffMs × 2^(attempt−1), max 1h,
+ *                               less up to 25% random jitter so retries don't arrive in step)
+ *                    ↘ dead    (attempts used up — the dead-letter queue, see retryJob)
+ *
+ * A job whose worker stops responding (running longer than the lock
+ * timeout) is put back as pending, or dead-lettered if that was its last
+ * attempt. Completed jobs are deleted after a week.
+ *
+ * Per-tenant concurrency: a worker doesn't claim a tenant's job while that
+ * tenant already has `tenantConcurrency` jobs running, so one busy tenant
+ * can't starve the others. The check is made at claim time and is
+ * best-effort across workers.
+ *
+ * Cron schedules enqueue a job at each slot. Every worker computes the
+ * same slots, and the job's unique key (`schedule:{name}:{slot}`) makes
+ * sure each slot is enqueued once however many workers run.
+ *
+ * Usage:
+ *   registerJobHandler("invoice.render", async (job) => { ... });
+ *   registerJobSchedule({ name: "nightly-digest", cron: "0 2 * * *", job: "digest.send" });
+ *   await enqueueJob(tenantId, "invoice.render", { invoiceId }, { delayMs: 60_000 });
+ *   startJobWorker();          // API server (inline) or apps/api worker entrypoint
+ *   await stopJobWorker();     // On shutdown — waits for running jobs
+ */
+
+import { hostname } from "os";
+import type { EnqueueOptions, Job, JobHandler, JobQueue } from "@metasaas/contracts";
+import { sql as drizzleSql, type SQL } from "drizzle-orm";
+import { getDatabase } from "../database/connection.js";
+import { getActiveTransaction } from "../database/client.js";
+import { parseCron, nextCronRun, type CronSchedule } from "../cron/index.js";
+import { runWithEventTrace } from "../event-bus/index.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type JobStatus = "pending" | "running" | "completed" | "dead";
+
+/** A job row, for inspection (dead-letter queue, admin views) */
+export interface JobRecord extends Job {
+  status: JobStatus;
+  lastError: string | null;
+  runAt: string;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export interface JobListQuery {
+  tenantId: string;
+  status?: JobStatus;
+  name?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface JobListResult {
+  data: JobRecord[];
+  total: number;
+}
+
+/** A cron schedule that enqueues a platform-wide job at each slot */
+export interface JobScheduleDefinition {
+  /** Unique schedule name (part of the dedup key) */
+  name: string;
+  /** 5-field cron expression in UTC (see core/cron) */
+  cron: string;
+  /** Job (handler) name to enqueue */
+  job: string;
+  payload?: Record<string, unknown>;
+  maxAttempts?: number;
+}
+
+export interface JobWorkerOptions {
+  /** Identifies the worker in `locked_by` (default: hostname:pid) */
+  workerId?: string;
+  /** Jobs run at once by this worker (default JOB_CONCURRENCY or 5) */
+  concurrency?: number;
+  /** Jobs running at once per tenant (default JOB_TENANT_CONCURRENCY or 2) */
+  tenantConcurrency?: number;
+  /** How often to poll for due jobs (default 1s) */
+  pollMs?: number;
+  /** Running jobs older than this are assumed lost (default 15 min) */
+  lockTimeoutMs?: number;
+}
+
+/** A claimed job with the retry settings the worker needs */
+interface ClaimedJob extends Job {
+  backoffMs: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BACKOFF_MS = 10 * 1000;
+/** Inserts tried before giving up on a unique key whose job keeps disappearing */
+const ENQUEUE_ATTEMPTS = 3;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+/** Fraction of a backoff delay that is randomized */
+const BACKOFF_JITTER = 0.25;
+const DEFAULT_CONCURRENCY = 5;
+const DEFAULT_TENANT_CONCURRENCY = 2;
+const DEFAULT_POLL_MS = 1000;
+const DEFAULT_LOCK_TIMEOUT_MS = 15 * 60 * 1000;
+/** How often stale locks are recovered and old completed jobs deleted */
+const MAINTENANCE_INTERVAL_MS = 60 * 1000;
+const COMPLETED_RETENTION_DAYS = 7;
+
+const JOB_COLUMNS = `id, name, tenant_id, payload, status, attempts, max_attempts, backoff_ms,
+  last_error, run_at, created_at, completed_at`;
+
+// ---------------------------------------------------------------------------
+// Handlers and schedules
+// ---------------------------------------------------------------------------
+
+const handlers = new Map<string, JobHandler<any>>();
+const schedules = new Map<string, { definition: JobScheduleDefinition; cron: CronSchedule }>();
+
+/**
+ * Registers the handler for a job name. Registering a name again replaces
+ * its handler. Workers only claim jobs that have a handler.
+ */
+export function registerJobHandler<P = Record<string, unknown>>(
+  name: string,
+  handler: JobHandler<P>
+): void {
+  handlers.set(name, handler);
+}
+
+/** Registers a cron schedule. Throws if the cron expression is invalid. */
+export function registerJobSchedule(definition: JobScheduleDefinition): void {
+  schedules.set(definition.name, { definition, cron: parseCron(definition.cron) });
+}
+
+/** Names of the registered job handlers */
+export function getJobHandlerNames(): string[] {
+  return [...handlers.keys()];
+}
+
+/** Reset handlers and schedules (for testing) */
+export function clearJobRegistry(): void {
+  handlers.clear();
+  schedules.clear();
+}
+
+// ---------------------------------------------------------------------------
+// Enqueue
+// ---------------------------------------------------------------------------
+
+/**
+ * Adds a job to the queue and returns its id. With a `uniqueKey` that is
+ * already queued, returns the existing job's id instead.
+ *
+ * Inside a transaction the job is inserted on it, so it is only queued if
+ * the transaction commits.
+ *
+ * @param tenantId - Tenant the job belongs to (null for platform-wide jobs)
+ */
+export async function enqueueJob(
+  tenantId: string | null,
+  name: string,
+  payload: Record<string, unknown> = {},
+  options: EnqueueOptions = {}
+): Promise<string> {
+  const runAt = options.runAt ?? new Date(Date.now() + (options.delayMs ?? 0));
+  const params = [
+    tenantId,
+    name,
+    JSON.stringify(payload),
+    runAt.toISOString(),
+    options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    options.backoffMs ?? DEFAULT_BACKOFF_MS,
+    options.uniqueKey ?? null,
+  ];
+
+  // The job holding the unique key can complete and be cleaned up between
+  // the insert and the lookup — then the key is free and the insert is retried
+  for (let attempt = 1; ; attempt++) {
+    const rows = await query(
+      `INSERT INTO jobs (tenant_id, name, payload, run_at, max_attempts, backoff_ms, unique_key)
+       VALUES ($1, $2, $3::jsonb, $4, $5, $6, $7)
+       ON CONFLICT (unique_key) WHERE unique_key IS NOT NULL DO NOTHING
+       RETURNING id`,
+      params
+    );
+    if (rows.length > 0) return rows[0].id as string;
+
+    const existing = await query(`SELECT id FROM jobs WHERE unique_key = $1`, [options.uniqueKey!]);
+    if (existing.length > 0) return existing[0].id as string;
+    if (attempt === ENQUEUE_ATTEMPTS) {
+      throw new Error(`Could not enqueue job "${name}" with unique key "${options.uniqueKey}"`);
+    }
+  }
+}
+
+/** Runs a query on the active transaction if there is one, else on the pool */
+async function query(text: string, params: unknown[]): Promise<Record<string, unknown>[]> {
+  const tx = getActiveTransaction();
+  if (!tx) return getDatabase().sql.unsafe(text, params as any[]);
+  return tx.db.execute(toDrizzleSql(text, params));
+}
+
+/** Turns `$n` placeholders and their values into a Drizzle query */
+function toDrizzleSql(text: string, params: unknown[]): SQL {
+  const parts = text.split(/\$(\d+)/);
+  return drizzleSql.join(
+    parts.map((part, i) => (i % 2 === 1 ? drizzleSql`${params[Number(part) - 1]}` : drizzleSql.raw(part)))
+  );
+}
+
+/** A JobQueue that enqueues for one tenant — what actions get as `ctx.jobs` */
+export function createJobQueue(tenantId: string | null): JobQueue {
+  return {
+    enqueue: (name, payload, options) => enqueueJob(tenantId, name, payload, options),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Inspection and dead letters
+// ---------------------------------------------------------------------------
+
+/** Lists a tenant's jobs, newest first — `status: "dead"` is the dead-letter queue */
+export async function listJobs(query: JobListQuery): Promise<JobListResult> {
+  const { sql } = getDatabase();
+  const conditions = ["tenant_id = $1"];
+  const params: unknown[] = [query.tenantId];
+  if (query.status) {
+    params.push(query.status);
+    conditions.push(`status = $${params.length}`);
+  }
+  if (query.name) {
+    params.push(query.name);
+    conditions.push(`name = $${params.length}`);
+  }
+  const where = conditions.join(" AND ");
+
+  const countRows = await sql.unsafe(
+    `SELECT COUNT(*)::int AS count FROM jobs WHERE ${where}`,
+    params as any[]
+  );
+  const rows = await sql.unsafe(
+    `SELECT ${JOB_COLUMNS} FROM jobs WHERE ${where}
+     ORDER BY created_at DESC
+     LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, query.limit ?? 50, query.offset ?? 0] as any[]
+  );
+
+  return { data: rows.map(mapJob), total: countRows[0].count };
+}
+
+/**
+ * Puts a dead-lettered job back in the queue with fresh attempts.
+ * Returns false when the tenant has no dead job with that id.
+ */
+export async function retryJob(tenantId: string, jobId: string): Promise<boolean> {
+  const { sql } = getDatabase();
+  const result = await sql.unsafe(
+    `UPDATE jobs
+     SET status = 'pending', attempts = 0, run_at = NOW(), last_error = NULL, updated_at = NOW()
+     WHERE id = $1 AND tenant_id = $2 AND status = 'dead'`,
+    [jobId, tenantId]
+  );
+  return result.count > 0;
+}
+
+// ---------------------------------------------------------------------------
+// Worker steps
+// ---------------------------------------------------------------------------
+
+/**
+ * Delay before the next attempt after `attempt` failed: exponential,
+ * capped, and jittered down by up to BACKOFF_JITTER.
+ *
+ * @param random - Source of randomness in [0, 1) (for testing)
+ */
+export function backoffDelay(
+  attempt: number,
+  baseMs: number = DEFAULT_BACKOFF_MS,
+  random: () => number = Math.random
+): number {
+  const delay = Math.min(baseMs * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+  return Math.round(delay * (1 - BACKOFF_JITTER * random()));
+}
+
+/**
+ * Claims the next due job with a registered handler, skipping tenants at
+ * their concurrency limit. Returns null when nothing is due.
+ */
+export async function claimJob(
+  workerId: string,
+  names: string[],
+  tenantConcurrency: number
+): Promise<ClaimedJob | null> {
+  if (names.length === 0) return null;
+  const { sql } = getDatabase();
+  const rows = await sql.unsafe(
+    `UPDATE jobs
+     SET status = 'running', attempts = attempts + 1, locked_by = $1, locked_at = NOW(), updated_at = NOW()
+     WHERE id = (
+       SELECT j.id FROM jobs j
+       WHERE j.status = 'pending' AND j.run_at <= NOW() AND j.name = ANY($2::text[])
+         AND (j.tenant_id IS NULL OR (
+           SELECT COUNT(*) FROM jobs r WHERE r.tenant_id = j.tenant_id AND r.status = 'running'
+         ) < $3)
+       ORDER BY j.run_at
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, name, tenant_id, payload, attempts, max_attempts, backoff_ms`,
+    [workerId, names, tenantConcurrency] as any[]
+  );
+  if (rows.length === 0) return null;
+
+  const row = rows[0];
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    tenantId: (row.tenant_id as string | null) ?? null,
+    payload: parsePayload(row.payload),
+    attempt: Number(row.attempts),
+    maxAttempts: Number(row.max_attempts),
+    backoffMs: Number(row.backoff_ms),
+  };
+}
+
+/**
+ * Runs a claimed job's handler and records the outcome: completed, back
+ * to pending after its backoff, or dead once its attempts are used up.
+ */
+export async function runJob(job: ClaimedJob): Promise<JobStatus> {
+  const { sql } = getDatabase();
+  const handler = handlers.get(job.name);
+
+  try {
+    if (!handler) throw new Error(`No handler registered for job "${job.name}"`);
+    // Events emitted by the job's actions are correlated by job id
+    await runWithEventTrace({ correlationId: job.id }, () => handler(job));
+    await sql.unsafe(
+      `UPDATE jobs SET status = 'completed', completed_at = NOW(), locked_by = NULL, locked_at = NULL,
+         updated_at = NOW()
+       WHERE id = $1`,
+      [job.id]
+    );
+    return "completed";
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const status: JobStatus = job.attempt >= job.maxAttempts ? "dead" : "pending";
+    const runAt = new Date(Date.now() + (status === "pending" ? backoffDelay(job.attempt, job.backoffMs) : 0));
+
+    await sql.unsafe(
+      `UPDATE jobs SET status = $2, run_at = $3, last_error = $4, locked_by = NULL, locked_at = NULL,
+         updated_at = NOW()
+       WHERE id = $1`,
+      [job.id, status, runAt.toISOString(), message]
+    );
+
+    if (status === "dead") {
+      console.error(`[jobs] ${job.name} (${job.id}) dead-lettered after ${job.attempt} attempt(s): ${message}`);
+    } else {
+      console.warn(`[jobs] ${job.name} (${job.id}) attempt ${job.attempt} failed, retrying at ${runAt.toISOString()}: ${message}`);
+    }
+    return status;
+  }
+}
+
+/**
+ * Enqueues every registered schedule whose next slot has come, and moves
+ * it to the following slot.
+ *
+ * @param nextRuns - Each schedule's next slot (kept by the worker)
+ */
+export async function enqueueDueSchedules(nextRuns: Map<string, Date>, now: Date = new Date()): Promise<void> {
+  for (const [name, { definition, cron }] of schedules) {
+    const slot = nextRuns.get(name) ?? nextCronRun(cron, now);
+    if (!nextRuns.has(name)) nextRuns.set(name, slot);
+    if (slot > now) continue;
+
+    await enqueueJob(null, definition.job, definition.payload ?? {}, {
+      uniqueKey: `schedule:${name}:${slot.toISOString()}`,
+      maxAttempts: definition.maxAttempts,
+    });
+    nextRuns.set(name, nextCronRun(cron, now));
+  }
+}
+
+/**
+ * Returns jobs whose worker stopped responding to the queue (or
+ * dead-letters them on their last attempt), and deletes completed jobs
+ * past retention.
+ */
+export async function recoverStaleJobs(lockTimeoutMs: number = DEFAULT_LOCK_TIMEOUT_MS): Promise<number> {
+  const { sql } = getDatabase();
+  const cutoff = new Date(Date.now() - lockTimeoutMs);
+  const recovered = await sql.unsafe(
+    `UPDATE jobs
+     SET status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'pending' END,
+         last_error = 'Worker stopped responding', locked_by = NULL, locked_at = NULL, updated_at = NOW()
+     WHERE status = 'running' AND locked_at < $1`,
+    [cutoff.toISOString()]
+  );
+  await sql.unsafe(
+    `DELETE FROM jobs WHERE status = 'completed' AND completed_at < NOW() - INTERVAL '${COMPLETED_RETENTION_DAYS} days'`
+  );
+  if (recovered.count > 0) {
+    console.warn(`[jobs] Recovered ${recovered.count} job(s) from unresponsive workers`);
+  }
+  return recovered.count;
+}
+
+// ---------------------------------------------------------------------------
+// Worker loop
+// ---------------------------------------------------------------------------
+
+/** Active worker state, if started */
+let worker: {
+  id: string;
+  timer: ReturnType<typeof setInterval>;
+  running: Set<Promise<unknown>>;
+  nextRuns: Map<string, Date>;
+  polling: boolean;
+  lastMaintenance: number;
+} | null = null;
+
+/**
+ * Starts polling the queue in this process. Call once — in the API server
+ * (unless a separate worker runs) or in the apps/api worker entrypoint.
+ */
+export function startJobWorker(options: JobWorkerOptions = {}): void {
+  if (worker) return;
+
+  const concurrency =
+    options.concurrency ?? Number(process.env.JOB_CONCURRENCY ?? DEFAULT_CONCURRENCY);
+  const tenantConcurrency =
+    options.tenantConcurrency ?? Number(process.env.JOB_TENANT_CONCURRENCY ?? DEFAULT_TENANT_CONCURRENCY);
+  const lockTimeoutMs = options.lockTimeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+
+  const state = {
+    id: options.workerId ?? `${hostname()}:${process.pid}`,
+    timer: undefined as unknown as ReturnType<typeof setInterval>,
+    running: new Set<Promise<unknown>>(),
+    nextRuns: new Map<string, Date>(),
+    polling: false,
+    lastMaintenance: 0,
+  };
+
+  const poll = async () => {
+    if (state.polling) return;
+    state.polling = true;
+    try {
+      if (Date.now() - state.lastMaintenance >= MAINTENANCE_INTERVAL_MS) {
+        state.lastMaintenance = Date.now();
+        await recoverStaleJobs(lockTimeoutMs);
+      }
+      await enqueueDueSchedules(state.nextRuns);
+
+      while (state.running.size < concurrency) {
+        const job = await claimJob(state.id, getJobHandlerNames(), tenantConcurrency);
+        if (!job) break;
+        const run: Promise<unknown> = runJob(job)
+          .catch((err) => console.error(`[jobs] Failed to record outcome of ${job.id}:`, err))
+          .finally(() => state.running.delete(run));
+        state.running.add(run);
+      }
+    } catch (err) {
+      console.error("[jobs] Poll failed:", err);
+    } finally {
+      state.polling = false;
+    }
+  };
+
+  state.timer = setInterval(poll, options.pollMs ?? DEFAULT_POLL_MS);
+  state.timer.unref();
+  worker = state;
+
+  console.log(
+    `[jobs] Worker ${state.id} started (concurrency ${concurrency}, per tenant ${tenantConcurrency})`
+  );
+}
+
+/** Stops polling and waits for the jobs in progress to finish */
+export async function stopJobWorker(): Promise<void> {
+  if (!worker) return;
+  const { timer, running } = worker;
+  worker = null;
+  clearInterval(timer);
+  await Promise.allSettled(running);
+}
+
+// ---------------------------------------------------------------------------
+// Row mapping
+// ---------------------------------------------------------------------------
+
+function parsePayload(value: unknown): Record<string, unknown> {
+  return (typeof value === "string" ? JSON.parse(value) : value ?? {}) as Record<string, unknown>;
+}
+
+function mapJob(row: Record<string, unknown>): JobRecord {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    tenantId: (row.tenant_id as string | null) ?? null,
+    payload: parsePayload(row.payload),
+    status: row.status as JobStatus,
+    attempt: Number(row.attempts),
+    maxAttempts: Number(row.max_attempts),
+    lastError: (row.last_error as string | null) ?? null,
+    runAt: new Date(row.run_at as string | Date).toISOString(),
+    createdAt: new Date(row.created_at as string | Date).toISOString(),
+    completedAt: row.completed_at ? new Date(row.completed_at as string | Date).toISOString() : null,
+  };
+}
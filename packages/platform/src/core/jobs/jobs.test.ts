@@ -0,0 +1,296 @@
+/**
+ * Job Queue Tests
+ *
+ * Tests enqueueing (delays, dedup keys, tenant scoping), claiming with
+ * per-tenant limits, retries with backoff, dead-lettering, and cron
+ * schedules with a mocked database.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+
+// Mock database
+const mockUnsafe = vi.fn();
+vi.mock("../database/connection.js", () => ({
+  getDatabase: () => ({ sql: { unsafe: mockUnsafe } }),
+}));
+
+// Mock transaction — set to run enqueueJob inside ctx.db.transaction
+let activeTx: { db: { execute: ReturnType<typeof vi.fn> } } | undefined;
+vi.mock("../database/client.js", () => ({
+  getActiveTransaction: () => activeTx,
+}));
+
+import {
+  enqueueJob,
+  createJobQueue,
+  registerJobHandler,
+  registerJobSchedule,
+  clearJobRegistry,
+  claimJob,
+  runJob,
+  backoffDelay,
+  enqueueDueSchedules,
+  listJobs,
+  retryJob,
+  recoverStaleJobs,
+} from "./index.js";
+
+const TENANT = "00000000-0000-4000-8000-000000000001";
+const JOB_ID = "11111111-1111-4111-8111-111111111111";
+
+/** A postgres.js-style result with an affected row count */
+function result(rows: Record<string, unknown>[] = [], count = rows.length) {
+  return Object.assign(rows, { count });
+}
+
+function claimed(attempt = 1, maxAttempts = 5) {
+  return {
+    id: JOB_ID,
+    name: "invoice.render",
+    tenantId: TENANT,
+    payload: { invoiceId: "inv-1" },
+    attempt,
+    maxAttempts,
+    backoffMs: 10_000,
+  };
+}
+
+describe("Job Queue", () => {
+  beforeEach(() => {
+    mockUnsafe.mockReset();
+    activeTx = undefined;
+    clearJobRegistry();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe("enqueueJob", () => {
+    it("inserts a job due after its delay", async () => {
+      vi.useFakeTimers({ now: new Date("2026-03-10T12:00:00Z") });
+      mockUnsafe.mockResolvedValueOnce(result([{ id: JOB_ID }]));
+
+      const id = await enqueueJob(TENANT, "invoice.render", { invoiceId: "inv-1" }, { delayMs: 60_000, maxAttempts: 3 });
+
+      expect(id).toBe(JOB_ID);
+      const [sql, params] = mockUnsafe.mock.calls[0];
+      expect(sql).toContain("INSERT INTO jobs");
+      expect(params).toEqual([
+        TENANT,
+        "invoice.render",
+        '{"invoiceId":"inv-1"}',
+        "2026-03-10T12:01:00.000Z",
+        3,
+        10_000,
+        null,
+      ]);
+    });
+
+    it("returns the existing job for a duplicate unique key", async () => {
+      mockUnsafe.mockResolvedValueOnce(result([])).mockResolvedValueOnce(result([{ id: JOB_ID }]));
+
+      const id = await enqueueJob(null, "digest.send", {}, { uniqueKey: "digest:2026-03-10" });
+
+      expect(id).toBe(JOB_ID);
+      expect(mockUnsafe.mock.calls[1][1]).toEqual(["digest:2026-03-10"]);
+    });
+
+    it("retries the insert when the job holding the unique key is gone", async () => {
+      mockUnsafe
+        .mockResolvedValueOnce(result([]))
+        .mockResolvedValueOnce(result([]))
+        .mockResolvedValueOnce(result([{ id: JOB_ID }]));
+
+      const id = await enqueueJob(null, "digest.send", {}, { uniqueKey: "digest:2026-03-10" });
+
+      expect(id).toBe(JOB_ID);
+      expect(mockUnsafe.mock.calls[2][0]).toContain("INSERT INTO jobs");
+    });
+
+    it("inserts on the active transaction", async () => {
+      vi.useFakeTimers({ now: new Date("2026-03-10T12:00:00Z") });
+      activeTx = { db: { execute: vi.fn().mockResolvedValue([{ id: JOB_ID }]) } };
+
+      const id = await enqueueJob(TENANT, "invoice.render", { invoiceId: "inv-1" });
+
+      expect(id).toBe(JOB_ID);
+      expect(mockUnsafe).not.toHaveBeenCalled();
+      const query = new PgDialect().sqlToQuery(activeTx.db.execute.mock.calls[0][0]);
+      expect(query.sql).toContain("VALUES ($1, $2, $3::jsonb, $4, $5, $6, $7)");
+      expect(query.params).toEqual([
+        TENANT,
+        "invoice.render",
+        '{"invoiceId":"inv-1"}',
+        "2026-03-10T12:00:00.000Z",
+        5,
+        10_000,
+        null,
+      ]);
+    });
+
+    it("scopes a job queue to its tenant", async () => {
+      mockUnsafe.mockResolvedValueOnce(result([{ id: JOB_ID }]));
+
+      await createJobQueue(TENANT).enqueue("invoice.render");
+
+      expect(mockUnsafe.mock.calls[0][1].slice(0, 3)).toEqual([TENANT, "invoice.render", "{}"]);
+    });
+  });
+
+  describe("claimJob", () => {
+    it("claims the next due job with a registered handler, within the tenant limit", async () => {
+      mockUnsafe.mockResolvedValueOnce(
+        result([
+          {
+            id: JOB_ID,
+            name: "invoice.render",
+            tenant_id: TENANT,
+            payload: { invoiceId: "inv-1" },
+            attempts: 1,
+            max_attempts: 5,
+            backoff_ms: 10_000,
+          },
+        ])
+      );
+
+      const job = await claimJob("worker-1", ["invoice.render"], 2);
+
+      expect(job).toEqual(claimed());
+      const [sql, params] = mockUnsafe.mock.calls[0];
+      expect(sql).toContain("FOR UPDATE SKIP LOCKED");
+      expect(sql).toContain("r.status = 'running'");
+      expect(params).toEqual(["worker-1", ["invoice.render"], 2]);
+    });
+
+    it("claims nothing without handlers", async () => {
+      expect(await claimJob("worker-1", [], 2)).toBeNull();
+      expect(mockUnsafe).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("runJob", () => {
+    it("completes a job whose handler succeeds", async () => {
+      const handler = vi.fn().mockResolvedValue(undefined);
+      registerJobHandler("invoice.render", handler);
+      mockUnsafe.mockResolvedValue(result());
+
+      expect(await runJob(claimed())).toBe("completed");
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({ payload: { invoiceId: "inv-1" } }));
+      expect(mockUnsafe.mock.calls[0][0]).toContain("status = 'completed'");
+    });
+
+    it("retries a failed job after its backoff", async () => {
+      vi.useFakeTimers({ now: new Date("2026-03-10T12:00:00Z") });
+      vi.spyOn(Math, "random").mockReturnValue(0);
+      registerJobHandler("invoice.render", async () => {
+        throw new Error("renderer down");
+      });
+      mockUnsafe.mockResolvedValue(result());
+
+      expect(await runJob(claimed(2))).toBe("pending");
+      expect(mockUnsafe.mock.calls[0][1]).toEqual([JOB_ID, "pending", "2026-03-10T12:00:20.000Z", "renderer down"]);
+    });
+
+    it("dead-letters a job on its last attempt", async () => {
+      registerJobHandler("invoice.render", async () => {
+        throw new Error("renderer down");
+      });
+      mockUnsafe.mockResolvedValue(result());
+
+      expect(await runJob(claimed(5, 5))).toBe("dead");
+      expect(mockUnsafe.mock.calls[0][1][1]).toBe("dead");
+    });
+
+    it("caps the backoff at an hour", () => {
+      const none = () => 0;
+      expect(backoffDelay(1, 10_000, none)).toBe(10_000);
+      expect(backoffDelay(3, 10_000, none)).toBe(40_000);
+      expect(backoffDelay(20, 10_000, none)).toBe(60 * 60 * 1000);
+    });
+
+    it("jitters the backoff down by up to a quarter", () => {
+      expect(backoffDelay(3, 10_000, () => 0.5)).toBe(35_000);
+      expect(backoffDelay(3, 10_000, () => 0.999)).toBeGreaterThan(30_000);
+    });
+  });
+
+  describe("schedules", () => {
+    it("enqueues each cron slot once, keyed by slot", async () => {
+      registerJobSchedule({ name: "nightly-digest", cron: "0 2 * * *", job: "digest.send" });
+      mockUnsafe.mockResolvedValue(result([{ id: JOB_ID }]));
+      const nextRuns = new Map<string, Date>();
+
+      await enqueueDueSchedules(nextRuns, new Date("2026-03-10T01:00:00Z"));
+      expect(mockUnsafe).not.toHaveBeenCalled();
+
+      await enqueueDueSchedules(nextRuns, new Date("2026-03-10T02:00:30Z"));
+      expect(mockUnsafe).toHaveBeenCalledTimes(1);
+      expect(mockUnsafe.mock.calls[0][1]).toEqual([
+        null,
+        "digest.send",
+        "{}",
+        expect.any(String),
+        5,
+        10_000,
+        "schedule:nightly-digest:2026-03-10T02:00:00.000Z",
+      ]);
+      expect(nextRuns.get("nightly-digest")?.toISOString()).toBe("2026-03-11T02:00:00.000Z");
+    });
+
+    it("rejects an invalid cron expression", () => {
+      expect(() => registerJobSchedule({ name: "bad", cron: "nightly", job: "digest.send" })).toThrow(
+        /Invalid cron expression/
+      );
+    });
+  });
+
+  describe("inspection", () => {
+    it("lists a tenant's dead letters", async () => {
+      mockUnsafe.mockResolvedValueOnce(result([{ count: 1 }])).mockResolvedValueOnce(
+        result([
+          {
+            id: JOB_ID,
+            name: "invoice.render",
+            tenant_id: TENANT,
+            payload: '{"invoiceId":"inv-1"}',
+            status: "dead",
+            attempts: 5,
+            max_attempts: 5,
+            last_error: "renderer down",
+            run_at: new Date("2026-03-10T12:00:00Z"),
+            created_at: new Date("2026-03-10T11:00:00Z"),
+            completed_at: null,
+          },
+        ])
+      );
+
+      const jobs = await listJobs({ tenantId: TENANT, status: "dead", limit: 10 });
+
+      expect(jobs.total).toBe(1);
+      expect(jobs.data[0]).toMatchObject({ status: "dead", attempt: 5, payload: { invoiceId: "inv-1" }, lastError: "renderer down" });
+      expect(mockUnsafe.mock.calls[1][1]).toEqual([TENANT, "dead", 10, 0]);
+    });
+
+    it("retries only the tenant's dead jobs", async () => {
+      mockUnsafe.mockResolvedValueOnce(result([], 1)).mockResolvedValueOnce(result([], 0));
+
+      expect(await retryJob(TENANT, JOB_ID)).toBe(true);
+      expect(await retryJob(TENANT, JOB_ID)).toBe(false);
+      expect(mockUnsafe.mock.calls[0][0]).toContain("status = 'dead'");
+      expect(mockUnsafe.mock.calls[0][1]).toEqual([JOB_ID, TENANT]);
+    });
+
+    it("recovers jobs from unresponsive workers", async () => {
+      mockUnsafe.mockResolvedValueOnce(result([], 2)).mockResolvedValueOnce(result());
+
+      expect(await recoverStaleJobs(60_000)).toBe(2);
+      expect(mockUnsafe.mock.calls[0][0]).toContain("WHEN attempts >= max_attempts THEN 'dead'");
+      expect(mockUnsafe.mock.calls[1][0]).toContain("DELETE FROM jobs WHERE status = 'completed'");
+    });
+  });
+});
@@ -284,7 +284,8 @@ export function initNotifications(): void {
         // Extract record data from the event payload (set by CRUD side effects)
         const result = event.payload?.result as Record<string, unknown> | undefined;
         const data = result?.data as Record<string, unknown> | undefined;
-        const tenantId = (data?.tenantId ?? event.payload?.tenantId) as string | undefined;
+        // Strictly the emitting tenant — never a tenant id found in the payload
+        const tenantId = event.tenantId;
         const userId = (data?.userId ?? event.payload?.userId) as string | undefined;
         if (!tenantId || !userId) return;
 
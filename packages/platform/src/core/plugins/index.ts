@@ -2,8 +2,8 @@
  * Plugin Host
  *
  * Provides the plugin contract for the open-core model.
- * Plugins register actions, event subscribers, and Fastify routes
- * at bootstrap time — before the REST adapter starts.
+ * Plugins register actions, event subscribers, job handlers, and Fastify
+ * routes at bootstrap time — before the REST adapter starts.
  *
  * The PRO repo uses this to add billing, SSO, white-label, and
  * advanced RBAC without forking the platform.
@@ -20,6 +20,7 @@ import { subscribe } from "../event-bus/index.js";
 import { isFeatureEnabled, type Feature } from "../licensing/index.js";
 import { getEntity, getAllEntities } from "../entity-manager/entity-registry.js";
 import { getDatabase } from "../database/connection.js";
+import { enqueueJob, registerJobHandler, registerJobSchedule } from "../jobs/index.js";
 import { createLogger } from "../action-bus/middleware/logging.js";
 
 // ---------------------------------------------------------------------------
@@ -58,6 +59,12 @@ export interface PluginContext {
   getAllEntities: typeof getAllEntities;
   /** Get the Drizzle database instance */
   getDatabase: typeof getDatabase;
+  /** Enqueue a background job */
+  enqueueJob: typeof enqueueJob;
+  /** Register the handler for a background job name */
+  registerJobHandler: typeof registerJobHandler;
+  /** Register a cron schedule that enqueues a job */
+  registerJobSchedule: typeof registerJobSchedule;
   /** Register a Fastify route handler (called later when the server is available) */
   registerRoutes: (handler: (fastify: FastifyInstance) => Promise<void>) => void;
   /** Structured logger scoped to this plugin */
@@ -117,6 +124,9 @@ export async function initPlugins(
         getEntity,
         getAllEntities,
         getDatabase,
+        enqueueJob,
+        registerJobHandler,
+        registerJobSchedule,
         registerRoutes: async (fn) => {
           pluginRoutes.push(fn);
         },
@@ -57,6 +57,9 @@ describe("Plugin Host", () => {
       expect(typeof capturedCtx!.getAllEntities).toBe("function");
       expect(typeof capturedCtx!.getDatabase).toBe("function");
       expect(typeof capturedCtx!.registerRoutes).toBe("function");
+      expect(typeof capturedCtx!.enqueueJob).toBe("function");
+      expect(typeof capturedCtx!.registerJobHandler).toBe("function");
+      expect(typeof capturedCtx!.registerJobSchedule).toBe("function");
       expect(typeof capturedCtx!.logger).toBe("object");
     });
 
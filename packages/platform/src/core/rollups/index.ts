@@ -0,0 +1,131 @@
+/**
+ * Rollup Fields
+ *
+ * Keeps rollup fields (see rollup.ts in contracts) up to date. A rollup on
+ * a parent entity aggregates the records of one of its hasMany
+ * relationships; whenever one of those records is written, the actions
+ * that wrote it call refreshRollups with the record as it was before and
+ * after, and every parent either version points at is re-aggregated:
+ *
+ *   create            → [created]
+ *   update            → [before, after]   (moves between parents refresh both)
+ *   delete / restore  → [record]
+ *   link / unlink     → [before, after]
+ *
+ * The parent is written directly through the DatabaseClient — no update
+ * action, no event, no version — after recomputing its computed fields,
+ * which may read the rollups. Rollups over the parent itself (a
+ * grandparent rolling up parents) are refreshed in turn.
+ *
+ * Usage:
+ *   const result = await ctx.db.create("Task", record);
+ *   await refreshRollups(ctx.db, "Task", [result]);
+ */
+
+import type { DatabaseClient, EntityDefinition, FieldDefinition, RollupDefinition } from "@metasaas/contracts";
+import { computeFields } from "@metasaas/contracts";
+import { getAllEntities } from "../entity-manager/entity-registry.js";
+import { resolveToManyRelationships } from "../database/relationships.js";
+import { fromColumnName } from "../database/schema-builder.js";
+
+/** How many levels of parents a refresh climbs */
+const MAX_DEPTH = 16;
+
+/** A rollup field that aggregates records of a given entity */
+export interface RollupDependency {
+  /** The entity declaring the rollup */
+  parent: EntityDefinition;
+  field: FieldDefinition;
+  rollup: RollupDefinition;
+  /** Field of the aggregated records that points at the parent (e.g. "projectId") */
+  foreignKey: string;
+}
+
+/** Every rollup field, on any registered entity, that aggregates records of `entityName` */
+export function rollupsOver(entityName: string): RollupDependency[] {
+  const dependencies: RollupDependency[] = [];
+  for (const parent of getAllEntities()) {
+    const rollupFields = parent.fields.filter((f) => f.rollup);
+    if (rollupFields.length === 0) continue;
+
+    const relationships = resolveToManyRelationships(parent);
+    for (const field of rollupFields) {
+      const rollup = field.rollup!;
+      const resolved = relationships.find(
+        (r) => r.foreignKey && (r.rel.as ?? r.rel.entity) === rollup.relationship
+      );
+      if (resolved?.rel.entity !== entityName) continue;
+      dependencies.push({ parent, field, rollup, foreignKey: fromColumnName(resolved.foreignKey!) });
+    }
+  }
+  return dependencies;
+}
+
+/**
+ * Initial values of an entity's rollup fields for a new record, which has
+ * no related records yet: 0 for count and sum, null otherwise.
+ */
+export function emptyRollups(entity: EntityDefinition): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const field of entity.fields) {
+    if (!field.rollup) continue;
+    values[field.name] = field.rollup.function === "count" || field.rollup.function === "sum" ? 0 : null;
+  }
+  return values;
+}
+
+/**
+ * Re-aggregates the rollups over `entityName` for every parent that one of
+ * `records` points at. Pass a record before and after a change so a record
+ * that moved refreshes both its old and its new parent.
+ */
+export async function refreshRollups(
+  db: DatabaseClient,
+  entityName: string,
+  records: (Record<string, unknown> | null | undefined)[],
+  depth = 0
+): Promise<void> {
+  // Guards against parent chains that loop back on themselves
+  if (depth >= MAX_DEPTH) return;
+
+  const dependencies = rollupsOver(entityName);
+  if (dependencies.length === 0) return;
+
+  // Group the rollups to recompute by parent record
+  const targets = new Map<string, { parent: EntityDefinition; id: string; dependencies: RollupDependency[] }>();
+  for (const dependency of dependencies) {
+    for (const record of records) {
+      const id = record?.[dependency.foreignKey];
+      if (typeof id !== "string") continue;
+      const key = `${dependency.parent.name}:${id}`;
+      const target = targets.get(key) ?? { parent: dependency.parent, id, dependencies: [] };
+      if (!target.dependencies.includes(dependency)) target.dependencies.push(dependency);
+      targets.set(key, target);
+    }
+  }
+
+  // Parents written at this level, by entity — refreshed as a batch so a
+  // grandparent sees all of them updated
+  const written = new Map<string, Record<string, unknown>[]>();
+
+  for (const { parent, id, dependencies: parentDependencies } of targets.values()) {
+    const before = await db.findById(parent.name, id);
+    if (!before) continue;
+
+    const values: Record<string, unknown> = {};
+    for (const { field, rollup, foreignKey } of parentDependencies) {
+      values[field.name] = await db.aggregate(entityName, rollup.function, rollup.field, {
+        ...rollup.filter,
+        [foreignKey]: id,
+      });
+    }
+    Object.assign(values, computeFields(parent, { ...before, ...values }));
+
+    const after = await db.update(parent.name, id, values);
+    written.set(parent.name, [...(written.get(parent.name) ?? []), before, after]);
+  }
+
+  for (const [parentName, parentRecords] of written) {
+    await refreshRollups(db, parentName, parentRecords, depth + 1);
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Rollup Fields — Test Suite
+ *
+ * Validates that rollups on a parent are refreshed when related records
+ * are created, updated, moved between parents, deleted and linked, that
+ * computed fields reading them follow, and that grandparents rolling up
+ * parents are refreshed in turn. Generated actions run directly against
+ * an in-memory DatabaseClient.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { defineEntity } from "@metasaas/contracts";
+import type { ActionContext, DatabaseClient, EntityDefinition, WhereClause } from "@metasaas/contracts";
+import { generateCRUDActions } from "../entity-manager/crud-generator.js";
+import { registerEntities, clearEntityRegistry } from "../entity-manager/entity-registry.js";
+import { registerActions, clearActionRegistry } from "../action-bus/registry.js";
+import { refreshRollups, rollupsOver, emptyRollups } from "./index.js";
+
+const ui = { icon: "x", listColumns: [], searchFields: [], defaultSort: { field: "createdAt", direction: "desc" as const } };
+
+const PortfolioEntity = defineEntity({
+  name: "Portfolio",
+  pluralName: "Portfolios",
+  description: "A group of projects",
+  fields: [
+    { name: "name", type: "text", required: true, description: "Name" },
+    { name: "openTasks", type: "number", required: false, description: "Open tasks", rollup: { relationship: "Project", function: "sum", field: "openTasks" } },
+  ],
+  relationships: [{ type: "hasMany", entity: "Project" }],
+  ui,
+});
+
+const ProjectEntity = defineEntity({
+  name: "Project",
+  pluralName: "Projects",
+  description: "A project",
+  fields: [
+    { name: "name", type: "text", required: true, description: "Name" },
+    { name: "budget", type: "number", required: true, description: "Budget in hours" },
+    { name: "openTasks", type: "number", required: false, description: "Open tasks", rollup: { relationship: "Task", function: "count", filter: { status: { ne: "done" } } } },
+    { name: "estimate", type: "number", required: false, description: "Total estimate", rollup: { relationship: "Task", function: "sum", field: "hours" } },
+    { name: "longestTask", type: "number", required: false, description: "Longest task", rollup: { relationship: "Task", function: "max", field: "hours" } },
+    { name: "remaining", type: "number", required: false, description: "Budget left", computed: "budget - estimate" },
+  ],
+  relationships: [{ type: "hasMany", entity: "Task" }, { type: "belongsTo", entity: "Portfolio" }],
+  ui,
+});
+
+const TaskEntity = defineEntity({
+  name: "Task",
+  pluralName: "Tasks",
+  description: "A task",
+  fields: [
+    { name: "title", type: "text", required: true, description: "Title" },
+    { name: "status", type: "enum", required: true, description: "Status", options: ["open", "done"] },
+    { name: "hours", type: "number", required: false, description: "Estimate in hours" },
+  ],
+  relationships: [{ type: "belongsTo", entity: "Project" }],
+  ui,
+});
+
+const PORTFOLIO = "00000000-0000-4000-8000-000000000001";
+const APOLLO = "00000000-0000-4000-8000-000000000002";
+const GEMINI = "00000000-0000-4000-8000-000000000003";
+
+/** Records per entity, keyed by id */
+let tables: Map<string, Map<string, Record<string, unknown>>>;
+
+const table = (entity: string) => {
+  if (!tables.has(entity)) tables.set(entity, new Map());
+  return tables.get(entity)!;
+};
+
+/** Equality and `ne` — all the filters these tests use */
+const matches = (record: Record<string, unknown>, where: WhereClause = {}) =>
+  Object.entries(where).every(([field, condition]) =>
+    condition && typeof condition === "object" && "ne" in condition
+      ? record[field] !== (condition as { ne: unknown }).ne
+      : record[field] === condition
+  );
+
+const db = {
+  findById: async (entity: string, id: string) => table(entity).get(id) ?? null,
+  create: async (entity: string, data: Record<string, unknown>) => {
+    const row = { id: crypto.randomUUID(), ...data };
+    table(entity).set(row.id, row);
+    return row;
+  },
+  update: async (entity: string, id: string, data: Record<string, unknown>) => {
+    const row = { ...table(entity).get(id), ...data };
+    table(entity).set(id, row);
+    return row;
+  },
+  delete: async (entity: string, id: string) => table(entity).delete(id),
+  link: async (_entity: string, _relation: string, id: string, relatedId: string) => {
+    table("Task").set(relatedId, { ...table("Task").get(relatedId), projectId: id });
+    return true;
+  },
+  aggregate: async (entity: string, fn: string, field: string | undefined, where?: WhereClause) => {
+    const rows = [...table(entity).values()].filter((r) => matches(r, where));
+    if (fn === "count") return rows.length;
+    const values = rows.map((r) => r[field!]).filter((v): v is number => typeof v === "number");
+    if (fn === "sum") return values.reduce((a, b) => a + b, 0);
+    return values.length ? Math[fn as "max" | "min"](...values) : null;
+  },
+} as unknown as DatabaseClient;
+
+const ctx = {
+  caller: { userId: "u1", tenantId: "t1", roles: ["admin"], type: "human" },
+  db,
+  emit: async () => {},
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+} as unknown as ActionContext;
+
+function run(entity: EntityDefinition, actionId: string, input: unknown) {
+  const action = generateCRUDActions(entity).find((a) => a.id === actionId)!;
+  return action.execute(action.inputSchema.parse(input), ctx) as Promise<Record<string, unknown>>;
+}
+
+beforeEach(() => {
+  clearEntityRegistry();
+  registerEntities([PortfolioEntity, ProjectEntity, TaskEntity]);
+  clearActionRegistry();
+  registerActions(generateCRUDActions(TaskEntity));
+  tables = new Map();
+  table("Portfolio").set(PORTFOLIO, { id: PORTFOLIO, name: "Space", openTasks: 0 });
+  for (const id of [APOLLO, GEMINI]) {
+    table("Project").set(id, { id, name: id, budget: 100, portfolioId: PORTFOLIO, ...emptyRollups(ProjectEntity) });
+  }
+});
+
+describe("rollupsOver", () => {
+  it("finds the rollups that aggregate an entity", () => {
+    expect(rollupsOver("Task").map((d) => `${d.parent.name}.${d.field.name} by ${d.foreignKey}`)).toEqual([
+      "Project.openTasks by projectId",
+      "Project.estimate by projectId",
+      "Project.longestTask by projectId",
+    ]);
+    expect(rollupsOver("Portfolio")).toEqual([]);
+  });
+});
+
+describe("rollup refresh", () => {
+  it("starts new parents at 0 for count and sum, null otherwise", async () => {
+    const project = await run(ProjectEntity, "project.create", { name: "Mercury", budget: 10, openTasks: 99 });
+    expect(project).toMatchObject({ openTasks: 0, estimate: 0, longestTask: null, remaining: 10 });
+  });
+
+  it("refreshes the parent, its computed fields and the grandparent on create", async () => {
+    await run(TaskEntity, "task.create", { title: "Design", status: "open", hours: 30, projectId: APOLLO });
+    await run(TaskEntity, "task.create", { title: "Build", status: "done", hours: 50, projectId: APOLLO });
+
+    expect(table("Project").get(APOLLO)).toMatchObject({ openTasks: 1, estimate: 80, longestTask: 50, remaining: 20 });
+    expect(table("Portfolio").get(PORTFOLIO)).toMatchObject({ openTasks: 1 });
+  });
+
+  it("refreshes both parents when a record moves, and on updates that change the filter", async () => {
+    const task = await run(TaskEntity, "task.create", { title: "Design", status: "open", hours: 30, projectId: APOLLO });
+
+    await run(TaskEntity, "task.update", { id: task.id, data: { projectId: GEMINI } });
+    expect(table("Project").get(APOLLO)).toMatchObject({ openTasks: 0, estimate: 0, longestTask: null });
+    expect(table("Project").get(GEMINI)).toMatchObject({ openTasks: 1, estimate: 30 });
+
+    await run(TaskEntity, "task.update", { id: task.id, data: { status: "done" } });
+    expect(table("Project").get(GEMINI)).toMatchObject({ openTasks: 0, estimate: 30 });
+  });
+
+  it("refreshes the parent on delete", async () => {
+    const task = await run(TaskEntity, "task.create", { title: "Design", status: "open", hours: 30, projectId: APOLLO });
+    await run(TaskEntity, "task.delete", { id: task.id });
+    expect(table("Project").get(APOLLO)).toMatchObject({ openTasks: 0, estimate: 0, remaining: 100 });
+  });
+
+  it("refreshes the old and new parent when a record is linked elsewhere", async () => {
+    const task = await run(TaskEntity, "task.create", { title: "Design", status: "open", hours: 30, projectId: APOLLO });
+    await run(ProjectEntity, "project.addTask", { id: GEMINI, taskId: task.id });
+
+    expect(table("Project").get(APOLLO)).toMatchObject({ openTasks: 0 });
+    expect(table("Project").get(GEMINI)).toMatchObject({ openTasks: 1 });
+  });
+
+  it("skips records without a parent", async () => {
+    const update = vi.spyOn(db, "update");
+    await refreshRollups(db, "Task", [{ id: "x", projectId: null }, null]);
+    expect(update).not.toHaveBeenCalled();
+    update.mockRestore();
+  });
+});
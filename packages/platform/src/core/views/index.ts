@@ -0,0 +1,322 @@
+/**
+ * Saved Views
+ *
+ * Named list configurations for an entity — filters, search, sort,
+ * columns and view mode — stored server-side per tenant and user.
+ * A view is private to its creator unless `shared`, in which case every
+ * member of the workspace can select it (only the creator can change or
+ * delete it). Each user can pick one visible view per entity as their
+ * default, which the list page opens with.
+ *
+ * A view overrides the entity's `ui.listColumns`, `ui.defaultSort` and
+ * `ui.defaultView` without touching the entity definition.
+ *
+ * Usage:
+ *   const errors = validateViewConfig(entity, config);
+ *   const view = await createView({ tenantId, userId, entity: "task", name: "My open tasks", config });
+ *   const views = await listViews(tenantId, userId, "task");
+ *   await setDefaultView(tenantId, userId, "task", view.id);
+ */
+
+import type { EntityDefinition } from "@metasaas/contracts";
+import { parseFilterQuery } from "@metasaas/contracts";
+import { getDatabase } from "../database/connection.js";
+import { getFilterableFields, getSortableFields } from "../database/filter.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ViewMode = "list" | "kanban" | "calendar";
+
+/** What a view applies to the list page. Every part is optional. */
+export interface SavedViewConfig {
+  /** Filter query parameters (REST list syntax, see contracts/filter.ts) */
+  filters?: Record<string, string>;
+  search?: string;
+  /** Overrides ui.defaultSort */
+  sort?: { field: string; direction: "asc" | "desc" };
+  /** Overrides ui.listColumns */
+  listColumns?: string[];
+  /** Overrides ui.defaultView */
+  view?: ViewMode;
+}
+
+export interface SavedView {
+  id: string;
+  /** Lowercase entity name, e.g. "task" */
+  entity: string;
+  name: string;
+  /** Creator of the view — the only user who can change it */
+  userId: string;
+  shared: boolean;
+  config: SavedViewConfig;
+  /** Whether the requesting user created the view (and so may change it) */
+  isOwner: boolean;
+  /** Whether this is the requesting user's default view */
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateViewInput {
+  tenantId: string;
+  userId: string;
+  entity: string;
+  name: string;
+  shared?: boolean;
+  config: SavedViewConfig;
+}
+
+export interface UpdateViewInput {
+  name?: string;
+  shared?: boolean;
+  config?: SavedViewConfig;
+}
+
+const VIEW_MODES: ViewMode[] = ["list", "kanban", "calendar"];
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Checks a view configuration against the entity: filters must parse,
+ * sort and column fields must exist, and the view mode must be one the
+ * entity supports. Returns the problems found (empty when valid).
+ */
+export function validateViewConfig(entity: EntityDefinition, config: unknown): string[] {
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    return ["config must be an object"];
+  }
+  const { filters, search, sort, listColumns, view } = config as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (filters !== undefined) {
+    if (!isStringRecord(filters)) {
+      errors.push("filters must map parameter names to strings");
+    } else {
+      const parsed = parseFilterQuery(filters, getFilterableFields(entity));
+      errors.push(...parsed.errors.map((e) => `filters: ${e.message}`));
+    }
+  }
+
+  if (search !== undefined && typeof search !== "string") {
+    errors.push("search must be a string");
+  }
+
+  if (sort !== undefined) {
+    const s = sort as { field?: unknown; direction?: unknown };
+    if (typeof s !== "object" || s === null || typeof s.field !== "string") {
+      errors.push("sort must be { field, direction }");
+    } else {
+      if (!getSortableFields(entity).includes(s.field)) {
+        errors.push(`sort: unknown field "${s.field}"`);
+      }
+      if (s.direction !== "asc" && s.direction !== "desc") {
+        errors.push(`sort: direction must be "asc" or "desc"`);
+      }
+    }
+  }
+
+  if (listColumns !== undefined) {
+    const known = new Set([
+      ...entity.fields.map((f) => f.name),
+      ...getSortableFields(entity),
+    ]);
+    if (!Array.isArray(listColumns) || listColumns.some((c) => typeof c !== "string")) {
+      errors.push("listColumns must be a list of field names");
+    } else {
+      for (const column of listColumns as string[]) {
+        if (!known.has(column)) errors.push(`listColumns: unknown field "${column}"`);
+      }
+    }
+  }
+
+  if (view !== undefined) {
+    if (!VIEW_MODES.includes(view as ViewMode)) {
+      errors.push(`view must be one of: ${VIEW_MODES.join(", ")}`);
+    } else if (view === "kanban" && !entity.ui.kanban?.groupBy) {
+      errors.push(`${entity.name} has no kanban view`);
+    } else if (view === "calendar" && !entity.ui.calendar?.dateField) {
+      errors.push(`${entity.name} has no calendar view`);
+    }
+  }
+
+  return errors;
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((v) => typeof v === "string")
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+const VIEW_COLUMNS = `v.id, v.entity, v.name, v.user_id, v.shared, v.config, v.created_at, v.updated_at`;
+
+/**
+ * Lists the views a user can select for an entity: their own and the
+ * workspace's shared ones, by name. `isDefault` marks the user's default.
+ */
+export async function listViews(
+  tenantId: string,
+  userId: string,
+  entity: string
+): Promise<SavedView[]> {
+  const { sql } = getDatabase();
+  const rows = await sql.unsafe(
+    `SELECT ${VIEW_COLUMNS}, (d.view_id IS NOT NULL) AS is_default
+     FROM saved_views v
+     LEFT JOIN saved_view_defaults d
+       ON d.view_id = v.id AND d.tenant_id = $1 AND d.user_id = $2
+     WHERE v.tenant_id = $1 AND v.entity = $3 AND (v.user_id = $2 OR v.shared)
+     ORDER BY v.name ASC`,
+    [tenantId, userId, entity]
+  );
+  return rows.map((row) => mapView(row, userId));
+}
+
+/** Gets a view the user can see (own or shared), or null */
+export async function getView(
+  tenantId: string,
+  userId: string,
+  viewId: string
+): Promise<SavedView | null> {
+  const { sql } = getDatabase();
+  const rows = await sql.unsafe(
+    `SELECT ${VIEW_COLUMNS}, (d.view_id IS NOT NULL) AS is_default
+     FROM saved_views v
+     LEFT JOIN saved_view_defaults d
+       ON d.view_id = v.id AND d.tenant_id = $1 AND d.user_id = $2
+     WHERE v.id = $3 AND v.tenant_id = $1 AND (v.user_id = $2 OR v.shared)`,
+    [tenantId, userId, viewId]
+  );
+  return rows.length > 0 ? mapView(rows[0], userId) : null;
+}
+
+/** Creates a view owned by the user */
+export async function createView(input: CreateViewInput): Promise<SavedView> {
+  const { sql } = getDatabase();
+  const rows = await sql.unsafe(
+    `INSERT INTO saved_views AS v (tenant_id, user_id, entity, name, shared, config)
+     VALUES ($1, $2, $3, $4, $5, $6::jsonb)
+     RETURNING ${VIEW_COLUMNS}, FALSE AS is_default`,
+    [
+      input.tenantId,
+      input.userId,
+      input.entity,
+      input.name,
+      input.shared ?? false,
+      JSON.stringify(input.config),
+    ]
+  );
+  return mapView(rows[0], input.userId);
+}
+
+/**
+ * Updates a view's name, sharing or configuration. Only the creator can
+ * update a view; returns null when it doesn't exist or isn't theirs.
+ */
+export async function updateView(
+  tenantId: string,
+  userId: string,
+  viewId: string,
+  changes: UpdateViewInput
+): Promise<SavedView | null> {
+  const { sql } = getDatabase();
+  const rows = await sql.unsafe(
+    `UPDATE saved_views AS v
+     SET name = COALESCE($4, v.name),
+         shared = COALESCE($5, v.shared),
+         config = COALESCE($6::jsonb, v.config),
+         updated_at = NOW()
+     WHERE v.id = $3 AND v.tenant_id = $1 AND v.user_id = $2
+     RETURNING ${VIEW_COLUMNS},
+       EXISTS (SELECT 1 FROM saved_view_defaults d
+               WHERE d.view_id = v.id AND d.tenant_id = $1 AND d.user_id = $2) AS is_default`,
+    [
+      tenantId,
+      userId,
+      viewId,
+      changes.name ?? null,
+      changes.shared ?? null,
+      changes.config ? JSON.stringify(changes.config) : null,
+    ]
+  );
+  return rows.length > 0 ? mapView(rows[0], userId) : null;
+}
+
+/**
+ * Deletes a view (creator only). Users who had it as their default fall
+ * back to the entity's own UI config.
+ */
+export async function deleteView(
+  tenantId: string,
+  userId: string,
+  viewId: string
+): Promise<boolean> {
+  const { sql } = getDatabase();
+  const result = await sql.unsafe(
+    `DELETE FROM saved_views WHERE id = $1 AND tenant_id = $2 AND user_id = $3`,
+    [viewId, tenantId, userId]
+  );
+  return result.count > 0;
+}
+
+/**
+ * Sets the user's default view for an entity, or clears it with null.
+ * Returns false when the view isn't visible to the user.
+ */
+export async function setDefaultView(
+  tenantId: string,
+  userId: string,
+  entity: string,
+  viewId: string | null
+): Promise<boolean> {
+  const { sql } = getDatabase();
+
+  if (viewId === null) {
+    await sql.unsafe(
+      `DELETE FROM saved_view_defaults WHERE tenant_id = $1 AND user_id = $2 AND entity = $3`,
+      [tenantId, userId, entity]
+    );
+    return true;
+  }
+
+  const view = await getView(tenantId, userId, viewId);
+  if (!view || view.entity !== entity) return false;
+
+  await sql.unsafe(
+    `INSERT INTO saved_view_defaults (tenant_id, user_id, entity, view_id)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (tenant_id, user_id, entity) DO UPDATE SET view_id = EXCLUDED.view_id`,
+    [tenantId, userId, entity, viewId]
+  );
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Row mapping
+// ---------------------------------------------------------------------------
+
+function mapView(row: Record<string, unknown>, userId: string): SavedView {
+  return {
+    id: row.id as string,
+    entity: row.entity as string,
+    name: row.name as string,
+    userId: row.user_id as string,
+    shared: Boolean(row.shared),
+    isOwner: row.user_id === userId,
+    config: (typeof row.config === "string" ? JSON.parse(row.config) : row.config ?? {}) as SavedViewConfig,
+    isDefault: Boolean(row.is_default),
+    createdAt: new Date(row.created_at as string | Date).toISOString(),
+    updatedAt: new Date(row.updated_at as string | Date).toISOString(),
+  };
+}
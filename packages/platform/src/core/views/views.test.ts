@@ -0,0 +1,170 @@
+/**
+ * Saved Views Tests
+ *
+ * Tests view config validation against an entity and the tenant/user
+ * scoping of view storage with a mocked database.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { defineEntity } from "@metasaas/contracts";
+
+// Mock database
+const mockUnsafe = vi.fn();
+vi.mock("../database/connection.js", () => ({
+  getDatabase: () => ({ sql: { unsafe: mockUnsafe } }),
+}));
+
+import {
+  validateViewConfig,
+  listViews,
+  createView,
+  updateView,
+  deleteView,
+  setDefaultView,
+} from "./index.js";
+
+const Task = defineEntity({
+  name: "Task",
+  pluralName: "Tasks",
+  description: "A task",
+  fields: [
+    { name: "title", type: "text", required: true, description: "Title" },
+    { name: "status", type: "enum", required: true, options: ["todo", "done"], description: "Status" },
+    { name: "dueDate", type: "date", required: false, description: "Due date" },
+    { name: "secret", type: "text", required: false, description: "Secret", sensitive: true },
+  ],
+  relationships: [{ type: "belongsTo", entity: "Project" }],
+  ui: {
+    icon: "check",
+    listColumns: ["title", "status"],
+    searchFields: ["title"],
+    defaultSort: { field: "title", direction: "asc" },
+    kanban: { groupBy: "status" },
+  },
+});
+
+const VIEW_ID = "22222222-2222-4222-8222-222222222222";
+
+const viewRow = {
+  id: VIEW_ID,
+  entity: "task",
+  name: "Open tasks",
+  user_id: "u1",
+  shared: true,
+  config: { filters: { status: "todo" }, view: "kanban" },
+  is_default: true,
+  created_at: new Date("2026-01-01T00:00:00Z"),
+  updated_at: new Date("2026-01-02T00:00:00Z"),
+};
+
+describe("Saved Views", () => {
+  beforeEach(() => {
+    mockUnsafe.mockReset();
+  });
+
+  describe("validateViewConfig", () => {
+    it("accepts a full configuration", () => {
+      expect(
+        validateViewConfig(Task, {
+          filters: { status: "todo", "dueDate[lt]": "2026-06-01", projectId: VIEW_ID },
+          search: "report",
+          sort: { field: "dueDate", direction: "desc" },
+          listColumns: ["title", "dueDate", "createdAt"],
+          view: "kanban",
+        })
+      ).toEqual([]);
+    });
+
+    it("reports invalid filters, sort, columns and view modes", () => {
+      const errors = validateViewConfig(Task, {
+        filters: { "title[gt]": "a", secret: "x" },
+        sort: { field: "secret", direction: "up" },
+        listColumns: ["title", "nope"],
+        view: "calendar",
+      });
+      expect(errors).toEqual([
+        expect.stringContaining('Operator "gt"'),
+        expect.stringContaining("Unknown filter field"),
+        'sort: unknown field "secret"',
+        'sort: direction must be "asc" or "desc"',
+        'listColumns: unknown field "nope"',
+        "Task has no calendar view",
+      ]);
+    });
+
+    it("rejects a config that isn't an object", () => {
+      expect(validateViewConfig(Task, "list")).toEqual(["config must be an object"]);
+    });
+  });
+
+  describe("storage", () => {
+    it("lists own and shared views with the caller's default", async () => {
+      mockUnsafe.mockResolvedValueOnce([viewRow]);
+
+      const views = await listViews("t1", "u2", "task");
+
+      const [sql, params] = mockUnsafe.mock.calls[0];
+      expect(sql).toContain("(v.user_id = $2 OR v.shared)");
+      expect(params).toEqual(["t1", "u2", "task"]);
+      expect(views).toEqual([
+        {
+          id: VIEW_ID,
+          entity: "task",
+          name: "Open tasks",
+          userId: "u1",
+          shared: true,
+          config: { filters: { status: "todo" }, view: "kanban" },
+          isOwner: false,
+          isDefault: true,
+          createdAt: "2026-01-01T00:00:00.000Z",
+          updatedAt: "2026-01-02T00:00:00.000Z",
+        },
+      ]);
+    });
+
+    it("stores the config as JSON", async () => {
+      mockUnsafe.mockResolvedValueOnce([{ ...viewRow, is_default: false }]);
+
+      await createView({
+        tenantId: "t1",
+        userId: "u1",
+        entity: "task",
+        name: "Open tasks",
+        config: { filters: { status: "todo" } },
+      });
+
+      expect(mockUnsafe.mock.calls[0][1]).toEqual([
+        "t1", "u1", "task", "Open tasks", false, '{"filters":{"status":"todo"}}',
+      ]);
+    });
+
+    it("only lets the creator update or delete a view", async () => {
+      mockUnsafe.mockResolvedValueOnce([]);
+      mockUnsafe.mockResolvedValueOnce(Object.assign([], { count: 0 }));
+
+      expect(await updateView("t1", "u2", VIEW_ID, { name: "Mine now" })).toBeNull();
+      expect(await deleteView("t1", "u2", VIEW_ID)).toBe(false);
+
+      expect(mockUnsafe.mock.calls[0][0]).toContain("v.user_id = $2");
+      expect(mockUnsafe.mock.calls[0][1].slice(0, 4)).toEqual(["t1", "u2", VIEW_ID, "Mine now"]);
+      expect(mockUnsafe.mock.calls[1][1]).toEqual([VIEW_ID, "t1", "u2"]);
+    });
+
+    it("sets a visible view as default and refuses others", async () => {
+      mockUnsafe.mockResolvedValueOnce([viewRow]).mockResolvedValueOnce([]);
+      expect(await setDefaultView("t1", "u2", "task", VIEW_ID)).toBe(true);
+      expect(mockUnsafe.mock.calls[1][0]).toContain("ON CONFLICT (tenant_id, user_id, entity)");
+
+      mockUnsafe.mockReset();
+      mockUnsafe.mockResolvedValueOnce([]);
+      expect(await setDefaultView("t1", "u2", "task", VIEW_ID)).toBe(false);
+      expect(mockUnsafe).toHaveBeenCalledTimes(1);
+    });
+
+    it("clears the default with null", async () => {
+      mockUnsafe.mockResolvedValueOnce([]);
+      expect(await setDefaultView("t1", "u2", "task", null)).toBe(true);
+      expect(mockUnsafe.mock.calls[0][0]).toContain("DELETE FROM saved_view_defaults");
+    });
+  });
+});
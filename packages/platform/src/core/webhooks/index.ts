@@ -7,14 +7,28 @@
  *
  * Features:
  *   - Register webhooks per event type (e.g., "task.created", "*")
- *   - Automatic retry with exponential backoff (3 attempts)
+ *   - Deliveries queued as background jobs (core/jobs): they survive
+ *     restarts and are retried with jittered exponential backoff
+ *   - Webhooks disabled after repeated consecutive failures, with an
+ *     in-app notification to the webhook's creator
+ *   - Delivery log with request/response bodies, manual redelivery and
+ *     test pings
  *   - Payload includes event type, data, and timestamp
+ *   - Deliveries signed with HMAC-SHA256 (X-MetaSAAS-Signature, see
+ *     signature.ts); secrets are generated on registration and can be
+ *     rotated with an overlap window during which both secrets sign
  *   - Persistent storage via PostgreSQL (webhooks + webhook_deliveries tables)
  *   - Graceful fallback to in-memory when database is unavailable (tests)
  */
 
 import { subscribe } from "../event-bus/index.js";
-import type { DomainEvent } from "@metasaas/contracts";
+import { matchesEventPattern } from "../event-bus/pattern.js";
+import type { DomainEvent, Job } from "@metasaas/contracts";
+import { enqueueJob, registerJobHandler } from "../jobs/index.js";
+import { sendNotification } from "../notifications/index.js";
+import { encryptValue, decryptValue } from "../encryption/index.js";
+import { mapSensitivePayload, REDACTED } from "../encryption/events.js";
+import { SIGNATURE_HEADER, buildSignatureHeader, generateWebhookSecret } from "./signature.js";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -22,36 +36,77 @@ import type { DomainEvent } from "@metasaas/contracts";
 
 export interface WebhookRegistration {
   id: string;
-  /** The event type to listen for (e.g., "task.created", "*" for all) */
+  /** The event type or pattern to listen for (e.g., "task.created", "task.*", "*" for all) */
   eventType: string;
   /** The URL to POST to when the event fires */
   url: string;
-  /** Optional secret for HMAC signature verification */
+  /** Secret for HMAC signature verification (see signature.ts) */
   secret?: string;
+  /** The secret replaced by the last rotation — still signs until it expires */
+  previousSecret?: string;
+  previousSecretExpiresAt?: Date;
   /** Whether this webhook is active */
   active: boolean;
   /** Tenant scope */
   tenantId: string;
+  /** User who registered the webhook — notified when it is disabled */
+  createdBy?: string;
+  /** Failed delivery attempts since the last success */
+  consecutiveFailures: number;
+  /** Why the webhook was disabled automatically, if it was */
+  disabledReason?: string;
   createdAt: Date;
 }
 
+/** What a caller supplies to register a webhook */
+export type WebhookInput = Pick<WebhookRegistration, "eventType" | "url" | "active" | "tenantId"> & {
+  /** Signing secret (generated when omitted) */
+  secret?: string;
+  createdBy?: string;
+};
+
+/** One HTTP attempt of a delivery */
 export interface WebhookDelivery {
   webhookId: string;
+  /** The X-MetaSAAS-Delivery id — shared by all attempts of one delivery */
+  deliveryId: string;
   eventType: string;
   url: string;
   status: "success" | "failed";
   statusCode?: number;
   attempt: number;
   error?: string;
+  /** The JSON body sent, with sensitive fields redacted (truncated to 16 KB) */
+  requestBody?: string;
+  /** The receiver's response body (truncated to 16 KB) */
+  responseBody?: string;
   timestamp: Date;
 }
 
+/** A webhook as returned by the API — secrets are only shown on create and rotate */
+export type PublicWebhook = Omit<WebhookRegistration, "secret" | "previousSecret">;
+
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
 
-const MAX_RETRIES = 3;
-const RETRY_DELAYS = [1000, 5000, 15000];
+/** Attempts per delivery — with the backoff, retries span about 15 minutes */
+const DELIVERY_MAX_ATTEMPTS = 6;
+const DELIVERY_BACKOFF_MS = 30 * 1000;
+/** Consecutive failed attempts (across deliveries) after which a webhook is disabled */
+const DISABLE_AFTER_FAILURES = 15;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const MAX_STORED_BODY = 16 * 1024;
+/** Event type of test pings */
+const PING_EVENT = "webhook.ping";
+/** Default time both secrets sign after a rotation */
+const DEFAULT_ROTATION_OVERLAP_MS = 24 * 60 * 60 * 1000;
+
+const WEBHOOK_COLUMNS = `id, tenant_id, event_type, url, secret, previous_secret,
+  previous_secret_expires_at, active, created_by, consecutive_failures, disabled_reason, created_at`;
+
+const DELIVERY_COLUMNS = `webhook_id, delivery_id, event_type, url, status, status_code, attempt, error,
+  request_body, response_body, created_at`;
 
 // ---------------------------------------------------------------------------
 // Database helpers — lazy import to avoid circular deps at module load
@@ -72,28 +127,34 @@ function getDb() {
 
 const memoryWebhooks = new Map<string, WebhookRegistration>();
 const memoryDeliveryLog: WebhookDelivery[] = [];
+/** Untruncated bodies of in-memory deliveries, by delivery id — for redelivery */
+const memoryDeliveryBodies = new Map<string, string>();
 const MAX_MEMORY_LOG = 1000;
 
 // ---------------------------------------------------------------------------
 // Public API — CRUD
 // ---------------------------------------------------------------------------
 
-export async function registerWebhook(
-  registration: Omit<WebhookRegistration, "id" | "createdAt">
-): Promise<WebhookRegistration> {
+/**
+ * Registers a webhook. A signing secret is generated unless one is given;
+ * the returned registration is the only place it is shown.
+ */
+export async function registerWebhook(registration: WebhookInput): Promise<WebhookRegistration> {
+  const secret = registration.secret ?? generateWebhookSecret();
   const pgSql = getDb();
 
   if (pgSql) {
     const rows = await pgSql.unsafe(
-      `INSERT INTO webhooks (tenant_id, event_type, url, secret, active)
-       VALUES ($1, $2, $3, $4, $5)
-       RETURNING id, tenant_id, event_type, url, secret, active, created_at`,
+      `INSERT INTO webhooks (tenant_id, event_type, url, secret, active, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING ${WEBHOOK_COLUMNS}`,
       [
         registration.tenantId,
         registration.eventType,
         registration.url,
-        registration.secret ?? null,
+        secret,
         registration.active,
+        registration.createdBy ?? null,
       ]
     );
     return rowToWebhook(rows[0]);
@@ -103,11 +164,13 @@ export async function registerWebhook(
   const id = crypto.randomUUID();
   const webhook: WebhookRegistration = {
     ...registration,
+    secret,
     id,
+    consecutiveFailures: 0,
     createdAt: new Date(),
   };
   memoryWebhooks.set(id, webhook);
-  return webhook;
+  return { ...webhook };
 }
 
 export async function removeWebhook(id: string): Promise<boolean> {
@@ -124,12 +187,103 @@ export async function removeWebhook(id: string): Promise<boolean> {
   return memoryWebhooks.delete(id);
 }
 
+/**
+ * Replaces a webhook's secret. The old secret keeps signing alongside the
+ * new one for `overlapMs`, so receivers can switch over without dropping
+ * deliveries. Returns the webhook with its new secret, or null when the
+ * tenant has no such webhook.
+ */
+export async function rotateWebhookSecret(
+  tenantId: string,
+  id: string,
+  overlapMs: number = DEFAULT_ROTATION_OVERLAP_MS
+): Promise<WebhookRegistration | null> {
+  const secret = generateWebhookSecret();
+  const expiresAt = new Date(Date.now() + overlapMs);
+  const pgSql = getDb();
+
+  if (pgSql) {
+    const rows = await pgSql.unsafe(
+      `UPDATE webhooks
+       SET previous_secret = secret, previous_secret_expires_at = $3, secret = $4, updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2
+       RETURNING ${WEBHOOK_COLUMNS}`,
+      [id, tenantId, expiresAt.toISOString(), secret]
+    );
+    return rows.length > 0 ? rowToWebhook(rows[0]) : null;
+  }
+
+  const webhook = memoryWebhooks.get(id);
+  if (!webhook || webhook.tenantId !== tenantId) return null;
+  webhook.previousSecret = webhook.secret;
+  webhook.previousSecretExpiresAt = expiresAt;
+  webhook.secret = secret;
+  return { ...webhook };
+}
+
+/** A tenant's webhook by id, or null */
+export async function getWebhook(tenantId: string, id: string): Promise<WebhookRegistration | null> {
+  const pgSql = getDb();
+
+  if (pgSql) {
+    const rows = await pgSql.unsafe(
+      `SELECT ${WEBHOOK_COLUMNS} FROM webhooks WHERE id = $1 AND tenant_id = $2`,
+      [id, tenantId]
+    );
+    return rows.length > 0 ? rowToWebhook(rows[0]) : null;
+  }
+
+  const webhook = memoryWebhooks.get(id);
+  return webhook && webhook.tenantId === tenantId ? { ...webhook } : null;
+}
+
+/**
+ * Enables or disables a webhook. Enabling clears the failure count and
+ * the reason it was disabled. Returns null when the tenant has no such webhook.
+ */
+export async function setWebhookActive(
+  tenantId: string,
+  id: string,
+  active: boolean
+): Promise<WebhookRegistration | null> {
+  const pgSql = getDb();
+
+  if (pgSql) {
+    const rows = await pgSql.unsafe(
+      `UPDATE webhooks
+       SET active = $3,
+           consecutive_failures = CASE WHEN $3 THEN 0 ELSE consecutive_failures END,
+           disabled_reason = CASE WHEN $3 THEN NULL ELSE disabled_reason END,
+           updated_at = NOW()
+       WHERE id = $1 AND tenant_id = $2
+       RETURNING ${WEBHOOK_COLUMNS}`,
+      [id, tenantId, active]
+    );
+    return rows.length > 0 ? rowToWebhook(rows[0]) : null;
+  }
+
+  const webhook = memoryWebhooks.get(id);
+  if (!webhook || webhook.tenantId !== tenantId) return null;
+  webhook.active = active;
+  if (active) {
+    webhook.consecutiveFailures = 0;
+    webhook.disabledReason = undefined;
+  }
+  return { ...webhook };
+}
+
+/** Strips secrets for API responses */
+export function toPublicWebhook(webhook: WebhookRegistration): PublicWebhook {
+  const { secret: _secret, previousSecret: _previous, ...rest } = webhook;
+  return rest;
+}
+
 export async function listWebhooks(tenantId: string): Promise<WebhookRegistration[]> {
   const pgSql = getDb();
 
   if (pgSql) {
     const rows = await pgSql.unsafe(
-      `SELECT id, tenant_id, event_type, url, secret, active, created_at
+      `SELECT ${WEBHOOK_COLUMNS}
        FROM webhooks
        WHERE tenant_id = $1
        ORDER BY created_at DESC`,
@@ -141,14 +295,15 @@ export async function listWebhooks(tenantId: string): Promise<WebhookRegistratio
   return Array.from(memoryWebhooks.values()).filter((w) => w.tenantId === tenantId);
 }
 
+/** The latest 100 delivery attempts, newest first */
 export async function getDeliveryLog(webhookId?: string): Promise<WebhookDelivery[]> {
   const pgSql = getDb();
 
   if (pgSql) {
     const query = webhookId
-      ? `SELECT webhook_id, event_type, url, status, status_code, attempt, error, created_at
+      ? `SELECT ${DELIVERY_COLUMNS}
          FROM webhook_deliveries WHERE webhook_id = $1 ORDER BY created_at DESC LIMIT 100`
-      : `SELECT webhook_id, event_type, url, status, status_code, attempt, error, created_at
+      : `SELECT ${DELIVERY_COLUMNS}
          FROM webhook_deliveries ORDER BY created_at DESC LIMIT 100`;
 
     const rows = webhookId
@@ -158,8 +313,8 @@ export async function getDeliveryLog(webhookId?: string): Promise<WebhookDeliver
     return rows.map(rowToDelivery);
   }
 
-  if (webhookId) return memoryDeliveryLog.filter((d) => d.webhookId === webhookId);
-  return [...memoryDeliveryLog];
+  const log = webhookId ? memoryDeliveryLog.filter((d) => d.webhookId === webhookId) : memoryDeliveryLog;
+  return log.slice(-100).reverse();
 }
 
 // ---------------------------------------------------------------------------
@@ -173,7 +328,14 @@ function rowToWebhook(row: Record<string, unknown>): WebhookRegistration {
     eventType: row.event_type as string,
     url: row.url as string,
     secret: (row.secret as string) || undefined,
+    previousSecret: (row.previous_secret as string) || undefined,
+    previousSecretExpiresAt: row.previous_secret_expires_at
+      ? new Date(row.previous_secret_expires_at as string)
+      : undefined,
     active: row.active as boolean,
+    createdBy: (row.created_by as string) || undefined,
+    consecutiveFailures: Number(row.consecutive_failures ?? 0),
+    disabledReason: (row.disabled_reason as string) || undefined,
     createdAt: new Date(row.created_at as string),
   };
 }
@@ -181,12 +343,15 @@ function rowToWebhook(row: Record<string, unknown>): WebhookRegistration {
 function rowToDelivery(row: Record<string, unknown>): WebhookDelivery {
   return {
     webhookId: row.webhook_id as string,
+    deliveryId: row.delivery_id as string,
     eventType: row.event_type as string,
     url: row.url as string,
     status: row.status as "success" | "failed",
     statusCode: row.status_code as number | undefined,
     attempt: row.attempt as number,
     error: (row.error as string) || undefined,
+    requestBody: (row.request_body as string | null) ?? undefined,
+    responseBody: (row.response_body as string | null) ?? undefined,
     timestamp: new Date(row.created_at as string),
   };
 }
@@ -195,84 +360,325 @@ function rowToDelivery(row: Record<string, unknown>): WebhookDelivery {
 // Delivery
 // ---------------------------------------------------------------------------
 
-async function deliverWebhook(
-  webhook: WebhookRegistration,
-  event: DomainEvent,
-  attempt: number = 1
-): Promise<void> {
-  const payload = JSON.stringify({
+/** Job that delivers one event to one webhook, retried with backoff */
+const WEBHOOK_DELIVER_JOB = "webhook.deliver";
+
+interface DeliveryJobPayload {
+  webhookId: string;
+  /** Sent as X-MetaSAAS-Delivery — the same on every attempt */
+  deliveryId: string;
+  eventType: string;
+  /**
+   * The JSON body, serialized once so every attempt sends the same bytes.
+   * Sensitive fields are encrypted while the job is queued (see sealBody).
+   */
+  body: string;
+}
+
+/** Outcome of one HTTP attempt */
+interface AttemptResult {
+  delivery: WebhookDelivery;
+  ok: boolean;
+  /** Network errors, timeouts, 429 and 5xx are retried; other 4xx are not */
+  retryable: boolean;
+}
+
+/** The secrets a delivery is signed with: current first, then a rotated one still in its overlap */
+export function signingSecrets(webhook: WebhookRegistration, now: Date = new Date()): string[] {
+  const secrets = webhook.secret ? [webhook.secret] : [];
+  if (webhook.previousSecret && webhook.previousSecretExpiresAt && webhook.previousSecretExpiresAt > now) {
+    secrets.push(webhook.previousSecret);
+  }
+  return secrets;
+}
+
+/** The JSON body delivered for a domain event */
+function buildEventBody(event: DomainEvent): string {
+  return JSON.stringify({
     event: event.type,
+    id: event.id,
     data: event.payload,
     timestamp: event.timestamp?.toISOString() ?? new Date().toISOString(),
+    actor: event.actor,
+    actionId: event.actionId,
+    correlationId: event.correlationId,
+    causationId: event.causationId,
   });
+}
 
+/**
+ * POSTs a body to a webhook once and logs the attempt, with request and
+ * response bodies. Each attempt is signed with a fresh timestamp.
+ */
+async function attemptDelivery(
+  webhook: WebhookRegistration,
+  eventType: string,
+  body: string,
+  deliveryId: string,
+  attempt: number
+): Promise<AttemptResult> {
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
-    "X-MetaSAAS-Event": event.type,
-    "X-MetaSAAS-Delivery": crypto.randomUUID(),
+    "X-MetaSAAS-Event": eventType,
+    "X-MetaSAAS-Delivery": deliveryId,
   };
+  const secrets = signingSecrets(webhook);
+  if (secrets.length > 0) {
+    headers[SIGNATURE_HEADER] = buildSignatureHeader(secrets, body, Math.floor(Date.now() / 1000));
+  }
+
+  const delivery: WebhookDelivery = {
+    webhookId: webhook.id,
+    deliveryId,
+    eventType,
+    url: webhook.url,
+    status: "failed",
+    attempt,
+    requestBody: truncateBody(redactBody(eventType, body)),
+    timestamp: new Date(),
+  };
+  let retryable = true;
 
   try {
     const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 10000);
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
 
-    const response = await fetch(webhook.url, {
-      method: "POST",
-      headers,
-      body: payload,
-      signal: controller.signal,
-    });
+    try {
+      const response = await fetch(webhook.url, {
+        method: "POST",
+        headers,
+        body,
+        signal: controller.signal,
+      });
+      delivery.status = response.ok ? "success" : "failed";
+      delivery.statusCode = response.status;
+      delivery.responseBody = truncateBody(await response.text().catch(() => ""));
+      retryable = response.status >= 500 || response.status === 429;
+    } finally {
+      clearTimeout(timeout);
+    }
+  } catch (error) {
+    delivery.error = error instanceof Error ? error.message : "Unknown error";
+  }
 
-    clearTimeout(timeout);
+  await logDelivery(delivery, body);
+  return { delivery, ok: delivery.status === "success", retryable };
+}
 
-    await logDelivery({
+/**
+ * Queues a delivery as a background job (see core/jobs) so it survives
+ * restarts and is retried with jittered backoff. Without a database
+ * (tests), delivers once inline. Returns the delivery id.
+ */
+async function queueDelivery(
+  webhook: WebhookRegistration,
+  eventType: string,
+  body: string,
+  deliveryId: string = crypto.randomUUID()
+): Promise<string> {
+  if (getDb()) {
+    const payload: DeliveryJobPayload = {
       webhookId: webhook.id,
-      eventType: event.type,
-      url: webhook.url,
-      status: response.ok ? "success" : "failed",
-      statusCode: response.status,
-      attempt,
-      timestamp: new Date(),
+      deliveryId,
+      eventType,
+      body: sealBody(eventType, body),
+    };
+    await enqueueJob(webhook.tenantId, WEBHOOK_DELIVER_JOB, { ...payload }, {
+      maxAttempts: DELIVERY_MAX_ATTEMPTS,
+      backoffMs: DELIVERY_BACKOFF_MS,
     });
+  } else {
+    const result = await attemptDelivery(webhook, eventType, body, deliveryId, 1);
+    await recordOutcome(webhook, result.ok);
+  }
+  return deliveryId;
+}
 
-    if (!response.ok && response.status >= 500 && attempt < MAX_RETRIES) {
-      await delay(RETRY_DELAYS[attempt - 1] ?? 15000);
-      return deliverWebhook(webhook, event, attempt + 1);
+/**
+ * Runs a delivery job. Webhooks removed or disabled since the job was
+ * queued are skipped. Throws on retryable failures so the queue retries.
+ * Exported for tests.
+ */
+export async function runDeliveryJob(job: Job<DeliveryJobPayload>): Promise<void> {
+  const { webhookId, deliveryId, eventType } = job.payload;
+  const webhook = job.tenantId ? await getWebhook(job.tenantId, webhookId) : null;
+  if (!webhook || !webhook.active) return;
+
+  const body = openBody(eventType, job.payload.body);
+  const result = await attemptDelivery(webhook, eventType, body, deliveryId, job.attempt);
+  const disabled = await recordOutcome(webhook, result.ok);
+
+  if (!result.ok && result.retryable && !disabled) {
+    const { statusCode, error } = result.delivery;
+    throw new Error(error ?? `Webhook responded with HTTP ${statusCode}`);
+  }
+}
+
+/**
+ * Tracks consecutive failed attempts — a success resets the count, and
+ * reaching DISABLE_AFTER_FAILURES disables the webhook. Returns true when
+ * the webhook was disabled.
+ */
+async function recordOutcome(webhook: WebhookRegistration, ok: boolean): Promise<boolean> {
+  const pgSql = getDb();
+  let failures: number;
+
+  if (pgSql) {
+    if (ok) {
+      await pgSql.unsafe(
+        `UPDATE webhooks SET consecutive_failures = 0 WHERE id = $1 AND consecutive_failures > 0`,
+        [webhook.id]
+      );
+      return false;
     }
-  } catch (error) {
-    await logDelivery({
-      webhookId: webhook.id,
-      eventType: event.type,
-      url: webhook.url,
-      status: "failed",
-      attempt,
-      error: error instanceof Error ? error.message : "Unknown error",
-      timestamp: new Date(),
+    const rows = await pgSql.unsafe(
+      `UPDATE webhooks SET consecutive_failures = consecutive_failures + 1 WHERE id = $1
+       RETURNING consecutive_failures`,
+      [webhook.id]
+    );
+    if (rows.length === 0) return false;
+    failures = rows[0].consecutive_failures as number;
+  } else {
+    const stored = memoryWebhooks.get(webhook.id);
+    if (!stored) return false;
+    stored.consecutiveFailures = ok ? 0 : stored.consecutiveFailures + 1;
+    failures = stored.consecutiveFailures;
+  }
+
+  if (ok || failures < DISABLE_AFTER_FAILURES) return false;
+  await disableWebhook(webhook, failures);
+  return true;
+}
+
+/** Disables a failing webhook and tells its owner */
+async function disableWebhook(webhook: WebhookRegistration, failures: number): Promise<void> {
+  const reason = `Disabled after ${failures} consecutive failed deliveries`;
+  const pgSql = getDb();
+
+  if (pgSql) {
+    // Only the attempt that flips the flag notifies
+    const rows = await pgSql.unsafe(
+      `UPDATE webhooks SET active = FALSE, disabled_reason = $2, updated_at = NOW()
+       WHERE id = $1 AND active = TRUE
+       RETURNING id`,
+      [webhook.id, reason]
+    );
+    if (rows.length === 0) return;
+  } else {
+    const stored = memoryWebhooks.get(webhook.id);
+    if (!stored?.active) return;
+    stored.active = false;
+    stored.disabledReason = reason;
+  }
+
+  console.warn(`[webhooks] ${webhook.id} (${webhook.url}): ${reason}`);
+  if (!webhook.createdBy) return;
+
+  try {
+    await sendNotification({
+      tenantId: webhook.tenantId,
+      userId: webhook.createdBy,
+      title: "Webhook disabled",
+      body:
+        `Deliveries to ${webhook.url} failed ${failures} times in a row, so the webhook ` +
+        `was disabled. Fix the endpoint, send a test ping, then enable it again.`,
+      type: "error",
     });
+  } catch (err) {
+    console.error(`[webhooks] Failed to notify owner of ${webhook.id}:`, err);
+  }
+}
 
-    if (attempt < MAX_RETRIES) {
-      await delay(RETRY_DELAYS[attempt - 1] ?? 15000);
-      return deliverWebhook(webhook, event, attempt + 1);
-    }
+/**
+ * Sends a `webhook.ping` event to a webhook right away (once, no retries)
+ * and returns the logged attempt. Works on disabled webhooks, so an
+ * endpoint can be checked before it is enabled again.
+ */
+export async function pingWebhook(tenantId: string, id: string): Promise<WebhookDelivery | null> {
+  const webhook = await getWebhook(tenantId, id);
+  if (!webhook) return null;
+
+  const deliveryId = crypto.randomUUID();
+  const body = JSON.stringify({
+    event: PING_EVENT,
+    id: deliveryId,
+    data: { webhookId: webhook.id },
+    timestamp: new Date().toISOString(),
+  });
+  const result = await attemptDelivery(webhook, PING_EVENT, body, deliveryId, 1);
+  return result.delivery;
+}
+
+/**
+ * Queues a logged delivery again with the same body and a new delivery id.
+ * The body is the untruncated one the original delivery job carried (the
+ * log only keeps a truncated copy). Returns the new delivery id, or null
+ * when the tenant has no such webhook or delivery, or the delivery's job
+ * has since been purged (completed jobs are kept for a week).
+ */
+export async function redeliverWebhook(
+  tenantId: string,
+  webhookId: string,
+  deliveryId: string
+): Promise<string | null> {
+  const webhook = await getWebhook(tenantId, webhookId);
+  if (!webhook) return null;
+
+  const original = await findDelivery(webhook, deliveryId);
+  if (!original) return null;
+
+  return queueDelivery(webhook, original.eventType, original.body);
+}
+
+/** A logged delivery's event type and untruncated body, or null */
+async function findDelivery(
+  webhook: WebhookRegistration,
+  deliveryId: string
+): Promise<{ eventType: string; body: string } | null> {
+  const pgSql = getDb();
+
+  if (pgSql) {
+    const [delivery] = await pgSql.unsafe(
+      `SELECT event_type FROM webhook_deliveries WHERE webhook_id = $1 AND delivery_id = $2 LIMIT 1`,
+      [webhook.id, deliveryId]
+    );
+    if (!delivery) return null;
+
+    const [job] = await pgSql.unsafe(
+      `SELECT payload->>'body' AS body FROM jobs
+       WHERE name = $1 AND tenant_id = $2 AND payload->>'deliveryId' = $3 LIMIT 1`,
+      [WEBHOOK_DELIVER_JOB, webhook.tenantId, deliveryId]
+    );
+    if (!job?.body) return null;
+    const eventType = delivery.event_type as string;
+    return { eventType, body: openBody(eventType, job.body as string) };
   }
+
+  const delivery = memoryDeliveryLog.find((d) => d.webhookId === webhook.id && d.deliveryId === deliveryId);
+  const body = memoryDeliveryBodies.get(deliveryId);
+  return delivery && body !== undefined ? { eventType: delivery.eventType, body } : null;
 }
 
-async function logDelivery(delivery: WebhookDelivery): Promise<void> {
+async function logDelivery(delivery: WebhookDelivery, body: string): Promise<void> {
   const pgSql = getDb();
 
   if (pgSql) {
     try {
       await pgSql.unsafe(
-        `INSERT INTO webhook_deliveries (webhook_id, event_type, url, status, status_code, attempt, error)
-         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        `INSERT INTO webhook_deliveries
+           (webhook_id, delivery_id, event_type, url, status, status_code, attempt, error, request_body, response_body)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
         [
           delivery.webhookId,
+          delivery.deliveryId,
           delivery.eventType,
           delivery.url,
           delivery.status,
           delivery.statusCode ?? null,
           delivery.attempt,
           delivery.error ?? null,
+          delivery.requestBody ?? null,
+          delivery.responseBody ?? null,
         ]
       );
     } catch {
@@ -283,34 +689,75 @@ async function logDelivery(delivery: WebhookDelivery): Promise<void> {
 
   // Fallback: in-memory
   memoryDeliveryLog.push(delivery);
+  memoryDeliveryBodies.set(delivery.deliveryId, body);
   if (memoryDeliveryLog.length > MAX_MEMORY_LOG) {
-    memoryDeliveryLog.splice(0, memoryDeliveryLog.length - MAX_MEMORY_LOG);
+    for (const dropped of memoryDeliveryLog.splice(0, memoryDeliveryLog.length - MAX_MEMORY_LOG)) {
+      memoryDeliveryBodies.delete(dropped.deliveryId);
+    }
+  }
+}
+
+/**
+ * The body as logged: values of the event entity's sensitive fields are
+ * replaced, so the delivery log never holds them in plaintext. The
+ * receiver still gets the full body.
+ */
+function redactBody(eventType: string, body: string): string {
+  return mapBodyData(eventType, body, () => REDACTED);
+}
+
+/** The body as queued in a delivery job, with sensitive fields encrypted */
+function sealBody(eventType: string, body: string): string {
+  return mapBodyData(eventType, body, encryptValue);
+}
+
+/** A queued body with its sensitive fields decrypted — the bytes to send */
+function openBody(eventType: string, body: string): string {
+  return mapBodyData(eventType, body, decryptValue);
+}
+
+/** Applies `fn` to the sensitive fields of a body's event `data` (see mapSensitivePayload) */
+function mapBodyData(eventType: string, body: string, fn: (value: unknown) => unknown): string {
+  let parsed: { data?: unknown };
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return body;
   }
+  const data = mapSensitivePayload(eventType, parsed?.data, fn);
+  return data === parsed?.data ? body : JSON.stringify({ ...parsed, data });
 }
 
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+/** Caps stored bodies so the delivery log stays small */
+function truncateBody(body: string): string {
+  return body.length > MAX_STORED_BODY ? `${body.slice(0, MAX_STORED_BODY)}…[truncated]` : body;
 }
 
 // ---------------------------------------------------------------------------
 // Internal helper — get active webhooks matching an event (for dispatch)
 // ---------------------------------------------------------------------------
 
-async function getMatchingWebhooks(eventType: string): Promise<WebhookRegistration[]> {
+/**
+ * The emitting tenant's active webhooks whose event pattern matches the
+ * event. Events without a tenant (platform-wide) match no webhooks.
+ */
+export async function getMatchingWebhooks(event: DomainEvent): Promise<WebhookRegistration[]> {
+  if (!event.tenantId) return [];
   const pgSql = getDb();
 
   if (pgSql) {
     const rows = await pgSql.unsafe(
-      `SELECT id, tenant_id, event_type, url, secret, active, created_at
-       FROM webhooks
-       WHERE active = TRUE AND (event_type = $1 OR event_type = '*')`,
-      [eventType]
+      `SELECT ${WEBHOOK_COLUMNS} FROM webhooks WHERE active = TRUE AND tenant_id = $1`,
+      [event.tenantId]
     );
-    return rows.map(rowToWebhook);
+    return rows.map(rowToWebhook).filter((w: WebhookRegistration) => matchesEventPattern(w.eventType, event.type));
   }
 
   return Array.from(memoryWebhooks.values()).filter(
-    (w) => w.active && (w.eventType === eventType || w.eventType === "*")
+    (w) =>
+      w.active &&
+      w.tenantId === event.tenantId &&
+      matchesEventPattern(w.eventType, event.type)
   );
 }
 
@@ -319,18 +766,27 @@ async function getMatchingWebhooks(eventType: string): Promise<WebhookRegistrati
 // ---------------------------------------------------------------------------
 
 /**
- * Initializes the webhook system by subscribing to the Event Bus.
- * Call once at startup.
+ * Initializes the webhook system: subscribes to the Event Bus and
+ * registers the delivery job handler. Call once at startup in every
+ * process that publishes events or runs jobs.
  */
 export function initWebhooks(): void {
+  registerJobHandler<DeliveryJobPayload>(WEBHOOK_DELIVER_JOB, runDeliveryJob);
+
   subscribe({
     name: "webhook-dispatcher",
     eventType: "*",
     async handler(event: DomainEvent) {
-      const matching = await getMatchingWebhooks(event.type);
-      await Promise.allSettled(
-        matching.map((w) => deliverWebhook(w, event))
-      );
+      const matching = await getMatchingWebhooks(event);
+      if (matching.length === 0) return;
+
+      const body = buildEventBody(event);
+      const results = await Promise.allSettled(matching.map((w) => queueDelivery(w, event.type, body)));
+      for (const result of results) {
+        if (result.status === "rejected") {
+          console.error(`[webhooks] Failed to queue delivery for ${event.type}:`, result.reason);
+        }
+      }
     },
   });
 }
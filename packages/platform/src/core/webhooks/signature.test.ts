@@ -0,0 +1,68 @@
+/**
+ * Webhook Signatures — Test Suite
+ *
+ * Validates signing and verification: the HMAC covers timestamp and body,
+ * old timestamps are rejected, and any of several secrets or signatures
+ * may match (rotation overlap).
+ */
+
+import { describe, it, expect } from "vitest";
+import { createHmac } from "node:crypto";
+import {
+  buildSignatureHeader,
+  computeWebhookSignature,
+  generateWebhookSecret,
+  verifyWebhookSignature,
+} from "./signature.js";
+
+const BODY = '{"event":"task.created","data":{"id":"1"}}';
+const NOW = new Date("2026-03-10T12:00:00Z");
+const T = Math.floor(NOW.getTime() / 1000);
+
+describe("webhook signatures", () => {
+  it("signs the timestamp and body with HMAC-SHA256", () => {
+    const expected = createHmac("sha256", "whsec_test").update(`${T}.${BODY}`).digest("hex");
+    expect(computeWebhookSignature("whsec_test", BODY, T)).toBe(expected);
+    expect(buildSignatureHeader(["whsec_test"], BODY, T)).toBe(`t=${T},v1=${expected}`);
+  });
+
+  it("verifies a valid signature", () => {
+    const header = buildSignatureHeader(["whsec_test"], BODY, T);
+    expect(verifyWebhookSignature({ payload: BODY, header, secret: "whsec_test", now: NOW })).toBe(true);
+    expect(verifyWebhookSignature({ payload: Buffer.from(BODY), header, secret: "whsec_test", now: NOW })).toBe(true);
+  });
+
+  it("rejects a tampered body, wrong secret or malformed header", () => {
+    const header = buildSignatureHeader(["whsec_test"], BODY, T);
+    expect(verifyWebhookSignature({ payload: BODY + " ", header, secret: "whsec_test", now: NOW })).toBe(false);
+    expect(verifyWebhookSignature({ payload: BODY, header, secret: "whsec_other", now: NOW })).toBe(false);
+    expect(verifyWebhookSignature({ payload: BODY, header: "v1=abc", secret: "whsec_test", now: NOW })).toBe(false);
+    expect(verifyWebhookSignature({ payload: BODY, header: undefined, secret: "whsec_test", now: NOW })).toBe(false);
+  });
+
+  it("rejects signatures outside the tolerance (replays)", () => {
+    const header = buildSignatureHeader(["whsec_test"], BODY, T - 301);
+    expect(verifyWebhookSignature({ payload: BODY, header, secret: "whsec_test", now: NOW })).toBe(false);
+    expect(
+      verifyWebhookSignature({ payload: BODY, header, secret: "whsec_test", now: NOW, toleranceSeconds: 600 })
+    ).toBe(true);
+  });
+
+  it("accepts either secret during a rotation overlap", () => {
+    const header = buildSignatureHeader(["whsec_new", "whsec_old"], BODY, T);
+    expect(verifyWebhookSignature({ payload: BODY, header, secret: "whsec_old", now: NOW })).toBe(true);
+    expect(verifyWebhookSignature({ payload: BODY, header, secret: "whsec_new", now: NOW })).toBe(true);
+    expect(
+      verifyWebhookSignature({
+        payload: BODY,
+        header: buildSignatureHeader(["whsec_new"], BODY, T),
+        secret: ["whsec_old", "whsec_new"],
+        now: NOW,
+      })
+    ).toBe(true);
+  });
+
+  it("generates distinct secrets", () => {
+    expect(generateWebhookSecret()).not.toBe(generateWebhookSecret());
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Webhook Signatures
+ *
+ * Every delivery to a webhook with a secret carries:
+ *
+ *   X-MetaSAAS-Signature: t=1760000000,v1=5257a8...
+ *
+ * where `t` is the Unix time of the attempt and each `v1` is the hex
+ * HMAC-SHA256 of `${t}.${body}` keyed with a webhook secret. While a
+ * rotated secret is still in its overlap window the header carries one
+ * `v1` per secret, so receivers can switch secrets without dropping
+ * deliveries.
+ *
+ * Receivers verify with `verifyWebhookSignature` (exported from the
+ * platform) or by recomputing the HMAC themselves. The timestamp bounds
+ * replays: signatures older than the tolerance are rejected, and the
+ * X-MetaSAAS-Delivery id (stable across retries) lets receivers drop
+ * duplicates within it.
+ *
+ * Usage (receiver):
+ *   const ok = verifyWebhookSignature({
+ *     payload: rawBody,                                   // exact bytes received
+ *     header: req.headers["x-metasaas-signature"],
+ *     secret: process.env.METASAAS_WEBHOOK_SECRET,
+ *   });
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+export const SIGNATURE_HEADER = "X-MetaSAAS-Signature";
+
+/** Default age after which a signature is rejected as a possible replay */
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+export interface VerifyWebhookSignatureOptions {
+  /** The raw request body, exactly as received */
+  payload: string | Buffer;
+  /** The X-MetaSAAS-Signature header value */
+  header: string | string[] | undefined;
+  /** The webhook secret — pass both during your own secret rollover */
+  secret: string | string[];
+  /** Maximum signature age in seconds (default 300) */
+  toleranceSeconds?: number;
+  /** Current time (for testing) */
+  now?: Date;
+}
+
+/** Generates a new webhook signing secret */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(32).toString("base64url")}`;
+}
+
+/** Hex HMAC-SHA256 of `${timestamp}.${payload}` */
+export function computeWebhookSignature(
+  secret: string,
+  payload: string | Buffer,
+  timestamp: number
+): string {
+  return createHmac("sha256", secret).update(`${timestamp}.`).update(payload).digest("hex");
+}
+
+/**
+ * Builds the X-MetaSAAS-Signature header value, with one signature per
+ * secret (the current one first).
+ */
+export function buildSignatureHeader(
+  secrets: string[],
+  payload: string,
+  timestamp: number
+): string {
+  return [`t=${timestamp}`, ...secrets.map((s) => `v1=${computeWebhookSignature(s, payload, timestamp)}`)].join(",");
+}
+
+/**
+ * Checks an X-MetaSAAS-Signature header against the raw body. True when
+ * the timestamp is within the tolerance and any `v1` signature matches
+ * any of the given secrets. Never throws on malformed headers.
+ */
+export function verifyWebhookSignature(options: VerifyWebhookSignatureOptions): boolean {
+  const header = Array.isArray(options.header) ? options.header[0] : options.header;
+  if (!header) return false;
+
+  let timestamp: number | undefined;
+  const signatures: string[] = [];
+  for (const part of header.split(",")) {
+    const [key, value] = part.trim().split("=", 2);
+    if (key === "t") timestamp = Number(value);
+    else if (key === "v1" && value) signatures.push(value);
+  }
+  if (timestamp === undefined || !Number.isInteger(timestamp) || signatures.length === 0) return false;
+
+  const now = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  const tolerance = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  if (Math.abs(now - timestamp) > tolerance) return false;
+
+  const secrets = Array.isArray(options.secret) ? options.secret : [options.secret];
+  return secrets.some((secret) => {
+    const expected = Buffer.from(computeWebhookSignature(secret, options.payload, timestamp!), "hex");
+    return signatures.some((signature) => {
+      const given = Buffer.from(signature, "hex");
+      return given.length === expected.length && timingSafeEqual(given, expected);
+    });
+  });
+}
@@ -1,18 +1,38 @@
 /**
  * Webhook System — Test Suite
  *
- * Validates registration, removal, listing, delivery log, and edge cases.
+ * Validates registration, removal, listing, delivery log, tenant routing,
+ * delivery jobs (retries, auto-disable, redelivery, pings) and edge cases.
  * All functions are async; the in-memory fallback is used automatically
  * because getDatabase() is not initialized in the test environment.
  */
 
 import { describe, it, expect, beforeEach, vi } from "vitest";
+
+const mockSendNotification = vi.fn();
+vi.mock("../notifications/index.js", () => ({
+  sendNotification: (...args: unknown[]) => mockSendNotification(...args),
+}));
+
 import {
   registerWebhook,
   removeWebhook,
   listWebhooks,
   getDeliveryLog,
+  getMatchingWebhooks,
+  rotateWebhookSecret,
+  signingSecrets,
+  toPublicWebhook,
+  runDeliveryJob,
+  setWebhookActive,
+  pingWebhook,
+  redeliverWebhook,
+  type WebhookRegistration,
 } from "./index.js";
+import { verifyWebhookSignature } from "./signature.js";
+import { registerEntity, clearEntityRegistry } from "../entity-manager/entity-registry.js";
+import { setEncryptionKeys, encryptValue, resetEncryption } from "../encryption/index.js";
+import { defineEntity } from "@metasaas/contracts";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -25,11 +45,38 @@ function makeRegistration(overrides: Partial<Parameters<typeof registerWebhook>[
     active: overrides.active ?? true,
     tenantId: overrides.tenantId ?? `tenant-${Date.now()}-${Math.random()}`,
     secret: overrides.secret,
+    createdBy: overrides.createdBy,
+  };
+}
+
+/** A delivery job for a webhook, as the job queue would hand it over */
+function deliveryJob(webhook: WebhookRegistration, attempt = 1) {
+  return {
+    id: crypto.randomUUID(),
+    name: "webhook.deliver",
+    tenantId: webhook.tenantId,
+    payload: {
+      webhookId: webhook.id,
+      deliveryId: crypto.randomUUID(),
+      eventType: "task.created",
+      body: '{"event":"task.created","data":{"id":"t-1"}}',
+    },
+    attempt,
+    maxAttempts: 6,
   };
 }
 
+/** Stubs fetch with a fixed response */
+function stubFetch(status: number, body = "") {
+  const fetchMock = vi.fn().mockImplementation(async () => new Response(body, { status }));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
 beforeEach(() => {
   vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  mockSendNotification.mockReset();
 });
 
 // ---------------------------------------------------------------------------
@@ -129,9 +176,9 @@ describe("optional secret", () => {
     expect(wh.secret).toBe("my-secret");
   });
 
-  it("secret is undefined when not provided", async () => {
+  it("generates a secret when not provided", async () => {
     const wh = await registerWebhook(makeRegistration());
-    expect(wh.secret).toBeUndefined();
+    expect(wh.secret).toMatch(/^whsec_/);
   });
 });
 
@@ -145,3 +192,247 @@ describe("inactive webhooks", () => {
     expect(list.find((w) => w.id === wh.id)?.active).toBe(false);
   });
 });
+
+describe("tenant routing", () => {
+  it("matches only the emitting tenant's webhooks", async () => {
+    const tenantA = `tenant-route-a-${Date.now()}`;
+    const tenantB = `tenant-route-b-${Date.now()}`;
+    const a = await registerWebhook(makeRegistration({ eventType: "invoice.paid", tenantId: tenantA }));
+    const wildcard = await registerWebhook(makeRegistration({ eventType: "*", tenantId: tenantA }));
+    await registerWebhook(makeRegistration({ eventType: "invoice.paid", tenantId: tenantB }));
+
+    const matching = await getMatchingWebhooks({ type: "invoice.paid", payload: {}, tenantId: tenantA });
+
+    expect(matching.map((w) => w.id).sort()).toEqual([a.id, wildcard.id].sort());
+  });
+
+  it("matches webhooks by event pattern", async () => {
+    const tenant = `tenant-pattern-${Date.now()}`;
+    const tasks = await registerWebhook(makeRegistration({ eventType: "task.*", tenantId: tenant }));
+    const creates = await registerWebhook(makeRegistration({ eventType: "*.created", tenantId: tenant }));
+
+    const matching = await getMatchingWebhooks({ type: "task.updated", payload: {}, tenantId: tenant });
+
+    expect(matching.map((w) => w.id)).toEqual([tasks.id]);
+    expect((await getMatchingWebhooks({ type: "contact.created", payload: {}, tenantId: tenant })).map((w) => w.id)).toEqual([creates.id]);
+  });
+
+  it("matches no webhooks for events without a tenant", async () => {
+    await registerWebhook(makeRegistration({ eventType: "*" }));
+    expect(await getMatchingWebhooks({ type: "invoice.paid", payload: {} })).toEqual([]);
+  });
+});
+
+describe("secret rotation", () => {
+  it("signs with both secrets until the overlap ends", async () => {
+    const tenant = `tenant-rotate-${Date.now()}`;
+    const wh = await registerWebhook(makeRegistration({ tenantId: tenant }));
+
+    const rotated = await rotateWebhookSecret(tenant, wh.id, 60_000);
+
+    expect(rotated!.secret).not.toBe(wh.secret);
+    expect(rotated!.previousSecret).toBe(wh.secret);
+    expect(signingSecrets(rotated!)).toEqual([rotated!.secret, wh.secret]);
+    expect(signingSecrets(rotated!, new Date(Date.now() + 120_000))).toEqual([rotated!.secret]);
+  });
+
+  it("only rotates the tenant's own webhooks", async () => {
+    const wh = await registerWebhook(makeRegistration());
+    expect(await rotateWebhookSecret("another-tenant", wh.id)).toBeNull();
+  });
+
+  it("strips secrets from public views", async () => {
+    const wh = await registerWebhook(makeRegistration());
+    const view = toPublicWebhook(wh);
+    expect(view).not.toHaveProperty("secret");
+    expect(view).not.toHaveProperty("previousSecret");
+    expect(view.id).toBe(wh.id);
+  });
+});
+
+describe("delivery jobs", () => {
+  it("signs the body and logs the request and response", async () => {
+    const wh = await registerWebhook(makeRegistration());
+    const fetchMock = stubFetch(200, "ok");
+    const job = deliveryJob(wh);
+
+    await runDeliveryJob(job);
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.headers["X-MetaSAAS-Delivery"]).toBe(job.payload.deliveryId);
+    expect(
+      verifyWebhookSignature({ payload: init.body, header: init.headers["X-MetaSAAS-Signature"], secret: wh.secret! })
+    ).toBe(true);
+
+    const [logged] = await getDeliveryLog(wh.id);
+    expect(logged).toMatchObject({
+      deliveryId: job.payload.deliveryId,
+      status: "success",
+      statusCode: 200,
+      requestBody: job.payload.body,
+      responseBody: "ok",
+    });
+  });
+
+  it("throws on server errors so the job is retried, but not on client errors", async () => {
+    const wh = await registerWebhook(makeRegistration());
+
+    stubFetch(503, "unavailable");
+    await expect(runDeliveryJob(deliveryJob(wh, 2))).rejects.toThrow(/HTTP 503/);
+
+    stubFetch(410, "gone");
+    await expect(runDeliveryJob(deliveryJob(wh))).resolves.toBeUndefined();
+
+    expect((await getDeliveryLog(wh.id)).map((d) => d.statusCode)).toEqual([410, 503]);
+  });
+
+  it("disables the webhook after repeated failures and notifies its creator once", async () => {
+    const tenant = `tenant-disable-${Date.now()}`;
+    const wh = await registerWebhook(makeRegistration({ tenantId: tenant, createdBy: "user-1" }));
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const fetchMock = stubFetch(500);
+
+    for (let i = 0; i < 14; i++) {
+      await expect(runDeliveryJob(deliveryJob(wh))).rejects.toThrow();
+    }
+    // The 15th consecutive failure disables instead of retrying
+    await expect(runDeliveryJob(deliveryJob(wh))).resolves.toBeUndefined();
+
+    const [stored] = await listWebhooks(tenant);
+    expect(stored.active).toBe(false);
+    expect(stored.disabledReason).toMatch(/15 consecutive failed deliveries/);
+    expect(mockSendNotification).toHaveBeenCalledTimes(1);
+    expect(mockSendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ tenantId: tenant, userId: "user-1", type: "error" })
+    );
+
+    // Queued deliveries for a disabled webhook are skipped
+    await runDeliveryJob(deliveryJob(wh));
+    expect(fetchMock).toHaveBeenCalledTimes(15);
+
+    const enabled = await setWebhookActive(tenant, wh.id, true);
+    expect(enabled).toMatchObject({ active: true, consecutiveFailures: 0, disabledReason: undefined });
+  });
+
+  it("resets the failure count after a success", async () => {
+    const tenant = `tenant-reset-${Date.now()}`;
+    const wh = await registerWebhook(makeRegistration({ tenantId: tenant }));
+
+    stubFetch(500);
+    await expect(runDeliveryJob(deliveryJob(wh))).rejects.toThrow();
+    expect((await listWebhooks(tenant))[0].consecutiveFailures).toBe(1);
+
+    stubFetch(202);
+    await runDeliveryJob(deliveryJob(wh));
+    expect((await listWebhooks(tenant))[0].consecutiveFailures).toBe(0);
+  });
+});
+
+describe("redelivery and pings", () => {
+  it("redelivers a logged delivery with the same body and a new delivery id", async () => {
+    const tenant = `tenant-redeliver-${Date.now()}`;
+    const wh = await registerWebhook(makeRegistration({ tenantId: tenant }));
+    stubFetch(500);
+    const job = deliveryJob(wh);
+    await expect(runDeliveryJob(job)).rejects.toThrow();
+
+    const fetchMock = stubFetch(200);
+    const deliveryId = await redeliverWebhook(tenant, wh.id, job.payload.deliveryId);
+
+    expect(deliveryId).not.toBeNull();
+    expect(deliveryId).not.toBe(job.payload.deliveryId);
+    expect(fetchMock.mock.calls[0][1].body).toBe(job.payload.body);
+    expect(await redeliverWebhook("another-tenant", wh.id, job.payload.deliveryId)).toBeNull();
+    expect(await redeliverWebhook(tenant, wh.id, crypto.randomUUID())).toBeNull();
+  });
+
+  it("redelivers the untruncated body of a large payload", async () => {
+    const tenant = `tenant-redeliver-large-${Date.now()}`;
+    const wh = await registerWebhook(makeRegistration({ tenantId: tenant }));
+    const job = deliveryJob(wh);
+    job.payload.body = JSON.stringify({ event: "task.created", data: { notes: "x".repeat(20 * 1024) } });
+    stubFetch(200);
+    await runDeliveryJob(job);
+    expect((await getDeliveryLog(wh.id))[0].requestBody).toMatch(/…\[truncated\]$/);
+
+    const fetchMock = stubFetch(200);
+    await redeliverWebhook(tenant, wh.id, job.payload.deliveryId);
+
+    expect(fetchMock.mock.calls[0][1].body).toBe(job.payload.body);
+  });
+
+  it("redacts sensitive fields in the logged body but delivers them", async () => {
+    clearEntityRegistry();
+    registerEntity(
+      defineEntity({
+        name: "Patient",
+        pluralName: "Patients",
+        description: "Test",
+        fields: [
+          { name: "name", type: "text", required: true, description: "Name" },
+          { name: "ssn", type: "text", required: false, description: "SSN", sensitive: true },
+        ],
+        ui: { icon: "user", listColumns: ["name"], searchFields: ["name"], defaultSort: { field: "name", direction: "asc" } },
+      })
+    );
+    const tenant = `tenant-redact-${Date.now()}`;
+    const wh = await registerWebhook(makeRegistration({ tenantId: tenant, eventType: "patient.*" }));
+    const job = deliveryJob(wh);
+    job.payload.eventType = "patient.updated";
+    job.payload.body = JSON.stringify({
+      event: "patient.updated",
+      data: { id: "p-1", name: "Ada", ssn: "123-45-6789", changes: { ssn: "123-45-6789" } },
+    });
+    const fetchMock = stubFetch(200);
+
+    await runDeliveryJob(job);
+
+    expect(fetchMock.mock.calls[0][1].body).toBe(job.payload.body);
+    const logged = JSON.parse((await getDeliveryLog(wh.id))[0].requestBody!);
+    expect(logged.data).toEqual({ id: "p-1", name: "Ada", ssn: "[redacted]", changes: { ssn: "[redacted]" } });
+    clearEntityRegistry();
+  });
+
+  it("delivers and redelivers the plaintext of fields encrypted in the queued job", async () => {
+    clearEntityRegistry();
+    registerEntity(
+      defineEntity({
+        name: "Patient",
+        pluralName: "Patients",
+        description: "Test",
+        fields: [{ name: "ssn", type: "text", required: false, description: "SSN", sensitive: true }],
+        ui: { icon: "user", listColumns: ["ssn"], searchFields: [], defaultSort: { field: "ssn", direction: "asc" } },
+      })
+    );
+    setEncryptionKeys([{ id: "k1", key: Buffer.alloc(32, 7) }]);
+    const tenant = `tenant-sealed-${Date.now()}`;
+    const wh = await registerWebhook(makeRegistration({ tenantId: tenant, eventType: "patient.*" }));
+    const job = deliveryJob(wh);
+    job.payload.eventType = "patient.created";
+    job.payload.body = JSON.stringify({ event: "patient.created", data: { id: "p-1", ssn: encryptValue("123-45-6789") } });
+    const expected = JSON.stringify({ event: "patient.created", data: { id: "p-1", ssn: "123-45-6789" } });
+
+    let fetchMock = stubFetch(200);
+    await runDeliveryJob(job);
+    expect(fetchMock.mock.calls[0][1].body).toBe(expected);
+
+    fetchMock = stubFetch(200);
+    await redeliverWebhook(tenant, wh.id, job.payload.deliveryId);
+    expect(fetchMock.mock.calls[0][1].body).toBe(expected);
+    resetEncryption();
+    clearEntityRegistry();
+  });
+
+  it("pings a webhook without counting failures", async () => {
+    const tenant = `tenant-ping-${Date.now()}`;
+    const wh = await registerWebhook(makeRegistration({ tenantId: tenant }));
+    const fetchMock = stubFetch(500, "boom");
+
+    const delivery = await pingWebhook(tenant, wh.id);
+
+    expect(delivery).toMatchObject({ eventType: "webhook.ping", status: "failed", statusCode: 500, responseBody: "boom" });
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({ event: "webhook.ping", data: { webhookId: wh.id } });
+    expect((await listWebhooks(tenant))[0].consecutiveFailures).toBe(0);
+    expect(await pingWebhook("another-tenant", wh.id)).toBeNull();
+  });
+});
@@ -29,7 +29,30 @@ export {
 export { initDatabase, getDatabase, closeDatabase } from "./core/database/connection.js";
 export { buildTableSchema, getTableSchema, getAllTableSchemas, toTableName, toColumnName, fromColumnName, clearTableRegistry } from "./core/database/schema-builder.js";
 export { createDatabaseClient } from "./core/database/client.js";
-export { runMigrations, runPlatformMigrations } from "./core/database/migrate.js";
+export {
+  runMigrations,
+  runPlatformMigrations,
+  planMigrations,
+  applyMigrationPlan,
+  formatMigrationPlan,
+  MigrationDriftError,
+  type MigrationPlan,
+  type MigrationStep,
+  type MigrationStepKind,
+  type MigrationDrift,
+  type MigrationOptions,
+} from "./core/database/migrate.js";
+export { ConflictError } from "./core/database/constraints.js";
+export { resolveToManyRelationships, type ToManyRelationship, type JunctionTable } from "./core/database/relationships.js";
+export {
+  isSoftDelete,
+  getRetentionDays,
+  purgeExpiredRecords,
+  startTrashRetention,
+  stopTrashRetention,
+  DEFAULT_RETENTION_DAYS,
+  type PurgeResult,
+} from "./core/database/soft-delete.js";
 
 // Action Bus
 export { dispatch, type ActionResult, type ActionErrorType } from "./core/action-bus/bus.js";
@@ -40,11 +63,41 @@ export { WorkflowError, validateWorkflowTransitions, type WorkflowTransitionResu
 export { createLogger } from "./core/action-bus/middleware/logging.js";
 
 // Event Bus
-export { subscribe, subscribeAll, publish, getSubscriberCount, clearSubscribers } from "./core/event-bus/index.js";
+export {
+  subscribe,
+  subscribeAll,
+  publish,
+  getSubscriberCount,
+  clearSubscribers,
+  getEventTrace,
+  runWithEventTrace,
+  replayDeadLetter,
+  type EventTrace,
+  type PublishOptions,
+} from "./core/event-bus/index.js";
+export { matchesEventPattern, isValidEventPattern } from "./core/event-bus/pattern.js";
+export { startOutboxRelay, stopOutboxRelay, relayOutbox } from "./core/event-bus/outbox.js";
+export {
+  listDeadLetters,
+  type EventDeadLetter,
+  type DeadLetterListQuery,
+  type DeadLetterListResult,
+} from "./core/event-bus/dead-letters.js";
 
 // Entity Manager
 export { registerEntity, registerEntities, getEntity, getEntityByPlural, getAllEntities } from "./core/entity-manager/entity-registry.js";
+export {
+  validateEntityDefinition,
+  validateEntityDefinitions,
+  assertValidEntity,
+  EntityDefinitionError,
+  type EntityIssue,
+  type EntityIssueCode,
+  type EntityValidationOptions,
+} from "./core/entity-manager/entity-validator.js";
 export { generateCRUDActions } from "./core/entity-manager/crud-generator.js";
+export { generateRelationshipActions } from "./core/entity-manager/relationship-actions.js";
+export { generateHistoryActions } from "./core/entity-manager/history-actions.js";
 
 // Authentication
 export { initAuthProvider, getAuthProvider, setAuthProvider } from "./auth/index.js";
@@ -57,6 +110,7 @@ export {
   getAIProvider,
   setAIProvider,
   registerAICapability,
+  applyAICapability,
   wireAITrigger,
   registerEntityAICapabilities,
   NullAIProvider,
@@ -68,6 +122,44 @@ export {
   type AIRequestOptions,
 } from "./ai/index.js";
 
+// AI Scheduler (on_schedule capabilities)
+export {
+  startAIScheduler,
+  stopAIScheduler,
+  runScheduledCapability,
+  runScheduleForTenant,
+  listAISchedules,
+  listScheduleRuns,
+  pauseSchedule,
+  resumeSchedule,
+  listSchedulePauses,
+  type AIScheduleInfo,
+  type ScheduleRun,
+  type ScheduleRunStatus,
+  type SchedulePause,
+} from "./ai/index.js";
+
+// Cron expressions
+export { parseCron, nextCronRun, isValidCron, type CronSchedule } from "./core/cron/index.js";
+
+// Background jobs
+export {
+  enqueueJob,
+  createJobQueue,
+  registerJobHandler,
+  registerJobSchedule,
+  listJobs,
+  retryJob,
+  startJobWorker,
+  stopJobWorker,
+  type JobStatus,
+  type JobRecord,
+  type JobListQuery,
+  type JobListResult,
+  type JobScheduleDefinition,
+  type JobWorkerOptions,
+} from "./core/jobs/index.js";
+
 // AI Command Interpreter
 export { interpretCommand, type CommandResult, type ChatMessage } from "./ai/index.js";
 
@@ -121,9 +213,54 @@ export {
   type UploadResult,
 } from "./core/storage/index.js";
 
+// Field Encryption
+export {
+  initEncryption,
+  setEncryptionKeys,
+  isEncryptionEnabled,
+  getActiveKeyId,
+  parseEncryptionKeys,
+  encryptValue,
+  decryptValue,
+  isEncryptedValue,
+  encryptRecord,
+  decryptRecord,
+  getSensitiveFields,
+  resetEncryption,
+  type EncryptionKey,
+} from "./core/encryption/index.js";
+export { rotateEncryptedFields, type RotationResult } from "./core/encryption/rotation.js";
+
 // Audit Logging
 export { writeAuditLog, queryAuditLog, type AuditLogQuery, type AuditLogEntry, type AuditLogResult } from "./core/audit/index.js";
 
+// Record Version History
+export {
+  recordVersion,
+  listVersions,
+  getVersion,
+  takeSnapshot,
+  diffSnapshots,
+  type RecordVersion,
+  type FieldChange,
+  type FieldChanges,
+  type VersionListResult,
+} from "./core/history/index.js";
+
+// Saved Views
+export {
+  listViews,
+  getView,
+  createView,
+  updateView,
+  deleteView,
+  setDefaultView,
+  validateViewConfig,
+  type SavedView,
+  type SavedViewConfig,
+  type ViewMode,
+} from "./core/views/index.js";
+
 // Webhooks
 export {
   initWebhooks,
@@ -131,9 +268,24 @@ export {
   removeWebhook,
   listWebhooks,
   getDeliveryLog,
+  rotateWebhookSecret,
+  toPublicWebhook,
+  getWebhook,
+  setWebhookActive,
+  pingWebhook,
+  redeliverWebhook,
   type WebhookRegistration,
+  type WebhookInput,
   type WebhookDelivery,
+  type PublicWebhook,
 } from "./core/webhooks/index.js";
+export {
+  verifyWebhookSignature,
+  computeWebhookSignature,
+  generateWebhookSecret,
+  SIGNATURE_HEADER,
+  type VerifyWebhookSignatureOptions,
+} from "./core/webhooks/signature.js";
 
 // Chat Persistence
 export {
@@ -1,7 +1,8 @@
 /**
  * DataTable — reusable table for entity list views.
  * Renders column headers, row checkboxes, formatted values,
- * and per-row action buttons.
+ * and per-row action buttons. Headers of `sortableColumns` toggle
+ * the sort through `onSort` when it is provided.
  */
 
 import { formatValue, columnToLabel } from "./utils";
@@ -14,6 +15,10 @@ interface DataTableProps {
   onToggleSelectAll: () => void;
   onRowClick: (id: string) => void;
   onDelete: (id: string) => void;
+  /** Current sort, shown as an arrow on the sorted column */
+  sort?: { field: string; direction: "asc" | "desc" } | null;
+  sortableColumns?: string[];
+  onSort?: (field: string) => void;
 }
 
 export function DataTable({
@@ -24,6 +29,9 @@ export function DataTable({
   onToggleSelectAll,
   onRowClick,
   onDelete,
+  sort,
+  sortableColumns,
+  onSort,
 }: DataTableProps) {
   return (
     <div className="border border-border rounded-lg overflow-hidden">
@@ -44,7 +52,17 @@ export function DataTable({
                 key={col}
                 className="text-left text-xs font-medium text-muted-foreground uppercase tracking-wider px-4 py-3"
               >
-                {columnToLabel(col)}
+                {onSort && sortableColumns?.includes(col) ? (
+                  <button
+                    onClick={() => onSort(col)}
+                    className="inline-flex items-center gap-1 uppercase tracking-wider hover:text-foreground"
+                  >
+                    {columnToLabel(col)}
+                    {sort?.field === col && <span aria-hidden>{sort.direction === "asc" ? "▲" : "▼"}</span>}
+                  </button>
+                ) : (
+                  columnToLabel(col)
+                )}
               </th>
             ))}
             <th className="w-24 px-4 py-3" />
@@ -6,10 +6,22 @@
  *
  * This is the SINGLE source of truth for how field types map to inputs.
  * Adding a new field type? Add the case here — all pages get it automatically.
+ *
+ * A field's `validations` are checked as the value changes, with the same
+ * rules and messages the API applies, and reported through the browser's
+ * constraint validation — the form won't submit while a rule is broken.
+ *
+ * Computed and rollup fields render as a read-only input showing the
+ * stored value.
+ *
+ * Like every other value, lists and JSON travel as strings: multi_enum and
+ * tags values are JSON arrays (`["red","blue"]`, or "" for none) and json
+ * values are JSON text. The pages JSON.parse them on submit.
  */
 
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { columnToLabel } from "./utils";
+import { checkFieldValidations, describeRollup, isArrayFieldType, isDerivedField } from "@metasaas/contracts";
 import type { FieldDefinition } from "@metasaas/contracts";
 
 /** Standard CSS class applied to all form inputs for visual consistency */
@@ -44,6 +56,13 @@ interface FieldInputProps {
    * When provided, the file input handles upload automatically.
    */
   onFileUpload?: (file: File) => Promise<string>;
+  /** For tags fields: tags already in use, offered as autocomplete */
+  suggestions?: string[];
+  /**
+   * For user fields: the workspace members to choose from.
+   * Without them, the user id is typed in a text input.
+   */
+  memberOptions?: RelationshipOption[];
 }
 
 /**
@@ -51,7 +70,36 @@ interface FieldInputProps {
  * Every field type in @metasaas/contracts should have a corresponding case here.
  * When relationshipOptions is provided, renders a dropdown for FK selection.
  */
-export function FieldInput({ field, value, onChange, relationshipOptions, allowedOptions, onFileUpload }: FieldInputProps) {
+export function FieldInput({
+  field,
+  value,
+  onChange,
+  relationshipOptions,
+  allowedOptions,
+  onFileUpload,
+  suggestions,
+  memberOptions,
+}: FieldInputProps) {
+  const inputRef = useRef<HTMLInputElement & HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.setCustomValidity(validationMessage(field, value) ?? "");
+  }, [field, value]);
+
+  // Computed or rollup field — derived by the API, never edited
+  if (isDerivedField(field)) {
+    return (
+      <input
+        type="text"
+        className={`${BASE_INPUT_CLASS} bg-muted text-muted-foreground`}
+        value={value}
+        readOnly
+        placeholder="Calculated on save"
+        title={field.rollup ? describeRollup(field.rollup) : `= ${field.computed}`}
+      />
+    );
+  }
+
   // Relationship field — render a dropdown of related records
   if (relationshipOptions) {
     return (
@@ -85,6 +133,7 @@ export function FieldInput({ field, value, onChange, relationshipOptions, allowe
       return (
         <textarea
           className={`${BASE_INPUT_CLASS} min-h-[100px]`}
+          ref={inputRef}
           value={value}
           onChange={(e) => onChange(e.target.value)}
           placeholder={field.description}
@@ -131,6 +180,81 @@ export function FieldInput({ field, value, onChange, relationshipOptions, allowe
       );
     }
 
+    case "multi_enum": {
+      const selected = parseList(value);
+      const toggle = (opt: string, checked: boolean) => {
+        const next = checked ? [...selected, opt] : selected.filter((v) => v !== opt);
+        onChange(next.length > 0 ? JSON.stringify(next) : "");
+      };
+      return (
+        <div className="flex flex-wrap gap-x-4 gap-y-2" role="group" aria-label={columnToLabel(field.name)}>
+          {field.options?.map((opt) => (
+            <label key={opt} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={selected.includes(opt)}
+                onChange={(e) => toggle(opt, e.target.checked)}
+                className="rounded border-input accent-primary"
+              />
+              {opt.charAt(0).toUpperCase() + opt.slice(1).replace(/_/g, " ")}
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    case "tags":
+      return (
+        <TagsInput
+          name={field.name}
+          value={value}
+          onChange={onChange}
+          suggestions={suggestions}
+          placeholder={field.description}
+          inputRef={inputRef}
+        />
+      );
+
+    case "json":
+      return (
+        <textarea
+          className={`${BASE_INPUT_CLASS} min-h-[100px] font-mono`}
+          ref={inputRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.description}
+          spellCheck={false}
+        />
+      );
+
+    case "user":
+      if (memberOptions) {
+        return (
+          <select
+            className={BASE_INPUT_CLASS}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+          >
+            <option value="">Select {columnToLabel(field.name)}</option>
+            {memberOptions.map((opt) => (
+              <option key={opt.value} value={opt.value}>
+                {opt.label}
+              </option>
+            ))}
+          </select>
+        );
+      }
+      return (
+        <input
+          type="text"
+          className={BASE_INPUT_CLASS}
+          ref={inputRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.description}
+        />
+      );
+
     case "date":
       return (
         <input
@@ -158,6 +282,7 @@ export function FieldInput({ field, value, onChange, relationshipOptions, allowe
         <input
           type="number"
           className={BASE_INPUT_CLASS}
+          ref={inputRef}
           value={value}
           onChange={(e) => onChange(e.target.value)}
           placeholder={field.description}
@@ -170,6 +295,7 @@ export function FieldInput({ field, value, onChange, relationshipOptions, allowe
         <input
           type="email"
           className={BASE_INPUT_CLASS}
+          ref={inputRef}
           value={value}
           onChange={(e) => onChange(e.target.value)}
           placeholder={field.description}
@@ -181,6 +307,7 @@ export function FieldInput({ field, value, onChange, relationshipOptions, allowe
         <input
           type="url"
           className={BASE_INPUT_CLASS}
+          ref={inputRef}
           value={value}
           onChange={(e) => onChange(e.target.value)}
           placeholder={field.description}
@@ -192,6 +319,7 @@ export function FieldInput({ field, value, onChange, relationshipOptions, allowe
         <input
           type="tel"
           className={BASE_INPUT_CLASS}
+          ref={inputRef}
           value={value}
           onChange={(e) => onChange(e.target.value)}
           placeholder={field.description}
@@ -203,6 +331,7 @@ export function FieldInput({ field, value, onChange, relationshipOptions, allowe
         <input
           type="text"
           className={BASE_INPUT_CLASS}
+          ref={inputRef}
           value={value}
           onChange={(e) => onChange(e.target.value)}
           placeholder={field.description}
@@ -211,6 +340,119 @@ export function FieldInput({ field, value, onChange, relationshipOptions, allowe
   }
 }
 
+/**
+ * The message of the first validation rule the input value breaks, or
+ * null. Empty values are left to `required`.
+ */
+function validationMessage(field: FieldDefinition, value: string): string | null {
+  if (value === "") return null;
+  if (field.type === "json") {
+    try {
+      JSON.parse(value);
+      return null;
+    } catch {
+      return "Must be valid JSON";
+    }
+  }
+  if (isArrayFieldType(field.type)) {
+    return checkFieldValidations(field.type, parseList(value), field.validations);
+  }
+  const numeric = field.type === "number" || field.type === "currency" || field.type === "percentage";
+  return checkFieldValidations(field.type, numeric ? parseFloat(value) : value, field.validations);
+}
+
+/** The items of a multi_enum or tags form value (a JSON array, or "" for none) */
+function parseList(value: string): string[] {
+  if (!value) return [];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Tag editor for the "tags" field type: the tags as removable chips, and
+ * an input that adds one on Enter or comma — Backspace in the empty input
+ * removes the last. `suggestions` are offered through a datalist.
+ * Validations are reported on the input, like a plain text field.
+ */
+function TagsInput({
+  name,
+  value,
+  onChange,
+  suggestions,
+  placeholder,
+  inputRef,
+}: {
+  name: string;
+  value: string;
+  onChange: (value: string) => void;
+  suggestions?: string[];
+  placeholder?: string;
+  inputRef: React.Ref<HTMLInputElement & HTMLTextAreaElement>;
+}) {
+  const [draft, setDraft] = useState("");
+  const tags = parseList(value);
+  const listId = `${name}-tag-suggestions`;
+
+  function update(next: string[]) {
+    onChange(next.length > 0 ? JSON.stringify(next) : "");
+  }
+
+  function add(raw: string) {
+    const tag = raw.trim();
+    if (tag && !tags.includes(tag)) update([...tags, tag]);
+    setDraft("");
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      add(draft);
+    } else if (e.key === "Backspace" && draft === "" && tags.length > 0) {
+      update(tags.slice(0, -1));
+    }
+  }
+
+  return (
+    <div className={`${BASE_INPUT_CLASS} flex flex-wrap items-center gap-1.5`}>
+      {tags.map((tag) => (
+        <span key={tag} className="inline-flex items-center gap-1 rounded bg-muted px-2 py-0.5 text-xs">
+          {tag}
+          <button
+            type="button"
+            className="text-muted-foreground hover:text-foreground"
+            aria-label={`Remove ${tag}`}
+            onClick={() => update(tags.filter((t) => t !== tag))}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        ref={inputRef}
+        className="flex-1 min-w-[8rem] bg-transparent outline-none placeholder:text-muted-foreground"
+        value={draft}
+        list={suggestions?.length ? listId : undefined}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => add(draft)}
+        placeholder={tags.length === 0 ? placeholder : undefined}
+      />
+      {suggestions?.length ? (
+        <datalist id={listId}>
+          {suggestions.filter((s) => !tags.includes(s)).map((s) => (
+            <option key={s} value={s} />
+          ))}
+        </datalist>
+      ) : null}
+    </div>
+  );
+}
+
 const IMAGE_EXTENSIONS = new Set(["png", "jpg", "jpeg", "gif", "webp", "svg"]);
 
 function getFileExtension(name: string): string {
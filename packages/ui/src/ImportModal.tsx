@@ -115,6 +115,17 @@ export function ImportModal({
             case "boolean":
               data[fieldName] = values[j].toLowerCase() === "true";
               break;
+            case "multi_enum":
+            case "tags":
+              data[fieldName] = values[j].split(",").map((v) => v.trim()).filter(Boolean);
+              break;
+            case "json":
+              try {
+                data[fieldName] = JSON.parse(values[j]);
+              } catch {
+                data[fieldName] = values[j];
+              }
+              break;
             default:
               data[fieldName] = values[j];
           }
@@ -1,8 +1,12 @@
 /**
- * Pagination — offset-based page navigation for list views.
+ * Pagination — page navigation for list views.
  *
- * Shows: "Showing 1–25 of 142 records" with Previous / Next buttons
- * and numbered page links for direct access (up to 7 visible pages).
+ * Pagination (offset-based) shows: "Showing 1–25 of 142 records" with
+ * Previous / Next buttons and numbered page links for direct access
+ * (up to 7 visible pages).
+ *
+ * CursorPagination (cursor-based) only steps to the previous or next
+ * page — cursors can't jump — and shows the total when it is known.
  */
 
 interface PaginationProps {
@@ -68,6 +72,53 @@ export function Pagination({ page, pageSize, total, onPageChange }: PaginationPr
   );
 }
 
+interface CursorPaginationProps {
+  /** Current page (1-indexed), counted by the caller as it steps */
+  page: number;
+  /** Records per page */
+  pageSize: number;
+  /** Rows on the current page */
+  rowCount: number;
+  /** Total record count, when the API returned one */
+  total?: number;
+  /** Whether a previous / next page exists (the API returned a cursor) */
+  hasPrev: boolean;
+  hasNext: boolean;
+  onPrev: () => void;
+  onNext: () => void;
+}
+
+export function CursorPagination({
+  page,
+  pageSize,
+  rowCount,
+  total,
+  hasPrev,
+  hasNext,
+  onPrev,
+  onNext,
+}: CursorPaginationProps) {
+  if (!hasPrev && !hasNext) return null;
+
+  const start = (page - 1) * pageSize + 1;
+  const end = start + rowCount - 1;
+
+  return (
+    <div className="flex items-center justify-between mt-4 text-sm">
+      <span className="text-muted-foreground">
+        {rowCount === 0
+          ? "No records on this page"
+          : `Showing ${start}–${end}${total !== undefined ? ` of ${total}` : ""} records`}
+      </span>
+
+      <div className="flex items-center gap-1">
+        <PageButton disabled={!hasPrev} onClick={onPrev} label="Previous" />
+        <PageButton disabled={!hasNext} onClick={onNext} label="Next" />
+      </div>
+    </div>
+  );
+}
+
 function PageButton({
   disabled,
   onClick,
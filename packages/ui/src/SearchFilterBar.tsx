@@ -1,11 +1,31 @@
 /**
- * SearchFilterBar — text search + enum dropdown filters for entity list pages.
- * Renders a search input (when entity has searchFields) and a dropdown
- * for each enum field, plus a "Clear filters" button.
+ * SearchFilterBar — text search + filters for entity list pages.
+ * Renders a search input (when entity has searchFields), a dropdown
+ * for each enum field, a filter builder for conditions on any field
+ * (comparisons, lists, empty checks, "match any" alternatives), chips
+ * for the active conditions, saved filters and a "Clear filters" button.
+ *
+ * Filters are query parameters in the REST list syntax
+ * (see contracts/filter.ts), e.g. `amount[gte]=100` or `or.a.stage=won`,
+ * so `activeFilters` can be passed straight to the list endpoint.
  */
 
+import { useState } from "react";
 import { columnToLabel } from "./utils";
-import type { FieldDefinition } from "@metasaas/contracts";
+import {
+  isArrayFieldType,
+  operatorsForFieldType,
+  filterParam,
+  parseFilterParam,
+  type FieldDefinition,
+  type FilterOperator,
+} from "@metasaas/contracts";
+
+/** A named set of filters the user saved for later */
+export interface SavedFilter {
+  name: string;
+  filters: Record<string, string>;
+}
 
 interface SearchFilterBarProps {
   pluralName: string;
@@ -15,8 +35,40 @@ interface SearchFilterBarProps {
   onSearchChange: (term: string) => void;
   activeFilters: Record<string, string>;
   onFilterChange: (filters: Record<string, string>) => void;
+  /** Saved filters to offer; saving is enabled when onSaveFilter is set */
+  savedFilters?: SavedFilter[];
+  onSaveFilter?: (name: string) => void;
+  onDeleteSavedFilter?: (name: string) => void;
+}
+
+const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  eq: "is",
+  ne: "is not",
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+  in: "is any of",
+  nin: "is none of",
+  null: "is empty",
+  between: "between",
+};
+
+/** Labels on multi_enum and tags fields, where the operators test membership */
+const LIST_OPERATOR_LABELS: Partial<Record<FilterOperator, string>> = {
+  eq: "has",
+  ne: "doesn't have",
+  in: "has any of",
+  nin: "has none of",
+};
+
+function operatorLabel(op: FilterOperator, field: FieldDefinition | undefined): string {
+  return (field && isArrayFieldType(field.type) && LIST_OPERATOR_LABELS[op]) || OPERATOR_LABELS[op];
 }
 
+const inputClass =
+  "rounded-md border border-input bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring";
+
 export function SearchFilterBar({
   pluralName,
   fields,
@@ -25,49 +77,331 @@ export function SearchFilterBar({
   onSearchChange,
   activeFilters,
   onFilterChange,
+  savedFilters,
+  onSaveFilter,
+  onDeleteSavedFilter,
 }: SearchFilterBarProps) {
+  const [building, setBuilding] = useState(false);
+  const [saveName, setSaveName] = useState<string | null>(null);
+
   const hasActiveFilters = searchTerm || Object.keys(activeFilters).length > 0;
   const enumFields = fields.filter((f) => f.type === "enum" && f.options?.length);
+  const filterableFields = fields.filter((f) => !f.sensitive);
+
+  /** Conditions not already shown by an enum dropdown */
+  const conditions = Object.entries(activeFilters).filter(([param]) => {
+    const parsed = parseFilterParam(param);
+    return !(parsed && parsed.op === "eq" && !parsed.group && enumFields.some((f) => f.name === param));
+  });
+
+  function removeFilter(param: string) {
+    const next = { ...activeFilters };
+    delete next[param];
+    onFilterChange(next);
+  }
 
   return (
-    <div className="flex flex-wrap items-center gap-3 mb-4">
-      {searchFields.length > 0 && (
-        <input
-          type="text"
-          placeholder={`Search ${pluralName.toLowerCase()}...`}
-          value={searchTerm}
-          onChange={(e) => onSearchChange(e.target.value)}
-          className="w-64 rounded-md border border-input bg-background px-3 py-2 text-sm placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+    <div className="mb-4 space-y-2">
+      <div className="flex flex-wrap items-center gap-3">
+        {searchFields.length > 0 && (
+          <input
+            type="text"
+            placeholder={`Search ${pluralName.toLowerCase()}...`}
+            value={searchTerm}
+            onChange={(e) => onSearchChange(e.target.value)}
+            className="w-64 rounded-md border border-input bg-background px-3 py-2 text-sm placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+          />
+        )}
+        {enumFields.map((f) => (
+          <select
+            key={f.name}
+            value={activeFilters[f.name] ?? ""}
+            onChange={(e) => {
+              const next = { ...activeFilters };
+              if (e.target.value) next[f.name] = e.target.value;
+              else delete next[f.name];
+              onFilterChange(next);
+            }}
+            className={inputClass}
+          >
+            <option value="">{columnToLabel(f.name)}: All</option>
+            {f.options!.map((opt) => (
+              <option key={opt} value={opt}>
+                {opt.charAt(0).toUpperCase() + opt.slice(1).replace(/_/g, " ")}
+              </option>
+            ))}
+          </select>
+        ))}
+        {filterableFields.length > 0 && !building && (
+          <button
+            onClick={() => setBuilding(true)}
+            className="text-sm text-muted-foreground hover:text-foreground"
+          >
+            + Add filter
+          </button>
+        )}
+        {onSaveFilter && Object.keys(activeFilters).length > 0 && saveName === null && (
+          <button
+            onClick={() => setSaveName("")}
+            className="text-xs text-muted-foreground hover:text-foreground"
+          >
+            Save filter
+          </button>
+        )}
+        {saveName !== null && (
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!saveName.trim()) return;
+              onSaveFilter?.(saveName.trim());
+              setSaveName(null);
+            }}
+          >
+            <input
+              autoFocus
+              placeholder="Filter name"
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              className={`w-40 ${inputClass}`}
+            />
+            <button type="submit" className="text-xs font-medium hover:underline">Save</button>
+            <button
+              type="button"
+              onClick={() => setSaveName(null)}
+              className="text-xs text-muted-foreground hover:text-foreground"
+            >
+              Cancel
+            </button>
+          </form>
+        )}
+        {hasActiveFilters && (
+          <button
+            onClick={() => { onSearchChange(""); onFilterChange({}); }}
+            className="text-xs text-muted-foreground hover:text-foreground"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {building && (
+        <FilterBuilder
+          fields={filterableFields}
+          onAdd={(param, value) => {
+            onFilterChange({ ...activeFilters, [param]: value });
+            setBuilding(false);
+          }}
+          onCancel={() => setBuilding(false)}
+          nextGroup={nextGroupName(activeFilters)}
         />
       )}
-      {enumFields.map((f) => (
+
+      {(conditions.length > 0 || (savedFilters && savedFilters.length > 0)) && (
+        <div className="flex flex-wrap items-center gap-2">
+          {conditions.map(([param, value]) => (
+            <span
+              key={param}
+              className="inline-flex items-center gap-1 rounded-full bg-muted px-2.5 py-1 text-xs"
+            >
+              {describeCondition(param, value, fields)}
+              <button
+                onClick={() => removeFilter(param)}
+                aria-label={`Remove filter ${param}`}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          {savedFilters?.map((saved) => (
+            <span
+              key={saved.name}
+              className="inline-flex items-center gap-1 rounded-full border border-border px-2.5 py-1 text-xs"
+            >
+              <button onClick={() => onFilterChange(saved.filters)} className="hover:underline">
+                ★ {saved.name}
+              </button>
+              {onDeleteSavedFilter && (
+                <button
+                  onClick={() => onDeleteSavedFilter(saved.name)}
+                  aria-label={`Delete saved filter ${saved.name}`}
+                  className="text-muted-foreground hover:text-foreground"
+                >
+                  ×
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Filter builder
+// ---------------------------------------------------------------------------
+
+/** Field → operator → value form that produces one filter parameter */
+function FilterBuilder({
+  fields,
+  onAdd,
+  onCancel,
+  nextGroup,
+}: {
+  fields: FieldDefinition[];
+  onAdd: (param: string, value: string) => void;
+  onCancel: () => void;
+  nextGroup: string;
+}) {
+  const [fieldName, setFieldName] = useState(fields[0]?.name ?? "");
+  const field = fields.find((f) => f.name === fieldName) ?? fields[0];
+  const operators = operatorsForFieldType(field.type);
+  const [op, setOp] = useState<FilterOperator>(operators[0]);
+  const [value, setValue] = useState("");
+  const [value2, setValue2] = useState("");
+  const [matchAny, setMatchAny] = useState(false);
+
+  const activeOp = operators.includes(op) ? op : operators[0];
+  const inputType =
+    field.type === "date" ? "date"
+    : field.type === "datetime" ? "datetime-local"
+    : ["number", "currency", "percentage"].includes(field.type) ? "number"
+    : "text";
+
+  function submit() {
+    let operand = value.trim();
+    if (activeOp === "between") operand = `${value.trim()},${value2.trim()}`;
+    if (activeOp === "null") operand = value || "true";
+    if (!operand || (activeOp === "between" && (!value.trim() || !value2.trim()))) return;
+    onAdd(filterParam(field.name, activeOp, matchAny ? nextGroup : undefined), operand);
+  }
+
+  return (
+    <form
+      className="flex flex-wrap items-center gap-2 rounded-md border border-border bg-card p-2"
+      onSubmit={(e) => { e.preventDefault(); submit(); }}
+    >
+      <select
+        aria-label="Filter field"
+        value={field.name}
+        onChange={(e) => { setFieldName(e.target.value); setValue(""); setValue2(""); }}
+        className={inputClass}
+      >
+        {fields.map((f) => (
+          <option key={f.name} value={f.name}>{columnToLabel(f.name)}</option>
+        ))}
+      </select>
+      <select
+        aria-label="Filter operator"
+        value={activeOp}
+        onChange={(e) => { setOp(e.target.value as FilterOperator); setValue(""); }}
+        className={inputClass}
+      >
+        {operators.map((o) => (
+          <option key={o} value={o}>{operatorLabel(o, field)}</option>
+        ))}
+      </select>
+
+      {activeOp === "null" ? (
         <select
-          key={f.name}
-          value={activeFilters[f.name] ?? ""}
-          onChange={(e) => {
-            const next = { ...activeFilters };
-            if (e.target.value) next[f.name] = e.target.value;
-            else delete next[f.name];
-            onFilterChange(next);
-          }}
-          className="rounded-md border border-input bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+          aria-label="Filter value"
+          value={value || "true"}
+          onChange={(e) => setValue(e.target.value)}
+          className={inputClass}
         >
-          <option value="">{columnToLabel(f.name)}: All</option>
-          {f.options!.map((opt) => (
-            <option key={opt} value={opt}>
-              {opt.charAt(0).toUpperCase() + opt.slice(1).replace(/_/g, " ")}
-            </option>
-          ))}
+          <option value="true">yes</option>
+          <option value="false">no</option>
+        </select>
+      ) : field.type === "boolean" ? (
+        <select
+          aria-label="Filter value"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          className={inputClass}
+        >
+          <option value="">—</option>
+          <option value="true">true</option>
+          <option value="false">false</option>
         </select>
-      ))}
-      {hasActiveFilters && (
-        <button
-          onClick={() => { onSearchChange(""); onFilterChange({}); }}
-          className="text-xs text-muted-foreground hover:text-foreground"
+      ) : (field.type === "enum" || field.type === "multi_enum") && (activeOp === "eq" || activeOp === "ne") ? (
+        <select
+          aria-label="Filter value"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          className={inputClass}
         >
-          Clear filters
-        </button>
+          <option value="">—</option>
+          {field.options?.map((opt) => (
+            <option key={opt} value={opt}>{opt}</option>
+          ))}
+        </select>
+      ) : (
+        <input
+          aria-label="Filter value"
+          type={activeOp === "in" || activeOp === "nin" ? "text" : inputType}
+          placeholder={activeOp === "in" || activeOp === "nin" ? "a, b, c" : "Value"}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          className={`w-40 ${inputClass}`}
+        />
       )}
-    </div>
+      {activeOp === "between" && (
+        <>
+          <span className="text-xs text-muted-foreground">and</span>
+          <input
+            aria-label="Filter value to"
+            type={inputType}
+            value={value2}
+            onChange={(e) => setValue2(e.target.value)}
+            className={`w-40 ${inputClass}`}
+          />
+        </>
+      )}
+
+      <label className="flex items-center gap-1 text-xs text-muted-foreground">
+        <input type="checkbox" checked={matchAny} onChange={(e) => setMatchAny(e.target.checked)} />
+        Match any
+      </label>
+      <button type="submit" className="text-xs font-medium hover:underline">Add</button>
+      <button
+        type="button"
+        onClick={onCancel}
+        className="text-xs text-muted-foreground hover:text-foreground"
+      >
+        Cancel
+      </button>
+    </form>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Human-readable chip text, e.g. "Amount ≥ 100" or "any of: Stage is won" */
+function describeCondition(param: string, value: string, fields: FieldDefinition[]): string {
+  const parsed = parseFilterParam(param);
+  if (!parsed) return `${param} = ${value}`;
+  const label = columnToLabel(parsed.field);
+  let text: string;
+  if (parsed.op === "null") {
+    text = `${label} ${value === "false" ? "is not empty" : "is empty"}`;
+  } else if (parsed.op === "between") {
+    text = `${label} between ${value.split(",").join(" and ")}`;
+  } else {
+    text = `${label} ${operatorLabel(parsed.op, fields.find((f) => f.name === parsed.field))} ${value}`;
+  }
+  return parsed.group ? `any of: ${text}` : text;
+}
+
+/** First unused `or.` group name — each "match any" condition is its own alternative */
+function nextGroupName(filters: Record<string, string>): string {
+  const used = new Set(
+    Object.keys(filters).map((param) => parseFilterParam(param)?.group).filter(Boolean)
   );
+  let n = 1;
+  while (used.has(`g${n}`)) n++;
+  return `g${n}`;
 }
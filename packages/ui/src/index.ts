@@ -10,11 +10,11 @@ export { cn, columnToLabel, formatValue, timeAgo } from "./utils";
 
 // Components
 export { FieldInput, type RelationshipOption } from "./FieldInput";
-export { SearchFilterBar } from "./SearchFilterBar";
+export { SearchFilterBar, type SavedFilter } from "./SearchFilterBar";
 export { BulkActionsBar } from "./BulkActionsBar";
 export { ImportModal } from "./ImportModal";
 export { DataTable } from "./DataTable";
-export { Pagination, buildPageNumbers } from "./Pagination";
+export { Pagination, CursorPagination, buildPageNumbers } from "./Pagination";
 export { ToastProvider, useToast } from "./Toast";
 export { ConfirmDialog } from "./ConfirmDialog";
 export { ListSkeleton, DetailSkeleton, FormSkeleton } from "./Skeleton";
@@ -53,7 +53,9 @@ export function timeAgo(dateStr: string): string {
 
 /**
  * Formats a value for display based on its runtime type.
- * Handles null, undefined, Date, boolean, number, and string.
+ * Handles null, undefined, Date, boolean, number, and string, plus the
+ * lists of multi_enum and tags fields (comma-separated, "—" when empty)
+ * and the objects of json fields (compact JSON).
  *
  * @returns Human-readable string representation
  */
@@ -62,6 +64,10 @@ export function formatValue(value: unknown): string {
   if (value instanceof Date) return value.toLocaleDateString();
   if (typeof value === "boolean") return value ? "Yes" : "No";
   if (typeof value === "number") return value.toLocaleString();
+  if (Array.isArray(value) && value.every((item) => typeof item === "string")) {
+    return value.length > 0 ? value.join(", ") : "—";
+  }
+  if (typeof value === "object") return JSON.stringify(value);
 
   const str = String(value);
   // Detect file keys (contain a "/" and have a file extension) — show filename only